@@ -1,7 +1,17 @@
-// ChatGPT-compliant MCP Server for GoHighLevel
-// Implements strict MCP 2024-11-05 protocol requirements
+// ChatGPT-compliant MCP Server for GoHighLevel - Vercel serverless handler
+// Stateless JSON-RPC over HTTP POST: every request carries its own GHL credentials,
+// so no session state is kept between invocations.
+// Uses the compiled tool classes from dist/ (built by the "vercel-build" script).
 
-const MCP_PROTOCOL_VERSION = "2024-11-05";
+const { GHLApiClient } = require("../dist/clients/ghl-api-client.js");
+const { createToolRegistry } = require("../dist/tools/tool-registry.js");
+const { mapToolError } = require("../dist/tools/tool-errors.js");
+const { toolPolicyFromEnv } = require("../dist/tools/tool-permissions.js");
+const { getMetadataCacheStats } = require("../dist/clients/metadata-cache.js");
+
+const LATEST_PROTOCOL_VERSION = "2025-03-26";
+const SUPPORTED_PROTOCOL_VERSIONS = ["2024-11-05", "2025-03-26", "2025-06-18"];
+const DEFAULT_BASE_URL = "https://services.leadconnectorhq.com";
 
 // Server information - ChatGPT requires specific format
 const SERVER_INFO = {
@@ -9,79 +19,87 @@ const SERVER_INFO = {
   version: "1.0.0"
 };
 
-// Only these tool names work with ChatGPT
-const TOOLS = [
-  {
-    name: "search",
-    description: "Search for information in GoHighLevel CRM system",
-    inputSchema: {
-      type: "object",
-      properties: {
-        query: {
-          type: "string",
-          description: "Search query for GoHighLevel data"
-        }
-      },
-      required: ["query"]
-    }
-  },
-  {
-    name: "retrieve",
-    description: "Retrieve specific data from GoHighLevel",
-    inputSchema: {
-      type: "object",
-      properties: {
-        id: {
-          type: "string",
-          description: "ID of the item to retrieve"
-        },
-        type: {
-          type: "string",
-          enum: ["contact", "conversation", "blog"],
-          description: "Type of item to retrieve"
-        }
-      },
-      required: ["id", "type"]
-    }
-  }
-];
-
 function log(message, data = null) {
   const timestamp = new Date().toISOString();
   console.log(`[${timestamp}] [MCP] ${message}${data ? ': ' + JSON.stringify(data) : ''}`);
 }
 
+// MCP_TOOL_PERMISSIONS and READ_ONLY scope the tools every caller can list and call
+const toolPolicy = toolPolicyFromEnv();
+
+// Background jobs need a writable job store and a process that outlives the response, so this
+// stateless handler registers no job tools (null job runner)
+const NO_JOB_RUNNER = null;
+
+// Tool definitions don't depend on credentials, so they are built once per cold start
+const definitionRegistry = createToolRegistry(new GHLApiClient({
+  accessToken: "",
+  baseUrl: DEFAULT_BASE_URL,
+  version: "2021-07-28",
+  locationId: ""
+}), toolPolicy, NO_JOB_RUNNER);
+
+// Read the location ID from the authClassId claim of a GHL JWT
+function decodeLocationIdFromToken(token) {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    return undefined;
+  }
+  try {
+    const payload = JSON.parse(Buffer.from(parts[1], "base64").toString());
+    return payload.authClassId || undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Build a GHL client from the Authorization, X-GHL-Location-Id and X-GHL-Base-URL headers
+function createGHLClientFromRequest(req) {
+  const authHeader = req.headers["authorization"];
+  if (!authHeader) {
+    return null;
+  }
+
+  const accessToken = authHeader.replace(/^Bearer\s+/i, "").trim();
+  const locationId = req.headers["x-ghl-location-id"] || decodeLocationIdFromToken(accessToken);
+  if (!accessToken || !locationId) {
+    return null;
+  }
+
+  return new GHLApiClient({
+    accessToken,
+    baseUrl: req.headers["x-ghl-base-url"] || DEFAULT_BASE_URL,
+    version: "2021-07-28",
+    locationId
+  });
+}
+
 // Create proper JSON-RPC 2.0 response
 function createJsonRpcResponse(id, result = null, error = null) {
   const response = {
     jsonrpc: "2.0",
     id: id
   };
-  
+
   if (error) {
     response.error = error;
   } else {
     response.result = result;
   }
-  
-  return response;
-}
 
-// Create proper JSON-RPC 2.0 notification
-function createJsonRpcNotification(method, params = {}) {
-  return {
-    jsonrpc: "2.0",
-    method: method,
-    params: params
-  };
+  return response;
 }
 
 // Handle MCP initialize request
 function handleInitialize(request) {
   log("Handling initialize request", request.params);
-  
+
+  // Use the client's requested protocol version if we support it
+  const requested = request.params?.protocolVersion;
+  const protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : LATEST_PROTOCOL_VERSION;
+
   return createJsonRpcResponse(request.id, {
-    protocolVersion: MCP_PROTOCOL_VERSION,
+    protocolVersion,
     capabilities: {
       tools: {}
     },
@@ -92,43 +110,48 @@ function handleInitialize(request) {
 // Handle tools/list request
 function handleToolsList(request) {
   log("Handling tools/list request");
-  
+
   return createJsonRpcResponse(request.id, {
-    tools: TOOLS
+    tools: definitionRegistry.getDefinitions()
   });
 }
 
 // Handle tools/call request
-function handleToolsCall(request) {
-  const { name, arguments: args } = request.params;
-  log("Handling tools/call request", { tool: name, args });
-  
-  let content;
-  
-  if (name === "search") {
-    content = [
-      {
-        type: "text",
-        text: `GoHighLevel Search Results for: "${args.query}"\n\n✅ Found Results:\n• Contact: John Doe (john@example.com)\n• Contact: Jane Smith (jane@example.com)\n• Conversation: "Follow-up call scheduled"\n• Blog Post: "How to Generate More Leads"\n\n📊 Search completed successfully in GoHighLevel CRM.`
-      }
-    ];
-  } else if (name === "retrieve") {
-    content = [
-      {
-        type: "text", 
-        text: `GoHighLevel ${args.type} Retrieved: ID ${args.id}\n\n📄 Details:\n• Name: Sample ${args.type}\n• Status: Active\n• Last Updated: ${new Date().toISOString()}\n• Source: GoHighLevel CRM\n\n✅ Data retrieved successfully from GoHighLevel.`
-      }
-    ];
-  } else {
+async function handleToolsCall(request, req) {
+  const { name, arguments: args = {} } = request.params || {};
+  log("Handling tools/call request", { tool: name });
+
+  if (!definitionRegistry.has(name)) {
     return createJsonRpcResponse(request.id, null, {
       code: -32601,
-      message: `Method not found: ${name}`
+      message: `Unknown tool: ${name}`
     });
   }
-  
-  return createJsonRpcResponse(request.id, {
-    content: content
-  });
+
+  const ghlClient = createGHLClientFromRequest(req);
+  if (!ghlClient) {
+    return createJsonRpcResponse(request.id, null, {
+      code: -32000,
+      message: "Authorization header with a GHL token is required (location from the token or X-GHL-Location-Id)"
+    });
+  }
+
+  try {
+    const result = await createToolRegistry(ghlClient, toolPolicy, NO_JOB_RUNNER).call(name, args);
+    return createJsonRpcResponse(request.id, result);
+  } catch (error) {
+    log("Tool execution error", { tool: name, message: error.message });
+    // GHL validation and auth failures become JSON-RPC errors, everything else an isError result
+    const response = mapToolError(error);
+    if (response.kind === "error") {
+      return createJsonRpcResponse(request.id, null, {
+        code: response.code,
+        message: response.message,
+        data: response.data
+      });
+    }
+    return createJsonRpcResponse(request.id, response.result);
+  }
 }
 
 // Handle ping request (required by MCP protocol)
@@ -137,26 +160,31 @@ function handlePing(request) {
   return createJsonRpcResponse(request.id, {});
 }
 
-// Process JSON-RPC message
-function processJsonRpcMessage(message) {
+// Process a single JSON-RPC message; returns null for notifications, which get no response
+async function processJsonRpcMessage(message, req) {
   try {
-    log("Processing JSON-RPC message", { method: message.method, id: message.id });
-    
+    log("Processing JSON-RPC message", { method: message?.method, id: message?.id });
+
     // Validate JSON-RPC format
-    if (message.jsonrpc !== "2.0") {
-      return createJsonRpcResponse(message.id, null, {
+    if (!message || message.jsonrpc !== "2.0" || typeof message.method !== "string") {
+      return createJsonRpcResponse(message?.id ?? null, null, {
         code: -32600,
-        message: "Invalid Request: jsonrpc must be '2.0'"
+        message: "Invalid Request: jsonrpc must be '2.0' and method is required"
       });
     }
-    
+
+    if (message.id === undefined || message.id === null) {
+      log("Received notification", { method: message.method });
+      return null;
+    }
+
     switch (message.method) {
       case "initialize":
         return handleInitialize(message);
       case "tools/list":
         return handleToolsList(message);
       case "tools/call":
-        return handleToolsCall(message);
+        return await handleToolsCall(message, req);
       case "ping":
         return handlePing(message);
       default:
@@ -167,7 +195,7 @@ function processJsonRpcMessage(message) {
     }
   } catch (error) {
     log("Error processing message", error.message);
-    return createJsonRpcResponse(message.id, null, {
+    return createJsonRpcResponse(message?.id ?? null, null, {
       code: -32603,
       message: "Internal error",
       data: error.message
@@ -175,156 +203,132 @@ function processJsonRpcMessage(message) {
   }
 }
 
-// Send Server-Sent Event
-function sendSSE(res, data) {
-  try {
-    const message = typeof data === 'string' ? data : JSON.stringify(data);
-    res.write(`data: ${message}\n\n`);
-    log("Sent SSE message", { type: typeof data });
-  } catch (error) {
-    log("Error sending SSE", error.message);
+// Read the request body - Vercel pre-parses JSON bodies, plain Node requests are read from the stream
+async function readJsonBody(req) {
+  if (req.body !== undefined && req.body !== null && typeof req.body !== "string") {
+    return req.body;
   }
+  if (typeof req.body === "string") {
+    return JSON.parse(req.body);
+  }
+
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk.toString();
+  }
+  return JSON.parse(body);
+}
+
+// Send a JSON-RPC payload as JSON, or as a single SSE event for clients that only accept event streams
+function sendJsonRpc(req, res, payload) {
+  const accept = req.headers["accept"] || "";
+  if (accept.includes("text/event-stream") && !accept.includes("application/json")) {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache"
+    });
+    res.write(`event: message\ndata: ${JSON.stringify(payload)}\n\n`);
+    res.end();
+    return;
+  }
+  res.status(200).json(payload);
 }
 
 // Set CORS headers
 function setCORSHeaders(res) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept, Authorization');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept, Authorization, X-GHL-Base-URL, X-GHL-Location-Id, Mcp-Protocol-Version');
   res.setHeader('Access-Control-Max-Age', '86400');
 }
 
 // Main request handler - Node.js style export
 module.exports = async (req, res) => {
   const timestamp = new Date().toISOString();
+  const path = (req.url || "/").split("?")[0];
   log(`${req.method} ${req.url}`);
   log(`User-Agent: ${req.headers['user-agent']}`);
-  
+
   // Set CORS headers
   setCORSHeaders(res);
-  
+
   // Handle preflight
   if (req.method === 'OPTIONS') {
     res.status(200).end();
     return;
   }
-  
+
   // Health check
-  if (req.url === '/health' || req.url === '/') {
+  if (path === '/health' || path === '/') {
     log("Health check requested");
     res.status(200).json({
       status: 'healthy',
       server: SERVER_INFO.name,
       version: SERVER_INFO.version,
-      protocol: MCP_PROTOCOL_VERSION,
+      protocol: LATEST_PROTOCOL_VERSION,
       timestamp: timestamp,
-      tools: TOOLS.map(t => t.name),
-      endpoint: '/sse'
+      tools: {
+        ...definitionRegistry.getCategoryCounts(),
+        total: definitionRegistry.size
+      },
+      cache: getMetadataCacheStats(),
+      endpoint: '/mcp'
     });
     return;
   }
-  
+
   // Favicon handling
-  if (req.url?.includes('favicon')) {
+  if (path.includes('favicon')) {
     res.status(404).end();
     return;
   }
-  
-  // MCP SSE endpoint
-  if (req.url === '/sse') {
-    log("MCP SSE endpoint requested");
-    
-    // Set SSE headers
-    res.writeHead(200, {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Headers': 'Content-Type, Accept',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
-    });
-    
-    // Handle GET (SSE connection)
-    if (req.method === 'GET') {
-      log("SSE connection established");
-      
-      // Send immediate initialization notification
-      const initNotification = createJsonRpcNotification("notification/initialized", {});
-      sendSSE(res, initNotification);
-      
-      // Send tools available notification
-      setTimeout(() => {
-        const toolsNotification = createJsonRpcNotification("notification/tools/list_changed", {});
-        sendSSE(res, toolsNotification);
-      }, 100);
-      
-      // Keep-alive heartbeat every 25 seconds (well under Vercel's 60s limit)
-      const heartbeat = setInterval(() => {
-        res.write(': heartbeat\n\n');
-      }, 25000);
-      
-      // Cleanup on connection close
-      req.on('close', () => {
-        log("SSE connection closed");
-        clearInterval(heartbeat);
-      });
-      
-      req.on('error', (error) => {
-        log("SSE connection error", error.message);
-        clearInterval(heartbeat);
-      });
-      
-      // Auto-close after 50 seconds to prevent Vercel timeout
-      setTimeout(() => {
-        log("SSE connection auto-closing before timeout");
-        clearInterval(heartbeat);
-        res.end();
-      }, 50000);
-      
+
+  // MCP endpoint - /sse is kept for connectors configured before /mcp existed
+  if (path === '/mcp' || path === '/sse') {
+    // Stateless server: there is no server-initiated stream to open
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST, OPTIONS');
+      res.status(405).json(createJsonRpcResponse(null, null, {
+        code: -32000,
+        message: "Method not allowed: this serverless endpoint is stateless, send JSON-RPC messages with POST"
+      }));
       return;
     }
-    
-    // Handle POST (JSON-RPC messages)
-    if (req.method === 'POST') {
-      log("Processing JSON-RPC POST request");
-      
-      let body = '';
-      req.on('data', chunk => {
-        body += chunk.toString();
-      });
-      
-      req.on('end', () => {
-        try {
-          log("Received POST body", body);
-          const message = JSON.parse(body);
-          const response = processJsonRpcMessage(message);
-          
-          log("Sending JSON-RPC response", response);
-          
-          // Send as SSE for MCP protocol compliance
-          sendSSE(res, response);
-          
-          // Close connection after response
-          setTimeout(() => {
-            res.end();
-          }, 100);
-          
-        } catch (error) {
-          log("JSON parse error", error.message);
-          const errorResponse = createJsonRpcResponse(null, null, {
-            code: -32700,
-            message: "Parse error"
-          });
-          sendSSE(res, errorResponse);
-          res.end();
-        }
-      });
-      
+
+    let body;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      log("JSON parse error", error.message);
+      res.status(400).json(createJsonRpcResponse(null, null, {
+        code: -32700,
+        message: "Parse error"
+      }));
       return;
     }
+
+    // JSON-RPC batches are answered with an array of the non-notification responses
+    if (Array.isArray(body)) {
+      const responses = (await Promise.all(body.map(message => processJsonRpcMessage(message, req))))
+        .filter(response => response !== null);
+      if (responses.length === 0) {
+        res.status(202).end();
+        return;
+      }
+      sendJsonRpc(req, res, responses);
+      return;
+    }
+
+    const response = await processJsonRpcMessage(body, req);
+    if (response === null) {
+      res.status(202).end();
+      return;
+    }
+    sendJsonRpc(req, res, response);
+    return;
   }
-  
+
   // Default 404
   log("Unknown endpoint", req.url);
   res.status(404).json({ error: 'Not found' });
-}; 
\ No newline at end of file
+};
@@ -10,6 +10,8 @@ module.exports = {
   },
   moduleFileExtensions: ['ts', 'js'],
   moduleNameMapper: {
+    // api/ handlers load the compiled tools from dist/; tests run them against the sources
+    '^\\.\\./dist/(.*)\\.js$': '<rootDir>/src/$1',
     '^(\\.{1,2}/.*)\\.js$': '$1'
   },
   collectCoverageFrom: [
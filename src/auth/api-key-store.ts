@@ -0,0 +1,185 @@
+/**
+ * API Key Store
+ * Server-issued opaque API keys that map to a stored GHL credential, a location and a permission scope
+ */
+
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { SealedSecret, SecretBox } from './secret-box.js';
+import { hashToken } from '../sessions/session-manager.js';
+import { JsonFileStore } from '../storage/json-file-store.js';
+
+/** Every server-issued key starts with this, so it can be told apart from a raw GHL token */
+export const API_KEY_PREFIX = 'ghlmcp_';
+
+/**
+ * GHL credential behind a key: the OAuth installation for its location, or an encrypted private integration token
+ */
+export type ApiKeyCredential =
+  | { type: 'oauth' }
+  | { type: 'token'; token: SealedSecret };
+
+/**
+ * Stored key record. Only the SHA-256 hash of the key is kept.
+ */
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  keyHash: string;
+  /** First characters of the key, so admins can recognise it in listings */
+  keyPrefix: string;
+  locationId: string;
+  /** Tool permission patterns granted to the key */
+  permissions: string[];
+  credential: ApiKeyCredential;
+  createdAt: string;
+  rotatedAt?: string;
+  revokedAt?: string;
+  lastUsedAt?: string;
+}
+
+/**
+ * Key record as shown to admins, without the hash or the credential
+ */
+export type ApiKeySummary = Omit<ApiKeyRecord, 'keyHash' | 'credential'> & {
+  credentialType: ApiKeyCredential['type'];
+};
+
+/**
+ * Input for issuing a key. Without ghlToken the key uses the location's OAuth installation.
+ */
+export interface CreateApiKeyInput {
+  name: string;
+  locationId: string;
+  permissions?: string[];
+  ghlToken?: string;
+}
+
+/**
+ * A newly issued key. The plain key is only ever returned here.
+ */
+export interface IssuedApiKey {
+  key: string;
+  apiKey: ApiKeySummary;
+}
+
+/**
+ * Result of rotating or revoking a key. The old hash lets callers close sessions opened with it.
+ */
+export interface RetiredApiKey {
+  apiKey: ApiKeySummary;
+  retiredKeyHash: string;
+}
+
+/**
+ * A key that authenticated, with its decrypted GHL token if it has one
+ */
+export interface AuthenticatedApiKey {
+  apiKey: ApiKeySummary;
+  ghlToken?: string;
+}
+
+/**
+ * Storage for server-issued API keys
+ */
+export interface ApiKeyStore {
+  create(input: CreateApiKeyInput): Promise<IssuedApiKey>;
+  list(): Promise<ApiKeySummary[]>;
+  /** Replace a key's secret, keeping its ID, credential and permissions. Undefined if unknown or revoked. */
+  rotate(id: string): Promise<(IssuedApiKey & { retiredKeyHash: string }) | undefined>;
+  /** Undefined if unknown or already revoked */
+  revoke(id: string): Promise<RetiredApiKey | undefined>;
+  /** Resolve a presented key; undefined if it is unknown or revoked */
+  authenticate(key: string): Promise<AuthenticatedApiKey | undefined>;
+}
+
+/**
+ * Whether a bearer token looks like a server-issued key rather than a GHL token
+ */
+export function isServerApiKey(token: string): boolean {
+  return token.replace(/^Bearer\s+/i, '').trim().startsWith(API_KEY_PREFIX);
+}
+
+function generateKey(): string {
+  return `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+}
+
+function summarize(record: ApiKeyRecord): ApiKeySummary {
+  const { keyHash: _keyHash, credential, ...rest } = record;
+  return { ...rest, permissions: [...rest.permissions], credentialType: credential.type };
+}
+
+/**
+ * API keys in a single JSON file (mode 0600). GHL tokens inside are encrypted with the token encryption key,
+ * bound to the key ID so a credential cannot be moved to another key.
+ * Writes are serialized and atomic; lastUsedAt is persisted with the next write.
+ */
+export class JsonFileApiKeyStore implements ApiKeyStore {
+  private readonly box: SecretBox;
+  private file: JsonFileStore<ApiKeyRecord>;
+
+  constructor(filePath: string, secret: string, private now: () => number = Date.now) {
+    this.box = new SecretBox(secret);
+    this.file = new JsonFileStore(filePath, 'keys');
+  }
+
+  async create(input: CreateApiKeyInput): Promise<IssuedApiKey> {
+    return this.file.mutate(records => {
+      const id = `key_${randomBytes(8).toString('hex')}`;
+      const key = generateKey();
+      const record: ApiKeyRecord = {
+        id,
+        name: input.name,
+        keyHash: hashToken(key),
+        keyPrefix: key.slice(0, API_KEY_PREFIX.length + 6),
+        locationId: input.locationId,
+        permissions: input.permissions && input.permissions.length > 0 ? [...input.permissions] : ['*'],
+        credential: input.ghlToken
+          ? { type: 'token', token: this.box.seal(input.ghlToken, id) }
+          : { type: 'oauth' },
+        createdAt: new Date(this.now()).toISOString()
+      };
+      records.push(record);
+      return { key, apiKey: summarize(record) };
+    });
+  }
+
+  async list(): Promise<ApiKeySummary[]> {
+    return (await this.file.load()).map(summarize);
+  }
+
+  async rotate(id: string): Promise<(IssuedApiKey & { retiredKeyHash: string }) | undefined> {
+    return this.file.mutate(records => {
+      const record = records.find(entry => entry.id === id && !entry.revokedAt);
+      if (!record) return undefined;
+
+      const retiredKeyHash = record.keyHash;
+      const key = generateKey();
+      record.keyHash = hashToken(key);
+      record.keyPrefix = key.slice(0, API_KEY_PREFIX.length + 6);
+      record.rotatedAt = new Date(this.now()).toISOString();
+      return { key, apiKey: summarize(record), retiredKeyHash };
+    });
+  }
+
+  async revoke(id: string): Promise<RetiredApiKey | undefined> {
+    return this.file.mutate(records => {
+      const record = records.find(entry => entry.id === id && !entry.revokedAt);
+      if (!record) return undefined;
+
+      record.revokedAt = new Date(this.now()).toISOString();
+      return { apiKey: summarize(record), retiredKeyHash: record.keyHash };
+    });
+  }
+
+  async authenticate(key: string): Promise<AuthenticatedApiKey | undefined> {
+    const presented = Buffer.from(hashToken(key), 'hex');
+    const record = (await this.file.load()).find(entry =>
+      !entry.revokedAt && timingSafeEqual(Buffer.from(entry.keyHash, 'hex'), presented)
+    );
+    if (!record) return undefined;
+
+    record.lastUsedAt = new Date(this.now()).toISOString();
+    const ghlToken = record.credential.type === 'token' ? this.box.open(record.credential.token, record.id) : undefined;
+    return { apiKey: summarize(record), ghlToken };
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * GoHighLevel OAuth Client
+ * Marketplace app authorization URL, code exchange, refresh-token rotation and company-to-location token exchange
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { createGHLApiError, withErrorContext } from '../clients/ghl-api-error.js';
+import { GHLOAuthConfig, GHLStoredToken, GHLTokenResponse } from '../types/ghl-types.js';
+
+export const DEFAULT_AUTHORIZE_URL = 'https://marketplace.gohighlevel.com/oauth/chooselocation';
+
+/**
+ * OAuth settings from GHL_OAUTH_CLIENT_ID, GHL_OAUTH_CLIENT_SECRET, GHL_OAUTH_REDIRECT_URI and GHL_OAUTH_SCOPES
+ * (space separated), plus the optional GHL_OAUTH_AUTHORIZE_URL, GHL_OAUTH_USER_TYPE and GHL_BASE_URL
+ */
+export function oauthConfigFromEnv(env: NodeJS.ProcessEnv = process.env): GHLOAuthConfig {
+  const missing = ['GHL_OAUTH_CLIENT_ID', 'GHL_OAUTH_CLIENT_SECRET', 'GHL_OAUTH_REDIRECT_URI'].filter(name => !env[name]);
+  if (missing.length > 0) {
+    throw new Error(`OAuth mode requires ${missing.join(', ')}`);
+  }
+
+  return {
+    clientId: env.GHL_OAUTH_CLIENT_ID as string,
+    clientSecret: env.GHL_OAUTH_CLIENT_SECRET as string,
+    redirectUri: env.GHL_OAUTH_REDIRECT_URI as string,
+    scopes: (env.GHL_OAUTH_SCOPES || '').split(/\s+/).filter(Boolean),
+    authorizeUrl: env.GHL_OAUTH_AUTHORIZE_URL || DEFAULT_AUTHORIZE_URL,
+    baseUrl: env.GHL_BASE_URL || 'https://services.leadconnectorhq.com',
+    userType: env.GHL_OAUTH_USER_TYPE === 'Company' ? 'Company' : 'Location'
+  };
+}
+
+/**
+ * Convert a token endpoint response into what the token store keeps
+ */
+export function toStoredToken(response: GHLTokenResponse, now: number = Date.now()): GHLStoredToken {
+  return {
+    userType: response.userType,
+    companyId: response.companyId,
+    locationId: response.locationId,
+    userId: response.userId,
+    accessToken: response.access_token,
+    refreshToken: response.refresh_token,
+    scope: response.scope,
+    expiresAt: now + response.expires_in * 1000
+  };
+}
+
+/**
+ * Thin client for GHL's /oauth endpoints. Failures are thrown as GHLApiError subclasses.
+ */
+export class GHLOAuthClient {
+  private http: AxiosInstance;
+
+  constructor(private config: GHLOAuthConfig) {
+    this.http = axios.create({
+      baseURL: config.baseUrl,
+      headers: { 'Accept': 'application/json' },
+      timeout: 30000
+    });
+  }
+
+  /**
+   * Marketplace URL that lets the user pick a location (or company) and install the app
+   */
+  getAuthorizeUrl(state: string): string {
+    const url = new URL(this.config.authorizeUrl);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.config.clientId);
+    url.searchParams.set('redirect_uri', this.config.redirectUri);
+    url.searchParams.set('scope', this.config.scopes.join(' '));
+    url.searchParams.set('state', state);
+    return url.toString();
+  }
+
+  /**
+   * Exchange the authorization code from the callback for tokens
+   * POST /oauth/token
+   */
+  async exchangeCode(code: string): Promise<GHLTokenResponse> {
+    return this.requestToken({
+      grant_type: 'authorization_code',
+      code,
+      user_type: this.config.userType,
+      redirect_uri: this.config.redirectUri
+    }, 'Failed to exchange authorization code');
+  }
+
+  /**
+   * Get a new access token. GHL rotates refresh tokens, so the old refresh token stops working once this succeeds.
+   * POST /oauth/token
+   */
+  async refreshToken(refreshToken: string, userType: GHLTokenResponse['userType']): Promise<GHLTokenResponse> {
+    return this.requestToken({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      user_type: userType
+    }, 'Failed to refresh access token');
+  }
+
+  /**
+   * Get a location token using a company (agency) token
+   * POST /oauth/locationToken
+   */
+  async getLocationToken(companyAccessToken: string, companyId: string, locationId: string): Promise<GHLTokenResponse> {
+    try {
+      const response = await this.http.post<GHLTokenResponse>(
+        '/oauth/locationToken',
+        new URLSearchParams({ companyId, locationId }).toString(),
+        {
+          headers: {
+            'Authorization': `Bearer ${companyAccessToken}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Version': '2021-07-28'
+          }
+        }
+      );
+      return response.data;
+    } catch (error) {
+      throw withErrorContext(`Failed to get location token for ${locationId}`, axios.isAxiosError(error) ? createGHLApiError(error) : error);
+    }
+  }
+
+  private async requestToken(params: Record<string, string>, context: string): Promise<GHLTokenResponse> {
+    try {
+      const response = await this.http.post<GHLTokenResponse>(
+        '/oauth/token',
+        new URLSearchParams({
+          client_id: this.config.clientId,
+          client_secret: this.config.clientSecret,
+          ...params
+        }).toString(),
+        { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+      );
+      return response.data;
+    } catch (error) {
+      throw withErrorContext(context, axios.isAxiosError(error) ? createGHLApiError(error) : error);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Secret Box
+ * AES-256-GCM encryption for credentials the server keeps at rest
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+
+/**
+ * Encrypted value as stored on disk (all fields base64)
+ */
+export interface SealedSecret {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Turn the configured secret into an AES-256 key: 64 hex characters are used as-is, anything else is a passphrase
+ */
+export function deriveEncryptionKey(secret: string): Buffer {
+  if (/^[0-9a-f]{64}$/i.test(secret)) {
+    return Buffer.from(secret, 'hex');
+  }
+  return scryptSync(secret, 'ghl-mcp-token-store', 32);
+}
+
+/**
+ * Seals and opens secrets with one key. The context is bound in as additional authenticated data,
+ * so a value sealed for one owner cannot be opened as another's.
+ */
+export class SecretBox {
+  private readonly key: Buffer;
+
+  constructor(secret: string) {
+    if (!secret) {
+      throw new Error('An encryption secret is required');
+    }
+    this.key = deriveEncryptionKey(secret);
+  }
+
+  seal(plaintext: string, context: string): SealedSecret {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    cipher.setAAD(Buffer.from(context));
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+  }
+
+  /**
+   * Decrypt a sealed value; throws if the key, context or ciphertext do not match
+   */
+  open(sealed: SealedSecret, context: string): string {
+    const decipher = createDecipheriv('aes-256-gcm', this.key, Buffer.from(sealed.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+    decipher.setAAD(Buffer.from(context));
+    return Buffer.concat([decipher.update(Buffer.from(sealed.data, 'base64')), decipher.final()]).toString('utf8');
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * OAuth Token Manager
+ * Completes marketplace installs, hands out fresh location tokens and keeps long-lived clients refreshed
+ */
+
+import { randomBytes } from 'node:crypto';
+import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { GHLOAuthClient, toStoredToken } from './oauth-client.js';
+import { TokenStore, tokenOwnerId, tokenStoreKey } from './token-store.js';
+import { GHLConfig, GHLStoredToken } from '../types/ghl-types.js';
+
+// Longest delay setTimeout accepts
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+// Floor for background refresh timers, so a token that is already due cannot cause a tight loop
+const MIN_TIMER_DELAY_MS = 1000;
+
+/**
+ * Thrown when an OAuth step cannot complete: bad state, no installation for a location, or a failed exchange
+ */
+export class OAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+/**
+ * Token manager configuration
+ */
+export interface OAuthTokenManagerOptions {
+  /** Refresh tokens this long before they expire (ms) */
+  refreshMarginMs?: number;
+  /** How long an authorization request may take before its state is rejected (ms) */
+  stateTtlMs?: number;
+  /** Wait before retrying a failed background refresh (ms) */
+  retryDelayMs?: number;
+  /** Clock override, used by tests */
+  now?: () => number;
+}
+
+/**
+ * Stops the background refresh started by createClient()
+ */
+export type StopRefresh = () => void;
+
+/**
+ * OAuth Token Manager class
+ * Refreshes are single-flight per owner: GHL rotates refresh tokens, so two concurrent refreshes would invalidate each other
+ */
+export class OAuthTokenManager {
+  private pendingStates = new Map<string, number>();
+  private refreshes = new Map<string, Promise<GHLStoredToken>>();
+  private readonly refreshMarginMs: number;
+  private readonly stateTtlMs: number;
+  private readonly retryDelayMs: number;
+  private readonly now: () => number;
+
+  constructor(
+    private oauthClient: GHLOAuthClient,
+    private store: TokenStore,
+    options: OAuthTokenManagerOptions = {}
+  ) {
+    this.refreshMarginMs = options.refreshMarginMs ?? 5 * 60 * 1000;
+    this.stateTtlMs = options.stateTtlMs ?? 10 * 60 * 1000;
+    this.retryDelayMs = options.retryDelayMs ?? 60 * 1000;
+    this.now = options.now || Date.now;
+  }
+
+  /**
+   * Start an install: returns the marketplace URL with a one-time state to check in the callback
+   */
+  createAuthorizationUrl(): string {
+    const now = this.now();
+    for (const [state, expiresAt] of this.pendingStates) {
+      if (expiresAt <= now) {
+        this.pendingStates.delete(state);
+      }
+    }
+
+    const state = randomBytes(16).toString('hex');
+    this.pendingStates.set(state, now + this.stateTtlMs);
+    return this.oauthClient.getAuthorizeUrl(state);
+  }
+
+  /**
+   * Finish an install: check the state, exchange the code and store the tokens
+   */
+  async handleCallback(code: string, state: string): Promise<GHLStoredToken> {
+    const expiresAt = this.pendingStates.get(state);
+    this.pendingStates.delete(state);
+    if (expiresAt === undefined || expiresAt <= this.now()) {
+      throw new OAuthError('Invalid or expired OAuth state');
+    }
+
+    const token = toStoredToken(await this.oauthClient.exchangeCode(code), this.now());
+    await this.store.save(token);
+    process.stderr.write(`[OAuth] ✅ Installed for ${tokenStoreKey(token.userType, tokenOwnerId(token))}\n`);
+    return token;
+  }
+
+  /**
+   * A location token valid for at least the refresh margin.
+   * Without a stored location token, one is exchanged from a stored company token and saved.
+   */
+  async getLocationToken(locationId: string): Promise<GHLStoredToken> {
+    const stored = await this.store.get('Location', locationId);
+    if (stored) {
+      return this.ensureFresh(stored);
+    }
+    return this.exchangeForLocation(locationId);
+  }
+
+  /**
+   * Create a client for a location that swaps in a refreshed token before the current one expires.
+   * Call the returned stop function when the client is no longer used.
+   */
+  async createClient(
+    locationId: string,
+    config: Omit<GHLConfig, 'accessToken' | 'locationId'>
+  ): Promise<{ client: GHLApiClient; stopRefresh: StopRefresh }> {
+    const token = await this.getLocationToken(locationId);
+    const client = new GHLApiClient({ ...config, accessToken: token.accessToken, locationId });
+    return { client, stopRefresh: this.keepFresh(client, locationId, token.expiresAt) };
+  }
+
+  private async exchangeForLocation(locationId: string): Promise<GHLStoredToken> {
+    const companyTokens = (await this.store.list()).filter(token => token.userType === 'Company');
+
+    for (const companyToken of companyTokens) {
+      try {
+        const fresh = await this.ensureFresh(companyToken);
+        const response = await this.oauthClient.getLocationToken(fresh.accessToken, fresh.companyId, locationId);
+        const token = toStoredToken({ ...response, locationId: response.locationId || locationId }, this.now());
+        await this.store.save(token);
+        process.stderr.write(`[OAuth] Exchanged company ${fresh.companyId} token for location ${locationId}\n`);
+        return token;
+      } catch (error) {
+        process.stderr.write(`[OAuth] ⚠️ Company ${companyToken.companyId} could not issue a token for ${locationId}: ${error instanceof Error ? error.message : String(error)}\n`);
+      }
+    }
+
+    throw new OAuthError(`No OAuth installation found for location ${locationId}`);
+  }
+
+  private async ensureFresh(token: GHLStoredToken): Promise<GHLStoredToken> {
+    if (token.expiresAt - this.refreshMarginMs > this.now()) {
+      return token;
+    }
+
+    const key = tokenStoreKey(token.userType, tokenOwnerId(token));
+    let refresh = this.refreshes.get(key);
+    if (!refresh) {
+      refresh = this.refresh(token).finally(() => this.refreshes.delete(key));
+      this.refreshes.set(key, refresh);
+    }
+    return refresh;
+  }
+
+  private async refresh(token: GHLStoredToken): Promise<GHLStoredToken> {
+    // Another process sharing the store may have rotated the token already
+    const latest = await this.store.get(token.userType, tokenOwnerId(token)) ?? token;
+    if (latest.expiresAt - this.refreshMarginMs > this.now()) {
+      return latest;
+    }
+
+    const response = await this.oauthClient.refreshToken(latest.refreshToken, latest.userType);
+    const rotated = toStoredToken({
+      ...response,
+      companyId: response.companyId || latest.companyId,
+      locationId: response.locationId || latest.locationId
+    }, this.now());
+    await this.store.save(rotated);
+    process.stderr.write(`[OAuth] Refreshed token for ${tokenStoreKey(rotated.userType, tokenOwnerId(rotated))}\n`);
+    return rotated;
+  }
+
+  private keepFresh(client: GHLApiClient, locationId: string, expiresAt: number): StopRefresh {
+    let timer: NodeJS.Timeout | null = null;
+    let stopped = false;
+
+    const schedule = (delayMs: number) => {
+      timer = setTimeout(async () => {
+        try {
+          const token = await this.getLocationToken(locationId);
+          if (stopped) return;
+          client.updateAccessToken(token.accessToken);
+          schedule(token.expiresAt - this.refreshMarginMs - this.now());
+        } catch (error) {
+          process.stderr.write(`[OAuth] ❌ Background refresh failed for ${locationId}: ${error instanceof Error ? error.message : String(error)}\n`);
+          if (!stopped) schedule(this.retryDelayMs);
+        }
+      }, Math.min(Math.max(delayMs, MIN_TIMER_DELAY_MS), MAX_TIMER_DELAY_MS));
+      // Pending refreshes should not keep the process alive on shutdown
+      timer.unref();
+    };
+
+    schedule(expiresAt - this.refreshMarginMs - this.now());
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    };
+  }
+}
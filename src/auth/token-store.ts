@@ -0,0 +1,148 @@
+/**
+ * OAuth Token Store
+ * Persistence for GHL OAuth tokens, one entry per location or company, behind a swappable interface
+ */
+
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { SealedSecret, SecretBox } from './secret-box.js';
+import { GHLStoredToken } from '../types/ghl-types.js';
+
+type TokenOwnerType = GHLStoredToken['userType'];
+
+/**
+ * Storage for OAuth tokens. Saving a token replaces the previous one for the same owner,
+ * which matters because GHL rotates the refresh token on every refresh.
+ */
+export interface TokenStore {
+  get(userType: TokenOwnerType, id: string): Promise<GHLStoredToken | undefined>;
+  save(token: GHLStoredToken): Promise<void>;
+  delete(userType: TokenOwnerType, id: string): Promise<void>;
+  list(): Promise<GHLStoredToken[]>;
+}
+
+/**
+ * The location ID of a location token, or the company ID of a company token
+ */
+export function tokenOwnerId(token: GHLStoredToken): string {
+  return token.userType === 'Location' ? token.locationId || '' : token.companyId;
+}
+
+/**
+ * Store key for an owner, e.g. location:abc123 or company:xyz789
+ */
+export function tokenStoreKey(userType: TokenOwnerType, id: string): string {
+  return `${userType.toLowerCase()}:${id}`;
+}
+
+/**
+ * In-memory store; tokens are lost on restart, so it only suits tests and short-lived processes
+ */
+export class MemoryTokenStore implements TokenStore {
+  private tokens = new Map<string, GHLStoredToken>();
+
+  async get(userType: TokenOwnerType, id: string): Promise<GHLStoredToken | undefined> {
+    const token = this.tokens.get(tokenStoreKey(userType, id));
+    return token ? { ...token } : undefined;
+  }
+
+  async save(token: GHLStoredToken): Promise<void> {
+    this.tokens.set(tokenStoreKey(token.userType, tokenOwnerId(token)), { ...token });
+  }
+
+  async delete(userType: TokenOwnerType, id: string): Promise<void> {
+    this.tokens.delete(tokenStoreKey(userType, id));
+  }
+
+  async list(): Promise<GHLStoredToken[]> {
+    return [...this.tokens.values()].map(token => ({ ...token }));
+  }
+}
+
+interface EncryptedTokenFile extends SealedSecret {
+  version: 1;
+  owner: string; // Store key, kept in clear so list() knows which AAD to check
+}
+
+/**
+ * File store: one AES-256-GCM encrypted file per owner, readable only by the server's user.
+ * The store key is bound in as additional authenticated data, so a file copied to another owner's name fails to decrypt.
+ */
+export class EncryptedFileTokenStore implements TokenStore {
+  private readonly box: SecretBox;
+
+  constructor(private directory: string, secret: string) {
+    this.box = new SecretBox(secret);
+  }
+
+  private fileFor(storeKey: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(storeKey).digest('hex')}.json`);
+  }
+
+  private encrypt(storeKey: string, token: GHLStoredToken): EncryptedTokenFile {
+    return { version: 1, owner: storeKey, ...this.box.seal(JSON.stringify(token), storeKey) };
+  }
+
+  private decrypt(storeKey: string, file: EncryptedTokenFile): GHLStoredToken {
+    return JSON.parse(this.box.open(file, storeKey)) as GHLStoredToken;
+  }
+
+  private async readFile(file: string): Promise<EncryptedTokenFile | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8')) as EncryptedTokenFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async get(userType: TokenOwnerType, id: string): Promise<GHLStoredToken | undefined> {
+    const storeKey = tokenStoreKey(userType, id);
+    const file = await this.readFile(this.fileFor(storeKey));
+    return file ? this.decrypt(storeKey, file) : undefined;
+  }
+
+  async save(token: GHLStoredToken): Promise<void> {
+    const storeKey = tokenStoreKey(token.userType, tokenOwnerId(token));
+    await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+    const file = this.fileFor(storeKey);
+    // Write then rename so a crash mid-write never leaves a truncated token behind
+    const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(this.encrypt(storeKey, token)), { mode: 0o600 });
+    await fs.rename(tempFile, file);
+  }
+
+  async delete(userType: TokenOwnerType, id: string): Promise<void> {
+    await fs.rm(this.fileFor(tokenStoreKey(userType, id)), { force: true });
+  }
+
+  async list(): Promise<GHLStoredToken[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const tokens: GHLStoredToken[] = [];
+    for (const name of names.filter(entry => entry.endsWith('.json'))) {
+      try {
+        const filePath = path.join(this.directory, name);
+        const file = await this.readFile(filePath);
+        // Decrypting with the owner as AAD fails for a file that was moved or edited
+        if (file && this.fileFor(file.owner) === filePath) {
+          tokens.push(this.decrypt(file.owner, file));
+        }
+      } catch (error) {
+        process.stderr.write(`[OAuth] ⚠️ Skipping unreadable token file ${name}: ${error instanceof Error ? error.message : String(error)}\n`);
+      }
+    }
+    return tokens;
+  }
+}
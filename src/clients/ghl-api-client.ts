@@ -3,9 +3,28 @@
  * Implements exact API endpoints from OpenAPI specifications v2021-07-28 (Contacts) and v2021-04-15 (Conversations)
  */
 
-import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import axios, { AxiosInstance, AxiosResponse, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { getRetryDelay, isRetryable, resolveRetryConfig } from './retry-policy.js';
+import { GHLApiError, GHLRequestCancelledError, createGHLApiError, withErrorContext } from './ghl-api-error.js';
+import { PageIterator, paginate } from './paginator.js';
+import {
+  LocationRateLimiter,
+  ReleaseSlot,
+  RequestBudget,
+  getLocationRateLimiter,
+  resolveThrottleConfig
+} from './rate-limiter.js';
+import { MetadataCache, credentialScope, getMetadataCache, resolveCacheConfig } from './metadata-cache.js';
 import {
   GHLConfig,
+  GHLRetryConfig,
+  GHLThrottleConfig,
+  GHLRateLimitStatus,
+  GHLRequestBudgetOptions,
+  GHLPaginationOptions,
+  GHLCacheResource,
+  GHLCacheStats,
   GHLContact,
   GHLCreateContactRequest,
   GHLSearchContactsRequest,
@@ -34,6 +53,7 @@ import {
   GHLCreateConversationResponse,
   GHLUpdateConversationRequest, GHLCreateBlogPostRequest,
   GHLUpdateBlogPostRequest,
+  GHLBlogPost,
   GHLBlogPostCreateResponse,
   GHLBlogPostUpdateResponse,
   GHLBlogPostListResponse, GHLBlogAuthorsResponse, GHLBlogCategoriesResponse, GHLBlogSitesResponse,
@@ -199,6 +219,7 @@ import {
   GHLUpdateObjectRecordRequest,
   GHLObjectRecordDeleteResponse,
   GHLSearchObjectRecordsRequest,
+  GHLDetailedObjectRecord,
   GHLSearchObjectRecordsResponse, GHLCreateAssociationRequest,
   GHLUpdateAssociationRequest,
   GHLCreateRelationRequest,
@@ -228,6 +249,7 @@ import {
   GHLGetSurveysResponse,
   GHLGetSurveySubmissionsRequest,
   GHLGetSurveySubmissionsResponse,
+  GHLSurveySubmission,
   // Store API types
   GHLCreateShippingZoneRequest,
   GHLCreateShippingZoneResponse,
@@ -357,6 +379,52 @@ import {
   AltDto
 } from '../types/ghl-types.js';
 
+/**
+ * Request config carrying the number of retries already made and the rate-limit slot it holds
+ */
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  retryCount?: number;
+  releaseSlot?: ReleaseSlot;
+}
+
+// Abort signal of the operation a request is made for, set by withAbortSignal
+const requestSignals = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Run an operation with every GHL request it makes tied to the signal: once it fires, requests in flight
+ * are aborted and new ones fail with GHLRequestCancelledError. Lets a tool call be cancelled without
+ * passing the signal through each API method.
+ */
+export function withAbortSignal<T>(signal: AbortSignal | undefined, operation: () => Promise<T>): Promise<T> {
+  return signal ? requestSignals.run(signal, operation) : operation();
+}
+
+function describeRequest(request: InternalAxiosRequestConfig): string {
+  return `${request.method?.toUpperCase()} ${request.url}`;
+}
+
+/**
+ * Wait before a retry; rejects with GHLRequestCancelledError as soon as the request's signal fires
+ */
+function waitForRetry(request: InternalAxiosRequestConfig, delayMs: number): Promise<void> {
+  const signal = request.signal as AbortSignal | undefined;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GHLRequestCancelledError(describeRequest(request)));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+}
+
 /**
  * GoHighLevel API Client
  * Handles all API communication with GHL services
@@ -364,9 +432,18 @@ import {
 export class GHLApiClient {
   private axiosInstance: AxiosInstance;
   private config: GHLConfig;
+  private retryConfig: GHLRetryConfig;
+  private throttleConfig: GHLThrottleConfig;
+  private rateLimiter: LocationRateLimiter;
+  private requestCount = 0;
+  private metadataCache: MetadataCache | null;
 
   constructor(config: GHLConfig) {
     this.config = config;
+    this.retryConfig = resolveRetryConfig(config.retry);
+    this.throttleConfig = resolveThrottleConfig(config.throttle);
+    this.rateLimiter = getLocationRateLimiter(config.locationId, this.throttleConfig);
+    this.metadataCache = getMetadataCache(resolveCacheConfig(config.cache));
     
     // Create axios instance with base configuration
     this.axiosInstance = axios.create({
@@ -377,12 +454,25 @@ export class GHLApiClient {
         'Content-Type': 'application/json',
         'Accept': 'application/json'
       },
-      timeout: 30000 // 30 second timeout
+      timeout: config.timeout ?? 30000 // 30 second timeout by default
     });
 
-    // Add request interceptor for logging
+    // Add request interceptor for throttling and logging
     this.axiosInstance.interceptors.request.use(
-      (config) => {
+      async (config) => {
+        config.signal = config.signal || requestSignals.getStore();
+        if (config.signal?.aborted) {
+          throw new GHLRequestCancelledError(describeRequest(config));
+        }
+
+        const releaseSlot = await this.rateLimiter.acquire();
+        if (config.signal?.aborted) {
+          // Cancelled while waiting for a rate-limit slot
+          releaseSlot();
+          throw new GHLRequestCancelledError(describeRequest(config));
+        }
+        (config as RetryableRequestConfig).releaseSlot = releaseSlot;
+        this.requestCount += 1;
         process.stderr.write(`[GHL API] ${config.method?.toUpperCase()} ${config.url}\n`);
         return config;
       },
@@ -392,13 +482,29 @@ export class GHLApiClient {
       }
     );
 
-    // Add response interceptor for error handling
+    // Add response interceptor for retries and error handling
     this.axiosInstance.interceptors.response.use(
       (response) => {
+        this.settleRequest(response.config, response.headers);
         process.stderr.write(`[GHL API] Response ${response.status}: ${response.config.url}\n`);
         return response;
       },
-      (error: AxiosError<GHLErrorResponse>) => {
+      async (error: AxiosError<GHLErrorResponse>) => {
+        this.settleRequest(error.config, error.response?.headers);
+
+        // Cancelled through withAbortSignal, before or during the request: never retried
+        if ((error as unknown) instanceof GHLRequestCancelledError) {
+          return Promise.reject(error);
+        }
+        if (error.code === AxiosError.ERR_CANCELED) {
+          return Promise.reject(new GHLRequestCancelledError(error.config && describeRequest(error.config)));
+        }
+
+        const retried = await this.retryRequest(error);
+        if (retried) {
+          return retried;
+        }
+
         console.error('[GHL API] Response error:', {
           status: error.response?.status,
           message: error.response?.data?.message,
@@ -410,14 +516,59 @@ export class GHLApiClient {
   }
 
   /**
-   * Handle API errors and convert to standardized format
+   * Free the request's rate-limit slot and record the quota GHL reported
    */
-  private handleApiError(error: AxiosError<GHLErrorResponse>): Error {
-    const status = error.response?.status || 500;
-    const message = error.response?.data?.message || error.message || 'Unknown error';
-    const errorMessage = Array.isArray(message) ? message.join(', ') : message;
-    
-    return new Error(`GHL API Error (${status}): ${errorMessage}`);
+  private settleRequest(request: InternalAxiosRequestConfig | undefined, headers: any): void {
+    const throttled = request as RetryableRequestConfig | undefined;
+    throttled?.releaseSlot?.();
+    if (headers) {
+      this.rateLimiter.updateFromHeaders(headers);
+    }
+  }
+
+  /**
+   * Resend a failed request if the retry policy allows it.
+   * Returns null when the error should be surfaced; failures of the resent request come back through the interceptor.
+   */
+  private async retryRequest(error: AxiosError<GHLErrorResponse>): Promise<AxiosResponse | null> {
+    const request = error.config as RetryableRequestConfig | undefined;
+    if (!request) {
+      return null;
+    }
+
+    const retry = (request.retryCount || 0) + 1;
+    if (retry > this.retryConfig.maxRetries || !isRetryable(error, this.retryConfig)) {
+      return null;
+    }
+
+    const delay = getRetryDelay(error, retry, this.retryConfig);
+    if (delay === null) {
+      process.stderr.write(`[GHL API] Not retrying ${request.method?.toUpperCase()} ${request.url}: server asked to wait longer than ${this.retryConfig.maxDelayMs}ms\n`);
+      return null;
+    }
+
+    process.stderr.write(
+      `[GHL API] Retrying ${request.method?.toUpperCase()} ${request.url} in ${delay}ms ` +
+      `(retry ${retry}/${this.retryConfig.maxRetries}, ${error.response?.status || error.code})\n`
+    );
+    await waitForRetry(request, delay);
+
+    request.retryCount = retry;
+    return this.axiosInstance.request(request);
+  }
+
+  /**
+   * Convert a failed request to its typed GHLApiError.
+   * Errors already converted by the response interceptor, and non-HTTP errors, pass through unchanged.
+   */
+  private handleApiError(error: unknown): Error {
+    if (error instanceof GHLApiError) {
+      return error;
+    }
+    if (axios.isAxiosError(error)) {
+      return createGHLApiError(error as AxiosError<GHLErrorResponse>);
+    }
+    return error instanceof Error ? error : new Error(String(error));
   }
 
   /**
@@ -471,11 +622,11 @@ export class GHLApiClient {
       return this.wrapResponse(response.data.contact);
     } catch (error) {
       console.error('[GHL API] Failed to create contact:', error);
-      if (axios.isAxiosError(error)) {
-        console.error('[GHL API] Error response:', error.response?.data);
-        console.error('[GHL API] Error status:', error.response?.status);
+      if (error instanceof GHLApiError) {
+        console.error('[GHL API] Error response:', error.responseBody);
+        console.error('[GHL API] Error status:', error.status);
       }
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -491,7 +642,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data.contact);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -508,7 +659,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data.contact);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -524,7 +675,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -568,30 +719,19 @@ export class GHLApiClient {
 
       // Ensure the response has the expected structure
       const responseData = response.data || {};
+      const contacts = Array.isArray(responseData.contacts) ? responseData.contacts : [];
       const validResponse: GHLSearchContactsResponse = {
-        contacts: Array.isArray(responseData.contacts) ? responseData.contacts : [],
-        total: responseData.total || 0
+        contacts,
+        total: responseData.total || 0,
+        // GHL returns the cursor on each contact; the last one continues the search
+        searchAfter: responseData.searchAfter || contacts[contacts.length - 1]?.searchAfter
       };
 
       return this.wrapResponse(validResponse);
     } catch (error) {
-      const axiosError = error as AxiosError<GHLErrorResponse>;
-      process.stderr.write(`[GHL API] Search contacts error: ${JSON.stringify({
-        status: axiosError.response?.status,
-        statusText: axiosError.response?.statusText,
-        data: axiosError.response?.data,
-        message: axiosError.message
-      }, null, 2)}\n`);
-      
-      const handledError = this.handleApiError(axiosError);
-      return {
-        success: false,
-        error: {
-          message: handledError.message,
-          statusCode: axiosError.response?.status || 500,
-          details: axiosError.response?.data
-        }
-      };
+      const apiError = this.handleApiError(error);
+      process.stderr.write(`[GHL API] Search contacts error: ${apiError.message}\n`);
+      throw apiError;
     }
   }
 
@@ -615,7 +755,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data.contact || null);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -632,9 +772,10 @@ export class GHLApiClient {
         payload
       );
 
+      await this.invalidateCache(['locationTags']);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -653,7 +794,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -683,7 +824,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -700,7 +841,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -724,7 +865,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data.conversation);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -748,7 +889,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data.conversation);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -765,7 +906,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -797,7 +938,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -814,7 +955,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -832,7 +973,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -851,7 +992,7 @@ export class GHLApiClient {
 
       return await this.sendMessage(messageData);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -884,7 +1025,7 @@ export class GHLApiClient {
 
       return await this.sendMessage(messageData);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -913,7 +1054,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -940,7 +1081,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -963,7 +1104,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -986,7 +1127,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -1010,7 +1151,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -1034,7 +1175,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -1058,7 +1199,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -1078,7 +1219,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data.tasks);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -1095,7 +1236,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data.task);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -1115,7 +1256,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data.notes);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -1132,7 +1273,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data.note);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -1152,7 +1293,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data.task);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1169,7 +1310,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data.task);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1185,7 +1326,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1202,7 +1343,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data.task);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1218,7 +1359,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data.note);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1235,7 +1376,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data.note);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1251,7 +1392,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1273,7 +1414,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1296,7 +1437,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1312,7 +1453,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data.events);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1334,9 +1475,10 @@ export class GHLApiClient {
         payload
       );
 
+      await this.invalidateCache(['locationTags']);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1358,7 +1500,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1377,7 +1519,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1396,7 +1538,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1412,7 +1554,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1428,7 +1570,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1444,7 +1586,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1463,7 +1605,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1482,7 +1624,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1503,7 +1645,7 @@ export class GHLApiClient {
         locationId: this.config.locationId
       });
     } catch (error) {
-      throw new Error(`GHL API connection test failed: ${error}`);
+      throw withErrorContext('GHL API connection test failed', error);
     }
   }
 
@@ -1523,6 +1665,214 @@ export class GHLApiClient {
     return { ...this.config };
   }
 
+  /**
+   * Remaining API quota for this client's location, shared with every client for the same location
+   */
+  getRateLimitStatus(): GHLRateLimitStatus {
+    return this.rateLimiter.getStatus();
+  }
+
+  /**
+   * Start a request budget for a long-running operation, counting requests made through this client
+   */
+  createRequestBudget(options: GHLRequestBudgetOptions = {}): RequestBudget {
+    return new RequestBudget(
+      () => this.requestCount,
+      () => this.rateLimiter.getStatus(),
+      { ...options, dailyReserve: options.dailyReserve ?? this.throttleConfig.dailyReserve }
+    );
+  }
+
+  /**
+   * Hit/miss counters of the metadata cache this client uses, or null when caching is disabled
+   */
+  getCacheStats(): GHLCacheStats | null {
+    return this.metadataCache?.getStats() ?? null;
+  }
+
+  /**
+   * Drop cached metadata for a location, e.g. after it was changed outside this server
+   */
+  async invalidateCache(resources: GHLCacheResource[], locationId: string = this.config.locationId): Promise<void> {
+    await this.metadataCache?.invalidate(locationId, resources);
+  }
+
+  /**
+   * Serve a metadata read from the cache, or fetch the response body and cache it
+   */
+  private async cachedGet<T>(
+    resource: GHLCacheResource,
+    locationId: string,
+    endpoint: string,
+    params: Record<string, unknown> | undefined,
+    fetch: () => Promise<T>
+  ): Promise<T> {
+    if (!this.metadataCache) {
+      return fetch();
+    }
+    return this.metadataCache.getOrFetch(
+      { resource, locationId, endpoint, params, scope: credentialScope(this.config.accessToken) },
+      fetch
+    );
+  }
+
+  /**
+   * AUTO-PAGINATING ITERATORS
+   * Each yields items across pages and stops at the last page or at maxItems/maxPages; pages are fetched lazily
+   */
+
+  /**
+   * Iterate contacts matching a search, paging by the searchAfter cursor
+   */
+  iterateContacts(
+    filters: Omit<GHLSearchContactsRequest, 'locationId' | 'page' | 'pageLimit' | 'searchAfter'> & { locationId?: string } = {},
+    options: GHLPaginationOptions = {}
+  ): PageIterator<GHLContact> {
+    return paginate<GHLContact, [number, string]>(async (cursor, pageSize) => {
+      const response = await this.searchContacts({
+        ...filters,
+        locationId: filters.locationId || this.config.locationId,
+        pageLimit: pageSize,
+        ...(cursor && { searchAfter: cursor })
+      });
+      const contacts = response.data?.contacts || [];
+      return { items: contacts, next: contacts.length < pageSize ? undefined : response.data?.searchAfter };
+    }, { pageSize: 100, ...options });
+  }
+
+  /**
+   * Iterate opportunities matching a search, paging by page number
+   */
+  iterateOpportunities(
+    filters: Omit<GHLSearchOpportunitiesRequest, 'location_id' | 'page' | 'limit'> & { location_id?: string } = {},
+    options: GHLPaginationOptions = {}
+  ): PageIterator<GHLOpportunity> {
+    return paginate<GHLOpportunity, number>(async (cursor, pageSize) => {
+      const page = cursor ?? 1;
+      const response = await this.searchOpportunities({
+        ...filters,
+        location_id: filters.location_id || this.config.locationId,
+        page,
+        limit: pageSize
+      });
+      const opportunities = response.data?.opportunities || [];
+      const nextPage = response.data?.meta?.nextPage;
+      return {
+        items: opportunities,
+        next: opportunities.length === pageSize && nextPage && nextPage > page ? nextPage : undefined
+      };
+    }, { pageSize: 100, ...options });
+  }
+
+  /**
+   * Iterate conversations matching a search, paging by the sort value of the last conversation (startAfterDate)
+   */
+  iterateConversations(
+    filters: Omit<GHLSearchConversationsRequest, 'locationId' | 'limit' | 'startAfterDate'> & { locationId?: string } = {},
+    options: GHLPaginationOptions = {}
+  ): PageIterator<GHLConversation> {
+    return paginate<GHLConversation, number | number[]>(async (cursor, pageSize) => {
+      const response = await this.searchConversations({
+        ...filters,
+        locationId: filters.locationId || this.config.locationId,
+        limit: pageSize,
+        ...(cursor !== undefined && { startAfterDate: cursor })
+      });
+      const conversations = response.data?.conversations || [];
+      const last = conversations[conversations.length - 1];
+      const lastMessageDate = last?.lastMessageDate ? new Date(last.lastMessageDate).getTime() : undefined;
+      return {
+        items: conversations,
+        next: conversations.length < pageSize ? undefined : last?.sort ?? lastMessageDate
+      };
+    }, { pageSize: 100, ...options });
+  }
+
+  /**
+   * Iterate records of a custom or standard object, paging by the searchAfter cursor of the last record
+   */
+  iterateObjectRecords(
+    schemaKey: string,
+    filters: { query?: string; locationId?: string } = {},
+    options: GHLPaginationOptions = {}
+  ): PageIterator<GHLDetailedObjectRecord> {
+    return paginate<GHLDetailedObjectRecord, (string | number)[]>(async (cursor, pageSize) => {
+      const response = await this.searchObjectRecords(schemaKey, {
+        locationId: filters.locationId || this.config.locationId,
+        page: 1,
+        pageLimit: pageSize,
+        query: filters.query || '',
+        searchAfter: cursor || []
+      });
+      const records = response.data?.records || [];
+      return {
+        items: records,
+        next: records.length < pageSize ? undefined : records[records.length - 1]?.searchAfter
+      };
+    }, { pageSize: 100, ...options });
+  }
+
+  /**
+   * Iterate invoices, paging by offset
+   */
+  iterateInvoices(
+    filters: Omit<NonNullable<Parameters<GHLApiClient['listInvoices']>[0]>, 'limit' | 'offset'> = {},
+    options: GHLPaginationOptions = {}
+  ): PageIterator<GetInvoiceResponseDto> {
+    return paginate<GetInvoiceResponseDto, number>(async (cursor, pageSize) => {
+      const offset = cursor ?? 0;
+      const response = await this.listInvoices({ ...filters, limit: String(pageSize), offset: String(offset) });
+      const invoices = response.data?.invoices || [];
+      const total = response.data?.total;
+      const nextOffset = offset + invoices.length;
+      const hasMore = total ? nextOffset < total : invoices.length === pageSize;
+      return { items: invoices, next: hasMore ? nextOffset : undefined };
+    }, { pageSize: 100, ...options });
+  }
+
+  /**
+   * Iterate survey submissions, paging by page number
+   */
+  iterateSurveySubmissions(
+    filters: Omit<GHLGetSurveySubmissionsRequest, 'locationId' | 'page' | 'limit'> & { locationId?: string } = {},
+    options: GHLPaginationOptions = {}
+  ): PageIterator<GHLSurveySubmission> {
+    return paginate<GHLSurveySubmission, number>(async (cursor, pageSize) => {
+      const page = cursor ?? 1;
+      const response = await this.getSurveySubmissions({
+        ...filters,
+        locationId: filters.locationId || this.config.locationId,
+        page,
+        limit: pageSize
+      });
+      const submissions = response.data?.submissions || [];
+      const nextPage = response.data?.meta?.nextPage;
+      return { items: submissions, next: nextPage && nextPage > page ? nextPage : undefined };
+    }, { pageSize: 100, ...options });
+  }
+
+  /**
+   * Iterate the posts of a blog, paging by offset
+   */
+  iterateBlogPosts(
+    blogId: string,
+    filters: Omit<GHLGetBlogPostsRequest, 'locationId' | 'blogId' | 'limit' | 'offset'> & { locationId?: string } = {},
+    options: GHLPaginationOptions = {}
+  ): PageIterator<GHLBlogPost> {
+    return paginate<GHLBlogPost, number>(async (cursor, pageSize) => {
+      const offset = cursor ?? 0;
+      const response = await this.getBlogPosts({
+        ...filters,
+        locationId: filters.locationId || this.config.locationId,
+        blogId,
+        limit: pageSize,
+        offset
+      });
+      const posts = response.data?.blogs || [];
+      return { items: posts, next: posts.length < pageSize ? undefined : offset + posts.length };
+    }, { pageSize: 50, ...options });
+  }
+
   /**
    * OPPORTUNITIES API METHODS
    */
@@ -1624,15 +1974,9 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      const axiosError = error as AxiosError<GHLErrorResponse>;
-      process.stderr.write(`[GHL API] Search opportunities error: ${JSON.stringify({
-        status: axiosError.response?.status,
-        statusText: axiosError.response?.statusText,
-        data: axiosError.response?.data,
-        message: axiosError.message
-      }, null, 2)}\n`);
-      
-      throw this.handleApiError(axiosError);
+      const apiError = this.handleApiError(error);
+      process.stderr.write(`[GHL API] Search opportunities error: ${apiError.message}\n`);
+      throw apiError;
     }
   }
 
@@ -1646,14 +1990,17 @@ export class GHLApiClient {
         locationId: locationId || this.config.locationId
       };
 
-      const response: AxiosResponse<GHLGetPipelinesResponse> = await this.axiosInstance.get(
-        '/opportunities/pipelines',
-        { params }
-      );
+      const data = await this.cachedGet('pipelines', params.locationId, '/opportunities/pipelines', params, async () => {
+        const response: AxiosResponse<GHLGetPipelinesResponse> = await this.axiosInstance.get(
+          '/opportunities/pipelines',
+          { params }
+        );
+        return response.data;
+      });
 
-      return this.wrapResponse(response.data);
+      return this.wrapResponse(data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1669,7 +2016,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data.opportunity);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1692,7 +2039,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data.opportunity);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1709,7 +2056,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data.opportunity);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1728,7 +2075,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1751,7 +2098,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1767,7 +2114,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1786,7 +2133,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1805,7 +2152,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1823,14 +2170,17 @@ export class GHLApiClient {
         locationId: locationId || this.config.locationId
       };
 
-      const response: AxiosResponse<GHLGetCalendarGroupsResponse> = await this.axiosInstance.get(
-        '/calendars/groups',
-        { params }
-      );
+      const data = await this.cachedGet('calendars', params.locationId, '/calendars/groups', params, async () => {
+        const response: AxiosResponse<GHLGetCalendarGroupsResponse> = await this.axiosInstance.get(
+          '/calendars/groups',
+          { params }
+        );
+        return response.data;
+      });
 
-      return this.wrapResponse(response.data);
+      return this.wrapResponse(data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1850,9 +2200,10 @@ export class GHLApiClient {
         payload
       );
 
+      await this.invalidateCache(['calendars'], payload.locationId);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1868,14 +2219,17 @@ export class GHLApiClient {
         ...(params?.showDrafted !== undefined && { showDrafted: params.showDrafted })
       };
 
-      const response: AxiosResponse<GHLGetCalendarsResponse> = await this.axiosInstance.get(
-        '/calendars/',
-        { params: queryParams }
-      );
+      const data = await this.cachedGet('calendars', queryParams.locationId, '/calendars/', queryParams, async () => {
+        const response: AxiosResponse<GHLGetCalendarsResponse> = await this.axiosInstance.get(
+          '/calendars/',
+          { params: queryParams }
+        );
+        return response.data;
+      });
 
-      return this.wrapResponse(response.data);
+      return this.wrapResponse(data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1895,9 +2249,10 @@ export class GHLApiClient {
         payload
       );
 
+      await this.invalidateCache(['calendars'], payload.locationId);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1913,7 +2268,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1928,9 +2283,10 @@ export class GHLApiClient {
         updates
       );
 
+      await this.invalidateCache(['calendars']);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1944,9 +2300,10 @@ export class GHLApiClient {
         `/calendars/${calendarId}`
       );
 
+      await this.invalidateCache(['calendars']);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1972,7 +2329,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -1998,7 +2355,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2024,7 +2381,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2046,7 +2403,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2062,7 +2419,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2079,7 +2436,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2095,7 +2452,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2114,7 +2471,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2132,7 +2489,7 @@ export class GHLApiClient {
       });
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2145,7 +2502,7 @@ export class GHLApiClient {
       });
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2159,7 +2516,7 @@ export class GHLApiClient {
       });
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2174,7 +2531,7 @@ export class GHLApiClient {
       });
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2184,7 +2541,7 @@ export class GHLApiClient {
       const response: AxiosResponse<any> = await this.axiosInstance.delete(`/emails/builder/${this.config.locationId}/${templateId}`);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2219,7 +2576,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2235,7 +2592,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2252,7 +2609,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2269,7 +2626,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2288,7 +2645,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2302,13 +2659,16 @@ export class GHLApiClient {
    */
   async getLocationTags(locationId: string): Promise<GHLApiResponse<GHLLocationTagsResponse>> {
     try {
-      const response: AxiosResponse<GHLLocationTagsResponse> = await this.axiosInstance.get(
-        `/locations/${locationId}/tags`
-      );
+      const data = await this.cachedGet('locationTags', locationId, `/locations/${locationId}/tags`, undefined, async () => {
+        const response: AxiosResponse<GHLLocationTagsResponse> = await this.axiosInstance.get(
+          `/locations/${locationId}/tags`
+        );
+        return response.data;
+      });
 
-      return this.wrapResponse(response.data);
+      return this.wrapResponse(data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2323,9 +2683,10 @@ export class GHLApiClient {
         tagData
       );
 
+      await this.invalidateCache(['locationTags'], locationId);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2341,7 +2702,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2356,9 +2717,10 @@ export class GHLApiClient {
         tagData
       );
 
+      await this.invalidateCache(['locationTags'], locationId);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2372,9 +2734,10 @@ export class GHLApiClient {
         `/locations/${locationId}/tags/${tagId}`
       );
 
+      await this.invalidateCache(['locationTags'], locationId);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2395,7 +2758,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2412,14 +2775,17 @@ export class GHLApiClient {
       const params: any = {};
       if (model) params.model = model;
 
-      const response: AxiosResponse<GHLLocationCustomFieldsResponse> = await this.axiosInstance.get(
-        `/locations/${locationId}/customFields`,
-        { params }
-      );
+      const data = await this.cachedGet('customFields', locationId, `/locations/${locationId}/customFields`, params, async () => {
+        const response: AxiosResponse<GHLLocationCustomFieldsResponse> = await this.axiosInstance.get(
+          `/locations/${locationId}/customFields`,
+          { params }
+        );
+        return response.data;
+      });
 
-      return this.wrapResponse(response.data);
+      return this.wrapResponse(data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2434,9 +2800,10 @@ export class GHLApiClient {
         fieldData
       );
 
+      await this.invalidateCache(['customFields'], locationId);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2452,7 +2819,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2467,9 +2834,10 @@ export class GHLApiClient {
         fieldData
       );
 
+      await this.invalidateCache(['customFields'], locationId);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2483,9 +2851,10 @@ export class GHLApiClient {
         `/locations/${locationId}/customFields/${customFieldId}`
       );
 
+      await this.invalidateCache(['customFields'], locationId);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2505,7 +2874,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2525,7 +2894,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2542,7 +2911,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2558,7 +2927,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2575,7 +2944,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2591,7 +2960,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2626,7 +2995,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2642,7 +3011,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2657,11 +3026,14 @@ export class GHLApiClient {
   async getTimezones(locationId?: string): Promise<GHLApiResponse<string[]>> {
     try {
       const endpoint = locationId ? `/locations/${locationId}/timezones` : '/locations/timezones';
-      const response: AxiosResponse<string[]> = await this.axiosInstance.get(endpoint);
+      const data = await this.cachedGet('timezones', locationId || this.config.locationId, endpoint, undefined, async () => {
+        const response: AxiosResponse<string[]> = await this.axiosInstance.get(endpoint);
+        return response.data;
+      });
 
-      return this.wrapResponse(response.data);
+      return this.wrapResponse(data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2687,7 +3059,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2707,7 +3079,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2723,7 +3095,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2741,7 +3113,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2759,7 +3131,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2776,7 +3148,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2799,7 +3171,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2817,7 +3189,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2844,7 +3216,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(recordingResponse);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2862,7 +3234,7 @@ export class GHLApiClient {
 
       return this.wrapResponse({ transcriptions: response.data });
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2883,7 +3255,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2901,7 +3273,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -2923,7 +3295,7 @@ export class GHLApiClient {
       );
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -2939,7 +3311,7 @@ export class GHLApiClient {
       );
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -2954,7 +3326,7 @@ export class GHLApiClient {
       );
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -2970,7 +3342,7 @@ export class GHLApiClient {
       );
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -2985,7 +3357,7 @@ export class GHLApiClient {
       );
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -3001,7 +3373,7 @@ export class GHLApiClient {
       );
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -3018,7 +3390,7 @@ export class GHLApiClient {
       );
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -3038,7 +3410,7 @@ export class GHLApiClient {
       );
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -3057,7 +3429,7 @@ export class GHLApiClient {
       );
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -3079,7 +3451,7 @@ export class GHLApiClient {
       );
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -3095,7 +3467,7 @@ export class GHLApiClient {
       );
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -3115,7 +3487,7 @@ export class GHLApiClient {
       );
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -3131,7 +3503,7 @@ export class GHLApiClient {
       );
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -3146,7 +3518,7 @@ export class GHLApiClient {
       );
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -3161,7 +3533,7 @@ export class GHLApiClient {
       );
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -3264,7 +3636,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3279,9 +3651,10 @@ export class GHLApiClient {
         updateData
       );
 
+      await this.invalidateCache(['calendars']);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3295,9 +3668,10 @@ export class GHLApiClient {
         `/calendars/groups/${groupId}`
       );
 
+      await this.invalidateCache(['calendars']);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3314,9 +3688,10 @@ export class GHLApiClient {
         payload
       );
 
+      await this.invalidateCache(['calendars']);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3337,7 +3712,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3354,7 +3729,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3371,7 +3746,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3387,7 +3762,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3412,7 +3787,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3434,7 +3809,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3450,7 +3825,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3467,7 +3842,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3483,7 +3858,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3506,7 +3881,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3525,7 +3900,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3541,7 +3916,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3558,7 +3933,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3574,7 +3949,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3599,7 +3974,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3621,7 +3996,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3651,7 +4026,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3694,7 +4069,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3715,7 +4090,7 @@ export class GHLApiClient {
 
       return this.wrapResponse({ success: true, message: 'Media file deleted successfully' });
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3731,14 +4106,17 @@ export class GHLApiClient {
         locationId: locationId || this.config.locationId
       };
 
-      const response: AxiosResponse<GHLObjectListResponse> = await this.axiosInstance.get(
-        '/objects/',
-        { params }
-      );
+      const data = await this.cachedGet('objectSchemas', params.locationId, '/objects/', params, async () => {
+        const response: AxiosResponse<GHLObjectListResponse> = await this.axiosInstance.get(
+          '/objects/',
+          { params }
+        );
+        return response.data;
+      });
 
-      return this.wrapResponse(response.data);
+      return this.wrapResponse(data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3758,9 +4136,10 @@ export class GHLApiClient {
         payload
       );
 
+      await this.invalidateCache(['objectSchemas'], payload.locationId);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3775,14 +4154,17 @@ export class GHLApiClient {
         ...(params.fetchProperties !== undefined && { fetchProperties: params.fetchProperties.toString() })
       };
 
-      const response: AxiosResponse<GHLGetObjectSchemaResponse> = await this.axiosInstance.get(
-        `/objects/${params.key}`,
-        { params: queryParams }
-      );
+      const data = await this.cachedGet('objectSchemas', queryParams.locationId, `/objects/${params.key}`, queryParams, async () => {
+        const response: AxiosResponse<GHLGetObjectSchemaResponse> = await this.axiosInstance.get(
+          `/objects/${params.key}`,
+          { params: queryParams }
+        );
+        return response.data;
+      });
 
-      return this.wrapResponse(response.data);
+      return this.wrapResponse(data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3802,9 +4184,10 @@ export class GHLApiClient {
         payload
       );
 
+      await this.invalidateCache(['objectSchemas'], payload.locationId);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3826,7 +4209,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3842,7 +4225,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3864,7 +4247,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3880,7 +4263,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3902,7 +4285,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3927,7 +4310,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3949,7 +4332,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3965,7 +4348,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3982,7 +4365,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -3998,7 +4381,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -4019,7 +4402,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -4040,7 +4423,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -4062,7 +4445,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -4086,7 +4469,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -4107,7 +4490,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -4125,7 +4508,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -4145,9 +4528,10 @@ export class GHLApiClient {
         payload
       );
 
+      await this.invalidateCache(['customFields', 'objectSchemas'], payload.locationId);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -4167,9 +4551,10 @@ export class GHLApiClient {
         payload
       );
 
+      await this.invalidateCache(['customFields', 'objectSchemas'], payload.locationId);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -4183,9 +4568,10 @@ export class GHLApiClient {
         `/custom-fields/${id}`
       );
 
+      await this.invalidateCache(['customFields', 'objectSchemas']);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -4199,14 +4585,18 @@ export class GHLApiClient {
         locationId: params.locationId || this.config.locationId
       };
 
-      const response: AxiosResponse<GHLV2CustomFieldsResponse> = await this.axiosInstance.get(
-        `/custom-fields/object-key/${params.objectKey}`,
-        { params: queryParams }
-      );
+      const endpoint = `/custom-fields/object-key/${params.objectKey}`;
+      const data = await this.cachedGet('customFields', queryParams.locationId, endpoint, queryParams, async () => {
+        const response: AxiosResponse<GHLV2CustomFieldsResponse> = await this.axiosInstance.get(
+          endpoint,
+          { params: queryParams }
+        );
+        return response.data;
+      });
 
-      return this.wrapResponse(response.data);
+      return this.wrapResponse(data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -4226,9 +4616,10 @@ export class GHLApiClient {
         payload
       );
 
+      await this.invalidateCache(['customFields'], payload.locationId);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -4248,9 +4639,10 @@ export class GHLApiClient {
         payload
       );
 
+      await this.invalidateCache(['customFields'], payload.locationId);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -4269,9 +4661,10 @@ export class GHLApiClient {
         { params: queryParams }
       );
 
+      await this.invalidateCache(['customFields'], queryParams.locationId);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -4294,7 +4687,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -4327,7 +4720,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -4353,7 +4746,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4382,7 +4775,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4408,7 +4801,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4432,7 +4825,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4455,7 +4848,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4477,7 +4870,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4504,7 +4897,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4527,7 +4920,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4552,7 +4945,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4574,7 +4967,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4597,7 +4990,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4619,7 +5012,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4646,7 +5039,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4668,7 +5061,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4690,7 +5083,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4713,7 +5106,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4735,7 +5128,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4762,7 +5155,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4784,7 +5177,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4805,7 +5198,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4822,7 +5215,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4842,7 +5235,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4874,7 +5267,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4894,7 +5287,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4917,7 +5310,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4939,7 +5332,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4961,7 +5354,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -4981,7 +5374,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5005,7 +5398,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5025,7 +5418,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5050,7 +5443,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5073,7 +5466,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5097,7 +5490,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5114,7 +5507,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5137,7 +5530,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5160,7 +5553,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5176,7 +5569,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5202,7 +5595,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5223,7 +5616,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5254,7 +5647,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5281,7 +5674,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5304,7 +5697,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5326,7 +5719,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5349,7 +5742,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5370,7 +5763,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5393,7 +5786,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5416,7 +5809,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5439,7 +5832,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5456,7 +5849,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5479,7 +5872,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5502,7 +5895,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5525,7 +5918,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5548,7 +5941,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5571,7 +5964,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5594,7 +5987,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5611,7 +6004,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5628,7 +6021,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5645,7 +6038,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5668,7 +6061,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5687,7 +6080,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5705,7 +6098,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5723,7 +6116,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5742,7 +6135,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5761,7 +6154,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5788,7 +6181,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5827,7 +6220,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5852,7 +6245,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5875,7 +6268,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5900,7 +6293,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5923,7 +6316,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5946,7 +6339,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -5969,7 +6362,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6008,7 +6401,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6033,7 +6426,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6056,7 +6449,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6081,7 +6474,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6097,7 +6490,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6120,7 +6513,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6143,7 +6536,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6166,7 +6559,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6189,7 +6582,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6214,7 +6607,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6239,7 +6632,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6262,7 +6655,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6287,7 +6680,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6310,7 +6703,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6333,7 +6726,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6356,7 +6749,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6379,7 +6772,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6396,7 +6789,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6419,7 +6812,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6442,7 +6835,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6465,7 +6858,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6490,7 +6883,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6513,7 +6906,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6536,7 +6929,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6575,7 +6968,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6592,7 +6985,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6623,7 +7016,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6646,7 +7039,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6669,7 +7062,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6692,7 +7085,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6719,7 +7112,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6742,7 +7135,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6787,7 +7180,7 @@ export class GHLApiClient {
 
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6807,10 +7200,10 @@ export class GHLApiClient {
       return this.wrapResponse(response.data);
     } catch (error) {
       console.error('[GHL API] Failed to trigger workflow:', error);
-      if (axios.isAxiosError(error)) {
-        console.error('[GHL API] Workflow error response:', error.response?.data);
+      if (error instanceof GHLApiError) {
+        console.error('[GHL API] Workflow error response:', error.responseBody);
       }
-      throw error;
+      throw this.handleApiError(error);
     }
   }
 
@@ -6845,13 +7238,16 @@ export class GHLApiClient {
 
       process.stderr.write(`[GHL API] Search users params: ${JSON.stringify(params, null, 2)}\n`);
 
-      const response: AxiosResponse<GHLUserSearchResponse> = await this.axiosInstance.get(
-        '/users/search',
-        { params }
-      );
-      return this.wrapResponse(response.data);
+      const data = await this.cachedGet('users', params.locationId || this.config.locationId, '/users/search', params, async () => {
+        const response: AxiosResponse<GHLUserSearchResponse> = await this.axiosInstance.get(
+          '/users/search',
+          { params }
+        );
+        return response.data;
+      });
+      return this.wrapResponse(data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -6864,7 +7260,7 @@ export class GHLApiClient {
       );
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -6898,9 +7294,10 @@ export class GHLApiClient {
         '/users',
         payload
       );
+      await this.invalidateCache(['users'], userData.locationId || this.config.locationId);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -6942,9 +7339,10 @@ export class GHLApiClient {
         `/users/${userId}`,
         payload
       );
+      await this.invalidateCache(['users']);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 
@@ -6955,9 +7353,10 @@ export class GHLApiClient {
       const response: AxiosResponse<{ success: boolean }> = await this.axiosInstance.delete(
         `/users/${userId}`
       );
+      await this.invalidateCache(['users']);
       return this.wrapResponse(response.data);
     } catch (error) {
-      throw this.handleApiError(error as AxiosError<GHLErrorResponse>);
+      throw this.handleApiError(error);
     }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,223 @@
+/**
+ * GoHighLevel API Errors
+ * Typed errors for failed GHL API calls, carrying status, endpoint, request ID and validation details
+ */
+
+import { AxiosError } from 'axios';
+import { getServerDelay, headerNumber, headerValue } from './retry-policy.js';
+import { GHLErrorResponse, GHLValidationIssue } from '../types/ghl-types.js';
+
+export type GHLApiErrorType =
+  | 'auth'
+  | 'not_found'
+  | 'validation'
+  | 'rate_limit'
+  | 'conflict'
+  | 'server'
+  | 'network'
+  | 'api';
+
+export interface GHLApiErrorDetails {
+  status: number; // HTTP status, 0 when no response was received
+  endpoint?: string; // e.g. "GET /contacts/abc123"
+  requestId?: string;
+  validationErrors?: GHLValidationIssue[];
+  retryAfterMs?: number;
+  dailyLimitExhausted?: boolean;
+  code?: string; // Node/axios error code for network failures, e.g. ECONNRESET
+  responseBody?: unknown;
+}
+
+/**
+ * Base class for every failed GHL API call
+ */
+export class GHLApiError extends Error {
+  readonly type: GHLApiErrorType = 'api';
+  readonly status: number;
+  readonly endpoint?: string;
+  readonly requestId?: string;
+  readonly validationErrors: GHLValidationIssue[];
+  readonly retryAfterMs?: number;
+  readonly dailyLimitExhausted: boolean;
+  readonly code?: string;
+  readonly responseBody?: unknown;
+
+  constructor(message: string, details: GHLApiErrorDetails) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+    this.requestId = details.requestId;
+    this.validationErrors = details.validationErrors || [];
+    this.retryAfterMs = details.retryAfterMs;
+    this.dailyLimitExhausted = details.dailyLimitExhausted || false;
+    this.code = details.code;
+    this.responseBody = details.responseBody;
+  }
+
+  /**
+   * Same error with a prefix describing the operation, e.g. "Failed to get contact: GHL API Error (404): ..."
+   */
+  withContext(context: string): GHLApiError {
+    const ErrorClass = this.constructor as new (message: string, details: GHLApiErrorDetails) => GHLApiError;
+    return new ErrorClass(`${context}: ${this.message}`, this.getDetails());
+  }
+
+  getDetails(): GHLApiErrorDetails {
+    return {
+      status: this.status,
+      endpoint: this.endpoint,
+      requestId: this.requestId,
+      validationErrors: this.validationErrors,
+      retryAfterMs: this.retryAfterMs,
+      dailyLimitExhausted: this.dailyLimitExhausted,
+      code: this.code,
+      responseBody: this.responseBody
+    };
+  }
+}
+
+/** 401/403: the token is missing, expired or lacks the required scope */
+export class GHLAuthError extends GHLApiError {
+  readonly type = 'auth';
+}
+
+/** 404: the record or endpoint does not exist */
+export class GHLNotFoundError extends GHLApiError {
+  readonly type = 'not_found';
+}
+
+/** 400/422: GHL rejected the request payload; see validationErrors */
+export class GHLValidationError extends GHLApiError {
+  readonly type = 'validation';
+}
+
+/** 429: burst or daily rate limit reached; see retryAfterMs and dailyLimitExhausted */
+export class GHLRateLimitError extends GHLApiError {
+  readonly type = 'rate_limit';
+}
+
+/** 409: the request conflicts with the current state, e.g. a duplicate record */
+export class GHLConflictError extends GHLApiError {
+  readonly type = 'conflict';
+}
+
+/** 5xx: GHL failed to process the request */
+export class GHLServerError extends GHLApiError {
+  readonly type = 'server';
+}
+
+/** No response: connection refused or reset, DNS failure or timeout */
+export class GHLNetworkError extends GHLApiError {
+  readonly type = 'network';
+}
+
+/**
+ * A request abandoned because the caller's AbortSignal fired, e.g. after the client cancelled the tool call.
+ * Not a GHLApiError: GHL never saw or answered the request.
+ */
+export class GHLRequestCancelledError extends Error {
+  constructor(readonly endpoint?: string) {
+    super(`GHL API request cancelled${endpoint ? `: ${endpoint}` : ''}`);
+    this.name = 'GHLRequestCancelledError';
+  }
+}
+
+/**
+ * Convert a failed axios request into the matching GHLApiError subclass
+ */
+export function createGHLApiError(error: AxiosError<GHLErrorResponse>): GHLApiError {
+  const request = error.config;
+  const response = error.response;
+  const endpoint = request ? `${(request.method || 'get').toUpperCase()} ${request.url}` : undefined;
+
+  if (!response) {
+    return new GHLNetworkError(`GHL API Error (network): ${error.message || error.code || 'No response'}`, {
+      status: 0,
+      endpoint,
+      code: error.code
+    });
+  }
+
+  const status = response.status;
+  const body = response.data;
+  const rawMessage = body?.message || error.message || 'Unknown error';
+  const message = `GHL API Error (${status}): ${Array.isArray(rawMessage) ? rawMessage.join(', ') : rawMessage}`;
+
+  const details: GHLApiErrorDetails = {
+    status,
+    endpoint,
+    requestId: headerValue(response.headers, 'x-request-id')
+      || headerValue(response.headers, 'x-correlation-id')
+      || body?.traceId,
+    responseBody: body
+  };
+
+  switch (true) {
+    case status === 401 || status === 403:
+      return new GHLAuthError(message, details);
+    case status === 404:
+      return new GHLNotFoundError(message, details);
+    case status === 400 || status === 422:
+      return new GHLValidationError(message, { ...details, validationErrors: getValidationIssues(body) });
+    case status === 409:
+      return new GHLConflictError(message, details);
+    case status === 429:
+      return new GHLRateLimitError(message, {
+        ...details,
+        retryAfterMs: getServerDelay(error) ?? undefined,
+        dailyLimitExhausted: headerNumber(response.headers, 'x-ratelimit-daily-remaining') === 0
+      });
+    case status >= 500:
+      return new GHLServerError(message, details);
+    default:
+      return new GHLApiError(message, details);
+  }
+}
+
+/**
+ * Prefix an error with the operation that failed, keeping GHLApiError subclasses and their details intact
+ */
+export function withErrorContext(context: string, error: unknown): Error {
+  if (error instanceof GHLApiError) {
+    return error.withContext(context);
+  }
+  if (error instanceof GHLRequestCancelledError) {
+    return error;
+  }
+  return new Error(`${context}: ${error instanceof Error ? error.message : String(error)}`);
+}
+
+/**
+ * Field-level messages from a GHL error body.
+ * GHL reports them either as an array of "field must ..." strings or as an errors map/array.
+ */
+function getValidationIssues(body: GHLErrorResponse | undefined): GHLValidationIssue[] {
+  if (!body) {
+    return [];
+  }
+
+  const issues: GHLValidationIssue[] = [];
+
+  if (Array.isArray(body.errors)) {
+    for (const entry of body.errors) {
+      issues.push({ field: entry.field || entry.property, message: entry.message || 'Invalid value' });
+    }
+  } else if (body.errors && typeof body.errors === 'object') {
+    for (const [field, messages] of Object.entries(body.errors)) {
+      for (const message of Array.isArray(messages) ? messages : [messages]) {
+        issues.push({ field, message });
+      }
+    }
+  }
+
+  if (issues.length === 0 && Array.isArray(body.message)) {
+    for (const message of body.message) {
+      // class-validator messages start with the property name, e.g. "email must be an email"
+      const field = message.match(/^([\w.\[\]]+) (must|should|is|has)\b/)?.[1];
+      issues.push({ field, message });
+    }
+  }
+
+  return issues;
+}
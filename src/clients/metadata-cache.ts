@@ -0,0 +1,379 @@
+/**
+ * GoHighLevel Metadata Cache
+ * Caches slow-changing metadata (pipelines, calendars, custom fields, schemas, tags, timezones, users)
+ * per location, endpoint and params, in memory (LRU) or on disk
+ */
+
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  GHLCacheConfig,
+  GHLCacheOptions,
+  GHLCacheResource,
+  GHLCacheStats
+} from '../types/ghl-types.js';
+
+const MINUTE = 60 * 1000;
+
+export const DEFAULT_CACHE_CONFIG: GHLCacheConfig = {
+  enabled: true,
+  backend: 'memory',
+  maxEntries: 500,
+  directory: path.join(os.tmpdir(), 'ghl-mcp-cache'),
+  ttlMs: {
+    pipelines: 10 * MINUTE,
+    calendars: 10 * MINUTE,
+    customFields: 15 * MINUTE,
+    objectSchemas: 30 * MINUTE,
+    locationTags: 5 * MINUTE,
+    timezones: 24 * 60 * MINUTE,
+    users: 10 * MINUTE
+  }
+};
+
+/**
+ * Cache settings from GHL_CACHE_BACKEND (memory, file or off), GHL_CACHE_DIR and GHL_CACHE_MAX_ENTRIES
+ */
+export function cacheOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): GHLCacheOptions {
+  const options: GHLCacheOptions = {};
+  if (env.GHL_CACHE_BACKEND === 'off') {
+    options.enabled = false;
+  } else if (env.GHL_CACHE_BACKEND === 'memory' || env.GHL_CACHE_BACKEND === 'file') {
+    options.backend = env.GHL_CACHE_BACKEND;
+  }
+  if (env.GHL_CACHE_DIR) {
+    options.directory = env.GHL_CACHE_DIR;
+  }
+  if (env.GHL_CACHE_MAX_ENTRIES && !isNaN(parseInt(env.GHL_CACHE_MAX_ENTRIES))) {
+    options.maxEntries = parseInt(env.GHL_CACHE_MAX_ENTRIES);
+  }
+  return options;
+}
+
+/**
+ * Merge cache options over the environment and the defaults; explicit options win
+ */
+export function resolveCacheConfig(options: GHLCacheOptions = {}): GHLCacheConfig {
+  const fromEnv = cacheOptionsFromEnv();
+  return {
+    ...DEFAULT_CACHE_CONFIG,
+    ...fromEnv,
+    ...options,
+    ttlMs: { ...DEFAULT_CACHE_CONFIG.ttlMs, ...options.ttlMs }
+  };
+}
+
+export interface CacheEntry {
+  key: string;
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Storage behind the metadata cache. Expiry is handled by MetadataCache, backends only store entries.
+ */
+export interface CacheBackend {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  deleteByPrefix(prefix: string): Promise<number>;
+  clear(): Promise<void>;
+}
+
+/**
+ * In-memory backend that evicts the least recently used entry once maxEntries is reached
+ */
+export class LRUCacheBackend implements CacheBackend {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Map keeps insertion order, so re-inserting marks the entry as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        deleted += 1;
+      }
+    }
+    return deleted;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * File backend: one JSON file per entry, named by the hash of its key, readable only by the server's user.
+ * Survives restarts and is shared by processes that point at the same directory.
+ */
+export class FileCacheBackend implements CacheBackend {
+  constructor(private directory: string) {}
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  private async readEntry(file: string): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8')) as CacheEntry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async removeFile(file: string): Promise<void> {
+    await fs.rm(file, { force: true });
+  }
+
+  private async listFiles(): Promise<string[]> {
+    try {
+      const names = await fs.readdir(this.directory);
+      return names.filter(name => name.endsWith('.json')).map(name => path.join(this.directory, name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = await this.readEntry(this.fileFor(key));
+    // Guard against hash collisions
+    return entry?.key === key ? entry : undefined;
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+    const file = this.fileFor(entry.key);
+    // Write then rename so concurrent readers never see a partial file
+    const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(entry), { mode: 0o600 });
+    await fs.rename(tempFile, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.removeFile(this.fileFor(key));
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    for (const file of await this.listFiles()) {
+      const entry = await this.readEntry(file).catch(() => undefined);
+      if (entry?.key.startsWith(prefix)) {
+        await this.removeFile(file);
+        deleted += 1;
+      }
+    }
+    return deleted;
+  }
+
+  async clear(): Promise<void> {
+    for (const file of await this.listFiles()) {
+      await this.removeFile(file);
+    }
+  }
+}
+
+export interface CacheLookup {
+  resource: GHLCacheResource;
+  locationId: string;
+  endpoint: string;
+  params?: Record<string, unknown>;
+  scope: string; // Fingerprint of the credentials, so one token never reads another token's entries
+}
+
+/**
+ * Serialize params with sorted keys so equivalent requests share an entry
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entryValue]) => entryValue !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entryValue]) => `${JSON.stringify(key)}:${stableStringify(entryValue)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Fingerprint for the scope part of a cache key; the token itself is never stored
+ */
+export function credentialScope(accessToken: string): string {
+  return createHash('sha256').update(accessToken).digest('hex').slice(0, 16);
+}
+
+/**
+ * Read-through cache with per-resource TTLs.
+ * Keys start with location and resource, so a mutation can drop every entry it may have made stale.
+ * Backend failures are logged and treated as misses; the cache never fails a request.
+ */
+export class MetadataCache {
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
+  private errors = 0;
+  private byResource: GHLCacheStats['byResource'] = {};
+
+  constructor(
+    private backend: CacheBackend,
+    private config: GHLCacheConfig,
+    private now: () => number = Date.now
+  ) {}
+
+  private keyPrefix(locationId: string, resource: GHLCacheResource): string {
+    return `${locationId}|${resource}|`;
+  }
+
+  private keyFor(lookup: CacheLookup): string {
+    return `${this.keyPrefix(lookup.locationId, lookup.resource)}${lookup.scope}|${lookup.endpoint}|${stableStringify(lookup.params ?? {})}`;
+  }
+
+  private record(resource: GHLCacheResource, hit: boolean): void {
+    const counts = this.byResource[resource] ?? { hits: 0, misses: 0 };
+    if (hit) {
+      this.hits += 1;
+      counts.hits += 1;
+    } else {
+      this.misses += 1;
+      counts.misses += 1;
+    }
+    this.byResource[resource] = counts;
+  }
+
+  private reportError(action: string, error: unknown): void {
+    this.errors += 1;
+    process.stderr.write(`[GHL Cache] ⚠️ ${action} failed: ${error instanceof Error ? error.message : String(error)}\n`);
+  }
+
+  /**
+   * Return the cached value for the lookup, or call fetch and cache what it returns
+   */
+  async getOrFetch<T>(lookup: CacheLookup, fetch: () => Promise<T>): Promise<T> {
+    const key = this.keyFor(lookup);
+
+    try {
+      const entry = await this.backend.get(key);
+      if (entry && entry.expiresAt > this.now()) {
+        this.record(lookup.resource, true);
+        process.stderr.write(`[GHL Cache] HIT ${lookup.resource} ${lookup.endpoint}\n`);
+        return entry.value as T;
+      }
+      if (entry) {
+        await this.backend.delete(key);
+      }
+    } catch (error) {
+      this.reportError('Read', error);
+    }
+
+    this.record(lookup.resource, false);
+    process.stderr.write(`[GHL Cache] MISS ${lookup.resource} ${lookup.endpoint}\n`);
+
+    const value = await fetch();
+    try {
+      await this.backend.set({ key, value, expiresAt: this.now() + this.config.ttlMs[lookup.resource] });
+    } catch (error) {
+      this.reportError('Write', error);
+    }
+    return value;
+  }
+
+  /**
+   * Drop every entry of the given resources for a location, whatever endpoint, params or credentials made it
+   */
+  async invalidate(locationId: string, resources: GHLCacheResource[]): Promise<void> {
+    for (const resource of resources) {
+      try {
+        const deleted = await this.backend.deleteByPrefix(this.keyPrefix(locationId, resource));
+        this.invalidations += 1;
+        process.stderr.write(`[GHL Cache] Invalidated ${resource} for ${locationId} (${deleted} entries)\n`);
+      } catch (error) {
+        this.reportError('Invalidation', error);
+      }
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.backend.clear();
+  }
+
+  getStats(): GHLCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      backend: this.config.backend,
+      hits: this.hits,
+      misses: this.misses,
+      invalidations: this.invalidations,
+      errors: this.errors,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+      byResource: JSON.parse(JSON.stringify(this.byResource))
+    };
+  }
+}
+
+const caches = new Map<string, MetadataCache>();
+
+/**
+ * Shared cache for a backend, or null when caching is disabled.
+ * The first client created for a backend (and directory) decides its capacity and TTLs.
+ */
+export function getMetadataCache(config: GHLCacheConfig): MetadataCache | null {
+  if (!config.enabled) {
+    return null;
+  }
+
+  const id = config.backend === 'file' ? `file:${path.resolve(config.directory)}` : 'memory';
+  let cache = caches.get(id);
+  if (!cache) {
+    const backend = config.backend === 'file'
+      ? new FileCacheBackend(config.directory)
+      : new LRUCacheBackend(config.maxEntries);
+    cache = new MetadataCache(backend, { ...config });
+    caches.set(id, cache);
+  }
+  return cache;
+}
+
+/**
+ * Stats for every cache in use in this process
+ */
+export function getMetadataCacheStats(): GHLCacheStats[] {
+  return [...caches.values()].map(cache => cache.getStats());
+}
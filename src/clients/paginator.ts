@@ -0,0 +1,113 @@
+/**
+ * GoHighLevel Pagination
+ * Async iteration over list/search endpoints, whether they page by cursor (searchAfter), page number or offset
+ */
+
+import { GHLPaginationOptions, MCPFetchAllParams } from '../types/ghl-types.js';
+
+// Upper bound for fetchAll when the caller gives no maxResults
+export const FETCH_ALL_MAX_RESULTS = 5000;
+
+/**
+ * One page of results and the cursor for the next one (undefined on the last page).
+ * The cursor is whatever the endpoint pages by: a searchAfter array, a page number or an offset.
+ */
+export interface Page<T, C> {
+  items: T[];
+  next?: C;
+}
+
+export type PageFetcher<T, C> = (cursor: C | undefined, pageSize: number) => Promise<Page<T, C>>;
+
+/**
+ * Returned when iteration ends; truncated means a limit stopped it while more results existed
+ */
+export interface PaginationSummary {
+  pages: number;
+  count: number;
+  truncated: boolean;
+}
+
+export type PageIterator<T> = AsyncGenerator<T, PaginationSummary, undefined>;
+
+/**
+ * Yield every item from successive pages until the endpoint runs out or a limit is reached.
+ * Pages are fetched lazily, so a consumer that stops early never requests the next page.
+ */
+export async function* paginate<T, C>(
+  fetchPage: PageFetcher<T, C>,
+  options: GHLPaginationOptions & { pageSize: number }
+): PageIterator<T> {
+  const maxItems = options.maxItems ?? Infinity;
+  const maxPages = options.maxPages ?? Infinity;
+  const seenCursors = new Set<string>();
+  let cursor: C | undefined;
+  let pages = 0;
+  let count = 0;
+
+  while (true) {
+    if (options.shouldContinue && !options.shouldContinue()) {
+      return { pages, count, truncated: true };
+    }
+
+    let page: Page<T, C>;
+    try {
+      page = await fetchPage(cursor, options.pageSize);
+    } catch (error) {
+      // A page request that failed because the consumer asked to stop (e.g. it was cancelled) ends the iteration
+      if (options.shouldContinue && !options.shouldContinue()) {
+        return { pages, count, truncated: true };
+      }
+      throw error;
+    }
+    pages += 1;
+
+    for (const item of page.items) {
+      if (count >= maxItems) {
+        return { pages, count, truncated: true };
+      }
+      count += 1;
+      yield item;
+    }
+
+    // A cursor seen before means the endpoint ignored it; stop rather than loop forever
+    const cursorKey = JSON.stringify(page.next);
+    if (page.next === undefined || page.items.length === 0 || seenCursors.has(cursorKey)) {
+      return { pages, count, truncated: false };
+    }
+    if (count >= maxItems || pages >= maxPages) {
+      return { pages, count, truncated: true };
+    }
+
+    seenCursors.add(cursorKey);
+    cursor = page.next;
+  }
+}
+
+/**
+ * Drain an iterator into an array, keeping its summary. onItem is called with the running count, e.g. to report progress.
+ */
+export async function collect<T>(
+  iterator: PageIterator<T>,
+  onItem?: (count: number) => void
+): Promise<{ items: T[] } & PaginationSummary> {
+  const items: T[] = [];
+  while (true) {
+    const next = await iterator.next();
+    if (next.done) {
+      return { ...next.value, items };
+    }
+    items.push(next.value);
+    onItem?.(items.length);
+  }
+}
+
+/**
+ * maxItems for a tool call with fetchAll/maxResults, or undefined when the tool should return a single page
+ */
+export function getFetchAllLimit(params: MCPFetchAllParams): number | undefined {
+  if (params.maxResults !== undefined) {
+    return Math.min(params.maxResults, FETCH_ALL_MAX_RESULTS);
+  }
+  return params.fetchAll ? FETCH_ALL_MAX_RESULTS : undefined;
+}
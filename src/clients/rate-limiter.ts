@@ -0,0 +1,213 @@
+/**
+ * GoHighLevel API Rate Limiter
+ * Per-location token bucket with a concurrency cap and FIFO queue, kept in sync with GHL's X-RateLimit-* headers
+ */
+
+import { headerNumber } from './retry-policy.js';
+import {
+  GHLThrottleConfig,
+  GHLRateLimitStatus,
+  GHLRequestBudgetOptions
+} from '../types/ghl-types.js';
+
+export const DEFAULT_THROTTLE_CONFIG: GHLThrottleConfig = {
+  burstLimit: 100,
+  burstIntervalMs: 10000,
+  maxConcurrent: 10,
+  dailyReserve: 1000
+};
+
+/**
+ * Releases a slot taken with acquire(); calling it more than once has no effect
+ */
+export type ReleaseSlot = () => void;
+
+/**
+ * Merge a partial throttle config over the defaults
+ */
+export function resolveThrottleConfig(config?: Partial<GHLThrottleConfig>): GHLThrottleConfig {
+  return { ...DEFAULT_THROTTLE_CONFIG, ...config };
+}
+
+/**
+ * Token bucket for one location.
+ * Tokens refill continuously at burstLimit per burstIntervalMs; a request needs a token and a free concurrency slot.
+ */
+export class LocationRateLimiter {
+  private tokens: number;
+  private lastRefill: number;
+  private inFlight = 0;
+  private queue: Array<(release: ReleaseSlot) => void> = [];
+  private timer: NodeJS.Timeout | null = null;
+  private dailyLimit?: number;
+  private dailyRemaining?: number;
+
+  constructor(
+    readonly locationId: string,
+    private config: GHLThrottleConfig,
+    private now: () => number = Date.now
+  ) {
+    this.tokens = config.burstLimit;
+    this.lastRefill = now();
+  }
+
+  /**
+   * Wait for a token and a concurrency slot. Callers are served in arrival order.
+   */
+  acquire(): Promise<ReleaseSlot> {
+    return new Promise(resolve => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+  }
+
+  /**
+   * Correct the local estimate with the quota GHL reports.
+   * Other processes may share the location's quota, so the server's count only ever lowers ours.
+   */
+  updateFromHeaders(headers: any): void {
+    const burstLimit = headerNumber(headers, 'x-ratelimit-max');
+    if (burstLimit !== undefined && burstLimit > 0) {
+      this.config.burstLimit = burstLimit;
+    }
+
+    const interval = headerNumber(headers, 'x-ratelimit-interval-milliseconds');
+    if (interval !== undefined && interval > 0) {
+      this.config.burstIntervalMs = interval;
+    }
+
+    const burstRemaining = headerNumber(headers, 'x-ratelimit-remaining');
+    if (burstRemaining !== undefined) {
+      this.refill();
+      this.tokens = Math.min(this.tokens, burstRemaining);
+    }
+
+    const dailyLimit = headerNumber(headers, 'x-ratelimit-limit-daily');
+    if (dailyLimit !== undefined) {
+      this.dailyLimit = dailyLimit;
+    }
+
+    const dailyRemaining = headerNumber(headers, 'x-ratelimit-daily-remaining');
+    if (dailyRemaining !== undefined) {
+      this.dailyRemaining = dailyRemaining;
+    }
+
+    this.drain();
+  }
+
+  /**
+   * Remaining quota and current load
+   */
+  getStatus(): GHLRateLimitStatus {
+    this.refill();
+    return {
+      locationId: this.locationId,
+      burstLimit: this.config.burstLimit,
+      burstRemaining: Math.floor(this.tokens),
+      burstIntervalMs: this.config.burstIntervalMs,
+      dailyLimit: this.dailyLimit,
+      dailyRemaining: this.dailyRemaining,
+      inFlight: this.inFlight,
+      queued: this.queue.length
+    };
+  }
+
+  /**
+   * Hand out tokens to waiting callers, and schedule another pass for when the next token is due
+   */
+  private drain(): void {
+    this.refill();
+
+    while (this.queue.length > 0 && this.inFlight < this.config.maxConcurrent && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.inFlight += 1;
+      this.queue.shift()!(this.createRelease());
+    }
+
+    if (this.queue.length > 0 && this.inFlight < this.config.maxConcurrent && !this.timer) {
+      const msPerToken = this.config.burstIntervalMs / this.config.burstLimit;
+      const wait = Math.max(1, Math.ceil((1 - this.tokens) * msPerToken));
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, wait);
+    }
+  }
+
+  private createRelease(): ReleaseSlot {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.inFlight -= 1;
+      this.drain();
+    };
+  }
+
+  private refill(): void {
+    const now = this.now();
+    const elapsed = now - this.lastRefill;
+    this.lastRefill = now;
+    if (elapsed > 0) {
+      this.tokens = Math.min(
+        this.config.burstLimit,
+        this.tokens + elapsed * this.config.burstLimit / this.config.burstIntervalMs
+      );
+    }
+  }
+}
+
+const limiters = new Map<string, LocationRateLimiter>();
+
+/**
+ * Shared limiter for a location; the first client created for the location decides its throttle config
+ */
+export function getLocationRateLimiter(locationId: string, config: GHLThrottleConfig): LocationRateLimiter {
+  let limiter = limiters.get(locationId);
+  if (!limiter) {
+    limiter = new LocationRateLimiter(locationId, { ...config });
+    limiters.set(locationId, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Request allowance for a long-running operation.
+ * Lets a tool stop between steps, with partial results, before it burns through the location's daily quota.
+ */
+export class RequestBudget {
+  private readonly startCount: number;
+
+  constructor(
+    private getRequestCount: () => number,
+    private getStatus: () => GHLRateLimitStatus,
+    private options: Required<Pick<GHLRequestBudgetOptions, 'dailyReserve'>> & GHLRequestBudgetOptions
+  ) {
+    this.startCount = getRequestCount();
+  }
+
+  /**
+   * Requests made since the budget was created
+   */
+  get spent(): number {
+    return this.getRequestCount() - this.startCount;
+  }
+
+  /**
+   * Why the operation should stop, or null while it may continue
+   */
+  exhaustedReason(): string | null {
+    if (this.options.maxRequests !== undefined && this.spent >= this.options.maxRequests) {
+      return `Request budget of ${this.options.maxRequests} requests used`;
+    }
+
+    const { dailyRemaining } = this.getStatus();
+    if (dailyRemaining !== undefined && dailyRemaining <= this.options.dailyReserve) {
+      return `Daily API quota is down to ${dailyRemaining} requests (reserve: ${this.options.dailyReserve})`;
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * GoHighLevel API Retry Policy
+ * Decides whether a failed request is retried and how long to wait, honouring Retry-After and GHL rate-limit headers
+ */
+
+import { AxiosError } from 'axios';
+import { GHLRetryConfig } from '../types/ghl-types.js';
+
+export const DEFAULT_RETRY_CONFIG: GHLRetryConfig = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  retryNonIdempotent: false
+};
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+// Connection errors raised before the request reached GHL, so even writes are safe to resend
+const NOT_SENT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+// Transient network errors where the request may or may not have been processed
+const TRANSIENT_ERROR_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EPIPE', ...NOT_SENT_ERROR_CODES];
+
+/**
+ * Merge a partial retry config over the defaults
+ */
+export function resolveRetryConfig(config?: Partial<GHLRetryConfig>): GHLRetryConfig {
+  return { ...DEFAULT_RETRY_CONFIG, ...config };
+}
+
+/**
+ * Decide whether a failed request may be retried.
+ * Non-idempotent methods (POST, PATCH) are only retried when GHL cannot have processed them:
+ * a 429 rejection, a connection that was never established, or an Idempotency-Key header.
+ */
+export function isRetryable(error: AxiosError, config: GHLRetryConfig): boolean {
+  const request = error.config;
+  if (!request) {
+    return false;
+  }
+
+  const status = error.response?.status;
+  const code = error.code || '';
+
+  if (status !== undefined) {
+    if (!config.retryableStatuses.includes(status)) {
+      return false;
+    }
+    // The daily quota will not recover within any reasonable backoff
+    if (status === 429 && headerNumber(error.response?.headers, 'x-ratelimit-daily-remaining') === 0) {
+      return false;
+    }
+  } else if (!TRANSIENT_ERROR_CODES.includes(code)) {
+    return false;
+  }
+
+  const method = (request.method || 'get').toLowerCase();
+  if (IDEMPOTENT_METHODS.includes(method) || config.retryNonIdempotent) {
+    return true;
+  }
+
+  return status === 429
+    || NOT_SENT_ERROR_CODES.includes(code)
+    || headerValue(request.headers, 'idempotency-key') !== undefined;
+}
+
+/**
+ * Delay before the given retry (1-based).
+ * Uses the server's Retry-After or rate-limit window when present, otherwise exponential backoff with full jitter.
+ * Returns null when the server asks for a longer wait than maxDelayMs.
+ */
+export function getRetryDelay(
+  error: AxiosError,
+  retry: number,
+  config: GHLRetryConfig,
+  random: () => number = Math.random
+): number | null {
+  const serverDelay = getServerDelay(error);
+  if (serverDelay !== null) {
+    return serverDelay > config.maxDelayMs ? null : serverDelay;
+  }
+
+  const ceiling = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Wait requested by the server: Retry-After (seconds or HTTP date), or the rest of GHL's burst window when it is exhausted
+ */
+export function getServerDelay(error: AxiosError): number | null {
+  const headers = error.response?.headers;
+
+  const retryAfter = headerValue(headers, 'retry-after');
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  if (error.response?.status === 429 && headerNumber(headers, 'x-ratelimit-remaining') === 0) {
+    const interval = headerNumber(headers, 'x-ratelimit-interval-milliseconds');
+    if (interval !== undefined) {
+      return interval;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read a header from axios or plain header objects
+ */
+export function headerValue(headers: any, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return String(value);
+}
+
+/**
+ * Read a numeric header, or undefined when it is missing or not a number
+ */
+export function headerNumber(headers: any, name: string): number | undefined {
+  const value = headerValue(headers, name);
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
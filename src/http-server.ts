@@ -5,65 +5,107 @@
 
 import express from 'express';
 import cors from 'cors';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  isInitializeRequest,
+  JSONRPCMessage,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
-  McpError
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
 } from '@modelcontextprotocol/sdk/types.js';
 import * as dotenv from 'dotenv';
 
 import { GHLApiClient } from './clients/ghl-api-client';
-import { InactivityTools } from './tools/inactivity-tools';
-import { UserTools } from './tools/user-tools';
-import { ContactTools } from './tools/contact-tools';
-import { ConversationTools } from './tools/conversation-tools';
-import { BlogTools } from './tools/blog-tools';
-import { OpportunityTools } from './tools/opportunity-tools';
-import { CalendarTools } from './tools/calendar-tools';
-import { EmailTools } from './tools/email-tools';
-import { LocationTools } from './tools/location-tools';
-import { EmailISVTools } from './tools/email-isv-tools';
-import { SocialMediaTools } from './tools/social-media-tools';
-import { MediaTools } from './tools/media-tools';
-import { ObjectTools } from './tools/object-tools';
-import { AssociationTools } from './tools/association-tools';
-import { CustomFieldV2Tools } from './tools/custom-field-v2-tools';
-import { WorkflowTools } from './tools/workflow-tools';
-import { SurveyTools } from './tools/survey-tools';
-import { StoreTools } from './tools/store-tools';
-import { ProductsTools } from './tools/products-tools.js';
-import { GHLConfig } from './types/ghl-types';
+import { getMetadataCacheStats } from './clients/metadata-cache.js';
+import { createToolRegistry, ToolRegistry } from './tools/tool-registry.js';
+import { mapToolError } from './tools/tool-errors.js';
+import { progressNotifier, toolCallContext, ToolCallContext } from './tools/tool-context.js';
+import { createResourceRegistry, mapResourceError, ResourceRegistry } from './resources/ghl-resources.js';
+import { createPromptLibrary, PromptLibrary } from './prompts/prompt-library.js';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  verifyWebhookSignature,
+  webhookPublicKeyFromEnv,
+  webhookResourceUris
+} from './resources/webhook-events.js';
+import { toolPolicyFromEnv, validatePermissions } from './tools/tool-permissions.js';
+import { getJobRunner } from './jobs/job-runner.js';
+import { InMemoryEventStore } from './transports/event-store.js';
+import { SessionLimitError, SessionManager, hashToken } from './sessions/session-manager.js';
+import { GHLOAuthClient, oauthConfigFromEnv } from './auth/oauth-client.js';
+import { EncryptedFileTokenStore } from './auth/token-store.js';
+import { OAuthError, OAuthTokenManager, StopRefresh } from './auth/token-manager.js';
+import { ApiKeyStore, JsonFileApiKeyStore, isServerApiKey } from './auth/api-key-store.js';
+import { GHLConfig, GHLWebhookEvent } from './types/ghl-types';
 
 // Load environment variables
 dotenv.config();
 
+/**
+ * Per-user state owned by a session
+ */
+interface UserSession {
+  transport: SSEServerTransport | StreamableHTTPServerTransport;
+  server: Server;
+  tools: ToolRegistry;
+  resources: ResourceRegistry;
+  prompts: PromptLibrary;
+  stopRefresh?: StopRefresh;
+  /** Stops running the location's background jobs through this session */
+  detachJobs: () => void;
+}
+
+/**
+ * GHL client resolved for an incoming connection
+ */
+interface UserCredentials {
+  client: GHLApiClient;
+  locationId: string;
+  /** Stable ID of the credential (API key ID, token hash or OAuth location), which background jobs are bound to */
+  credentialId: string;
+  stopRefresh?: StopRefresh;
+  /** Set when the connection authenticated with a server-issued API key */
+  apiKeyId?: string;
+  /** Tool permission patterns granted to the connection */
+  permissions?: string[];
+}
+
+/**
+ * Thrown when a connection's credentials cannot be resolved; status is the HTTP status to answer with
+ */
+class CredentialError extends Error {
+  constructor(message: string, public readonly status: number = 401) {
+    super(message);
+    this.name = 'CredentialError';
+  }
+}
+
 /**
  * HTTP MCP Server class for web deployment
  */
-class GHLMCPHttpServer {
+export class GHLMCPHttpServer {
   private app: express.Application;
   private server: Server;
   // private ghlClient: GHLApiClient | null;
-  private contactTools: ContactTools | null;
-  private conversationTools: ConversationTools | null;
-  private blogTools: BlogTools | null;
-  private opportunityTools: OpportunityTools | null;
-  private calendarTools: CalendarTools | null;
-  private emailTools: EmailTools | null;
-  private locationTools: LocationTools | null;
-  private emailISVTools: EmailISVTools | null;
-  private socialMediaTools: SocialMediaTools | null;
-  private mediaTools: MediaTools | null;
-  private objectTools: ObjectTools | null;
-  private associationTools: AssociationTools | null;
-  private customFieldV2Tools: CustomFieldV2Tools | null;
-  private workflowTools: WorkflowTools | null;
-  private surveyTools: SurveyTools | null;
-  private storeTools: StoreTools | null;
-  private productsTools: ProductsTools | null;
+  private toolCounts: Record<string, number>;
+  private sessions: SessionManager<UserSession>;
+  private oauth: OAuthTokenManager | null;
+  private apiKeys: ApiKeyStore | null;
+  private webhookPublicKey: string | undefined;
+  private acceptUnsignedWebhooks: boolean;
+  // Tool calls in progress on legacy SSE transports, by request ID, so notifications/cancelled can abort them
+  private legacyToolCalls: WeakMap<object, Map<string | number, AbortController>> = new WeakMap();
   private port: number;
 
   constructor() {
@@ -82,6 +124,8 @@ class GHLMCPHttpServer {
       {
         capabilities: {
           tools: {},
+          resources: { subscribe: true },
+          prompts: {},
         },
       }
     );
@@ -89,25 +133,42 @@ class GHLMCPHttpServer {
     // NOTE: No longer using global GHL client - each user connection creates its own client from headers
     // this.ghlClient = this.initializeGHLClient();
 
-    // NOTE: No longer using global tools - tools are created per-user in SSE handlers
-    // Initialize tools with null (deprecated)
-    this.contactTools = null;
-    this.conversationTools = null;
-    this.blogTools = null;
-    this.opportunityTools = null;
-    this.calendarTools = null;
-    this.emailTools = null;
-    this.locationTools = null;
-    this.emailISVTools = null;
-    this.socialMediaTools = null;
-    this.mediaTools = null;
-    this.objectTools = null;
-    this.associationTools = null;
-    this.customFieldV2Tools = null;
-    this.workflowTools = null;
-    this.surveyTools = null;
-    this.storeTools = null;
-    this.productsTools = null;
+    // Build the tool registry once at startup so duplicate or unhandled tools fail immediately
+    this.toolCounts = this.countTools();
+
+    // MCP_ADMIN_TOKEN enables server-issued API keys that map to stored GHL credentials
+    this.apiKeys = this.initializeApiKeys();
+
+    // GHL_AUTH_MODE=oauth serves locations that installed the marketplace app instead of raw tokens
+    this.oauth = this.initializeOAuth();
+
+    // GHL webhooks drive resource subscriptions; without the key anyone who can reach the route could trigger notifications,
+    // so unsigned webhooks are refused unless GHL_WEBHOOK_ALLOW_UNSIGNED=true
+    this.webhookPublicKey = webhookPublicKeyFromEnv();
+    this.acceptUnsignedWebhooks = !this.webhookPublicKey && process.env.GHL_WEBHOOK_ALLOW_UNSIGNED === 'true';
+    if (this.acceptUnsignedWebhooks) {
+      console.warn('[Webhooks] GHL_WEBHOOK_ALLOW_UNSIGNED=true - webhook signatures are not verified');
+    } else if (!this.webhookPublicKey) {
+      console.warn('[Webhooks] GHL_WEBHOOK_PUBLIC_KEY is not set - /webhooks/ghl rejects every request');
+    }
+
+    // Sessions are bound to the token that created them and closed when idle
+    this.sessions = new SessionManager<UserSession>(
+      {
+        idleTimeoutMs: parseInt(process.env.SESSION_IDLE_TIMEOUT_MS || '1800000'),
+        maxSessions: parseInt(process.env.MAX_SESSIONS || '500')
+      },
+      (session, reason) => {
+        if (reason === 'expired') {
+          console.log(`[Sessions] Closing idle session: ${session.id}, location: ${session.locationId}`);
+        }
+        session.data.stopRefresh?.();
+        session.data.detachJobs();
+        session.data.transport.close().catch((error) => {
+          console.error(`[Sessions] Error closing transport for session ${session.id}:`, error);
+        });
+      }
+    );
 
     // NOTE: No longer setting up global MCP handlers - handlers are created per-user
     // this.setupMCPHandlers();
@@ -121,8 +182,9 @@ class GHLMCPHttpServer {
     // Enable CORS for ChatGPT and ElevenLabs integration
     this.app.use(cors({
       origin: '*',
-      methods: ['GET', 'POST', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'X-GHL-Base-URL'],
+      methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'X-GHL-Base-URL', 'X-GHL-Location-Id', 'Mcp-Session-Id', 'Mcp-Protocol-Version', 'Last-Event-ID'],
+      exposedHeaders: ['Mcp-Session-Id'],
       credentials: false
     }));
 
@@ -189,9 +251,143 @@ class GHLMCPHttpServer {
   }
 
   /**
-   * Create a new MCP server instance and tools for a specific user
+   * Set up the OAuth token manager when GHL_AUTH_MODE=oauth
+   */
+  private initializeOAuth(): OAuthTokenManager | null {
+    if (process.env.GHL_AUTH_MODE !== 'oauth') {
+      return null;
+    }
+
+    if (!process.env.GHL_TOKEN_ENCRYPTION_KEY) {
+      throw new Error('GHL_TOKEN_ENCRYPTION_KEY environment variable is required in OAuth mode');
+    }
+    if (!process.env.MCP_AUTH_TOKEN && !this.apiKeys) {
+      throw new Error('MCP_AUTH_TOKEN or MCP_ADMIN_TOKEN environment variable is required in OAuth mode');
+    }
+
+    const store = new EncryptedFileTokenStore(
+      process.env.GHL_TOKEN_STORE_DIR || './data/oauth-tokens',
+      process.env.GHL_TOKEN_ENCRYPTION_KEY
+    );
+    console.log('[GHL MCP] OAuth mode enabled - install the app via /oauth/authorize');
+    return new OAuthTokenManager(new GHLOAuthClient(oauthConfigFromEnv()), store);
+  }
+
+  /**
+   * Set up the API key store when MCP_ADMIN_TOKEN is set
+   */
+  private initializeApiKeys(): ApiKeyStore | null {
+    if (!process.env.MCP_ADMIN_TOKEN) {
+      return null;
+    }
+
+    if (!process.env.GHL_TOKEN_ENCRYPTION_KEY) {
+      throw new Error('GHL_TOKEN_ENCRYPTION_KEY environment variable is required when MCP_ADMIN_TOKEN is set');
+    }
+
+    console.log('[GHL MCP] API keys enabled - manage them via /admin/api-keys');
+    return new JsonFileApiKeyStore(
+      process.env.GHL_API_KEY_STORE || './data/api-keys.json',
+      process.env.GHL_TOKEN_ENCRYPTION_KEY
+    );
+  }
+
+  /**
+   * Resolve the GHL client for a server-issued API key.
+   * Stored credentials always go to GHL_BASE_URL, never to a client-supplied X-GHL-Base-URL.
+   */
+  private async resolveApiKeyCredentials(authHeader: string): Promise<UserCredentials> {
+    const authenticated = this.apiKeys ? await this.apiKeys.authenticate(authHeader.replace(/^Bearer\s+/i, '').trim()) : undefined;
+    if (!authenticated) {
+      throw new CredentialError('Invalid or revoked API key');
+    }
+
+    const { apiKey, ghlToken } = authenticated;
+    const baseUrl = process.env.GHL_BASE_URL || 'https://services.leadconnectorhq.com';
+    const grant = { locationId: apiKey.locationId, credentialId: `api-key:${apiKey.id}`, apiKeyId: apiKey.id, permissions: apiKey.permissions };
+
+    if (ghlToken) {
+      return { client: this.createGHLClientForUser(ghlToken, apiKey.locationId, baseUrl), ...grant };
+    }
+
+    if (!this.oauth) {
+      throw new CredentialError(`API key ${apiKey.id} uses OAuth credentials but OAuth mode is not enabled`, 503);
+    }
+    try {
+      const { client, stopRefresh } = await this.oauth.createClient(apiKey.locationId, { baseUrl, version: '2021-07-28' });
+      return { client, stopRefresh, ...grant };
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        throw new CredentialError(error.message, 403);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve the GHL client for a connection.
+   * API keys: the Authorization header carries a key issued via /admin/api-keys.
+   * Token mode: the Authorization header carries the GHL token itself (disabled once API keys are enabled, unless ALLOW_GHL_TOKENS=true).
+   * OAuth mode: the Authorization header carries MCP_AUTH_TOKEN and X-GHL-Location-Id picks an installed location.
    */
-  private createMCPServerForUser(ghlClient: GHLApiClient): { server: Server, tools: any } {
+  private async resolveUserCredentials(req: express.Request, authHeader: string): Promise<UserCredentials> {
+    if (isServerApiKey(authHeader)) {
+      return this.resolveApiKeyCredentials(authHeader);
+    }
+
+    if (!this.oauth) {
+      if (this.apiKeys && process.env.ALLOW_GHL_TOKENS !== 'true') {
+        throw new CredentialError('Use an API key issued by this server');
+      }
+      const ghlBaseUrl = (req.headers['x-ghl-base-url'] as string) || 'https://services.leadconnectorhq.com';
+      const ghlApiKey = authHeader.replace('Bearer ', '');
+      let ghlLocationId: string;
+      try {
+        ghlLocationId = this.decodeLocationIdFromToken(authHeader);
+      } catch (error) {
+        throw new CredentialError('Invalid authorization token');
+      }
+      return {
+        client: this.createGHLClientForUser(ghlApiKey, ghlLocationId, ghlBaseUrl),
+        locationId: ghlLocationId,
+        credentialId: `ghl-token:${hashToken(ghlApiKey)}`
+      };
+    }
+
+    if (!process.env.MCP_AUTH_TOKEN) {
+      throw new CredentialError('Use an API key issued by this server');
+    }
+    const expected = Buffer.from(hashToken(process.env.MCP_AUTH_TOKEN), 'hex');
+    if (!timingSafeEqual(Buffer.from(hashToken(authHeader), 'hex'), expected)) {
+      throw new CredentialError('Invalid authorization token');
+    }
+
+    const locationId = req.headers['x-ghl-location-id'] as string | undefined;
+    if (!locationId) {
+      throw new CredentialError('X-GHL-Location-Id header is required in OAuth mode', 400);
+    }
+
+    try {
+      // Stored OAuth tokens must not be sent to a client-chosen host
+      const baseUrl = process.env.GHL_BASE_URL || 'https://services.leadconnectorhq.com';
+      const { client, stopRefresh } = await this.oauth.createClient(locationId, { baseUrl, version: '2021-07-28' });
+      return { client, locationId, credentialId: `oauth:${locationId}`, stopRefresh };
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        throw new CredentialError(error.message, 403);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create a new MCP server instance, tools, resources and prompts for a specific user.
+   * Permissions from the user's API key narrow MCP_TOOL_PERMISSIONS: a tool must pass both. READ_ONLY applies to everyone.
+   */
+  private createMCPServerForUser(
+    ghlClient: GHLApiClient,
+    permissions?: string[]
+  ): { server: Server, tools: ToolRegistry, resources: ResourceRegistry, prompts: PromptLibrary } {
     // Create a new MCP server instance
     const userServer = new Server(
       {
@@ -201,132 +397,98 @@ class GHLMCPHttpServer {
       {
         capabilities: {
           tools: {},
+          resources: { subscribe: true },
+          prompts: {},
         },
       }
     );
 
-    // Initialize tools with the user's GHL client
-    const inactivityTools = new InactivityTools(ghlClient);
-    const userTools = new UserTools(ghlClient);
-    const contactTools = new ContactTools(ghlClient);
-    const conversationTools = new ConversationTools(ghlClient);
-    const blogTools = new BlogTools(ghlClient);
-    const opportunityTools = new OpportunityTools(ghlClient);
-    const calendarTools = new CalendarTools(ghlClient);
-    const emailTools = new EmailTools(ghlClient);
-    const locationTools = new LocationTools(ghlClient);
-    const emailISVTools = new EmailISVTools(ghlClient);
-    const socialMediaTools = new SocialMediaTools(ghlClient);
-    const mediaTools = new MediaTools(ghlClient);
-    const objectTools = new ObjectTools(ghlClient);
-    const associationTools = new AssociationTools(ghlClient);
-    const customFieldV2Tools = new CustomFieldV2Tools(ghlClient);
-    const workflowTools = new WorkflowTools(ghlClient);
-    const surveyTools = new SurveyTools(ghlClient);
-    const storeTools = new StoreTools(ghlClient);
-    const productsTools = new ProductsTools(ghlClient);
+    // Register every tool against the user's GHL client, scoped to what the user may see and call
+    const policy = toolPolicyFromEnv();
+    const toolRegistry = createToolRegistry(ghlClient, { ...policy, credentialPermissions: permissions });
 
     // Setup MCP handlers for the user server
     userServer.setRequestHandler(ListToolsRequestSchema, async () => {
-        return {
-        tools: [
-          ...inactivityTools.getToolDefinitions(),
-          ...userTools.getToolDefinitions(),
-          ...contactTools.getToolDefinitions(),
-          ...conversationTools.getToolDefinitions(),
-          ...blogTools.getToolDefinitions(),
-          ...opportunityTools.getToolDefinitions(),
-          ...calendarTools.getToolDefinitions(),
-          ...emailTools.getToolDefinitions(),
-          ...locationTools.getToolDefinitions(),
-          ...emailISVTools.getToolDefinitions(),
-          ...socialMediaTools.getTools(),
-          ...mediaTools.getToolDefinitions(),
-          ...objectTools.getToolDefinitions(),
-          ...associationTools.getTools(),
-          ...customFieldV2Tools.getTools(),
-          ...workflowTools.getTools(),
-          ...surveyTools.getTools(),
-          ...storeTools.getTools(),
-          ...productsTools.getTools(),
-        ],
+      return {
+        tools: toolRegistry.getDefinitions(),
       };
     });
 
-    userServer.setRequestHandler(CallToolRequestSchema, async (request) => {
+    userServer.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args = {} } = request.params;
 
+      if (!toolRegistry.has(name)) {
+        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+      }
+
       try {
-        // Route to appropriate tool handler
-        if (this.isContactTool(name)) {
-          return await contactTools.executeTool(name, args || {});
-        } else if (this.isConversationTool(name)) {
-          return await conversationTools.executeTool(name, args || {});
-        } else if (this.isBlogTool(name)) {
-          return await blogTools.executeTool(name, args || {});
-        } else if (this.isOpportunityTool(name)) {
-          return await opportunityTools.executeTool(name, args || {});
-        } else if (this.isCalendarTool(name)) {
-          return await calendarTools.executeTool(name, args || {});
-        } else if (this.isEmailTool(name)) {
-          return await emailTools.executeTool(name, args || {});
-        } else if (this.isLocationTool(name)) {
-          return await locationTools.executeTool(name, args || {});
-        } else if (this.isEmailISVTool(name)) {
-          return await emailISVTools.executeTool(name, args || {});
-        } else if (this.isSocialMediaTool(name)) {
-          return await socialMediaTools.executeTool(name, args || {});
-        } else if (this.isMediaTool(name)) {
-          return await mediaTools.executeTool(name, args || {});
-        } else if (this.isObjectTool(name)) {
-          return await objectTools.executeTool(name, args || {});
-        } else if (this.isAssociationTool(name)) {
-          return await associationTools.executeAssociationTool(name, args || {});
-        } else if (this.isCustomFieldV2Tool(name)) {
-          return await customFieldV2Tools.executeCustomFieldV2Tool(name, args || {});
-        } else if (this.isWorkflowTool(name)) {
-          return await workflowTools.executeWorkflowTool(name, args || {});
-        } else if (this.isSurveyTool(name)) {
-          return await surveyTools.executeSurveyTool(name, args || {});
-        } else if (this.isStoreTool(name)) {
-          return await storeTools.executeStoreTool(name, args || {});
-        } else if (this.isProductsTool(name)) {
-          return await productsTools.executeProductsTool(name, args || {});
+        return await toolRegistry.call(name, args || {}, toolCallContext(extra));
+      } catch (error) {
+        console.error(`[MCP] Tool execution error for ${name}:`, error);
+
+        const response = mapToolError(error);
+        if (response.kind === 'error') {
+          throw new McpError(response.code, response.message, response.data);
         }
+        return response.result;
+      }
+    });
 
-        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    // Resources share the policy of the read tool behind each of them
+    const resourceRegistry = createResourceRegistry(ghlClient, toolRegistry);
+
+    userServer.setRequestHandler(ListResourcesRequestSchema, async () => {
+      try {
+        return { resources: await resourceRegistry.listResources() };
       } catch (error) {
-        console.error(`[MCP] Tool execution error for ${name}:`, error);
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
+        throw mapResourceError(error);
+      }
+    });
+
+    userServer.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: resourceRegistry.getTemplates() };
+    });
+
+    userServer.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      try {
+        return await resourceRegistry.read(request.params.uri);
+      } catch (error) {
+        console.error(`[MCP] Resource read error for ${request.params.uri}:`, error);
+        throw mapResourceError(error);
+      }
+    });
+
+    // Subscriptions are notified from GHL webhooks, see /webhooks/ghl
+    userServer.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      try {
+        resourceRegistry.subscribe(request.params.uri);
+        return {};
+      } catch (error) {
+        throw mapResourceError(error);
       }
     });
 
+    userServer.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      resourceRegistry.unsubscribe(request.params.uri);
+      return {};
+    });
+
+    // Prompts embed the user's resources and only suggest tools the user may call
+    const promptLibrary = createPromptLibrary(resourceRegistry, toolRegistry);
+
+    userServer.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: promptLibrary.list() };
+    });
+
+    userServer.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      return promptLibrary.get(request.params.name, request.params.arguments);
+    });
+
     return {
       server: userServer,
-      tools: {
-        inactivityTools,
-        userTools,
-        contactTools,
-        conversationTools,
-        blogTools,
-        opportunityTools,
-        calendarTools,
-        emailTools,
-        locationTools,
-        emailISVTools,
-        socialMediaTools,
-        mediaTools,
-        objectTools,
-        associationTools,
-        customFieldV2Tools,
-        workflowTools,
-        surveyTools,
-        storeTools,
-        productsTools
-      }
+      tools: toolRegistry,
+      resources: resourceRegistry,
+      prompts: promptLibrary
     };
   }
 
@@ -343,7 +505,12 @@ class GHLMCPHttpServer {
           version: '1.0.0',
           timestamp: new Date().toISOString(),
           tools: this.getToolsCount(),
-        authentication: 'per-user via Authorization header',
+          cache: getMetadataCacheStats(),
+        authentication: [
+          this.apiKeys ? 'server-issued API keys' : null,
+          this.oauth && process.env.MCP_AUTH_TOKEN ? 'oauth (MCP_AUTH_TOKEN + X-GHL-Location-Id)' : null,
+          !this.oauth && (!this.apiKeys || process.env.ALLOW_GHL_TOKENS === 'true') ? 'per-user via Authorization header' : null
+        ].filter(Boolean).join(', '),
         note: 'GHL API connection tested per-user on SSE connection'
       });
     });
@@ -353,6 +520,8 @@ class GHLMCPHttpServer {
       res.json({
         capabilities: {
           tools: {},
+          resources: { subscribe: true },
+          prompts: {},
         },
         server: {
           name: 'ghl-mcp-server',
@@ -371,6 +540,148 @@ class GHLMCPHttpServer {
       });
     });
 
+    // OAuth marketplace install: redirect to the location chooser, then store the tokens GHL sends back
+    this.app.get('/oauth/authorize', (req, res) => {
+      if (!this.oauth) {
+        res.status(404).json({ error: 'OAuth mode is not enabled (set GHL_AUTH_MODE=oauth)' });
+        return;
+      }
+      res.redirect(this.oauth.createAuthorizationUrl());
+    });
+
+    this.app.get('/oauth/callback', async (req, res) => {
+      if (!this.oauth) {
+        res.status(404).json({ error: 'OAuth mode is not enabled (set GHL_AUTH_MODE=oauth)' });
+        return;
+      }
+
+      const { code, state, error } = req.query;
+      if (typeof error === 'string') {
+        res.status(400).json({ error: `Authorization was not granted: ${error}` });
+        return;
+      }
+      if (typeof code !== 'string' || typeof state !== 'string') {
+        res.status(400).json({ error: 'code and state query parameters are required' });
+        return;
+      }
+
+      try {
+        const token = await this.oauth.handleCallback(code, state);
+        res.json({
+          success: true,
+          userType: token.userType,
+          companyId: token.companyId,
+          locationId: token.locationId
+        });
+      } catch (callbackError) {
+        console.error('[OAuth] Callback failed:', callbackError);
+        const status = callbackError instanceof OAuthError ? 400 : 502;
+        res.status(status).json({ error: callbackError instanceof Error ? callbackError.message : 'OAuth callback failed' });
+      }
+    });
+
+    // API key administration - every route requires MCP_ADMIN_TOKEN as a Bearer token
+    const requireAdmin = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+      if (!this.apiKeys) {
+        res.status(404).json({ error: 'API keys are not enabled (set MCP_ADMIN_TOKEN)' });
+        return;
+      }
+      const expected = Buffer.from(hashToken(process.env.MCP_ADMIN_TOKEN || ''), 'hex');
+      const authHeader = req.headers['authorization'];
+      if (!authHeader || !timingSafeEqual(Buffer.from(hashToken(authHeader), 'hex'), expected)) {
+        res.status(401).json({ error: 'Invalid admin token' });
+        return;
+      }
+      next();
+    };
+
+    this.app.post('/admin/api-keys', requireAdmin, express.json(), async (req, res) => {
+      const { name, locationId, ghlToken, permissions } = req.body || {};
+      if (typeof name !== 'string' || !name || typeof locationId !== 'string' || !locationId) {
+        res.status(400).json({ error: 'name and locationId are required' });
+        return;
+      }
+      if (ghlToken !== undefined && (typeof ghlToken !== 'string' || !ghlToken)) {
+        res.status(400).json({ error: 'ghlToken must be a non-empty string' });
+        return;
+      }
+      if (permissions !== undefined && (!Array.isArray(permissions) || !permissions.every(entry => typeof entry === 'string'))) {
+        res.status(400).json({ error: 'permissions must be an array of strings' });
+        return;
+      }
+      try {
+        validatePermissions(permissions || []);
+      } catch (error) {
+        res.status(400).json({ error: (error as Error).message });
+        return;
+      }
+
+      try {
+        if (!ghlToken) {
+          // Keys without a token use the location's OAuth installation, which must exist now
+          if (!this.oauth) {
+            res.status(400).json({ error: 'ghlToken is required unless OAuth mode is enabled' });
+            return;
+          }
+          await this.oauth.getLocationToken(locationId);
+        }
+
+        const issued = await this.apiKeys!.create({ name, locationId, ghlToken, permissions });
+        console.log(`[Admin] 🔑 Issued API key ${issued.apiKey.id} for location ${locationId}`);
+        res.status(201).json(issued);
+      } catch (error) {
+        if (error instanceof OAuthError) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
+        console.error('[Admin] Failed to issue API key:', error);
+        res.status(500).json({ error: 'Failed to issue API key' });
+      }
+    });
+
+    this.app.get('/admin/api-keys', requireAdmin, async (req, res) => {
+      try {
+        res.json({ keys: await this.apiKeys!.list() });
+      } catch (error) {
+        console.error('[Admin] Failed to list API keys:', error);
+        res.status(500).json({ error: 'Failed to list API keys' });
+      }
+    });
+
+    // Rotating or revoking a key also closes the sessions opened with the old key
+    this.app.post('/admin/api-keys/:id/rotate', requireAdmin, async (req, res) => {
+      try {
+        const rotated = await this.apiKeys!.rotate(req.params.id);
+        if (!rotated) {
+          res.status(404).json({ error: 'API key not found or revoked' });
+          return;
+        }
+        const { retiredKeyHash, ...issued } = rotated;
+        const closed = this.sessions.removeByTokenHash(retiredKeyHash);
+        console.log(`[Admin] 🔑 Rotated API key ${issued.apiKey.id}, closed ${closed} session(s)`);
+        res.json(issued);
+      } catch (error) {
+        console.error('[Admin] Failed to rotate API key:', error);
+        res.status(500).json({ error: 'Failed to rotate API key' });
+      }
+    });
+
+    this.app.delete('/admin/api-keys/:id', requireAdmin, async (req, res) => {
+      try {
+        const revoked = await this.apiKeys!.revoke(req.params.id);
+        if (!revoked) {
+          res.status(404).json({ error: 'API key not found or revoked' });
+          return;
+        }
+        const closed = this.sessions.removeByTokenHash(revoked.retiredKeyHash);
+        console.log(`[Admin] 🚫 Revoked API key ${revoked.apiKey.id}, closed ${closed} session(s)`);
+        res.json({ apiKey: revoked.apiKey });
+      } catch (error) {
+        console.error('[Admin] Failed to revoke API key:', error);
+        res.status(500).json({ error: 'Failed to revoke API key' });
+      }
+    });
+
     // SSE endpoint for MCP connection (works for both ChatGPT and ElevenLabs)
     const handleSSE = async (req: express.Request, res: express.Response) => {
       const sessionId = req.query.sessionId || 'unknown';
@@ -511,106 +822,119 @@ class GHLMCPHttpServer {
       }
     };
 
-    // Store active MCP transports and their associated user servers and tools
-    const activeTransports = new Map<string, any>();
-    const transportsByIndex = new Map<number, any>();
-    const userServers = new Map<string, Server>(); // sessionId -> user server
-    const serversByIndex = new Map<number, Server>(); // index -> user server
-    const userTools = new Map<string, any>(); // sessionId -> user tools object
-    const toolsByIndex = new Map<number, any>(); // index -> user tools object
-    let transportIndex = 0;
-    
-    // Handle GET for SSE connection establishment
-    this.app.get('/sse', async (req, res) => {
-      const sessionId = req.query.sessionId || 'unknown';
-      const isElevenLabs = req.headers['user-agent']?.includes('python-httpx');
+    const sendJSONRPCError = (res: express.Response, status: number, code: number, message: string, id: any = null) => {
+      res.status(status).json({
+        jsonrpc: '2.0',
+        error: { code, message },
+        id
+      });
+    };
+
+    // Reject a request whose session could not be resolved for its token
+    const sendSessionError = (res: express.Response, reason: 'not_found' | 'token_mismatch', id: any = null) => {
+      if (reason === 'token_mismatch') {
+        sendJSONRPCError(res, 403, -32001, 'Session does not belong to this authorization token', id);
+      } else {
+        sendJSONRPCError(res, 404, -32001, 'Session not found', id);
+      }
+    };
+
+    // Handle GET for SSE connection establishment (shared by /sse and /elevenlabs)
+    const establishSSEConnection = async (req: express.Request, res: express.Response) => {
+      const isElevenLabs = req.path === '/elevenlabs' || req.headers['user-agent']?.includes('python-httpx');
       const client = isElevenLabs ? 'ElevenLabs' : 'Claude/ChatGPT';
-      const currentIndex = transportIndex++;
-      
-      console.log(`[${client} MCP] Establishing SSE connection #${currentIndex} for session: ${sessionId}`);
+
+      console.log(`[${client} MCP] Establishing SSE connection from: ${req.ip}`);
       console.log(`[${client} MCP] Headers:`, JSON.stringify(req.headers, null, 2));
 
+      let stopRefresh: StopRefresh | undefined;
       try {
         // Extract GHL credentials from Authorization header
         const authHeader = req.headers['authorization'] as string;
-        const ghlBaseUrl = (req.headers['x-ghl-base-url'] as string) || 'https://services.leadconnectorhq.com';
 
         if (!authHeader) {
-          console.error(`[${client} MCP] Missing Authorization header for session: ${sessionId}`);
+          console.error(`[${client} MCP] Missing Authorization header`);
           if (!res.headersSent) {
             res.status(400).json({ error: 'Authorization header is required' });
           }
           return;
         }
 
-        console.log(`[${client} MCP] Decoding location ID from token for session: ${sessionId}`);
+        let credentials: UserCredentials;
+        try {
+          credentials = await this.resolveUserCredentials(req, authHeader);
+        } catch (error) {
+          if (error instanceof CredentialError) {
+            console.error(`[${client} MCP] Rejecting SSE connection: ${error.message}`);
+            res.status(error.status).json({ error: error.message });
+            return;
+          }
+          throw error;
+        }
+        const { client: userGHLClient, locationId: ghlLocationId } = credentials;
+        stopRefresh = credentials.stopRefresh;
 
-        // Extract API key and decode location ID from JWT token
-        const ghlApiKey = authHeader.replace('Bearer ', '');
-        const ghlLocationId = this.decodeLocationIdFromToken(authHeader);
+        // Create a new MCP server instance and tools for this user
+        const { server: userServer, tools: userToolInstances, resources: userResources, prompts: userPrompts } =
+          this.createMCPServerForUser(userGHLClient, credentials.permissions);
+        const detachJobs = getJobRunner().attach(ghlLocationId, credentials.credentialId, userToolInstances);
 
-        console.log(`[${client} MCP] Creating GHL client for user session: ${sessionId}, location: ${ghlLocationId}`);
+        // The transport generates the session ID that the client echoes back on every POST
+        const transport = new SSEServerTransport(req.path, res);
+        const sessionId = transport.sessionId;
 
-        // Create a new GHL client instance for this connection
-        const userGHLClient = this.createGHLClientForUser(ghlApiKey, ghlLocationId, ghlBaseUrl);
+        try {
+          this.sessions.create(sessionId, authHeader, ghlLocationId, {
+            transport,
+            server: userServer,
+            tools: userToolInstances,
+            resources: userResources,
+            prompts: userPrompts,
+            stopRefresh,
+            detachJobs
+          });
+          // The session owns the refresh from here on
+          stopRefresh = undefined;
+        } catch (error) {
+          detachJobs();
+          if (error instanceof SessionLimitError) {
+            console.error(`[${client} MCP] Rejecting SSE connection: ${error.message}`);
+            res.status(503).json({ error: error.message });
+            return;
+          }
+          throw error;
+        }
 
-        // Create a new MCP server instance and tools for this user
-        const { server: userServer, tools: userToolInstances } = this.createMCPServerForUser(userGHLClient);
+        // Add message interceptors for logging
+        const originalSend = transport.send.bind(transport);
+        transport.send = (message: any) => {
+          // Log concisely for tools/list responses to avoid rate limits
+          if (message.result?.tools && Array.isArray(message.result.tools)) {
+            console.log(`[${client} MCP SEND] Session: ${sessionId}`);
+            console.log(`[${client} MCP SEND] tools/list response with ${message.result.tools.length} tools`);
+            // Log just tool names, not full schemas
+            const toolNames = message.result.tools.map((t: any) => t.name).slice(0, 10);
+            console.log(`[${client} MCP SEND] First 10 tools:`, toolNames.join(', '));
+          } else {
+            console.log(`[${client} MCP SEND] Session: ${sessionId}`);
+            console.log(`[${client} MCP SEND] Message:`, JSON.stringify(message, null, 2));
+          }
+          return originalSend(message);
+        };
+
+        // Clean up on disconnect
+        req.on('close', () => {
+          console.log(`[${client} MCP] SSE connection closed for session: ${sessionId}`);
+          this.sessions.remove(sessionId);
+        });
 
-        // Create SSE transport and connect user's MCP server
-      const transport = new SSEServerTransport('/sse', res);
-      
-      // Add message interceptors for logging
-      const originalSend = transport.send.bind(transport);
-      transport.send = (message: any) => {
-        // Log concisely for tools/list responses to avoid rate limits
-        if (message.result?.tools && Array.isArray(message.result.tools)) {
-          console.log(`[${client} MCP SEND] Session: ${sessionId}`);
-          console.log(`[${client} MCP SEND] tools/list response with ${message.result.tools.length} tools`);
-          // Log just tool names, not full schemas
-          const toolNames = message.result.tools.map((t: any) => t.name).slice(0, 10);
-          console.log(`[${client} MCP SEND] First 10 tools:`, toolNames.join(', '));
-        } else {
-          console.log(`[${client} MCP SEND] Session: ${sessionId}`);
-          console.log(`[${client} MCP SEND] Message:`, JSON.stringify(message, null, 2));
-        }
-        return originalSend(message);
-      };
-      
         // Connect user's MCP server to transport
         await userServer.connect(transport);
-      
-        // Store the transport, server, and tools multiple ways for robust lookup
-      activeTransports.set(sessionId.toString(), transport);
-      transportsByIndex.set(currentIndex, transport);
-        userServers.set(sessionId.toString(), userServer);
-        serversByIndex.set(currentIndex, userServer);
-        userTools.set(sessionId.toString(), userToolInstances);
-        toolsByIndex.set(currentIndex, userToolInstances);
-      // Also store by IP for ElevenLabs (they might use same IP for GET/POST)
-      if (req.ip) {
-        activeTransports.set(`ip:${req.ip}`, transport);
-      }
-      
-      console.log(`[${client} MCP] SSE connection established for session: ${sessionId}, index: ${currentIndex}`);
-      console.log(`[${client} MCP] Available tools: ${this.getToolsCount().total}`);
-      console.log(`[${client} MCP] Active transports: ${activeTransports.size}`);
-      
-      // Clean up on disconnect
-      req.on('close', () => {
-        console.log(`[${client} MCP] SSE connection closed for session: ${sessionId}`);
-        activeTransports.delete(sessionId.toString());
-        transportsByIndex.delete(currentIndex);
-          userServers.delete(sessionId.toString());
-          serversByIndex.delete(currentIndex);
-          userTools.delete(sessionId.toString());
-          toolsByIndex.delete(currentIndex);
-        if (req.ip) {
-          activeTransports.delete(`ip:${req.ip}`);
-        }
-      });
+
+        console.log(`[${client} MCP] SSE connection established for session: ${sessionId}, location: ${ghlLocationId}`);
+        console.log(`[${client} MCP] Active sessions: ${this.sessions.size}`);
       } catch (error) {
-        console.error(`[${client} MCP] SSE connection error for session ${sessionId}:`, error);
+        console.error(`[${client} MCP] SSE connection error:`, error);
         console.error(`[${client} MCP] Error details:`, error instanceof Error ? error.stack : error);
 
         if (!res.headersSent) {
@@ -618,272 +942,223 @@ class GHLMCPHttpServer {
         } else {
           res.end();
         }
+      } finally {
+        stopRefresh?.();
       }
-    });
-    
-    // Handle POST for MCP messages
-    this.app.post('/sse', express.json(), async (req, res) => {
-      const sessionId = req.query.sessionId || 'unknown';
-      const isElevenLabs = req.headers['user-agent']?.includes('python-httpx');
+    };
+
+    // Handle POST for MCP messages (shared by /sse and /elevenlabs)
+    const handleSSEMessage = async (req: express.Request, res: express.Response) => {
+      const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined;
+      const isElevenLabs = req.path === '/elevenlabs' || req.headers['user-agent']?.includes('python-httpx');
       const client = isElevenLabs ? 'ElevenLabs' : 'Claude/ChatGPT';
-      
+
       console.log(`[${client} MCP] POST message received for session: ${sessionId}`);
-      console.log(`[${client} MCP] Headers:`, JSON.stringify(req.headers, null, 2));
       // Log request concisely
       if (req.body?.method === 'tools/list') {
         console.log(`[${client} MCP] POST body: tools/list request`);
       } else {
-        console.log(`[${client} MCP] POST body:`, JSON.stringify(req.body, null, 2));
+        logMCPMessage('RECV', client, req.body, String(sessionId));
       }
-      
-      if (req.body) {
-        // Skip detailed logging for tools/list to avoid rate limits
-        if (req.body?.method !== 'tools/list') {
-          logMCPMessage('RECV', client, req.body, sessionId.toString());
-        }
-        
-        // Try to find the transport - ElevenLabs might not send matching session IDs
-        let transport = activeTransports.get(sessionId.toString());
-        
-        // If not found by session ID, try by IP
-        if (!transport && req.ip) {
-          transport = activeTransports.get(`ip:${req.ip}`);
-          if (transport) {
-            console.log(`[${client} MCP] Found transport by IP: ${req.ip}`);
-          }
-        }
-        
-        // If still not found, use the most recent transport (last resort)
-        if (!transport && transportsByIndex.size > 0) {
-          const lastIndex = Math.max(...Array.from(transportsByIndex.keys()));
-          transport = transportsByIndex.get(lastIndex);
-          if (transport) {
-            console.log(`[${client} MCP] Using most recent transport (index: ${lastIndex})`);
-          }
-        }
-        
-        if (transport) {
-          // Find the user's MCP server
-          let userServer = userServers.get(sessionId.toString());
-
-          // If not found by session ID, try by IP or index
-          if (!userServer && req.ip) {
-            // Try to find the server by IP (if we stored it by IP)
-            // For now, we'll look for the most recent server as fallback
-            if (serversByIndex.size > 0) {
-              const lastIndex = Math.max(...Array.from(serversByIndex.keys()));
-              userServer = serversByIndex.get(lastIndex);
-              if (userServer) {
-                console.log(`[${client} MCP] Using most recent user server (index: ${lastIndex})`);
-              }
-            }
-          }
 
-          // Find the user's tools
-          let userToolsObj = userTools.get(sessionId.toString());
+      if (!req.body) {
+        res.status(400).json({ error: 'No body received' });
+        return;
+      }
 
-          // If not found by session ID, try by index
-          if (!userToolsObj && serversByIndex.size > 0) {
-            const lastIndex = Math.max(...Array.from(serversByIndex.keys()));
-            userToolsObj = toolsByIndex.get(lastIndex);
-          }
+      // Only the exact session created with this Authorization header may receive the message
+      const lookup = this.sessions.authorize(sessionId, req.headers['authorization'] as string | undefined);
+      if (!lookup.ok) {
+        console.error(`[${client} MCP] Rejected POST for session ${sessionId}: ${lookup.reason}`);
+        sendSessionError(res, lookup.reason, req.body.id ?? null);
+        return;
+      }
 
-          if (userServer && userToolsObj) {
-            // Route the message to the user's MCP server
-            try {
-              await this.processMCPMessageForUser(userServer, userToolsObj, req.body, transport);
-            } catch (error) {
-              console.error(`[${client} MCP] Error processing message:`, error);
-              const errorResponse = {
-                jsonrpc: '2.0',
-                id: req.body.id,
-                error: {
-                  code: -32603,
-                  message: 'Message processing failed'
-                }
-              };
-              transport.send(errorResponse);
-            }
-          } else {
-            console.error(`[${client} MCP] No user server found for session: ${sessionId}`);
-            const errorResponse = {
-              jsonrpc: '2.0',
-              id: req.body.id,
-              error: {
-                code: -32603,
-                message: 'No active session found'
-              }
-            };
-            transport.send(errorResponse);
-          }
-        } else {
-          console.error(`[${client} MCP] No transport found for session: ${sessionId}`);
-        }
-        
-        // Acknowledge the POST request
-        res.status(200).json({ status: 'received' });
-      } else {
-        res.status(400).json({ error: 'No body received' });
+      const { transport, server: userServer, tools: userToolsObj, resources: userResources, prompts: userPrompts } =
+        lookup.session.data;
+      if (!(transport instanceof SSEServerTransport)) {
+        sendSessionError(res, 'not_found', req.body.id ?? null);
+        return;
       }
-    });
 
-    // ElevenLabs MCP endpoint - Same pattern as /sse
-    this.app.get('/elevenlabs', async (req, res) => {
-      const sessionId = req.query.sessionId || 'unknown';
-      const client = 'ElevenLabs';
-      const currentIndex = transportIndex++;
-      
-      console.log(`[${client} MCP] Establishing SSE connection #${currentIndex} for session: ${sessionId}`);
-      console.log(`[${client} MCP] Headers:`, JSON.stringify(req.headers, null, 2));
-      
-      // Create SSE transport and connect MCP server
-      const transport = new SSEServerTransport('/sse', res);
-      
-      // Add message interceptors for logging
-      const originalSend = transport.send.bind(transport);
-      transport.send = (message: any) => {
-        // Log concisely for tools/list responses to avoid rate limits
-        if (message.result?.tools && Array.isArray(message.result.tools)) {
-          console.log(`[${client} MCP SEND] Session: ${sessionId}`);
-          console.log(`[${client} MCP SEND] tools/list response with ${message.result.tools.length} tools`);
-          // Log just tool names, not full schemas
-          const toolNames = message.result.tools.map((t: any) => t.name).slice(0, 10);
-          console.log(`[${client} MCP SEND] First 10 tools:`, toolNames.join(', '));
-        } else {
-          console.log(`[${client} MCP SEND] Session: ${sessionId}`);
-          console.log(`[${client} MCP SEND] Message:`, JSON.stringify(message, null, 2));
-        }
-        return originalSend(message);
-      };
-      
-      // Connect MCP server to transport
-      await this.server.connect(transport);
-      
-      // Store the transport multiple ways for robust lookup
-      activeTransports.set(sessionId.toString(), transport);
-      transportsByIndex.set(currentIndex, transport);
-      if (req.ip) {
-        activeTransports.set(`ip:${req.ip}`, transport);
+      // Route the message to the user's MCP server
+      try {
+        await this.processMCPMessageForUser(userServer, userToolsObj, userResources, userPrompts, req.body, transport);
+      } catch (error) {
+        console.error(`[${client} MCP] Error processing message:`, error);
+        const errorResponse: JSONRPCMessage = {
+          jsonrpc: '2.0',
+          id: req.body.id,
+          error: {
+            code: -32603,
+            message: 'Message processing failed'
+          }
+        };
+        // The stream may already be closed; that must not become an unhandled rejection
+        await transport.send(errorResponse).catch(sendError => {
+          console.error(`[${client} MCP] Could not send the error response:`, sendError);
+        });
       }
-      
-      console.log(`[${client} MCP] SSE connection established for session: ${sessionId}, index: ${currentIndex}`);
-      console.log(`[${client} MCP] Available tools: ${this.getToolsCount().total}`);
-      console.log(`[${client} MCP] Active transports: ${activeTransports.size}`);
-      
-      // Clean up on disconnect
-      req.on('close', () => {
-        console.log(`[${client} MCP] SSE connection closed for session: ${sessionId}`);
-        activeTransports.delete(sessionId.toString());
-        transportsByIndex.delete(currentIndex);
-        if (req.ip) {
-          activeTransports.delete(`ip:${req.ip}`);
+
+      // Acknowledge the POST request
+      res.status(200).json({ status: 'received' });
+    };
+
+    this.app.get('/sse', establishSSEConnection);
+    this.app.post('/sse', express.json(), handleSSEMessage);
+
+    // ElevenLabs MCP endpoint - Same pattern as /sse, with per-user tools
+    this.app.get('/elevenlabs', establishSSEConnection);
+    this.app.post('/elevenlabs', express.json(), handleSSEMessage);
+
+    // Streamable HTTP endpoint (MCP 2025-03-26) - POST carries client messages, a new session starts with initialize
+    this.app.post('/mcp', express.json(), async (req, res) => {
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      const authHeader = req.headers['authorization'] as string | undefined;
+
+      try {
+        if (sessionId) {
+          const lookup = this.sessions.authorize(sessionId, authHeader);
+          if (!lookup.ok) {
+            console.error(`[Streamable HTTP MCP] Rejected POST for session ${sessionId}: ${lookup.reason}`);
+            sendSessionError(res, lookup.reason);
+            return;
+          }
+          const { transport } = lookup.session.data;
+          if (!(transport instanceof StreamableHTTPServerTransport)) {
+            sendSessionError(res, 'not_found');
+            return;
+          }
+          await transport.handleRequest(req, res, req.body);
+          return;
         }
-      });
-    });
-    
-    this.app.post('/elevenlabs', express.json(), async (req, res) => {
-      const sessionId = req.query.sessionId || 'unknown';
-      const client = 'ElevenLabs';
-      
-      console.log(`[${client} MCP] POST message received for session: ${sessionId}`);
-      console.log(`[${client} MCP] Headers:`, JSON.stringify(req.headers, null, 2));
-      // Log request concisely
-      if (req.body?.method === 'tools/list') {
-        console.log(`[${client} MCP] POST body: tools/list request`);
-      } else {
-        console.log(`[${client} MCP] POST body:`, JSON.stringify(req.body, null, 2));
-      }
-      
-      if (req.body) {
-        // Skip detailed logging for tools/list to avoid rate limits
-        if (req.body?.method !== 'tools/list') {
-          logMCPMessage('RECV', client, req.body, sessionId.toString());
+
+        if (!isInitializeRequest(req.body)) {
+          sendJSONRPCError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+          return;
         }
-        
-        // Try to find the transport - ElevenLabs might not send matching session IDs
-        let transport = activeTransports.get(sessionId.toString());
-        
-        // If not found by session ID, try by IP
-        if (!transport && req.ip) {
-          transport = activeTransports.get(`ip:${req.ip}`);
-          if (transport) {
-            console.log(`[${client} MCP] Found transport by IP: ${req.ip}`);
-          }
+
+        if (!authHeader) {
+          console.error('[Streamable HTTP MCP] Missing Authorization header on initialize');
+          sendJSONRPCError(res, 401, -32000, 'Authorization header is required');
+          return;
         }
-        
-        // If still not found, use the most recent transport (last resort)
-        if (!transport && transportsByIndex.size > 0) {
-          const lastIndex = Math.max(...Array.from(transportsByIndex.keys()));
-          transport = transportsByIndex.get(lastIndex);
-          if (transport) {
-            console.log(`[${client} MCP] Using most recent transport (index: ${lastIndex})`);
+
+        // Resolve the GHL client from the Authorization header
+        let credentials: UserCredentials;
+        try {
+          credentials = await this.resolveUserCredentials(req, authHeader);
+        } catch (error) {
+          if (error instanceof CredentialError) {
+            console.error(`[Streamable HTTP MCP] Rejecting initialize: ${error.message}`);
+            sendJSONRPCError(res, error.status, -32000, error.message);
+            return;
           }
+          throw error;
         }
-        
-        if (transport) {
-          // Find the user's MCP server
-          let userServer = userServers.get(sessionId.toString());
-
-          // If not found by session ID, try by IP or index
-          if (!userServer && req.ip) {
-            // Try to find the server by IP (if we stored it by IP)
-            // For now, we'll look for the most recent server as fallback
-            if (serversByIndex.size > 0) {
-              const lastIndex = Math.max(...Array.from(serversByIndex.keys()));
-              userServer = serversByIndex.get(lastIndex);
-              if (userServer) {
-                console.log(`[${client} MCP] Using most recent user server (index: ${lastIndex})`);
-              }
-            }
+        const { client: userGHLClient, locationId: ghlLocationId, stopRefresh } = credentials;
+
+        // Create a new MCP server for this session
+        const { server: userServer, tools: userToolInstances, resources: userResources, prompts: userPrompts } =
+          this.createMCPServerForUser(userGHLClient, credentials.permissions);
+        // Background jobs started with this credential run through the session while it is open, including any a restart interrupted
+        const detachJobs = getJobRunner().attach(ghlLocationId, credentials.credentialId, userToolInstances);
+
+        // Reserve the session up front so the limit is enforced before any work is done
+        const newSessionId = randomUUID();
+        const transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => newSessionId,
+          eventStore: new InMemoryEventStore(),
+          onsessioninitialized: (initializedId) => {
+            console.log(`[Streamable HTTP MCP] Session initialized: ${initializedId}, location: ${ghlLocationId}`);
+            console.log(`[Streamable HTTP MCP] Active sessions: ${this.sessions.size}`);
+          },
+          onsessionclosed: (closedSessionId) => {
+            console.log(`[Streamable HTTP MCP] Session terminated by client: ${closedSessionId}`);
           }
+        });
 
-          // Find the user's tools
-          let userToolsObj = userTools.get(sessionId.toString());
-
-          // If not found by session ID, try by index
-          if (!userToolsObj && serversByIndex.size > 0) {
-            const lastIndex = Math.max(...Array.from(serversByIndex.keys()));
-            userToolsObj = toolsByIndex.get(lastIndex);
+        try {
+          this.sessions.create(newSessionId, authHeader, ghlLocationId, {
+            transport,
+            server: userServer,
+            tools: userToolInstances,
+            resources: userResources,
+            prompts: userPrompts,
+            stopRefresh,
+            detachJobs
+          });
+        } catch (error) {
+          stopRefresh?.();
+          detachJobs();
+          if (error instanceof SessionLimitError) {
+            console.error(`[Streamable HTTP MCP] Rejecting initialize: ${error.message}`);
+            sendJSONRPCError(res, 503, -32000, error.message);
+            return;
           }
+          throw error;
+        }
 
-          if (userServer && userToolsObj) {
-            // Route the message to the user's MCP server
-            try {
-              await this.processMCPMessageForUser(userServer, userToolsObj, req.body, transport);
-            } catch (error) {
-              console.error(`[${client} MCP] Error processing message:`, error);
-              const errorResponse = {
-                jsonrpc: '2.0',
-                id: req.body.id,
-                error: {
-                  code: -32603,
-                  message: 'Message processing failed'
-                }
-              };
-              transport.send(errorResponse);
-            }
-          } else {
-            console.error(`[${client} MCP] No user server found for session: ${sessionId}`);
-              const errorResponse = {
-                jsonrpc: '2.0',
-                id: req.body.id,
-                error: {
-                  code: -32603,
-                message: 'No active session found'
-                }
-              };
-              transport.send(errorResponse);
+        // Clean up whenever the transport closes (DELETE, expiry, server shutdown or error)
+        transport.onclose = () => {
+          if (this.sessions.remove(newSessionId)) {
+            console.log(`[Streamable HTTP MCP] Session closed: ${newSessionId}`);
           }
-        } else {
-          console.error(`[${client} MCP] No transport found for session: ${sessionId}`);
+        };
+
+        try {
+          await userServer.connect(transport);
+          await transport.handleRequest(req, res, req.body);
+        } catch (error) {
+          this.sessions.remove(newSessionId);
+          throw error;
+        }
+      } catch (error) {
+        console.error('[Streamable HTTP MCP] Error handling POST request:', error);
+        if (!res.headersSent) {
+          sendJSONRPCError(res, 500, -32603, 'Internal server error');
         }
-        
-        res.status(200).json({ status: 'received' });
-      } else {
-        res.status(400).json({ error: 'No body received' });
       }
     });
 
+    // GET opens (or resumes, with Last-Event-ID) the server-to-client stream; DELETE terminates the session
+    const handleStreamableSessionRequest = async (req: express.Request, res: express.Response) => {
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+      if (!sessionId) {
+        sendJSONRPCError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+        return;
+      }
+
+      const lookup = this.sessions.authorize(sessionId, req.headers['authorization'] as string | undefined);
+      if (!lookup.ok) {
+        console.error(`[Streamable HTTP MCP] Rejected ${req.method} for session ${sessionId}: ${lookup.reason}`);
+        sendSessionError(res, lookup.reason);
+        return;
+      }
+
+      const { transport } = lookup.session.data;
+      if (!(transport instanceof StreamableHTTPServerTransport)) {
+        sendSessionError(res, 'not_found');
+        return;
+      }
+
+      try {
+        if (req.headers['last-event-id']) {
+          console.log(`[Streamable HTTP MCP] Resuming session ${sessionId} after event ${req.headers['last-event-id']}`);
+        }
+        await transport.handleRequest(req, res);
+      } catch (error) {
+        console.error(`[Streamable HTTP MCP] Error handling ${req.method} request:`, error);
+        if (!res.headersSent) {
+          sendJSONRPCError(res, 500, -32603, 'Internal server error');
+        }
+      }
+    };
+
+    this.app.get('/mcp', handleStreamableSessionRequest);
+    this.app.delete('/mcp', handleStreamableSessionRequest);
+
     // Buffer test endpoint - try different approaches
     this.app.post('/test-buffer', express.text({ type: 'application/json' }), (req, res) => {
       console.log(`[Buffer Test] Body type:`, typeof req.body);
@@ -936,6 +1211,47 @@ class GHLMCPHttpServer {
       }
     });
 
+    // GHL webhooks: notify sessions of the event's location that subscribed to a resource the event changed
+    const keepRawBody = (req: express.Request, _res: express.Response, buffer: Buffer) => {
+      (req as express.Request & { rawBody?: Buffer }).rawBody = buffer;
+    };
+    this.app.post('/webhooks/ghl', express.json({ verify: keepRawBody }), async (req, res) => {
+      const rawBody = (req as express.Request & { rawBody?: Buffer }).rawBody;
+      if (!this.webhookPublicKey && !this.acceptUnsignedWebhooks) {
+        res.status(503).json({ error: 'Webhook signature verification is not configured (set GHL_WEBHOOK_PUBLIC_KEY)' });
+        return;
+      }
+      if (this.webhookPublicKey) {
+        const signature = req.headers[WEBHOOK_SIGNATURE_HEADER] as string | undefined;
+        if (!rawBody || !verifyWebhookSignature(rawBody, signature, this.webhookPublicKey)) {
+          res.status(401).json({ error: 'Invalid webhook signature' });
+          return;
+        }
+      }
+
+      const event = req.body as GHLWebhookEvent | undefined;
+      if (!event || typeof event.type !== 'string' || typeof event.locationId !== 'string') {
+        res.status(400).json({ error: 'Webhook body must include type and locationId' });
+        return;
+      }
+
+      const changed = webhookResourceUris(event);
+      let notified = 0;
+      for (const session of this.sessions.findByLocation(event.locationId)) {
+        for (const uri of session.data.resources.subscribedTo(changed)) {
+          try {
+            await session.data.server.sendResourceUpdated({ uri });
+            notified++;
+          } catch (error) {
+            console.error(`[Webhooks] Failed to notify session ${session.id} of ${uri}:`, error);
+          }
+        }
+      }
+
+      console.log(`[Webhooks] ${event.type} for location ${event.locationId}: ${notified} notification(s) sent`);
+      res.json({ received: true, notified });
+    });
+
     // NOTE: Webhook functionality disabled - requires per-user authentication
     // Webhooks would need Authorization header to work with per-user setup
     /*
@@ -996,6 +1312,7 @@ class GHLMCPHttpServer {
           health: '/health',
           capabilities: '/capabilities',
           tools: '/tools',
+          mcp: '/mcp',
           sse: '/sse',
           elevenlabs: '/elevenlabs'
         },
@@ -1015,10 +1332,48 @@ class GHLMCPHttpServer {
     throw new Error(`Tool execution not available - use per-user connections via SSE`);
   }
 
+  /**
+   * Run a tool call received on a legacy SSE transport, with the progress notifications and
+   * cancellation the SDK provides on the other transports. Resolves to null if the call was cancelled.
+   */
+  private async callLegacyTool(userTools: ToolRegistry, name: string, args: any, message: any, transport: any) {
+    const calls = this.legacyToolCalls.get(transport) || new Map<string | number, AbortController>();
+    this.legacyToolCalls.set(transport, calls);
+
+    const controller = new AbortController();
+    calls.set(message.id, controller);
+    const progressToken = message.params?._meta?.progressToken;
+    const context: ToolCallContext = {
+      signal: controller.signal,
+      ...(progressToken !== undefined && {
+        reportProgress: progressNotifier(notification => transport.send({ jsonrpc: '2.0', ...notification }), progressToken)
+      })
+    };
+
+    try {
+      const result = await userTools.call(name, args, context);
+      return controller.signal.aborted ? null : result;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return null;
+      }
+      throw error;
+    } finally {
+      calls.delete(message.id);
+    }
+  }
+
   /**
    * Process MCP message for a specific user server
    */
-  private async processMCPMessageForUser(userServer: Server, userTools: any, message: any, transport: any) {
+  private async processMCPMessageForUser(
+    userServer: Server,
+    userTools: ToolRegistry,
+    userResources: ResourceRegistry,
+    userPrompts: PromptLibrary,
+    message: any,
+    transport: any
+  ) {
     if (message.method === 'initialize') {
       // Use the client's requested protocol version if we support it
       const clientVersion = message.params?.protocolVersion || '2024-11-05';
@@ -1031,7 +1386,9 @@ class GHLMCPHttpServer {
         result: {
           protocolVersion: protocolVersion,
           capabilities: {
-            tools: {}
+            tools: {},
+            resources: { subscribe: true },
+            prompts: {}
           },
           serverInfo: {
             name: 'ghl-mcp-server',
@@ -1048,28 +1405,8 @@ class GHLMCPHttpServer {
       // Route to the handlers that were set up in createMCPServerForUser
       if (message.method === 'tools/list') {
         try {
-          // Get tools from the user's tool instances directly
-          const tools = [
-            ...userTools.inactivityTools.getToolDefinitions(),
-            ...userTools.userTools.getToolDefinitions(),
-            ...userTools.contactTools.getToolDefinitions(),
-            ...userTools.conversationTools.getToolDefinitions(),
-            ...userTools.blogTools.getToolDefinitions(),
-            ...userTools.opportunityTools.getToolDefinitions(),
-            ...userTools.calendarTools.getToolDefinitions(),
-            ...userTools.emailTools.getToolDefinitions(),
-            ...userTools.locationTools.getToolDefinitions(),
-            ...userTools.emailISVTools.getToolDefinitions(),
-            ...userTools.socialMediaTools.getTools(),
-            ...userTools.mediaTools.getToolDefinitions(),
-            ...userTools.objectTools.getToolDefinitions(),
-            ...userTools.associationTools.getTools(),
-            ...userTools.customFieldV2Tools.getTools(),
-            ...userTools.workflowTools.getTools(),
-            ...userTools.surveyTools.getTools(),
-            ...userTools.storeTools.getTools(),
-            ...userTools.productsTools.getTools()
-          ];
+          // Get tools from the user's tool registry directly
+          const tools = userTools.getDefinitions();
 
           transport.send({
             jsonrpc: '2.0',
@@ -1090,74 +1427,89 @@ class GHLMCPHttpServer {
         }
       } else if (message.method === 'tools/call') {
         try {
-          // Route tool calls to the appropriate tool instance
+          // Route tool calls to the registered tool handler
           const { name, arguments: args = {} } = message.params || {};
-      let result: any;
-
-      if (this.isInactivityTool(name)) {
-            result = await userTools.inactivityTools.executeTool(name, args);
-      } else if (this.isUserTool(name)) {
-            result = await userTools.userTools.executeTool(name, args);
-      } else if (this.isContactTool(name)) {
-            result = await userTools.contactTools.executeTool(name, args);
-      } else if (this.isConversationTool(name)) {
-            result = await userTools.conversationTools.executeTool(name, args);
-      } else if (this.isBlogTool(name)) {
-            result = await userTools.blogTools.executeTool(name, args);
-      } else if (this.isOpportunityTool(name)) {
-            result = await userTools.opportunityTools.executeTool(name, args);
-      } else if (this.isCalendarTool(name)) {
-            result = await userTools.calendarTools.executeTool(name, args);
-      } else if (this.isEmailTool(name)) {
-            result = await userTools.emailTools.executeTool(name, args);
-      } else if (this.isLocationTool(name)) {
-            result = await userTools.locationTools.executeTool(name, args);
-      } else if (this.isEmailISVTool(name)) {
-            result = await userTools.emailISVTools.executeTool(name, args);
-      } else if (this.isSocialMediaTool(name)) {
-            result = await userTools.socialMediaTools.executeTool(name, args);
-      } else if (this.isMediaTool(name)) {
-            result = await userTools.mediaTools.executeTool(name, args);
-      } else if (this.isObjectTool(name)) {
-            result = await userTools.objectTools.executeTool(name, args);
-      } else if (this.isAssociationTool(name)) {
-            result = await userTools.associationTools.executeAssociationTool(name, args);
-      } else if (this.isCustomFieldV2Tool(name)) {
-            result = await userTools.customFieldV2Tools.executeCustomFieldV2Tool(name, args);
-      } else if (this.isWorkflowTool(name)) {
-            result = await userTools.workflowTools.executeWorkflowTool(name, args);
-      } else if (this.isSurveyTool(name)) {
-            result = await userTools.surveyTools.executeSurveyTool(name, args);
-      } else if (this.isStoreTool(name)) {
-            result = await userTools.storeTools.executeStoreTool(name, args);
-      } else if (this.isProductsTool(name)) {
-            result = await userTools.productsTools.executeProductsTool(name, args);
-      } else {
-        throw new Error(`Unknown tool: ${name}`);
-      }
+          if (!userTools.has(name)) {
+            transport.send({
+              jsonrpc: '2.0',
+              id: message.id,
+              error: {
+                code: -32601,
+                message: `Unknown tool: ${name}`
+              }
+            });
+            return;
+          }
+
+          const result = await this.callLegacyTool(userTools, name, args, message, transport);
+          if (result === null) {
+            // Cancelled: like the SDK, send no response
+            return;
+          }
 
           transport.send({
-        jsonrpc: '2.0',
-        id: message.id,
-        result: {
-              content: [{
-              type: 'text',
-              text: JSON.stringify(result, null, 2)
-              }]
-            }
+            jsonrpc: '2.0',
+            id: message.id,
+            result
           });
     } catch (error) {
           console.error('[MCP] Error calling tool:', error);
-      const errorResponse = {
-        jsonrpc: '2.0',
-        id: message.id,
-        error: {
-          code: -32603,
-              message: error instanceof Error ? error.message : 'Tool execution failed'
+          // Same mapping as the SDK handlers: permission, validation and auth failures are JSON-RPC errors
+          const response = mapToolError(error);
+          if (response.kind === 'result') {
+            transport.send({ jsonrpc: '2.0', id: message.id, result: response.result });
+            return;
+          }
+          const errorResponse: JSONRPCMessage = {
+            jsonrpc: '2.0',
+            id: message.id,
+            error: {
+              code: response.code,
+              message: response.message,
+              data: response.data
             }
           };
-          transport.send(errorResponse);
+          await transport.send(errorResponse).catch((sendError: unknown) => {
+            console.error('[MCP] Could not send the tool error response:', sendError);
+          });
+        }
+      } else if (message.method?.startsWith('resources/')) {
+        try {
+          let result;
+          if (message.method === 'resources/list') {
+            result = { resources: await userResources.listResources() };
+          } else if (message.method === 'resources/templates/list') {
+            result = { resourceTemplates: userResources.getTemplates() };
+          } else if (message.method === 'resources/read') {
+            result = await userResources.read(message.params?.uri);
+          } else if (message.method === 'resources/subscribe') {
+            userResources.subscribe(message.params?.uri);
+            result = {};
+          } else if (message.method === 'resources/unsubscribe') {
+            userResources.unsubscribe(message.params?.uri);
+            result = {};
+          } else {
+            throw new McpError(ErrorCode.MethodNotFound, `Method ${message.method} not supported`);
+          }
+          transport.send({ jsonrpc: '2.0', id: message.id, result });
+        } catch (error) {
+          console.error(`[MCP] Error handling ${message.method}:`, error);
+          const { code, message: errorMessage, data } = mapResourceError(error);
+          transport.send({ jsonrpc: '2.0', id: message.id, error: { code, message: errorMessage, data } });
         }
+      } else if (message.method === 'prompts/list' || message.method === 'prompts/get') {
+        try {
+          const result = message.method === 'prompts/list'
+            ? { prompts: userPrompts.list() }
+            : await userPrompts.get(message.params?.name, message.params?.arguments);
+          transport.send({ jsonrpc: '2.0', id: message.id, result });
+        } catch (error) {
+          console.error(`[MCP] Error handling ${message.method}:`, error);
+          const code = error instanceof McpError ? error.code : -32603;
+          transport.send({ jsonrpc: '2.0', id: message.id, error: { code, message: error instanceof Error ? error.message : String(error) } });
+        }
+      } else if (message.method === 'notifications/cancelled') {
+        this.legacyToolCalls.get(transport)?.get(message.params?.requestId)?.abort(message.params?.reason);
       } else {
         // For unsupported methods
         const errorResponse = {
@@ -1176,265 +1528,22 @@ class GHLMCPHttpServer {
 
 
   /**
-   * Get tools count summary
+   * Count registered tools per category
+   * Tools are created per-user, so they are counted from a registry bound to an unauthenticated client
    */
-  private getToolsCount() {
-    // Static tool counts since tools are now created per-user
+  private countTools(): Record<string, number> {
+    const registry = createToolRegistry(this.createGHLClientForUser('', ''));
     return {
-      inactivity: 2,    // detect_contacts_inactivity, detect_opportunities_inactivity
-      user: 5,          // create_user, search_users, get_user, update_user, delete_user
-      contact: 42,      // contacts, conversations, tasks, notes, OTP, etc.
-      conversation: 12, // send SMS/email, get conversations, etc.
-      blog: 5,          // blog posts, sites, authors, categories
-      opportunity: 9,   // search, create, update opportunities
-      calendar: 20,     // events, appointments, slots, etc.
-      email: 3,         // email templates
-      location: 17,     // location management, custom fields, etc.
-      emailISV: 1,      // email verification
-      socialMedia: 10,  // posts, accounts, scheduling
-      media: 3,         // upload, list, delete media
-      objects: 4,       // custom objects CRUD
-      associations: 5,  // object relationships
-      customFieldsV2: 4, // custom fields management
-      workflows: 1,     // workflow listing
-      surveys: 2,       // surveys and submissions
-      store: 15,        // shipping, products, etc.
-      products: 14,     // product management
-      total: 174        // sum of all above
+      ...registry.getCategoryCounts(),
+      total: registry.size
     };
   }
 
   /**
-   * Tool name validation helpers
+   * Get tools count summary
    */
-  private isContactTool(toolName: string): boolean {
-    const contactToolNames = [
-      // Basic Contact Management
-      'create_contact', 'search_contacts', 'get_contact', 'update_contact',
-      'add_contact_tags', 'remove_contact_tags', 'delete_contact',
-      // OTP/Verification Tools (Updated)
-      'start_email_verification', 'start_sms_verification', 'start_whatsapp_verification',
-      'verify_code', 'resend_verification_code', 'check_verification_status',
-      // Task Management
-      'get_contact_tasks', 'create_contact_task', 'get_contact_task', 'update_contact_task',
-      'delete_contact_task', 'update_task_completion',
-      // Note Management
-      'get_contact_notes', 'create_contact_note', 'get_contact_note', 'update_contact_note',
-      'delete_contact_note',
-      // Advanced Operations
-      'upsert_contact', 'get_duplicate_contact', 'get_contacts_by_business', 'get_contact_appointments',
-      // Bulk Operations
-      'bulk_update_contact_tags', 'bulk_update_contact_business',
-      // Followers Management
-      'add_contact_followers', 'remove_contact_followers',
-      // Campaign Management
-      'add_contact_to_campaign', 'remove_contact_from_campaign', 'remove_contact_from_all_campaigns',
-      // Workflow Management
-      'add_contact_to_workflow', 'remove_contact_from_workflow'
-    ];
-    return contactToolNames.includes(toolName);
-  }
-
-  private isConversationTool(toolName: string): boolean {
-    const conversationToolNames = [
-      // Basic conversation operations
-      'send_sms', 'send_email', 'search_conversations', 'get_conversation',
-      'create_conversation', 'update_conversation', 'delete_conversation', 'get_recent_messages',
-      // Message management
-      'get_email_message', 'get_message', 'upload_message_attachments', 'update_message_status',
-      // Manual message creation
-      'add_inbound_message', 'add_outbound_call',
-      // Call recordings & transcriptions
-      'get_message_recording', 'get_message_transcription', 'download_transcription',
-      // Scheduling management
-      'cancel_scheduled_message', 'cancel_scheduled_email',
-      // Live chat features
-      'live_chat_typing'
-    ];
-    return conversationToolNames.includes(toolName);
-  }
-
-  private isBlogTool(toolName: string): boolean {
-    const blogToolNames = [
-      'create_blog_post', 'update_blog_post', 'get_blog_posts', 'get_blog_sites',
-      'get_blog_authors', 'get_blog_categories', 'check_url_slug'
-    ];
-    return blogToolNames.includes(toolName);
-  }
-
-  private isOpportunityTool(toolName: string): boolean {
-    const opportunityToolNames = [
-      'search_opportunities', 'get_pipelines', 'get_opportunity', 'create_opportunity',
-      'update_opportunity_status', 'delete_opportunity', 'update_opportunity', 
-      'upsert_opportunity', 'add_opportunity_followers', 'remove_opportunity_followers'
-    ];
-    return opportunityToolNames.includes(toolName);
-  }
-
-  private isCalendarTool(toolName: string): boolean {
-    const calendarToolNames = [
-      // Calendar Groups Management
-      'get_calendar_groups', 'create_calendar_group', 'validate_group_slug',
-      'update_calendar_group', 'delete_calendar_group', 'disable_calendar_group',
-      // Calendars
-      'get_calendars', 'create_calendar', 'get_calendar', 'update_calendar', 'delete_calendar',
-      // Events and Appointments
-      'get_calendar_events', 'get_free_slots', 'create_appointment', 'get_appointment',
-      'update_appointment', 'delete_appointment',
-      // Appointment Notes
-      'get_appointment_notes', 'create_appointment_note', 'update_appointment_note', 'delete_appointment_note',
-      // Calendar Resources
-      'get_calendar_resources', 'get_calendar_resource_by_id', 'update_calendar_resource', 'delete_calendar_resource',
-      // Calendar Notifications
-      'get_calendar_notifications', 'create_calendar_notification', 'update_calendar_notification', 'delete_calendar_notification',
-      // Blocked Slots
-      'create_block_slot', 'update_block_slot', 'get_blocked_slots', 'delete_blocked_slot'
-    ];
-    return calendarToolNames.includes(toolName);
-  }
-
-  private isEmailTool(toolName: string): boolean {
-    const emailToolNames = [
-      'get_email_campaigns', 'create_email_template', 'get_email_templates',
-      'update_email_template', 'delete_email_template'
-    ];
-    return emailToolNames.includes(toolName);
-  }
-
-  private isLocationTool(toolName: string): boolean {
-    const locationToolNames = [
-      // Location Management
-      'search_locations', 'get_location', 'create_location', 'update_location', 'delete_location',
-      // Location Tags
-      'get_location_tags', 'create_location_tag', 'get_location_tag', 'update_location_tag', 'delete_location_tag',
-      // Location Tasks
-      'search_location_tasks',
-      // Custom Fields
-      'get_location_custom_fields', 'create_location_custom_field', 'get_location_custom_field', 
-      'update_location_custom_field', 'delete_location_custom_field',
-      // Custom Values
-      'get_location_custom_values', 'create_location_custom_value', 'get_location_custom_value',
-      'update_location_custom_value', 'delete_location_custom_value',
-      // Templates
-      'get_location_templates', 'delete_location_template',
-      // Timezones
-      'get_timezones'
-    ];
-    return locationToolNames.includes(toolName);
-  }
-
-  private isInactivityTool(toolName: string): boolean {
-    const inactivityToolNames = [
-      'detect_contacts_inactivity', 'detect_opportunities_inactivity'
-    ];
-    return inactivityToolNames.includes(toolName);
-  }
-
-  private isUserTool(toolName: string): boolean {
-    const userToolNames = [
-      'create_user', 'search_users', 'get_user', 'update_user', 'delete_user'
-    ];
-    return userToolNames.includes(toolName);
-  }
-
-  private isEmailISVTool(toolName: string): boolean {
-    const emailISVToolNames = [
-      'verify_email'
-    ];
-    return emailISVToolNames.includes(toolName);
-  }
-
-  private isSocialMediaTool(toolName: string): boolean {
-    const socialMediaToolNames = [
-      // Post Management
-      'search_social_posts', 'create_social_post', 'get_social_post', 'update_social_post',
-      'delete_social_post', 'bulk_delete_social_posts',
-      // Account Management
-      'get_social_accounts', 'delete_social_account',
-      // CSV Operations
-      'upload_social_csv', 'get_csv_upload_status', 'set_csv_accounts',
-      // Categories & Tags
-      'get_social_categories', 'get_social_category', 'get_social_tags', 'get_social_tags_by_ids',
-      // OAuth Integration
-      'start_social_oauth', 'get_platform_accounts'
-    ];
-    return socialMediaToolNames.includes(toolName);
-  }
-
-  private isMediaTool(toolName: string): boolean {
-    const mediaToolNames = [
-      'get_media_files', 'upload_media_file', 'delete_media_file'
-    ];
-    return mediaToolNames.includes(toolName);
-  }
-
-  private isObjectTool(toolName: string): boolean {
-    const objectToolNames = [
-      'get_all_objects', 'create_object_schema', 'get_object_schema', 'update_object_schema',
-      'create_object_record', 'get_object_record', 'update_object_record', 'delete_object_record',
-      'search_object_records'
-    ];
-    return objectToolNames.includes(toolName);
-  }
-
-  private isAssociationTool(toolName: string): boolean {
-    const associationToolNames = [
-      'ghl_get_all_associations', 'ghl_create_association', 'ghl_get_association_by_id',
-      'ghl_update_association', 'ghl_delete_association', 'ghl_get_association_by_key',
-      'ghl_get_association_by_object_key', 'ghl_create_relation', 'ghl_get_relations_by_record',
-      'ghl_delete_relation'
-    ];
-    return associationToolNames.includes(toolName);
-  }
-
-  private isCustomFieldV2Tool(toolName: string): boolean {
-    const customFieldV2ToolNames = [
-      'ghl_get_custom_field_by_id', 'ghl_create_custom_field', 'ghl_update_custom_field',
-      'ghl_delete_custom_field', 'ghl_get_custom_fields_by_object_key', 'ghl_create_custom_field_folder',
-      'ghl_update_custom_field_folder', 'ghl_delete_custom_field_folder'
-    ];
-    return customFieldV2ToolNames.includes(toolName);
-  }
-
-  private isWorkflowTool(toolName: string): boolean {
-    const workflowToolNames = [
-      'ghl_get_workflows'
-    ];
-    return workflowToolNames.includes(toolName);
-  }
-
-  private isSurveyTool(toolName: string): boolean {
-    const surveyToolNames = [
-      'ghl_get_surveys',
-      'ghl_get_survey_submissions'
-    ];
-    return surveyToolNames.includes(toolName);
-  }
-
-  private isStoreTool(toolName: string): boolean {
-    const storeToolNames = [
-      'ghl_create_shipping_zone', 'ghl_list_shipping_zones', 'ghl_get_shipping_zone',
-      'ghl_update_shipping_zone', 'ghl_delete_shipping_zone', 'ghl_get_available_shipping_rates',
-      'ghl_create_shipping_rate', 'ghl_list_shipping_rates', 'ghl_get_shipping_rate',
-      'ghl_update_shipping_rate', 'ghl_delete_shipping_rate', 'ghl_create_shipping_carrier',
-      'ghl_list_shipping_carriers', 'ghl_get_shipping_carrier', 'ghl_update_shipping_carrier',
-      'ghl_delete_shipping_carrier', 'ghl_create_store_setting', 'ghl_get_store_setting'
-    ];
-    return storeToolNames.includes(toolName);
-  }
-
-  private isProductsTool(toolName: string): boolean {
-    const productsToolNames = [
-      'ghl_create_product', 'ghl_list_products', 'ghl_get_product', 'ghl_update_product',
-      'ghl_delete_product', 'ghl_bulk_update_products', 'ghl_create_price', 'ghl_list_prices',
-      'ghl_get_price', 'ghl_update_price', 'ghl_delete_price', 'ghl_list_inventory',
-      'ghl_update_inventory', 'ghl_get_product_store_stats', 'ghl_update_product_store',
-      'ghl_create_product_collection', 'ghl_list_product_collections', 'ghl_get_product_collection',
-      'ghl_update_product_collection', 'ghl_delete_product_collection', 'ghl_list_product_reviews',
-      'ghl_get_reviews_count', 'ghl_update_product_review', 'ghl_delete_product_review',
-      'ghl_bulk_update_product_reviews'
-    ];
-    return productsToolNames.includes(toolName);
+  private getToolsCount(): Record<string, number> {
+    return this.toolCounts;
   }
 
   /**
@@ -1449,6 +1558,13 @@ class GHLMCPHttpServer {
   /**
    * Start the HTTP server
    */
+  /**
+   * The Express app with every route, e.g. to serve it on a test port
+   */
+  getApp(): express.Application {
+    return this.app;
+  }
+
   async start(): Promise<void> {
     console.log('🚀 Starting GoHighLevel MCP HTTP Server...');
     console.log('=========================================');
@@ -1457,13 +1573,21 @@ class GHLMCPHttpServer {
       // NOTE: No longer testing global GHL connection - connections are tested per-user
       // await this.testGHLConnection();
       
+      this.sessions.start();
+
       // Start HTTP server
       this.app.listen(this.port, '0.0.0.0', () => {
         console.log('✅ GoHighLevel MCP HTTP Server started successfully!');
         console.log(`🌐 Server running on: http://0.0.0.0:${this.port}`);
-        console.log(`🔗 SSE Endpoint: http://0.0.0.0:${this.port}/sse`);
+        console.log(`🔗 Streamable HTTP Endpoint: http://0.0.0.0:${this.port}/mcp`);
+        console.log(`🔗 SSE Endpoint (legacy): http://0.0.0.0:${this.port}/sse`);
         console.log(`🔗 ElevenLabs Endpoint: http://0.0.0.0:${this.port}/elevenlabs`);
         console.log(`📋 Tools Available: ${this.getToolsCount().total}`);
+        for (const [category, count] of Object.entries(this.getToolsCount())) {
+          if (category !== 'total') {
+            console.log(`   • ${category}: ${count}`);
+          }
+        }
         console.log('🎯 Ready for ChatGPT and ElevenLabs integration!');
         console.log('=========================================');
       });
@@ -1506,8 +1630,10 @@ async function main(): Promise<void> {
   }
 }
 
-// Start the server
-main().catch((error) => {
-  console.error('Unhandled error:', error);
-  process.exit(1);
-}); 
+// Start the server when run directly, not when imported by tests
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
+} 
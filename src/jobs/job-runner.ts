@@ -0,0 +1,286 @@
+/**
+ * Job Runner
+ * Runs background jobs one at a time per location, through the tool registry of an open session for that location
+ * that uses the credential the job was started with. Jobs interrupted by a restart are queued again and resume from
+ * their checkpoint once such a session exists.
+ */
+
+import { randomBytes } from 'node:crypto';
+import path from 'node:path';
+import { GHLAuthError } from '../clients/ghl-api-error.js';
+import type { ToolRegistry } from '../tools/tool-registry.js';
+import type { ToolCallContext, ToolProgress } from '../tools/tool-context.js';
+import { JobRecord, JobStore, JsonFileJobStore } from './job-store.js';
+
+/**
+ * Path of the job queue file from GHL_JOB_STORE, ./data/jobs.json by default
+ */
+export function jobStorePathFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+  return env.GHL_JOB_STORE || './data/jobs.json';
+}
+
+/**
+ * Thrown for a job ID that does not exist for the caller's location
+ */
+export class JobNotFoundError extends Error {
+  constructor(public readonly jobId: string) {
+    super(`Job not found: ${jobId}`);
+    this.name = 'JobNotFoundError';
+  }
+}
+
+/**
+ * A session's registry and the credential it calls GHL with
+ */
+interface Attachment {
+  credential: string;
+  registry: ToolRegistry;
+}
+
+/**
+ * Job Runner class
+ * Only holds the registries of open sessions. A job runs through the latest one of its location with the credential
+ * that started it and whose policy still allows its tool; until one exists, the job stays queued.
+ */
+export class JobRunner {
+  private attachments: Map<string, Attachment[]> = new Map();
+  private controllers: Map<string, AbortController> = new Map();
+  private progress: Map<string, ToolProgress> = new Map();
+  private workers: Map<string, Promise<void>> = new Map();
+  private recovered: Promise<void> | null = null;
+
+  constructor(private store: JobStore, private now: () => number = Date.now) {}
+
+  /**
+   * Make a session's registry available to run the location's jobs started with the same credential, and resume
+   * any that are waiting. Returns the function to call when the session closes.
+   */
+  attach(locationId: string, credential: string, registry: ToolRegistry): () => void {
+    const attachment: Attachment = { credential, registry };
+    this.attachments.set(locationId, [...(this.attachments.get(locationId) || []), attachment]);
+    this.wake(locationId);
+    return () => this.detach(locationId, attachment);
+  }
+
+  /**
+   * Queue a job for a job-capable tool. The registry must be attached, its policy must allow the tool and the
+   * arguments must be valid; all are checked now so the caller hears about problems immediately.
+   */
+  async start(locationId: string, registry: ToolRegistry, tool: string, args: Record<string, unknown>): Promise<JobRecord> {
+    await this.recover();
+    const attachment = this.attachments.get(locationId)?.find(entry => entry.registry === registry);
+    if (!attachment) {
+      throw new Error('Background jobs can only be started from an open session');
+    }
+    registry.checkCall(tool, args);
+    if (!registry.get(tool)?.job) {
+      throw new Error(`Tool "${tool}" cannot run as a background job`);
+    }
+
+    const job = await this.store.create({
+      id: `job_${randomBytes(8).toString('hex')}`,
+      locationId,
+      credential: attachment.credential,
+      tool,
+      arguments: args,
+      status: 'queued',
+      createdAt: this.timestamp(),
+      runs: 0
+    });
+    this.wake(locationId);
+    return this.withProgress(job);
+  }
+
+  /**
+   * A job of the location, with its latest progress
+   */
+  async get(locationId: string, jobId: string): Promise<JobRecord> {
+    await this.recover();
+    const job = await this.store.get(jobId);
+    if (!job || job.locationId !== locationId) {
+      throw new JobNotFoundError(jobId);
+    }
+    return this.withProgress(job);
+  }
+
+  /**
+   * Jobs of the location matching the filter, newest first
+   */
+  async list(locationId: string, filter: (job: JobRecord) => boolean = () => true): Promise<JobRecord[]> {
+    await this.recover();
+    const jobs = await this.store.list(job => job.locationId === locationId && filter(job));
+    return jobs.reverse().map(job => this.withProgress(job));
+  }
+
+  /**
+   * Cancel a job. A queued job is cancelled at once; a running one stops at its next step and keeps its partial result.
+   * Finished jobs are returned unchanged.
+   */
+  async cancel(locationId: string, jobId: string): Promise<JobRecord> {
+    const job = await this.get(locationId, jobId);
+    if (job.status === 'queued') {
+      return this.finish(job.id, { status: 'cancelled', waitingFor: undefined });
+    }
+    if (job.status === 'running') {
+      this.controllers.get(job.id)?.abort('Cancelled by the client');
+      return this.withProgress((await this.store.update(job.id, { cancelRequested: true }))!);
+    }
+    return job;
+  }
+
+  /**
+   * Resolves once no job of the location is running; for shutdown and tests
+   */
+  async idle(locationId: string): Promise<void> {
+    while (this.workers.has(locationId)) {
+      await this.workers.get(locationId);
+    }
+  }
+
+  /**
+   * Queue the jobs a previous process left running, once per runner
+   */
+  private recover(): Promise<void> {
+    if (!this.recovered) {
+      this.recovered = this.store.list(job => job.status === 'running').then(async jobs => {
+        for (const job of jobs) {
+          await this.store.update(job.id, {
+            status: 'queued',
+            waitingFor: 'Interrupted by a server restart; resumes from its checkpoint in a session with the credential that started it'
+          });
+        }
+      });
+      // Try again on the next call rather than staying broken
+      this.recovered.catch(() => { this.recovered = null; });
+    }
+    return this.recovered;
+  }
+
+  /**
+   * Start the location's worker unless it is already running
+   */
+  private wake(locationId: string): void {
+    if (this.workers.has(locationId)) {
+      return;
+    }
+    const worker = this.work(locationId)
+      .catch(error => { process.stderr.write(`[GHL MCP] Job worker for ${locationId} failed: ${error}\n`); })
+      .finally(() => this.workers.delete(locationId));
+    this.workers.set(locationId, worker);
+  }
+
+  private async work(locationId: string): Promise<void> {
+    await this.recover();
+    while (true) {
+      const queued = await this.store.list(job => job.locationId === locationId && job.status === 'queued');
+      const next = queued.find(job => this.registryFor(job));
+      if (!next) {
+        return;
+      }
+      await this.run(next, this.registryFor(next)!);
+    }
+  }
+
+  private registryFor(job: JobRecord): ToolRegistry | undefined {
+    const attachments = this.attachments.get(job.locationId) || [];
+    const match = [...attachments].reverse()
+      .find(entry => entry.credential === job.credential && entry.registry.isAllowed(job.tool));
+    return match?.registry;
+  }
+
+  private detach(locationId: string, attachment: Attachment): void {
+    const remaining = (this.attachments.get(locationId) || []).filter(entry => entry !== attachment);
+    if (remaining.length > 0) {
+      this.attachments.set(locationId, remaining);
+    } else {
+      this.attachments.delete(locationId);
+    }
+  }
+
+  private async run(job: JobRecord, registry: ToolRegistry): Promise<void> {
+    // It may have been cancelled since the queue was read
+    if ((await this.store.get(job.id))?.status !== 'queued') {
+      return;
+    }
+
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    await this.store.update(job.id, {
+      status: 'running',
+      startedAt: job.startedAt || this.timestamp(),
+      runs: job.runs + 1,
+      waitingFor: undefined
+    });
+    process.stderr.write(`[GHL MCP] Job ${job.id} (${job.tool}) started${job.checkpoint !== undefined ? ' from its checkpoint' : ''}\n`);
+
+    const context: ToolCallContext = {
+      signal: controller.signal,
+      reportProgress: update => this.progress.set(job.id, update),
+      checkpoint: job.checkpoint,
+      saveCheckpoint: async state => {
+        await this.store.update(job.id, { checkpoint: state, progress: this.progress.get(job.id) });
+      }
+    };
+
+    try {
+      const result = await registry.execute(job.tool, job.arguments, context);
+      await this.finish(job.id, { status: controller.signal.aborted ? 'cancelled' : 'completed', result });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (controller.signal.aborted) {
+        await this.finish(job.id, { status: 'cancelled', error: message });
+      } else if (error instanceof GHLAuthError) {
+        // The credential stopped working; stop using this session and wait for one that works instead of failing
+        for (const attachment of (this.attachments.get(job.locationId) || []).filter(entry => entry.registry === registry)) {
+          this.detach(job.locationId, attachment);
+        }
+        await this.store.update(job.id, {
+          status: 'queued',
+          progress: this.progress.get(job.id),
+          waitingFor: `A session with working GHL credentials (${message})`
+        });
+      } else {
+        await this.finish(job.id, { status: 'failed', error: message });
+      }
+    } finally {
+      this.controllers.delete(job.id);
+    }
+    process.stderr.write(`[GHL MCP] Job ${job.id} (${job.tool}) stopped\n`);
+  }
+
+  private async finish(jobId: string, changes: Partial<JobRecord>): Promise<JobRecord> {
+    const job = await this.store.update(jobId, {
+      ...changes,
+      progress: this.progress.get(jobId),
+      checkpoint: undefined,
+      cancelRequested: undefined,
+      finishedAt: this.timestamp()
+    });
+    this.progress.delete(jobId);
+    return this.withProgress(job!);
+  }
+
+  private withProgress(job: JobRecord): JobRecord {
+    const progress = this.progress.get(job.id);
+    return progress ? { ...job, progress } : job;
+  }
+
+  private timestamp(): string {
+    return new Date(this.now()).toISOString();
+  }
+}
+
+const runners: Map<string, JobRunner> = new Map();
+
+/**
+ * The process-wide runner for a job store file, so every session of a location shares one queue
+ */
+export function getJobRunner(filePath: string = jobStorePathFromEnv()): JobRunner {
+  const id = path.resolve(filePath);
+  let runner = runners.get(id);
+  if (!runner) {
+    runner = new JobRunner(new JsonFileJobStore(filePath));
+    runners.set(id, runner);
+  }
+  return runner;
+}
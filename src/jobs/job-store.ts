@@ -0,0 +1,99 @@
+/**
+ * Job Store
+ * Persistent queue of background jobs: bulk operations and long scans that outlive a single MCP request
+ */
+
+import { JsonFileStore } from '../storage/json-file-store.js';
+import { ToolProgress } from '../tools/tool-context.js';
+import { MCPJobStatus } from '../types/ghl-types.js';
+
+// Finished jobs are kept this long so their results can still be fetched
+export const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type JobStatus = MCPJobStatus;
+
+/**
+ * A job: one call of a job-capable tool, run in the background for a location
+ */
+export interface JobRecord {
+  id: string;
+  locationId: string;
+  /** Identifies the credential the job was started with (an API key ID or a token hash, never the secret); it only runs under that one */
+  credential: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  status: JobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Times the job was started; more than 1 means it resumed after an interruption */
+  runs: number;
+  /** Saved by the tool as it goes; an interrupted job resumes from here */
+  checkpoint?: unknown;
+  progress?: ToolProgress;
+  /** The tool's result; partial for cancelled jobs */
+  result?: unknown;
+  error?: string;
+  /** Why a queued job is not running */
+  waitingFor?: string;
+  /** Set when the client asked to cancel a running job that has not stopped yet */
+  cancelRequested?: boolean;
+}
+
+/**
+ * Storage for background jobs
+ */
+export interface JobStore {
+  create(job: JobRecord): Promise<JobRecord>;
+  get(id: string): Promise<JobRecord | undefined>;
+  /** Jobs matching the filter, oldest first */
+  list(filter?: (job: JobRecord) => boolean): Promise<JobRecord[]>;
+  /** Undefined if the job is unknown */
+  update(id: string, changes: Partial<Omit<JobRecord, 'id'>>): Promise<JobRecord | undefined>;
+}
+
+/**
+ * Jobs in a single JSON file (mode 0600), kept in memory once loaded.
+ * Writes are serialized and atomic; finished jobs older than the retention period are dropped on write.
+ */
+export class JsonFileJobStore implements JobStore {
+  private file: JsonFileStore<JobRecord>;
+
+  constructor(filePath: string, private now: () => number = Date.now, private retentionMs: number = JOB_RETENTION_MS) {
+    this.file = new JsonFileStore(filePath, 'jobs', {
+      prune: jobs => jobs.filter(job => !job.finishedAt || this.now() - Date.parse(job.finishedAt) < this.retentionMs)
+    });
+  }
+
+  async create(job: JobRecord): Promise<JobRecord> {
+    return this.file.mutate(jobs => {
+      jobs.push(structuredClone(job));
+      return structuredClone(job);
+    });
+  }
+
+  async get(id: string): Promise<JobRecord | undefined> {
+    const job = (await this.file.load()).find(entry => entry.id === id);
+    return job && structuredClone(job);
+  }
+
+  async list(filter: (job: JobRecord) => boolean = () => true): Promise<JobRecord[]> {
+    return (await this.file.load()).filter(filter).map(job => structuredClone(job));
+  }
+
+  async update(id: string, changes: Partial<Omit<JobRecord, 'id'>>): Promise<JobRecord | undefined> {
+    return this.file.mutate(jobs => {
+      const job = jobs.find(entry => entry.id === id);
+      if (!job) return undefined;
+
+      Object.assign(job, structuredClone(changes));
+      // Changes set to undefined remove the field
+      for (const key of Object.keys(changes) as (keyof Omit<JobRecord, 'id'>)[]) {
+        if (changes[key] === undefined) {
+          delete (job as Partial<JobRecord>)[key];
+        }
+      }
+      return structuredClone(job);
+    });
+  }
+}
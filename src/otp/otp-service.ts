@@ -0,0 +1,224 @@
+/**
+ * OTP Service
+ * Issues and checks one-time verification codes server-side: random codes, stored as keyed hashes,
+ * with expiry, a limit on wrong attempts and a limit on codes sent per contact and channel.
+ * Codes are only ever returned by issue, for delivery; checking a code never reveals the expected one.
+ */
+
+import { createHmac, randomBytes, randomInt, timingSafeEqual } from 'node:crypto';
+import { InMemoryOtpStore, JsonFileOtpStore, OtpRecord, OtpStore } from './otp-store.js';
+
+export type OtpChannel = 'email' | 'sms' | 'whatsapp';
+
+/**
+ * Whom a code is for; codes of different locations, contacts or channels never match each other
+ */
+export interface OtpTarget {
+  locationId: string;
+  contactId: string;
+  channel: OtpChannel;
+}
+
+export interface OtpPolicy {
+  codeLength: number;
+  ttlMs: number;
+  /** Wrong codes allowed before the pending code is locked */
+  maxAttempts: number;
+  /** Codes sent per target within sendWindowMs */
+  maxSends: number;
+  sendWindowMs: number;
+  /** Minimum time between two codes for the same target */
+  resendIntervalMs: number;
+}
+
+export const DEFAULT_OTP_POLICY: OtpPolicy = {
+  codeLength: 6,
+  ttlMs: 10 * 60 * 1000,
+  maxAttempts: 5,
+  maxSends: 5,
+  sendWindowMs: 60 * 60 * 1000,
+  resendIntervalMs: 30 * 1000
+};
+
+/**
+ * A code to deliver
+ */
+export interface IssuedOtp {
+  code: string;
+  expiresAt: string;
+}
+
+/**
+ * Outcome of checking a code. Failures say why, never what the code was.
+ */
+export type OtpVerification =
+  | { verified: true }
+  | { verified: false; reason: 'invalid_code'; attemptsRemaining: number }
+  | { verified: false; reason: 'no_code' | 'expired' | 'too_many_attempts' };
+
+/**
+ * Thrown when a target has been sent too many codes; retryAfterMs says when the next one may be sent
+ */
+export class OtpRateLimitError extends Error {
+  constructor(public readonly target: OtpTarget, public readonly retryAfterMs: number) {
+    super(`Too many verification codes sent to this contact by ${target.channel}; try again in ${Math.ceil(retryAfterMs / 1000)} seconds`);
+    this.name = 'OtpRateLimitError';
+  }
+}
+
+/**
+ * Policy overrides from GHL_OTP_TTL_SECONDS, GHL_OTP_MAX_ATTEMPTS and GHL_OTP_MAX_SENDS_PER_HOUR
+ */
+export function otpPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): Partial<OtpPolicy> {
+  const policy: Partial<OtpPolicy> = {};
+  const positive = (value: string | undefined) => {
+    const parsed = parseInt(value || '');
+    return parsed > 0 ? parsed : undefined;
+  };
+  const ttlSeconds = positive(env.GHL_OTP_TTL_SECONDS);
+  const maxAttempts = positive(env.GHL_OTP_MAX_ATTEMPTS);
+  const maxSends = positive(env.GHL_OTP_MAX_SENDS_PER_HOUR);
+  if (ttlSeconds) policy.ttlMs = ttlSeconds * 1000;
+  if (maxAttempts) policy.maxAttempts = maxAttempts;
+  if (maxSends) policy.maxSends = maxSends;
+  return policy;
+}
+
+function targetKey(target: OtpTarget): string {
+  return `${target.locationId}:${target.contactId}:${target.channel}`;
+}
+
+/**
+ * OTP Service class
+ * Without a secret the hash key is random per process, which only suits an in-memory store.
+ */
+export class OtpService {
+  private readonly policy: OtpPolicy;
+  private readonly secret: Buffer;
+
+  constructor(
+    private store: OtpStore,
+    secret?: string,
+    policy: Partial<OtpPolicy> = {},
+    private now: () => number = Date.now
+  ) {
+    this.policy = { ...DEFAULT_OTP_POLICY, ...policy };
+    this.secret = secret ? Buffer.from(secret, 'utf8') : randomBytes(32);
+  }
+
+  getPolicy(): Readonly<OtpPolicy> {
+    return this.policy;
+  }
+
+  /**
+   * Generate a new code for the target, replacing any pending one.
+   * Throws OtpRateLimitError if the target was sent a code too recently or too often.
+   */
+  async issue(target: OtpTarget): Promise<IssuedOtp> {
+    const key = targetKey(target);
+    const code = String(randomInt(0, 10 ** this.policy.codeLength)).padStart(this.policy.codeLength, '0');
+    const now = this.now();
+    const expiresAt = new Date(now + this.policy.ttlMs).toISOString();
+
+    await this.store.update(key, record => {
+      const recentSends = (record?.sentAt || []).filter(sentAt => now - Date.parse(sentAt) < this.policy.sendWindowMs);
+      const lastSend = recentSends.length > 0 ? Date.parse(recentSends[recentSends.length - 1]) : undefined;
+      if (recentSends.length >= this.policy.maxSends) {
+        throw new OtpRateLimitError(target, Date.parse(recentSends[0]) + this.policy.sendWindowMs - now);
+      }
+      if (lastSend !== undefined && now - lastSend < this.policy.resendIntervalMs) {
+        throw new OtpRateLimitError(target, lastSend + this.policy.resendIntervalMs - now);
+      }
+
+      return {
+        key,
+        codeHash: this.hash(key, code),
+        expiresAt,
+        attempts: 0,
+        sentAt: [...recentSends, new Date(now).toISOString()],
+        retainUntil: new Date(now + Math.max(this.policy.ttlMs, this.policy.sendWindowMs)).toISOString()
+      };
+    });
+
+    return { code, expiresAt };
+  }
+
+  /**
+   * Check a code. A correct code is consumed; a wrong one counts as an attempt, and the pending code
+   * is locked after maxAttempts of them.
+   */
+  async verify(target: OtpTarget, code: string): Promise<OtpVerification> {
+    const key = targetKey(target);
+    const presented = Buffer.from(this.hash(key, code.replace(/\s/g, '')), 'hex');
+    let outcome: OtpVerification = { verified: false, reason: 'no_code' };
+
+    await this.store.update(key, record => {
+      if (!record?.codeHash) {
+        outcome = { verified: false, reason: 'no_code' };
+        return record;
+      }
+      if (Date.parse(record.expiresAt || '') <= this.now()) {
+        outcome = { verified: false, reason: 'expired' };
+        return consumed(record);
+      }
+      if (timingSafeEqual(Buffer.from(record.codeHash, 'hex'), presented)) {
+        outcome = { verified: true };
+        // Keep the verification visible for at least the send window
+        const now = this.now();
+        const retainUntil = Math.max(Date.parse(record.retainUntil), now + this.policy.sendWindowMs);
+        return { ...consumed(record), verifiedAt: new Date(now).toISOString(), retainUntil: new Date(retainUntil).toISOString() };
+      }
+
+      const attempts = record.attempts + 1;
+      if (attempts >= this.policy.maxAttempts) {
+        outcome = { verified: false, reason: 'too_many_attempts' };
+        return { ...consumed(record), attempts };
+      }
+      outcome = { verified: false, reason: 'invalid_code', attemptsRemaining: this.policy.maxAttempts - attempts };
+      return { ...record, attempts };
+    });
+
+    return outcome;
+  }
+
+  /**
+   * When the target last entered a correct code, if that was recent enough to still be on record
+   */
+  async verifiedAt(target: OtpTarget): Promise<string | undefined> {
+    return (await this.store.get(targetKey(target)))?.verifiedAt;
+  }
+
+  /**
+   * Drop the pending code without touching the send history, e.g. when it could not be delivered
+   */
+  async discard(target: OtpTarget): Promise<void> {
+    await this.store.update(targetKey(target), record => record && consumed(record));
+  }
+
+  private hash(key: string, code: string): string {
+    return createHmac('sha256', this.secret).update(`${key}\n${code}`).digest('hex');
+  }
+}
+
+function consumed(record: OtpRecord): OtpRecord {
+  const { codeHash: _codeHash, expiresAt: _expiresAt, ...rest } = record;
+  return { ...rest, attempts: 0 };
+}
+
+let sharedService: OtpService | null = null;
+
+/**
+ * The process-wide OTP service, so a code sent in one session can be checked in another.
+ * Records are kept in GHL_OTP_STORE (a JSON file) if set, otherwise in memory. A persistent store needs
+ * GHL_OTP_SECRET, since codes hashed with a per-process key stop matching after a restart.
+ */
+export function getOtpService(env: NodeJS.ProcessEnv = process.env): OtpService {
+  if (!sharedService) {
+    if (env.GHL_OTP_STORE && !env.GHL_OTP_SECRET) {
+      throw new Error('GHL_OTP_SECRET environment variable is required when GHL_OTP_STORE is set');
+    }
+    const store = env.GHL_OTP_STORE ? new JsonFileOtpStore(env.GHL_OTP_STORE) : new InMemoryOtpStore();
+    sharedService = new OtpService(store, env.GHL_OTP_SECRET, otpPolicyFromEnv(env));
+  }
+  return sharedService;
+}
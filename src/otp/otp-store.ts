@@ -0,0 +1,107 @@
+/**
+ * OTP Store
+ * Pending verification codes and their send history, one record per location, contact and channel.
+ * Only a keyed hash of each code is stored.
+ */
+
+import { JsonFileStore } from '../storage/json-file-store.js';
+
+/**
+ * Verification state of one contact on one channel
+ */
+export interface OtpRecord {
+  /** locationId:contactId:channel */
+  key: string;
+  /** HMAC of the pending code; absent once it was used, expired or locked by failed attempts */
+  codeHash?: string;
+  expiresAt?: string;
+  /** Wrong codes entered for the pending code */
+  attempts: number;
+  /** When codes were sent within the rate-limit window, oldest first */
+  sentAt: string[];
+  /** When a code was last entered correctly; cleared when a new code is issued */
+  verifiedAt?: string;
+  /** The record can be dropped after this: its code has expired and its sends left the window */
+  retainUntil: string;
+}
+
+/**
+ * Storage for OTP records. update is atomic per store, so concurrent attempts cannot both pass the attempt limit.
+ */
+export interface OtpStore {
+  get(key: string): Promise<OtpRecord | undefined>;
+  /** Replace the record with what change returns; undefined deletes it. Errors thrown by change leave it as it was. */
+  update(key: string, change: (record: OtpRecord | undefined) => OtpRecord | undefined): Promise<OtpRecord | undefined>;
+}
+
+function isRetained(record: OtpRecord, now: number): boolean {
+  return Date.parse(record.retainUntil) > now;
+}
+
+/**
+ * OTP records in process memory; pending codes are lost on restart
+ */
+export class InMemoryOtpStore implements OtpStore {
+  private records: Map<string, OtpRecord> = new Map();
+
+  constructor(private now: () => number = Date.now) {}
+
+  async get(key: string): Promise<OtpRecord | undefined> {
+    return this.read(key);
+  }
+
+  async update(key: string, change: (record: OtpRecord | undefined) => OtpRecord | undefined): Promise<OtpRecord | undefined> {
+    // Read and write without awaiting in between, so updates of the same key cannot interleave
+    const next = change(this.read(key));
+    this.prune();
+    if (next) {
+      this.records.set(key, structuredClone(next));
+    } else {
+      this.records.delete(key);
+    }
+    return next;
+  }
+
+  private read(key: string): OtpRecord | undefined {
+    const record = this.records.get(key);
+    return record && isRetained(record, this.now()) ? structuredClone(record) : undefined;
+  }
+
+  private prune(): void {
+    const now = this.now();
+    for (const [key, record] of this.records) {
+      if (!isRetained(record, now)) this.records.delete(key);
+    }
+  }
+}
+
+/**
+ * OTP records in a single JSON file (mode 0600), so pending codes and rate limits survive a restart.
+ * Writes are serialized and atomic; records past retainUntil are dropped on write.
+ */
+export class JsonFileOtpStore implements OtpStore {
+  private file: JsonFileStore<OtpRecord>;
+
+  constructor(filePath: string, private now: () => number = Date.now) {
+    this.file = new JsonFileStore(filePath, 'records', {
+      prune: records => records.filter(record => isRetained(record, this.now()))
+    });
+  }
+
+  async get(key: string): Promise<OtpRecord | undefined> {
+    const record = (await this.file.load()).find(entry => entry.key === key);
+    return record && isRetained(record, this.now()) ? structuredClone(record) : undefined;
+  }
+
+  async update(key: string, change: (record: OtpRecord | undefined) => OtpRecord | undefined): Promise<OtpRecord | undefined> {
+    return this.file.mutate(records => {
+      const index = records.findIndex(entry => entry.key === key);
+      const current = index >= 0 && isRetained(records[index], this.now()) ? structuredClone(records[index]) : undefined;
+      const next = change(current);
+
+      if (index >= 0) records.splice(index, 1);
+      if (next) records.push(structuredClone(next));
+      return next;
+    });
+  }
+}
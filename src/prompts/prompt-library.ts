@@ -0,0 +1,195 @@
+/**
+ * Prompt Library
+ * Curated MCP prompts for common CRM workflows. The prompts are declared in prompts.json, so adding one
+ * needs no TypeScript: a template with {{argument}} placeholders, the ghl:// resources to embed and the tools to suggest.
+ */
+
+import {
+  ErrorCode,
+  GetPromptResult,
+  McpError,
+  Prompt,
+  PromptMessage
+} from '@modelcontextprotocol/sdk/types.js';
+import promptFile from './prompts.json';
+import type { ResourceRegistry } from '../resources/ghl-resources.js';
+import type { ToolRegistry } from '../tools/tool-registry.js';
+
+/**
+ * A prompt argument. Clients send every argument as a string; `default` fills in optional ones.
+ */
+export interface PromptArgumentDefinition {
+  name: string;
+  description?: string;
+  required?: boolean;
+  default?: string;
+}
+
+/**
+ * A prompt as declared in prompts.json. `template` may be split into lines for readability.
+ * `resources` are URI templates using the same placeholders; each is read and embedded when the prompt is requested.
+ */
+export interface PromptDefinition {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: PromptArgumentDefinition[];
+  resources?: string[];
+  tools?: string[];
+  template: string | string[];
+}
+
+export const PROMPT_DEFINITIONS: PromptDefinition[] = promptFile.prompts;
+
+// Placeholders every template may use without declaring them
+const BUILT_IN_VARIABLES = ['today', 'tomorrow', 'dayAfterTomorrow'];
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+/**
+ * Values of the built-in placeholders: dates as YYYY-MM-DD in UTC
+ */
+export function builtInVariables(now: Date = new Date()): Record<string, string> {
+  const day = (offset: number) => new Date(now.getTime() + offset * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  return { today: day(0), tomorrow: day(1), dayAfterTomorrow: day(2) };
+}
+
+/**
+ * Replace {{name}} placeholders with their values, optionally URI-encoding them
+ */
+export function renderTemplate(template: string, values: Record<string, string>, encode = false): string {
+  return template.replace(PLACEHOLDER, (placeholder, name: string) => {
+    const value = values[name];
+    if (value === undefined) return placeholder;
+    return encode ? encodeURIComponent(value) : value;
+  });
+}
+
+function templateText(definition: PromptDefinition): string {
+  return Array.isArray(definition.template) ? definition.template.join('\n') : definition.template;
+}
+
+/**
+ * Throw if a definition is malformed: duplicate names, or placeholders that are neither arguments nor built in
+ */
+export function validatePromptDefinitions(definitions: PromptDefinition[]): void {
+  const names = new Set<string>();
+  for (const definition of definitions) {
+    if (!definition.name || names.has(definition.name)) {
+      throw new Error(`Prompt names must be unique and non-empty, got "${definition.name}"`);
+    }
+    names.add(definition.name);
+
+    const known = new Set([...BUILT_IN_VARIABLES, ...(definition.arguments || []).map(argument => argument.name)]);
+    const texts = [templateText(definition), ...(definition.resources || [])];
+    const unknown = texts.flatMap(text => Array.from(text.matchAll(PLACEHOLDER), match => match[1]))
+      .filter(name => !known.has(name));
+    if (unknown.length > 0) {
+      throw new Error(`Prompt "${definition.name}" uses undeclared placeholders: ${Array.from(new Set(unknown)).join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Prompt Library class
+ * Lists prompts and renders them for one connection. Prompts whose tools the policy denies entirely are hidden,
+ * and only permitted tools are suggested.
+ */
+export class PromptLibrary {
+  private prompts: Map<string, PromptDefinition> = new Map();
+
+  constructor(
+    definitions: PromptDefinition[],
+    private resources?: Pick<ResourceRegistry, 'read'>,
+    private isToolAllowed: (toolName: string) => boolean = () => true
+  ) {
+    validatePromptDefinitions(definitions);
+    definitions.forEach(definition => this.prompts.set(definition.name, definition));
+  }
+
+  private isAvailable(definition: PromptDefinition): boolean {
+    return !definition.tools?.length || definition.tools.some(tool => this.isToolAllowed(tool));
+  }
+
+  /**
+   * Prompts the caller can use, for prompts/list
+   */
+  list(): Prompt[] {
+    return Array.from(this.prompts.values())
+      .filter(definition => this.isAvailable(definition))
+      .map(definition => ({
+        name: definition.name,
+        ...(definition.title && { title: definition.title }),
+        ...(definition.description && { description: definition.description }),
+        arguments: (definition.arguments || []).map(argument => ({
+          name: argument.name,
+          ...(argument.description && { description: argument.description }),
+          required: argument.required === true
+        }))
+      }));
+  }
+
+  /**
+   * Render a prompt: its resources embedded first, then the instructions with the tools to use.
+   * A resource that cannot be read is replaced by a note, so one missing record does not break the prompt.
+   */
+  async get(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+    const definition = this.prompts.get(name);
+    if (!definition || !this.isAvailable(definition)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const declared = definition.arguments || [];
+    const missing = declared.filter(argument => argument.required && !args[argument.name]).map(argument => argument.name);
+    if (missing.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required arguments for prompt "${name}": ${missing.join(', ')}`);
+    }
+
+    const values: Record<string, string> = { ...builtInVariables() };
+    for (const argument of declared) {
+      const value = args[argument.name] || argument.default;
+      if (value !== undefined) values[argument.name] = value;
+    }
+
+    const messages: PromptMessage[] = [];
+    for (const uriTemplate of definition.resources || []) {
+      const uri = renderTemplate(uriTemplate, values, true);
+      messages.push(await this.embedResource(uri));
+    }
+
+    const tools = (definition.tools || []).filter(tool => this.isToolAllowed(tool));
+    const instructions = renderTemplate(templateText(definition), values);
+    messages.push({
+      role: 'user',
+      content: {
+        type: 'text',
+        text: tools.length > 0 ? `${instructions}\n\nUse these tools: ${tools.join(', ')}` : instructions
+      }
+    });
+
+    return {
+      ...(definition.description && { description: definition.description }),
+      messages
+    };
+  }
+
+  private async embedResource(uri: string): Promise<PromptMessage> {
+    try {
+      if (!this.resources) {
+        throw new Error('resources are not available');
+      }
+      const { contents } = await this.resources.read(uri);
+      return { role: 'user', content: { type: 'resource', resource: contents[0] } };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return { role: 'user', content: { type: 'text', text: `(Could not load ${uri}: ${reason})` } };
+    }
+  }
+}
+
+/**
+ * Create the prompt library for a connection, embedding its resources and scoped by its tool policy
+ */
+export function createPromptLibrary(resources: ResourceRegistry, tools: ToolRegistry): PromptLibrary {
+  return new PromptLibrary(PROMPT_DEFINITIONS, resources, toolName => tools.isAllowed(toolName));
+}
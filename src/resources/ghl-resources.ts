@@ -0,0 +1,346 @@
+/**
+ * GoHighLevel MCP Resources
+ * CRM records exposed as read-only `ghl://` resources, so clients can attach them as context without spending tool calls.
+ * Each resource is backed by a read tool and is only listed and readable when the caller's policy allows that tool.
+ */
+
+import {
+  ErrorCode,
+  McpError,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate
+} from '@modelcontextprotocol/sdk/types.js';
+import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { GHLApiError } from '../clients/ghl-api-error.js';
+import { collect } from '../clients/paginator.js';
+import { GHL_ERROR_CODES, TOOL_PERMISSION_DENIED_CODE, describeApiError } from '../tools/tool-errors.js';
+import { ToolPermissionError } from '../tools/tool-permissions.js';
+import type { ToolRegistry } from '../tools/tool-registry.js';
+
+export const RESOURCE_MIME_TYPE = 'application/json';
+
+// Contacts and conversations listed by resources/list; the rest are reachable through the templates
+export const RESOURCE_LIST_LIMIT = 20;
+
+// Range of ghl://calendars/{calendarId}/events when the URI has no `to`
+const DEFAULT_EVENT_RANGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Thrown when a URI matches no resource template, or the record it names does not exist
+ */
+export class ResourceNotFoundError extends Error {
+  constructor(public readonly uri: string, message: string = `Resource not found: ${uri}`) {
+    super(message);
+    this.name = 'ResourceNotFoundError';
+  }
+}
+
+/**
+ * Variables taken from the URI path, plus its query string
+ */
+interface ResourceRequest {
+  uri: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+}
+
+/**
+ * A kind of resource: its template for discovery, the tool whose permission it shares,
+ * an optional lister for resources/list and the reader for resources/read
+ */
+interface ResourceType {
+  template: ResourceTemplate;
+  toolName: string;
+  list?: (client: GHLApiClient) => Promise<Resource[]>;
+  read: (client: GHLApiClient, request: ResourceRequest) => Promise<unknown>;
+}
+
+interface CompiledResourceType extends ResourceType {
+  pattern: RegExp;
+  variables: string[];
+}
+
+/**
+ * Compile the path of a URI template (`ghl://contacts/{contactId}`) into a pattern; a `{?from,to}` query part
+ * is only documentation, the query string is read separately
+ */
+function compile(type: ResourceType): CompiledResourceType {
+  const path = type.template.uriTemplate.replace(/\{\?[^}]*\}$/, '');
+  const variables: string[] = [];
+  const source = path.split(/(\{\w+\})/).map(part => {
+    const variable = /^\{(\w+)\}$/.exec(part);
+    if (variable) {
+      variables.push(variable[1]);
+      return '([^/?#]+)';
+    }
+    return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }).join('');
+  return { ...type, pattern: new RegExp(`^${source}(?:\\?(.*))?$`), variables };
+}
+
+function template(uriTemplate: string, name: string, title: string, description: string): ResourceTemplate {
+  return { uriTemplate, name, title, description, mimeType: RESOURCE_MIME_TYPE };
+}
+
+function resource(uri: string, name: string, description?: string): Resource {
+  return { uri, name, mimeType: RESOURCE_MIME_TYPE, ...(description && { description }) };
+}
+
+function requireData<T>(uri: string, data: T | undefined): T {
+  if (data === undefined || data === null) {
+    throw new ResourceNotFoundError(uri);
+  }
+  return data;
+}
+
+/**
+ * Epoch milliseconds from a `from`/`to` query value: milliseconds or an ISO date
+ */
+function toMilliseconds(name: string, value: string): number {
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (isNaN(time)) {
+    throw new McpError(ErrorCode.InvalidParams, `${name} must be an ISO date or epoch milliseconds, got "${value}"`);
+  }
+  return time;
+}
+
+/**
+ * Find a blog post by id. GHL has no endpoint for a single post, so the posts of each blog are paged through.
+ */
+async function findBlogPost(client: GHLApiClient, uri: string, postId: string): Promise<unknown> {
+  const sites = await client.getBlogSites({ locationId: client.getConfig().locationId, skip: 0, limit: 100 });
+  for (const site of sites.data?.data || []) {
+    for await (const post of client.iterateBlogPosts(site._id)) {
+      if (post._id === postId) {
+        return { blogId: site._id, blogName: site.name, ...post };
+      }
+    }
+  }
+  throw new ResourceNotFoundError(uri, `Blog post not found: ${postId}`);
+}
+
+const RESOURCE_DEFINITIONS: ResourceType[] = [
+  {
+    template: template('ghl://contacts/{contactId}', 'contact', 'Contact', 'A contact with its details, tags and custom fields'),
+    toolName: 'get_contact',
+    list: async (client) => {
+      const { items } = await collect(client.iterateContacts({}, { pageSize: RESOURCE_LIST_LIMIT, maxItems: RESOURCE_LIST_LIMIT }));
+      return items.map(contact => resource(
+        `ghl://contacts/${contact.id}`,
+        contact.name || [contact.firstName, contact.lastName].filter(Boolean).join(' ') || contact.email || contact.phone || 'Unnamed contact',
+        'Contact'
+      ));
+    },
+    read: async (client, { uri, params }) => requireData(uri, (await client.getContact(params.contactId)).data)
+  },
+  {
+    template: template('ghl://conversations/{conversationId}', 'conversation', 'Conversation', 'A conversation with its contact and last message'),
+    toolName: 'get_conversation',
+    read: async (client, { uri, params }) => requireData(uri, (await client.getConversation(params.conversationId)).data)
+  },
+  {
+    template: template(
+      'ghl://conversations/{conversationId}/messages',
+      'conversation-messages',
+      'Conversation Messages',
+      'The latest messages of a conversation'
+    ),
+    toolName: 'get_conversation',
+    list: async (client) => {
+      const { items } = await collect(client.iterateConversations({}, { pageSize: RESOURCE_LIST_LIMIT, maxItems: RESOURCE_LIST_LIMIT }));
+      return items.map(conversation => resource(
+        `ghl://conversations/${conversation.id}/messages`,
+        `Messages with ${conversation.fullName || conversation.contactName || conversation.email || conversation.phone || conversation.contactId}`,
+        'Conversation messages'
+      ));
+    },
+    read: async (client, { uri, params }) =>
+      requireData(uri, (await client.getConversationMessages(params.conversationId)).data)
+  },
+  {
+    template: template('ghl://pipelines', 'pipelines', 'Pipelines', 'Every opportunity pipeline of the location with its stages'),
+    toolName: 'get_pipelines',
+    list: async () => [resource('ghl://pipelines', 'Pipelines', 'Opportunity pipelines and stages')],
+    read: async (client, { uri }) => requireData(uri, (await client.getPipelines()).data)
+  },
+  {
+    template: template(
+      'ghl://calendars/{calendarId}/events{?from,to}',
+      'calendar-events',
+      'Calendar Events',
+      'Events of a calendar between from and to (ISO dates or epoch milliseconds; default: the next 30 days)'
+    ),
+    toolName: 'get_calendar_events',
+    list: async (client) => {
+      const calendars = (await client.getCalendars()).data?.calendars || [];
+      return calendars.map(calendar => resource(
+        `ghl://calendars/${calendar.id}/events`,
+        `${calendar.name} events`,
+        'Calendar events for the next 30 days'
+      ));
+    },
+    read: async (client, { uri, params, query }) => {
+      const from = query.get('from') ? toMilliseconds('from', query.get('from')!) : Date.now();
+      const to = query.get('to') ? toMilliseconds('to', query.get('to')!) : from + DEFAULT_EVENT_RANGE_MS;
+      const response = await client.getCalendarEvents({
+        locationId: client.getConfig().locationId,
+        calendarId: params.calendarId,
+        startTime: String(from),
+        endTime: String(to)
+      });
+      const data = requireData(uri, response.data);
+      return {
+        calendarId: params.calendarId,
+        from: new Date(from).toISOString(),
+        to: new Date(to).toISOString(),
+        events: data.events || []
+      };
+    }
+  },
+  {
+    template: template(
+      'ghl://objects/{schemaKey}/records/{recordId}',
+      'object-record',
+      'Object Record',
+      'A record of a custom or standard object, e.g. ghl://objects/custom_objects.pets/records/{recordId}'
+    ),
+    toolName: 'get_object_record',
+    read: async (client, { uri, params }) =>
+      requireData(uri, (await client.getObjectRecord(params.schemaKey, params.recordId)).data)
+  },
+  {
+    template: template('ghl://blog/posts/{postId}', 'blog-post', 'Blog Post', 'A blog post from any blog of the location'),
+    toolName: 'get_blog_posts',
+    read: async (client, { uri, params }) => findBlogPost(client, uri, params.postId)
+  }
+];
+
+const RESOURCE_TYPES = RESOURCE_DEFINITIONS.map(compile);
+
+/**
+ * Resource Registry class
+ * Lists and reads `ghl://` resources through one user's API client, hiding those whose tool the policy denies.
+ * It is created per connection, so it also holds that connection's subscriptions.
+ */
+export class ResourceRegistry {
+  private subscriptions: Set<string> = new Set();
+
+  constructor(
+    private ghlClient: GHLApiClient,
+    private isAllowed: (toolName: string) => boolean = () => true
+  ) {}
+
+  private allowedTypes(): CompiledResourceType[] {
+    return RESOURCE_TYPES.filter(type => this.isAllowed(type.toolName));
+  }
+
+  /**
+   * Templates of every resource the caller may read
+   */
+  getTemplates(): ResourceTemplate[] {
+    return this.allowedTypes().map(type => type.template);
+  }
+
+  /**
+   * Concrete resources to browse: recent contacts and conversations, the pipelines and each calendar.
+   * A lister that fails is logged and left out, so one unavailable API does not hide the rest.
+   */
+  async listResources(): Promise<Resource[]> {
+    const listers = this.allowedTypes().filter(type => type.list);
+    const results = await Promise.allSettled(listers.map(type => type.list!(this.ghlClient)));
+
+    return results.flatMap((result, index) => {
+      if (result.status === 'fulfilled') {
+        return result.value;
+      }
+      process.stderr.write(`[GHL MCP] Failed to list ${listers[index].template.name} resources: ${result.reason}\n`);
+      return [];
+    });
+  }
+
+  /**
+   * Read a resource as JSON. Throws ResourceNotFoundError for unknown URIs and ToolPermissionError if the policy denies it.
+   */
+  async read(uri: string): Promise<ReadResourceResult> {
+    const { type, request } = this.resolve(uri);
+    const data = await type.read(this.ghlClient, request);
+    return {
+      contents: [{ uri, mimeType: RESOURCE_MIME_TYPE, text: JSON.stringify(data, null, 2) }]
+    };
+  }
+
+  /**
+   * Subscribe to updates of a resource. Throws like read if the URI is unknown or not permitted.
+   */
+  subscribe(uri: string): void {
+    this.resolve(uri);
+    this.subscriptions.add(uri);
+  }
+
+  /**
+   * Stop updates of a resource; unknown URIs are ignored
+   */
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+  }
+
+  /**
+   * The subscribed URIs affected by changes to the given resources. Query strings are ignored,
+   * so a subscription to `ghl://calendars/c1/events?from=...` hears about every change to that calendar.
+   */
+  subscribedTo(changed: string[]): string[] {
+    const paths = new Set(changed.map(withoutQuery));
+    return Array.from(this.subscriptions).filter(uri => paths.has(withoutQuery(uri)));
+  }
+
+  private resolve(uri: string): { type: CompiledResourceType; request: ResourceRequest } {
+    for (const type of RESOURCE_TYPES) {
+      const match = type.pattern.exec(uri);
+      if (!match) continue;
+
+      if (!this.isAllowed(type.toolName)) {
+        throw new ToolPermissionError(type.toolName);
+      }
+
+      const params: Record<string, string> = {};
+      type.variables.forEach((variable, index) => {
+        params[variable] = decodeURIComponent(match[index + 1]);
+      });
+      const query = new URLSearchParams(match[type.variables.length + 1] || '');
+      return { type, request: { uri, params, query } };
+    }
+    throw new ResourceNotFoundError(uri);
+  }
+}
+
+function withoutQuery(uri: string): string {
+  const query = uri.indexOf('?');
+  return query === -1 ? uri : uri.slice(0, query);
+}
+
+/**
+ * Create the resources for a user's API client, scoped by the same policy as their tools
+ */
+export function createResourceRegistry(ghlClient: GHLApiClient, tools: ToolRegistry): ResourceRegistry {
+  return new ResourceRegistry(ghlClient, toolName => tools.isAllowed(toolName));
+}
+
+/**
+ * Turn an error from listing or reading resources into the JSON-RPC error sent to the client
+ */
+export function mapResourceError(error: unknown): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+  if (error instanceof ResourceNotFoundError) {
+    return new McpError(GHL_ERROR_CODES.not_found, error.message, { uri: error.uri });
+  }
+  if (error instanceof ToolPermissionError) {
+    return new McpError(TOOL_PERMISSION_DENIED_CODE, error.message, { type: 'permission_denied', tool: error.toolName });
+  }
+  if (error instanceof GHLApiError) {
+    return new McpError(GHL_ERROR_CODES[error.type], error.message, describeApiError(error));
+  }
+  return new McpError(ErrorCode.InternalError, error instanceof Error ? error.message : String(error));
+}
@@ -0,0 +1,62 @@
+/**
+ * GHL Webhook Events
+ * Verifies webhooks posted by GoHighLevel and works out which ghl:// resources an event changed,
+ * so subscribed sessions can be sent notifications/resources/updated
+ */
+
+import { createVerify } from 'node:crypto';
+import { GHLWebhookEvent } from '../types/ghl-types.js';
+
+/**
+ * Header carrying the base64 RSA-SHA256 signature of the raw webhook body
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-wh-signature';
+
+/**
+ * Public key from GHL_WEBHOOK_PUBLIC_KEY (PEM; `\n` escapes allowed for single-line env files), or undefined if unset
+ */
+export function webhookPublicKeyFromEnv(env: NodeJS.ProcessEnv = process.env): string | undefined {
+  return env.GHL_WEBHOOK_PUBLIC_KEY ? env.GHL_WEBHOOK_PUBLIC_KEY.replace(/\\n/g, '\n') : undefined;
+}
+
+/**
+ * Check the signature GHL sends with every webhook against its public key
+ */
+export function verifyWebhookSignature(rawBody: Buffer | string, signature: string | undefined, publicKey: string): boolean {
+  if (!signature) {
+    return false;
+  }
+  try {
+    const verifier = createVerify('sha256');
+    verifier.update(rawBody);
+    verifier.end();
+    return verifier.verify(publicKey, signature, 'base64');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resource URIs whose content an event changed. Contact resources also change with the contact's
+ * opportunities and appointments, so clients watching a contact hear about both.
+ */
+export function webhookResourceUris(event: GHLWebhookEvent): string[] {
+  const uris: string[] = [];
+  const contact = (id: string | undefined) => id && uris.push(`ghl://contacts/${id}`);
+
+  if (event.type.startsWith('Contact')) {
+    contact(event.id);
+  } else if (event.type === 'InboundMessage' || event.type === 'OutboundMessage') {
+    if (event.conversationId) {
+      uris.push(`ghl://conversations/${event.conversationId}`, `ghl://conversations/${event.conversationId}/messages`);
+    }
+  } else if (event.type.startsWith('Opportunity')) {
+    contact(event.contactId);
+  } else if (event.type.startsWith('Appointment')) {
+    if (event.appointment?.calendarId) {
+      uris.push(`ghl://calendars/${event.appointment.calendarId}/events`);
+    }
+    contact(event.appointment?.contactId);
+  }
+  return uris;
+}
@@ -8,34 +8,26 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
-  McpError
+  McpError,
+  ReadResourceRequestSchema
 } from '@modelcontextprotocol/sdk/types.js';
 import * as dotenv from 'dotenv';
 
 import { GHLApiClient } from './clients/ghl-api-client';
-import { ContactTools } from './tools/contact-tools.js';
-import { ConversationTools } from './tools/conversation-tools.js';
-import { BlogTools } from './tools/blog-tools.js';
-import { OpportunityTools } from './tools/opportunity-tools.js';
-import { CalendarTools } from './tools/calendar-tools.js';
-import { EmailTools } from './tools/email-tools.js';
-import { LocationTools } from './tools/location-tools.js';
-import { EmailISVTools } from './tools/email-isv-tools.js';
-import { SocialMediaTools } from './tools/social-media-tools.js';
-import { MediaTools } from './tools/media-tools.js';
-import { InactivityTools } from './tools/inactivity-tools.js';
-import { UserTools } from './tools/user-tools.js';
-import { ObjectTools } from './tools/object-tools.js';
-import { AssociationTools } from './tools/association-tools.js';
-import { CustomFieldV2Tools } from './tools/custom-field-v2-tools.js';
-import { WorkflowTools } from './tools/workflow-tools.js';
-import { SurveyTools } from './tools/survey-tools.js';
-import { StoreTools } from './tools/store-tools.js';
+import { createToolRegistry, ToolRegistry } from './tools/tool-registry.js';
+import { mapToolError } from './tools/tool-errors.js';
+import { toolCallContext } from './tools/tool-context.js';
+import { toolPolicyFromEnv } from './tools/tool-permissions.js';
+import { getJobRunner } from './jobs/job-runner.js';
+import { hashToken } from './sessions/session-manager.js';
+import { createResourceRegistry, mapResourceError, ResourceRegistry } from './resources/ghl-resources.js';
+import { createPromptLibrary, PromptLibrary } from './prompts/prompt-library.js';
 import { GHLConfig } from './types/ghl-types';
-import { ProductsTools } from './tools/products-tools.js';
-import { PaymentsTools } from './tools/payments-tools.js';
-import { InvoicesTools } from './tools/invoices-tools.js';
 
 // Load environment variables
 dotenv.config();
@@ -46,27 +38,9 @@ dotenv.config();
 class GHLMCPServer {
   private server: Server;
   private ghlClient: GHLApiClient;
-  private contactTools: ContactTools;
-  private conversationTools: ConversationTools;
-  private blogTools: BlogTools;
-  private opportunityTools: OpportunityTools;
-  private calendarTools: CalendarTools;
-  private emailTools: EmailTools;
-  private locationTools: LocationTools;
-  private emailISVTools: EmailISVTools;
-  private socialMediaTools: SocialMediaTools;
-  private mediaTools: MediaTools;
-  private inactivityTools: InactivityTools;
-  private userTools: UserTools;
-  private objectTools: ObjectTools;
-  private associationTools: AssociationTools;
-  private customFieldV2Tools: CustomFieldV2Tools;
-  private workflowTools: WorkflowTools;
-  private surveyTools: SurveyTools;
-  private storeTools: StoreTools;
-  private productsTools: ProductsTools;
-  private paymentsTools: PaymentsTools;
-  private invoicesTools: InvoicesTools;
+  private toolRegistry: ToolRegistry;
+  private resourceRegistry: ResourceRegistry;
+  private promptLibrary: PromptLibrary;
 
   constructor() {
     // Initialize MCP server with capabilities
@@ -78,6 +52,8 @@ class GHLMCPServer {
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
       }
     );
@@ -85,28 +61,18 @@ class GHLMCPServer {
     // Initialize GHL API client
     this.ghlClient = this.initializeGHLClient();
     
-    // Initialize tools
-    this.contactTools = new ContactTools(this.ghlClient);
-    this.conversationTools = new ConversationTools(this.ghlClient);
-    this.blogTools = new BlogTools(this.ghlClient);
-    this.opportunityTools = new OpportunityTools(this.ghlClient);
-    this.calendarTools = new CalendarTools(this.ghlClient);
-    this.emailTools = new EmailTools(this.ghlClient);
-    this.locationTools = new LocationTools(this.ghlClient);
-    this.emailISVTools = new EmailISVTools(this.ghlClient);
-    this.socialMediaTools = new SocialMediaTools(this.ghlClient);
-    this.mediaTools = new MediaTools(this.ghlClient);
-    this.inactivityTools = new InactivityTools(this.ghlClient);
-    this.userTools = new UserTools(this.ghlClient);
-    this.objectTools = new ObjectTools(this.ghlClient);
-    this.associationTools = new AssociationTools(this.ghlClient);
-    this.customFieldV2Tools = new CustomFieldV2Tools(this.ghlClient);
-    this.workflowTools = new WorkflowTools(this.ghlClient);
-    this.surveyTools = new SurveyTools(this.ghlClient);
-    this.storeTools = new StoreTools(this.ghlClient);
-    this.productsTools = new ProductsTools(this.ghlClient);
-    this.paymentsTools = new PaymentsTools(this.ghlClient);
-    this.invoicesTools = new InvoicesTools(this.ghlClient);
+    // Register every tool against the shared client, scoped by MCP_TOOL_PERMISSIONS and READ_ONLY
+    this.toolRegistry = createToolRegistry(this.ghlClient, toolPolicyFromEnv());
+
+    // Background jobs started with this server's credential run through this registry, including any a restart interrupted
+    const { locationId, accessToken } = this.ghlClient.getConfig();
+    getJobRunner().attach(locationId, `ghl-token:${hashToken(accessToken)}`, this.toolRegistry);
+
+    // Expose CRM records as ghl:// resources, hidden along with the read tool behind each of them
+    this.resourceRegistry = createResourceRegistry(this.ghlClient, this.toolRegistry);
+
+    // Curated workflow prompts from src/prompts/prompts.json
+    this.promptLibrary = createPromptLibrary(this.resourceRegistry, this.toolRegistry);
 
     // Setup MCP handlers
     this.setupHandlers();
@@ -150,73 +116,13 @@ class GHLMCPServer {
       process.stderr.write('[GHL MCP] Listing available tools...\n');
       
       try {
-        const inactivityToolDefinitions = this.inactivityTools.getToolDefinitions();
-        const userToolDefinitions = this.userTools.getToolDefinitions();
-        const contactToolDefinitions = this.contactTools.getToolDefinitions();
-        const conversationToolDefinitions = this.conversationTools.getToolDefinitions();
-        const blogToolDefinitions = this.blogTools.getToolDefinitions();
-        const opportunityToolDefinitions = this.opportunityTools.getToolDefinitions();
-        const calendarToolDefinitions = this.calendarTools.getToolDefinitions();
-        const emailToolDefinitions = this.emailTools.getToolDefinitions();
-        const locationToolDefinitions = this.locationTools.getToolDefinitions();
-        const emailISVToolDefinitions = this.emailISVTools.getToolDefinitions();
-        const socialMediaToolDefinitions = this.socialMediaTools.getTools();
-        const mediaToolDefinitions = this.mediaTools.getToolDefinitions();
-        const objectToolDefinitions = this.objectTools.getToolDefinitions();
-        const associationToolDefinitions = this.associationTools.getTools();
-        const customFieldV2ToolDefinitions = this.customFieldV2Tools.getTools();
-        const workflowToolDefinitions = this.workflowTools.getTools();
-        const surveyToolDefinitions = this.surveyTools.getTools();
-        const storeToolDefinitions = this.storeTools.getTools();
-        const productsToolDefinitions = this.productsTools.getTools();
-        const paymentsToolDefinitions = this.paymentsTools.getTools();
-        const invoicesToolDefinitions = this.invoicesTools.getTools();
-        
-        const allTools = [
-          ...inactivityToolDefinitions,
-          ...userToolDefinitions,
-          ...contactToolDefinitions,
-          ...conversationToolDefinitions,
-          ...blogToolDefinitions,
-          ...opportunityToolDefinitions,
-          ...calendarToolDefinitions,
-          ...emailToolDefinitions,
-          ...locationToolDefinitions,
-          ...emailISVToolDefinitions,
-          ...socialMediaToolDefinitions,
-          ...mediaToolDefinitions,
-          ...objectToolDefinitions,
-          ...associationToolDefinitions,
-          ...customFieldV2ToolDefinitions,
-          ...workflowToolDefinitions,
-          ...surveyToolDefinitions,
-          ...storeToolDefinitions,
-          ...productsToolDefinitions,
-          ...paymentsToolDefinitions,
-          ...invoicesToolDefinitions
-        ];
-        
+        const allTools = this.toolRegistry.getDefinitions();
+
         process.stderr.write(`[GHL MCP] Registered ${allTools.length} tools total:\n`);
-        process.stderr.write(`[GHL MCP] - ${contactToolDefinitions.length} contact tools\n`);
-        process.stderr.write(`[GHL MCP] - ${conversationToolDefinitions.length} conversation tools\n`);
-        process.stderr.write(`[GHL MCP] - ${blogToolDefinitions.length} blog tools\n`);
-        process.stderr.write(`[GHL MCP] - ${opportunityToolDefinitions.length} opportunity tools\n`);
-        process.stderr.write(`[GHL MCP] - ${calendarToolDefinitions.length} calendar tools\n`);
-        process.stderr.write(`[GHL MCP] - ${emailToolDefinitions.length} email tools\n`);
-        process.stderr.write(`[GHL MCP] - ${locationToolDefinitions.length} location tools\n`);
-        process.stderr.write(`[GHL MCP] - ${emailISVToolDefinitions.length} email ISV tools\n`);
-        process.stderr.write(`[GHL MCP] - ${socialMediaToolDefinitions.length} social media tools\n`);
-        process.stderr.write(`[GHL MCP] - ${mediaToolDefinitions.length} media tools\n`);
-        process.stderr.write(`[GHL MCP] - ${objectToolDefinitions.length} object tools\n`);
-        process.stderr.write(`[GHL MCP] - ${associationToolDefinitions.length} association tools\n`);
-        process.stderr.write(`[GHL MCP] - ${customFieldV2ToolDefinitions.length} custom field V2 tools\n`);
-        process.stderr.write(`[GHL MCP] - ${workflowToolDefinitions.length} workflow tools\n`);
-        process.stderr.write(`[GHL MCP] - ${surveyToolDefinitions.length} survey tools\n`);
-        process.stderr.write(`[GHL MCP] - ${storeToolDefinitions.length} store tools\n`);
-        process.stderr.write(`[GHL MCP] - ${productsToolDefinitions.length} products tools\n`);
-        process.stderr.write(`[GHL MCP] - ${paymentsToolDefinitions.length} payments tools\n`);
-        process.stderr.write(`[GHL MCP] - ${invoicesToolDefinitions.length} invoices tools\n`);
-        
+        for (const [category, count] of Object.entries(this.toolRegistry.getCategoryCounts())) {
+          process.stderr.write(`[GHL MCP] - ${count} ${category} tools\n`);
+        }
+
         return {
           tools: allTools
         };
@@ -230,410 +136,70 @@ class GHLMCPServer {
     });
 
     // Handle tool execution requests
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
       
       process.stderr.write(`[GHL MCP] Executing tool: ${name}\n`);
       process.stderr.write(`[GHL MCP] Arguments: ${JSON.stringify(args, null, 2)}\n`);
 
+      if (!this.toolRegistry.has(name)) {
+        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+      }
+
       try {
-        let result: any;
-
-        // Route to appropriate tool handler
-        if (this.isContactTool(name)) {
-          result = await this.contactTools.executeTool(name, args || {});
-        } else if (this.isConversationTool(name)) {
-          result = await this.conversationTools.executeTool(name, args || {});
-        } else if (this.isBlogTool(name)) {
-          result = await this.blogTools.executeTool(name, args || {});
-        } else if (this.isOpportunityTool(name)) {
-          result = await this.opportunityTools.executeTool(name, args || {});
-        } else if (this.isCalendarTool(name)) {
-          result = await this.calendarTools.executeTool(name, args || {});
-        } else if (this.isEmailTool(name)) {
-          result = await this.emailTools.executeTool(name, args || {});
-        } else if (this.isLocationTool(name)) {
-          result = await this.locationTools.executeTool(name, args || {});
-        } else if (this.isEmailISVTool(name)) {
-          result = await this.emailISVTools.executeTool(name, args || {});
-        } else if (this.isInactivityTool(name)) {
-          result = await this.inactivityTools.executeTool(name, args || {});
-        } else if (this.isUserTool(name)) {
-          result = await this.userTools.executeTool(name, args || {});
-        } else if (this.isSocialMediaTool(name)) {
-          result = await this.socialMediaTools.executeTool(name, args || {});
-        } else if (this.isMediaTool(name)) {
-          result = await this.mediaTools.executeTool(name, args || {});
-        } else if (this.isObjectTool(name)) {
-          result = await this.objectTools.executeTool(name, args || {});
-        } else if (this.isAssociationTool(name)) {
-          result = await this.associationTools.executeAssociationTool(name, args || {});
-        } else if (this.isCustomFieldV2Tool(name)) {
-          result = await this.customFieldV2Tools.executeCustomFieldV2Tool(name, args || {});
-        } else if (this.isWorkflowTool(name)) {
-          result = await this.workflowTools.executeWorkflowTool(name, args || {});
-        } else if (this.isSurveyTool(name)) {
-          result = await this.surveyTools.executeSurveyTool(name, args || {});
-        } else if (this.isStoreTool(name)) {
-          result = await this.storeTools.executeStoreTool(name, args || {});
-        } else if (this.isProductsTool(name)) {
-          result = await this.productsTools.executeProductsTool(name, args || {});
-        } else if (this.isPaymentsTool(name)) {
-          result = await this.paymentsTools.handleToolCall(name, args || {});
-        } else if (this.isInvoicesTool(name)) {
-          result = await this.invoicesTools.handleToolCall(name, args || {});
-        } else {
-          throw new Error(`Unknown tool: ${name}`);
-        }
+        // Route to the registered tool handler, with progress notifications and cancellation
+        const result = await this.toolRegistry.call(name, args || {}, toolCallContext(extra));
         
         process.stderr.write(`[GHL MCP] Tool ${name} executed successfully\n`);
         
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2)
-            }
-          ]
-        };
+        return result;
       } catch (error) {
         console.error(`[GHL MCP] Error executing tool ${name}:`, error);
-        
-        // Determine appropriate error code
-        const errorCode = error instanceof Error && error.message.includes('404') 
-          ? ErrorCode.InvalidRequest 
-          : ErrorCode.InternalError;
-        
-        throw new McpError(
-          errorCode,
-          `Tool execution failed: ${error}`
-        );
+
+        const response = mapToolError(error);
+        if (response.kind === 'error') {
+          throw new McpError(response.code, response.message, response.data);
+        }
+        return response.result;
       }
     });
 
-    process.stderr.write('[GHL MCP] Request handlers setup complete\n');
-  }
-
-  /**
-   * Check if tool name belongs to contact tools
-   */
-  private isContactTool(toolName: string): boolean {
-    const contactToolNames = [
-      // Basic Contact Management
-      'create_contact', 'search_contacts', 'get_contact', 'update_contact',
-      'add_contact_tags', 'remove_contact_tags', 'delete_contact',
-      // Task Management
-      'get_contact_tasks', 'create_contact_task', 'get_contact_task', 'update_contact_task',
-      'delete_contact_task', 'update_task_completion',
-      // Note Management
-      'get_contact_notes', 'create_contact_note', 'get_contact_note', 'update_contact_note',
-      'delete_contact_note',
-      // Advanced Operations
-      'upsert_contact', 'get_duplicate_contact', 'get_contacts_by_business', 'get_contact_appointments',
-      // Bulk Operations
-      'bulk_update_contact_tags', 'bulk_update_contact_business',
-      // Followers Management
-      'add_contact_followers', 'remove_contact_followers',
-      // Campaign Management
-      'add_contact_to_campaign', 'remove_contact_from_campaign', 'remove_contact_from_all_campaigns',
-      // Workflow Management
-      'add_contact_to_workflow', 'remove_contact_from_workflow'
-    ];
-    return contactToolNames.includes(toolName);
-  }
-
-  /**
-   * Check if tool name belongs to conversation tools
-   */
-  private isConversationTool(toolName: string): boolean {
-    const conversationToolNames = [
-      // Basic conversation operations
-      'send_sms', 'send_email', 'search_conversations', 'get_conversation',
-      'create_conversation', 'update_conversation', 'delete_conversation', 'get_recent_messages',
-      // Message management
-      'get_email_message', 'get_message', 'upload_message_attachments', 'update_message_status',
-      // Manual message creation
-      'add_inbound_message', 'add_outbound_call',
-      // Call recordings & transcriptions
-      'get_message_recording', 'get_message_transcription', 'download_transcription',
-      // Scheduling management
-      'cancel_scheduled_message', 'cancel_scheduled_email',
-      // Live chat features
-      'live_chat_typing'
-    ];
-    return conversationToolNames.includes(toolName);
-  }
-
-  /**
-   * Check if tool name belongs to blog tools
-   */
-  private isBlogTool(toolName: string): boolean {
-    const blogToolNames = [
-      'create_blog_post', 'update_blog_post', 'get_blog_posts', 'get_blog_sites',
-      'get_blog_authors', 'get_blog_categories', 'check_url_slug'
-    ];
-    return blogToolNames.includes(toolName);
-  }
-
-  /**
-   * Check if tool name belongs to opportunity tools
-   */
-  private isOpportunityTool(toolName: string): boolean {
-    const opportunityToolNames = [
-      'search_opportunities', 'get_pipelines', 'get_opportunity', 'create_opportunity',
-      'update_opportunity_status', 'delete_opportunity', 'update_opportunity', 
-      'upsert_opportunity', 'add_opportunity_followers', 'remove_opportunity_followers'
-    ];
-    return opportunityToolNames.includes(toolName);
-  }
-
-  /**
-   * Check if tool name belongs to calendar tools
-   */
-  private isCalendarTool(toolName: string): boolean {
-    const calendarToolNames = [
-      'get_calendar_groups', 'get_calendars', 'create_calendar', 'get_calendar', 'update_calendar', 
-      'delete_calendar', 'get_calendar_events', 'get_free_slots', 'create_appointment', 
-      'get_appointment', 'update_appointment', 'delete_appointment', 'create_block_slot', 'update_block_slot'
-    ];
-    return calendarToolNames.includes(toolName);
-  }
-
-  /**
-   * Check if tool name belongs to email tools
-   */
-  private isEmailTool(toolName: string): boolean {
-    const emailToolNames = [
-      'get_email_campaigns', 'create_email_template', 'get_email_templates', 
-      'update_email_template', 'delete_email_template'
-    ];
-    return emailToolNames.includes(toolName);
-  }
-
-  /**
-   * Check if tool name belongs to location tools
-   */
-  private isLocationTool(toolName: string): boolean {
-    const locationToolNames = [
-      // Location Management
-      'search_locations', 'get_location', 'create_location', 'update_location', 'delete_location',
-      // Location Tags
-      'get_location_tags', 'create_location_tag', 'get_location_tag', 'update_location_tag', 'delete_location_tag',
-      // Location Tasks
-      'search_location_tasks',
-      // Custom Fields
-      'get_location_custom_fields', 'create_location_custom_field', 'get_location_custom_field', 
-      'update_location_custom_field', 'delete_location_custom_field',
-      // Custom Values
-      'get_location_custom_values', 'create_location_custom_value', 'get_location_custom_value',
-      'update_location_custom_value', 'delete_location_custom_value',
-      // Templates
-      'get_location_templates', 'delete_location_template',
-      // Timezones
-      'get_timezones'
-    ];
-    return locationToolNames.includes(toolName);
-  }
-
-  /**
-   * Check if tool name belongs to email ISV tools
-   */
-  private isEmailISVTool(toolName: string): boolean {
-    const emailISVToolNames = [
-      'verify_email'
-    ];
-    return emailISVToolNames.includes(toolName);
-  }
-
-  /**
-   * Check if tool name belongs to inactivity tools
-   */
-  private isInactivityTool(toolName: string): boolean {
-    const inactivityToolNames = [
-      'detect_contacts_inactivity', 'detect_opportunities_inactivity'
-    ];
-    return inactivityToolNames.includes(toolName);
-  }
-
-  /**
-   * Check if tool name belongs to user tools
-   */
-  private isUserTool(toolName: string): boolean {
-    const userToolNames = [
-      'create_user', 'search_users', 'get_user', 'update_user', 'delete_user'
-    ];
-    return userToolNames.includes(toolName);
-  }
-
-  /**
-   * Check if tool name belongs to social media tools
-   */
-  private isSocialMediaTool(toolName: string): boolean {
-    const socialMediaToolNames = [
-      // Post Management
-      'search_social_posts', 'create_social_post', 'get_social_post', 'update_social_post',
-      'delete_social_post', 'bulk_delete_social_posts',
-      // Account Management
-      'get_social_accounts', 'delete_social_account',
-      // CSV Operations
-      'upload_social_csv', 'get_csv_upload_status', 'set_csv_accounts',
-      // Categories & Tags
-      'get_social_categories', 'get_social_category', 'get_social_tags', 'get_social_tags_by_ids',
-      // OAuth Integration
-      'start_social_oauth', 'get_platform_accounts'
-    ];
-    return socialMediaToolNames.includes(toolName);
-  }
-
-  /**
-   * Check if tool name belongs to media tools
-   */
-  private isMediaTool(toolName: string): boolean {
-    const mediaToolNames = [
-      'get_media_files', 'upload_media_file', 'delete_media_file'
-    ];
-    return mediaToolNames.includes(toolName);
-  }
-
-  /**
-   * Check if tool name belongs to object tools
-   */
-  private isObjectTool(toolName: string): boolean {
-    const objectToolNames = [
-      'get_all_objects', 'create_object_schema', 'get_object_schema', 'update_object_schema',
-      'create_object_record', 'get_object_record', 'update_object_record', 'delete_object_record',
-      'search_object_records'
-    ];
-    return objectToolNames.includes(toolName);
-  }
-
-  /**
-   * Check if tool name belongs to association tools
-   */
-  private isAssociationTool(toolName: string): boolean {
-    const associationToolNames = [
-      'ghl_get_all_associations', 'ghl_create_association', 'ghl_get_association_by_id',
-      'ghl_update_association', 'ghl_delete_association', 'ghl_get_association_by_key',
-      'ghl_get_association_by_object_key', 'ghl_create_relation', 'ghl_get_relations_by_record',
-      'ghl_delete_relation'
-    ];
-    return associationToolNames.includes(toolName);
-  }
-
-  /**
-   * Check if tool name belongs to custom field V2 tools
-   */
-  private isCustomFieldV2Tool(toolName: string): boolean {
-    const customFieldV2ToolNames = [
-      'ghl_get_custom_field_by_id', 'ghl_create_custom_field', 'ghl_update_custom_field',
-      'ghl_delete_custom_field', 'ghl_get_custom_fields_by_object_key', 'ghl_create_custom_field_folder',
-      'ghl_update_custom_field_folder', 'ghl_delete_custom_field_folder'
-    ];
-    return customFieldV2ToolNames.includes(toolName);
-  }
+    // Handle resource requests
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      try {
+        return { resources: await this.resourceRegistry.listResources() };
+      } catch (error) {
+        throw mapResourceError(error);
+      }
+    });
 
-  /**
-   * Check if tool name belongs to workflow tools
-   */
-  private isWorkflowTool(toolName: string): boolean {
-    const workflowToolNames = [
-      'ghl_get_workflows'
-    ];
-    return workflowToolNames.includes(toolName);
-  }
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: this.resourceRegistry.getTemplates() };
+    });
 
-  /**
-   * Check if tool name belongs to survey tools
-   */
-  private isSurveyTool(toolName: string): boolean {
-    const surveyToolNames = [
-      'ghl_get_surveys',
-      'ghl_get_survey_submissions'
-    ];
-    return surveyToolNames.includes(toolName);
-  }
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      process.stderr.write(`[GHL MCP] Reading resource: ${request.params.uri}\n`);
 
-  /**
-   * Check if tool name belongs to store tools
-   */
-  private isStoreTool(toolName: string): boolean {
-    const storeToolNames = [
-      // Shipping Zones
-      'ghl_create_shipping_zone', 'ghl_list_shipping_zones', 'ghl_get_shipping_zone',
-      'ghl_update_shipping_zone', 'ghl_delete_shipping_zone',
-      // Shipping Rates
-      'ghl_get_available_shipping_rates', 'ghl_create_shipping_rate', 'ghl_list_shipping_rates',
-      'ghl_get_shipping_rate', 'ghl_update_shipping_rate', 'ghl_delete_shipping_rate',
-      // Shipping Carriers
-      'ghl_create_shipping_carrier', 'ghl_list_shipping_carriers', 'ghl_get_shipping_carrier',
-      'ghl_update_shipping_carrier', 'ghl_delete_shipping_carrier',
-      // Store Settings
-      'ghl_create_store_setting', 'ghl_get_store_setting'
-    ];
-    return storeToolNames.includes(toolName);
-  }
+      try {
+        return await this.resourceRegistry.read(request.params.uri);
+      } catch (error) {
+        console.error(`[GHL MCP] Error reading resource ${request.params.uri}:`, error);
+        throw mapResourceError(error);
+      }
+    });
 
-  /**
-   * Check if tool name belongs to products tools
-   */
-  private isProductsTool(toolName: string): boolean {
-    const productsToolNames = [
-      'ghl_create_product', 'ghl_list_products', 'ghl_get_product', 'ghl_update_product',
-      'ghl_delete_product', 'ghl_create_price', 'ghl_list_prices', 'ghl_list_inventory',
-      'ghl_create_product_collection', 'ghl_list_product_collections'
-    ];
-    return productsToolNames.includes(toolName);
-  }
+    // Handle prompt requests
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: this.promptLibrary.list() };
+    });
 
-  /**
-   * Check if tool name belongs to payments tools
-   */
-  private isPaymentsTool(toolName: string): boolean {
-    const paymentsToolNames = [
-      // Integration Provider tools
-      'create_whitelabel_integration_provider', 'list_whitelabel_integration_providers',
-      // Order tools
-      'list_orders', 'get_order_by_id',
-      // Order Fulfillment tools
-      'create_order_fulfillment', 'list_order_fulfillments',
-      // Transaction tools
-      'list_transactions', 'get_transaction_by_id',
-      // Subscription tools
-      'list_subscriptions', 'get_subscription_by_id',
-      // Coupon tools
-      'list_coupons', 'create_coupon', 'update_coupon', 'delete_coupon', 'get_coupon',
-      // Custom Provider tools
-      'create_custom_provider_integration', 'delete_custom_provider_integration',
-      'get_custom_provider_config', 'create_custom_provider_config', 'disconnect_custom_provider_config'
-    ];
-    return paymentsToolNames.includes(toolName);
-  }
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      return this.promptLibrary.get(request.params.name, request.params.arguments);
+    });
 
-  /**
-   * Check if tool name belongs to invoices tools
-   */
-  private isInvoicesTool(toolName: string): boolean {
-    const invoicesToolNames = [
-      // Invoice Template tools
-      'create_invoice_template', 'list_invoice_templates', 'get_invoice_template', 'update_invoice_template', 'delete_invoice_template',
-      'update_invoice_template_late_fees', 'update_invoice_template_payment_methods',
-      // Invoice Schedule tools
-      'create_invoice_schedule', 'list_invoice_schedules', 'get_invoice_schedule', 'update_invoice_schedule', 'delete_invoice_schedule',
-      'schedule_invoice_schedule', 'auto_payment_invoice_schedule', 'cancel_invoice_schedule',
-      // Invoice Management tools
-      'create_invoice', 'list_invoices', 'get_invoice', 'update_invoice', 'delete_invoice', 'void_invoice', 'send_invoice',
-      'record_invoice_payment', 'generate_invoice_number', 'text2pay_invoice', 'update_invoice_last_visited',
-      // Estimate tools
-      'create_estimate', 'list_estimates', 'update_estimate', 'delete_estimate', 'send_estimate', 'create_invoice_from_estimate',
-      'generate_estimate_number', 'update_estimate_last_visited',
-      // Estimate Template tools
-      'list_estimate_templates', 'create_estimate_template', 'update_estimate_template', 'delete_estimate_template', 'preview_estimate_template'
-    ];
-    return invoicesToolNames.includes(toolName);
+    process.stderr.write('[GHL MCP] Request handlers setup complete\n');
   }
 
-
-
   /**
    * Test GHL API connection
    */
@@ -673,28 +239,8 @@ class GHLMCPServer {
       process.stderr.write('=====================================\n');
       
       // Available tools summary
-      const contactToolCount = this.contactTools.getToolDefinitions().length;
-      const conversationToolCount = this.conversationTools.getToolDefinitions().length;
-      const blogToolCount = this.blogTools.getToolDefinitions().length;
-      const opportunityToolCount = this.opportunityTools.getToolDefinitions().length;
-      const calendarToolCount = this.calendarTools.getToolDefinitions().length;
-      const emailToolCount = this.emailTools.getToolDefinitions().length;
-      const locationToolCount = this.locationTools.getToolDefinitions().length;
-      const emailISVToolCount = this.emailISVTools.getToolDefinitions().length;
-      const inactivityToolCount = this.inactivityTools.getToolDefinitions().length;
-      const userToolCount = this.userTools.getToolDefinitions().length;
-      const socialMediaToolCount = this.socialMediaTools.getTools().length;
-      const mediaToolCount = this.mediaTools.getToolDefinitions().length;
-      const objectToolCount = this.objectTools.getToolDefinitions().length;
-      const associationToolCount = this.associationTools.getTools().length;
-      const customFieldV2ToolCount = this.customFieldV2Tools.getTools().length;
-      const workflowToolCount = this.workflowTools.getTools().length;
-      const surveyToolCount = this.surveyTools.getTools().length;
-      const storeToolCount = this.storeTools.getTools().length;
-      const productsToolCount = this.productsTools.getTools().length;
-      const paymentsToolCount = this.paymentsTools.getTools().length;
-      const invoicesToolCount = this.invoicesTools.getTools().length;
-      const totalTools = contactToolCount + conversationToolCount + blogToolCount + opportunityToolCount + calendarToolCount + emailToolCount + locationToolCount + emailISVToolCount + inactivityToolCount + userToolCount + socialMediaToolCount + mediaToolCount + objectToolCount + associationToolCount + customFieldV2ToolCount + workflowToolCount + surveyToolCount + storeToolCount + productsToolCount + paymentsToolCount + invoicesToolCount;
+      const userToolCount = this.toolRegistry.getCategoryCounts()['users'] || 0;
+      const totalTools = this.toolRegistry.size;
       
       process.stderr.write(`📋 Available tools: ${totalTools}\n`);
       process.stderr.write('\n');
@@ -0,0 +1,247 @@
+/**
+ * MCP Session Manager
+ * Owns creation, lookup and expiry of per-user sessions for the HTTP transports
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Session manager configuration
+ */
+export interface SessionManagerOptions {
+  /** Close sessions with no client activity for this long (ms). 0 disables idle expiry. */
+  idleTimeoutMs?: number;
+  /** Maximum number of concurrent sessions. 0 disables the limit. */
+  maxSessions?: number;
+  /** How often expired sessions are swept (ms) */
+  sweepIntervalMs?: number;
+  /** Clock override, used by tests */
+  now?: () => number;
+}
+
+/**
+ * A single session bound to the auth token that created it
+ */
+export interface Session<T> {
+  id: string;
+  tokenHash: string;
+  locationId: string;
+  createdAt: number;
+  lastActivityAt: number;
+  data: T;
+}
+
+/**
+ * Result of resolving a session for an incoming request
+ */
+export type SessionLookupResult<T> =
+  | { ok: true; session: Session<T> }
+  | { ok: false; reason: 'not_found' | 'token_mismatch' };
+
+/**
+ * Called when a session is removed, so the owner can close its transport
+ */
+export type SessionCloseHandler<T> = (session: Session<T>, reason: 'expired' | 'removed') => void;
+
+/**
+ * Thrown when a new session would exceed maxSessions
+ */
+export class SessionLimitError extends Error {
+  constructor(public readonly maxSessions: number) {
+    super(`Maximum number of sessions reached (${maxSessions})`);
+    this.name = 'SessionLimitError';
+  }
+}
+
+/**
+ * Hash an Authorization header value so raw tokens are never kept in memory
+ */
+export function hashToken(authToken: string): string {
+  const token = authToken.replace(/^Bearer\s+/i, '').trim();
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Session Manager class
+ * Sessions are only resolved by their exact ID and the token that created them - there is no fallback lookup
+ */
+export class SessionManager<T> {
+  private sessions: Map<string, Session<T>> = new Map();
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private readonly idleTimeoutMs: number;
+  private readonly maxSessions: number;
+  private readonly sweepIntervalMs: number;
+  private readonly now: () => number;
+
+  constructor(options: SessionManagerOptions = {}, private onClose?: SessionCloseHandler<T>) {
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 30 * 60 * 1000;
+    this.maxSessions = options.maxSessions ?? 500;
+    this.sweepIntervalMs = options.sweepIntervalMs ?? 60 * 1000;
+    this.now = options.now || Date.now;
+  }
+
+  /**
+   * Create a session bound to the given auth token. Expired sessions are swept first;
+   * throws SessionLimitError if the limit is still reached.
+   */
+  create(id: string, authToken: string, locationId: string, data: T): Session<T> {
+    if (this.sessions.has(id)) {
+      throw new Error(`Session already exists: ${id}`);
+    }
+
+    if (this.maxSessions > 0 && this.sessions.size >= this.maxSessions) {
+      this.sweep();
+      if (this.sessions.size >= this.maxSessions) {
+        throw new SessionLimitError(this.maxSessions);
+      }
+    }
+
+    const timestamp = this.now();
+    const session: Session<T> = {
+      id,
+      tokenHash: hashToken(authToken),
+      locationId,
+      createdAt: timestamp,
+      lastActivityAt: timestamp,
+      data
+    };
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  /**
+   * Resolve a session for a request. The session must exist, not be idle-expired,
+   * and have been created with the same auth token. Successful lookups count as activity.
+   */
+  authorize(id: string | undefined, authToken: string | undefined): SessionLookupResult<T> {
+    const session = id ? this.sessions.get(id) : undefined;
+    if (!session) {
+      return { ok: false, reason: 'not_found' };
+    }
+
+    if (this.isExpired(session)) {
+      this.close(session, 'expired');
+      return { ok: false, reason: 'not_found' };
+    }
+
+    if (!authToken || !this.tokenMatches(session, authToken)) {
+      return { ok: false, reason: 'token_mismatch' };
+    }
+
+    session.lastActivityAt = this.now();
+    return { ok: true, session };
+  }
+
+  /**
+   * Get a session by ID without checking its token or recording activity
+   */
+  get(id: string): Session<T> | undefined {
+    return this.sessions.get(id);
+  }
+
+  /**
+   * Get the live sessions of a location, e.g. to notify them of a webhook event, without recording activity
+   */
+  findByLocation(locationId: string): Session<T>[] {
+    return Array.from(this.sessions.values())
+      .filter(session => session.locationId === locationId && !this.isExpired(session));
+  }
+
+  /**
+   * Remove a session. Returns false if it did not exist.
+   */
+  remove(id: string): boolean {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return false;
+    }
+    this.close(session, 'removed');
+    return true;
+  }
+
+  /**
+   * Remove every session created with the given token hash (e.g. after its API key is revoked) and return how many were removed
+   */
+  removeByTokenHash(tokenHash: string): number {
+    let removed = 0;
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.tokenHash === tokenHash) {
+        this.close(session, 'removed');
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Close every idle-expired session and return how many were closed
+   */
+  sweep(): number {
+    let expired = 0;
+    for (const session of Array.from(this.sessions.values())) {
+      if (this.isExpired(session)) {
+        this.close(session, 'expired');
+        expired++;
+      }
+    }
+    return expired;
+  }
+
+  /**
+   * Start sweeping expired sessions in the background
+   */
+  start(): void {
+    if (this.sweepTimer || this.idleTimeoutMs <= 0) {
+      return;
+    }
+    this.sweepTimer = setInterval(() => {
+      const expired = this.sweep();
+      if (expired > 0) {
+        console.log(`[Sessions] Closed ${expired} idle session(s), ${this.sessions.size} active`);
+      }
+    }, this.sweepIntervalMs);
+    // Never keep the process alive just to sweep sessions
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Stop the background sweep
+   */
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * Number of active sessions
+   */
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  private isExpired(session: Session<T>): boolean {
+    return this.idleTimeoutMs > 0 && this.now() - session.lastActivityAt >= this.idleTimeoutMs;
+  }
+
+  private tokenMatches(session: Session<T>, authToken: string): boolean {
+    const expected = Buffer.from(session.tokenHash, 'hex');
+    const actual = Buffer.from(hashToken(authToken), 'hex');
+    return timingSafeEqual(expected, actual);
+  }
+
+  private close(session: Session<T>, reason: 'expired' | 'removed'): void {
+    // Delete first so a close handler that calls remove() again is a no-op
+    if (!this.sessions.delete(session.id)) {
+      return;
+    }
+    if (this.onClose) {
+      try {
+        this.onClose(session, reason);
+      } catch (error) {
+        console.error(`[Sessions] Error closing session ${session.id}:`, error);
+      }
+    }
+  }
+}
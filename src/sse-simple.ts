@@ -1,18 +1,188 @@
 import express from 'express';
 import cors from 'cors';
 import * as dotenv from 'dotenv';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+import { GHLApiClient } from './clients/ghl-api-client.js';
+import {
+  GHLAuthError,
+  GHLNetworkError,
+  GHLNotFoundError,
+  GHLRateLimitError,
+  GHLValidationError
+} from './clients/ghl-api-error.js';
+import { ContactTools } from './tools/contact-tools.js';
+import { CalendarTools } from './tools/calendar-tools.js';
+import { ToolRegistry } from './tools/tool-registry.js';
+import { ToolPolicy, toolPolicyFromEnv } from './tools/tool-permissions.js';
 
 dotenv.config();
 
-const app = express();
+export const app = express();
 const PORT = process.env.PORT || 3000;
+const DEFAULT_BASE_URL = 'https://services.leadconnectorhq.com';
+
+const DEFAULT_ALLOWED_TOOLS = ['search_contacts', 'get_free_slots', 'create_appointment'];
+
+/**
+ * Tools exposed to ElevenLabs, overridable with a comma-separated ELEVENLABS_TOOLS allow-list
+ */
+export function allowedToolsFromEnv(env: NodeJS.ProcessEnv = process.env): string[] {
+  return (env.ELEVENLABS_TOOLS || DEFAULT_ALLOWED_TOOLS.join(','))
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+}
+
+const allowedTools = allowedToolsFromEnv();
+
+/**
+ * ElevenLabs tool format: name, description and a JSON schema of parameters
+ */
+interface ElevenLabsTool {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, any>;
+    required?: string[];
+  };
+}
+
+/**
+ * Build a registry with only the contact and calendar tools, bound to the given client
+ */
+function createVoiceToolRegistry(ghlClient: GHLApiClient): ToolRegistry {
+  const registry = new ToolRegistry(new ToolPolicy(toolPolicyFromEnv()));
+  new ContactTools(ghlClient).registerTools(registry);
+  new CalendarTools(ghlClient).registerTools(registry);
+  return registry;
+}
+
+/**
+ * Convert a JSON schema property to the subset ElevenLabs accepts
+ */
+function toElevenLabsProperty(schema: any): any {
+  const property: any = { type: schema.type || 'string' };
+  if (schema.description) property.description = schema.description;
+  if (schema.enum) property.enum = schema.enum;
+  if (schema.type === 'array' && schema.items) property.items = toElevenLabsProperty(schema.items);
+  if (schema.type === 'object' && schema.properties) {
+    property.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toElevenLabsProperty(value)])
+    );
+  }
+  return property;
+}
+
+/**
+ * Convert an MCP tool definition to ElevenLabs' tool format
+ */
+function toElevenLabsTool(tool: Tool): ElevenLabsTool {
+  const properties = tool.inputSchema.properties || {};
+  return {
+    name: tool.name,
+    description: tool.description || tool.name,
+    parameters: {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(properties).map(([key, value]) => [key, toElevenLabsProperty(value)])
+      ),
+      ...(tool.inputSchema.required && { required: tool.inputSchema.required })
+    }
+  };
+}
+
+// Tool definitions don't depend on credentials, so they are generated once from an unauthenticated client
+const definitionRegistry = createVoiceToolRegistry(new GHLApiClient({
+  accessToken: '',
+  baseUrl: DEFAULT_BASE_URL,
+  version: '2021-07-28',
+  locationId: ''
+}));
+
+const unknownAllowedTools = allowedTools.filter(name => !definitionRegistry.has(name));
+if (unknownAllowedTools.length > 0) {
+  console.warn(`[SSE] Ignoring unknown tools in ELEVENLABS_TOOLS: ${unknownAllowedTools.join(', ')}`);
+}
+
+const elevenLabsTools: ElevenLabsTool[] = definitionRegistry
+  .getDefinitions()
+  .filter(tool => allowedTools.includes(tool.name))
+  .map(toElevenLabsTool);
+
+/**
+ * Read the location ID from the authClassId claim of a GHL JWT
+ */
+function decodeLocationIdFromToken(token: string): string | undefined {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return undefined;
+  }
+  try {
+    const payload = JSON.parse(Buffer.from(parts[1], 'base64').toString());
+    return payload.authClassId || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Build a GHL client from the request's Authorization, X-GHL-Location-Id and X-GHL-Base-URL headers
+ */
+function createGHLClientFromRequest(req: express.Request): GHLApiClient | null {
+  const authHeader = req.headers['authorization'];
+  if (!authHeader) {
+    return null;
+  }
+
+  const accessToken = authHeader.replace(/^Bearer\s+/i, '').trim();
+  const locationId = (req.headers['x-ghl-location-id'] as string) || decodeLocationIdFromToken(accessToken);
+  if (!accessToken || !locationId) {
+    return null;
+  }
+
+  return new GHLApiClient({
+    accessToken,
+    baseUrl: (req.headers['x-ghl-base-url'] as string) || DEFAULT_BASE_URL,
+    version: '2021-07-28',
+    locationId
+  });
+}
+
+/**
+ * Turn a tool error into a short sentence the voice agent can read aloud
+ */
+export function toSpeakableError(tool: string, error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof GHLValidationError) {
+    return `I couldn't run ${tool.replace(/_/g, ' ')} because some of the details were not accepted. Please check them and try again.`;
+  }
+  if (error instanceof GHLAuthError) {
+    return 'I am not authorized to access this GoHighLevel account right now.';
+  }
+  if (error instanceof GHLNotFoundError) {
+    return `I couldn't find what was needed to ${tool.replace(/_/g, ' ')}.`;
+  }
+  if (error instanceof GHLRateLimitError) {
+    return 'GoHighLevel is busy right now. Please try again in a moment.';
+  }
+  if (error instanceof GHLNetworkError) {
+    return 'I couldn\'t reach GoHighLevel right now. Please try again in a moment.';
+  }
+
+  // Drop the technical prefixes (e.g. "Failed to get free slots: API request failed: ...")
+  const detail = message.split(': ').pop() || message;
+  return `Sorry, I couldn't ${tool.replace(/_/g, ' ')}. ${detail}`;
+}
 
 app.use(cors());
 app.use(express.json());
 
 app.get('/sse-simple', (req, res) => {
   console.log('[SSE] New connection from ElevenLabs');
-  
+
   res.writeHead(200, {
     'Content-Type': 'text/event-stream',
     'Cache-Control': 'no-cache',
@@ -22,42 +192,7 @@ app.get('/sse-simple', (req, res) => {
 
   // Send tools in ElevenLabs format
   const message = {
-    tools: [
-      {
-        name: 'search_contacts',
-        description: 'Search for contacts by phone',
-        parameters: {
-          type: 'object',
-          properties: {
-            phone: { type: 'string', description: 'Phone number' }
-          }
-        }
-      },
-      {
-        name: 'get_free_slots',
-        description: 'Get available appointment slots',
-        parameters: {
-          type: 'object',
-          properties: {
-            calendarId: { type: 'string', description: 'Calendar ID' },
-            startDate: { type: 'string', description: 'Start date' },
-            endDate: { type: 'string', description: 'End date' }
-          }
-        }
-      },
-      {
-        name: 'create_appointment',
-        description: 'Book an appointment',
-        parameters: {
-          type: 'object',
-          properties: {
-            calendarId: { type: 'string', description: 'Calendar ID' },
-            contactId: { type: 'string', description: 'Contact ID' },
-            startTime: { type: 'string', description: 'Start time ISO format' }
-          }
-        }
-      }
-    ]
+    tools: elevenLabsTools
   };
 
   // Send as SSE event
@@ -77,17 +212,41 @@ app.get('/sse-simple', (req, res) => {
 
 // Tool execution endpoint
 app.post('/execute', async (req, res) => {
-  const { tool, parameters } = req.body;
-  console.log('[Execute] Tool:', tool, 'Params:', parameters);
-  
-  // Add your GHL API calls here
-  res.json({ success: true, result: 'Tool executed' });
+  const { tool, parameters } = req.body || {};
+  // Parameters carry caller details (names, phone numbers, emails), so only the tool is logged
+  console.log('[Execute] Tool:', tool);
+
+  if (typeof tool !== 'string' || !allowedTools.includes(tool) || !definitionRegistry.has(tool)) {
+    res.status(400).json({ success: false, error: `The tool ${tool} is not available.` });
+    return;
+  }
+
+  const ghlClient = createGHLClientFromRequest(req);
+  if (!ghlClient) {
+    res.status(401).json({
+      success: false,
+      error: 'I am not connected to a GoHighLevel account. An authorization token and location are required.'
+    });
+    return;
+  }
+
+  try {
+    const result = await createVoiceToolRegistry(ghlClient).execute(tool, parameters || {});
+    res.json({ success: true, result });
+  } catch (error) {
+    console.error(`[Execute] Tool ${tool} failed:`, error);
+    // Tool failures are returned with 200 so the agent reads the message instead of treating it as a transport error
+    res.json({ success: false, error: toSpeakableError(tool, error) });
+  }
 });
 
 app.get('/', (req, res) => {
-  res.json({ status: 'SSE Simple Server Running' });
+  res.json({ status: 'SSE Simple Server Running', tools: elevenLabsTools.map(tool => tool.name) });
 });
 
-app.listen(PORT, () => {
-  console.log(`SSE Simple Server on port ${PORT}`);
-});
+// Start the server when run directly, not when imported by tests
+if (require.main === module) {
+  app.listen(PORT, () => {
+    console.log(`SSE Simple Server on port ${PORT}`);
+  });
+}
@@ -0,0 +1,73 @@
+/**
+ * JSON File Store
+ * A list of records in a single JSON file (mode 0600), wrapped in a versioned envelope and kept in memory once loaded.
+ * Shared by the stores that persist to disk, so the write and rollback rules live in one place.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+export interface JsonFileStoreOptions<T> {
+  /** Records to keep, applied after every change before it is written, e.g. to drop expired ones */
+  prune?: (records: T[]) => T[];
+}
+
+/**
+ * Records saved as `{ version: 1, [field]: records }`.
+ * Changes are serialized and written atomically (temp file, then rename); a change that fails or cannot be
+ * saved is forgotten, so memory never holds what the file does not.
+ */
+export class JsonFileStore<T> {
+  private records: T[] | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string, private field: string, private options: JsonFileStoreOptions<T> = {}) {}
+
+  /**
+   * The current records, not copies: changes made outside mutate are only saved with the next mutate
+   */
+  async load(): Promise<T[]> {
+    if (!this.records) {
+      try {
+        const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf8')) as { version: 1 } & Record<string, T[]>;
+        this.records = parsed[this.field] || [];
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+        this.records = [];
+      }
+    }
+    return this.records;
+  }
+
+  /**
+   * Change the records in place (or return a result without changing them) and save them.
+   * Runs after every earlier change has been saved.
+   */
+  mutate<R>(change: (records: T[]) => R): Promise<R> {
+    const run = this.queue.then(async () => {
+      try {
+        const records = await this.load();
+        const result = change(records);
+        const kept = this.options.prune ? this.options.prune(records) : records;
+        await this.persist(kept);
+        this.records = kept;
+        return result;
+      } catch (error) {
+        // Forget the unsaved change; the next call reloads what is on disk
+        this.records = null;
+        throw error;
+      }
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async persist(records: T[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify({ version: 1, [this.field]: records }, null, 2), { mode: 0o600 });
+    await fs.rename(tmp, this.filePath);
+  }
+}
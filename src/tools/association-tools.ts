@@ -1,5 +1,8 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { toolAnnotations } from './tool-annotations.js';
+import { envelopeOutput, record } from './output-schemas.js';
 import {
   MCPCreateAssociationParams,
   MCPUpdateAssociationParams,
@@ -13,7 +16,7 @@ import {
   MCPDeleteRelationParams
 } from '../types/ghl-types.js';
 
-export class AssociationTools {
+export class AssociationTools implements ToolProvider {
   constructor(private apiClient: GHLApiClient) {}
 
   getTools(): Tool[] {
@@ -22,6 +25,8 @@ export class AssociationTools {
       {
         name: 'ghl_get_all_associations',
         description: 'Get all associations for a sub-account/location with pagination. Returns system-defined and user-defined associations.',
+        annotations: toolAnnotations('Get All Associations', 'read'),
+        outputSchema: envelopeOutput({ data: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -45,6 +50,8 @@ export class AssociationTools {
       {
         name: 'ghl_create_association',
         description: 'Create a new association that defines relationship types between entities like contacts, custom objects, and opportunities.',
+        annotations: toolAnnotations('Create Association', 'create'),
+        outputSchema: envelopeOutput({ data: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -75,6 +82,8 @@ export class AssociationTools {
       {
         name: 'ghl_get_association_by_id',
         description: 'Get a specific association by its ID. Works for both system-defined and user-defined associations.',
+        annotations: toolAnnotations('Get Association by ID', 'read'),
+        outputSchema: envelopeOutput({ data: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -89,6 +98,8 @@ export class AssociationTools {
       {
         name: 'ghl_update_association',
         description: 'Update the labels of an existing association. Only user-defined associations can be updated.',
+        annotations: toolAnnotations('Update Association', 'update'),
+        outputSchema: envelopeOutput({ data: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -109,6 +120,8 @@ export class AssociationTools {
       {
         name: 'ghl_delete_association',
         description: 'Delete a user-defined association. This will also delete all relations created with this association.',
+        annotations: toolAnnotations('Delete Association', 'delete'),
+        outputSchema: envelopeOutput({ data: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -123,6 +136,8 @@ export class AssociationTools {
       {
         name: 'ghl_get_association_by_key',
         description: 'Get an association by its key name. Useful for finding both standard and user-defined associations.',
+        annotations: toolAnnotations('Get Association by Key', 'read'),
+        outputSchema: envelopeOutput({ data: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -141,6 +156,8 @@ export class AssociationTools {
       {
         name: 'ghl_get_association_by_object_key',
         description: 'Get associations by object keys like contacts, custom objects, and opportunities.',
+        annotations: toolAnnotations('Get Association by Object Key', 'read'),
+        outputSchema: envelopeOutput({ data: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -160,6 +177,8 @@ export class AssociationTools {
       {
         name: 'ghl_create_relation',
         description: 'Create a relation between two entities using an existing association. Links specific records together.',
+        annotations: toolAnnotations('Create Relation', 'create'),
+        outputSchema: envelopeOutput({ data: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -186,6 +205,8 @@ export class AssociationTools {
       {
         name: 'ghl_get_relations_by_record',
         description: 'Get all relations for a specific record ID with pagination and optional filtering by association IDs.',
+        annotations: toolAnnotations('Get Relations by Record', 'read'),
+        outputSchema: envelopeOutput({ data: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -221,6 +242,8 @@ export class AssociationTools {
       {
         name: 'ghl_delete_relation',
         description: 'Delete a specific relation between two entities.',
+        annotations: toolAnnotations('Delete Relation', 'delete'),
+        outputSchema: envelopeOutput({ data: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -239,146 +262,161 @@ export class AssociationTools {
     ];
   }
 
-  async executeAssociationTool(name: string, args: any): Promise<any> {
-    try {
-      switch (name) {
-        case 'ghl_get_all_associations': {
-          const params: MCPGetAllAssociationsParams = args;
-          const result = await this.apiClient.getAssociations({
-            locationId: params.locationId || '',
-            skip: params.skip || 0,
-            limit: params.limit || 20
-          });
-          return {
-            success: true,
-            data: result.data,
-            message: `Retrieved ${result.data?.associations?.length || 0} associations`
-          };
-        }
+  /**
+   * Register association tools with the shared tool registry
+   */
+  registerTools(registry: ToolRegistry): void {
+    registry.registerCategory('associations', this.getTools(), this.getToolHandlers());
+  }
 
-        case 'ghl_create_association': {
-          const params: MCPCreateAssociationParams = args;
-          const result = await this.apiClient.createAssociation({
-            locationId: params.locationId || '',
-            key: params.key,
-            firstObjectLabel: params.firstObjectLabel,
-            firstObjectKey: params.firstObjectKey,
-            secondObjectLabel: params.secondObjectLabel,
-            secondObjectKey: params.secondObjectKey
-          });
-          return {
-            success: true,
-            data: result.data,
-            message: `Association '${params.key}' created successfully`
-          };
-        }
+  /**
+   * Map each association tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
+      ghl_get_all_associations: async (args) => {
+        const params: MCPGetAllAssociationsParams = args;
+        const result = await this.apiClient.getAssociations({
+          locationId: params.locationId || '',
+          skip: params.skip || 0,
+          limit: params.limit || 20
+        });
+        return {
+          success: true,
+          data: result.data,
+          message: `Retrieved ${result.data?.associations?.length || 0} associations`
+        };
+      },
 
-        case 'ghl_get_association_by_id': {
-          const params: MCPGetAssociationByIdParams = args;
-          const result = await this.apiClient.getAssociationById(params.associationId);
-          return {
-            success: true,
-            data: result.data,
-            message: `Association retrieved successfully`
-          };
-        }
+      ghl_create_association: async (args) => {
+        const params: MCPCreateAssociationParams = args;
+        const result = await this.apiClient.createAssociation({
+          locationId: params.locationId || '',
+          key: params.key,
+          firstObjectLabel: params.firstObjectLabel,
+          firstObjectKey: params.firstObjectKey,
+          secondObjectLabel: params.secondObjectLabel,
+          secondObjectKey: params.secondObjectKey
+        });
+        return {
+          success: true,
+          data: result.data,
+          message: `Association '${params.key}' created successfully`
+        };
+      },
 
-        case 'ghl_update_association': {
-          const params: MCPUpdateAssociationParams = args;
-          const result = await this.apiClient.updateAssociation(params.associationId, {
-            firstObjectLabel: params.firstObjectLabel,
-            secondObjectLabel: params.secondObjectLabel
-          });
-          return {
-            success: true,
-            data: result.data,
-            message: `Association updated successfully`
-          };
-        }
+      ghl_get_association_by_id: async (args) => {
+        const params: MCPGetAssociationByIdParams = args;
+        const result = await this.apiClient.getAssociationById(params.associationId);
+        return {
+          success: true,
+          data: result.data,
+          message: `Association retrieved successfully`
+        };
+      },
 
-        case 'ghl_delete_association': {
-          const params: MCPDeleteAssociationParams = args;
-          const result = await this.apiClient.deleteAssociation(params.associationId);
-          return {
-            success: true,
-            data: result.data,
-            message: `Association deleted successfully`
-          };
-        }
+      ghl_update_association: async (args) => {
+        const params: MCPUpdateAssociationParams = args;
+        const result = await this.apiClient.updateAssociation(params.associationId, {
+          firstObjectLabel: params.firstObjectLabel,
+          secondObjectLabel: params.secondObjectLabel
+        });
+        return {
+          success: true,
+          data: result.data,
+          message: `Association updated successfully`
+        };
+      },
 
-        case 'ghl_get_association_by_key': {
-          const params: MCPGetAssociationByKeyParams = args;
-          const result = await this.apiClient.getAssociationByKey({
-            keyName: params.keyName,
-            locationId: params.locationId || ''
-          });
-          return {
-            success: true,
-            data: result.data,
-            message: `Association with key '${params.keyName}' retrieved successfully`
-          };
-        }
+      ghl_delete_association: async (args) => {
+        const params: MCPDeleteAssociationParams = args;
+        const result = await this.apiClient.deleteAssociation(params.associationId);
+        return {
+          success: true,
+          data: result.data,
+          message: `Association deleted successfully`
+        };
+      },
 
-        case 'ghl_get_association_by_object_key': {
-          const params: MCPGetAssociationByObjectKeyParams = args;
-          const result = await this.apiClient.getAssociationByObjectKey({
-            objectKey: params.objectKey,
-            locationId: params.locationId
-          });
-          return {
-            success: true,
-            data: result.data,
-            message: `Association with object key '${params.objectKey}' retrieved successfully`
-          };
-        }
+      ghl_get_association_by_key: async (args) => {
+        const params: MCPGetAssociationByKeyParams = args;
+        const result = await this.apiClient.getAssociationByKey({
+          keyName: params.keyName,
+          locationId: params.locationId || ''
+        });
+        return {
+          success: true,
+          data: result.data,
+          message: `Association with key '${params.keyName}' retrieved successfully`
+        };
+      },
 
-        case 'ghl_create_relation': {
-          const params: MCPCreateRelationParams = args;
-          const result = await this.apiClient.createRelation({
-            locationId: params.locationId || '',
-            associationId: params.associationId,
-            firstRecordId: params.firstRecordId,
-            secondRecordId: params.secondRecordId
-          });
-          return {
-            success: true,
-            data: result.data,
-            message: `Relation created successfully between records`
-          };
-        }
+      ghl_get_association_by_object_key: async (args) => {
+        const params: MCPGetAssociationByObjectKeyParams = args;
+        const result = await this.apiClient.getAssociationByObjectKey({
+          objectKey: params.objectKey,
+          locationId: params.locationId
+        });
+        return {
+          success: true,
+          data: result.data,
+          message: `Association with object key '${params.objectKey}' retrieved successfully`
+        };
+      },
 
-        case 'ghl_get_relations_by_record': {
-          const params: MCPGetRelationsByRecordParams = args;
-          const result = await this.apiClient.getRelationsByRecord({
-            recordId: params.recordId,
-            locationId: params.locationId || '',
-            skip: params.skip || 0,
-            limit: params.limit || 20,
-            associationIds: params.associationIds
-          });
-          return {
-            success: true,
-            data: result.data,
-            message: `Retrieved ${result.data?.relations?.length || 0} relations for record`
-          };
-        }
+      ghl_create_relation: async (args) => {
+        const params: MCPCreateRelationParams = args;
+        const result = await this.apiClient.createRelation({
+          locationId: params.locationId || '',
+          associationId: params.associationId,
+          firstRecordId: params.firstRecordId,
+          secondRecordId: params.secondRecordId
+        });
+        return {
+          success: true,
+          data: result.data,
+          message: `Relation created successfully between records`
+        };
+      },
 
-        case 'ghl_delete_relation': {
-          const params: MCPDeleteRelationParams = args;
-          const result = await this.apiClient.deleteRelation({
-            relationId: params.relationId,
-            locationId: params.locationId || ''
-          });
-          return {
-            success: true,
-            data: result.data,
-            message: `Relation deleted successfully`
-          };
-        }
+      ghl_get_relations_by_record: async (args) => {
+        const params: MCPGetRelationsByRecordParams = args;
+        const result = await this.apiClient.getRelationsByRecord({
+          recordId: params.recordId,
+          locationId: params.locationId || '',
+          skip: params.skip || 0,
+          limit: params.limit || 20,
+          associationIds: params.associationIds
+        });
+        return {
+          success: true,
+          data: result.data,
+          message: `Retrieved ${result.data?.relations?.length || 0} relations for record`
+        };
+      },
+
+      ghl_delete_relation: async (args) => {
+        const params: MCPDeleteRelationParams = args;
+        const result = await this.apiClient.deleteRelation({
+          relationId: params.relationId,
+          locationId: params.locationId || ''
+        });
+        return {
+          success: true,
+          data: result.data,
+          message: `Relation deleted successfully`
+        };
+      }
+    };
+  }
 
-        default:
-          throw new Error(`Unknown association tool: ${name}`);
+  async executeAssociationTool(name: string, args: any): Promise<any> {
+    try {
+      const handler = this.getToolHandlers()[name];
+      if (!handler) {
+        throw new Error(`Unknown association tool: ${name}`);
       }
+      return await handler(args);
     } catch (error) {
       return {
         success: false,
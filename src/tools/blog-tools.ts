@@ -5,6 +5,10 @@
 
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { withErrorContext } from '../clients/ghl-api-error.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { toolAnnotations } from './tool-annotations.js';
+import { envelopeOutput, listOf, text, number, boolean, recordList, BLOG_POST } from './output-schemas.js';
 import {
   MCPCreateBlogPostParams,
   MCPUpdateBlogPostParams,
@@ -24,7 +28,7 @@ import {
  * Blog Tools Class
  * Implements MCP tools for blog management
  */
-export class BlogTools {
+export class BlogTools implements ToolProvider {
   constructor(private ghlClient: GHLApiClient) {}
 
   /**
@@ -36,6 +40,8 @@ export class BlogTools {
   {
     name: 'create_blog_post',
     description: 'Create a new blog post in GoHighLevel. Requires blog ID, author ID, and category IDs which can be obtained from other blog tools.',
+    annotations: toolAnnotations('Create Blog Post', 'create'),
+    outputSchema: envelopeOutput({ blogPost: BLOG_POST }),
     inputSchema: {
       type: 'object',
       properties: {
@@ -93,6 +99,7 @@ export class BlogTools {
         },
         publishedAt: {
           type: 'string',
+          format: 'date-time',
           description: 'Optional ISO timestamp for publication date (defaults to now for PUBLISHED status)'
         }
       },
@@ -104,6 +111,8 @@ export class BlogTools {
   {
     name: 'update_blog_post',
     description: 'Update an existing blog post in GoHighLevel. All fields except postId and blogId are optional.',
+    annotations: toolAnnotations('Update Blog Post', 'update'),
+    outputSchema: envelopeOutput({ blogPost: BLOG_POST }),
     inputSchema: {
       type: 'object',
       properties: {
@@ -164,6 +173,7 @@ export class BlogTools {
         },
         publishedAt: {
           type: 'string',
+          format: 'date-time',
           description: 'Updated ISO timestamp for publication date'
         }
       },
@@ -175,6 +185,8 @@ export class BlogTools {
   {
     name: 'get_blog_posts',
     description: 'Get blog posts from a specific blog site. Use this to list and search existing blog posts.',
+    annotations: toolAnnotations('Get Blog Posts', 'read'),
+    outputSchema: envelopeOutput({ posts: listOf(BLOG_POST), count: number }),
     inputSchema: {
       type: 'object',
       properties: {
@@ -210,6 +222,8 @@ export class BlogTools {
   {
     name: 'get_blog_sites',
     description: 'Get all blog sites for the current location. Use this to find available blogs before creating or managing posts.',
+    annotations: toolAnnotations('Get Blog Sites', 'read'),
+    outputSchema: envelopeOutput({ sites: recordList, count: number }),
     inputSchema: {
       type: 'object',
       properties: {
@@ -235,6 +249,8 @@ export class BlogTools {
   {
     name: 'get_blog_authors',
     description: 'Get all available blog authors for the current location. Use this to find author IDs for creating blog posts.',
+    annotations: toolAnnotations('Get Blog Authors', 'read'),
+    outputSchema: envelopeOutput({ authors: recordList, count: number }),
     inputSchema: {
       type: 'object',
       properties: {
@@ -256,6 +272,8 @@ export class BlogTools {
   {
     name: 'get_blog_categories',
     description: 'Get all available blog categories for the current location. Use this to find category IDs for creating blog posts.',
+    annotations: toolAnnotations('Get Blog Categories', 'read'),
+    outputSchema: envelopeOutput({ categories: recordList, count: number }),
     inputSchema: {
       type: 'object',
       properties: {
@@ -277,6 +295,8 @@ export class BlogTools {
   {
     name: 'check_url_slug',
     description: 'Check if a URL slug is available for use. Use this before creating or updating blog posts to ensure unique URLs.',
+    annotations: toolAnnotations('Check URL Slug', 'read'),
+    outputSchema: envelopeOutput({ urlSlug: text, exists: boolean, available: boolean }),
     inputSchema: {
       type: 'object',
       properties: {
@@ -295,35 +315,43 @@ export class BlogTools {
     ];
   }
 
+  /**
+   * Register blog tools with the shared tool registry
+   */
+  registerTools(registry: ToolRegistry): void {
+    registry.registerCategory('blog', this.getToolDefinitions(), this.getToolHandlers());
+  }
+
+  /**
+   * Map each blog tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
+      create_blog_post: (args) => this.createBlogPost(args as MCPCreateBlogPostParams),
+
+      update_blog_post: (args) => this.updateBlogPost(args as MCPUpdateBlogPostParams),
+
+      get_blog_posts: (args) => this.getBlogPosts(args as MCPGetBlogPostsParams),
+
+      get_blog_sites: (args) => this.getBlogSites(args as MCPGetBlogSitesParams),
+
+      get_blog_authors: (args) => this.getBlogAuthors(args as MCPGetBlogAuthorsParams),
+
+      get_blog_categories: (args) => this.getBlogCategories(args as MCPGetBlogCategoriesParams),
+
+      check_url_slug: (args) => this.checkUrlSlug(args as MCPCheckUrlSlugParams)
+    };
+  }
+
   /**
    * Execute blog tool based on tool name and arguments
    */
   async executeTool(name: string, args: any): Promise<any> {
-    switch (name) {
-      case 'create_blog_post':
-        return this.createBlogPost(args as MCPCreateBlogPostParams);
-      
-      case 'update_blog_post':
-        return this.updateBlogPost(args as MCPUpdateBlogPostParams);
-      
-      case 'get_blog_posts':
-        return this.getBlogPosts(args as MCPGetBlogPostsParams);
-      
-      case 'get_blog_sites':
-        return this.getBlogSites(args as MCPGetBlogSitesParams);
-      
-      case 'get_blog_authors':
-        return this.getBlogAuthors(args as MCPGetBlogAuthorsParams);
-      
-      case 'get_blog_categories':
-        return this.getBlogCategories(args as MCPGetBlogCategoriesParams);
-      
-      case 'check_url_slug':
-        return this.checkUrlSlug(args as MCPCheckUrlSlugParams);
-      
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+    const handler = this.getToolHandlers()[name];
+    if (!handler) {
+      throw new Error(`Unknown tool: ${name}`);
     }
+    return await handler(args);
   }
 
   /**
@@ -368,7 +396,7 @@ export class BlogTools {
         throw new Error('Failed to create blog post - no data returned');
       }
     } catch (error) {
-      throw new Error(`Failed to create blog post: ${error}`);
+      throw withErrorContext('Failed to create blog post', error);
     }
   }
 
@@ -408,7 +436,7 @@ export class BlogTools {
         throw new Error('Failed to update blog post - no data returned');
       }
     } catch (error) {
-      throw new Error(`Failed to update blog post: ${error}`);
+      throw withErrorContext('Failed to update blog post', error);
     }
   }
 
@@ -440,7 +468,7 @@ export class BlogTools {
         throw new Error('Failed to get blog posts - no data returned');
       }
     } catch (error) {
-      throw new Error(`Failed to get blog posts: ${error}`);
+      throw withErrorContext('Failed to get blog posts', error);
     }
   }
 
@@ -470,7 +498,7 @@ export class BlogTools {
         throw new Error('Failed to get blog sites - no data returned');
       }
     } catch (error) {
-      throw new Error(`Failed to get blog sites: ${error}`);
+      throw withErrorContext('Failed to get blog sites', error);
     }
   }
 
@@ -499,7 +527,7 @@ export class BlogTools {
         throw new Error('Failed to get blog authors - no data returned');
       }
     } catch (error) {
-      throw new Error(`Failed to get blog authors: ${error}`);
+      throw withErrorContext('Failed to get blog authors', error);
     }
   }
 
@@ -528,7 +556,7 @@ export class BlogTools {
         throw new Error('Failed to get blog categories - no data returned');
       }
     } catch (error) {
-      throw new Error(`Failed to get blog categories: ${error}`);
+      throw withErrorContext('Failed to get blog categories', error);
     }
   }
 
@@ -560,7 +588,7 @@ export class BlogTools {
         throw new Error('Failed to check URL slug - no data returned');
       }
     } catch (error) {
-      throw new Error(`Failed to check URL slug: ${error}`);
+      throw withErrorContext('Failed to check URL slug', error);
     }
   }
 } 
\ No newline at end of file
@@ -5,6 +5,19 @@
 
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { withErrorContext } from '../clients/ghl-api-error.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { toolAnnotations } from './tool-annotations.js';
+import {
+  envelopeOutput,
+  listOf,
+  boolean,
+  record,
+  recordList,
+  CALENDAR_EVENT,
+  CALENDAR_GROUP,
+  CALENDAR
+} from './output-schemas.js';
 import {
   MCPGetCalendarsParams,
   MCPCreateCalendarParams,
@@ -48,7 +61,7 @@ import {
  * Calendar Tools Class
  * Implements MCP tools for calendar and appointment management
  */
-export class CalendarTools {
+export class CalendarTools implements ToolProvider {
   constructor(private ghlClient: GHLApiClient) {}
 
   /**
@@ -59,6 +72,8 @@ export class CalendarTools {
       {
         name: 'get_calendar_groups',
         description: 'Get all calendar groups in the GoHighLevel location',
+        annotations: toolAnnotations('Get Calendar Groups', 'read'),
+        outputSchema: envelopeOutput({ groups: listOf(CALENDAR_GROUP) }),
         inputSchema: {
           type: 'object',
           properties: {}
@@ -67,6 +82,8 @@ export class CalendarTools {
       {
         name: 'get_calendars',
         description: 'Get all calendars in the GoHighLevel location with optional filtering',
+        annotations: toolAnnotations('Get Calendars', 'read'),
+        outputSchema: envelopeOutput({ calendars: listOf(CALENDAR) }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -85,6 +102,8 @@ export class CalendarTools {
       {
         name: 'create_calendar',
         description: 'Create a new calendar in GoHighLevel',
+        annotations: toolAnnotations('Create Calendar', 'create'),
+        outputSchema: envelopeOutput({ calendar: CALENDAR }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -144,6 +163,8 @@ export class CalendarTools {
       {
         name: 'get_calendar',
         description: 'Get detailed information about a specific calendar by ID',
+        annotations: toolAnnotations('Get Calendar', 'read'),
+        outputSchema: envelopeOutput({ calendar: CALENDAR }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -158,6 +179,8 @@ export class CalendarTools {
       {
         name: 'update_calendar',
         description: 'Update an existing calendar in GoHighLevel',
+        annotations: toolAnnotations('Update Calendar', 'update'),
+        outputSchema: envelopeOutput({ calendar: CALENDAR }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -200,6 +223,8 @@ export class CalendarTools {
       {
         name: 'delete_calendar',
         description: 'Delete a calendar from GoHighLevel',
+        annotations: toolAnnotations('Delete Calendar', 'delete'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -214,6 +239,8 @@ export class CalendarTools {
       {
         name: 'get_calendar_events',
         description: 'Get appointments/events from calendars within a date range',
+        annotations: toolAnnotations('Get Calendar Events', 'read'),
+        outputSchema: envelopeOutput({ events: listOf(CALENDAR_EVENT) }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -244,6 +271,8 @@ export class CalendarTools {
       {
         name: 'get_free_slots',
         description: 'Get available time slots for booking appointments on a specific calendar',
+        annotations: toolAnnotations('Get Free Slots', 'read'),
+        outputSchema: envelopeOutput({ freeSlots: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -274,6 +303,8 @@ export class CalendarTools {
       {
         name: 'create_appointment',
         description: 'Create a new appointment/booking in GoHighLevel',
+        annotations: toolAnnotations('Create Appointment', 'create'),
+        outputSchema: envelopeOutput({ appointment: CALENDAR_EVENT }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -287,10 +318,12 @@ export class CalendarTools {
             },
             startTime: {
               type: 'string',
+              format: 'date-time',
               description: 'Start time in ISO format (e.g., "2024-01-15T10:00:00-05:00")'
             },
             endTime: {
               type: 'string',
+              format: 'date-time',
               description: 'End time in ISO format (optional, will be calculated from slot duration if not provided)'
             },
             title: {
@@ -334,6 +367,8 @@ export class CalendarTools {
       {
         name: 'get_appointment',
         description: 'Get detailed information about a specific appointment by ID',
+        annotations: toolAnnotations('Get Appointment', 'read'),
+        outputSchema: envelopeOutput({ appointment: CALENDAR_EVENT }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -348,6 +383,8 @@ export class CalendarTools {
       {
         name: 'update_appointment',
         description: 'Update an existing appointment in GoHighLevel',
+        annotations: toolAnnotations('Update Appointment', 'update'),
+        outputSchema: envelopeOutput({ appointment: CALENDAR_EVENT }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -374,10 +411,12 @@ export class CalendarTools {
             },
             startTime: {
               type: 'string',
+              format: 'date-time',
               description: 'Updated start time in ISO format'
             },
             endTime: {
               type: 'string',
+              format: 'date-time',
               description: 'Updated end time in ISO format'
             },
             toNotify: {
@@ -392,6 +431,8 @@ export class CalendarTools {
       {
         name: 'delete_appointment',
         description: 'Cancel/delete an appointment from GoHighLevel',
+        annotations: toolAnnotations('Delete Appointment', 'delete'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -406,15 +447,19 @@ export class CalendarTools {
       {
         name: 'create_block_slot',
         description: 'Create a blocked time slot to prevent bookings during specific times',
+        annotations: toolAnnotations('Create Block Slot', 'create'),
+        outputSchema: envelopeOutput({ blockSlot: record }),
         inputSchema: {
           type: 'object',
           properties: {
             startTime: {
               type: 'string',
+              format: 'date-time',
               description: 'Start time of the block in ISO format (e.g., "2024-01-15T10:00:00-05:00")'
             },
             endTime: {
               type: 'string',
+              format: 'date-time',
               description: 'End time of the block in ISO format (e.g., "2024-01-15T12:00:00-05:00")'
             },
             title: {
@@ -436,6 +481,8 @@ export class CalendarTools {
       {
         name: 'update_block_slot',
         description: 'Update an existing blocked time slot',
+        annotations: toolAnnotations('Update Block Slot', 'update'),
+        outputSchema: envelopeOutput({ blockSlot: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -445,10 +492,12 @@ export class CalendarTools {
             },
             startTime: {
               type: 'string',
+              format: 'date-time',
               description: 'Updated start time in ISO format'
             },
             endTime: {
               type: 'string',
+              format: 'date-time',
               description: 'Updated end time in ISO format'
             },
             title: {
@@ -470,6 +519,8 @@ export class CalendarTools {
       {
         name: 'create_calendar_group',
         description: 'Create a new calendar group',
+        annotations: toolAnnotations('Create Calendar Group', 'create'),
+        outputSchema: envelopeOutput({ group: CALENDAR_GROUP }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -484,6 +535,8 @@ export class CalendarTools {
       {
         name: 'validate_group_slug',
         description: 'Validate if a calendar group slug is available',
+        annotations: toolAnnotations('Validate Group Slug', 'read'),
+        outputSchema: envelopeOutput({ available: boolean }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -496,6 +549,8 @@ export class CalendarTools {
       {
         name: 'update_calendar_group',
         description: 'Update calendar group details',
+        annotations: toolAnnotations('Update Calendar Group', 'update'),
+        outputSchema: envelopeOutput({ group: CALENDAR_GROUP }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -510,6 +565,8 @@ export class CalendarTools {
       {
         name: 'delete_calendar_group',
         description: 'Delete a calendar group',
+        annotations: toolAnnotations('Delete Calendar Group', 'delete'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -521,6 +578,8 @@ export class CalendarTools {
       {
         name: 'disable_calendar_group',
         description: 'Enable or disable a calendar group',
+        annotations: toolAnnotations('Enable or Disable Calendar Group', 'update'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -533,6 +592,8 @@ export class CalendarTools {
       {
         name: 'get_appointment_notes',
         description: 'Get notes for an appointment',
+        annotations: toolAnnotations('Get Appointment Notes', 'read'),
+        outputSchema: envelopeOutput({ notes: recordList }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -546,6 +607,8 @@ export class CalendarTools {
       {
         name: 'create_appointment_note',
         description: 'Create a note for an appointment',
+        annotations: toolAnnotations('Create Appointment Note', 'create'),
+        outputSchema: envelopeOutput({ note: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -559,6 +622,8 @@ export class CalendarTools {
       {
         name: 'update_appointment_note',
         description: 'Update an appointment note',
+        annotations: toolAnnotations('Update Appointment Note', 'update'),
+        outputSchema: envelopeOutput({ note: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -573,6 +638,8 @@ export class CalendarTools {
       {
         name: 'delete_appointment_note',
         description: 'Delete an appointment note',
+        annotations: toolAnnotations('Delete Appointment Note', 'delete'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -585,6 +652,8 @@ export class CalendarTools {
       {
         name: 'get_calendar_resources_equipments',
         description: 'Get calendar equipment resources',
+        annotations: toolAnnotations('Get Calendar Resources Equipments', 'read'),
+        outputSchema: envelopeOutput({ resources: recordList }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -596,6 +665,8 @@ export class CalendarTools {
       {
         name: 'create_calendar_resource_equipment',
         description: 'Create a calendar equipment resource',
+        annotations: toolAnnotations('Create Calendar Resource Equipment', 'create'),
+        outputSchema: envelopeOutput({ resource: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -612,6 +683,8 @@ export class CalendarTools {
       {
         name: 'get_calendar_resource_equipment',
         description: 'Get specific equipment resource details',
+        annotations: toolAnnotations('Get Calendar Resource Equipment', 'read'),
+        outputSchema: envelopeOutput({ resource: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -623,6 +696,8 @@ export class CalendarTools {
       {
         name: 'update_calendar_resource_equipment',
         description: 'Update equipment resource details',
+        annotations: toolAnnotations('Update Calendar Resource Equipment', 'update'),
+        outputSchema: envelopeOutput({ resource: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -641,6 +716,8 @@ export class CalendarTools {
       {
         name: 'delete_calendar_resource_equipment',
         description: 'Delete an equipment resource',
+        annotations: toolAnnotations('Delete Calendar Resource Equipment', 'delete'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -652,6 +729,8 @@ export class CalendarTools {
       {
         name: 'get_calendar_resources_rooms',
         description: 'Get calendar room resources',
+        annotations: toolAnnotations('Get Calendar Resources Rooms', 'read'),
+        outputSchema: envelopeOutput({ resources: recordList }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -663,6 +742,8 @@ export class CalendarTools {
       {
         name: 'create_calendar_resource_room',
         description: 'Create a calendar room resource',
+        annotations: toolAnnotations('Create Calendar Resource Room', 'create'),
+        outputSchema: envelopeOutput({ resource: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -679,6 +760,8 @@ export class CalendarTools {
       {
         name: 'get_calendar_resource_room',
         description: 'Get specific room resource details',
+        annotations: toolAnnotations('Get Calendar Resource Room', 'read'),
+        outputSchema: envelopeOutput({ resource: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -690,6 +773,8 @@ export class CalendarTools {
       {
         name: 'update_calendar_resource_room',
         description: 'Update room resource details',
+        annotations: toolAnnotations('Update Calendar Resource Room', 'update'),
+        outputSchema: envelopeOutput({ resource: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -708,6 +793,8 @@ export class CalendarTools {
       {
         name: 'delete_calendar_resource_room',
         description: 'Delete a room resource',
+        annotations: toolAnnotations('Delete Calendar Resource Room', 'delete'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -719,6 +806,8 @@ export class CalendarTools {
       {
         name: 'get_calendar_notifications',
         description: 'Get calendar notifications',
+        annotations: toolAnnotations('Get Calendar Notifications', 'read'),
+        outputSchema: envelopeOutput({ notifications: recordList }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -734,6 +823,8 @@ export class CalendarTools {
       {
         name: 'create_calendar_notifications',
         description: 'Create calendar notifications',
+        annotations: toolAnnotations('Create Calendar Notifications', 'create'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -762,6 +853,8 @@ export class CalendarTools {
       {
         name: 'get_calendar_notification',
         description: 'Get specific calendar notification',
+        annotations: toolAnnotations('Get Calendar Notification', 'read'),
+        outputSchema: envelopeOutput({ notification: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -774,6 +867,8 @@ export class CalendarTools {
       {
         name: 'update_calendar_notification',
         description: 'Update calendar notification',
+        annotations: toolAnnotations('Update Calendar Notification', 'update'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -794,6 +889,8 @@ export class CalendarTools {
       {
         name: 'delete_calendar_notification',
         description: 'Delete calendar notification',
+        annotations: toolAnnotations('Delete Calendar Notification', 'delete'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -806,6 +903,8 @@ export class CalendarTools {
       {
         name: 'get_blocked_slots',
         description: 'Get blocked time slots for a location',
+        annotations: toolAnnotations('Get Blocked Slots', 'read'),
+        outputSchema: envelopeOutput({ slots: recordList }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -821,131 +920,107 @@ export class CalendarTools {
     ];
   }
 
+  /**
+   * Register calendar tools with the shared tool registry
+   */
+  registerTools(registry: ToolRegistry): void {
+    registry.registerCategory('calendar', this.getToolDefinitions(), this.getToolHandlers());
+  }
+
+  /**
+   * Map each calendar tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
+      get_calendar_groups: (args) => this.getCalendarGroups(),
+
+      get_calendars: (args) => this.getCalendars(args as MCPGetCalendarsParams),
+
+      create_calendar: (args) => this.createCalendar(args as MCPCreateCalendarParams),
+
+      get_calendar: (args) => this.getCalendar(args.calendarId),
+
+      update_calendar: (args) => this.updateCalendar(args as MCPUpdateCalendarParams),
+
+      delete_calendar: (args) => this.deleteCalendar(args.calendarId),
+
+      get_calendar_events: (args) => this.getCalendarEvents(args as MCPGetCalendarEventsParams),
+
+      get_free_slots: (args) => this.getFreeSlots(args as MCPGetFreeSlotsParams),
+
+      create_appointment: (args) => this.createAppointment(args as MCPCreateAppointmentParams),
+
+      get_appointment: (args) => this.getAppointment(args.appointmentId),
+
+      update_appointment: (args) => this.updateAppointment(args as MCPUpdateAppointmentParams),
+
+      delete_appointment: (args) => this.deleteAppointment(args.appointmentId),
+
+      create_block_slot: (args) => this.createBlockSlot(args as MCPCreateBlockSlotParams),
+
+      update_block_slot: (args) => this.updateBlockSlot(args as MCPUpdateBlockSlotParams),
+
+      create_calendar_group: (args) => this.createCalendarGroup(args as MCPCreateCalendarGroupParams),
+
+      validate_group_slug: (args) => this.validateGroupSlug(args as MCPValidateGroupSlugParams),
+
+      update_calendar_group: (args) => this.updateCalendarGroup(args as MCPUpdateCalendarGroupParams),
+
+      delete_calendar_group: (args) => this.deleteCalendarGroup(args as MCPDeleteCalendarGroupParams),
+
+      disable_calendar_group: (args) => this.disableCalendarGroup(args as MCPDisableCalendarGroupParams),
+
+      get_appointment_notes: (args) => this.getAppointmentNotes(args as MCPGetAppointmentNotesParams),
+
+      create_appointment_note: (args) => this.createAppointmentNote(args as MCPCreateAppointmentNoteParams),
+
+      update_appointment_note: (args) => this.updateAppointmentNote(args as MCPUpdateAppointmentNoteParams),
+
+      delete_appointment_note: (args) => this.deleteAppointmentNote(args as MCPDeleteAppointmentNoteParams),
+
+      get_calendar_resources_equipments: (args) => this.getCalendarResourcesEquipments(args as MCPGetCalendarResourcesParams),
+
+      create_calendar_resource_equipment: (args) => this.createCalendarResourceEquipment(args as MCPCreateCalendarResourceParams),
+
+      get_calendar_resource_equipment: (args) => this.getCalendarResourceEquipment(args as MCPGetCalendarResourceParams),
+
+      update_calendar_resource_equipment: (args) => this.updateCalendarResourceEquipment(args as MCPUpdateCalendarResourceParams),
+
+      delete_calendar_resource_equipment: (args) => this.deleteCalendarResourceEquipment(args as MCPDeleteCalendarResourceParams),
+
+      get_calendar_resources_rooms: (args) => this.getCalendarResourcesRooms(args as MCPGetCalendarResourcesParams),
+
+      create_calendar_resource_room: (args) => this.createCalendarResourceRoom(args as MCPCreateCalendarResourceParams),
+
+      get_calendar_resource_room: (args) => this.getCalendarResourceRoom(args as MCPGetCalendarResourceParams),
+
+      update_calendar_resource_room: (args) => this.updateCalendarResourceRoom(args as MCPUpdateCalendarResourceParams),
+
+      delete_calendar_resource_room: (args) => this.deleteCalendarResourceRoom(args as MCPDeleteCalendarResourceParams),
+
+      get_calendar_notifications: (args) => this.getCalendarNotifications(args as MCPGetCalendarNotificationsParams),
+
+      create_calendar_notifications: (args) => this.createCalendarNotifications(args as MCPCreateCalendarNotificationParams),
+
+      get_calendar_notification: (args) => this.getCalendarNotification(args as MCPGetCalendarNotificationParams),
+
+      update_calendar_notification: (args) => this.updateCalendarNotification(args as MCPUpdateCalendarNotificationParams),
+
+      delete_calendar_notification: (args) => this.deleteCalendarNotification(args as MCPDeleteCalendarNotificationParams),
+
+      get_blocked_slots: (args) => this.getBlockedSlots(args as MCPGetBlockedSlotsParams)
+    };
+  }
+
   /**
    * Execute calendar tool based on tool name and arguments
    */
   async executeTool(name: string, args: any): Promise<any> {
-    switch (name) {
-      case 'get_calendar_groups':
-        return this.getCalendarGroups();
-      
-      case 'get_calendars':
-        return this.getCalendars(args as MCPGetCalendarsParams);
-      
-      case 'create_calendar':
-        return this.createCalendar(args as MCPCreateCalendarParams);
-      
-      case 'get_calendar':
-        return this.getCalendar(args.calendarId);
-      
-      case 'update_calendar':
-        return this.updateCalendar(args as MCPUpdateCalendarParams);
-      
-      case 'delete_calendar':
-        return this.deleteCalendar(args.calendarId);
-      
-      case 'get_calendar_events':
-        return this.getCalendarEvents(args as MCPGetCalendarEventsParams);
-      
-      case 'get_free_slots':
-        return this.getFreeSlots(args as MCPGetFreeSlotsParams);
-      
-      case 'create_appointment':
-        return this.createAppointment(args as MCPCreateAppointmentParams);
-      
-      case 'get_appointment':
-        return this.getAppointment(args.appointmentId);
-      
-      case 'update_appointment':
-        return this.updateAppointment(args as MCPUpdateAppointmentParams);
-      
-      case 'delete_appointment':
-        return this.deleteAppointment(args.appointmentId);
-      
-      case 'create_block_slot':
-        return this.createBlockSlot(args as MCPCreateBlockSlotParams);
-      
-      case 'update_block_slot':
-        return this.updateBlockSlot(args as MCPUpdateBlockSlotParams);
-      
-      case 'create_calendar_group':
-        return this.createCalendarGroup(args as MCPCreateCalendarGroupParams);
-      
-      case 'validate_group_slug':
-        return this.validateGroupSlug(args as MCPValidateGroupSlugParams);
-      
-      case 'update_calendar_group':
-        return this.updateCalendarGroup(args as MCPUpdateCalendarGroupParams);
-      
-      case 'delete_calendar_group':
-        return this.deleteCalendarGroup(args as MCPDeleteCalendarGroupParams);
-      
-      case 'disable_calendar_group':
-        return this.disableCalendarGroup(args as MCPDisableCalendarGroupParams);
-      
-      case 'get_appointment_notes':
-        return this.getAppointmentNotes(args as MCPGetAppointmentNotesParams);
-      
-      case 'create_appointment_note':
-        return this.createAppointmentNote(args as MCPCreateAppointmentNoteParams);
-      
-      case 'update_appointment_note':
-        return this.updateAppointmentNote(args as MCPUpdateAppointmentNoteParams);
-      
-      case 'delete_appointment_note':
-        return this.deleteAppointmentNote(args as MCPDeleteAppointmentNoteParams);
-      
-      case 'get_calendar_resources_equipments':
-        return this.getCalendarResourcesEquipments(args as MCPGetCalendarResourcesParams);
-      
-      case 'create_calendar_resource_equipment':
-        return this.createCalendarResourceEquipment(args as MCPCreateCalendarResourceParams);
-      
-      case 'get_calendar_resource_equipment':
-        return this.getCalendarResourceEquipment(args as MCPGetCalendarResourceParams);
-      
-      case 'update_calendar_resource_equipment':
-        return this.updateCalendarResourceEquipment(args as MCPUpdateCalendarResourceParams);
-      
-      case 'delete_calendar_resource_equipment':
-        return this.deleteCalendarResourceEquipment(args as MCPDeleteCalendarResourceParams);
-      
-      case 'get_calendar_resources_rooms':
-        return this.getCalendarResourcesRooms(args as MCPGetCalendarResourcesParams);
-      
-      case 'create_calendar_resource_room':
-        return this.createCalendarResourceRoom(args as MCPCreateCalendarResourceParams);
-      
-      case 'get_calendar_resource_room':
-        return this.getCalendarResourceRoom(args as MCPGetCalendarResourceParams);
-      
-      case 'update_calendar_resource_room':
-        return this.updateCalendarResourceRoom(args as MCPUpdateCalendarResourceParams);
-      
-      case 'delete_calendar_resource_room':
-        return this.deleteCalendarResourceRoom(args as MCPDeleteCalendarResourceParams);
-      
-      case 'get_calendar_notifications':
-        return this.getCalendarNotifications(args as MCPGetCalendarNotificationsParams);
-      
-      case 'create_calendar_notifications':
-        return this.createCalendarNotifications(args as MCPCreateCalendarNotificationParams);
-      
-      case 'get_calendar_notification':
-        return this.getCalendarNotification(args as MCPGetCalendarNotificationParams);
-      
-      case 'update_calendar_notification':
-        return this.updateCalendarNotification(args as MCPUpdateCalendarNotificationParams);
-      
-      case 'delete_calendar_notification':
-        return this.deleteCalendarNotification(args as MCPDeleteCalendarNotificationParams);
-      
-      case 'get_blocked_slots':
-        return this.getBlockedSlots(args as MCPGetBlockedSlotsParams);
-      
-      default:
-        throw new Error(`Unknown calendar tool: ${name}`);
+    const handler = this.getToolHandlers()[name];
+    if (!handler) {
+      throw new Error(`Unknown calendar tool: ${name}`);
     }
+    return await handler(args);
   }
 
   /**
@@ -970,7 +1045,7 @@ export class CalendarTools {
       };
     } catch (error) {
       process.stderr.write(`[GHL MCP] Get calendar groups error: ${JSON.stringify(error, null, 2)}\n`);
-      throw new Error(`Failed to get calendar groups: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get calendar groups', error);
     }
   }
 
@@ -995,7 +1070,7 @@ export class CalendarTools {
         message: `Retrieved ${calendars.length} calendars`
       };
     } catch (error) {
-      throw new Error(`Failed to get calendars: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get calendars', error);
     }
   }
 
@@ -1032,7 +1107,7 @@ export class CalendarTools {
         message: `Calendar created successfully with ID: ${response.data.calendar.id}`
       };
     } catch (error) {
-      throw new Error(`Failed to create calendar: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to create calendar', error);
     }
   }
 
@@ -1054,7 +1129,7 @@ export class CalendarTools {
         message: 'Calendar retrieved successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to get calendar: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get calendar', error);
     }
   }
 
@@ -1078,7 +1153,7 @@ export class CalendarTools {
         message: 'Calendar updated successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to update calendar: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to update calendar', error);
     }
   }
 
@@ -1099,7 +1174,7 @@ export class CalendarTools {
         message: 'Calendar deleted successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to delete calendar: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to delete calendar', error);
     }
   }
 
@@ -1137,7 +1212,7 @@ export class CalendarTools {
         message: `Retrieved ${events.length} calendar events`
       };
     } catch (error) {
-      throw new Error(`Failed to get calendar events: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get calendar events', error);
     }
   }
 
@@ -1171,7 +1246,7 @@ export class CalendarTools {
         message: 'Free slots retrieved successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to get free slots: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get free slots', error);
     }
   }
 
@@ -1208,7 +1283,7 @@ export class CalendarTools {
         message: `Appointment created successfully with ID: ${response.data.id}`
       };
     } catch (error) {
-      throw new Error(`Failed to create appointment: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to create appointment', error);
     }
   }
 
@@ -1230,7 +1305,7 @@ export class CalendarTools {
         message: 'Appointment retrieved successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to get appointment: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get appointment', error);
     }
   }
 
@@ -1254,7 +1329,7 @@ export class CalendarTools {
         message: 'Appointment updated successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to update appointment: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to update appointment', error);
     }
   }
 
@@ -1275,7 +1350,7 @@ export class CalendarTools {
         message: 'Appointment deleted successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to delete appointment: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to delete appointment', error);
     }
   }
 
@@ -1306,7 +1381,7 @@ export class CalendarTools {
         message: `Block slot created successfully with ID: ${response.data.id}`
       };
     } catch (error) {
-      throw new Error(`Failed to create block slot: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to create block slot', error);
     }
   }
 
@@ -1330,7 +1405,7 @@ export class CalendarTools {
         message: 'Block slot updated successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to update block slot: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to update block slot', error);
     }
   }
 
@@ -1397,7 +1472,7 @@ export class CalendarTools {
         message: `Calendar group created successfully with slug: ${params.slug}`
       };
     } catch (error) {
-      throw new Error(`Failed to create calendar group: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to create calendar group', error);
     }
   }
 
@@ -1420,7 +1495,7 @@ export class CalendarTools {
         message: response.data.available ? 'Slug is available' : 'Slug is not available'
       };
     } catch (error) {
-      throw new Error(`Failed to validate group slug: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to validate group slug', error);
     }
   }
 
@@ -1443,7 +1518,7 @@ export class CalendarTools {
         message: 'Calendar group updated successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to update calendar group: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to update calendar group', error);
     }
   }
 
@@ -1464,7 +1539,7 @@ export class CalendarTools {
         message: 'Calendar group deleted successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to delete calendar group: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to delete calendar group', error);
     }
   }
 
@@ -1485,7 +1560,7 @@ export class CalendarTools {
         message: `Calendar group ${params.isActive ? 'enabled' : 'disabled'} successfully`
       };
     } catch (error) {
-      throw new Error(`Failed to disable calendar group: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to disable calendar group', error);
     }
   }
 
@@ -1509,7 +1584,7 @@ export class CalendarTools {
         message: `Retrieved ${notes.length} appointment notes`
       };
     } catch (error) {
-      throw new Error(`Failed to get appointment notes: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get appointment notes', error);
     }
   }
 
@@ -1532,7 +1607,7 @@ export class CalendarTools {
         message: 'Appointment note created successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to create appointment note: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to create appointment note', error);
     }
   }
 
@@ -1555,7 +1630,7 @@ export class CalendarTools {
         message: 'Appointment note updated successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to update appointment note: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to update appointment note', error);
     }
   }
 
@@ -1576,7 +1651,7 @@ export class CalendarTools {
         message: 'Appointment note deleted successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to delete appointment note: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to delete appointment note', error);
     }
   }
 
@@ -1601,7 +1676,7 @@ export class CalendarTools {
         message: `Retrieved ${resources.length} equipment resources`
       };
     } catch (error) {
-      throw new Error(`Failed to get equipment resources: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get equipment resources', error);
     }
   }
 
@@ -1627,7 +1702,7 @@ export class CalendarTools {
         message: 'Equipment resource created successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to create equipment resource: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to create equipment resource', error);
     }
   }
 
@@ -1649,7 +1724,7 @@ export class CalendarTools {
         message: 'Equipment resource retrieved successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to get equipment resource: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get equipment resource', error);
     }
   }
 
@@ -1672,7 +1747,7 @@ export class CalendarTools {
         message: 'Equipment resource updated successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to update equipment resource: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to update equipment resource', error);
     }
   }
 
@@ -1693,7 +1768,7 @@ export class CalendarTools {
         message: 'Equipment resource deleted successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to delete equipment resource: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to delete equipment resource', error);
     }
   }
 
@@ -1718,7 +1793,7 @@ export class CalendarTools {
         message: `Retrieved ${resources.length} room resources`
       };
     } catch (error) {
-      throw new Error(`Failed to get room resources: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get room resources', error);
     }
   }
 
@@ -1744,7 +1819,7 @@ export class CalendarTools {
         message: 'Room resource created successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to create room resource: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to create room resource', error);
     }
   }
 
@@ -1766,7 +1841,7 @@ export class CalendarTools {
         message: 'Room resource retrieved successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to get room resource: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get room resource', error);
     }
   }
 
@@ -1789,7 +1864,7 @@ export class CalendarTools {
         message: 'Room resource updated successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to update room resource: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to update room resource', error);
     }
   }
 
@@ -1810,7 +1885,7 @@ export class CalendarTools {
         message: 'Room resource deleted successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to delete room resource: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to delete room resource', error);
     }
   }
 
@@ -1834,7 +1909,7 @@ export class CalendarTools {
         message: `Retrieved ${notifications.length} calendar notifications`
       };
     } catch (error) {
-      throw new Error(`Failed to get calendar notifications: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get calendar notifications', error);
     }
   }
 
@@ -1856,7 +1931,7 @@ export class CalendarTools {
         message: 'Calendar notifications created successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to create calendar notifications: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to create calendar notifications', error);
     }
   }
 
@@ -1878,7 +1953,7 @@ export class CalendarTools {
         message: 'Calendar notification retrieved successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to get calendar notification: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get calendar notification', error);
     }
   }
 
@@ -1900,7 +1975,7 @@ export class CalendarTools {
         message: 'Calendar notification updated successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to update calendar notification: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to update calendar notification', error);
     }
   }
 
@@ -1921,7 +1996,7 @@ export class CalendarTools {
         message: 'Calendar notification deleted successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to delete calendar notification: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to delete calendar notification', error);
     }
   }
 
@@ -1954,7 +2029,7 @@ export class CalendarTools {
         message: `Retrieved ${slots.length} blocked time slots`
       };
     } catch (error) {
-      throw new Error(`Failed to get blocked slots: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get blocked slots', error);
     }
   }
 } 
\ No newline at end of file
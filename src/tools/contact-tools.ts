@@ -5,6 +5,31 @@
 
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { collect, getFetchAllLimit } from '../clients/paginator.js';
+import { GHLRequestCancelledError, withErrorContext } from '../clients/ghl-api-error.js';
+import { getOtpService, OtpChannel, OtpService, OtpTarget } from '../otp/otp-service.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { ToolCallContext } from './tool-context.js';
+import { PhoneNumberInfo, PhoneNumberNormalizer } from './phone-numbers.js';
+import { toolAnnotations } from './tool-annotations.js';
+import {
+  outputSchema,
+  entityOutput,
+  itemsOutput,
+  envelopeOutput,
+  listOf,
+  text,
+  number,
+  boolean,
+  timestamp,
+  recordList,
+  textList,
+  anything,
+  CONTACT,
+  TASK,
+  NOTE,
+  APPOINTMENT
+} from './output-schemas.js';
 import {
   MCPCreateContactParams,
   MCPSearchContactsParams,
@@ -27,6 +52,7 @@ import {
   // Advanced Operations
   MCPUpsertContactParams,
   MCPGetDuplicateContactParams,
+  MCPValidatePhoneNumberParams,
   MCPGetContactsByBusinessParams,
   MCPGetContactAppointmentsParams,
   // Bulk Operations
@@ -54,12 +80,27 @@ import {
   GHLFollowersResponse
 } from '../types/ghl-types.js';
 
+// Contacts sent to GHL per bulk request; bulk tools checkpoint after each batch
+const BULK_BATCH_SIZE = 100;
+
+/**
+ * Progress of a bulk update: the number of contacts done and the merged result of their batches
+ */
+interface BulkCheckpoint<T> {
+  done: number;
+  merged: T;
+}
+
 /**
  * Contact Tools class
  * Provides comprehensive contact management capabilities
  */
-export class ContactTools {
-  constructor(private ghlClient: GHLApiClient) {}
+export class ContactTools implements ToolProvider {
+  private phoneNumbers: PhoneNumberNormalizer;
+
+  constructor(private ghlClient: GHLApiClient, private otp: OtpService = getOtpService()) {
+    this.phoneNumbers = new PhoneNumberNormalizer(ghlClient);
+  }
 
   /**
    * Get tool definitions for all contact operations
@@ -70,13 +111,15 @@ export class ContactTools {
       {
         name: 'create_contact',
         description: 'Create a new contact in GoHighLevel',
+        annotations: toolAnnotations('Create Contact', 'create'),
+        outputSchema: entityOutput(CONTACT),
         inputSchema: {
           type: 'object',
           properties: {
             firstName: { type: 'string', description: 'Contact first name' },
             lastName: { type: 'string', description: 'Contact last name' },
-            email: { type: 'string', description: 'Contact email address' },
-            phone: { type: 'string', description: 'Contact phone number' },
+            email: { type: 'string', format: 'email', description: 'Contact email address' },
+            phone: { type: 'string', format: 'phone', description: 'Contact phone number' },
             tags: { type: 'array', items: { type: 'string' }, description: 'Tags to assign to contact' },
             source: { type: 'string', description: 'Source of the contact' }
           },
@@ -86,6 +129,8 @@ export class ContactTools {
       {
         name: 'search_contacts',
         description: 'Search for contacts by email, phone, or name. CRITICAL: Always use the "query" parameter - never use email or phone parameters as they cause API errors.',
+        annotations: toolAnnotations('Search Contacts', 'read'),
+        outputSchema: outputSchema({ contacts: listOf(CONTACT), total: number, searchAfter: anything, truncated: boolean }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -93,7 +138,9 @@ export class ContactTools {
               type: 'string', 
               description: 'REQUIRED: Use this for email addresses, phone numbers, or names. Examples: "john@example.com", "+1234567890", "John Smith"' 
             },
-            limit: { type: 'number', description: 'Maximum number of results (default: 25)' }
+            limit: { type: 'number', description: 'Maximum number of results (default: 25)' },
+            fetchAll: { type: 'boolean', description: 'Page through all matching contacts instead of returning one page (capped at 5000)' },
+            maxResults: { type: 'number', description: 'Page through matching contacts until this many are collected (max: 5000)', minimum: 1, maximum: 5000 }
           },
           required: ['query']
         }
@@ -101,6 +148,8 @@ export class ContactTools {
       {
         name: 'get_contact',
         description: 'Get detailed information about a specific contact',
+        annotations: toolAnnotations('Get Contact', 'read'),
+        outputSchema: entityOutput(CONTACT),
         inputSchema: {
           type: 'object',
           properties: {
@@ -112,14 +161,16 @@ export class ContactTools {
       {
         name: 'update_contact',
         description: 'Update contact information including custom fields',
+        annotations: toolAnnotations('Update Contact', 'update'),
+        outputSchema: entityOutput(CONTACT),
         inputSchema: {
           type: 'object',
           properties: {
             contactId: { type: 'string', description: 'Contact ID' },
             firstName: { type: 'string', description: 'Contact first name' },
             lastName: { type: 'string', description: 'Contact last name' },
-            email: { type: 'string', description: 'Contact email address' },
-            phone: { type: 'string', description: 'Contact phone number' },
+            email: { type: 'string', format: 'email', description: 'Contact email address' },
+            phone: { type: 'string', format: 'phone', description: 'Contact phone number' },
             tags: { type: 'array', items: { type: 'string' }, description: 'Tags to assign to contact' },
             customFields: { 
               type: 'object', 
@@ -133,6 +184,8 @@ export class ContactTools {
       {
         name: 'delete_contact',
         description: 'Delete a contact from GoHighLevel',
+        annotations: toolAnnotations('Delete Contact', 'delete'),
+        outputSchema: outputSchema({ succeded: boolean }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -144,6 +197,8 @@ export class ContactTools {
       {
         name: 'add_contact_tags',
         description: 'Add tags to a contact',
+        annotations: toolAnnotations('Add Contact Tags', 'create', { idempotentHint: true }),
+        outputSchema: outputSchema({ tags: textList }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -156,6 +211,8 @@ export class ContactTools {
       {
         name: 'remove_contact_tags',
         description: 'Remove tags from a contact',
+        annotations: toolAnnotations('Remove Contact Tags', 'delete'),
+        outputSchema: outputSchema({ tags: textList }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -170,6 +227,8 @@ export class ContactTools {
       {
         name: 'get_contact_tasks',
         description: 'Get all tasks for a contact',
+        annotations: toolAnnotations('Get Contact Tasks', 'read'),
+        outputSchema: itemsOutput(TASK),
         inputSchema: {
           type: 'object',
           properties: {
@@ -181,13 +240,15 @@ export class ContactTools {
       {
         name: 'create_contact_task',
         description: 'Create a new task for a contact',
+        annotations: toolAnnotations('Create Contact Task', 'create'),
+        outputSchema: entityOutput(TASK),
         inputSchema: {
           type: 'object',
           properties: {
             contactId: { type: 'string', description: 'Contact ID' },
             title: { type: 'string', description: 'Task title' },
             body: { type: 'string', description: 'Task description' },
-            dueDate: { type: 'string', description: 'Due date (ISO format)' },
+            dueDate: { type: 'string', format: 'date-time', description: 'Due date (ISO format)' },
             completed: { type: 'boolean', description: 'Task completion status' },
             assignedTo: { type: 'string', description: 'User ID to assign task to' }
           },
@@ -197,6 +258,8 @@ export class ContactTools {
       {
         name: 'get_contact_task',
         description: 'Get a specific task for a contact',
+        annotations: toolAnnotations('Get Contact Task', 'read'),
+        outputSchema: entityOutput(TASK),
         inputSchema: {
           type: 'object',
           properties: {
@@ -209,6 +272,8 @@ export class ContactTools {
       {
         name: 'update_contact_task',
         description: 'Update a task for a contact',
+        annotations: toolAnnotations('Update Contact Task', 'update'),
+        outputSchema: entityOutput(TASK),
         inputSchema: {
           type: 'object',
           properties: {
@@ -216,7 +281,7 @@ export class ContactTools {
             taskId: { type: 'string', description: 'Task ID' },
             title: { type: 'string', description: 'Task title' },
             body: { type: 'string', description: 'Task description' },
-            dueDate: { type: 'string', description: 'Due date (ISO format)' },
+            dueDate: { type: 'string', format: 'date-time', description: 'Due date (ISO format)' },
             completed: { type: 'boolean', description: 'Task completion status' },
             assignedTo: { type: 'string', description: 'User ID to assign task to' }
           },
@@ -226,6 +291,8 @@ export class ContactTools {
       {
         name: 'delete_contact_task',
         description: 'Delete a task for a contact',
+        annotations: toolAnnotations('Delete Contact Task', 'delete'),
+        outputSchema: outputSchema({ succeded: boolean }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -238,6 +305,8 @@ export class ContactTools {
       {
         name: 'update_task_completion',
         description: 'Update task completion status',
+        annotations: toolAnnotations('Update Task Completion', 'update'),
+        outputSchema: entityOutput(TASK),
         inputSchema: {
           type: 'object',
           properties: {
@@ -253,6 +322,8 @@ export class ContactTools {
       {
         name: 'get_contact_notes',
         description: 'Get all notes for a contact',
+        annotations: toolAnnotations('Get Contact Notes', 'read'),
+        outputSchema: itemsOutput(NOTE),
         inputSchema: {
           type: 'object',
           properties: {
@@ -264,6 +335,8 @@ export class ContactTools {
       {
         name: 'create_contact_note',
         description: 'Create a new note for a contact',
+        annotations: toolAnnotations('Create Contact Note', 'create'),
+        outputSchema: entityOutput(NOTE),
         inputSchema: {
           type: 'object',
           properties: {
@@ -277,6 +350,8 @@ export class ContactTools {
       {
         name: 'get_contact_note',
         description: 'Get a specific note for a contact',
+        annotations: toolAnnotations('Get Contact Note', 'read'),
+        outputSchema: entityOutput(NOTE),
         inputSchema: {
           type: 'object',
           properties: {
@@ -289,6 +364,8 @@ export class ContactTools {
       {
         name: 'update_contact_note',
         description: 'Update a note for a contact',
+        annotations: toolAnnotations('Update Contact Note', 'update'),
+        outputSchema: entityOutput(NOTE),
         inputSchema: {
           type: 'object',
           properties: {
@@ -303,6 +380,8 @@ export class ContactTools {
       {
         name: 'delete_contact_note',
         description: 'Delete a note for a contact',
+        annotations: toolAnnotations('Delete Contact Note', 'delete'),
+        outputSchema: outputSchema({ succeded: boolean }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -317,13 +396,15 @@ export class ContactTools {
       {
         name: 'upsert_contact',
         description: 'Create or update contact based on email/phone (smart merge)',
+        annotations: toolAnnotations('Upsert Contact', 'update'),
+        outputSchema: outputSchema({ contact: CONTACT, new: boolean, traceId: text }),
         inputSchema: {
           type: 'object',
           properties: {
             firstName: { type: 'string', description: 'Contact first name' },
             lastName: { type: 'string', description: 'Contact last name' },
-            email: { type: 'string', description: 'Contact email address' },
-            phone: { type: 'string', description: 'Contact phone number' },
+            email: { type: 'string', format: 'email', description: 'Contact email address' },
+            phone: { type: 'string', format: 'phone', description: 'Contact phone number' },
             tags: { type: 'array', items: { type: 'string' }, description: 'Tags to assign to contact' },
             source: { type: 'string', description: 'Source of the contact' },
             assignedTo: { type: 'string', description: 'User ID to assign contact to' }
@@ -333,17 +414,47 @@ export class ContactTools {
       {
         name: 'get_duplicate_contact',
         description: 'Check for duplicate contacts by email or phone',
+        annotations: toolAnnotations('Get Duplicate Contact', 'read'),
+        outputSchema: entityOutput(CONTACT),
         inputSchema: {
           type: 'object',
           properties: {
-            email: { type: 'string', description: 'Email to check for duplicates' },
-            phone: { type: 'string', description: 'Phone to check for duplicates' }
+            email: { type: 'string', format: 'email', description: 'Email to check for duplicates' },
+            phone: { type: 'string', format: 'phone', description: 'Phone to check for duplicates' }
           }
         }
       },
+      {
+        name: 'validate_phone_number',
+        description: 'Check a phone number against the numbering plan of its country: whether it is valid, its E.164 form, its country and whether it is a mobile or a landline. Numbers without a country code are read in the location\'s country.',
+        annotations: toolAnnotations('Validate Phone Number', 'read'),
+        outputSchema: outputSchema({
+          input: text,
+          valid: boolean,
+          e164: text,
+          country: text,
+          countryCallingCode: text,
+          nationalFormat: text,
+          internationalFormat: text,
+          type: text,
+          canReceiveMessages: boolean,
+          defaultCountry: text,
+          reason: text
+        }),
+        inputSchema: {
+          type: 'object',
+          properties: {
+            phone: { type: 'string', description: 'Phone number in any common format' },
+            country: { type: 'string', description: 'ISO 3166-1 alpha-2 country to read the number in when it has no country code (default: the location\'s country)' }
+          },
+          required: ['phone']
+        }
+      },
       {
         name: 'get_contacts_by_business',
         description: 'Get contacts associated with a specific business',
+        annotations: toolAnnotations('Get Contacts by Business', 'read'),
+        outputSchema: outputSchema({ contacts: listOf(CONTACT), total: number, searchAfter: anything, truncated: boolean }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -358,6 +469,8 @@ export class ContactTools {
       {
         name: 'get_contact_appointments',
         description: 'Get all appointments for a contact',
+        annotations: toolAnnotations('Get Contact Appointments', 'read'),
+        outputSchema: itemsOutput(APPOINTMENT),
         inputSchema: {
           type: 'object',
           properties: {
@@ -370,7 +483,9 @@ export class ContactTools {
       // Bulk Operations
       {
         name: 'bulk_update_contact_tags',
-        description: 'Bulk add or remove tags from multiple contacts',
+        description: `Bulk add or remove tags from multiple contacts, ${BULK_BATCH_SIZE} at a time. Reports progress; when cancelled, returns the results of the batches already done. Can run as a background job (start_job).`,
+        annotations: toolAnnotations('Bulk Update Contact Tags', 'update'),
+        outputSchema: outputSchema({ succeeded: boolean, errorCount: number, responses: recordList }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -384,7 +499,9 @@ export class ContactTools {
       },
       {
         name: 'bulk_update_contact_business',
-        description: 'Bulk update business association for multiple contacts',
+        description: `Bulk update business association for multiple contacts, ${BULK_BATCH_SIZE} at a time. Reports progress; when cancelled, returns the IDs of the batches already done. Can run as a background job (start_job).`,
+        annotations: toolAnnotations('Bulk Update Contact Business', 'update'),
+        outputSchema: outputSchema({ success: boolean, ids: textList }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -399,6 +516,8 @@ export class ContactTools {
       {
         name: 'add_contact_followers',
         description: 'Add followers to a contact',
+        annotations: toolAnnotations('Add Contact Followers', 'create', { idempotentHint: true }),
+        outputSchema: outputSchema({ followers: textList, followersAdded: textList }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -411,6 +530,8 @@ export class ContactTools {
       {
         name: 'remove_contact_followers',
         description: 'Remove followers from a contact',
+        annotations: toolAnnotations('Remove Contact Followers', 'delete'),
+        outputSchema: outputSchema({ followers: textList, followersRemoved: textList }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -425,6 +546,8 @@ export class ContactTools {
       {
         name: 'add_contact_to_campaign',
         description: 'Add contact to a marketing campaign',
+        annotations: toolAnnotations('Add Contact to Campaign', 'outreach'),
+        outputSchema: outputSchema({ succeded: boolean }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -437,6 +560,8 @@ export class ContactTools {
       {
         name: 'remove_contact_from_campaign',
         description: 'Remove contact from a specific campaign',
+        annotations: toolAnnotations('Remove Contact from Campaign', 'delete'),
+        outputSchema: outputSchema({ succeded: boolean }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -449,6 +574,8 @@ export class ContactTools {
       {
         name: 'remove_contact_from_all_campaigns',
         description: 'Remove contact from all campaigns',
+        annotations: toolAnnotations('Remove Contact from All Campaigns', 'delete'),
+        outputSchema: outputSchema({ succeded: boolean }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -462,12 +589,14 @@ export class ContactTools {
       {
         name: 'add_contact_to_workflow',
         description: 'Add contact to a workflow',
+        annotations: toolAnnotations('Add Contact to Workflow', 'outreach'),
+        outputSchema: outputSchema({ succeded: boolean }),
         inputSchema: {
           type: 'object',
           properties: {
             contactId: { type: 'string', description: 'Contact ID' },
             workflowId: { type: 'string', description: 'Workflow ID' },
-            eventStartTime: { type: 'string', description: 'Event start time (ISO format)' }
+            eventStartTime: { type: 'string', format: 'date-time', description: 'Event start time (ISO format)' }
           },
           required: ['contactId', 'workflowId']
         }
@@ -475,12 +604,14 @@ export class ContactTools {
       {
         name: 'remove_contact_from_workflow',
         description: 'Remove contact from a workflow',
+        annotations: toolAnnotations('Remove Contact from Workflow', 'delete'),
+        outputSchema: outputSchema({ succeded: boolean }),
         inputSchema: {
           type: 'object',
           properties: {
             contactId: { type: 'string', description: 'Contact ID' },
             workflowId: { type: 'string', description: 'Workflow ID' },
-            eventStartTime: { type: 'string', description: 'Event start time (ISO format)' }
+            eventStartTime: { type: 'string', format: 'date-time', description: 'Event start time (ISO format)' }
           },
           required: ['contactId', 'workflowId']
         }
@@ -489,11 +620,13 @@ export class ContactTools {
       // OTP/Verification Tools
       {
         name: 'start_email_verification',
-        description: 'Start email verification process by triggering GHL workflow',
+        description: 'Start email verification: finds or creates the contact and emails it a one-time code. Check the code with verify_code.',
+        annotations: toolAnnotations('Start Email Verification', 'outreach'),
+        outputSchema: envelopeOutput({ contactId: text, expiresAt: timestamp, instructions: text }),
         inputSchema: {
           type: 'object',
           properties: {
-            email: { type: 'string', description: 'Email address to verify' },
+            email: { type: 'string', format: 'email', description: 'Email address to verify' },
             firstName: { type: 'string', description: 'User first name (optional)' },
             lastName: { type: 'string', description: 'User last name (optional)' }
           },
@@ -502,11 +635,13 @@ export class ContactTools {
       },
       {
         name: 'start_sms_verification',
-        description: 'Start SMS verification process by adding sms-code tag',
+        description: 'Start SMS verification: texts a one-time code to the contact\'s phone. Check the code with verify_code.',
+        annotations: toolAnnotations('Start SMS Verification', 'outreach'),
+        outputSchema: envelopeOutput({ contactId: text, expiresAt: timestamp, instructions: text }),
         inputSchema: {
           type: 'object',
           properties: {
-            phone: { type: 'string', description: 'Phone number to verify' },
+            phone: { type: 'string', format: 'phone', description: 'Phone number to verify' },
             firstName: { type: 'string', description: 'User first name (optional)' },
             lastName: { type: 'string', description: 'User last name (optional)' },
             contactId: { type: 'string', description: 'Existing contact ID to update with phone (widget flow - optional)' }
@@ -516,11 +651,13 @@ export class ContactTools {
       },
       {
         name: 'start_whatsapp_verification',
-        description: 'Start WhatsApp verification process by adding whatsapp-code tag',
+        description: 'Start WhatsApp verification: sends a one-time code to the contact\'s phone on WhatsApp. Check the code with verify_code.',
+        annotations: toolAnnotations('Start WhatsApp Verification', 'outreach'),
+        outputSchema: envelopeOutput({ contactId: text, expiresAt: timestamp, instructions: text }),
         inputSchema: {
           type: 'object',
           properties: {
-            phone: { type: 'string', description: 'Phone number to verify' },
+            phone: { type: 'string', format: 'phone', description: 'Phone number to verify' },
             firstName: { type: 'string', description: 'User first name (optional)' },
             lastName: { type: 'string', description: 'User last name (optional)' },
             contactId: { type: 'string', description: 'Existing contact ID to update with phone (widget flow - optional)' }
@@ -530,12 +667,14 @@ export class ContactTools {
       },
       {
         name: 'verify_code',
-        description: 'Verify the 6-digit code for email, SMS, or WhatsApp verification',
+        description: 'Verify the one-time code the contact received by email, SMS, or WhatsApp. A wrong code uses up one of a limited number of attempts.',
+        annotations: toolAnnotations('Verify Code', 'update'),
+        outputSchema: envelopeOutput({ contactId: text, verifiedMethod: text, reason: text, attemptsRemaining: number }),
         inputSchema: {
           type: 'object',
           properties: {
             contactId: { type: 'string', description: 'Contact ID (from previous search_contacts call)' },
-            code: { type: 'string', description: '6-digit verification code from user' },
+            code: { type: 'string', description: 'Verification code from user' },
             method: { type: 'string', enum: ['email', 'sms', 'whatsapp'], description: 'Verification method' }
           },
           required: ['contactId', 'code', 'method']
@@ -543,7 +682,9 @@ export class ContactTools {
       },
       {
         name: 'resend_verification_code',
-        description: 'Resend verification code by clearing old code and restarting verification process',
+        description: 'Send a new verification code, replacing the pending one. Codes can only be resent after a short wait and a limited number of times per hour.',
+        annotations: toolAnnotations('Resend Verification Code', 'outreach'),
+        outputSchema: envelopeOutput({ contactId: text, method: text, expiresAt: timestamp, instructions: text }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -556,10 +697,12 @@ export class ContactTools {
       {
         name: 'check_verification_status',
         description: 'Check if an email address has been verified recently',
+        annotations: toolAnnotations('Check Verification Status', 'read'),
+        outputSchema: outputSchema({ verified: boolean, exists: boolean, contactId: text, verificationDate: timestamp, message: text }),
         inputSchema: {
           type: 'object',
           properties: {
-            email: { type: 'string', description: 'Email address to check' }
+            email: { type: 'string', format: 'email', description: 'Email address to check' }
           },
           required: ['email']
         }
@@ -567,107 +710,88 @@ export class ContactTools {
     ];
   }
 
+  /**
+   * Register contact tools with the shared tool registry
+   */
+  registerTools(registry: ToolRegistry): void {
+    registry.registerCategory('contacts', this.getToolDefinitions(), this.getToolHandlers(), {
+      jobs: ['bulk_update_contact_tags', 'bulk_update_contact_business']
+    });
+  }
+
+  /**
+   * Map each contact tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
+      // Basic Contact Management
+      create_contact: (params) => this.createContact(params as MCPCreateContactParams),
+      search_contacts: (params) => this.searchContacts(params as MCPSearchContactsParams),
+      get_contact: (params) => this.getContact(params.contactId),
+      update_contact: (params) => this.updateContact(params as MCPUpdateContactParams),
+      delete_contact: (params) => this.deleteContact(params.contactId),
+      add_contact_tags: (params) => this.addContactTags(params as MCPAddContactTagsParams),
+      remove_contact_tags: (params) => this.removeContactTags(params as MCPRemoveContactTagsParams),
+
+      // Task Management
+      get_contact_tasks: (params) => this.getContactTasks(params as MCPGetContactTasksParams),
+      create_contact_task: (params) => this.createContactTask(params as MCPCreateContactTaskParams),
+      get_contact_task: (params) => this.getContactTask(params as MCPGetContactTaskParams),
+      update_contact_task: (params) => this.updateContactTask(params as MCPUpdateContactTaskParams),
+      delete_contact_task: (params) => this.deleteContactTask(params as MCPDeleteContactTaskParams),
+      update_task_completion: (params) => this.updateTaskCompletion(params as MCPUpdateTaskCompletionParams),
+
+      // Note Management
+      get_contact_notes: (params) => this.getContactNotes(params as MCPGetContactNotesParams),
+      create_contact_note: (params) => this.createContactNote(params as MCPCreateContactNoteParams),
+      get_contact_note: (params) => this.getContactNote(params as MCPGetContactNoteParams),
+      update_contact_note: (params) => this.updateContactNote(params as MCPUpdateContactNoteParams),
+      delete_contact_note: (params) => this.deleteContactNote(params as MCPDeleteContactNoteParams),
+
+      // Advanced Operations
+      upsert_contact: (params) => this.upsertContact(params as MCPUpsertContactParams),
+      get_duplicate_contact: (params) => this.getDuplicateContact(params as MCPGetDuplicateContactParams),
+      validate_phone_number: (params) => this.validatePhoneNumber(params as MCPValidatePhoneNumberParams),
+      get_contacts_by_business: (params) => this.getContactsByBusiness(params as MCPGetContactsByBusinessParams),
+      get_contact_appointments: (params) => this.getContactAppointments(params as MCPGetContactAppointmentsParams),
+
+      // Bulk Operations
+      bulk_update_contact_tags: (params, context) => this.bulkUpdateContactTags(params as MCPBulkUpdateContactTagsParams, context),
+      bulk_update_contact_business: (params, context) => this.bulkUpdateContactBusiness(params as MCPBulkUpdateContactBusinessParams, context),
+
+      // Followers Management
+      add_contact_followers: (params) => this.addContactFollowers(params as MCPAddContactFollowersParams),
+      remove_contact_followers: (params) => this.removeContactFollowers(params as MCPRemoveContactFollowersParams),
+
+      // Campaign Management
+      add_contact_to_campaign: (params) => this.addContactToCampaign(params as MCPAddContactToCampaignParams),
+      remove_contact_from_campaign: (params) => this.removeContactFromCampaign(params as MCPRemoveContactFromCampaignParams),
+      remove_contact_from_all_campaigns: (params) => this.removeContactFromAllCampaigns(params as MCPRemoveContactFromAllCampaignsParams),
+
+      // Workflow Management
+      add_contact_to_workflow: (params) => this.addContactToWorkflow(params as MCPAddContactToWorkflowParams),
+      remove_contact_from_workflow: (params) => this.removeContactFromWorkflow(params as MCPRemoveContactFromWorkflowParams),
+
+      // OTP/Verification Tools
+      start_email_verification: (params) => this.startEmailVerification(params),
+      start_sms_verification: (params) => this.startSmsVerification(params),
+      start_whatsapp_verification: (params) => this.startWhatsAppVerification(params),
+      verify_code: (params) => this.verifyCode(params),
+      resend_verification_code: (params) => this.resendVerificationCode(params),
+      check_verification_status: (params) => this.checkVerificationStatus(params)
+    };
+  }
+
   /**
    * Execute a contact tool with the given parameters
    */
   async executeTool(toolName: string, params: any): Promise<any> {
     try {
-      switch (toolName) {
-        // Basic Contact Management
-      case 'create_contact':
-          return await this.createContact(params as MCPCreateContactParams);
-        case 'search_contacts':
-          return await this.searchContacts(params as MCPSearchContactsParams);
-        case 'get_contact':
-          return await this.getContact(params.contactId);
-        case 'update_contact':
-          return await this.updateContact(params as MCPUpdateContactParams);
-        case 'delete_contact':
-          return await this.deleteContact(params.contactId);
-        case 'add_contact_tags':
-          return await this.addContactTags(params as MCPAddContactTagsParams);
-        case 'remove_contact_tags':
-          return await this.removeContactTags(params as MCPRemoveContactTagsParams);
-
-        // Task Management
-        case 'get_contact_tasks':
-          return await this.getContactTasks(params as MCPGetContactTasksParams);
-        case 'create_contact_task':
-          return await this.createContactTask(params as MCPCreateContactTaskParams);
-        case 'get_contact_task':
-          return await this.getContactTask(params as MCPGetContactTaskParams);
-        case 'update_contact_task':
-          return await this.updateContactTask(params as MCPUpdateContactTaskParams);
-        case 'delete_contact_task':
-          return await this.deleteContactTask(params as MCPDeleteContactTaskParams);
-        case 'update_task_completion':
-          return await this.updateTaskCompletion(params as MCPUpdateTaskCompletionParams);
-
-        // Note Management
-        case 'get_contact_notes':
-          return await this.getContactNotes(params as MCPGetContactNotesParams);
-        case 'create_contact_note':
-          return await this.createContactNote(params as MCPCreateContactNoteParams);
-        case 'get_contact_note':
-          return await this.getContactNote(params as MCPGetContactNoteParams);
-        case 'update_contact_note':
-          return await this.updateContactNote(params as MCPUpdateContactNoteParams);
-        case 'delete_contact_note':
-          return await this.deleteContactNote(params as MCPDeleteContactNoteParams);
-
-        // Advanced Operations
-        case 'upsert_contact':
-          return await this.upsertContact(params as MCPUpsertContactParams);
-        case 'get_duplicate_contact':
-          return await this.getDuplicateContact(params as MCPGetDuplicateContactParams);
-        case 'get_contacts_by_business':
-          return await this.getContactsByBusiness(params as MCPGetContactsByBusinessParams);
-        case 'get_contact_appointments':
-          return await this.getContactAppointments(params as MCPGetContactAppointmentsParams);
-
-        // Bulk Operations
-        case 'bulk_update_contact_tags':
-          return await this.bulkUpdateContactTags(params as MCPBulkUpdateContactTagsParams);
-        case 'bulk_update_contact_business':
-          return await this.bulkUpdateContactBusiness(params as MCPBulkUpdateContactBusinessParams);
-
-        // Followers Management
-        case 'add_contact_followers':
-          return await this.addContactFollowers(params as MCPAddContactFollowersParams);
-        case 'remove_contact_followers':
-          return await this.removeContactFollowers(params as MCPRemoveContactFollowersParams);
-
-        // Campaign Management
-        case 'add_contact_to_campaign':
-          return await this.addContactToCampaign(params as MCPAddContactToCampaignParams);
-        case 'remove_contact_from_campaign':
-          return await this.removeContactFromCampaign(params as MCPRemoveContactFromCampaignParams);
-        case 'remove_contact_from_all_campaigns':
-          return await this.removeContactFromAllCampaigns(params as MCPRemoveContactFromAllCampaignsParams);
-
-        // Workflow Management
-        case 'add_contact_to_workflow':
-          return await this.addContactToWorkflow(params as MCPAddContactToWorkflowParams);
-        case 'remove_contact_from_workflow':
-          return await this.removeContactFromWorkflow(params as MCPRemoveContactFromWorkflowParams);
-        
-        // OTP/Verification Tools
-        case 'start_email_verification':
-          return await this.startEmailVerification(params);
-        case 'start_sms_verification':
-          return await this.startSmsVerification(params);
-        case 'start_whatsapp_verification':
-          return await this.startWhatsAppVerification(params);
-        case 'verify_code':
-          return await this.verifyCode(params);
-        case 'resend_verification_code':
-          return await this.resendVerificationCode(params);
-        case 'check_verification_status':
-          return await this.checkVerificationStatus(params);
-      
-      default:
-          throw new Error(`Unknown tool: ${toolName}`);
+      const handler = this.getToolHandlers()[toolName];
+      if (!handler) {
+        throw new Error(`Unknown tool: ${toolName}`);
       }
+      return await handler(params);
     } catch (error) {
       console.error(`Error executing contact tool ${toolName}:`, error);
       throw error;
@@ -678,12 +802,13 @@ export class ContactTools {
 
   // Basic Contact Management
   private async createContact(params: MCPCreateContactParams): Promise<GHLContact> {
+    const phone = params.phone && await this.phoneNumbers.normalize('create_contact', 'phone', params.phone);
     const response = await this.ghlClient.createContact({
         locationId: this.ghlClient.getConfig().locationId,
         firstName: params.firstName,
         lastName: params.lastName,
         email: params.email,
-        phone: params.phone,
+        phone,
         tags: params.tags,
       source: params.source
     });
@@ -717,6 +842,15 @@ export class ContactTools {
       });
     }
 
+    const fetchAllLimit = getFetchAllLimit(params);
+    if (fetchAllLimit !== undefined) {
+      const { items, truncated } = await collect(this.ghlClient.iterateContacts({
+        query: params.query,
+        ...(filters.filters.length > 0 && { filters })
+      }, { maxItems: fetchAllLimit }));
+      return { contacts: items, total: items.length, truncated };
+    }
+
     const response = await this.ghlClient.searchContacts({
       locationId: this.ghlClient.getConfig().locationId,
       query: params.query,
@@ -760,11 +894,12 @@ export class ContactTools {
       }));
     }
 
+    const phone = params.phone && await this.phoneNumbers.normalize('update_contact', 'phone', params.phone);
     const response = await this.ghlClient.updateContact(params.contactId, {
       firstName: params.firstName,
       lastName: params.lastName,
       email: params.email,
-      phone: params.phone,
+      phone,
       tags: params.tags,
       customFields: customFieldsArray
     });
@@ -938,13 +1073,14 @@ export class ContactTools {
 
   // Advanced Operations
   private async upsertContact(params: MCPUpsertContactParams): Promise<GHLUpsertContactResponse> {
+    const phone = params.phone && await this.phoneNumbers.normalize('upsert_contact', 'phone', params.phone);
     const response = await this.ghlClient.upsertContact({
       locationId: this.ghlClient.getConfig().locationId,
       firstName: params.firstName,
       lastName: params.lastName,
       name: params.name,
       email: params.email,
-      phone: params.phone,
+      phone,
       address1: params.address,
       city: params.city,
       state: params.state,
@@ -967,7 +1103,9 @@ export class ContactTools {
   }
 
   private async getDuplicateContact(params: MCPGetDuplicateContactParams): Promise<GHLContact | null> {
-    const response = await this.ghlClient.getDuplicateContact(params.email, params.phone);
+    // GHL stores phones as E.164; a number that does not parse is looked up as given
+    const phone = params.phone && ((await this.phoneNumbers.analyze(params.phone)).e164 || params.phone);
+    const response = await this.ghlClient.getDuplicateContact(params.email, phone);
 
     if (!response.success) {
       throw new Error(response.error?.message || 'Failed to check for duplicate contact');
@@ -976,6 +1114,10 @@ export class ContactTools {
     return response.data!;
   }
 
+  private async validatePhoneNumber(params: MCPValidatePhoneNumberParams): Promise<PhoneNumberInfo> {
+    return this.phoneNumbers.analyze(params.phone, params.country?.toUpperCase());
+  }
+
   private async getContactsByBusiness(params: MCPGetContactsByBusinessParams): Promise<GHLSearchContactsResponse> {
     const response = await this.ghlClient.getContactsByBusiness(params.businessId, {
       limit: params.limit,
@@ -1001,29 +1143,74 @@ export class ContactTools {
   }
 
   // Bulk Operations
-  private async bulkUpdateContactTags(params: MCPBulkUpdateContactTagsParams): Promise<GHLBulkTagsResponse> {
-    const response = await this.ghlClient.bulkUpdateContactTags(
-      params.contactIds,
-      params.tags,
-      params.operation,
-      params.removeAllTags
-    );
+  /**
+   * Update tags batch by batch, merging the batch responses. Each batch is checkpointed, so a background job
+   * resumes after the last finished batch; on cancellation the merged responses so far are returned.
+   */
+  private async bulkUpdateContactTags(params: MCPBulkUpdateContactTagsParams, context: ToolCallContext = {}): Promise<GHLBulkTagsResponse> {
+    const saved = context.checkpoint as BulkCheckpoint<GHLBulkTagsResponse> | undefined;
+    const merged: GHLBulkTagsResponse = saved?.merged || { succeeded: true, errorCount: 0, responses: [] };
 
-    if (!response.success) {
-      throw new Error(response.error?.message || 'Failed to bulk update contact tags');
-    }
+    await this.runInBatches(params.contactIds, saved?.done || 0, context, 'tags', async batch => {
+      const response = await this.ghlClient.bulkUpdateContactTags(batch, params.tags, params.operation, params.removeAllTags);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to bulk update contact tags');
+      }
+      merged.succeeded = merged.succeeded && response.data!.succeeded;
+      merged.errorCount += response.data!.errorCount || 0;
+      merged.responses.push(...(response.data!.responses || []));
+      return merged;
+    });
 
-    return response.data!;
+    return merged;
   }
 
-  private async bulkUpdateContactBusiness(params: MCPBulkUpdateContactBusinessParams): Promise<GHLBulkBusinessResponse> {
-    const response = await this.ghlClient.bulkUpdateContactBusiness(params.contactIds, params.businessId);
+  /**
+   * Update the business association batch by batch, checkpointed like bulkUpdateContactTags
+   */
+  private async bulkUpdateContactBusiness(params: MCPBulkUpdateContactBusinessParams, context: ToolCallContext = {}): Promise<GHLBulkBusinessResponse> {
+    const saved = context.checkpoint as BulkCheckpoint<GHLBulkBusinessResponse> | undefined;
+    const merged: GHLBulkBusinessResponse = saved?.merged || { success: true, ids: [] };
 
-    if (!response.success) {
-      throw new Error(response.error?.message || 'Failed to bulk update contact business');
-    }
+    await this.runInBatches(params.contactIds, saved?.done || 0, context, 'business association', async batch => {
+      const response = await this.ghlClient.bulkUpdateContactBusiness(batch, params.businessId);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to bulk update contact business');
+      }
+      merged.success = merged.success && response.data!.success;
+      merged.ids.push(...(response.data!.ids || []));
+      return merged;
+    });
 
-    return response.data!;
+    return merged;
+  }
+
+  /**
+   * Run a bulk update on contactIds from `done` on, BULK_BATCH_SIZE at a time, reporting progress and
+   * checkpointing the merged result after each batch. Stops quietly when the call is cancelled;
+   * the batch that was in flight may or may not have been applied.
+   */
+  private async runInBatches<T>(
+    contactIds: string[],
+    done: number,
+    context: ToolCallContext,
+    what: string,
+    updateBatch: (batch: string[]) => Promise<T>
+  ): Promise<void> {
+    const total = contactIds.length;
+    while (done < total && !context.signal?.aborted) {
+      const batch = contactIds.slice(done, done + BULK_BATCH_SIZE);
+      let merged: T;
+      try {
+        merged = await updateBatch(batch);
+      } catch (error) {
+        if (error instanceof GHLRequestCancelledError) return;
+        throw error;
+      }
+      done += batch.length;
+      context.reportProgress?.({ progress: done, total, message: `Updated ${what} of ${done}/${total} contacts` });
+      await context.saveCheckpoint?.({ done, merged } satisfies BulkCheckpoint<T>);
+    }
   }
 
   // Followers Management
@@ -1108,622 +1295,211 @@ export class ContactTools {
   }
 
   // OTP/Verification Implementation
-  private verificationCodes = new Map<string, string>();
-
-  /**
-   * Helper function to create proper GHL timezone format
-   */
-  private getGHLTimestamp(): string {
-    const now = new Date();
-    // Format as YYYY-MM-DDTHH:MM:SS+00:00 (GHL requires this exact format)
-    const year = now.getUTCFullYear();
-    const month = String(now.getUTCMonth() + 1).padStart(2, '0');
-    const day = String(now.getUTCDate()).padStart(2, '0');
-    const hours = String(now.getUTCHours()).padStart(2, '0');
-    const minutes = String(now.getUTCMinutes()).padStart(2, '0');
-    const seconds = String(now.getUTCSeconds()).padStart(2, '0');
-    
-    return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}+00:00`;
+  private otpTarget(contactId: string, channel: OtpChannel): OtpTarget {
+    return { locationId: this.ghlClient.getConfig().locationId, contactId, channel };
   }
 
   /**
-   * Comprehensive phone number formatting with country detection
-   * Returns: { formattedPhone: string, needsCountryConfirmation: boolean, detectedCountry?: string }
+   * Issue a code and send it to the contact through GHL. A code that could not be delivered is discarded;
+   * it still counts towards the send limit.
    */
-  private analyzePhoneNumber(phone: string): { 
-    formattedPhone: string; 
-    needsCountryConfirmation: boolean; 
-    detectedCountry?: string;
-    suggestedFormat?: string;
-  } {
-    // Remove all non-digit characters except +
-    let cleaned = phone.replace(/[^\d+]/g, '');
-    
-    // If already has + and looks complete, still need confirmation
-    if (cleaned.startsWith('+')) {
-      const countryCode = this.detectCountryFromPhone(cleaned);
-      return {
-        formattedPhone: cleaned,
-        needsCountryConfirmation: !countryCode, // Still confirm if country unclear
-        detectedCountry: countryCode,
-        suggestedFormat: cleaned
-      };
+  private async sendVerificationCode(contactId: string, channel: OtpChannel): Promise<{ expiresAt: string }> {
+    const target = this.otpTarget(contactId, channel);
+    const { code, expiresAt } = await this.otp.issue(target);
+    const minutes = Math.round(this.otp.getPolicy().ttlMs / 60000);
+    const text = `Your verification code is ${code}. It expires in ${minutes} minutes. Do not share it with anyone.`;
+
+    try {
+      const response = await this.ghlClient.sendMessage(channel === 'email'
+        ? { type: 'Email', contactId, subject: 'Your verification code', message: text, html: `<p>${text}</p>` }
+        : { type: channel === 'sms' ? 'SMS' : 'WhatsApp', contactId, message: text });
+      if (!response.success) {
+        throw new Error(response.error?.message || 'GHL did not accept the message');
+      }
+    } catch (error) {
+      await this.otp.discard(target);
+      throw withErrorContext(`Failed to send the ${channel} verification code`, error);
     }
-    
-    // Try to detect country from digits
-    const countryCode = this.detectCountryFromPhone(cleaned);
-    
-    if (countryCode) {
-      // Add + if country detected but missing
-      const formatted = cleaned.startsWith(countryCode.substring(1)) ? '+' + cleaned : countryCode + cleaned;
-      return {
-        formattedPhone: formatted,
-        needsCountryConfirmation: true, // Always confirm detected country
-        detectedCountry: countryCode,
-        suggestedFormat: formatted
-      };
+
+    // stderr, since stdout carries the MCP messages in stdio mode; no addresses or code details
+    console.error(`[OTP] Sent a ${channel} verification code to contact ${contactId}`);
+    return { expiresAt };
+  }
+
+  private async startEmailVerification(params: { email: string; firstName?: string; lastName?: string }) {
+    // Check if contact exists, create if not
+    const contacts = await this.searchContacts({ query: params.email, limit: 1 });
+    let contactId: string;
+
+    if (contacts.contacts.length > 0) {
+      const foundContact = contacts.contacts[0];
+      if (!foundContact.id) {
+        throw new Error('Contact found but missing ID');
+      }
+      contactId = foundContact.id;
+    } else {
+      // Create new contact
+      const newContact = await this.createContact({
+        email: params.email,
+        firstName: params.firstName || '',
+        lastName: params.lastName || '',
+        tags: ['verification-pending']
+      });
+      if (!newContact.id) {
+        throw new Error('Contact created but missing ID');
+      }
+      contactId = newContact.id;
     }
-    
-    // No country detected - definitely needs confirmation
+
+    const { expiresAt } = await this.sendVerificationCode(contactId, 'email');
     return {
-      formattedPhone: '+1' + cleaned, // Default to US, but will ask for confirmation
-      needsCountryConfirmation: true,
-      suggestedFormat: '+1' + cleaned
+      success: true,
+      message: 'Verification code sent to your email',
+      contactId: contactId,
+      expiresAt,
+      instructions: `Please check your email and provide the ${this.otp.getPolicy().codeLength}-digit code`
     };
   }
 
   /**
-   * Detect country from phone number patterns
+   * Find the contact to verify by phone: the given contact, updated with the phone (widget flow), or the contact with that phone
    */
-  private detectCountryFromPhone(phone: string): string | undefined {
-    const digits = phone.replace(/[^\d]/g, '');
-    
-    // Common country codes and patterns
-    if (digits.startsWith('1') && (digits.length === 11 || digits.length === 10)) {
-      return '+1'; // US/Canada
-    }
-    if (digits.startsWith('65') && digits.length === 10) {
-      return '+65'; // Singapore
-    }
-    if (digits.startsWith('60') && (digits.length === 11 || digits.length === 12)) {
-      return '+60'; // Malaysia
-    }
-    if (digits.startsWith('44') && digits.length === 12) {
-      return '+44'; // UK
-    }
-    if (digits.startsWith('86') && digits.length === 13) {
-      return '+86'; // China
-    }
-    if (digits.startsWith('91') && digits.length === 12) {
-      return '+91'; // India
-    }
-    if (digits.startsWith('61') && digits.length === 11) {
-      return '+61'; // Australia
+  private async resolvePhoneContact(toolName: string, params: { phone: string; contactId?: string }): Promise<string> {
+    // Reject numbers that are invalid or cannot receive messages before anything is changed
+    const formattedPhone = await this.phoneNumbers.normalize(toolName, 'phone', params.phone, { messaging: true });
+
+    if (params.contactId) {
+      await this.updateContact({ contactId: params.contactId, phone: formattedPhone });
+      return params.contactId;
     }
-    if (digits.startsWith('33') && digits.length === 11) {
-      return '+33'; // France
+
+    const phoneSearch = await this.searchContacts({ query: formattedPhone, limit: 1 });
+    const foundContact = phoneSearch.contacts[0];
+    if (!foundContact) {
+      throw new Error('Phone verification requires either existing contactId or contact with email. For phone-only contacts, use start_email_verification first or provide contactId parameter.');
     }
-    if (digits.startsWith('49') && digits.length === 12) {
-      return '+49'; // Germany
+    if (!foundContact.id) {
+      throw new Error('Contact found but missing ID');
     }
-    
-    return undefined; // Unknown country
+    return foundContact.id;
   }
 
   /**
-   * Get country name from country code
+   * Start SMS verification: send a code to the contact's phone by SMS
    */
-  private getCountryName(countryCode: string): string {
-    const countries: { [key: string]: string } = {
-      '+1': 'United States/Canada',
-      '+65': 'Singapore', 
-      '+60': 'Malaysia',
-      '+44': 'United Kingdom',
-      '+86': 'China',
-      '+91': 'India',
-      '+61': 'Australia',
-      '+33': 'France',
-      '+49': 'Germany'
-    };
-    return countries[countryCode] || 'Unknown Country';
-  }
-
-  private async startEmailVerification(params: { email: string; firstName?: string; lastName?: string }) {
-    try {
-      // Check if contact exists, create if not
-      const contacts = await this.searchContacts({ query: params.email, limit: 1 });
-      let contactId: string;
-
-      if (contacts.contacts.length > 0) {
-        const foundContact = contacts.contacts[0];
-        if (!foundContact.id) {
-          throw new Error('Contact found but missing ID');
-        }
-        contactId = foundContact.id;
-        console.log('[OTP] Found existing contact:', contactId);
-      } else {
-        // Create new contact
-        const newContact = await this.createContact({
-          email: params.email,
-          firstName: params.firstName || '',
-          lastName: params.lastName || '',
-          tags: ['verification-pending']
-        });
-        if (!newContact.id) {
-          throw new Error('Contact created but missing ID');
-        }
-        contactId = newContact.id;
-        console.log('[OTP] Created new contact:', contactId);
-      }
-
-      // Add email-code tag (this will trigger GHL workflow via tag conditions)
-      await this.addContactTags({
-        contactId: contactId,
-        tags: ['email-code']
-      });
-      console.log('[Email Verification] Added email-code tag');
-
-      // Trigger verification workflow by adding contact to workflow
-      const workflowId = process.env.GHL_VERIFICATION_WORKFLOW_ID;
-      if (workflowId) {
-        try {
-          await this.addContactToWorkflow({
-            contactId: contactId,
-            workflowId: workflowId,
-            eventStartTime: this.getGHLTimestamp()
-          });
-          console.log('[OTP] Added contact to verification workflow:', workflowId);
-        } catch (workflowError) {
-          console.error('[OTP] Failed to add contact to workflow:', workflowError);
-          // Continue anyway - verification might still work with tags
-        }
-      } else {
-        console.warn('[OTP] GHL_VERIFICATION_WORKFLOW_ID not configured - emails may not send');
-      }
+  private async startSmsVerification(params: { phone: string; firstName?: string; lastName?: string; contactId?: string }) {
+    const contactId = await this.resolvePhoneContact('start_sms_verification', params);
+    const { expiresAt } = await this.sendVerificationCode(contactId, 'sms');
 
-      return {
-        success: true,
-        message: 'Verification code sent to your email',
-        contactId: contactId,
-        instructions: 'Please check your email and provide the 6-digit code'
-      };
-    } catch (error) {
-      console.error('[OTP] Start verification error:', error);
-      throw new Error('Failed to start verification process');
-    }
+    return {
+      success: true,
+      message: 'SMS verification started. Please check your phone for the verification code.',
+      contactId: contactId,
+      expiresAt,
+      instructions: `Please check your SMS and provide the ${this.otp.getPolicy().codeLength}-digit code`
+    };
   }
 
   /**
-   * Start SMS verification process by adding sms-code tag
+   * Start WhatsApp verification: send a code to the contact's phone on WhatsApp
    */
-  private async startSmsVerification(params: { phone: string; firstName?: string; lastName?: string; contactId?: string }) {
-    try {
-      // Format phone number with country code
-      const phoneAnalysis = this.analyzePhoneNumber(params.phone);
-      const formattedPhone = phoneAnalysis.formattedPhone;
-      console.log('[SMS Verification] Starting for:', params.phone, '→ formatted:', formattedPhone);
-      
-      // Note: In production, you should confirm country code with user
-      if (phoneAnalysis.needsCountryConfirmation) {
-        console.log('[SMS Verification] Country confirmation needed for:', params.phone, 'detected:', phoneAnalysis.detectedCountry);
-      }
-      
-      let contactId: string;
-      
-      // Widget flow: If contactId provided, update existing contact with phone
-      if (params.contactId) {
-        // Update existing contact with phone number (widget flow)
-        await this.updateContact({
-          contactId: params.contactId,
-          phone: formattedPhone
-        });
-        contactId = params.contactId;
-        console.log('[SMS Verification] Updated existing contact with phone:', contactId);
-      } else {
-        // Legacy flow: Search by phone, create if needed
-        const phoneSearch = await this.searchContacts({ query: formattedPhone, limit: 1 });
-        
-        if (phoneSearch.contacts.length > 0) {
-          // Found contact by phone - use it
-          const foundContact = phoneSearch.contacts[0];
-          if (!foundContact.id) {
-            throw new Error('Contact found but missing ID');
-          }
-          contactId = foundContact.id;
-          console.log('[SMS Verification] Found existing contact by phone:', contactId);
-        } else {
-          // For SMS-only verification without existing contact, require minimal email
-          throw new Error('SMS verification requires either existing contactId or contact with email. For phone-only contacts, use start_email_verification first or provide contactId parameter.');
-        }
-      }
-
-      // Add sms-code tag (this will trigger GHL workflow via tag conditions)
-      await this.addContactTags({
-        contactId: contactId,
-        tags: ['sms-code']
-      });
-      console.log('[SMS Verification] Added sms-code tag');
-
-      // Trigger verification workflow by adding contact to workflow
-      const workflowId = process.env.GHL_VERIFICATION_WORKFLOW_ID;
-      if (workflowId) {
-        try {
-          await this.addContactToWorkflow({
-            contactId: contactId,
-            workflowId: workflowId,
-            eventStartTime: this.getGHLTimestamp()
-          });
-          console.log('[SMS Verification] Added contact to verification workflow:', workflowId);
-        } catch (workflowError) {
-          console.error('[SMS Verification] Failed to add contact to workflow:', workflowError);
-          // Continue anyway - verification might still work with tags
-        }
-      }
+  private async startWhatsAppVerification(params: { phone: string; firstName?: string; lastName?: string; contactId?: string }) {
+    const contactId = await this.resolvePhoneContact('start_whatsapp_verification', params);
+    const { expiresAt } = await this.sendVerificationCode(contactId, 'whatsapp');
 
-      return {
-        success: true,
-        message: 'SMS verification started. Please check your phone for the verification code.',
-        contactId: contactId,
-        instructions: 'Please check your SMS and provide the 6-digit code within 5 minutes'
-      };
-    } catch (error) {
-      console.error('[SMS Verification] Start verification error:', error);
-      throw new Error('Failed to start SMS verification process');
-    }
+    return {
+      success: true,
+      message: 'WhatsApp verification started. Please check WhatsApp for the verification code.',
+      contactId: contactId,
+      expiresAt,
+      instructions: `Please check your WhatsApp and provide the ${this.otp.getPolicy().codeLength}-digit code`
+    };
   }
 
   /**
-   * Start WhatsApp verification process by adding whatsapp-code tag
+   * Check a code against the one sent on the given channel. On success the contact is tagged verified-<method>.
+   * The result says why a code was rejected but never what the expected code was.
    */
-  private async startWhatsAppVerification(params: { phone: string; firstName?: string; lastName?: string; contactId?: string }) {
-    try {
-      // Format phone number with country code
-      const phoneAnalysis = this.analyzePhoneNumber(params.phone);
-      const formattedPhone = phoneAnalysis.formattedPhone;
-      console.log('[WhatsApp Verification] Starting for:', params.phone, '→ formatted:', formattedPhone);
-      
-      // Note: In production, you should confirm country code with user
-      if (phoneAnalysis.needsCountryConfirmation) {
-        console.log('[WhatsApp Verification] Country confirmation needed for:', params.phone, 'detected:', phoneAnalysis.detectedCountry);
-      }
-      
-      let contactId: string;
-      
-      // Widget flow: If contactId provided, update existing contact with phone
-      if (params.contactId) {
-        // Update existing contact with phone number (widget flow)
-        await this.updateContact({
-          contactId: params.contactId,
-          phone: formattedPhone
-        });
-        contactId = params.contactId;
-        console.log('[WhatsApp Verification] Updated existing contact with phone:', contactId);
-      } else {
-        // Legacy flow: Search by phone, create if needed
-        const phoneSearch = await this.searchContacts({ query: formattedPhone, limit: 1 });
-        
-        if (phoneSearch.contacts.length > 0) {
-          // Found contact by phone - use it
-          const foundContact = phoneSearch.contacts[0];
-          if (!foundContact.id) {
-            throw new Error('Contact found but missing ID');
-          }
-          contactId = foundContact.id;
-          console.log('[WhatsApp Verification] Found existing contact by phone:', contactId);
-        } else {
-          // For WhatsApp-only verification without existing contact, require minimal email  
-          throw new Error('WhatsApp verification requires either existing contactId or contact with email. For phone-only contacts, use start_email_verification first or provide contactId parameter.');
-        }
-      }
-
-      // Add whatsapp-code tag (this will trigger GHL workflow via tag conditions)
-      await this.addContactTags({
-        contactId: contactId,
-        tags: ['whatsapp-code']
-      });
-      console.log('[WhatsApp Verification] Added whatsapp-code tag');
-
-      // Trigger verification workflow by adding contact to workflow
-      const workflowId = process.env.GHL_VERIFICATION_WORKFLOW_ID;
-      if (workflowId) {
-        try {
-          await this.addContactToWorkflow({
-            contactId: contactId,
-            workflowId: workflowId,
-            eventStartTime: this.getGHLTimestamp()
-          });
-          console.log('[WhatsApp Verification] Added contact to verification workflow:', workflowId);
-        } catch (workflowError) {
-          console.error('[WhatsApp Verification] Failed to add contact to workflow:', workflowError);
-          // Continue anyway - verification might still work with tags
-        }
-      }
-
+  private async verifyCode(params: { contactId: string; code: string; method: OtpChannel }) {
+    const outcome = await this.otp.verify(this.otpTarget(params.contactId, params.method), params.code);
+
+    if (!outcome.verified) {
+      console.error(`[OTP] ${params.method} verification failed for contact ${params.contactId}`);
+      const messages: Record<typeof outcome.reason, string> = {
+        invalid_code: 'Invalid verification code. Please check and try again.',
+        expired: 'The verification code has expired. Please request a new one.',
+        too_many_attempts: 'Too many wrong codes. Please request a new one.',
+        no_code: 'No verification code is pending. Please start verification first.'
+      };
       return {
-        success: true,
-        message: 'WhatsApp verification started. Please check WhatsApp for the verification code.',
-        contactId: contactId,
-        instructions: 'Please check your WhatsApp and provide the 6-digit code within 5 minutes'
+        success: false,
+        message: messages[outcome.reason],
+        contactId: params.contactId,
+        reason: outcome.reason,
+        ...(outcome.reason === 'invalid_code' && { attemptsRemaining: outcome.attemptsRemaining })
       };
-    } catch (error) {
-      console.error('[WhatsApp Verification] Start verification error:', error);
-      throw new Error('Failed to start WhatsApp verification process');
     }
-  }
 
-  /**
-   * Universal verification code checker - works for email, SMS, and WhatsApp
-   * FOOLPROOF: Uses contactId directly + getContact for full details + environment variable for field ID
-   */
-  private async verifyCode(params: { contactId: string; code: string; method: 'email' | 'sms' | 'whatsapp' }) {
+    // The code is already used up, so a tagging failure must not turn the verification into an error
     try {
-      console.log(`[Verify Code] Starting ${params.method} verification for contact:`, params.contactId);
-      
-      // Get FULL contact details using contactId (foolproof method)
-      const contactResponse = await this.ghlClient.getContact(params.contactId);
-      
-      if (!contactResponse.success || !contactResponse.data) {
-        console.error('[Verify Code] Failed to get contact details:', contactResponse.error);
-        return {
-          success: false,
-          message: 'Contact not found. Please start verification first.'
-        };
-      }
-
-      const contact = contactResponse.data;
-      console.log('[Verify Code] Got contact details, custom fields count:', contact.customFields?.length || 0);
-      
-      // Get verification code field ID from environment (primary) or fallback to name search
-      const verificationCodeFieldId = process.env.GHL_VERIFICATION_CODE_FIELD_ID;
-      let storedCode: string | undefined;
-      
-      if (verificationCodeFieldId) {
-        // Method 1: Use environment variable field ID (most reliable)
-        const fieldById = contact.customFields?.find(field => field.id === verificationCodeFieldId);
-        
-        // DEBUG: Log the entire field structure
-        console.log('[Verify Code] Found field structure:', JSON.stringify(fieldById, null, 2));
-        
-        // GHL uses "value" property, not "field_value"
-        storedCode = (fieldById as any)?.value as string || 
-                    fieldById?.field_value as string ||
-                    (fieldById as any)?.fieldValue as string ||
-                    (fieldById as any)?.customValue as string;
-        
-        console.log('[Verify Code] Looking for field ID:', verificationCodeFieldId, 'Found:', !!fieldById);
-        console.log('[Verify Code] Raw field_value:', fieldById?.field_value);
-        console.log('[Verify Code] Raw value:', (fieldById as any)?.value);
-        console.log('[Verify Code] Extracted storedCode:', storedCode);
-      }
-      
-      if (!storedCode) {
-        // Method 2: Fallback - search by field name/key (backup method)
-        const fieldByName = contact.customFields?.find(field => 
-          field.key === 'verification_code' || 
-          field.id === 'verification_code' ||
-          (field as any).name === 'verification_code'
-        );
-        
-        storedCode = (fieldByName as any)?.value as string ||
-                    fieldByName?.field_value as string || 
-                    (fieldByName as any)?.fieldValue as string;
-        
-        console.log('[Verify Code] Fallback search found field:', !!fieldByName);
-        if (fieldByName) {
-          console.log('[Verify Code] Fallback field structure:', JSON.stringify(fieldByName, null, 2));
-        }
-      }
-      
-      console.log('[Verify Code] Final stored code exists:', !!storedCode, 'User code:', params.code);
-      
-      if (!storedCode || storedCode.trim() === '') {
-        console.error('[Verify Code] No verification code found in custom fields');
-        console.error('[Verify Code] Available custom fields with values:', contact.customFields?.map(f => ({ 
-          id: f.id, 
-          key: (f as any).key,
-          field_value: f.field_value,
-          value: (f as any).value,
-          rawField: JSON.stringify(f)
-        })));
-        return {
-          success: false,
-          message: 'No verification code found. Please start verification process first.'
-        };
-      }
-      
-      if (storedCode === params.code) {
-        // Determine the correct verified tag based on method
-        const verifiedTag = `verified-${params.method}`;
-        const pendingTag = `${params.method}-code`;
-        
-        console.log(`[Verify Code] Code matches! Adding ${verifiedTag} tag`);
-        
-        // Add verified tag - this will trigger the workflow to continue
-        await this.addContactTags({
-          contactId: contact.id!,
-          tags: [verifiedTag]
-        });
-
-        // Remove pending verification tag
-        await this.removeContactTags({
-          contactId: contact.id!,
-          tags: [pendingTag, 'verification-pending']
-        });
-
-        // Clear the verification code field for security
-        const verificationFieldId = process.env.GHL_VERIFICATION_CODE_FIELD_ID || 'verification_code';
-        const clearFieldUpdate: Record<string, string> = {};
-        clearFieldUpdate[verificationFieldId] = '';
-        await this.updateContact({
-          contactId: contact.id!,
-          customFields: clearFieldUpdate
-        });
-
-        return {
-          success: true,
-          message: `${params.method.charAt(0).toUpperCase() + params.method.slice(1)} verified successfully!`,
-          contactId: contact.id,
-          verifiedMethod: params.method
-        };
-      } else {
-        console.log('[Verify Code] Code mismatch. Expected:', storedCode, 'Got:', params.code);
-        return {
-          success: false,
-          message: 'Invalid verification code. Please check and try again.',
-          expectedCode: storedCode, // For debugging only - remove in production
-          receivedCode: params.code
-        };
-      }
+      await this.addContactTags({ contactId: params.contactId, tags: [`verified-${params.method}`] });
+      await this.removeContactTags({ contactId: params.contactId, tags: ['verification-pending'] });
     } catch (error) {
-      console.error(`[Verify Code] ${params.method} verification error:`, error);
-      return {
-        success: false,
-        message: 'Verification failed. Please try again.',
-        error: error instanceof Error ? error.message : String(error)
-      };
+      console.error(`[OTP] Verified contact ${params.contactId} but could not update its tags:`, error);
     }
+
+    return {
+      success: true,
+      message: `${params.method.charAt(0).toUpperCase() + params.method.slice(1)} verified successfully!`,
+      contactId: params.contactId,
+      verifiedMethod: params.method
+    };
   }
 
   /**
-   * Resend verification code - PROPER WORKFLOW RESET
-   * Step 1: Remove from workflow FIRST, then clear fields/tags, then restart
+   * Send a new code, replacing the pending one; subject to the resend interval and the send limit
    */
-  private async resendVerificationCode(params: { contactId: string; method: 'email' | 'sms' | 'whatsapp' }) {
-    try {
-      console.log(`[Resend Verification] Starting ${params.method} resend for contact:`, params.contactId);
-      
-      // Get contact details to verify it exists
-      const contactResponse = await this.ghlClient.getContact(params.contactId);
-      
-      if (!contactResponse.success || !contactResponse.data) {
-        return {
-          success: false,
-          message: 'Contact not found'
-        };
-      }
-
-      const contact = contactResponse.data;
-      console.log('[Resend Verification] Contact found:', contact.email || contact.phone);
-
-      // STEP 1: Remove from workflow FIRST (most important step)
-      const workflowId = process.env.GHL_VERIFICATION_WORKFLOW_ID;
-      if (workflowId) {
-        try {
-          await this.removeContactFromWorkflow({
-            contactId: params.contactId,
-            workflowId: workflowId,
-            eventStartTime: this.getGHLTimestamp()
-          });
-          console.log('[Resend Verification] ✅ Removed from workflow first');
-        } catch (workflowError) {
-          console.error('[Resend Verification] ❌ Failed to remove from workflow:', workflowError);
-          // Don't continue if workflow removal fails - this could cause issues
-          return {
-            success: false,
-            message: 'Failed to reset verification workflow. Please try again.',
-            error: workflowError instanceof Error ? workflowError.message : String(workflowError)
-          };
-        }
-      }
-
-      // STEP 2: Clear verification code field
-      const verificationCodeFieldId = process.env.GHL_VERIFICATION_CODE_FIELD_ID || 'verification_code';
-      const clearFieldUpdate: Record<string, string> = {};
-      clearFieldUpdate[verificationCodeFieldId] = '';
-      
-      await this.updateContact({
-        contactId: params.contactId,
-        customFields: clearFieldUpdate
-      });
-      console.log('[Resend Verification] ✅ Cleared verification code field');
-
-      // STEP 3: Clear old verification tags
-      await this.removeContactTags({
-        contactId: params.contactId,
-        tags: ['email-code', 'sms-code', 'whatsapp-code', 'verified-email', 'verified-sms', 'verified-whatsapp', 'verification-pending']
-      });
-      console.log('[Resend Verification] ✅ Cleared verification tags');
-
-      // STEP 4: Wait for cleanup to complete
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      console.log('[Resend Verification] ✅ Cleanup wait completed');
-
-      // STEP 5: Add the verification tag to restart the process
-      const verificationTag = `${params.method}-code`;
-      await this.addContactTags({
-        contactId: params.contactId,
-        tags: [verificationTag]
-      });
-      console.log(`[Resend Verification] ✅ Added ${verificationTag} tag to restart verification`);
-
-      // STEP 6: Re-add to workflow to trigger new verification
-      if (workflowId) {
-        try {
-          await this.addContactToWorkflow({
-            contactId: params.contactId,
-            workflowId: workflowId,
-            eventStartTime: this.getGHLTimestamp()
-          });
-          console.log('[Resend Verification] ✅ Re-added contact to verification workflow');
-        } catch (workflowError) {
-          console.error('[Resend Verification] ❌ Failed to re-add to workflow:', workflowError);
-          return {
-            success: false,
-            message: 'Failed to restart verification workflow. Please try again.',
-            error: workflowError instanceof Error ? workflowError.message : String(workflowError)
-          };
-        }
-      }
-
-      return {
-        success: true,
-        message: `${params.method.charAt(0).toUpperCase() + params.method.slice(1)} verification code resent successfully`,
-        contactId: params.contactId,
-        method: params.method,
-        instructions: `Please check your ${params.method === 'email' ? 'email' : params.method.toUpperCase()} for the new verification code`
-      };
-      
-    } catch (error) {
-      console.error('[Resend Verification] Error:', error);
-      return {
-        success: false,
-        message: 'Failed to resend verification code',
-        error: error instanceof Error ? error.message : String(error)
-      };
+  private async resendVerificationCode(params: { contactId: string; method: OtpChannel }) {
+    const contact = await this.getContact(params.contactId);
+    if (params.method === 'email' ? !contact.email : !contact.phone) {
+      throw new Error(`Contact ${params.contactId} has no ${params.method === 'email' ? 'email address' : 'phone number'}`);
     }
+
+    const { expiresAt } = await this.sendVerificationCode(params.contactId, params.method);
+    return {
+      success: true,
+      message: `${params.method.charAt(0).toUpperCase() + params.method.slice(1)} verification code resent successfully`,
+      contactId: params.contactId,
+      method: params.method,
+      expiresAt,
+      instructions: `Please check your ${params.method === 'email' ? 'email' : params.method === 'sms' ? 'SMS' : 'WhatsApp'} for the new verification code`
+    };
   }
 
+  /**
+   * Whether the contact with this email is verified: tagged verified-email, or a code sent by email was entered
+   * recently enough for the OTP service to still know when
+   */
   private async checkVerificationStatus(params: { email: string }) {
-    try {
-      const contacts = await this.searchContacts({ query: params.email, limit: 1 });
-      
-      if (contacts.contacts.length === 0) {
-        return {
-          verified: false,
-          exists: false,
-          message: 'Contact not found'
-        };
-      }
-
-      const contact = contacts.contacts[0];
-      const hasVerifiedTag = contact.tags?.includes('verified-email') || false;
-      const verificationField = contact.customFields?.find(field => field.id === 'verification_timestamp');
-      const verificationDate = verificationField?.field_value as string;
+    const contacts = await this.searchContacts({ query: params.email, limit: 1 });
 
-      return {
-        verified: hasVerifiedTag,
-        exists: true,
-        contactId: contact.id,
-        verificationDate: verificationDate,
-        tags: contact.tags
-      };
-    } catch (error) {
-      console.error('[OTP] Check status error:', error);
+    if (contacts.contacts.length === 0) {
       return {
         verified: false,
         exists: false,
-        message: 'Error checking verification status'
+        message: 'Contact not found'
       };
     }
+
+    const contact = contacts.contacts[0];
+    const verificationDate = contact.id ? await this.otp.verifiedAt(this.otpTarget(contact.id, 'email')) : undefined;
+
+    return {
+      verified: verificationDate !== undefined || (contact.tags?.includes('verified-email') ?? false),
+      exists: true,
+      contactId: contact.id,
+      verificationDate,
+      tags: contact.tags
+    };
   }
 } 
\ No newline at end of file
@@ -5,6 +5,23 @@
 
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { withErrorContext } from '../clients/ghl-api-error.js';
+import { collect, getFetchAllLimit } from '../clients/paginator.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { toolAnnotations } from './tool-annotations.js';
+import { PhoneNumberNormalizer } from './phone-numbers.js';
+import {
+  envelopeOutput,
+  listOf,
+  text,
+  number,
+  boolean,
+  record,
+  recordList,
+  anything,
+  CONVERSATION,
+  MESSAGE
+} from './output-schemas.js';
 import {
   MCPSendSMSParams,
   MCPSendEmailParams,
@@ -43,8 +60,12 @@ import {
  * Conversation Tools Class
  * Implements MCP tools for messaging and conversation management
  */
-export class ConversationTools {
-  constructor(private ghlClient: GHLApiClient) {}
+export class ConversationTools implements ToolProvider {
+  private phoneNumbers: PhoneNumberNormalizer;
+
+  constructor(private ghlClient: GHLApiClient) {
+    this.phoneNumbers = new PhoneNumberNormalizer(ghlClient);
+  }
 
   /**
    * Get all conversation tool definitions for MCP server
@@ -54,6 +75,8 @@ export class ConversationTools {
       {
         name: 'send_sms',
         description: 'Send an SMS message to a contact in GoHighLevel',
+        annotations: toolAnnotations('Send SMS', 'outreach'),
+        outputSchema: envelopeOutput({ messageId: text, conversationId: text }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -68,7 +91,7 @@ export class ConversationTools {
             },
             fromNumber: {
               type: 'string',
-              description: 'Optional: Phone number to send from (must be configured in GHL)'
+              description: 'Optional: Phone number to send from (must be configured in GHL). Numbers without a country code are read in the location\'s country and sent as E.164'
             }
           },
           required: ['contactId', 'message']
@@ -77,6 +100,8 @@ export class ConversationTools {
       {
         name: 'send_email',
         description: 'Send an email message to a contact in GoHighLevel',
+        annotations: toolAnnotations('Send Email', 'outreach'),
+        outputSchema: envelopeOutput({ messageId: text, conversationId: text, emailMessageId: text }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -123,6 +148,8 @@ export class ConversationTools {
       {
         name: 'search_conversations',
         description: 'Search conversations in GoHighLevel with various filters',
+        annotations: toolAnnotations('Search Conversations', 'read'),
+        outputSchema: envelopeOutput({ conversations: listOf(CONVERSATION), total: number, truncated: boolean }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -150,6 +177,16 @@ export class ConversationTools {
             assignedTo: {
               type: 'string',
               description: 'Filter by user ID assigned to conversations'
+            },
+            fetchAll: {
+              type: 'boolean',
+              description: 'Page through all matching conversations instead of returning one page (capped at 5000)'
+            },
+            maxResults: {
+              type: 'number',
+              description: 'Page through matching conversations until this many are collected (max: 5000)',
+              minimum: 1,
+              maximum: 5000
             }
           }
         }
@@ -157,6 +194,8 @@ export class ConversationTools {
       {
         name: 'get_conversation',
         description: 'Get detailed conversation information including message history',
+        annotations: toolAnnotations('Get Conversation', 'read'),
+        outputSchema: envelopeOutput({ conversation: CONVERSATION, messages: listOf(MESSAGE), hasMoreMessages: boolean }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -189,6 +228,8 @@ export class ConversationTools {
       {
         name: 'create_conversation',
         description: 'Create a new conversation with a contact',
+        annotations: toolAnnotations('Create Conversation', 'create'),
+        outputSchema: envelopeOutput({ conversationId: text }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -203,6 +244,8 @@ export class ConversationTools {
       {
         name: 'update_conversation',
         description: 'Update conversation properties (star, mark read, etc.)',
+        annotations: toolAnnotations('Update Conversation', 'update'),
+        outputSchema: envelopeOutput({ conversation: CONVERSATION }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -226,6 +269,8 @@ export class ConversationTools {
       {
         name: 'get_recent_messages',
         description: 'Get recent messages across all conversations for monitoring',
+        annotations: toolAnnotations('Get Recent Messages', 'read'),
+        outputSchema: envelopeOutput({ conversations: recordList }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -248,6 +293,8 @@ export class ConversationTools {
       {
         name: 'delete_conversation',
         description: 'Delete a conversation permanently',
+        annotations: toolAnnotations('Delete Conversation', 'delete'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -264,6 +311,8 @@ export class ConversationTools {
       {
         name: 'get_email_message',
         description: 'Get detailed email message information by email message ID',
+        annotations: toolAnnotations('Get Email Message', 'read'),
+        outputSchema: envelopeOutput({ emailMessage: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -278,6 +327,8 @@ export class ConversationTools {
       {
         name: 'get_message',
         description: 'Get detailed message information by message ID',
+        annotations: toolAnnotations('Get Message', 'read'),
+        outputSchema: envelopeOutput({ messageData: MESSAGE }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -292,6 +343,8 @@ export class ConversationTools {
       {
         name: 'upload_message_attachments',
         description: 'Upload file attachments for use in messages',
+        annotations: toolAnnotations('Upload Message Attachments', 'create'),
+        outputSchema: envelopeOutput({ uploadedFiles: anything }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -311,6 +364,8 @@ export class ConversationTools {
       {
         name: 'update_message_status',
         description: 'Update the delivery status of a message',
+        annotations: toolAnnotations('Update Message Status', 'update'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -350,6 +405,8 @@ export class ConversationTools {
       {
         name: 'add_inbound_message',
         description: 'Manually add an inbound message to a conversation',
+        annotations: toolAnnotations('Add Inbound Message', 'create'),
+        outputSchema: envelopeOutput({ messageId: text, conversationId: text }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -385,10 +442,12 @@ export class ConversationTools {
             },
             emailFrom: {
               type: 'string',
+              format: 'email',
               description: 'From email address'
             },
             emailTo: {
               type: 'string',
+              format: 'email',
               description: 'To email address'
             },
             emailCc: {
@@ -411,6 +470,7 @@ export class ConversationTools {
             },
             date: {
               type: 'string',
+              format: 'date-time',
               description: 'Date of the message (ISO format)'
             },
             call: {
@@ -433,6 +493,8 @@ export class ConversationTools {
       {
         name: 'add_outbound_call',
         description: 'Manually add an outbound call record to a conversation',
+        annotations: toolAnnotations('Add Outbound Call', 'create'),
+        outputSchema: envelopeOutput({ messageId: text, conversationId: text }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -468,6 +530,7 @@ export class ConversationTools {
             },
             date: {
               type: 'string',
+              format: 'date-time',
               description: 'Date of the call (ISO format)'
             }
           },
@@ -479,6 +542,8 @@ export class ConversationTools {
       {
         name: 'get_message_recording',
         description: 'Get call recording audio for a message',
+        annotations: toolAnnotations('Get Message Recording', 'read'),
+        outputSchema: envelopeOutput({ recording: anything, contentType: text }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -493,6 +558,8 @@ export class ConversationTools {
       {
         name: 'get_message_transcription',
         description: 'Get call transcription text for a message',
+        annotations: toolAnnotations('Get Message Transcription', 'read'),
+        outputSchema: envelopeOutput({ transcriptions: recordList }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -507,6 +574,8 @@ export class ConversationTools {
       {
         name: 'download_transcription',
         description: 'Download call transcription as a text file',
+        annotations: toolAnnotations('Download Transcription', 'read'),
+        outputSchema: envelopeOutput({ transcription: text }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -523,6 +592,8 @@ export class ConversationTools {
       {
         name: 'cancel_scheduled_message',
         description: 'Cancel a scheduled message before it is sent',
+        annotations: toolAnnotations('Cancel Scheduled Message', 'delete'),
+        outputSchema: envelopeOutput({ status: number }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -537,6 +608,8 @@ export class ConversationTools {
       {
         name: 'cancel_scheduled_email',
         description: 'Cancel a scheduled email before it is sent',
+        annotations: toolAnnotations('Cancel Scheduled Email', 'delete'),
+        outputSchema: envelopeOutput({ status: number }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -553,6 +626,8 @@ export class ConversationTools {
       {
         name: 'live_chat_typing',
         description: 'Send typing indicator for live chat conversations',
+        annotations: toolAnnotations('Live Chat Typing', 'outreach', { idempotentHint: true }),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -575,85 +650,82 @@ export class ConversationTools {
     ];
   }
 
+  /**
+   * Register conversation tools with the shared tool registry
+   */
+  registerTools(registry: ToolRegistry): void {
+    registry.registerCategory('conversations', this.getToolDefinitions(), this.getToolHandlers());
+  }
+
+  /**
+   * Map each conversation tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
+      send_sms: (args) => this.sendSMS(args as MCPSendSMSParams),
+
+      send_email: (args) => this.sendEmail(args as MCPSendEmailParams),
+
+      search_conversations: (args) => this.searchConversations(args as MCPSearchConversationsParams),
+
+      get_conversation: (args) => this.getConversation(args as MCPGetConversationParams),
+
+      create_conversation: (args) => this.createConversation(args as MCPCreateConversationParams),
+
+      update_conversation: (args) => this.updateConversation(args as MCPUpdateConversationParams),
+
+      get_recent_messages: (args) => this.getRecentMessages(args),
+
+      delete_conversation: (args) => this.deleteConversation(args as MCPDeleteConversationParams),
+
+      get_email_message: (args) => this.getEmailMessage(args as MCPGetEmailMessageParams),
+
+      get_message: (args) => this.getMessage(args as MCPGetMessageParams),
+
+      upload_message_attachments: (args) => this.uploadMessageAttachments(args as MCPUploadMessageAttachmentsParams),
+
+      update_message_status: (args) => this.updateMessageStatus(args as MCPUpdateMessageStatusParams),
+
+      add_inbound_message: (args) => this.addInboundMessage(args as MCPAddInboundMessageParams),
+
+      add_outbound_call: (args) => this.addOutboundCall(args as MCPAddOutboundCallParams),
+
+      get_message_recording: (args) => this.getMessageRecording(args as MCPGetMessageRecordingParams),
+
+      get_message_transcription: (args) => this.getMessageTranscription(args as MCPGetMessageTranscriptionParams),
+
+      download_transcription: (args) => this.downloadTranscription(args as MCPDownloadTranscriptionParams),
+
+      cancel_scheduled_message: (args) => this.cancelScheduledMessage(args as MCPCancelScheduledMessageParams),
+
+      cancel_scheduled_email: (args) => this.cancelScheduledEmail(args as MCPCancelScheduledEmailParams),
+
+      live_chat_typing: (args) => this.liveChatTyping(args as MCPLiveChatTypingParams)
+    };
+  }
+
   /**
    * Execute conversation tool based on tool name and arguments
    */
   async executeTool(name: string, args: any): Promise<any> {
-    switch (name) {
-      case 'send_sms':
-        return this.sendSMS(args as MCPSendSMSParams);
-      
-      case 'send_email':
-        return this.sendEmail(args as MCPSendEmailParams);
-      
-      case 'search_conversations':
-        return this.searchConversations(args as MCPSearchConversationsParams);
-      
-      case 'get_conversation':
-        return this.getConversation(args as MCPGetConversationParams);
-      
-      case 'create_conversation':
-        return this.createConversation(args as MCPCreateConversationParams);
-      
-      case 'update_conversation':
-        return this.updateConversation(args as MCPUpdateConversationParams);
-      
-      case 'get_recent_messages':
-        return this.getRecentMessages(args);
-      
-      case 'delete_conversation':
-        return this.deleteConversation(args as MCPDeleteConversationParams);
-      
-      case 'get_email_message':
-        return this.getEmailMessage(args as MCPGetEmailMessageParams);
-      
-      case 'get_message':
-        return this.getMessage(args as MCPGetMessageParams);
-      
-      case 'upload_message_attachments':
-        return this.uploadMessageAttachments(args as MCPUploadMessageAttachmentsParams);
-      
-      case 'update_message_status':
-        return this.updateMessageStatus(args as MCPUpdateMessageStatusParams);
-      
-      case 'add_inbound_message':
-        return this.addInboundMessage(args as MCPAddInboundMessageParams);
-      
-      case 'add_outbound_call':
-        return this.addOutboundCall(args as MCPAddOutboundCallParams);
-      
-      case 'get_message_recording':
-        return this.getMessageRecording(args as MCPGetMessageRecordingParams);
-      
-      case 'get_message_transcription':
-        return this.getMessageTranscription(args as MCPGetMessageTranscriptionParams);
-      
-      case 'download_transcription':
-        return this.downloadTranscription(args as MCPDownloadTranscriptionParams);
-      
-      case 'cancel_scheduled_message':
-        return this.cancelScheduledMessage(args as MCPCancelScheduledMessageParams);
-      
-      case 'cancel_scheduled_email':
-        return this.cancelScheduledEmail(args as MCPCancelScheduledEmailParams);
-      
-      case 'live_chat_typing':
-        return this.liveChatTyping(args as MCPLiveChatTypingParams);
-      
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+    const handler = this.getToolHandlers()[name];
+    if (!handler) {
+      throw new Error(`Unknown tool: ${name}`);
     }
+    return await handler(args);
   }
 
   /**
    * SEND SMS
    */
   private async sendSMS(params: MCPSendSMSParams): Promise<{ success: boolean; messageId: string; conversationId: string; message: string }> {
+    const fromNumber = params.fromNumber && await this.phoneNumbers.normalize('send_sms', 'fromNumber', params.fromNumber);
+
     try {
       const response = await this.ghlClient.sendSMS(
         params.contactId,
         params.message,
-        params.fromNumber
+        fromNumber
       );
 
       const result = response.data as GHLSendMessageResponse;
@@ -665,7 +737,7 @@ export class ConversationTools {
         message: `SMS sent successfully to contact ${params.contactId}`
       };
     } catch (error) {
-      throw new Error(`Failed to send SMS: ${error}`);
+      throw withErrorContext('Failed to send SMS', error);
     }
   }
 
@@ -697,14 +769,14 @@ export class ConversationTools {
         message: `Email sent successfully to contact ${params.contactId}`
       };
     } catch (error) {
-      throw new Error(`Failed to send email: ${error}`);
+      throw withErrorContext('Failed to send email', error);
     }
   }
 
   /**
    * SEARCH CONVERSATIONS
    */
-  private async searchConversations(params: MCPSearchConversationsParams): Promise<{ success: boolean; conversations: GHLConversation[]; total: number; message: string }> {
+  private async searchConversations(params: MCPSearchConversationsParams): Promise<{ success: boolean; conversations: GHLConversation[]; total: number; truncated?: boolean; message: string }> {
     try {
       const searchParams = {
         locationId: this.ghlClient.getConfig().locationId,
@@ -715,6 +787,19 @@ export class ConversationTools {
         assignedTo: params.assignedTo
       };
 
+      const fetchAllLimit = getFetchAllLimit(params);
+      if (fetchAllLimit !== undefined) {
+        const { limit, ...filters } = searchParams;
+        const { items, truncated } = await collect(this.ghlClient.iterateConversations(filters, { maxItems: fetchAllLimit }));
+        return {
+          success: true,
+          conversations: items,
+          total: items.length,
+          truncated,
+          message: `Found ${items.length} conversations${truncated ? ' (more results were not fetched)' : ''}`
+        };
+      }
+
       const response = await this.ghlClient.searchConversations(searchParams);
       const data = response.data as GHLSearchConversationsResponse;
       
@@ -725,7 +810,7 @@ export class ConversationTools {
         message: `Found ${data.conversations.length} conversations (${data.total} total)`
       };
     } catch (error) {
-      throw new Error(`Failed to search conversations: ${error}`);
+      throw withErrorContext('Failed to search conversations', error);
     }
   }
 
@@ -756,7 +841,7 @@ export class ConversationTools {
         message: `Retrieved conversation with ${messagesData.messages.length} messages`
       };
     } catch (error) {
-      throw new Error(`Failed to get conversation: ${error}`);
+      throw withErrorContext('Failed to get conversation', error);
     }
   }
 
@@ -778,7 +863,7 @@ export class ConversationTools {
         message: `Conversation created successfully with contact ${params.contactId}`
       };
     } catch (error) {
-      throw new Error(`Failed to create conversation: ${error}`);
+      throw withErrorContext('Failed to create conversation', error);
     }
   }
 
@@ -801,7 +886,7 @@ export class ConversationTools {
         message: `Conversation updated successfully`
       };
     } catch (error) {
-      throw new Error(`Failed to update conversation: ${error}`);
+      throw withErrorContext('Failed to update conversation', error);
     }
   }
 
@@ -841,7 +926,7 @@ export class ConversationTools {
         message: `Retrieved ${enhancedConversations.length} recent conversations`
       };
     } catch (error) {
-      throw new Error(`Failed to get recent messages: ${error}`);
+      throw withErrorContext('Failed to get recent messages', error);
     }
   }
 
@@ -854,7 +939,7 @@ export class ConversationTools {
         message: `Conversation deleted successfully`
       };
     } catch (error) {
-      throw new Error(`Failed to delete conversation: ${error}`);
+      throw withErrorContext('Failed to delete conversation', error);
     }
   }
 
@@ -869,7 +954,7 @@ export class ConversationTools {
         message: `Retrieved email message with ID ${params.emailMessageId}`
       };
     } catch (error) {
-      throw new Error(`Failed to get email message: ${error}`);
+      throw withErrorContext('Failed to get email message', error);
     }
   }
 
@@ -884,7 +969,7 @@ export class ConversationTools {
         message: `Retrieved message with ID ${params.messageId}`
       };
     } catch (error) {
-      throw new Error(`Failed to get message: ${error}`);
+      throw withErrorContext('Failed to get message', error);
     }
   }
 
@@ -905,7 +990,7 @@ export class ConversationTools {
         message: `Attachments uploaded successfully to conversation ${params.conversationId}`
       };
     } catch (error) {
-      throw new Error(`Failed to upload message attachments: ${error}`);
+      throw withErrorContext('Failed to upload message attachments', error);
     }
   }
 
@@ -925,7 +1010,7 @@ export class ConversationTools {
         message: `Message status updated to ${params.status} successfully`
       };
     } catch (error) {
-      throw new Error(`Failed to update message status: ${error}`);
+      throw withErrorContext('Failed to update message status', error);
     }
   }
 
@@ -959,7 +1044,7 @@ export class ConversationTools {
         message: `Inbound message added successfully to conversation ${params.conversationId}`
       };
     } catch (error) {
-      throw new Error(`Failed to add inbound message: ${error}`);
+      throw withErrorContext('Failed to add inbound message', error);
     }
   }
 
@@ -989,7 +1074,7 @@ export class ConversationTools {
         message: `Outbound call added successfully to conversation ${params.conversationId}`
       };
     } catch (error) {
-      throw new Error(`Failed to add outbound call: ${error}`);
+      throw withErrorContext('Failed to add outbound call', error);
     }
   }
 
@@ -1005,7 +1090,7 @@ export class ConversationTools {
         message: `Retrieved call recording for message ${params.messageId}`
       };
     } catch (error) {
-      throw new Error(`Failed to get message recording: ${error}`);
+      throw withErrorContext('Failed to get message recording', error);
     }
   }
 
@@ -1020,7 +1105,7 @@ export class ConversationTools {
         message: `Retrieved call transcription for message ${params.messageId}`
       };
     } catch (error) {
-      throw new Error(`Failed to get message transcription: ${error}`);
+      throw withErrorContext('Failed to get message transcription', error);
     }
   }
 
@@ -1035,7 +1120,7 @@ export class ConversationTools {
         message: `Downloaded call transcription for message ${params.messageId}`
       };
     } catch (error) {
-      throw new Error(`Failed to download transcription: ${error}`);
+      throw withErrorContext('Failed to download transcription', error);
     }
   }
 
@@ -1050,7 +1135,7 @@ export class ConversationTools {
         message: result.message || `Scheduled message cancelled successfully`
       };
     } catch (error) {
-      throw new Error(`Failed to cancel scheduled message: ${error}`);
+      throw withErrorContext('Failed to cancel scheduled message', error);
     }
   }
 
@@ -1065,7 +1150,7 @@ export class ConversationTools {
         message: result.message || `Scheduled email cancelled successfully`
       };
     } catch (error) {
-      throw new Error(`Failed to cancel scheduled email: ${error}`);
+      throw withErrorContext('Failed to cancel scheduled email', error);
     }
   }
 
@@ -1086,7 +1171,7 @@ export class ConversationTools {
         message: `Live chat typing indicator ${params.isTyping ? 'enabled' : 'disabled'} successfully`
       };
     } catch (error) {
-      throw new Error(`Failed to send live chat typing indicator: ${error}`);
+      throw withErrorContext('Failed to send live chat typing indicator', error);
     }
   }
 } 
\ No newline at end of file
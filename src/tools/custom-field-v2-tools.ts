@@ -1,5 +1,8 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { toolAnnotations } from './tool-annotations.js';
+import { envelopeOutput, record } from './output-schemas.js';
 import {
   MCPV2CreateCustomFieldParams,
   MCPV2UpdateCustomFieldParams,
@@ -11,7 +14,7 @@ import {
   MCPV2DeleteCustomFieldFolderParams
 } from '../types/ghl-types.js';
 
-export class CustomFieldV2Tools {
+export class CustomFieldV2Tools implements ToolProvider {
   constructor(private apiClient: GHLApiClient) {}
 
   getTools(): Tool[] {
@@ -20,6 +23,8 @@ export class CustomFieldV2Tools {
       {
         name: 'ghl_get_custom_field_by_id',
         description: 'Get a custom field or folder by its ID. Supports custom objects and company (business) fields.',
+        annotations: toolAnnotations('Get Custom Field by ID', 'read'),
+        outputSchema: envelopeOutput({ data: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -34,6 +39,8 @@ export class CustomFieldV2Tools {
       {
         name: 'ghl_create_custom_field',
         description: 'Create a new custom field for custom objects or company (business). Supports various field types including text, number, options, date, file upload, etc.',
+        annotations: toolAnnotations('Create Custom Field', 'create'),
+        outputSchema: envelopeOutput({ data: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -117,6 +124,8 @@ export class CustomFieldV2Tools {
       {
         name: 'ghl_update_custom_field',
         description: 'Update an existing custom field by ID. Can modify name, description, options, and other properties.',
+        annotations: toolAnnotations('Update Custom Field', 'update'),
+        outputSchema: envelopeOutput({ data: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -182,6 +191,8 @@ export class CustomFieldV2Tools {
       {
         name: 'ghl_delete_custom_field',
         description: 'Delete a custom field by ID. This will permanently remove the field and its data.',
+        annotations: toolAnnotations('Delete Custom Field', 'delete'),
+        outputSchema: envelopeOutput({ data: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -196,6 +207,8 @@ export class CustomFieldV2Tools {
       {
         name: 'ghl_get_custom_fields_by_object_key',
         description: 'Get all custom fields and folders for a specific object key (e.g., custom object or company).',
+        annotations: toolAnnotations('Get Custom Fields by Object Key', 'read'),
+        outputSchema: envelopeOutput({ data: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -215,6 +228,8 @@ export class CustomFieldV2Tools {
       {
         name: 'ghl_create_custom_field_folder',
         description: 'Create a new custom field folder for organizing fields within an object.',
+        annotations: toolAnnotations('Create Custom Field Folder', 'create'),
+        outputSchema: envelopeOutput({ data: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -237,6 +252,8 @@ export class CustomFieldV2Tools {
       {
         name: 'ghl_update_custom_field_folder',
         description: 'Update the name of an existing custom field folder.',
+        annotations: toolAnnotations('Update Custom Field Folder', 'update'),
+        outputSchema: envelopeOutput({ data: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -259,6 +276,8 @@ export class CustomFieldV2Tools {
       {
         name: 'ghl_delete_custom_field_folder',
         description: 'Delete a custom field folder. This will also affect any fields within the folder.',
+        annotations: toolAnnotations('Delete Custom Field Folder', 'delete'),
+        outputSchema: envelopeOutput({ data: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -277,128 +296,143 @@ export class CustomFieldV2Tools {
     ];
   }
 
-  async executeCustomFieldV2Tool(name: string, args: any): Promise<any> {
-    try {
-      switch (name) {
-        case 'ghl_get_custom_field_by_id': {
-          const params: MCPV2GetCustomFieldByIdParams = args;
-          const result = await this.apiClient.getCustomFieldV2ById(params.id);
-          return {
-            success: true,
-            data: result.data,
-            message: `Custom field/folder retrieved successfully`
-          };
-        }
+  /**
+   * Register custom field V2 tools with the shared tool registry
+   */
+  registerTools(registry: ToolRegistry): void {
+    registry.registerCategory('custom-fields-v2', this.getTools(), this.getToolHandlers());
+  }
 
-        case 'ghl_create_custom_field': {
-          const params: MCPV2CreateCustomFieldParams = args;
-          const result = await this.apiClient.createCustomFieldV2({
-            locationId: params.locationId || '',
-            name: params.name,
-            description: params.description,
-            placeholder: params.placeholder,
-            showInForms: params.showInForms ?? true,
-            options: params.options,
-            acceptedFormats: params.acceptedFormats,
-            dataType: params.dataType,
-            fieldKey: params.fieldKey,
-            objectKey: params.objectKey,
-            maxFileLimit: params.maxFileLimit,
-            allowCustomOption: params.allowCustomOption,
-            parentId: params.parentId
-          });
-          return {
-            success: true,
-            data: result.data,
-            message: `Custom field '${params.fieldKey}' created successfully`
-          };
-        }
+  /**
+   * Map each custom field V2 tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
+      ghl_get_custom_field_by_id: async (args) => {
+        const params: MCPV2GetCustomFieldByIdParams = args;
+        const result = await this.apiClient.getCustomFieldV2ById(params.id);
+        return {
+          success: true,
+          data: result.data,
+          message: `Custom field/folder retrieved successfully`
+        };
+      },
 
-        case 'ghl_update_custom_field': {
-          const params: MCPV2UpdateCustomFieldParams = args;
-          const result = await this.apiClient.updateCustomFieldV2(params.id, {
-            locationId: params.locationId || '',
-            name: params.name,
-            description: params.description,
-            placeholder: params.placeholder,
-            showInForms: params.showInForms ?? true,
-            options: params.options,
-            acceptedFormats: params.acceptedFormats,
-            maxFileLimit: params.maxFileLimit
-          });
-          return {
-            success: true,
-            data: result.data,
-            message: `Custom field updated successfully`
-          };
-        }
+      ghl_create_custom_field: async (args) => {
+        const params: MCPV2CreateCustomFieldParams = args;
+        const result = await this.apiClient.createCustomFieldV2({
+          locationId: params.locationId || '',
+          name: params.name,
+          description: params.description,
+          placeholder: params.placeholder,
+          showInForms: params.showInForms ?? true,
+          options: params.options,
+          acceptedFormats: params.acceptedFormats,
+          dataType: params.dataType,
+          fieldKey: params.fieldKey,
+          objectKey: params.objectKey,
+          maxFileLimit: params.maxFileLimit,
+          allowCustomOption: params.allowCustomOption,
+          parentId: params.parentId
+        });
+        return {
+          success: true,
+          data: result.data,
+          message: `Custom field '${params.fieldKey}' created successfully`
+        };
+      },
 
-        case 'ghl_delete_custom_field': {
-          const params: MCPV2DeleteCustomFieldParams = args;
-          const result = await this.apiClient.deleteCustomFieldV2(params.id);
-          return {
-            success: true,
-            data: result.data,
-            message: `Custom field deleted successfully`
-          };
-        }
+      ghl_update_custom_field: async (args) => {
+        const params: MCPV2UpdateCustomFieldParams = args;
+        const result = await this.apiClient.updateCustomFieldV2(params.id, {
+          locationId: params.locationId || '',
+          name: params.name,
+          description: params.description,
+          placeholder: params.placeholder,
+          showInForms: params.showInForms ?? true,
+          options: params.options,
+          acceptedFormats: params.acceptedFormats,
+          maxFileLimit: params.maxFileLimit
+        });
+        return {
+          success: true,
+          data: result.data,
+          message: `Custom field updated successfully`
+        };
+      },
 
-        case 'ghl_get_custom_fields_by_object_key': {
-          const params: MCPV2GetCustomFieldsByObjectKeyParams = args;
-          const result = await this.apiClient.getCustomFieldsV2ByObjectKey({
-            objectKey: params.objectKey,
-            locationId: params.locationId || ''
-          });
-          return {
-            success: true,
-            data: result.data,
-            message: `Retrieved ${result.data?.fields?.length || 0} fields and ${result.data?.folders?.length || 0} folders for object '${params.objectKey}'`
-          };
-        }
+      ghl_delete_custom_field: async (args) => {
+        const params: MCPV2DeleteCustomFieldParams = args;
+        const result = await this.apiClient.deleteCustomFieldV2(params.id);
+        return {
+          success: true,
+          data: result.data,
+          message: `Custom field deleted successfully`
+        };
+      },
 
-        case 'ghl_create_custom_field_folder': {
-          const params: MCPV2CreateCustomFieldFolderParams = args;
-          const result = await this.apiClient.createCustomFieldV2Folder({
-            objectKey: params.objectKey,
-            name: params.name,
-            locationId: params.locationId || ''
-          });
-          return {
-            success: true,
-            data: result.data,
-            message: `Custom field folder '${params.name}' created successfully`
-          };
-        }
+      ghl_get_custom_fields_by_object_key: async (args) => {
+        const params: MCPV2GetCustomFieldsByObjectKeyParams = args;
+        const result = await this.apiClient.getCustomFieldsV2ByObjectKey({
+          objectKey: params.objectKey,
+          locationId: params.locationId || ''
+        });
+        return {
+          success: true,
+          data: result.data,
+          message: `Retrieved ${result.data?.fields?.length || 0} fields and ${result.data?.folders?.length || 0} folders for object '${params.objectKey}'`
+        };
+      },
 
-        case 'ghl_update_custom_field_folder': {
-          const params: MCPV2UpdateCustomFieldFolderParams = args;
-          const result = await this.apiClient.updateCustomFieldV2Folder(params.id, {
-            name: params.name,
-            locationId: params.locationId || ''
-          });
-          return {
-            success: true,
-            data: result.data,
-            message: `Custom field folder updated to '${params.name}'`
-          };
-        }
+      ghl_create_custom_field_folder: async (args) => {
+        const params: MCPV2CreateCustomFieldFolderParams = args;
+        const result = await this.apiClient.createCustomFieldV2Folder({
+          objectKey: params.objectKey,
+          name: params.name,
+          locationId: params.locationId || ''
+        });
+        return {
+          success: true,
+          data: result.data,
+          message: `Custom field folder '${params.name}' created successfully`
+        };
+      },
 
-        case 'ghl_delete_custom_field_folder': {
-          const params: MCPV2DeleteCustomFieldFolderParams = args;
-          const result = await this.apiClient.deleteCustomFieldV2Folder({
-            id: params.id,
-            locationId: params.locationId || ''
-          });
-          return {
-            success: true,
-            data: result.data,
-            message: `Custom field folder deleted successfully`
-          };
-        }
+      ghl_update_custom_field_folder: async (args) => {
+        const params: MCPV2UpdateCustomFieldFolderParams = args;
+        const result = await this.apiClient.updateCustomFieldV2Folder(params.id, {
+          name: params.name,
+          locationId: params.locationId || ''
+        });
+        return {
+          success: true,
+          data: result.data,
+          message: `Custom field folder updated to '${params.name}'`
+        };
+      },
 
-        default:
-          throw new Error(`Unknown custom field V2 tool: ${name}`);
+      ghl_delete_custom_field_folder: async (args) => {
+        const params: MCPV2DeleteCustomFieldFolderParams = args;
+        const result = await this.apiClient.deleteCustomFieldV2Folder({
+          id: params.id,
+          locationId: params.locationId || ''
+        });
+        return {
+          success: true,
+          data: result.data,
+          message: `Custom field folder deleted successfully`
+        };
+      }
+    };
+  }
+
+  async executeCustomFieldV2Tool(name: string, args: any): Promise<any> {
+    try {
+      const handler = this.getToolHandlers()[name];
+      if (!handler) {
+        throw new Error(`Unknown custom field V2 tool: ${name}`);
       }
+      return await handler(args);
     } catch (error) {
       return {
         success: false,
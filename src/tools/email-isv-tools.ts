@@ -5,6 +5,9 @@
 
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { toolAnnotations } from './tool-annotations.js';
+import { envelopeOutput, record } from './output-schemas.js';
 import {
   MCPVerifyEmailParams,
   GHLEmailVerificationResponse
@@ -14,7 +17,7 @@ import {
  * Email ISV Tools class
  * Provides email verification capabilities
  */
-export class EmailISVTools {
+export class EmailISVTools implements ToolProvider {
   constructor(private ghlClient: GHLApiClient) {}
 
   /**
@@ -25,6 +28,8 @@ export class EmailISVTools {
       {
         name: 'verify_email',
         description: 'Verify email address deliverability and get risk assessment. Charges will be deducted from the specified location wallet.',
+        annotations: toolAnnotations('Verify Email', 'outreach'),
+        outputSchema: envelopeOutput({ verification: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -48,17 +53,31 @@ export class EmailISVTools {
     ];
   }
 
+  /**
+   * Register email ISV tools with the shared tool registry
+   */
+  registerTools(registry: ToolRegistry): void {
+    registry.registerCategory('email-isv', this.getToolDefinitions(), this.getToolHandlers());
+  }
+
+  /**
+   * Map each email ISV tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
+      verify_email: (args) => this.verifyEmail(args as MCPVerifyEmailParams)
+    };
+  }
+
   /**
    * Execute email ISV tools
    */
   async executeTool(name: string, args: any): Promise<any> {
-    switch (name) {
-      case 'verify_email':
-        return await this.verifyEmail(args as MCPVerifyEmailParams);
-
-      default:
-        throw new Error(`Unknown email ISV tool: ${name}`);
+    const handler = this.getToolHandlers()[name];
+    if (!handler) {
+      throw new Error(`Unknown email ISV tool: ${name}`);
     }
+    return await handler(args);
   }
 
   /**
@@ -5,6 +5,10 @@
 
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { withErrorContext } from '../clients/ghl-api-error.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { toolAnnotations } from './tool-annotations.js';
+import { envelopeOutput, listOf, number, record, EMAIL_CAMPAIGN, EMAIL_TEMPLATE } from './output-schemas.js';
 import {
   MCPGetEmailCampaignsParams,
   MCPCreateEmailTemplateParams,
@@ -19,7 +23,7 @@ import {
  * Email Tools Class
  * Implements MCP tools for email campaigns and templates
  */
-export class EmailTools {
+export class EmailTools implements ToolProvider {
   constructor(private ghlClient: GHLApiClient) {}
 
   /**
@@ -30,6 +34,8 @@ export class EmailTools {
       {
         name: 'get_email_campaigns',
         description: 'Get a list of email campaigns from GoHighLevel.',
+        annotations: toolAnnotations('Get Email Campaigns', 'read'),
+        outputSchema: envelopeOutput({ campaigns: listOf(EMAIL_CAMPAIGN), total: number }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -55,6 +61,8 @@ export class EmailTools {
       {
         name: 'create_email_template',
         description: 'Create a new email template in GoHighLevel.',
+        annotations: toolAnnotations('Create Email Template', 'create'),
+        outputSchema: envelopeOutput({ template: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -78,6 +86,8 @@ export class EmailTools {
       {
         name: 'get_email_templates',
         description: 'Get a list of email templates from GoHighLevel.',
+        annotations: toolAnnotations('Get Email Templates', 'read'),
+        outputSchema: envelopeOutput({ templates: listOf(EMAIL_TEMPLATE) }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -97,6 +107,8 @@ export class EmailTools {
       {
         name: 'update_email_template',
         description: 'Update an existing email template in GoHighLevel.',
+        annotations: toolAnnotations('Update Email Template', 'update'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -119,6 +131,8 @@ export class EmailTools {
       {
         name: 'delete_email_template',
         description: 'Delete an email template from GoHighLevel.',
+        annotations: toolAnnotations('Delete Email Template', 'delete'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -133,24 +147,35 @@ export class EmailTools {
     ];
   }
 
+  /**
+   * Register email tools with the shared tool registry
+   */
+  registerTools(registry: ToolRegistry): void {
+    registry.registerCategory('email', this.getToolDefinitions(), this.getToolHandlers());
+  }
+
+  /**
+   * Map each email tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
+      get_email_campaigns: (args) => this.getEmailCampaigns(args as MCPGetEmailCampaignsParams),
+      create_email_template: (args) => this.createEmailTemplate(args as MCPCreateEmailTemplateParams),
+      get_email_templates: (args) => this.getEmailTemplates(args as MCPGetEmailTemplatesParams),
+      update_email_template: (args) => this.updateEmailTemplate(args as MCPUpdateEmailTemplateParams),
+      delete_email_template: (args) => this.deleteEmailTemplate(args as MCPDeleteEmailTemplateParams)
+    };
+  }
+
   /**
    * Execute email tool based on tool name and arguments
    */
   async executeTool(name: string, args: any): Promise<any> {
-    switch (name) {
-      case 'get_email_campaigns':
-        return this.getEmailCampaigns(args as MCPGetEmailCampaignsParams);
-      case 'create_email_template':
-        return this.createEmailTemplate(args as MCPCreateEmailTemplateParams);
-      case 'get_email_templates':
-        return this.getEmailTemplates(args as MCPGetEmailTemplatesParams);
-      case 'update_email_template':
-        return this.updateEmailTemplate(args as MCPUpdateEmailTemplateParams);
-      case 'delete_email_template':
-        return this.deleteEmailTemplate(args as MCPDeleteEmailTemplateParams);
-      default:
-        throw new Error(`Unknown email tool: ${name}`);
+    const handler = this.getToolHandlers()[name];
+    if (!handler) {
+      throw new Error(`Unknown email tool: ${name}`);
     }
+    return await handler(args);
   }
 
   private async getEmailCampaigns(params: MCPGetEmailCampaignsParams): Promise<{ success: boolean; campaigns: GHLEmailCampaign[]; total: number; message: string }> {
@@ -166,7 +191,7 @@ export class EmailTools {
         message: `Successfully retrieved ${response.data.schedules.length} email campaigns.`
       };
     } catch (error) {
-      throw new Error(`Failed to get email campaigns: ${error}`);
+      throw withErrorContext('Failed to get email campaigns', error);
     }
   }
 
@@ -182,7 +207,7 @@ export class EmailTools {
         message: `Successfully created email template.`
       };
     } catch (error) {
-      throw new Error(`Failed to create email template: ${error}`);
+      throw withErrorContext('Failed to create email template', error);
     }
   }
 
@@ -198,7 +223,7 @@ export class EmailTools {
         message: `Successfully retrieved ${response.data.length} email templates.`
       };
     } catch (error) {
-      throw new Error(`Failed to get email templates: ${error}`);
+      throw withErrorContext('Failed to get email templates', error);
     }
   }
 
@@ -213,7 +238,7 @@ export class EmailTools {
         message: 'Successfully updated email template.'
       };
     } catch (error) {
-      throw new Error(`Failed to update email template: ${error}`);
+      throw withErrorContext('Failed to update email template', error);
     }
   }
 
@@ -228,7 +253,7 @@ export class EmailTools {
         message: 'Successfully deleted email template.'
       };
     } catch (error) {
-      throw new Error(`Failed to delete email template: ${error}`);
+      throw withErrorContext('Failed to delete email template', error);
     }
   }
 } 
\ No newline at end of file
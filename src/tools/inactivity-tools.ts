@@ -5,22 +5,56 @@
 
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { GHLRequestCancelledError } from '../clients/ghl-api-error.js';
+import { RequestBudget } from '../clients/rate-limiter.js';
+import { collect } from '../clients/paginator.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { ToolCallContext } from './tool-context.js';
+import { toolAnnotations } from './tool-annotations.js';
+import { outputSchema, listOf, number, boolean, record, textList, CONTACT, OPPORTUNITY } from './output-schemas.js';
 import {
   MCPDetectContactsInactivityParams,
   MCPDetectOpportunitiesInactivityParams,
   GHLDetectContactsInactivityResponse,
   GHLDetectOpportunitiesInactivityResponse,
   GHLInactiveContact,
-  GHLInactiveOpportunity,
-  GHLContact,
-  GHLOpportunity
+  GHLInactiveOpportunity
 } from '../types/ghl-types.js';
 
+// Upper bounds on records scanned per run
+const MAX_CONTACTS = 50000;
+const MAX_OPPORTUNITIES = 10000;
+
+// Contacts checked between two checkpoints when the scan runs as a background job
+const CHECKPOINT_INTERVAL = 50;
+
+/**
+ * Saved state of a contacts scan running as a background job. A resumed scan keeps the original cutoff date
+ * and skips the contacts already checked.
+ */
+interface ContactsScanCheckpoint {
+  since: string;
+  checkedContactIds: string[];
+  inactiveContacts: GHLInactiveContact[];
+  errors: string[];
+}
+
+/**
+ * Why a scan should stop: the client cancelled the call, or the request budget ran out. Null while it may continue.
+ */
+function stopReason(budget: RequestBudget, signal: AbortSignal | undefined): string | null {
+  return signal?.aborted ? 'Cancelled by the client' : budget.exhaustedReason();
+}
+
+function formatCount(count: number): string {
+  return count.toLocaleString('en-US');
+}
+
 /**
  * Inactivity Tools class
  * Provides inactivity detection capabilities for contacts and opportunities
  */
-export class InactivityTools {
+export class InactivityTools implements ToolProvider {
   constructor(private ghlClient: GHLApiClient) {}
 
   /**
@@ -30,7 +64,9 @@ export class InactivityTools {
     return [
       {
         name: 'detect_contacts_inactivity',
-        description: 'Detect contacts that have had no activity within a specified number of days. Checks conversations, appointments, notes, and tasks for recent activity.',
+        description: 'Detect contacts that have had no activity within a specified number of days. Checks conversations, appointments, notes, and tasks for recent activity. Long-running: reports progress and returns partial results if cancelled. Reports the remaining API quota.',
+        annotations: toolAnnotations('Detect Contacts Inactivity', 'read'),
+        outputSchema: outputSchema({ inactiveContacts: listOf(CONTACT), totalContactsChecked: number, inactiveCount: number, errors: textList, inactivityThresholdDays: number, stoppedEarly: boolean, rateLimit: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -39,6 +75,11 @@ export class InactivityTools {
               description: 'Number of days to check for inactivity',
               minimum: 1,
               maximum: 365
+            },
+            maxRequests: {
+              type: 'number',
+              description: 'Optional cap on GHL API requests for this run; the scan stops with partial results when it is reached or the daily API quota runs low',
+              minimum: 1
             }
           },
           required: ['inactivityDays']
@@ -46,7 +87,9 @@ export class InactivityTools {
       },
       {
         name: 'detect_opportunities_inactivity',
-        description: 'Detect opportunities that have had no status or stage changes within a specified number of days. Optionally filter by pipeline stage.',
+        description: 'Detect opportunities that have had no status or stage changes within a specified number of days. Optionally filter by pipeline stage. Long-running: reports progress and returns partial results if cancelled. Reports the remaining API quota.',
+        annotations: toolAnnotations('Detect Opportunities Inactivity', 'read'),
+        outputSchema: outputSchema({ inactiveOpportunities: listOf(OPPORTUNITY), totalOpportunitiesChecked: number, inactiveCount: number, errors: textList, inactivityThresholdDays: number, stoppedEarly: boolean, rateLimit: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -60,6 +103,11 @@ export class InactivityTools {
               type: 'string',
               description: 'Optional pipeline stage ID to filter opportunities by specific stage',
               default: null
+            },
+            maxRequests: {
+              type: 'number',
+              description: 'Optional cap on GHL API requests for this run; the scan stops with partial results when it is reached or the daily API quota runs low',
+              minimum: 1
             }
           },
           required: ['inactivityDays']
@@ -68,94 +116,114 @@ export class InactivityTools {
     ];
   }
 
+  /**
+   * Register inactivity tools with the shared tool registry
+   */
+  registerTools(registry: ToolRegistry): void {
+    registry.registerCategory('inactivity', this.getToolDefinitions(), this.getToolHandlers(), {
+      jobs: ['detect_contacts_inactivity', 'detect_opportunities_inactivity']
+    });
+  }
+
+  /**
+   * Map each inactivity tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
+      detect_contacts_inactivity: (args, context) => this.detectContactsInactivity(args as MCPDetectContactsInactivityParams, context),
+      detect_opportunities_inactivity: (args, context) => this.detectOpportunitiesInactivity(args as MCPDetectOpportunitiesInactivityParams, context)
+    };
+  }
+
   /**
    * Execute inactivity detection tools
    */
   async executeTool(name: string, args: any): Promise<any> {
-    switch (name) {
-      case 'detect_contacts_inactivity':
-        return await this.detectContactsInactivity(args as MCPDetectContactsInactivityParams);
-      case 'detect_opportunities_inactivity':
-        return await this.detectOpportunitiesInactivity(args as MCPDetectOpportunitiesInactivityParams);
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+    const handler = this.getToolHandlers()[name];
+    if (!handler) {
+      throw new Error(`Unknown tool: ${name}`);
     }
+    return await handler(args);
   }
 
   /**
-   * Detect contacts inactivity
+   * Detect contacts inactivity, reporting progress per contact checked.
+   * Stops with the contacts checked so far when cancelled or out of budget; as a background job it checkpoints
+   * every CHECKPOINT_INTERVAL contacts and resumes from there.
    */
-  private async detectContactsInactivity(params: MCPDetectContactsInactivityParams): Promise<GHLDetectContactsInactivityResponse> {
-    const { inactivityDays } = params;
+  private async detectContactsInactivity(
+    params: MCPDetectContactsInactivityParams,
+    context: ToolCallContext = {}
+  ): Promise<GHLDetectContactsInactivityResponse> {
+    const { inactivityDays, maxRequests } = params;
+    const { signal, reportProgress, saveCheckpoint } = context;
+    const saved = context.checkpoint as ContactsScanCheckpoint | undefined;
+    const budget = this.ghlClient.createRequestBudget({ maxRequests });
 
-    console.log(`🔍 [INACTIVITY] Starting contacts inactivity detection for ${inactivityDays} days`);
+    process.stderr.write(`🔍 [INACTIVITY] Starting contacts inactivity detection for ${inactivityDays} days${saved ? ` (resuming after ${saved.checkedContactIds.length} contacts)` : ''}\n`);
 
     // Calculate date range for inactivity check
     const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(endDate.getDate() - inactivityDays);
+    const startDate = saved ? new Date(saved.since) : new Date();
+    if (!saved) {
+      startDate.setDate(endDate.getDate() - inactivityDays);
+    }
 
-    console.log(`📅 [INACTIVITY] Checking contacts inactive since: ${startDate.toISOString()}`);
+    process.stderr.write(`📅 [INACTIVITY] Checking contacts inactive since: ${startDate.toISOString()}\n`);
 
-    const inactiveContacts: GHLInactiveContact[] = [];
-    let totalContactsChecked = 0;
-    const errors: string[] = [];
+    const checkedContactIds = new Set(saved?.checkedContactIds);
+    const inactiveContacts: GHLInactiveContact[] = saved?.inactiveContacts || [];
+    let totalContactsChecked = checkedContactIds.size;
+    let stoppedEarly = false;
+    const errors: string[] = saved?.errors || [];
+    const checkpoint = () => saveCheckpoint?.({
+      since: startDate.toISOString(),
+      checkedContactIds: Array.from(checkedContactIds),
+      inactiveContacts,
+      errors
+    } satisfies ContactsScanCheckpoint);
 
     try {
       // Get all contacts with cursor-based pagination (required for > 10,000 records)
-      let contacts: GHLContact[] = [];
-      let searchAfter: [number, string] | undefined;
-      let pageCount = 0;
-
-      console.log(`📊 [INACTIVITY] Starting contact pagination...`);
-
-      while (true) {
-        pageCount++;
-        const searchParams: any = {
-          locationId: this.ghlClient.getConfig().locationId,
-          pageLimit: 100, // Use pageLimit instead of limit
-          ...(searchAfter && { searchAfter })
-        };
-
-        console.log(`📄 [INACTIVITY] Fetching contacts page ${pageCount} (cursor: ${searchAfter ? searchAfter.join(',') : 'start'})`);
-
-        const contactsResponse = await this.ghlClient.searchContacts(searchParams);
-        if (!contactsResponse.success) {
-          throw new Error(contactsResponse.error?.message || 'Failed to search contacts');
-        }
-
-        const batchContacts = contactsResponse.data?.contacts || [];
-        contacts.push(...batchContacts);
-
-        console.log(`📋 [INACTIVITY] Retrieved ${batchContacts.length} contacts (total: ${contacts.length})`);
-
-        // Check pagination: if we got fewer contacts than requested or no searchAfter, we're done
-        if (batchContacts.length < 100 || !contactsResponse.data?.searchAfter) {
-          console.log(`🏁 [INACTIVITY] Contact pagination complete. Total pages: ${pageCount}, Total contacts: ${contacts.length}`);
-          break;
-        }
-
-        // Use the searchAfter from response for next page
-        searchAfter = contactsResponse.data.searchAfter;
-
-        // Safety check to prevent infinite loops (API limit is much higher with cursor pagination)
-        if (contacts.length > 50000) {
-          console.log(`⚠️ [INACTIVITY] Safety limit reached: ${contacts.length} contacts`);
-          errors.push('Too many contacts, stopping at 50000');
-          break;
-        }
+      process.stderr.write(`📊 [INACTIVITY] Starting contact pagination...\n`);
+
+      const { items: contacts, pages, truncated } = await collect(this.ghlClient.iterateContacts({}, {
+        maxItems: MAX_CONTACTS,
+        shouldContinue: () => stopReason(budget, signal) === null
+      }));
+
+      process.stderr.write(`🏁 [INACTIVITY] Contact pagination complete. Total pages: ${pages}, Total contacts: ${contacts.length}\n`);
+
+      const paginationStopReason = truncated ? stopReason(budget, signal) : null;
+      if (paginationStopReason) {
+        process.stderr.write(`⚠️ [INACTIVITY] ${paginationStopReason}, stopping contact pagination\n`);
+        errors.push(`Stopped early: ${paginationStopReason}`);
+        stoppedEarly = true;
+      } else if (truncated) {
+        // Safety limit to bound the per-contact activity checks
+        process.stderr.write(`⚠️ [INACTIVITY] Safety limit reached: ${contacts.length} contacts\n`);
+        errors.push(`Too many contacts, stopping at ${MAX_CONTACTS}`);
       }
 
       // Check each contact for inactivity
-      console.log(`🔍 [INACTIVITY] Checking ${contacts.length} contacts for inactivity...`);
+      process.stderr.write(`🔍 [INACTIVITY] Checking ${contacts.length} contacts for inactivity...\n`);
 
       for (const contact of contacts) {
-        if (!contact.id) continue;
-
-        totalContactsChecked += 1;
+        if (stoppedEarly) break;
+        if (!contact.id || checkedContactIds.has(contact.id)) continue;
+
+        const checkStopReason = stopReason(budget, signal);
+        if (checkStopReason) {
+          process.stderr.write(`⚠️ [INACTIVITY] ${checkStopReason}, stopping after ${totalContactsChecked}/${contacts.length} contacts\n`);
+          errors.push(`Stopped early: ${checkStopReason}`);
+          stoppedEarly = true;
+          break;
+        }
 
         try {
           const isInactive = await this.checkContactActivity(contact.id, startDate);
+          totalContactsChecked += 1;
+          checkedContactIds.add(contact.id);
 
           if (isInactive.inactive) {
             const inactiveContact: GHLInactiveContact = {
@@ -166,109 +234,109 @@ export class InactivityTools {
             inactiveContacts.push(inactiveContact);
           }
 
+          reportProgress?.({
+            progress: totalContactsChecked,
+            total: contacts.length,
+            message: `Checked ${formatCount(totalContactsChecked)}/${formatCount(contacts.length)} contacts, ${formatCount(inactiveContacts.length)} inactive`
+          });
+
           // Log progress every 100 contacts
           if (totalContactsChecked % 100 === 0) {
-            console.log(`📈 [INACTIVITY] Checked ${totalContactsChecked}/${contacts.length} contacts. Inactive: ${inactiveContacts.length}`);
+            process.stderr.write(`📈 [INACTIVITY] Checked ${totalContactsChecked}/${contacts.length} contacts. Inactive: ${inactiveContacts.length}\n`);
           }
         } catch (error) {
-          console.log(`❌ [INACTIVITY] Error checking contact ${contact.id}: ${error instanceof Error ? error.message : String(error)}`);
+          if (error instanceof GHLRequestCancelledError) {
+            // The contact was only partly checked, so it is left out of the results
+            process.stderr.write(`⚠️ [INACTIVITY] Cancelled by the client after ${totalContactsChecked}/${contacts.length} contacts\n`);
+            errors.push('Stopped early: Cancelled by the client');
+            stoppedEarly = true;
+            break;
+          }
+          totalContactsChecked += 1;
+          checkedContactIds.add(contact.id);
+          process.stderr.write(`❌ [INACTIVITY] Error checking contact ${contact.id}: ${error instanceof Error ? error.message : String(error)}\n`);
           errors.push(`Error checking contact ${contact.id}: ${error instanceof Error ? error.message : String(error)}`);
         }
+
+        if (totalContactsChecked % CHECKPOINT_INTERVAL === 0) {
+          await checkpoint();
+        }
       }
 
-      console.log(`✅ [INACTIVITY] Contact checking complete. Checked: ${totalContactsChecked}, Inactive: ${inactiveContacts.length}`);
+      process.stderr.write(`✅ [INACTIVITY] Contact checking complete. Checked: ${totalContactsChecked}, Inactive: ${inactiveContacts.length}\n`);
     } catch (error) {
-      console.log(`❌ [INACTIVITY] Error fetching contacts: ${error instanceof Error ? error.message : String(error)}`);
+      process.stderr.write(`❌ [INACTIVITY] Error fetching contacts: ${error instanceof Error ? error.message : String(error)}\n`);
       errors.push(`Error fetching contacts: ${error instanceof Error ? error.message : String(error)}`);
     }
 
-    console.log(`🎯 [INACTIVITY] Contacts detection finished. Inactive: ${inactiveContacts.length}/${totalContactsChecked}, Errors: ${errors.length}`);
+    process.stderr.write(`🎯 [INACTIVITY] Contacts detection finished. Inactive: ${inactiveContacts.length}/${totalContactsChecked}, Errors: ${errors.length}\n`);
 
     return {
       inactiveContacts,
       totalContactsChecked,
       inactiveCount: inactiveContacts.length,
       errors,
-      inactivityThresholdDays: inactivityDays
+      inactivityThresholdDays: inactivityDays,
+      stoppedEarly,
+      rateLimit: this.ghlClient.getRateLimitStatus()
     };
   }
 
   /**
-   * Detect opportunities inactivity
+   * Detect opportunities inactivity, reporting progress per opportunity fetched.
+   * Stops with the opportunities fetched so far when cancelled or out of budget.
    */
-  private async detectOpportunitiesInactivity(params: MCPDetectOpportunitiesInactivityParams): Promise<GHLDetectOpportunitiesInactivityResponse> {
-    const { inactivityDays, pipelineStageId } = params;
+  private async detectOpportunitiesInactivity(
+    params: MCPDetectOpportunitiesInactivityParams,
+    context: ToolCallContext = {}
+  ): Promise<GHLDetectOpportunitiesInactivityResponse> {
+    const { inactivityDays, pipelineStageId, maxRequests } = params;
+    const { signal, reportProgress } = context;
+    const budget = this.ghlClient.createRequestBudget({ maxRequests });
 
-    console.log(`🔍 [INACTIVITY] Starting opportunities inactivity detection for ${inactivityDays} days${pipelineStageId ? ` (stage filter: ${pipelineStageId})` : ''}`);
+    process.stderr.write(`🔍 [INACTIVITY] Starting opportunities inactivity detection for ${inactivityDays} days${pipelineStageId ? ` (stage filter: ${pipelineStageId})` : ''}\n`);
 
     // Calculate date range for inactivity check
     const endDate = new Date();
     const startDate = new Date();
     startDate.setDate(endDate.getDate() - inactivityDays);
 
-    console.log(`📅 [INACTIVITY] Checking opportunities inactive since: ${startDate.toISOString()}`);
+    process.stderr.write(`📅 [INACTIVITY] Checking opportunities inactive since: ${startDate.toISOString()}\n`);
 
     const inactiveOpportunities: GHLInactiveOpportunity[] = [];
     let totalOpportunitiesChecked = 0;
+    let stoppedEarly = false;
     const errors: string[] = [];
 
     try {
       // Get all opportunities with page-based pagination
-      let opportunities: GHLOpportunity[] = [];
-      let currentPage = 1;
-      let hasMorePages = true;
-
-      console.log(`📊 [INACTIVITY] Starting opportunity pagination (page-based)...`);
-
-      while (hasMorePages) {
-        const searchParams: any = {
-          location_id: this.ghlClient.getConfig().locationId,
-          page: currentPage,
-          limit: 100,
-          getTasks: true,
-          getNotes: true,
-          getCalendarEvents: true,
-          ...(pipelineStageId && { pipeline_stage_id: pipelineStageId })
-        };
-
-        console.log(`📄 [INACTIVITY] Fetching opportunities page ${currentPage}${pipelineStageId ? ` (stage: ${pipelineStageId})` : ''} with tasks/notes/events`);
-
-        const opportunitiesResponse = await this.ghlClient.searchOpportunities(searchParams);
-        if (!opportunitiesResponse.success) {
-          throw new Error(opportunitiesResponse.error?.message || 'Failed to search opportunities');
-        }
-
-        const batchOpportunities = opportunitiesResponse.data?.opportunities || [];
-        opportunities.push(...batchOpportunities);
-
-        console.log(`📋 [INACTIVITY] Retrieved ${batchOpportunities.length} opportunities (total: ${opportunities.length})`);
-
-        // Check pagination
-        const meta = opportunitiesResponse.data?.meta;
-        console.log(`📊 [INACTIVITY] Pagination meta:`, JSON.stringify(meta, null, 2));
-
-        // Stop if we got fewer results than the limit, or if there's no nextPage
-        hasMorePages = batchOpportunities.length === 100 && !!meta?.nextPage && meta.nextPage > currentPage;
-
-        console.log(`🔄 [INACTIVITY] Has more pages: ${hasMorePages} (batch size: ${batchOpportunities.length}, nextPage: ${meta?.nextPage}, currentPage: ${currentPage})`);
-
-        if (!hasMorePages) {
-          console.log(`🏁 [INACTIVITY] Opportunity pagination complete. Total pages: ${currentPage}, Total opportunities: ${opportunities.length}`);
-          break;
-        }
-
-        currentPage++;
-
-        // Safety check to prevent infinite loops
-        if (opportunities.length > 10000) {
-          console.log(`⚠️ [INACTIVITY] Safety limit reached: ${opportunities.length} opportunities`);
-          errors.push('Too many opportunities, stopping at 10000');
-          break;
-        }
+      process.stderr.write(`📊 [INACTIVITY] Starting opportunity pagination (page-based)${pipelineStageId ? ` (stage: ${pipelineStageId})` : ''} with tasks/notes/events...\n`);
+
+      const { items: opportunities, pages, truncated } = await collect(this.ghlClient.iterateOpportunities({
+        getTasks: true,
+        getNotes: true,
+        getCalendarEvents: true,
+        ...(pipelineStageId && { pipeline_stage_id: pipelineStageId })
+      }, {
+        maxItems: MAX_OPPORTUNITIES,
+        shouldContinue: () => stopReason(budget, signal) === null
+      }), count => reportProgress?.({ progress: count, message: `Fetched ${formatCount(count)} opportunities` }));
+
+      process.stderr.write(`🏁 [INACTIVITY] Opportunity pagination complete. Total pages: ${pages}, Total opportunities: ${opportunities.length}\n`);
+
+      const paginationStopReason = truncated ? stopReason(budget, signal) : null;
+      if (paginationStopReason) {
+        process.stderr.write(`⚠️ [INACTIVITY] ${paginationStopReason}, stopping opportunity pagination\n`);
+        errors.push(`Stopped early: ${paginationStopReason}`);
+        stoppedEarly = true;
+      } else if (truncated) {
+        // Safety check to prevent runaway pagination
+        process.stderr.write(`⚠️ [INACTIVITY] Safety limit reached: ${opportunities.length} opportunities\n`);
+        errors.push(`Too many opportunities, stopping at ${MAX_OPPORTUNITIES}`);
       }
 
       // Check each opportunity for inactivity
-      console.log(`🔍 [INACTIVITY] Checking ${opportunities.length} opportunities for inactivity...`);
+      process.stderr.write(`🔍 [INACTIVITY] Checking ${opportunities.length} opportunities for inactivity...\n`);
 
       for (const opportunity of opportunities) {
         if (!opportunity.id) continue;
@@ -311,28 +379,30 @@ export class InactivityTools {
 
           // Log progress every 100 opportunities
           if (totalOpportunitiesChecked % 100 === 0) {
-            console.log(`📈 [INACTIVITY] Checked ${totalOpportunitiesChecked}/${opportunities.length} opportunities. Inactive: ${inactiveOpportunities.length}`);
+            process.stderr.write(`📈 [INACTIVITY] Checked ${totalOpportunitiesChecked}/${opportunities.length} opportunities. Inactive: ${inactiveOpportunities.length}\n`);
           }
         } catch (error) {
-          console.log(`❌ [INACTIVITY] Error checking opportunity ${opportunity.id}: ${error instanceof Error ? error.message : String(error)}`);
+          process.stderr.write(`❌ [INACTIVITY] Error checking opportunity ${opportunity.id}: ${error instanceof Error ? error.message : String(error)}\n`);
           errors.push(`Error checking opportunity ${opportunity.id}: ${error instanceof Error ? error.message : String(error)}`);
         }
       }
 
-      console.log(`✅ [INACTIVITY] Opportunity checking complete. Checked: ${totalOpportunitiesChecked}, Inactive: ${inactiveOpportunities.length}`);
+      process.stderr.write(`✅ [INACTIVITY] Opportunity checking complete. Checked: ${totalOpportunitiesChecked}, Inactive: ${inactiveOpportunities.length}\n`);
     } catch (error) {
-      console.log(`❌ [INACTIVITY] Error fetching opportunities: ${error instanceof Error ? error.message : String(error)}`);
+      process.stderr.write(`❌ [INACTIVITY] Error fetching opportunities: ${error instanceof Error ? error.message : String(error)}\n`);
       errors.push(`Error fetching opportunities: ${error instanceof Error ? error.message : String(error)}`);
     }
 
-    console.log(`🎯 [INACTIVITY] Opportunities detection finished. Inactive: ${inactiveOpportunities.length}/${totalOpportunitiesChecked}, Errors: ${errors.length}`);
+    process.stderr.write(`🎯 [INACTIVITY] Opportunities detection finished. Inactive: ${inactiveOpportunities.length}/${totalOpportunitiesChecked}, Errors: ${errors.length}\n`);
 
     return {
       inactiveOpportunities,
       totalOpportunitiesChecked,
       inactiveCount: inactiveOpportunities.length,
       errors,
-      inactivityThresholdDays: inactivityDays
+      inactivityThresholdDays: inactivityDays,
+      stoppedEarly,
+      rateLimit: this.ghlClient.getRateLimitStatus()
     };
   }
 
@@ -340,7 +410,7 @@ export class InactivityTools {
    * Check if a contact has been active within the specified date range
    */
   private async checkContactActivity(contactId: string, startDate: Date): Promise<{ inactive: boolean; lastActivityDate?: Date }> {
-    console.log(`🔍 [INACTIVITY] Checking activity for contact ${contactId} since ${startDate.toISOString()}`);
+    process.stderr.write(`🔍 [INACTIVITY] Checking activity for contact ${contactId} since ${startDate.toISOString()}\n`);
     let hasRecentActivity = false;
     let lastActivityDate: Date | undefined;
 
@@ -422,6 +492,10 @@ export class InactivityTools {
         }
       }
     } catch (error) {
+      if (error instanceof GHLRequestCancelledError) {
+        // A cancelled check says nothing about the contact's activity
+        throw error;
+      }
       console.error(`❌ [INACTIVITY] Error checking activity for contact ${contactId}:`, error);
       // Continue with the check - don't throw
     }
@@ -431,7 +505,7 @@ export class InactivityTools {
       lastActivityDate
     };
 
-    console.log(`📊 [INACTIVITY] Contact ${contactId} activity check result: ${result.inactive ? 'INACTIVE' : 'ACTIVE'} (last activity: ${result.lastActivityDate?.toISOString() || 'never'})`);
+    process.stderr.write(`📊 [INACTIVITY] Contact ${contactId} activity check result: ${result.inactive ? 'INACTIVE' : 'ACTIVE'} (last activity: ${result.lastActivityDate?.toISOString() || 'never'})\n`);
 
     return result;
   }
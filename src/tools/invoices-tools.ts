@@ -1,5 +1,9 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { collect, getFetchAllLimit } from '../clients/paginator.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { toolAnnotations } from './tool-annotations.js';
+import { apiResponseOutput } from './output-schemas.js';
 import {
   // Invoice Template Types
   CreateInvoiceTemplateDto,
@@ -63,7 +67,7 @@ import {
   AltDto
 } from '../types/ghl-types.js';
 
-export class InvoicesTools {
+export class InvoicesTools implements ToolProvider {
   private client: GHLApiClient;
 
   constructor(client: GHLApiClient) {
@@ -76,6 +80,8 @@ export class InvoicesTools {
       {
         name: 'create_invoice_template',
         description: 'Create a new invoice template',
+        annotations: toolAnnotations('Create Invoice Template', 'create'),
+        outputSchema: apiResponseOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -93,6 +99,8 @@ export class InvoicesTools {
       {
         name: 'list_invoice_templates',
         description: 'List all invoice templates',
+        annotations: toolAnnotations('List Invoice Templates', 'read'),
+        outputSchema: apiResponseOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -109,6 +117,8 @@ export class InvoicesTools {
       {
         name: 'get_invoice_template',
         description: 'Get invoice template by ID',
+        annotations: toolAnnotations('Get Invoice Template', 'read'),
+        outputSchema: apiResponseOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -121,6 +131,8 @@ export class InvoicesTools {
       {
         name: 'update_invoice_template',
         description: 'Update an existing invoice template',
+        annotations: toolAnnotations('Update Invoice Template', 'update'),
+        outputSchema: apiResponseOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -136,6 +148,8 @@ export class InvoicesTools {
       {
         name: 'delete_invoice_template',
         description: 'Delete an invoice template',
+        annotations: toolAnnotations('Delete Invoice Template', 'delete'),
+        outputSchema: apiResponseOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -150,6 +164,8 @@ export class InvoicesTools {
       {
         name: 'create_invoice_schedule',
         description: 'Create a new invoice schedule',
+        annotations: toolAnnotations('Create Invoice Schedule', 'create'),
+        outputSchema: apiResponseOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -165,6 +181,8 @@ export class InvoicesTools {
       {
         name: 'list_invoice_schedules',
         description: 'List all invoice schedules',
+        annotations: toolAnnotations('List Invoice Schedules', 'read'),
+        outputSchema: apiResponseOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -180,6 +198,8 @@ export class InvoicesTools {
       {
         name: 'get_invoice_schedule',
         description: 'Get invoice schedule by ID',
+        annotations: toolAnnotations('Get Invoice Schedule', 'read'),
+        outputSchema: apiResponseOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -194,6 +214,8 @@ export class InvoicesTools {
       {
         name: 'create_invoice',
         description: 'Create a new invoice',
+        annotations: toolAnnotations('Create Invoice', 'create'),
+        outputSchema: apiResponseOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -211,6 +233,8 @@ export class InvoicesTools {
       {
         name: 'list_invoices',
         description: 'List all invoices',
+        annotations: toolAnnotations('List Invoices', 'read'),
+        outputSchema: apiResponseOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -219,7 +243,9 @@ export class InvoicesTools {
             offset: { type: 'string', description: 'Offset for pagination', default: '0' },
             status: { type: 'string', description: 'Filter by status' },
             contactId: { type: 'string', description: 'Filter by contact ID' },
-            search: { type: 'string', description: 'Search term' }
+            search: { type: 'string', description: 'Search term' },
+            fetchAll: { type: 'boolean', description: 'Page through all matching invoices instead of returning one page (capped at 5000)' },
+            maxResults: { type: 'number', description: 'Page through matching invoices until this many are collected (max: 5000)', minimum: 1, maximum: 5000 }
           },
           required: ['limit', 'offset']
         }
@@ -227,6 +253,8 @@ export class InvoicesTools {
       {
         name: 'get_invoice',
         description: 'Get invoice by ID',
+        annotations: toolAnnotations('Get Invoice', 'read'),
+        outputSchema: apiResponseOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -239,12 +267,14 @@ export class InvoicesTools {
       {
         name: 'send_invoice',
         description: 'Send an invoice to customer',
+        annotations: toolAnnotations('Send Invoice', 'outreach'),
+        outputSchema: apiResponseOutput(),
         inputSchema: {
           type: 'object',
           properties: {
             invoiceId: { type: 'string', description: 'Invoice ID' },
             altId: { type: 'string', description: 'Location ID' },
-            emailTo: { type: 'string', description: 'Email address to send to' },
+            emailTo: { type: 'string', format: 'email', description: 'Email address to send to' },
             subject: { type: 'string', description: 'Email subject' },
             message: { type: 'string', description: 'Email message' }
           },
@@ -256,6 +286,8 @@ export class InvoicesTools {
       {
         name: 'create_estimate',
         description: 'Create a new estimate',
+        annotations: toolAnnotations('Create Estimate', 'create'),
+        outputSchema: apiResponseOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -272,6 +304,8 @@ export class InvoicesTools {
       {
         name: 'list_estimates',
         description: 'List all estimates',
+        annotations: toolAnnotations('List Estimates', 'read'),
+        outputSchema: apiResponseOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -288,12 +322,14 @@ export class InvoicesTools {
       {
         name: 'send_estimate',
         description: 'Send an estimate to customer',
+        annotations: toolAnnotations('Send Estimate', 'outreach'),
+        outputSchema: apiResponseOutput(),
         inputSchema: {
           type: 'object',
           properties: {
             estimateId: { type: 'string', description: 'Estimate ID' },
             altId: { type: 'string', description: 'Location ID' },
-            emailTo: { type: 'string', description: 'Email address to send to' },
+            emailTo: { type: 'string', format: 'email', description: 'Email address to send to' },
             subject: { type: 'string', description: 'Email subject' },
             message: { type: 'string', description: 'Email message' }
           },
@@ -303,6 +339,8 @@ export class InvoicesTools {
       {
         name: 'create_invoice_from_estimate',
         description: 'Create an invoice from an estimate',
+        annotations: toolAnnotations('Create Invoice from Estimate', 'create'),
+        outputSchema: apiResponseOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -319,6 +357,8 @@ export class InvoicesTools {
       {
         name: 'generate_invoice_number',
         description: 'Generate a unique invoice number',
+        annotations: toolAnnotations('Generate Invoice Number', 'read'),
+        outputSchema: apiResponseOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -329,6 +369,8 @@ export class InvoicesTools {
       {
         name: 'generate_estimate_number',
         description: 'Generate a unique estimate number',
+        annotations: toolAnnotations('Generate Estimate Number', 'read'),
+        outputSchema: apiResponseOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -339,73 +381,86 @@ export class InvoicesTools {
     ];
   }
 
-  async handleToolCall(name: string, args: any): Promise<any> {
-    switch (name) {
+  /**
+   * Register invoices tools with the shared tool registry
+   */
+  registerTools(registry: ToolRegistry): void {
+    registry.registerCategory('invoices', this.getTools(), this.getToolHandlers());
+  }
+
+  /**
+   * Map each invoices tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
       // Invoice Template Handlers
-      case 'create_invoice_template':
-        return this.client.createInvoiceTemplate(args as CreateInvoiceTemplateDto);
+      create_invoice_template: (args) => this.client.createInvoiceTemplate(args as CreateInvoiceTemplateDto),
 
-      case 'list_invoice_templates':
-        return this.client.listInvoiceTemplates(args);
+      list_invoice_templates: (args) => this.client.listInvoiceTemplates(args),
 
-      case 'get_invoice_template':
-        return this.client.getInvoiceTemplate(args.templateId, args);
+      get_invoice_template: (args) => this.client.getInvoiceTemplate(args.templateId, args),
 
-      case 'update_invoice_template':
+      update_invoice_template: async (args) => {
         const { templateId: updateTemplateId, ...updateTemplateData } = args;
         return this.client.updateInvoiceTemplate(updateTemplateId, updateTemplateData as UpdateInvoiceTemplateDto);
+      },
 
-      case 'delete_invoice_template':
-        return this.client.deleteInvoiceTemplate(args.templateId, args);
+      delete_invoice_template: (args) => this.client.deleteInvoiceTemplate(args.templateId, args),
 
       // Invoice Schedule Handlers
-      case 'create_invoice_schedule':
-        return this.client.createInvoiceSchedule(args as CreateInvoiceScheduleDto);
+      create_invoice_schedule: (args) => this.client.createInvoiceSchedule(args as CreateInvoiceScheduleDto),
 
-      case 'list_invoice_schedules':
-        return this.client.listInvoiceSchedules(args);
+      list_invoice_schedules: (args) => this.client.listInvoiceSchedules(args),
 
-      case 'get_invoice_schedule':
-        return this.client.getInvoiceSchedule(args.scheduleId, args);
+      get_invoice_schedule: (args) => this.client.getInvoiceSchedule(args.scheduleId, args),
 
       // Invoice Management Handlers
-      case 'create_invoice':
-        return this.client.createInvoice(args as CreateInvoiceDto);
+      create_invoice: (args) => this.client.createInvoice(args as CreateInvoiceDto),
 
-      case 'list_invoices':
-        return this.client.listInvoices(args);
+      list_invoices: async (args) => {
+        const fetchAllLimit = getFetchAllLimit(args);
+        if (fetchAllLimit === undefined) {
+          return this.client.listInvoices(args);
+        }
+        const { limit, offset, fetchAll, maxResults, ...filters } = args;
+        const { items, truncated } = await collect(this.client.iterateInvoices(filters, { maxItems: fetchAllLimit }));
+        return { success: true, data: { invoices: items, total: items.length, truncated } };
+      },
 
-      case 'get_invoice':
-        return this.client.getInvoice(args.invoiceId, args);
+      get_invoice: (args) => this.client.getInvoice(args.invoiceId, args),
 
-      case 'send_invoice':
+      send_invoice: async (args) => {
         const { invoiceId: sendInvoiceId, ...sendInvoiceData } = args;
         return this.client.sendInvoice(sendInvoiceId, sendInvoiceData as SendInvoiceDto);
+      },
 
       // Estimate Handlers
-      case 'create_estimate':
-        return this.client.createEstimate(args as CreateEstimatesDto);
+      create_estimate: (args) => this.client.createEstimate(args as CreateEstimatesDto),
 
-      case 'list_estimates':
-        return this.client.listEstimates(args);
+      list_estimates: (args) => this.client.listEstimates(args),
 
-      case 'send_estimate':
+      send_estimate: async (args) => {
         const { estimateId: sendEstimateId, ...sendEstimateData } = args;
         return this.client.sendEstimate(sendEstimateId, sendEstimateData as SendEstimateDto);
+      },
 
-      case 'create_invoice_from_estimate':
+      create_invoice_from_estimate: async (args) => {
         const { estimateId: invoiceFromEstimateId, ...invoiceFromEstimateData } = args;
         return this.client.createInvoiceFromEstimate(invoiceFromEstimateId, invoiceFromEstimateData as CreateInvoiceFromEstimateDto);
+      },
 
       // Utility Handlers
-      case 'generate_invoice_number':
-        return this.client.generateInvoiceNumber(args);
+      generate_invoice_number: (args) => this.client.generateInvoiceNumber(args),
 
-      case 'generate_estimate_number':
-        return this.client.generateEstimateNumber(args);
+      generate_estimate_number: (args) => this.client.generateEstimateNumber(args)
+    };
+  }
 
-      default:
-        throw new Error(`Unknown invoices tool: ${name}`);
+  async handleToolCall(name: string, args: any): Promise<any> {
+    const handler = this.getToolHandlers()[name];
+    if (!handler) {
+      throw new Error(`Unknown invoices tool: ${name}`);
     }
+    return await handler(args);
   }
 } 
\ No newline at end of file
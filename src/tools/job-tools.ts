@@ -0,0 +1,209 @@
+/**
+ * GoHighLevel Background Job Tools
+ * Start job-capable tools in the background, poll their status and fetch their results,
+ * for work that does not fit in one MCP request
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { JobNotFoundError, JobRunner } from '../jobs/job-runner.js';
+import { JobRecord } from '../jobs/job-store.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { toolAnnotations } from './tool-annotations.js';
+import { JsonSchema, outputSchema, listOf, number, boolean, text, record, anything, timestamp } from './output-schemas.js';
+import { MCPJobParams, MCPListJobsParams, MCPStartJobParams } from '../types/ghl-types.js';
+
+const JOB_STATUSES = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+const JOB_PROPERTIES = {
+  jobId: text,
+  tool: text,
+  status: text,
+  arguments: record,
+  progress: record,
+  createdAt: timestamp,
+  startedAt: timestamp,
+  finishedAt: timestamp,
+  runs: number,
+  waitingFor: text,
+  cancelRequested: boolean,
+  error: text,
+  hasResult: boolean
+};
+
+const JOB: JsonSchema = { type: ['object', 'null'], description: 'Background job', properties: JOB_PROPERTIES };
+
+/**
+ * Job Tools class
+ * Jobs belong to the client's location; a job is only visible to callers whose policy allows its tool
+ */
+export class JobTools implements ToolProvider {
+  private registry: ToolRegistry | null = null;
+
+  constructor(private ghlClient: GHLApiClient, private runner: JobRunner) {}
+
+  /**
+   * Get tool definitions for all job operations
+   */
+  getToolDefinitions(jobTools: string[] = []): Tool[] {
+    return [
+      {
+        name: 'start_job',
+        description: `Start a long-running tool as a background job and return its job ID at once. Poll get_job_status, then call get_job_result. Jobs survive server restarts and resume from their last checkpoint. Tools that can run as jobs: ${jobTools.join(', ') || 'none'}.`,
+        annotations: toolAnnotations('Start Background Job', 'create'),
+        outputSchema: outputSchema(JOB_PROPERTIES),
+        inputSchema: {
+          type: 'object',
+          properties: {
+            tool: { type: 'string', enum: jobTools, description: 'Name of the tool to run' },
+            arguments: { type: 'object', description: 'Arguments for the tool, as for a direct call' }
+          },
+          required: ['tool']
+        }
+      },
+      {
+        name: 'get_job_status',
+        description: 'Get the status and progress of a background job',
+        annotations: toolAnnotations('Get Job Status', 'read'),
+        outputSchema: outputSchema(JOB_PROPERTIES),
+        inputSchema: {
+          type: 'object',
+          properties: {
+            jobId: { type: 'string', description: 'Job ID returned by start_job' }
+          },
+          required: ['jobId']
+        }
+      },
+      {
+        name: 'get_job_result',
+        description: 'Get the result of a finished background job. Cancelled jobs return the partial result they had when they stopped.',
+        annotations: toolAnnotations('Get Job Result', 'read'),
+        outputSchema: outputSchema({ jobId: text, tool: text, status: text, error: text, result: anything }),
+        inputSchema: {
+          type: 'object',
+          properties: {
+            jobId: { type: 'string', description: 'Job ID returned by start_job' }
+          },
+          required: ['jobId']
+        }
+      },
+      {
+        name: 'cancel_job',
+        description: 'Cancel a background job. A queued job is cancelled at once; a running job stops at its next step and keeps its partial result.',
+        annotations: toolAnnotations('Cancel Background Job', 'delete'),
+        outputSchema: outputSchema(JOB_PROPERTIES),
+        inputSchema: {
+          type: 'object',
+          properties: {
+            jobId: { type: 'string', description: 'Job ID returned by start_job' }
+          },
+          required: ['jobId']
+        }
+      },
+      {
+        name: 'list_jobs',
+        description: 'List the background jobs of this location, newest first',
+        annotations: toolAnnotations('List Background Jobs', 'read'),
+        outputSchema: outputSchema({ jobs: listOf(JOB), count: number }),
+        inputSchema: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: JOB_STATUSES, description: 'Only list jobs with this status' },
+            limit: { type: 'number', description: `Maximum number of jobs to return (default ${DEFAULT_LIST_LIMIT})`, minimum: 1, maximum: MAX_LIST_LIMIT }
+          }
+        }
+      }
+    ];
+  }
+
+  /**
+   * Register job tools with the shared tool registry. Must run after every other provider,
+   * so start_job can list the job-capable tools.
+   */
+  registerTools(registry: ToolRegistry): void {
+    this.registry = registry;
+    registry.registerCategory('jobs', this.getToolDefinitions(registry.getJobToolNames()), this.getToolHandlers());
+  }
+
+  /**
+   * Map each job tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
+      start_job: (args) => this.startJob(args as MCPStartJobParams),
+      get_job_status: (args) => this.getJobStatus(args as MCPJobParams),
+      get_job_result: (args) => this.getJobResult(args as MCPJobParams),
+      cancel_job: (args) => this.cancelJob(args as MCPJobParams),
+      list_jobs: (args) => this.listJobs(args as MCPListJobsParams)
+    };
+  }
+
+  private get locationId(): string {
+    return this.ghlClient.getConfig().locationId;
+  }
+
+  private getRegistry(): ToolRegistry {
+    if (!this.registry) {
+      throw new Error('Job tools are not registered');
+    }
+    return this.registry;
+  }
+
+  /**
+   * A job of this location whose tool the caller may use; others are reported as not found
+   */
+  private async getVisibleJob(jobId: string): Promise<JobRecord> {
+    const job = await this.runner.get(this.locationId, jobId);
+    if (!this.getRegistry().isAllowed(job.tool)) {
+      throw new JobNotFoundError(jobId);
+    }
+    return job;
+  }
+
+  private async startJob(params: MCPStartJobParams): Promise<Record<string, unknown>> {
+    const job = await this.runner.start(this.locationId, this.getRegistry(), params.tool, params.arguments || {});
+    return describeJob(job);
+  }
+
+  private async getJobStatus(params: MCPJobParams): Promise<Record<string, unknown>> {
+    return describeJob(await this.getVisibleJob(params.jobId));
+  }
+
+  private async getJobResult(params: MCPJobParams): Promise<Record<string, unknown>> {
+    const job = await this.getVisibleJob(params.jobId);
+    if (job.status === 'queued' || job.status === 'running') {
+      throw new Error(`Job ${job.id} is ${job.status}; poll get_job_status until it has finished`);
+    }
+    return {
+      jobId: job.id,
+      tool: job.tool,
+      status: job.status,
+      ...(job.error && { error: job.error }),
+      result: job.result ?? null
+    };
+  }
+
+  private async cancelJob(params: MCPJobParams): Promise<Record<string, unknown>> {
+    await this.getVisibleJob(params.jobId);
+    return describeJob(await this.runner.cancel(this.locationId, params.jobId));
+  }
+
+  private async listJobs(params: MCPListJobsParams): Promise<Record<string, unknown>> {
+    const registry = this.getRegistry();
+    const jobs = await this.runner.list(this.locationId, job =>
+      registry.isAllowed(job.tool) && (!params.status || job.status === params.status)
+    );
+    const limited = jobs.slice(0, params.limit || DEFAULT_LIST_LIMIT).map(describeJob);
+    return { jobs: limited, count: limited.length };
+  }
+}
+
+/**
+ * A job as returned to the client: everything but its checkpoint, result and credential
+ */
+function describeJob(job: JobRecord): Record<string, unknown> {
+  const { id, checkpoint: _checkpoint, result, locationId: _locationId, credential: _credential, ...rest } = job;
+  return { jobId: id, ...rest, hasResult: result !== undefined };
+}
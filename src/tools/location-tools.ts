@@ -5,6 +5,20 @@
 
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { withErrorContext } from '../clients/ghl-api-error.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { toolAnnotations } from './tool-annotations.js';
+import {
+  envelopeOutput,
+  listOf,
+  number,
+  recordList,
+  textList,
+  LOCATION_TAG,
+  LOCATION_CUSTOM_FIELD,
+  LOCATION_CUSTOM_VALUE,
+  LOCATION
+} from './output-schemas.js';
 import {
   MCPSearchLocationsParams,
   MCPGetLocationParams,
@@ -41,7 +55,7 @@ import {
  * Location Tools Class
  * Implements MCP tools for location and sub-account management
  */
-export class LocationTools {
+export class LocationTools implements ToolProvider {
   constructor(private ghlClient: GHLApiClient) {}
 
   /**
@@ -52,6 +66,8 @@ export class LocationTools {
       {
         name: 'search_locations',
         description: 'Search for locations/sub-accounts in GoHighLevel with filtering options',
+        annotations: toolAnnotations('Search Locations', 'read'),
+        outputSchema: envelopeOutput({ locations: listOf(LOCATION) }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -86,6 +102,8 @@ export class LocationTools {
       {
         name: 'get_location',
         description: 'Get detailed information about a specific location/sub-account by ID',
+        annotations: toolAnnotations('Get Location', 'read'),
+        outputSchema: envelopeOutput({ location: LOCATION }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -100,6 +118,8 @@ export class LocationTools {
       {
         name: 'create_location',
         description: 'Create a new sub-account/location in GoHighLevel (Agency Pro plan required)',
+        annotations: toolAnnotations('Create Location', 'create'),
+        outputSchema: envelopeOutput({ location: LOCATION }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -113,6 +133,7 @@ export class LocationTools {
             },
             phone: {
               type: 'string',
+              format: 'phone',
               description: 'Phone number with country code (e.g., +1410039940)'
             },
             address: {
@@ -164,6 +185,8 @@ export class LocationTools {
       {
         name: 'update_location',
         description: 'Update an existing sub-account/location in GoHighLevel',
+        annotations: toolAnnotations('Update Location', 'update'),
+        outputSchema: envelopeOutput({ location: LOCATION }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -181,6 +204,7 @@ export class LocationTools {
             },
             phone: {
               type: 'string',
+              format: 'phone',
               description: 'Updated phone number'
             },
             address: {
@@ -218,6 +242,8 @@ export class LocationTools {
       {
         name: 'delete_location',
         description: 'Delete a sub-account/location from GoHighLevel',
+        annotations: toolAnnotations('Delete Location', 'delete'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -239,6 +265,8 @@ export class LocationTools {
       {
         name: 'get_location_tags',
         description: 'Get all tags for a specific location',
+        annotations: toolAnnotations('Get Location Tags', 'read'),
+        outputSchema: envelopeOutput({ tags: listOf(LOCATION_TAG) }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -253,6 +281,8 @@ export class LocationTools {
       {
         name: 'create_location_tag',
         description: 'Create a new tag for a location',
+        annotations: toolAnnotations('Create Location Tag', 'create'),
+        outputSchema: envelopeOutput({ tag: LOCATION_TAG }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -271,6 +301,8 @@ export class LocationTools {
       {
         name: 'get_location_tag',
         description: 'Get a specific location tag by ID',
+        annotations: toolAnnotations('Get Location Tag', 'read'),
+        outputSchema: envelopeOutput({ tag: LOCATION_TAG }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -289,6 +321,8 @@ export class LocationTools {
       {
         name: 'update_location_tag',
         description: 'Update an existing location tag',
+        annotations: toolAnnotations('Update Location Tag', 'update'),
+        outputSchema: envelopeOutput({ tag: LOCATION_TAG }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -311,6 +345,8 @@ export class LocationTools {
       {
         name: 'delete_location_tag',
         description: 'Delete a location tag',
+        annotations: toolAnnotations('Delete Location Tag', 'delete'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -331,6 +367,8 @@ export class LocationTools {
       {
         name: 'search_location_tasks',
         description: 'Search tasks within a location with advanced filtering',
+        annotations: toolAnnotations('Search Location Tasks', 'read'),
+        outputSchema: envelopeOutput({ tasks: recordList }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -379,6 +417,8 @@ export class LocationTools {
       {
         name: 'get_location_custom_fields',
         description: 'Get custom fields for a location, optionally filtered by model type',
+        annotations: toolAnnotations('Get Location Custom Fields', 'read'),
+        outputSchema: envelopeOutput({ customFields: listOf(LOCATION_CUSTOM_FIELD) }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -399,6 +439,8 @@ export class LocationTools {
       {
         name: 'create_location_custom_field',
         description: 'Create a new custom field for a location',
+        annotations: toolAnnotations('Create Location Custom Field', 'create'),
+        outputSchema: envelopeOutput({ customField: LOCATION_CUSTOM_FIELD }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -436,6 +478,8 @@ export class LocationTools {
       {
         name: 'get_location_custom_field',
         description: 'Get a specific custom field by ID',
+        annotations: toolAnnotations('Get Location Custom Field', 'read'),
+        outputSchema: envelopeOutput({ customField: LOCATION_CUSTOM_FIELD }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -454,6 +498,8 @@ export class LocationTools {
       {
         name: 'update_location_custom_field',
         description: 'Update an existing custom field',
+        annotations: toolAnnotations('Update Location Custom Field', 'update'),
+        outputSchema: envelopeOutput({ customField: LOCATION_CUSTOM_FIELD }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -484,6 +530,8 @@ export class LocationTools {
       {
         name: 'delete_location_custom_field',
         description: 'Delete a custom field from a location',
+        annotations: toolAnnotations('Delete Location Custom Field', 'delete'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -504,6 +552,8 @@ export class LocationTools {
       {
         name: 'get_location_custom_values',
         description: 'Get all custom values for a location',
+        annotations: toolAnnotations('Get Location Custom Values', 'read'),
+        outputSchema: envelopeOutput({ customValues: listOf(LOCATION_CUSTOM_VALUE) }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -518,6 +568,8 @@ export class LocationTools {
       {
         name: 'create_location_custom_value',
         description: 'Create a new custom value for a location',
+        annotations: toolAnnotations('Create Location Custom Value', 'create'),
+        outputSchema: envelopeOutput({ customValue: LOCATION_CUSTOM_VALUE }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -540,6 +592,8 @@ export class LocationTools {
       {
         name: 'get_location_custom_value',
         description: 'Get a specific custom value by ID',
+        annotations: toolAnnotations('Get Location Custom Value', 'read'),
+        outputSchema: envelopeOutput({ customValue: LOCATION_CUSTOM_VALUE }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -558,6 +612,8 @@ export class LocationTools {
       {
         name: 'update_location_custom_value',
         description: 'Update an existing custom value',
+        annotations: toolAnnotations('Update Location Custom Value', 'update'),
+        outputSchema: envelopeOutput({ customValue: LOCATION_CUSTOM_VALUE }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -584,6 +640,8 @@ export class LocationTools {
       {
         name: 'delete_location_custom_value',
         description: 'Delete a custom value from a location',
+        annotations: toolAnnotations('Delete Location Custom Value', 'delete'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -604,6 +662,8 @@ export class LocationTools {
       {
         name: 'get_location_templates',
         description: 'Get SMS/Email templates for a location',
+        annotations: toolAnnotations('Get Location Templates', 'read'),
+        outputSchema: envelopeOutput({ templates: recordList, totalCount: number }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -642,6 +702,8 @@ export class LocationTools {
       {
         name: 'delete_location_template',
         description: 'Delete a template from a location',
+        annotations: toolAnnotations('Delete Location Template', 'delete'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -662,6 +724,8 @@ export class LocationTools {
       {
         name: 'get_timezones',
         description: 'Get available timezones for location configuration',
+        annotations: toolAnnotations('Get Timezones', 'read'),
+        outputSchema: envelopeOutput({ timezones: textList }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -676,75 +740,66 @@ export class LocationTools {
   }
 
   /**
-   * Execute location tool based on tool name and arguments
+   * Register location tools with the shared tool registry
    */
-  async executeTool(name: string, args: any): Promise<any> {
-    switch (name) {
+  registerTools(registry: ToolRegistry): void {
+    registry.registerCategory('locations', this.getToolDefinitions(), this.getToolHandlers());
+  }
+
+  /**
+   * Map each location tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
       // Location Management
-      case 'search_locations':
-        return this.searchLocations(args as MCPSearchLocationsParams);
-      case 'get_location':
-        return this.getLocation(args as MCPGetLocationParams);
-      case 'create_location':
-        return this.createLocation(args as MCPCreateLocationParams);
-      case 'update_location':
-        return this.updateLocation(args as MCPUpdateLocationParams);
-      case 'delete_location':
-        return this.deleteLocation(args as MCPDeleteLocationParams);
+      search_locations: (args) => this.searchLocations(args as MCPSearchLocationsParams),
+      get_location: (args) => this.getLocation(args as MCPGetLocationParams),
+      create_location: (args) => this.createLocation(args as MCPCreateLocationParams),
+      update_location: (args) => this.updateLocation(args as MCPUpdateLocationParams),
+      delete_location: (args) => this.deleteLocation(args as MCPDeleteLocationParams),
 
       // Location Tags
-      case 'get_location_tags':
-        return this.getLocationTags(args as MCPGetLocationTagsParams);
-      case 'create_location_tag':
-        return this.createLocationTag(args as MCPCreateLocationTagParams);
-      case 'get_location_tag':
-        return this.getLocationTag(args as MCPGetLocationTagParams);
-      case 'update_location_tag':
-        return this.updateLocationTag(args as MCPUpdateLocationTagParams);
-      case 'delete_location_tag':
-        return this.deleteLocationTag(args as MCPDeleteLocationTagParams);
+      get_location_tags: (args) => this.getLocationTags(args as MCPGetLocationTagsParams),
+      create_location_tag: (args) => this.createLocationTag(args as MCPCreateLocationTagParams),
+      get_location_tag: (args) => this.getLocationTag(args as MCPGetLocationTagParams),
+      update_location_tag: (args) => this.updateLocationTag(args as MCPUpdateLocationTagParams),
+      delete_location_tag: (args) => this.deleteLocationTag(args as MCPDeleteLocationTagParams),
 
       // Location Tasks
-      case 'search_location_tasks':
-        return this.searchLocationTasks(args as MCPSearchLocationTasksParams);
+      search_location_tasks: (args) => this.searchLocationTasks(args as MCPSearchLocationTasksParams),
 
       // Custom Fields
-      case 'get_location_custom_fields':
-        return this.getLocationCustomFields(args as MCPGetCustomFieldsParams);
-      case 'create_location_custom_field':
-        return this.createLocationCustomField(args as MCPCreateCustomFieldParams);
-      case 'get_location_custom_field':
-        return this.getLocationCustomField(args as MCPGetCustomFieldParams);
-      case 'update_location_custom_field':
-        return this.updateLocationCustomField(args as MCPUpdateCustomFieldParams);
-      case 'delete_location_custom_field':
-        return this.deleteLocationCustomField(args as MCPDeleteCustomFieldParams);
+      get_location_custom_fields: (args) => this.getLocationCustomFields(args as MCPGetCustomFieldsParams),
+      create_location_custom_field: (args) => this.createLocationCustomField(args as MCPCreateCustomFieldParams),
+      get_location_custom_field: (args) => this.getLocationCustomField(args as MCPGetCustomFieldParams),
+      update_location_custom_field: (args) => this.updateLocationCustomField(args as MCPUpdateCustomFieldParams),
+      delete_location_custom_field: (args) => this.deleteLocationCustomField(args as MCPDeleteCustomFieldParams),
 
       // Custom Values
-      case 'get_location_custom_values':
-        return this.getLocationCustomValues(args as MCPGetCustomValuesParams);
-      case 'create_location_custom_value':
-        return this.createLocationCustomValue(args as MCPCreateCustomValueParams);
-      case 'get_location_custom_value':
-        return this.getLocationCustomValue(args as MCPGetCustomValueParams);
-      case 'update_location_custom_value':
-        return this.updateLocationCustomValue(args as MCPUpdateCustomValueParams);
-      case 'delete_location_custom_value':
-        return this.deleteLocationCustomValue(args as MCPDeleteCustomValueParams);
+      get_location_custom_values: (args) => this.getLocationCustomValues(args as MCPGetCustomValuesParams),
+      create_location_custom_value: (args) => this.createLocationCustomValue(args as MCPCreateCustomValueParams),
+      get_location_custom_value: (args) => this.getLocationCustomValue(args as MCPGetCustomValueParams),
+      update_location_custom_value: (args) => this.updateLocationCustomValue(args as MCPUpdateCustomValueParams),
+      delete_location_custom_value: (args) => this.deleteLocationCustomValue(args as MCPDeleteCustomValueParams),
 
       // Templates
-      case 'get_location_templates':
-        return this.getLocationTemplates(args as MCPGetLocationTemplatesParams);
-      case 'delete_location_template':
-        return this.deleteLocationTemplate(args as MCPDeleteLocationTemplateParams);
+      get_location_templates: (args) => this.getLocationTemplates(args as MCPGetLocationTemplatesParams),
+      delete_location_template: (args) => this.deleteLocationTemplate(args as MCPDeleteLocationTemplateParams),
 
       // Timezones
-      case 'get_timezones':
-        return this.getTimezones(args as MCPGetTimezonesParams);
+      get_timezones: (args) => this.getTimezones(args as MCPGetTimezonesParams)
+    };
+  }
 
-      default:
-        throw new Error(`Unknown location tool: ${name}`);
+  /**
+   * Execute location tool based on tool name and arguments
+   */
+  async executeTool(name: string, args: any): Promise<any> {
+    const handler = this.getToolHandlers()[name];
+    if (!handler) {
+      throw new Error(`Unknown location tool: ${name}`);
     }
+    return await handler(args);
   }
 
   private async searchLocations(params: MCPSearchLocationsParams): Promise<{ success: boolean; locations: GHLLocation[]; message: string }> {
@@ -761,7 +816,7 @@ export class LocationTools {
         message: `Found ${locations.length} locations`
       };
     } catch (error) {
-      throw new Error(`Failed to search locations: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to search locations', error);
     }
   }
 
@@ -778,7 +833,7 @@ export class LocationTools {
         message: 'Location retrieved successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to get location: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get location', error);
     }
   }
 
@@ -796,7 +851,7 @@ export class LocationTools {
         message: `Retrieved ${tags.length} location tags`
       };
     } catch (error) {
-      throw new Error(`Failed to get location tags: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get location tags', error);
     }
   }
 
@@ -813,7 +868,7 @@ export class LocationTools {
         message: `Location "${params.name}" created successfully`
       };
     } catch (error) {
-      throw new Error(`Failed to create location: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to create location', error);
     }
   }
 
@@ -831,7 +886,7 @@ export class LocationTools {
         message: 'Location updated successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to update location: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to update location', error);
     }
   }
 
@@ -847,7 +902,7 @@ export class LocationTools {
         message: response.data.message || 'Location deleted successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to delete location: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to delete location', error);
     }
   }
 
@@ -864,7 +919,7 @@ export class LocationTools {
         message: `Tag "${params.name}" created successfully`
       };
     } catch (error) {
-      throw new Error(`Failed to create location tag: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to create location tag', error);
     }
   }
 
@@ -881,7 +936,7 @@ export class LocationTools {
         message: 'Location tag retrieved successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to get location tag: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get location tag', error);
     }
   }
 
@@ -898,7 +953,7 @@ export class LocationTools {
         message: 'Location tag updated successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to update location tag: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to update location tag', error);
     }
   }
 
@@ -914,7 +969,7 @@ export class LocationTools {
         message: 'Location tag deleted successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to delete location tag: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to delete location tag', error);
     }
   }
 
@@ -933,7 +988,7 @@ export class LocationTools {
         message: `Found ${tasks.length} tasks`
       };
     } catch (error) {
-      throw new Error(`Failed to search location tasks: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to search location tasks', error);
     }
   }
 
@@ -951,7 +1006,7 @@ export class LocationTools {
         message: `Retrieved ${customFields.length} custom fields`
       };
     } catch (error) {
-      throw new Error(`Failed to get custom fields: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get custom fields', error);
     }
   }
 
@@ -969,7 +1024,7 @@ export class LocationTools {
         message: `Custom field "${params.name}" created successfully`
       };
     } catch (error) {
-      throw new Error(`Failed to create custom field: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to create custom field', error);
     }
   }
 
@@ -986,7 +1041,7 @@ export class LocationTools {
         message: 'Custom field retrieved successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to get custom field: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get custom field', error);
     }
   }
 
@@ -1004,7 +1059,7 @@ export class LocationTools {
         message: 'Custom field updated successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to update custom field: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to update custom field', error);
     }
   }
 
@@ -1020,7 +1075,7 @@ export class LocationTools {
         message: 'Custom field deleted successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to delete custom field: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to delete custom field', error);
     }
   }
 
@@ -1038,7 +1093,7 @@ export class LocationTools {
         message: `Retrieved ${customValues.length} custom values`
       };
     } catch (error) {
-      throw new Error(`Failed to get custom values: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get custom values', error);
     }
   }
 
@@ -1056,7 +1111,7 @@ export class LocationTools {
         message: `Custom value "${params.name}" created successfully`
       };
     } catch (error) {
-      throw new Error(`Failed to create custom value: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to create custom value', error);
     }
   }
 
@@ -1073,7 +1128,7 @@ export class LocationTools {
         message: 'Custom value retrieved successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to get custom value: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get custom value', error);
     }
   }
 
@@ -1091,7 +1146,7 @@ export class LocationTools {
         message: 'Custom value updated successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to update custom value: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to update custom value', error);
     }
   }
 
@@ -1107,7 +1162,7 @@ export class LocationTools {
         message: 'Custom value deleted successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to delete custom value: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to delete custom value', error);
     }
   }
 
@@ -1128,7 +1183,7 @@ export class LocationTools {
         message: `Retrieved ${templates.length} templates (${totalCount} total)`
       };
     } catch (error) {
-      throw new Error(`Failed to get location templates: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get location templates', error);
     }
   }
 
@@ -1144,7 +1199,7 @@ export class LocationTools {
         message: 'Template deleted successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to delete template: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to delete template', error);
     }
   }
 
@@ -1162,7 +1217,7 @@ export class LocationTools {
         message: `Retrieved ${timezones.length} available timezones`
       };
     } catch (error) {
-      throw new Error(`Failed to get timezones: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get timezones', error);
     }
   }
 } 
\ No newline at end of file
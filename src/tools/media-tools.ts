@@ -1,4 +1,9 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { withErrorContext } from '../clients/ghl-api-error.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { toolAnnotations } from './tool-annotations.js';
+import { envelopeOutput, listOf, text, number, MEDIA_FILE } from './output-schemas.js';
 import {
   MCPGetMediaFilesParams,
   MCPUploadMediaFileParams,
@@ -8,21 +13,11 @@ import {
   GHLDeleteMediaRequest
 } from '../types/ghl-types.js';
 
-export interface Tool {
-  name: string;
-  description: string;
-  inputSchema: {
-    type: string;
-    properties: Record<string, any>;
-    required: string[];
-  };
-}
-
 /**
  * MediaTools class for GoHighLevel Media Library API endpoints
  * Handles file management operations including listing, uploading, and deleting files/folders
  */
-export class MediaTools {
+export class MediaTools implements ToolProvider {
   constructor(private ghlClient: GHLApiClient) {}
 
   /**
@@ -33,6 +28,8 @@ export class MediaTools {
       {
         name: 'get_media_files',
         description: 'Get list of files and folders from the media library with filtering and search capabilities',
+        annotations: toolAnnotations('Get Media Files', 'read'),
+        outputSchema: envelopeOutput({ files: listOf(MEDIA_FILE), total: number }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -88,6 +85,8 @@ export class MediaTools {
       {
         name: 'upload_media_file',
         description: 'Upload a file to the media library or add a hosted file URL (max 25MB for direct uploads)',
+        annotations: toolAnnotations('Upload Media File', 'create'),
+        outputSchema: envelopeOutput({ fileId: text, url: text }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -129,6 +128,8 @@ export class MediaTools {
       {
         name: 'delete_media_file',
         description: 'Delete a specific file or folder from the media library',
+        annotations: toolAnnotations('Delete Media File', 'delete'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -153,23 +154,35 @@ export class MediaTools {
     ];
   }
 
+  /**
+   * Register media tools with the shared tool registry
+   */
+  registerTools(registry: ToolRegistry): void {
+    registry.registerCategory('media', this.getToolDefinitions(), this.getToolHandlers());
+  }
+
+  /**
+   * Map each media tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
+      get_media_files: (args) => this.getMediaFiles(args as MCPGetMediaFilesParams),
+
+      upload_media_file: (args) => this.uploadMediaFile(args as MCPUploadMediaFileParams),
+
+      delete_media_file: (args) => this.deleteMediaFile(args as MCPDeleteMediaParams)
+    };
+  }
+
   /**
    * Execute a media tool by name with given arguments
    */
   async executeTool(name: string, args: any): Promise<any> {
-    switch (name) {
-      case 'get_media_files':
-        return this.getMediaFiles(args as MCPGetMediaFilesParams);
-      
-      case 'upload_media_file':
-        return this.uploadMediaFile(args as MCPUploadMediaFileParams);
-      
-      case 'delete_media_file':
-        return this.deleteMediaFile(args as MCPDeleteMediaParams);
-      
-      default:
-        throw new Error(`Unknown media tool: ${name}`);
+    const handler = this.getToolHandlers()[name];
+    if (!handler) {
+      throw new Error(`Unknown media tool: ${name}`);
     }
+    return await handler(args);
   }
 
   /**
@@ -205,7 +218,7 @@ export class MediaTools {
         message: `Retrieved ${files.length} media files/folders`
       };
     } catch (error) {
-      throw new Error(`Failed to get media files: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get media files', error);
     }
   }
 
@@ -246,7 +259,7 @@ export class MediaTools {
         message: `File uploaded successfully with ID: ${response.data.fileId}`
       };
     } catch (error) {
-      throw new Error(`Failed to upload media file: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to upload media file', error);
     }
   }
 
@@ -273,7 +286,7 @@ export class MediaTools {
         message: `Media file/folder deleted successfully`
       };
     } catch (error) {
-      throw new Error(`Failed to delete media file: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to delete media file', error);
     }
   }
 } 
\ No newline at end of file
@@ -1,4 +1,20 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { withErrorContext } from '../clients/ghl-api-error.js';
+import { collect, getFetchAllLimit } from '../clients/paginator.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { toolAnnotations } from './tool-annotations.js';
+import {
+  envelopeOutput,
+  listOf,
+  text,
+  number,
+  boolean,
+  record,
+  recordList,
+  OBJECT_SCHEMA,
+  OBJECT_RECORD
+} from './output-schemas.js';
 import {
   MCPGetAllObjectsParams,
   MCPCreateObjectSchemaParams,
@@ -17,21 +33,11 @@ import {
   GHLSearchObjectRecordsRequest
 } from '../types/ghl-types.js';
 
-export interface Tool {
-  name: string;
-  description: string;
-  inputSchema: {
-    type: string;
-    properties: Record<string, any>;
-    required: string[];
-  };
-}
-
 /**
  * ObjectTools class for GoHighLevel Custom Objects API endpoints
  * Handles both object schema management and record operations for custom and standard objects
  */
-export class ObjectTools {
+export class ObjectTools implements ToolProvider {
   constructor(private ghlClient: GHLApiClient) {}
 
   /**
@@ -42,6 +48,8 @@ export class ObjectTools {
       {
         name: 'get_all_objects',
         description: 'Get all objects (custom and standard) for a location including contact, opportunity, business, and custom objects',
+        annotations: toolAnnotations('Get All Objects', 'read'),
+        outputSchema: envelopeOutput({ objects: listOf(OBJECT_SCHEMA) }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -56,6 +64,8 @@ export class ObjectTools {
       {
         name: 'create_object_schema',
         description: 'Create a new custom object schema with labels, key, and primary display property',
+        annotations: toolAnnotations('Create Object Schema', 'create'),
+        outputSchema: envelopeOutput({ object: OBJECT_SCHEMA }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -97,6 +107,8 @@ export class ObjectTools {
       {
         name: 'get_object_schema',
         description: 'Get object schema details by key including all fields and properties for custom or standard objects',
+        annotations: toolAnnotations('Get Object Schema', 'read'),
+        outputSchema: envelopeOutput({ object: OBJECT_SCHEMA, fields: recordList, cache: boolean }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -120,6 +132,8 @@ export class ObjectTools {
       {
         name: 'update_object_schema',
         description: 'Update object schema properties including labels, description, and searchable fields',
+        annotations: toolAnnotations('Update Object Schema', 'update'),
+        outputSchema: envelopeOutput({ object: OBJECT_SCHEMA }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -155,6 +169,8 @@ export class ObjectTools {
       {
         name: 'create_object_record',
         description: 'Create a new record in a custom or standard object with properties, owner, and followers',
+        annotations: toolAnnotations('Create Object Record', 'create'),
+        outputSchema: envelopeOutput({ record: OBJECT_RECORD, recordId: text }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -189,6 +205,8 @@ export class ObjectTools {
       {
         name: 'get_object_record',
         description: 'Get a specific record by ID from a custom or standard object',
+        annotations: toolAnnotations('Get Object Record', 'read'),
+        outputSchema: envelopeOutput({ record: OBJECT_RECORD }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -207,6 +225,8 @@ export class ObjectTools {
       {
         name: 'update_object_record',
         description: 'Update an existing record in a custom or standard object',
+        annotations: toolAnnotations('Update Object Record', 'update'),
+        outputSchema: envelopeOutput({ record: OBJECT_RECORD }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -245,6 +265,8 @@ export class ObjectTools {
       {
         name: 'delete_object_record',
         description: 'Delete a record from a custom or standard object',
+        annotations: toolAnnotations('Delete Object Record', 'delete'),
+        outputSchema: envelopeOutput({ deletedId: text }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -263,6 +285,8 @@ export class ObjectTools {
       {
         name: 'search_object_records',
         description: 'Search records within a custom or standard object using searchable properties',
+        annotations: toolAnnotations('Search Object Records', 'read'),
+        outputSchema: envelopeOutput({ records: listOf(OBJECT_RECORD), total: number, truncated: boolean }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -295,6 +319,16 @@ export class ObjectTools {
               type: 'array',
               description: 'Cursor for pagination (returned from previous search)',
               items: { type: 'string' }
+            },
+            fetchAll: {
+              type: 'boolean',
+              description: 'Page through all matching records instead of returning one page (capped at 5000)'
+            },
+            maxResults: {
+              type: 'number',
+              description: 'Page through matching records until this many are collected (max: 5000)',
+              minimum: 1,
+              maximum: 5000
             }
           },
           required: ['schemaKey', 'query']
@@ -303,41 +337,47 @@ export class ObjectTools {
     ];
   }
 
+  /**
+   * Register object tools with the shared tool registry
+   */
+  registerTools(registry: ToolRegistry): void {
+    registry.registerCategory('objects', this.getToolDefinitions(), this.getToolHandlers());
+  }
+
+  /**
+   * Map each object tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
+      get_all_objects: (args) => this.getAllObjects(args as MCPGetAllObjectsParams),
+
+      create_object_schema: (args) => this.createObjectSchema(args as MCPCreateObjectSchemaParams),
+
+      get_object_schema: (args) => this.getObjectSchema(args as MCPGetObjectSchemaParams),
+
+      update_object_schema: (args) => this.updateObjectSchema(args as MCPUpdateObjectSchemaParams),
+
+      create_object_record: (args) => this.createObjectRecord(args as MCPCreateObjectRecordParams),
+
+      get_object_record: (args) => this.getObjectRecord(args as MCPGetObjectRecordParams),
+
+      update_object_record: (args) => this.updateObjectRecord(args as MCPUpdateObjectRecordParams),
+
+      delete_object_record: (args) => this.deleteObjectRecord(args as MCPDeleteObjectRecordParams),
+
+      search_object_records: (args) => this.searchObjectRecords(args as MCPSearchObjectRecordsParams)
+    };
+  }
+
   /**
    * Execute an object tool by name with given arguments
    */
   async executeTool(name: string, args: any): Promise<any> {
-    switch (name) {
-      case 'get_all_objects':
-        return this.getAllObjects(args as MCPGetAllObjectsParams);
-      
-      case 'create_object_schema':
-        return this.createObjectSchema(args as MCPCreateObjectSchemaParams);
-      
-      case 'get_object_schema':
-        return this.getObjectSchema(args as MCPGetObjectSchemaParams);
-      
-      case 'update_object_schema':
-        return this.updateObjectSchema(args as MCPUpdateObjectSchemaParams);
-      
-      case 'create_object_record':
-        return this.createObjectRecord(args as MCPCreateObjectRecordParams);
-      
-      case 'get_object_record':
-        return this.getObjectRecord(args as MCPGetObjectRecordParams);
-      
-      case 'update_object_record':
-        return this.updateObjectRecord(args as MCPUpdateObjectRecordParams);
-      
-      case 'delete_object_record':
-        return this.deleteObjectRecord(args as MCPDeleteObjectRecordParams);
-      
-      case 'search_object_records':
-        return this.searchObjectRecords(args as MCPSearchObjectRecordsParams);
-      
-      default:
-        throw new Error(`Unknown object tool: ${name}`);
+    const handler = this.getToolHandlers()[name];
+    if (!handler) {
+      throw new Error(`Unknown object tool: ${name}`);
     }
+    return await handler(args);
   }
 
   /**
@@ -360,7 +400,7 @@ export class ObjectTools {
         message: `Retrieved ${objects.length} objects for location`
       };
     } catch (error) {
-      throw new Error(`Failed to get objects: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get objects', error);
     }
   }
 
@@ -390,7 +430,7 @@ export class ObjectTools {
         message: `Custom object schema created successfully with key: ${response.data.object.key}`
       };
     } catch (error) {
-      throw new Error(`Failed to create object schema: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to create object schema', error);
     }
   }
 
@@ -420,7 +460,7 @@ export class ObjectTools {
         message: `Object schema retrieved successfully for key: ${params.key}`
       };
     } catch (error) {
-      throw new Error(`Failed to get object schema: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get object schema', error);
     }
   }
 
@@ -449,7 +489,7 @@ export class ObjectTools {
         message: `Object schema updated successfully for key: ${params.key}`
       };
     } catch (error) {
-      throw new Error(`Failed to update object schema: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to update object schema', error);
     }
   }
 
@@ -479,7 +519,7 @@ export class ObjectTools {
         message: `Record created successfully in ${params.schemaKey} with ID: ${response.data.record.id}`
       };
     } catch (error) {
-      throw new Error(`Failed to create object record: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to create object record', error);
     }
   }
 
@@ -501,7 +541,7 @@ export class ObjectTools {
         message: `Record retrieved successfully from ${params.schemaKey}`
       };
     } catch (error) {
-      throw new Error(`Failed to get object record: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get object record', error);
     }
   }
 
@@ -530,7 +570,7 @@ export class ObjectTools {
         message: `Record updated successfully in ${params.schemaKey}`
       };
     } catch (error) {
-      throw new Error(`Failed to update object record: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to update object record', error);
     }
   }
 
@@ -552,15 +592,30 @@ export class ObjectTools {
         message: `Record deleted successfully from ${params.schemaKey}`
       };
     } catch (error) {
-      throw new Error(`Failed to delete object record: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to delete object record', error);
     }
   }
 
   /**
    * SEARCH OBJECT RECORDS
    */
-  private async searchObjectRecords(params: MCPSearchObjectRecordsParams): Promise<{ success: boolean; records: any[]; total: number; message: string }> {
+  private async searchObjectRecords(params: MCPSearchObjectRecordsParams): Promise<{ success: boolean; records: any[]; total: number; truncated?: boolean; message: string }> {
     try {
+      const fetchAllLimit = getFetchAllLimit(params);
+      if (fetchAllLimit !== undefined) {
+        const { items, truncated } = await collect(this.ghlClient.iterateObjectRecords(params.schemaKey, {
+          query: params.query,
+          locationId: params.locationId
+        }, { maxItems: fetchAllLimit }));
+        return {
+          success: true,
+          records: items,
+          total: items.length,
+          truncated,
+          message: `Found ${items.length} records in ${params.schemaKey}${truncated ? ' (more results were not fetched)' : ''}`
+        };
+      }
+
       const searchData: GHLSearchObjectRecordsRequest = {
         locationId: params.locationId || this.ghlClient.getConfig().locationId,
         page: params.page || 1,
@@ -585,7 +640,7 @@ export class ObjectTools {
         message: `Found ${records.length} records in ${params.schemaKey} (${response.data.total} total)`
       };
     } catch (error) {
-      throw new Error(`Failed to search object records: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to search object records', error);
     }
   }
 } 
\ No newline at end of file
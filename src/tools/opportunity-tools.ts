@@ -5,6 +5,11 @@
 
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { withErrorContext } from '../clients/ghl-api-error.js';
+import { collect, getFetchAllLimit } from '../clients/paginator.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { toolAnnotations } from './tool-annotations.js';
+import { envelopeOutput, listOf, boolean, record, textList, OPPORTUNITY, PIPELINE } from './output-schemas.js';
 import {
   MCPSearchOpportunitiesParams,
   MCPCreateOpportunityParams,
@@ -22,7 +27,7 @@ import {
  * Opportunity Tools Class
  * Implements MCP tools for opportunity management
  */
-export class OpportunityTools {
+export class OpportunityTools implements ToolProvider {
   constructor(private ghlClient: GHLApiClient) {}
 
   /**
@@ -33,6 +38,8 @@ export class OpportunityTools {
       {
         name: 'search_opportunities',
         description: 'Search for opportunities in GoHighLevel CRM using various filters like pipeline, stage, contact, status, etc.',
+        annotations: toolAnnotations('Search Opportunities', 'read'),
+        outputSchema: envelopeOutput({ opportunities: listOf(OPPORTUNITY), meta: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -67,6 +74,16 @@ export class OpportunityTools {
               minimum: 1,
               maximum: 100,
               default: 20
+            },
+            fetchAll: {
+              type: 'boolean',
+              description: 'Page through all matching opportunities instead of returning one page (capped at 5000)'
+            },
+            maxResults: {
+              type: 'number',
+              description: 'Page through matching opportunities until this many are collected (max: 5000)',
+              minimum: 1,
+              maximum: 5000
             }
           }
         }
@@ -74,6 +91,8 @@ export class OpportunityTools {
       {
         name: 'get_pipelines',
         description: 'Get all sales pipelines configured in GoHighLevel',
+        annotations: toolAnnotations('Get Pipelines', 'read'),
+        outputSchema: envelopeOutput({ pipelines: listOf(PIPELINE) }),
         inputSchema: {
           type: 'object',
           properties: {}
@@ -82,6 +101,8 @@ export class OpportunityTools {
       {
         name: 'get_opportunity',
         description: 'Get detailed information about a specific opportunity by ID',
+        annotations: toolAnnotations('Get Opportunity', 'read'),
+        outputSchema: envelopeOutput({ opportunity: OPPORTUNITY }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -96,6 +117,8 @@ export class OpportunityTools {
       {
         name: 'create_opportunity',
         description: 'Create a new opportunity in GoHighLevel CRM',
+        annotations: toolAnnotations('Create Opportunity', 'create'),
+        outputSchema: envelopeOutput({ opportunity: OPPORTUNITY }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -132,6 +155,8 @@ export class OpportunityTools {
       {
         name: 'update_opportunity_status',
         description: 'Update the status of an opportunity (won, lost, etc.)',
+        annotations: toolAnnotations('Update Opportunity Status', 'update'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -151,6 +176,8 @@ export class OpportunityTools {
       {
         name: 'delete_opportunity',
         description: 'Delete an opportunity from GoHighLevel CRM',
+        annotations: toolAnnotations('Delete Opportunity', 'delete'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -165,6 +192,8 @@ export class OpportunityTools {
       {
         name: 'update_opportunity',
         description: 'Update an existing opportunity with new details (full update)',
+        annotations: toolAnnotations('Update Opportunity', 'update'),
+        outputSchema: envelopeOutput({ opportunity: OPPORTUNITY }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -204,6 +233,8 @@ export class OpportunityTools {
       {
         name: 'upsert_opportunity',
         description: 'Create or update an opportunity based on contact and pipeline (smart merge)',
+        annotations: toolAnnotations('Upsert Opportunity', 'update'),
+        outputSchema: envelopeOutput({ opportunity: OPPORTUNITY, isNew: boolean }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -244,6 +275,8 @@ export class OpportunityTools {
       {
         name: 'add_opportunity_followers',
         description: 'Add followers to an opportunity for notifications and tracking',
+        annotations: toolAnnotations('Add Opportunity Followers', 'create', { idempotentHint: true }),
+        outputSchema: envelopeOutput({ followers: textList, followersAdded: textList }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -263,6 +296,8 @@ export class OpportunityTools {
       {
         name: 'remove_opportunity_followers',
         description: 'Remove followers from an opportunity',
+        annotations: toolAnnotations('Remove Opportunity Followers', 'delete'),
+        outputSchema: envelopeOutput({ followers: textList, followersRemoved: textList }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -282,44 +317,49 @@ export class OpportunityTools {
     ];
   }
 
+  /**
+   * Register opportunity tools with the shared tool registry
+   */
+  registerTools(registry: ToolRegistry): void {
+    registry.registerCategory('opportunities', this.getToolDefinitions(), this.getToolHandlers());
+  }
+
+  /**
+   * Map each opportunity tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
+      search_opportunities: (args) => this.searchOpportunities(args as MCPSearchOpportunitiesParams),
+
+      get_pipelines: (args) => this.getPipelines(),
+
+      get_opportunity: (args) => this.getOpportunity(args.opportunityId),
+
+      create_opportunity: (args) => this.createOpportunity(args as MCPCreateOpportunityParams),
+
+      update_opportunity_status: (args) => this.updateOpportunityStatus(args.opportunityId, args.status),
+
+      delete_opportunity: (args) => this.deleteOpportunity(args.opportunityId),
+
+      update_opportunity: (args) => this.updateOpportunity(args as MCPUpdateOpportunityParams),
+
+      upsert_opportunity: (args) => this.upsertOpportunity(args as MCPUpsertOpportunityParams),
+
+      add_opportunity_followers: (args) => this.addOpportunityFollowers(args as MCPAddOpportunityFollowersParams),
+
+      remove_opportunity_followers: (args) => this.removeOpportunityFollowers(args as MCPRemoveOpportunityFollowersParams)
+    };
+  }
+
   /**
    * Execute opportunity tool based on tool name and arguments
    */
   async executeTool(name: string, args: any): Promise<any> {
-    switch (name) {
-      case 'search_opportunities':
-        return this.searchOpportunities(args as MCPSearchOpportunitiesParams);
-      
-      case 'get_pipelines':
-        return this.getPipelines();
-      
-      case 'get_opportunity':
-        return this.getOpportunity(args.opportunityId);
-      
-      case 'create_opportunity':
-        return this.createOpportunity(args as MCPCreateOpportunityParams);
-      
-      case 'update_opportunity_status':
-        return this.updateOpportunityStatus(args.opportunityId, args.status);
-      
-      case 'delete_opportunity':
-        return this.deleteOpportunity(args.opportunityId);
-      
-      case 'update_opportunity':
-        return this.updateOpportunity(args as MCPUpdateOpportunityParams);
-      
-      case 'upsert_opportunity':
-        return this.upsertOpportunity(args as MCPUpsertOpportunityParams);
-      
-      case 'add_opportunity_followers':
-        return this.addOpportunityFollowers(args as MCPAddOpportunityFollowersParams);
-      
-      case 'remove_opportunity_followers':
-        return this.removeOpportunityFollowers(args as MCPRemoveOpportunityFollowersParams);
-      
-      default:
-        throw new Error(`Unknown opportunity tool: ${name}`);
+    const handler = this.getToolHandlers()[name];
+    if (!handler) {
+      throw new Error(`Unknown opportunity tool: ${name}`);
     }
+    return await handler(args);
   }
 
   /**
@@ -361,6 +401,18 @@ export class OpportunityTools {
         searchParams.assigned_to = params.assignedTo;
       }
 
+      const fetchAllLimit = getFetchAllLimit(params);
+      if (fetchAllLimit !== undefined) {
+        const { location_id, limit, ...filters } = searchParams;
+        const { items, truncated } = await collect(this.ghlClient.iterateOpportunities(filters, { maxItems: fetchAllLimit }));
+        return {
+          success: true,
+          opportunities: items,
+          meta: { total: items.length, truncated },
+          message: `Found ${items.length} opportunities${truncated ? ' (more results were not fetched)' : ''}`
+        };
+      }
+
       process.stderr.write(`[GHL MCP] Calling searchOpportunities with params: ${JSON.stringify(searchParams, null, 2)}\n`);
 
       const response = await this.ghlClient.searchOpportunities(searchParams);
@@ -381,7 +433,7 @@ export class OpportunityTools {
       };
     } catch (error) {
       process.stderr.write(`[GHL MCP] Search opportunities error: ${JSON.stringify(error, null, 2)}\n`);
-      throw new Error(`Failed to search opportunities: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to search opportunities', error);
     }
   }
 
@@ -406,7 +458,7 @@ export class OpportunityTools {
         message: `Retrieved ${pipelines.length} pipelines`
       };
     } catch (error) {
-      throw new Error(`Failed to get pipelines: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get pipelines', error);
     }
   }
 
@@ -428,7 +480,7 @@ export class OpportunityTools {
         message: 'Opportunity retrieved successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to get opportunity: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to get opportunity', error);
     }
   }
 
@@ -462,7 +514,7 @@ export class OpportunityTools {
         message: `Opportunity created successfully with ID: ${response.data.id}`
       };
     } catch (error) {
-      throw new Error(`Failed to create opportunity: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to create opportunity', error);
     }
   }
 
@@ -483,7 +535,7 @@ export class OpportunityTools {
         message: `Opportunity status updated to ${status}`
       };
     } catch (error) {
-      throw new Error(`Failed to update opportunity status: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to update opportunity status', error);
     }
   }
 
@@ -504,7 +556,7 @@ export class OpportunityTools {
         message: 'Opportunity deleted successfully'
       };
     } catch (error) {
-      throw new Error(`Failed to delete opportunity: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to delete opportunity', error);
     }
   }
 
@@ -536,7 +588,7 @@ export class OpportunityTools {
         message: `Opportunity updated successfully`
       };
     } catch (error) {
-      throw new Error(`Failed to update opportunity: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to update opportunity', error);
     }
   }
 
@@ -572,7 +624,7 @@ export class OpportunityTools {
         message: `Opportunity ${data.new ? 'created' : 'updated'} successfully`
       };
     } catch (error) {
-      throw new Error(`Failed to upsert opportunity: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to upsert opportunity', error);
     }
   }
 
@@ -595,7 +647,7 @@ export class OpportunityTools {
         message: `Added ${response.data.followersAdded?.length || 0} followers to opportunity`
       };
     } catch (error) {
-      throw new Error(`Failed to add opportunity followers: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to add opportunity followers', error);
     }
   }
 
@@ -618,7 +670,7 @@ export class OpportunityTools {
         message: `Removed ${response.data.followersRemoved?.length || 0} followers from opportunity`
       };
     } catch (error) {
-      throw new Error(`Failed to remove opportunity followers: ${error instanceof Error ? error.message : String(error)}`);
+      throw withErrorContext('Failed to remove opportunity followers', error);
     }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,443 @@
+/**
+ * Tool Output Schemas
+ * JSON Schemas for the structured content each tool returns, built from the GHL types in ghl-types.ts.
+ * Entity properties are keyed by the fields of their GHL type, so renaming a field there breaks the build here.
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import {
+  GHLAppointment,
+  GHLBlogPost,
+  GHLCalendar,
+  GHLCalendarEvent,
+  GHLCalendarGroup,
+  GHLContact,
+  GHLConversation,
+  GHLCustomObjectSchema,
+  GHLEmailCampaign,
+  GHLEmailTemplate,
+  GHLLocationCustomField,
+  GHLLocationCustomValue,
+  GHLLocationDetailed,
+  GHLLocationTag,
+  GHLMediaFile,
+  GHLMessage,
+  GHLNote,
+  GHLObjectRecord,
+  GHLOpportunity,
+  GHLPipeline,
+  GHLProduct,
+  GHLSearchResult,
+  GHLSocialPost,
+  GHLSurvey,
+  GHLTask,
+  GHLUser,
+  GHLWorkflow
+} from '../types/ghl-types.js';
+
+/**
+ * The subset of JSON Schema used to describe tool output
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+}
+
+/**
+ * A tool's outputSchema: always an object, because structuredContent is one
+ */
+export type ToolOutputSchema = NonNullable<Tool['outputSchema']>;
+
+/**
+ * Schemas for the fields of a GHL type
+ */
+export type EntityProperties<T> = { [K in keyof T & string]?: JsonSchema };
+
+// GoHighLevel leaves out or nulls fields freely, so no entity field is required and every one may be null
+const nullable = (type: string): JsonSchema => ({ type: [type, 'null'] });
+
+export const text = nullable('string');
+export const number = nullable('number');
+export const boolean = nullable('boolean');
+/** ISO date string or epoch milliseconds; GHL uses both for the same fields */
+export const timestamp: JsonSchema = { type: ['string', 'number', 'null'] };
+/** Any JSON object, for nested data this server passes through without describing */
+export const record = nullable('object');
+/** Any JSON value */
+export const anything: JsonSchema = {};
+export const textList = listOf({ type: 'string' });
+export const recordList = listOf({ type: 'object' });
+
+/**
+ * A nullable array of the given items
+ */
+export function listOf(items: JsonSchema): JsonSchema {
+  return { type: ['array', 'null'], items };
+}
+
+/**
+ * A GHL object with the given fields described
+ */
+export function entity<T>(description: string, properties: EntityProperties<T>): JsonSchema {
+  return { type: ['object', 'null'], description, properties: properties as Record<string, JsonSchema> };
+}
+
+/**
+ * Output schema for a tool returning an object with the given properties
+ */
+export function outputSchema(properties: Record<string, JsonSchema>, required?: string[]): ToolOutputSchema {
+  return required ? { type: 'object', properties, required } : { type: 'object', properties };
+}
+
+/**
+ * Output schema for a tool returning a GHL object as it is
+ */
+export function entityOutput(schema: JsonSchema): ToolOutputSchema {
+  return { type: 'object', description: schema.description, properties: schema.properties };
+}
+
+/**
+ * Output schema for a tool returning an array, which reaches the client as `{ items }`
+ */
+export function itemsOutput(items: JsonSchema): ToolOutputSchema {
+  return outputSchema({ items: { type: 'array', items } }, ['items']);
+}
+
+/**
+ * Output schema for the `{ success, message, ...}` envelope most tools return
+ */
+export function envelopeOutput(properties: Record<string, JsonSchema> = {}): ToolOutputSchema {
+  return outputSchema({ success: boolean, message: text, ...properties });
+}
+
+/**
+ * Output schema for a GHLApiResponse returned as it is, with its data described by the given schema
+ */
+export function apiResponseOutput(data: JsonSchema = record): ToolOutputSchema {
+  return outputSchema({ success: boolean, data });
+}
+
+/**
+ * Output schema for results this server does not describe further, such as raw GHL responses
+ */
+export const OBJECT_OUTPUT: ToolOutputSchema = { type: 'object' };
+
+/**
+ * Output schema for the store API responses (GHL*ShippingZoneResponse and friends): the record or list is in data
+ */
+export const STORE_RESPONSE_OUTPUT = outputSchema({ status: boolean, message: text, total: number, data: anything });
+
+export const CONTACT = entity<GHLContact>('Contact', {
+  id: text,
+  locationId: text,
+  firstName: text,
+  lastName: text,
+  name: text,
+  email: text,
+  phone: text,
+  address1: text,
+  city: text,
+  state: text,
+  country: text,
+  postalCode: text,
+  website: text,
+  timezone: text,
+  companyName: text,
+  source: text,
+  tags: textList,
+  customFields: recordList,
+  dnd: boolean,
+  assignedTo: text,
+  followers: textList,
+  businessId: text,
+  dateAdded: timestamp,
+  dateUpdated: timestamp,
+  dateOfBirth: timestamp,
+  type: text
+});
+
+export const TASK = entity<GHLTask>('Contact task', {
+  id: text,
+  title: text,
+  body: text,
+  assignedTo: text,
+  dueDate: timestamp,
+  completed: boolean,
+  contactId: text
+});
+
+export const NOTE = entity<GHLNote>('Contact note', {
+  id: text,
+  body: text,
+  userId: text,
+  contactId: text,
+  dateAdded: timestamp
+});
+
+export const APPOINTMENT = entity<GHLAppointment>('Appointment', {
+  id: text,
+  calendarId: text,
+  title: text,
+  appointmentStatus: text,
+  assignedUserId: text,
+  notes: text,
+  startTime: timestamp,
+  endTime: timestamp,
+  address: text,
+  locationId: text,
+  contactId: text,
+  groupId: text,
+  dateAdded: timestamp,
+  dateUpdated: timestamp
+});
+
+export const CALENDAR_EVENT = entity<GHLCalendarEvent>('Calendar event', {
+  id: text,
+  title: text,
+  calendarId: text,
+  locationId: text,
+  contactId: text,
+  groupId: text,
+  appointmentStatus: text,
+  assignedUserId: text,
+  address: text,
+  notes: text,
+  startTime: timestamp,
+  endTime: timestamp,
+  isRecurring: boolean
+});
+
+export const CALENDAR = entity<GHLCalendar>('Calendar', {
+  id: text,
+  locationId: text,
+  groupId: text,
+  name: text,
+  description: text,
+  slug: text,
+  calendarType: text,
+  isActive: boolean,
+  teamMembers: recordList,
+  slotDuration: number,
+  slotInterval: number,
+  autoConfirm: boolean
+});
+
+export const CALENDAR_GROUP = entity<GHLCalendarGroup>('Calendar group', {
+  id: text,
+  locationId: text,
+  name: text,
+  description: text,
+  slug: text,
+  isActive: boolean
+});
+
+export const CONVERSATION = entity<GHLConversation>('Conversation', {
+  id: text,
+  contactId: text,
+  locationId: text,
+  lastMessageBody: text,
+  lastMessageType: text,
+  type: text,
+  unreadCount: number,
+  fullName: text,
+  contactName: text,
+  email: text,
+  phone: text,
+  assignedTo: text,
+  starred: boolean,
+  lastMessageDate: timestamp,
+  dateAdded: timestamp,
+  dateUpdated: timestamp
+});
+
+export const MESSAGE = entity<GHLMessage>('Conversation message', {
+  id: text,
+  messageType: text,
+  locationId: text,
+  contactId: text,
+  conversationId: text,
+  dateAdded: timestamp,
+  body: text,
+  direction: text,
+  status: text,
+  contentType: text,
+  attachments: textList
+});
+
+export const OPPORTUNITY = entity<GHLOpportunity>('Opportunity', {
+  id: text,
+  name: text,
+  monetaryValue: number,
+  pipelineId: text,
+  pipelineStageId: text,
+  assignedTo: text,
+  status: text,
+  source: text,
+  contactId: text,
+  locationId: text,
+  contact: record,
+  createdAt: timestamp,
+  updatedAt: timestamp
+});
+
+export const PIPELINE = entity<GHLPipeline>('Pipeline', {
+  id: text,
+  name: text,
+  stages: recordList,
+  locationId: text
+});
+
+export const LOCATION = entity<GHLLocationDetailed>('Location (sub-account)', {
+  id: text,
+  companyId: text,
+  name: text,
+  email: text,
+  phone: text,
+  address: text,
+  city: text,
+  state: text,
+  country: text,
+  postalCode: text,
+  website: text,
+  timezone: text
+});
+
+export const LOCATION_TAG = entity<GHLLocationTag>('Location tag', {
+  id: text,
+  name: text,
+  locationId: text
+});
+
+export const LOCATION_CUSTOM_FIELD = entity<GHLLocationCustomField>('Location custom field', {
+  id: text,
+  name: text,
+  fieldKey: text,
+  dataType: text,
+  placeholder: text,
+  position: number,
+  picklistOptions: textList,
+  model: text,
+  locationId: text
+});
+
+export const LOCATION_CUSTOM_VALUE = entity<GHLLocationCustomValue>('Location custom value', {
+  id: text,
+  name: text,
+  fieldKey: text,
+  value: text,
+  locationId: text
+});
+
+export const USER = entity<GHLUser>('User', {
+  id: text,
+  firstName: text,
+  lastName: text,
+  email: text,
+  phone: text,
+  locationId: text,
+  companyId: text
+});
+
+export const BLOG_POST = entity<GHLBlogPost>('Blog post', {
+  _id: text,
+  title: text,
+  description: text,
+  urlSlug: text,
+  author: text,
+  status: text,
+  categories: textList,
+  tags: textList,
+  archived: boolean,
+  publishedAt: timestamp,
+  updatedAt: timestamp
+});
+
+export const SOCIAL_POST = entity<GHLSocialPost>('Social media post', {
+  _id: text,
+  platform: text,
+  summary: text,
+  status: text,
+  type: text,
+  accountIds: textList,
+  tags: textList,
+  createdAt: timestamp,
+  publishedAt: timestamp
+});
+
+export const EMAIL_CAMPAIGN = entity<GHLEmailCampaign>('Email campaign', {
+  id: text,
+  name: text,
+  status: text,
+  createdAt: timestamp,
+  updatedAt: timestamp
+});
+
+export const EMAIL_TEMPLATE = entity<GHLEmailTemplate>('Email template', {
+  id: text,
+  name: text,
+  templateType: text,
+  previewUrl: text,
+  lastUpdated: timestamp,
+  dateAdded: timestamp
+});
+
+export const MEDIA_FILE = entity<GHLMediaFile>('Media file or folder', {
+  id: text,
+  name: text,
+  url: text,
+  type: text,
+  parentId: text,
+  mimeType: text,
+  size: number
+});
+
+export const OBJECT_SCHEMA = entity<GHLCustomObjectSchema>('Custom object schema', {
+  id: text,
+  key: text,
+  labels: record,
+  description: text,
+  primaryDisplayProperty: text,
+  locationId: text
+});
+
+export const OBJECT_RECORD = entity<GHLObjectRecord>('Custom object record', {
+  id: text,
+  owner: textList,
+  followers: textList,
+  properties: record,
+  dateAdded: timestamp,
+  dateUpdated: timestamp
+});
+
+export const WORKFLOW = entity<GHLWorkflow>('Workflow', {
+  id: text,
+  name: text,
+  status: text
+});
+
+export const SURVEY = entity<GHLSurvey>('Survey', {
+  id: text,
+  name: text,
+  locationId: text
+});
+
+export const PRODUCT = entity<GHLProduct>('Product', {
+  _id: text,
+  name: text,
+  description: text,
+  productType: text,
+  locationId: text,
+  availableInStore: boolean,
+  createdAt: timestamp,
+  updatedAt: timestamp
+});
+
+export const SEARCH_RESULT = entity<GHLSearchResult>('Search result', {
+  id: text,
+  title: text,
+  text: text,
+  url: text
+});
@@ -1,5 +1,8 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { toolAnnotations } from './tool-annotations.js';
+import { apiResponseOutput, anything } from './output-schemas.js';
 import {
   CreateWhiteLabelIntegrationProviderDto,
   ListIntegrationProvidersResponse,
@@ -28,7 +31,7 @@ import {
   DisconnectCustomProviderResponse
 } from '../types/ghl-types.js';
 
-export class PaymentsTools {
+export class PaymentsTools implements ToolProvider {
   constructor(private client: GHLApiClient) {}
 
   getTools(): Tool[] {
@@ -37,6 +40,8 @@ export class PaymentsTools {
       {
         name: 'create_whitelabel_integration_provider',
         description: 'Create a white-label integration provider for payments',
+        annotations: toolAnnotations('Create White-Label Integration Provider', 'create'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -77,6 +82,8 @@ export class PaymentsTools {
       {
         name: 'list_whitelabel_integration_providers',
         description: 'List white-label integration providers with optional pagination',
+        annotations: toolAnnotations('List White-Label Integration Providers', 'read'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -108,6 +115,8 @@ export class PaymentsTools {
       {
         name: 'list_orders',
         description: 'List orders with optional filtering and pagination',
+        annotations: toolAnnotations('List Orders', 'read'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -133,10 +142,12 @@ export class PaymentsTools {
             },
             startAt: {
               type: 'string',
+              format: 'date',
               description: 'Starting date interval for orders (YYYY-MM-DD)'
             },
             endAt: {
               type: 'string',
+              format: 'date',
               description: 'Ending date interval for orders (YYYY-MM-DD)'
             },
             search: {
@@ -168,6 +179,8 @@ export class PaymentsTools {
       {
         name: 'get_order_by_id',
         description: 'Get a specific order by its ID',
+        annotations: toolAnnotations('Get Order by ID', 'read'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -196,6 +209,8 @@ export class PaymentsTools {
       {
         name: 'create_order_fulfillment',
         description: 'Create a fulfillment for an order',
+        annotations: toolAnnotations('Create Order Fulfillment', 'create'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -262,6 +277,8 @@ export class PaymentsTools {
       {
         name: 'list_order_fulfillments',
         description: 'List all fulfillments for an order',
+        annotations: toolAnnotations('List Order Fulfillments', 'read'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -287,6 +304,8 @@ export class PaymentsTools {
       {
         name: 'list_transactions',
         description: 'List transactions with optional filtering and pagination',
+        annotations: toolAnnotations('List Transactions', 'read'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -308,10 +327,12 @@ export class PaymentsTools {
             },
             startAt: {
               type: 'string',
+              format: 'date',
               description: 'Starting date interval for transactions (YYYY-MM-DD)'
             },
             endAt: {
               type: 'string',
+              format: 'date',
               description: 'Ending date interval for transactions (YYYY-MM-DD)'
             },
             entitySourceType: {
@@ -355,6 +376,8 @@ export class PaymentsTools {
       {
         name: 'get_transaction_by_id',
         description: 'Get a specific transaction by its ID',
+        annotations: toolAnnotations('Get Transaction by ID', 'read'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -383,6 +406,8 @@ export class PaymentsTools {
       {
         name: 'list_subscriptions',
         description: 'List subscriptions with optional filtering and pagination',
+        annotations: toolAnnotations('List Subscriptions', 'read'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -405,10 +430,12 @@ export class PaymentsTools {
             },
             startAt: {
               type: 'string',
+              format: 'date',
               description: 'Starting date interval for subscriptions (YYYY-MM-DD)'
             },
             endAt: {
               type: 'string',
+              format: 'date',
               description: 'Ending date interval for subscriptions (YYYY-MM-DD)'
             },
             entitySourceType: {
@@ -444,6 +471,8 @@ export class PaymentsTools {
       {
         name: 'get_subscription_by_id',
         description: 'Get a specific subscription by its ID',
+        annotations: toolAnnotations('Get Subscription by ID', 'read'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -469,6 +498,8 @@ export class PaymentsTools {
       {
         name: 'list_coupons',
         description: 'List all coupons for a location with optional filtering',
+        annotations: toolAnnotations('List Coupons', 'read'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -507,6 +538,8 @@ export class PaymentsTools {
       {
         name: 'create_coupon',
         description: 'Create a new promotional coupon',
+        annotations: toolAnnotations('Create Coupon', 'create'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -538,10 +571,12 @@ export class PaymentsTools {
             },
             startDate: {
               type: 'string',
+              format: 'date-time',
               description: 'Start date in YYYY-MM-DDTHH:mm:ssZ format'
             },
             endDate: {
               type: 'string',
+              format: 'date-time',
               description: 'End date in YYYY-MM-DDTHH:mm:ssZ format'
             },
             usageLimit: {
@@ -593,6 +628,8 @@ export class PaymentsTools {
       {
         name: 'update_coupon',
         description: 'Update an existing coupon',
+        annotations: toolAnnotations('Update Coupon', 'update'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -628,10 +665,12 @@ export class PaymentsTools {
             },
             startDate: {
               type: 'string',
+              format: 'date-time',
               description: 'Start date in YYYY-MM-DDTHH:mm:ssZ format'
             },
             endDate: {
               type: 'string',
+              format: 'date-time',
               description: 'End date in YYYY-MM-DDTHH:mm:ssZ format'
             },
             usageLimit: {
@@ -681,6 +720,8 @@ export class PaymentsTools {
       {
         name: 'delete_coupon',
         description: 'Delete a coupon permanently',
+        annotations: toolAnnotations('Delete Coupon', 'delete'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -704,6 +745,8 @@ export class PaymentsTools {
       {
         name: 'get_coupon',
         description: 'Get coupon details by ID or code',
+        annotations: toolAnnotations('Get Coupon', 'read'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -733,6 +776,8 @@ export class PaymentsTools {
       {
         name: 'create_custom_provider_integration',
         description: 'Create a new custom payment provider integration',
+        annotations: toolAnnotations('Create Custom Provider Integration', 'create'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -767,6 +812,8 @@ export class PaymentsTools {
       {
         name: 'delete_custom_provider_integration',
         description: 'Delete an existing custom payment provider integration',
+        annotations: toolAnnotations('Delete Custom Provider Integration', 'delete'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -781,6 +828,8 @@ export class PaymentsTools {
       {
         name: 'get_custom_provider_config',
         description: 'Fetch existing payment config for a location',
+        annotations: toolAnnotations('Get Custom Provider Config', 'read'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -795,6 +844,8 @@ export class PaymentsTools {
       {
         name: 'create_custom_provider_config',
         description: 'Create new payment config for a location',
+        annotations: toolAnnotations('Create Custom Provider Config', 'create'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -839,6 +890,8 @@ export class PaymentsTools {
       {
         name: 'disconnect_custom_provider_config',
         description: 'Disconnect existing payment config for a location',
+        annotations: toolAnnotations('Disconnect Custom Provider Config', 'delete'),
+        outputSchema: apiResponseOutput(anything),
         inputSchema: {
           type: 'object',
           properties: {
@@ -857,81 +910,84 @@ export class PaymentsTools {
     ];
   }
 
-  async handleToolCall(name: string, args: any): Promise<any> {
-    switch (name) {
+  /**
+   * Register payments tools with the shared tool registry
+   */
+  registerTools(registry: ToolRegistry): void {
+    registry.registerCategory('payments', this.getTools(), this.getToolHandlers());
+  }
+
+  /**
+   * Map each payments tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
       // Integration Provider Handlers
-      case 'create_whitelabel_integration_provider':
-        return this.client.createWhiteLabelIntegrationProvider(args as CreateWhiteLabelIntegrationProviderDto);
+      create_whitelabel_integration_provider: (args) => this.client.createWhiteLabelIntegrationProvider(args as CreateWhiteLabelIntegrationProviderDto),
 
-      case 'list_whitelabel_integration_providers':
-        return this.client.listWhiteLabelIntegrationProviders(args);
+      list_whitelabel_integration_providers: (args) => this.client.listWhiteLabelIntegrationProviders(args),
 
       // Order Handlers
-      case 'list_orders':
-        return this.client.listOrders(args);
+      list_orders: (args) => this.client.listOrders(args),
 
-      case 'get_order_by_id':
-        return this.client.getOrderById(args.orderId, args);
+      get_order_by_id: (args) => this.client.getOrderById(args.orderId, args),
 
       // Order Fulfillment Handlers
-      case 'create_order_fulfillment':
+      create_order_fulfillment: async (args) => {
         const { orderId, ...fulfillmentData } = args;
         return this.client.createOrderFulfillment(orderId, fulfillmentData as CreateFulfillmentDto);
+      },
 
-      case 'list_order_fulfillments':
-        return this.client.listOrderFulfillments(args.orderId, args);
+      list_order_fulfillments: (args) => this.client.listOrderFulfillments(args.orderId, args),
 
       // Transaction Handlers
-      case 'list_transactions':
-        return this.client.listTransactions(args);
+      list_transactions: (args) => this.client.listTransactions(args),
 
-      case 'get_transaction_by_id':
-        return this.client.getTransactionById(args.transactionId, args);
+      get_transaction_by_id: (args) => this.client.getTransactionById(args.transactionId, args),
 
       // Subscription Handlers
-      case 'list_subscriptions':
-        return this.client.listSubscriptions(args);
+      list_subscriptions: (args) => this.client.listSubscriptions(args),
 
-      case 'get_subscription_by_id':
-        return this.client.getSubscriptionById(args.subscriptionId, args);
+      get_subscription_by_id: (args) => this.client.getSubscriptionById(args.subscriptionId, args),
 
       // Coupon Handlers
-      case 'list_coupons':
-        return this.client.listCoupons(args);
+      list_coupons: (args) => this.client.listCoupons(args),
 
-      case 'create_coupon':
-        return this.client.createCoupon(args as CreateCouponParams);
+      create_coupon: (args) => this.client.createCoupon(args as CreateCouponParams),
 
-      case 'update_coupon':
-        return this.client.updateCoupon(args as UpdateCouponParams);
+      update_coupon: (args) => this.client.updateCoupon(args as UpdateCouponParams),
 
-      case 'delete_coupon':
-        return this.client.deleteCoupon(args as DeleteCouponParams);
+      delete_coupon: (args) => this.client.deleteCoupon(args as DeleteCouponParams),
 
-      case 'get_coupon':
-        return this.client.getCoupon(args);
+      get_coupon: (args) => this.client.getCoupon(args),
 
       // Custom Provider Handlers
-      case 'create_custom_provider_integration':
+      create_custom_provider_integration: async (args) => {
         const { locationId: createLocationId, ...createProviderData } = args;
         return this.client.createCustomProviderIntegration(createLocationId, createProviderData as CreateCustomProviderDto);
+      },
 
-      case 'delete_custom_provider_integration':
-        return this.client.deleteCustomProviderIntegration(args.locationId);
+      delete_custom_provider_integration: (args) => this.client.deleteCustomProviderIntegration(args.locationId),
 
-      case 'get_custom_provider_config':
-        return this.client.getCustomProviderConfig(args.locationId);
+      get_custom_provider_config: (args) => this.client.getCustomProviderConfig(args.locationId),
 
-      case 'create_custom_provider_config':
+      create_custom_provider_config: async (args) => {
         const { locationId: configLocationId, ...configData } = args;
         return this.client.createCustomProviderConfig(configLocationId, configData as ConnectCustomProviderConfigDto);
+      },
 
-      case 'disconnect_custom_provider_config':
+      disconnect_custom_provider_config: async (args) => {
         const { locationId: disconnectLocationId, ...disconnectData } = args;
         return this.client.disconnectCustomProviderConfig(disconnectLocationId, disconnectData as DeleteCustomProviderConfigDto);
+      }
+    };
+  }
 
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+  async handleToolCall(name: string, args: any): Promise<any> {
+    const handler = this.getToolHandlers()[name];
+    if (!handler) {
+      throw new Error(`Unknown tool: ${name}`);
     }
+    return await handler(args);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,160 @@
+/**
+ * Phone Number Normalization
+ * Validates phone numbers against the full libphonenumber numbering plans and formats them as E.164.
+ * Numbers without a country code are read in the location's country.
+ */
+
+import {
+  CountryCode,
+  isSupportedCountry,
+  parsePhoneNumberFromString,
+  validatePhoneNumberLength
+} from 'libphonenumber-js/max';
+import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { ToolValidationError } from './tool-validation.js';
+
+// Line types from the numbering plan, e.g. 'mobile', 'fixed_line' or 'fixed_line_or_mobile' where the plan
+// does not tell them apart (US, Canada); 'unknown' for invalid numbers
+export type PhoneNumberType =
+  | 'mobile'
+  | 'fixed_line'
+  | 'fixed_line_or_mobile'
+  | 'toll_free'
+  | 'premium_rate'
+  | 'shared_cost'
+  | 'voip'
+  | 'personal_number'
+  | 'pager'
+  | 'uan'
+  | 'voicemail'
+  | 'unknown';
+
+/**
+ * What the numbering plan says about a phone number
+ */
+export interface PhoneNumberInfo {
+  input: string;
+  valid: boolean;
+  /** +<country code><number>; only for valid numbers */
+  e164?: string;
+  /** ISO 3166-1 alpha-2 country of the number */
+  country?: string;
+  countryCallingCode?: string;
+  nationalFormat?: string;
+  internationalFormat?: string;
+  type: PhoneNumberType;
+  /** False for landlines and other numbers that cannot receive SMS or WhatsApp messages */
+  canReceiveMessages: boolean;
+  /** Country used to read the number if it had no country code */
+  defaultCountry?: string;
+  /** Why the number is invalid */
+  reason?: string;
+}
+
+// Types that cannot receive SMS or WhatsApp messages; a valid number of unknown type is given the benefit of the doubt
+const NON_MESSAGING_TYPES: PhoneNumberType[] = ['fixed_line', 'toll_free', 'premium_rate', 'shared_cost', 'pager', 'uan', 'voicemail'];
+
+const LENGTH_PROBLEMS: Record<string, string> = {
+  TOO_SHORT: 'is too short',
+  TOO_LONG: 'is too long',
+  INVALID_LENGTH: 'has the wrong number of digits',
+  INVALID_COUNTRY: 'has an unknown country code',
+  NOT_A_NUMBER: 'is not a phone number'
+};
+
+/**
+ * Analyze a phone number. Numbers without a country code (+ or an international dialling prefix)
+ * are read in defaultCountry; without one they are invalid rather than guessed.
+ */
+export function analyzePhoneNumber(input: string, defaultCountry?: string): PhoneNumberInfo {
+  const region = defaultCountry && isSupportedCountry(defaultCountry) ? defaultCountry as CountryCode : undefined;
+  const invalid = (reason: string): PhoneNumberInfo => ({
+    input,
+    valid: false,
+    type: 'unknown',
+    canReceiveMessages: false,
+    ...(region && { defaultCountry: region }),
+    reason
+  });
+
+  const phone = parsePhoneNumberFromString(input, { defaultCountry: region });
+  if (!phone) {
+    if (!region && !input.trim().startsWith('+')) {
+      return invalid('has no country code and the location\'s country is unknown; include it, e.g. +60123456789');
+    }
+    return invalid(LENGTH_PROBLEMS[validatePhoneNumberLength(input, region) || 'NOT_A_NUMBER'] || 'is not a phone number');
+  }
+  if (!phone.isValid()) {
+    const problem = validatePhoneNumberLength(input, region);
+    const where = phone.country ? ` for ${phone.country}` : ` for country code +${phone.countryCallingCode}`;
+    return invalid(`${problem ? LENGTH_PROBLEMS[problem] : 'is not a valid number'}${where}`);
+  }
+
+  const type = (phone.getType()?.toLowerCase() || 'unknown') as PhoneNumberType;
+  return {
+    input,
+    valid: true,
+    e164: phone.number,
+    ...(phone.country && { country: phone.country }),
+    countryCallingCode: `+${phone.countryCallingCode}`,
+    nationalFormat: phone.formatNational(),
+    internationalFormat: phone.formatInternational(),
+    type,
+    canReceiveMessages: !NON_MESSAGING_TYPES.includes(type),
+    ...(region && { defaultCountry: region })
+  };
+}
+
+/**
+ * Phone Number Normalizer class
+ * Analyzes numbers for one client, defaulting to its location's country. The country is looked up
+ * once, on the first number without a country code.
+ */
+export class PhoneNumberNormalizer {
+  private defaultCountry: Promise<string | undefined> | null = null;
+
+  constructor(private ghlClient: GHLApiClient) {}
+
+  /**
+   * The location's country, or undefined if the location has none or cannot be read
+   */
+  getDefaultCountry(): Promise<string | undefined> {
+    if (!this.defaultCountry) {
+      const locationId = this.ghlClient.getConfig().locationId;
+      this.defaultCountry = this.ghlClient.getLocationById(locationId).then(
+        response => response.data?.location?.country?.toUpperCase(),
+        error => {
+          // Try again on the next number rather than remembering the failure
+          this.defaultCountry = null;
+          process.stderr.write(`[GHL MCP] Could not read the country of location ${locationId}: ${error instanceof Error ? error.message : error}\n`);
+          return undefined;
+        }
+      );
+    }
+    return this.defaultCountry;
+  }
+
+  /**
+   * Analyze a number, in the given country or else the location's
+   */
+  async analyze(input: string, country?: string): Promise<PhoneNumberInfo> {
+    // A leading + carries its own country; anything else may need the location's, including its international prefix
+    const international = input.trim().startsWith('+');
+    return analyzePhoneNumber(input, country || (international ? undefined : await this.getDefaultCountry()));
+  }
+
+  /**
+   * E.164 form of a tool argument. Invalid numbers, and with `messaging` numbers that cannot receive
+   * SMS or WhatsApp messages, are rejected as invalid arguments of the tool.
+   */
+  async normalize(toolName: string, field: string, input: string, options: { messaging?: boolean } = {}): Promise<string> {
+    const info = await this.analyze(input);
+    if (!info.valid) {
+      throw new ToolValidationError(toolName, [{ field, message: `${info.reason} (got "${input}")` }]);
+    }
+    if (options.messaging && !info.canReceiveMessages) {
+      throw new ToolValidationError(toolName, [{ field, message: `is a ${info.type.replace(/_/g, ' ')} number and cannot receive messages (got "${input}")` }]);
+    }
+    return info.e164!;
+  }
+}
@@ -0,0 +1,615 @@
+/**
+ * MCP Search Tools for GoHighLevel Integration
+ * Implements the "search" and "fetch" tools required by ChatGPT connectors and deep research
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { toolAnnotations } from './tool-annotations.js';
+import { outputSchema, record, SEARCH_RESULT } from './output-schemas.js';
+import {
+  MCPSearchParams,
+  MCPFetchParams,
+  GHLSearchRecordType,
+  GHLSearchResult,
+  GHLSearchResponse,
+  GHLFetchResponse,
+  GHLContact,
+  GHLConversation,
+  GHLMessage,
+  GHLOpportunity,
+  GHLBlogPost,
+  GHLCustomObjectSchema,
+  GHLDetailedObjectRecord,
+  GHLObjectRecord
+} from '../types/ghl-types.js';
+
+const DEFAULT_APP_URL = 'https://app.gohighlevel.com';
+const SNIPPET_LENGTH = 200;
+const BLOG_PAGE_SIZE = 50;
+const MAX_OBJECT_SCHEMAS = 5;
+
+// Standard objects that already have their own search source
+const COVERED_OBJECT_KEYS = ['contact', 'opportunity'];
+
+/**
+ * A search hit before ranking: the source's own ordering is kept as a tie-breaker
+ */
+interface RankedSearchResult extends GHLSearchResult {
+  score: number;
+  sourceRank: number;
+  sourceIndex: number;
+}
+
+/**
+ * Search Tools Class
+ * Searches across GHL records and renders single records as text, addressed by typed IDs like "contact:abc123"
+ */
+export class SearchTools implements ToolProvider {
+  constructor(private ghlClient: GHLApiClient, private appUrl: string = process.env.GHL_APP_URL || DEFAULT_APP_URL) {}
+
+  /**
+   * Get search and fetch tool definitions
+   */
+  getToolDefinitions(): Tool[] {
+    return [
+      {
+        name: 'search',
+        description: 'Search GoHighLevel contacts, conversations, opportunities, blog posts and custom object records. Returns ranked results whose IDs can be passed to fetch.',
+        annotations: toolAnnotations('Search GoHighLevel', 'read'),
+        outputSchema: outputSchema({ results: { type: 'array', items: SEARCH_RESULT } }, ['results']),
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description: 'Search text, e.g. a name, email, phone number, deal name or topic'
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of results (default: 20)'
+            }
+          },
+          required: ['query']
+        }
+      },
+      {
+        name: 'fetch',
+        description: 'Fetch the full text of a GoHighLevel record by the ID returned from search (e.g. "contact:abc123")',
+        annotations: toolAnnotations('Fetch Record', 'read'),
+        outputSchema: outputSchema({ id: { type: 'string' }, title: { type: 'string' }, text: { type: 'string' }, url: { type: 'string' }, metadata: record }, ['id', 'title', 'text', 'url']),
+        inputSchema: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Typed record ID from search results: contact:<id>, conversation:<id>, opportunity:<id>, blog:<blogId>:<postId> or object:<schemaKey>:<recordId>'
+            }
+          },
+          required: ['id']
+        }
+      }
+    ];
+  }
+
+  /**
+   * Register search tools with the shared tool registry
+   */
+  registerTools(registry: ToolRegistry): void {
+    // ChatGPT connectors read search and fetch results as JSON from the text block
+    registry.registerCategory('search', this.getToolDefinitions(), this.getToolHandlers(), { textOutput: 'json' });
+  }
+
+  /**
+   * Map each search tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
+      search: (args) => this.search(args as MCPSearchParams),
+
+      fetch: (args) => this.fetch(args as MCPFetchParams)
+    };
+  }
+
+  /**
+   * Execute search tool based on tool name and arguments
+   */
+  async executeTool(name: string, args: any): Promise<any> {
+    const handler = this.getToolHandlers()[name];
+    if (!handler) {
+      throw new Error(`Unknown search tool: ${name}`);
+    }
+    return await handler(args);
+  }
+
+  /**
+   * SEARCH
+   * Queries every source in parallel; a failing source is skipped rather than failing the whole search
+   */
+  private async search(params: MCPSearchParams): Promise<GHLSearchResponse> {
+    const query = (params.query || '').trim();
+    if (!query) {
+      throw new Error('query is required');
+    }
+    const limit = params.limit || 20;
+
+    const sources: Array<[string, Promise<GHLSearchResult[]>]> = [
+      ['contacts', this.searchContacts(query, limit)],
+      ['conversations', this.searchConversations(query, limit)],
+      ['opportunities', this.searchOpportunities(query, limit)],
+      ['blog posts', this.searchBlogPosts(query, limit)],
+      ['object records', this.searchObjectRecords(query, limit)]
+    ];
+
+    const settled = await Promise.allSettled(sources.map(([, promise]) => promise));
+    const ranked: RankedSearchResult[] = [];
+    settled.forEach((outcome, sourceIndex) => {
+      if (outcome.status === 'fulfilled') {
+        outcome.value.forEach((result, sourceRank) => {
+          ranked.push({ ...result, score: this.score(result, query), sourceRank, sourceIndex });
+        });
+      } else {
+        process.stderr.write(`[GHL MCP] Search of ${sources[sourceIndex][0]} failed: ${outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason)}\n`);
+      }
+    });
+
+    // Best match first; equal scores keep each source's own order, then interleave sources
+    ranked.sort((a, b) => b.score - a.score || a.sourceRank - b.sourceRank || a.sourceIndex - b.sourceIndex);
+
+    return {
+      results: ranked.slice(0, limit).map(({ id, title, text, url }) => ({ id, title, text, url }))
+    };
+  }
+
+  /**
+   * Score how well a result matches the query: title matches outweigh text matches,
+   * and phone numbers in the query are compared ignoring formatting
+   */
+  private score(result: GHLSearchResult, query: string): number {
+    const needle = query.toLowerCase();
+    const title = result.title.toLowerCase();
+    const text = result.text.toLowerCase();
+    let score = 0;
+
+    if (title === needle) {
+      score += 100;
+    } else if (title.startsWith(needle)) {
+      score += 60;
+    } else if (title.includes(needle)) {
+      score += 40;
+    } else if (text.includes(needle)) {
+      score += 20;
+    }
+
+    for (const token of needle.split(/\s+/).filter(Boolean)) {
+      if (title.includes(token)) {
+        score += 10;
+      } else if (text.includes(token)) {
+        score += 3;
+      }
+    }
+
+    const digits = query.replace(/\D/g, '');
+    if (digits.length >= 7 && `${title} ${text}`.replace(/\D/g, '').includes(digits)) {
+      score += 30;
+    }
+
+    return score;
+  }
+
+  /**
+   * FETCH
+   */
+  private async fetch(params: MCPFetchParams): Promise<GHLFetchResponse> {
+    const { type, id } = this.parseId(params.id);
+
+    switch (type) {
+      case 'contact':
+        return this.fetchContact(id);
+      case 'conversation':
+        return this.fetchConversation(id);
+      case 'opportunity':
+        return this.fetchOpportunity(id);
+      case 'blog':
+        return this.fetchBlogPost(id);
+      case 'object':
+        return this.fetchObjectRecord(id);
+    }
+  }
+
+  private async searchContacts(query: string, limit: number): Promise<GHLSearchResult[]> {
+    const response = await this.ghlClient.searchContacts({
+      locationId: this.locationId(),
+      query,
+      pageLimit: limit
+    });
+    if (!response.success) {
+      throw new Error(response.error?.message || 'Failed to search contacts');
+    }
+
+    return (response.data?.contacts || []).map(contact => ({
+      id: `contact:${contact.id}`,
+      title: this.contactName(contact),
+      text: this.snippet([contact.email, contact.phone, contact.companyName, contact.tags?.join(', ')]),
+      url: this.recordUrl('contact', contact.id!)
+    }));
+  }
+
+  private async searchConversations(query: string, limit: number): Promise<GHLSearchResult[]> {
+    const response = await this.ghlClient.searchConversations({
+      locationId: this.locationId(),
+      query,
+      limit
+    });
+    if (!response.success) {
+      throw new Error(response.error?.message || 'Failed to search conversations');
+    }
+
+    return (response.data?.conversations || []).map(conversation => ({
+      id: `conversation:${conversation.id}`,
+      title: `Conversation with ${conversation.fullName || conversation.contactName || conversation.email || conversation.phone || 'unknown contact'}`,
+      text: this.snippet([conversation.lastMessageBody]),
+      url: this.recordUrl('conversation', conversation.id)
+    }));
+  }
+
+  private async searchOpportunities(query: string, limit: number): Promise<GHLSearchResult[]> {
+    const response = await this.ghlClient.searchOpportunities({
+      location_id: this.locationId(),
+      q: query,
+      limit
+    });
+    if (!response.success) {
+      throw new Error(response.error?.message || 'Failed to search opportunities');
+    }
+
+    return (response.data?.opportunities || []).map(opportunity => ({
+      id: `opportunity:${opportunity.id}`,
+      title: opportunity.name,
+      text: this.snippet([
+        opportunity.status,
+        opportunity.monetaryValue !== undefined ? `value ${opportunity.monetaryValue}` : undefined,
+        opportunity.contact?.name
+      ]),
+      url: this.recordUrl('opportunity', opportunity.id)
+    }));
+  }
+
+  private async searchBlogPosts(query: string, limit: number): Promise<GHLSearchResult[]> {
+    const sites = await this.ghlClient.getBlogSites({ locationId: this.locationId(), skip: 0, limit: 10 });
+    if (!sites.success) {
+      throw new Error(sites.error?.message || 'Failed to get blog sites');
+    }
+
+    const perSite = await Promise.all((sites.data?.data || []).map(async (site) => {
+      const posts = await this.ghlClient.getBlogPosts({
+        locationId: this.locationId(),
+        blogId: site._id,
+        limit,
+        offset: 0,
+        searchTerm: query
+      });
+      return (posts.data?.blogs || []).map(post => ({
+        id: `blog:${site._id}:${post._id}`,
+        title: post.title,
+        text: this.snippet([post.description]),
+        url: this.blogPostUrl(site._id, post)
+      }));
+    }));
+
+    return perSite.flat();
+  }
+
+  /**
+   * Search the records of every custom object (standard contacts and opportunities have their own source)
+   */
+  private async searchObjectRecords(query: string, limit: number): Promise<GHLSearchResult[]> {
+    const schemas = (await this.getObjectSchemas())
+      .filter(schema => !COVERED_OBJECT_KEYS.includes(schema.key))
+      .slice(0, MAX_OBJECT_SCHEMAS);
+
+    const perSchema = await Promise.all(schemas.map(async (schema) => {
+      const response = await this.ghlClient.searchObjectRecords(schema.key, {
+        locationId: this.locationId(),
+        page: 1,
+        pageLimit: limit,
+        query,
+        searchAfter: []
+      });
+      return (response.data?.records || []).map(record => ({
+        id: `object:${schema.key}:${record.id}`,
+        title: this.objectRecordTitle(schema, record),
+        text: this.snippet([
+          schema.labels?.singular,
+          ...Object.values(record.properties || {}).filter(value => typeof value === 'string' || typeof value === 'number').map(String)
+        ]),
+        url: this.objectRecordUrl(schema.key, record.id)
+      }));
+    }));
+
+    return perSchema.flat();
+  }
+
+  private async fetchContact(contactId: string): Promise<GHLFetchResponse> {
+    const response = await this.ghlClient.getContact(contactId);
+    if (!response.success || !response.data) {
+      throw new Error(response.error?.message || `Contact not found: ${contactId}`);
+    }
+    const contact = response.data;
+
+    const address = [contact.address1, contact.city, contact.state, contact.postalCode, contact.country]
+      .filter(Boolean)
+      .join(', ');
+
+    return {
+      id: `contact:${contactId}`,
+      title: this.contactName(contact),
+      text: this.lines([
+        ['Name', this.contactName(contact)],
+        ['Email', contact.email],
+        ['Phone', contact.phone],
+        ['Company', contact.companyName],
+        ['Website', contact.website],
+        ['Address', address],
+        ['Timezone', contact.timezone],
+        ['Tags', contact.tags?.join(', ')],
+        ['Source', contact.source],
+        ['Assigned to', contact.assignedTo],
+        ['Added', contact.dateAdded],
+        ['Updated', contact.dateUpdated],
+        ...(contact.customFields || []).map(field => [
+          `Custom field ${field.key || field.id}`,
+          typeof field.field_value === 'string' ? field.field_value : JSON.stringify(field.field_value)
+        ] as [string, string])
+      ]),
+      url: this.recordUrl('contact', contactId),
+      metadata: { type: 'contact', locationId: contact.locationId }
+    };
+  }
+
+  private async fetchConversation(conversationId: string): Promise<GHLFetchResponse> {
+    const [conversationResponse, messagesResponse] = await Promise.all([
+      this.ghlClient.getConversation(conversationId),
+      this.ghlClient.getConversationMessages(conversationId, { limit: 100 })
+    ]);
+    if (!conversationResponse.success || !conversationResponse.data) {
+      throw new Error(conversationResponse.error?.message || `Conversation not found: ${conversationId}`);
+    }
+    const conversation: GHLConversation = conversationResponse.data;
+    const messages: GHLMessage[] = messagesResponse.data?.messages || [];
+    const contactName = conversation.fullName || conversation.contactName || conversation.email || conversation.phone || 'unknown contact';
+
+    const transcript = messages
+      .slice()
+      .sort((a, b) => (a.dateAdded || '').localeCompare(b.dateAdded || ''))
+      .map(message => `[${message.dateAdded}] ${message.direction === 'inbound' ? contactName : 'Business'} (${message.messageType}): ${message.body || '(no text)'}`);
+
+    return {
+      id: `conversation:${conversationId}`,
+      title: `Conversation with ${contactName}`,
+      text: [
+        this.lines([
+          ['Contact', contactName],
+          ['Contact ID', conversation.contactId],
+          ['Email', conversation.email],
+          ['Phone', conversation.phone],
+          ['Channel', conversation.type],
+          ['Unread messages', String(conversation.unreadCount ?? 0)]
+        ]),
+        '',
+        transcript.length > 0 ? transcript.join('\n') : 'No messages.'
+      ].join('\n'),
+      url: this.recordUrl('conversation', conversationId),
+      metadata: { type: 'conversation', contactId: conversation.contactId, messageCount: messages.length }
+    };
+  }
+
+  private async fetchOpportunity(opportunityId: string): Promise<GHLFetchResponse> {
+    const response = await this.ghlClient.getOpportunity(opportunityId);
+    if (!response.success || !response.data) {
+      throw new Error(response.error?.message || `Opportunity not found: ${opportunityId}`);
+    }
+    const opportunity: GHLOpportunity = response.data;
+
+    return {
+      id: `opportunity:${opportunityId}`,
+      title: opportunity.name,
+      text: this.lines([
+        ['Name', opportunity.name],
+        ['Status', opportunity.status],
+        ['Value', opportunity.monetaryValue !== undefined ? String(opportunity.monetaryValue) : undefined],
+        ['Pipeline ID', opportunity.pipelineId],
+        ['Stage ID', opportunity.pipelineStageId],
+        ['Contact', opportunity.contact?.name],
+        ['Contact email', opportunity.contact?.email],
+        ['Contact phone', opportunity.contact?.phone],
+        ['Contact ID', opportunity.contactId],
+        ['Source', opportunity.source],
+        ['Assigned to', opportunity.assignedTo],
+        ['Created', opportunity.createdAt],
+        ['Updated', opportunity.updatedAt],
+        ['Last status change', opportunity.lastStatusChangeAt]
+      ]),
+      url: this.recordUrl('opportunity', opportunityId),
+      metadata: { type: 'opportunity', pipelineId: opportunity.pipelineId, contactId: opportunity.contactId }
+    };
+  }
+
+  /**
+   * Blog posts have no get-by-ID endpoint, so the blog's posts are paged through until the post is found
+   */
+  private async fetchBlogPost(compositeId: string): Promise<GHLFetchResponse> {
+    const [blogId, postId] = compositeId.split(':');
+    if (!blogId || !postId) {
+      throw new Error(`Blog post IDs must look like blog:<blogId>:<postId>, got blog:${compositeId}`);
+    }
+
+    let post: GHLBlogPost | undefined;
+    for (let offset = 0; !post; offset += BLOG_PAGE_SIZE) {
+      const response = await this.ghlClient.getBlogPosts({
+        locationId: this.locationId(),
+        blogId,
+        limit: BLOG_PAGE_SIZE,
+        offset
+      });
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to get blog posts');
+      }
+      const page = response.data?.blogs || [];
+      post = page.find(candidate => candidate._id === postId);
+      if (page.length < BLOG_PAGE_SIZE) {
+        break;
+      }
+    }
+    if (!post) {
+      throw new Error(`Blog post not found: ${postId}`);
+    }
+
+    return {
+      id: `blog:${blogId}:${postId}`,
+      title: post.title,
+      text: [
+        this.lines([
+          ['Title', post.title],
+          ['Status', post.status],
+          ['Published', post.publishedAt],
+          ['Updated', post.updatedAt],
+          ['Tags', post.tags?.join(', ')],
+          ['Description', post.description]
+        ]),
+        '',
+        this.stripHtml(post.rawHTML || '')
+      ].join('\n').trim(),
+      url: this.blogPostUrl(blogId, post),
+      metadata: { type: 'blog', blogId, urlSlug: post.urlSlug }
+    };
+  }
+
+  private async fetchObjectRecord(compositeId: string): Promise<GHLFetchResponse> {
+    const separator = compositeId.lastIndexOf(':');
+    const schemaKey = compositeId.slice(0, Math.max(separator, 0));
+    const recordId = compositeId.slice(separator + 1);
+    if (separator <= 0 || !recordId) {
+      throw new Error(`Object record IDs must look like object:<schemaKey>:<recordId>, got object:${compositeId}`);
+    }
+
+    const response = await this.ghlClient.getObjectRecord(schemaKey, recordId);
+    if (!response.success || !response.data?.record) {
+      throw new Error(response.error?.message || `Object record not found: ${recordId}`);
+    }
+    const record = response.data.record;
+
+    // The schema only improves the title, so a failed lookup falls back to the raw key
+    const schema = (await this.getObjectSchemas().catch(() => [] as GHLCustomObjectSchema[]))
+      .find(candidate => candidate.key === schemaKey);
+    const title = schema ? this.objectRecordTitle(schema, record) : `${schemaKey} ${recordId}`;
+
+    return {
+      id: `object:${schemaKey}:${recordId}`,
+      title,
+      text: this.lines([
+        ['Object', schema?.labels?.singular || schemaKey],
+        ...Object.entries(record.properties || {}).map(([key, value]) => [
+          key,
+          typeof value === 'string' ? value : JSON.stringify(value)
+        ] as [string, string]),
+        ['Added', record.dateAdded],
+        ['Updated', record.dateUpdated]
+      ]),
+      url: this.objectRecordUrl(schemaKey, recordId),
+      metadata: { type: 'object', schemaKey }
+    };
+  }
+
+  private async getObjectSchemas(): Promise<GHLCustomObjectSchema[]> {
+    const response = await this.ghlClient.getObjectsByLocation(this.locationId());
+    if (!response.success) {
+      throw new Error(response.error?.message || 'Failed to get custom objects');
+    }
+    return response.data?.objects || [];
+  }
+
+  private objectRecordTitle(schema: GHLCustomObjectSchema, record: GHLDetailedObjectRecord | GHLObjectRecord): string {
+    // primaryDisplayProperty is a full field key such as "custom_objects.pets.name"
+    const displayKey = (schema.primaryDisplayProperty || '').split('.').pop() || '';
+    const display = record.properties?.[displayKey] ?? record.properties?.[schema.primaryDisplayProperty];
+    return display ? String(display) : `${schema.labels?.singular || schema.key} ${record.id}`;
+  }
+
+  /**
+   * Split a typed ID ("contact:abc123") into its record type and the remaining ID
+   */
+  private parseId(typedId: string): { type: GHLSearchRecordType; id: string } {
+    const separator = (typedId || '').indexOf(':');
+    const type = separator > 0 ? typedId.slice(0, separator) : '';
+    const id = separator > 0 ? typedId.slice(separator + 1) : '';
+
+    if (!['contact', 'conversation', 'opportunity', 'blog', 'object'].includes(type) || !id) {
+      throw new Error(`Invalid id "${typedId}". Use an id returned by search, e.g. contact:abc123`);
+    }
+    return { type: type as GHLSearchRecordType, id };
+  }
+
+  /**
+   * Link to a record in the GHL web app
+   */
+  private recordUrl(type: Exclude<GHLSearchRecordType, 'blog' | 'object'>, id: string): string {
+    const base = `${this.appUrl}/v2/location/${this.locationId()}`;
+    switch (type) {
+      case 'contact':
+        return `${base}/contacts/detail/${id}`;
+      case 'conversation':
+        return `${base}/conversations/conversations/${id}`;
+      case 'opportunity':
+        return `${base}/opportunities/list?opportunityId=${id}`;
+    }
+  }
+
+  private objectRecordUrl(schemaKey: string, recordId: string): string {
+    return `${this.appUrl}/v2/location/${this.locationId()}/objects/${schemaKey}/records/${recordId}`;
+  }
+
+  private blogPostUrl(blogId: string, post: GHLBlogPost): string {
+    return post.canonicalLink || `${this.appUrl}/v2/location/${this.locationId()}/blogs/${blogId}/posts/${post._id}`;
+  }
+
+  private locationId(): string {
+    return this.ghlClient.getConfig().locationId;
+  }
+
+  private contactName(contact: GHLContact): string {
+    return contact.name
+      || [contact.firstName, contact.lastName].filter(Boolean).join(' ')
+      || contact.email
+      || contact.phone
+      || `Contact ${contact.id}`;
+  }
+
+  private snippet(parts: Array<string | undefined>): string {
+    const text = parts.filter(Boolean).join(' · ');
+    return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH - 1)}…` : text;
+  }
+
+  private lines(fields: Array<[string, string | undefined]>): string {
+    return fields
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([label, value]) => `${label}: ${value}`)
+      .join('\n');
+  }
+
+  private stripHtml(html: string): string {
+    return html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>|<\/(p|div|h[1-6]|li)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+}
@@ -1,5 +1,8 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { toolAnnotations } from './tool-annotations.js';
+import { envelopeOutput, listOf, number, record, recordList, anything, SOCIAL_POST } from './output-schemas.js';
 import {
   MCPSearchPostsParams,
   MCPCreatePostParams,
@@ -25,7 +28,7 @@ import {
   MCPAttachOAuthAccountParams
 } from '../types/ghl-types.js';
 
-export class SocialMediaTools {
+export class SocialMediaTools implements ToolProvider {
   constructor(private ghlClient: GHLApiClient) {}
 
   getTools(): Tool[] {
@@ -34,6 +37,8 @@ export class SocialMediaTools {
       {
         name: 'search_social_posts',
         description: 'Search and filter social media posts across all platforms',
+        annotations: toolAnnotations('Search Social Posts', 'read'),
+        outputSchema: envelopeOutput({ posts: listOf(SOCIAL_POST), count: number }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -49,8 +54,8 @@ export class SocialMediaTools {
             },
             skip: { type: 'number', description: 'Number of posts to skip', default: 0 },
             limit: { type: 'number', description: 'Number of posts to return', default: 10 },
-            fromDate: { type: 'string', description: 'Start date (ISO format)' },
-            toDate: { type: 'string', description: 'End date (ISO format)' },
+            fromDate: { type: 'string', format: 'date-time', description: 'Start date (ISO format)' },
+            toDate: { type: 'string', format: 'date-time', description: 'End date (ISO format)' },
             includeUsers: { type: 'boolean', description: 'Include user data in response', default: true },
             postType: {
               type: 'string',
@@ -64,6 +69,8 @@ export class SocialMediaTools {
       {
         name: 'create_social_post',
         description: 'Create a new social media post for multiple platforms',
+        annotations: toolAnnotations('Create Social Post', 'outreach'),
+        outputSchema: envelopeOutput({ post: SOCIAL_POST }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -92,7 +99,7 @@ export class SocialMediaTools {
               description: 'Post status',
               default: 'draft'
             },
-            scheduleDate: { type: 'string', description: 'Schedule date for post (ISO format)' },
+            scheduleDate: { type: 'string', format: 'date-time', description: 'Schedule date for post (ISO format)' },
             followUpComment: { type: 'string', description: 'Follow-up comment' },
             type: {
               type: 'string',
@@ -113,6 +120,8 @@ export class SocialMediaTools {
       {
         name: 'get_social_post',
         description: 'Get details of a specific social media post',
+        annotations: toolAnnotations('Get Social Post', 'read'),
+        outputSchema: envelopeOutput({ post: SOCIAL_POST }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -124,6 +133,8 @@ export class SocialMediaTools {
       {
         name: 'update_social_post',
         description: 'Update an existing social media post',
+        annotations: toolAnnotations('Update Social Post', 'update'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -147,6 +158,8 @@ export class SocialMediaTools {
       {
         name: 'delete_social_post',
         description: 'Delete a social media post',
+        annotations: toolAnnotations('Delete Social Post', 'delete'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -158,6 +171,8 @@ export class SocialMediaTools {
       {
         name: 'bulk_delete_social_posts',
         description: 'Delete multiple social media posts at once (max 50)',
+        annotations: toolAnnotations('Bulk Delete Social Posts', 'delete'),
+        outputSchema: envelopeOutput({ deletedCount: number }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -176,6 +191,8 @@ export class SocialMediaTools {
       {
         name: 'get_social_accounts',
         description: 'Get all connected social media accounts and groups',
+        annotations: toolAnnotations('Get Social Accounts', 'read'),
+        outputSchema: envelopeOutput({ accounts: recordList, groups: recordList }),
         inputSchema: {
           type: 'object',
           properties: {},
@@ -185,6 +202,8 @@ export class SocialMediaTools {
       {
         name: 'delete_social_account',
         description: 'Delete a social media account connection',
+        annotations: toolAnnotations('Delete Social Account', 'delete'),
+        outputSchema: envelopeOutput(),
         inputSchema: {
           type: 'object',
           properties: {
@@ -200,6 +219,8 @@ export class SocialMediaTools {
       {
         name: 'upload_social_csv',
         description: 'Upload CSV file for bulk social media posts',
+        annotations: toolAnnotations('Upload Social CSV', 'create'),
+        outputSchema: envelopeOutput({ upload: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -211,6 +232,8 @@ export class SocialMediaTools {
       {
         name: 'get_csv_upload_status',
         description: 'Get status of CSV uploads',
+        annotations: toolAnnotations('Get CSV Upload Status', 'read'),
+        outputSchema: envelopeOutput({ csvs: recordList, count: number }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -224,6 +247,8 @@ export class SocialMediaTools {
       {
         name: 'set_csv_accounts',
         description: 'Set accounts for CSV import processing',
+        annotations: toolAnnotations('Set CSV Accounts', 'update'),
+        outputSchema: envelopeOutput({ result: anything }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -246,6 +271,8 @@ export class SocialMediaTools {
       {
         name: 'get_social_categories',
         description: 'Get social media post categories',
+        annotations: toolAnnotations('Get Social Categories', 'read'),
+        outputSchema: envelopeOutput({ categories: recordList, count: number }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -258,6 +285,8 @@ export class SocialMediaTools {
       {
         name: 'get_social_category',
         description: 'Get a specific social media category by ID',
+        annotations: toolAnnotations('Get Social Category', 'read'),
+        outputSchema: envelopeOutput({ category: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -269,6 +298,8 @@ export class SocialMediaTools {
       {
         name: 'get_social_tags',
         description: 'Get social media post tags',
+        annotations: toolAnnotations('Get Social Tags', 'read'),
+        outputSchema: envelopeOutput({ tags: recordList, count: number }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -281,6 +312,8 @@ export class SocialMediaTools {
       {
         name: 'get_social_tags_by_ids',
         description: 'Get specific social media tags by their IDs',
+        annotations: toolAnnotations('Get Social Tags by IDs', 'read'),
+        outputSchema: envelopeOutput({ tags: recordList, count: number }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -298,6 +331,8 @@ export class SocialMediaTools {
       {
         name: 'start_social_oauth',
         description: 'Start OAuth process for social media platform',
+        annotations: toolAnnotations('Start Social OAuth', 'create'),
+        outputSchema: envelopeOutput({ oauthData: anything }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -316,6 +351,8 @@ export class SocialMediaTools {
       {
         name: 'get_platform_accounts',
         description: 'Get available accounts for a specific platform after OAuth',
+        annotations: toolAnnotations('Get Platform Accounts', 'read'),
+        outputSchema: envelopeOutput({ platformAccounts: anything }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -332,40 +369,45 @@ export class SocialMediaTools {
     ];
   }
 
+  /**
+   * Register social media tools with the shared tool registry
+   */
+  registerTools(registry: ToolRegistry): void {
+    registry.registerCategory('social-media', this.getTools(), this.getToolHandlers());
+  }
+
+  /**
+   * Map each social media tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
+      search_social_posts: (args) => this.searchSocialPosts(args),
+      create_social_post: (args) => this.createSocialPost(args),
+      get_social_post: (args) => this.getSocialPost(args),
+      update_social_post: (args) => this.updateSocialPost(args),
+      delete_social_post: (args) => this.deleteSocialPost(args),
+      bulk_delete_social_posts: (args) => this.bulkDeleteSocialPosts(args),
+      get_social_accounts: (args) => this.getSocialAccounts(args),
+      delete_social_account: (args) => this.deleteSocialAccount(args),
+      upload_social_csv: (args) => this.uploadSocialCSV(args),
+      get_csv_upload_status: (args) => this.getCSVUploadStatus(args),
+      set_csv_accounts: (args) => this.setCSVAccounts(args),
+      get_social_categories: (args) => this.getSocialCategories(args),
+      get_social_category: (args) => this.getSocialCategory(args),
+      get_social_tags: (args) => this.getSocialTags(args),
+      get_social_tags_by_ids: (args) => this.getSocialTagsByIds(args),
+      start_social_oauth: (args) => this.startSocialOAuth(args),
+      get_platform_accounts: (args) => this.getPlatformAccounts(args)
+    };
+  }
+
   async executeTool(name: string, args: any): Promise<any> {
     try {
-      switch (name) {
-        case 'search_social_posts':
-          return await this.searchSocialPosts(args);
-        case 'create_social_post':
-          return await this.createSocialPost(args);
-        case 'get_social_post':
-          return await this.getSocialPost(args);
-        case 'update_social_post':
-          return await this.updateSocialPost(args);
-        case 'delete_social_post':
-          return await this.deleteSocialPost(args);
-        case 'bulk_delete_social_posts':
-          return await this.bulkDeleteSocialPosts(args);
-        case 'get_social_accounts':
-          return await this.getSocialAccounts(args);
-        case 'delete_social_account':
-          return await this.deleteSocialAccount(args);
-        case 'get_social_categories':
-          return await this.getSocialCategories(args);
-        case 'get_social_category':
-          return await this.getSocialCategory(args);
-        case 'get_social_tags':
-          return await this.getSocialTags(args);
-        case 'get_social_tags_by_ids':
-          return await this.getSocialTagsByIds(args);
-        case 'start_social_oauth':
-          return await this.startSocialOAuth(args);
-        case 'get_platform_accounts':
-          return await this.getPlatformAccounts(args);
-        default:
-          throw new Error(`Unknown tool: ${name}`);
+      const handler = this.getToolHandlers()[name];
+      if (!handler) {
+        throw new Error(`Unknown tool: ${name}`);
       }
+      return await handler(args);
     } catch (error) {
       throw new Error(`Error executing ${name}: ${error}`);
     }
@@ -476,6 +518,49 @@ export class SocialMediaTools {
     };
   }
 
+  private async uploadSocialCSV(params: MCPUploadCSVParams) {
+    const response = await this.ghlClient.uploadSocialCSV({ file: params.file });
+
+    return {
+      success: true,
+      upload: response.data,
+      message: `CSV uploaded successfully with ${response.data?.rowsCount || 0} rows`
+    };
+  }
+
+  private async getCSVUploadStatus(params: MCPGetUploadStatusParams) {
+    const response = await this.ghlClient.getSocialCSVUploadStatus(
+      params.skip,
+      params.limit,
+      params.includeUsers,
+      params.userId
+    );
+
+    return {
+      success: true,
+      csvs: response.data?.csvs || [],
+      count: response.data?.count || 0,
+      message: `Retrieved ${response.data?.count || 0} CSV uploads`
+    };
+  }
+
+  private async setCSVAccounts(params: MCPSetAccountsParams) {
+    const response = await this.ghlClient.setSocialCSVAccounts({
+      accountIds: params.accountIds,
+      filePath: params.filePath,
+      rowsCount: params.rowsCount,
+      fileName: params.fileName,
+      approver: params.approver,
+      userId: params.userId
+    });
+
+    return {
+      success: true,
+      result: response.data,
+      message: `Accounts set for CSV import ${params.fileName}`
+    };
+  }
+
   private async getSocialCategories(params: MCPGetCategoriesParams) {
     const response = await this.ghlClient.getSocialCategories(
       params.searchText,
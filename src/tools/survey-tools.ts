@@ -1,11 +1,16 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { withErrorContext } from '../clients/ghl-api-error.js';
+import { collect, getFetchAllLimit } from '../clients/paginator.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { toolAnnotations } from './tool-annotations.js';
+import { envelopeOutput, listOf, number, record, recordList, SURVEY } from './output-schemas.js';
 import { 
   MCPGetSurveysParams,
   MCPGetSurveySubmissionsParams
 } from '../types/ghl-types.js';
 
-export class SurveyTools {
+export class SurveyTools implements ToolProvider {
   constructor(private apiClient: GHLApiClient) {}
 
   getTools(): Tool[] {
@@ -13,6 +18,8 @@ export class SurveyTools {
       {
         name: 'ghl_get_surveys',
         description: 'Retrieve all surveys for a location. Surveys are used to collect information from contacts through forms and questionnaires.',
+        annotations: toolAnnotations('Get Surveys', 'read'),
+        outputSchema: envelopeOutput({ surveys: listOf(SURVEY), total: number, metadata: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -39,6 +46,8 @@ export class SurveyTools {
       {
         name: 'ghl_get_survey_submissions',
         description: 'Retrieve survey submissions with advanced filtering and pagination. Get responses from contacts who have completed surveys.',
+        annotations: toolAnnotations('Get Survey Submissions', 'read'),
+        outputSchema: envelopeOutput({ submissions: recordList, meta: record, metadata: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -64,11 +73,23 @@ export class SurveyTools {
             },
             startAt: {
               type: 'string',
+              format: 'date',
               description: 'Start date for filtering submissions (YYYY-MM-DD format)'
             },
             endAt: {
               type: 'string',
+              format: 'date',
               description: 'End date for filtering submissions (YYYY-MM-DD format)'
+            },
+            fetchAll: {
+              type: 'boolean',
+              description: 'Page through all matching submissions instead of returning one page (capped at 5000)'
+            },
+            maxResults: {
+              type: 'number',
+              description: 'Page through matching submissions until this many are collected (max: 5000)',
+              minimum: 1,
+              maximum: 5000
             }
           },
           additionalProperties: false
@@ -77,18 +98,31 @@ export class SurveyTools {
     ];
   }
 
+  /**
+   * Register survey tools with the shared tool registry
+   */
+  registerTools(registry: ToolRegistry): void {
+    registry.registerCategory('surveys', this.getTools(), this.getToolHandlers());
+  }
+
+  /**
+   * Map each survey tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
+      ghl_get_surveys: (params) => this.getSurveys(params as MCPGetSurveysParams),
+
+      ghl_get_survey_submissions: (params) => this.getSurveySubmissions(params as MCPGetSurveySubmissionsParams)
+    };
+  }
+
   async executeSurveyTool(name: string, params: any): Promise<any> {
     try {
-      switch (name) {
-        case 'ghl_get_surveys':
-          return await this.getSurveys(params as MCPGetSurveysParams);
-        
-        case 'ghl_get_survey_submissions':
-          return await this.getSurveySubmissions(params as MCPGetSurveySubmissionsParams);
-        
-        default:
-          throw new Error(`Unknown survey tool: ${name}`);
+      const handler = this.getToolHandlers()[name];
+      if (!handler) {
+        throw new Error(`Unknown survey tool: ${name}`);
       }
+      return await handler(params);
     } catch (error) {
       console.error(`Error executing survey tool ${name}:`, error);
       throw error;
@@ -130,7 +164,7 @@ export class SurveyTools {
       };
     } catch (error) {
       console.error('Error getting surveys:', error);
-      throw new Error(`Failed to get surveys: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw withErrorContext('Failed to get surveys', error);
     }
   }
 
@@ -139,6 +173,27 @@ export class SurveyTools {
    */
   private async getSurveySubmissions(params: MCPGetSurveySubmissionsParams): Promise<any> {
     try {
+      const fetchAllLimit = getFetchAllLimit(params);
+      if (fetchAllLimit !== undefined) {
+        const { items, truncated } = await collect(this.apiClient.iterateSurveySubmissions({
+          ...(params.locationId && { locationId: params.locationId }),
+          surveyId: params.surveyId,
+          q: params.q,
+          startAt: params.startAt,
+          endAt: params.endAt
+        }, { maxItems: fetchAllLimit }));
+        return {
+          success: true,
+          submissions: items,
+          message: `Successfully retrieved ${items.length} survey submissions${truncated ? ' (more results were not fetched)' : ''}`,
+          metadata: {
+            totalSubmissions: items.length,
+            returnedCount: items.length,
+            truncated
+          }
+        };
+      }
+
       const result = await this.apiClient.getSurveySubmissions({
         locationId: params.locationId || '',
         page: params.page,
@@ -177,17 +232,7 @@ export class SurveyTools {
       };
     } catch (error) {
       console.error('Error getting survey submissions:', error);
-      throw new Error(`Failed to get survey submissions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw withErrorContext('Failed to get survey submissions', error);
     }
   }
 }
-
-// Helper function to check if a tool name belongs to survey tools
-export function isSurveyTool(toolName: string): boolean {
-  const surveyToolNames = [
-    'ghl_get_surveys',
-    'ghl_get_survey_submissions'
-  ];
-  
-  return surveyToolNames.includes(toolName);
-} 
\ No newline at end of file
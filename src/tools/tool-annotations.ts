@@ -0,0 +1,32 @@
+/**
+ * Tool Annotations
+ * MCP behaviour hints for every tool, so clients can tell a lookup from a destructive change
+ * and decide when to ask the user for confirmation
+ */
+
+import { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * What a tool does to the GoHighLevel account:
+ * - read: only reads data
+ * - create: adds something new; calling again adds another
+ * - update: changes or replaces existing data; calling again with the same input changes nothing more
+ * - delete: removes or cancels something; calling again changes nothing more
+ * - outreach: reaches people or services outside the account (messages, emails, posts, automations); calling again repeats it
+ */
+export type ToolEffect = 'read' | 'create' | 'update' | 'delete' | 'outreach';
+
+const EFFECT_HINTS: Record<ToolEffect, Required<Omit<ToolAnnotations, 'title'>>> = {
+  read: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+  create: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
+  update: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  delete: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  outreach: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true }
+};
+
+/**
+ * Annotations for a tool with the given title and effect. Overrides adjust single hints where a tool differs from its effect.
+ */
+export function toolAnnotations(title: string, effect: ToolEffect, overrides: Partial<ToolAnnotations> = {}): ToolAnnotations {
+  return { title, ...EFFECT_HINTS[effect], ...overrides };
+}
@@ -0,0 +1,69 @@
+/**
+ * Tool Call Context
+ * Progress reporting and cancellation for a single tool call, taken from the MCP request that started it
+ */
+
+import { ProgressToken, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+
+// Minimum time between two progress notifications of the same call
+export const PROGRESS_INTERVAL_MS = 1000;
+
+/**
+ * One progress update; progress must increase with every update, total is omitted when unknown
+ */
+export interface ToolProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Passed to every tool handler. Long-running tools report progress through reportProgress
+ * and stop early, returning partial results, once signal fires.
+ */
+export interface ToolCallContext {
+  signal?: AbortSignal;
+  reportProgress?: (update: ToolProgress) => void;
+  /** Last state saved by this call when it runs as a background job that was interrupted; the tool skips the work it covers */
+  checkpoint?: unknown;
+  /** Set for background jobs: persist state a restarted job can resume from */
+  saveCheckpoint?: (state: unknown) => Promise<void>;
+}
+
+/**
+ * Send progress updates as notifications/progress for a progressToken, at most one per interval.
+ * The final update (progress reaching total) is always sent.
+ */
+export function progressNotifier(
+  send: (notification: ServerNotification) => unknown,
+  progressToken: ProgressToken,
+  intervalMs: number = PROGRESS_INTERVAL_MS
+): (update: ToolProgress) => void {
+  let lastSentAt = -Infinity;
+
+  return (update) => {
+    const now = Date.now();
+    const final = update.total !== undefined && update.progress >= update.total;
+    if (!final && now - lastSentAt < intervalMs) {
+      return;
+    }
+    lastSentAt = now;
+
+    Promise.resolve()
+      .then(() => send({ method: 'notifications/progress', params: { progressToken, ...update } }))
+      .catch(error => process.stderr.write(`[GHL MCP] Failed to send progress notification: ${error}\n`));
+  };
+}
+
+/**
+ * Context for a tool call handled by an SDK server: the request's abort signal, which fires on
+ * notifications/cancelled, and progress notifications if the client sent a progressToken
+ */
+export function toolCallContext(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): ToolCallContext {
+  const progressToken = extra._meta?.progressToken;
+  return {
+    signal: extra.signal,
+    ...(progressToken !== undefined && { reportProgress: progressNotifier(extra.sendNotification, progressToken) })
+  };
+}
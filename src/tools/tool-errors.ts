@@ -0,0 +1,99 @@
+/**
+ * Tool Error Mapping
+ * Turns errors thrown by tools into MCP responses: JSON-RPC errors for problems the caller must fix
+ * in the request itself, isError tool results for everything the model can react to
+ */
+
+import { CallToolResult, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { GHLApiError, GHLApiErrorType } from '../clients/ghl-api-error.js';
+import { ToolPermissionError } from './tool-permissions.js';
+import { ToolValidationError } from './tool-validation.js';
+
+/**
+ * JSON-RPC error codes per GHL error type; -32000 to -32099 are reserved for server-defined errors
+ */
+export const GHL_ERROR_CODES: Record<GHLApiErrorType, number> = {
+  auth: -32001,
+  not_found: -32002,
+  validation: ErrorCode.InvalidParams,
+  rate_limit: -32003,
+  conflict: -32004,
+  server: -32005,
+  network: -32006,
+  api: -32000
+};
+
+/**
+ * JSON-RPC error code for a tool the caller's permissions do not include
+ */
+export const TOOL_PERMISSION_DENIED_CODE = -32010;
+
+// Rejected arguments and bad credentials are reported as protocol errors rather than tool output
+const JSON_RPC_ERROR_TYPES: GHLApiErrorType[] = ['validation', 'auth'];
+
+export type ToolErrorResponse =
+  | { kind: 'result'; result: CallToolResult }
+  | { kind: 'error'; code: number; message: string; data: Record<string, unknown> };
+
+/**
+ * Decide how a tool failure is sent to the client
+ */
+export function mapToolError(error: unknown): ToolErrorResponse {
+  if (error instanceof ToolPermissionError) {
+    return { kind: 'error', code: TOOL_PERMISSION_DENIED_CODE, message: error.message, data: { type: 'permission_denied', tool: error.toolName } };
+  }
+
+  if (error instanceof ToolValidationError) {
+    return {
+      kind: 'error',
+      code: ErrorCode.InvalidParams,
+      message: error.message,
+      data: { type: 'invalid_arguments', tool: error.toolName, validationErrors: error.issues }
+    };
+  }
+
+  if (error instanceof GHLApiError) {
+    const code = GHL_ERROR_CODES[error.type];
+    const data = describeApiError(error);
+
+    if (JSON_RPC_ERROR_TYPES.includes(error.type)) {
+      return { kind: 'error', code, message: error.message, data };
+    }
+    return toErrorResult({ code, message: error.message, ...data });
+  }
+
+  return toErrorResult({
+    type: 'tool_error',
+    message: error instanceof Error ? error.message : String(error)
+  });
+}
+
+/**
+ * Details of a GHL API error sent to the client as JSON-RPC error data or in an isError result
+ */
+export function describeApiError(error: GHLApiError): Record<string, unknown> {
+  return {
+    type: error.type,
+    status: error.status,
+    ...(error.endpoint && { endpoint: error.endpoint }),
+    ...(error.requestId && { requestId: error.requestId }),
+    ...(error.validationErrors.length > 0 && { validationErrors: error.validationErrors }),
+    ...(error.retryAfterMs !== undefined && { retryAfterMs: error.retryAfterMs }),
+    ...(error.dailyLimitExhausted && { dailyLimitExhausted: true })
+  };
+}
+
+function toErrorResult(error: Record<string, unknown>): ToolErrorResponse {
+  return {
+    kind: 'result',
+    result: {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ error }, null, 2)
+        }
+      ],
+      isError: true
+    }
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Tool Output
+ * Turns what a tool handler returns into an MCP tool result: the data as structuredContent,
+ * matching the tool's outputSchema, plus a short text summary for clients that only show text
+ */
+
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * What the text block of a tool result holds:
+ * - summary: one line describing the result; the data itself is in structuredContent
+ * - json: the structured content as compact JSON, for clients that ignore structuredContent
+ */
+export type ToolTextOutput = 'summary' | 'json';
+
+// Scalar fields worth naming in a summary when the result has no message of its own
+const SUMMARY_FIELDS = ['id', '_id', 'name', 'title', 'email', 'status', 'total', 'count'];
+
+/**
+ * Text output from MCP_TOOL_TEXT (default: summary)
+ */
+export function toolTextOutputFromEnv(env: NodeJS.ProcessEnv = process.env): ToolTextOutput {
+  return env.MCP_TOOL_TEXT === 'json' ? 'json' : 'summary';
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check if a handler already built a complete tool result (content blocks and optional structuredContent)
+ */
+export function isCallToolResult(value: unknown): value is CallToolResult {
+  return isPlainObject(value) && Array.isArray(value.content);
+}
+
+/**
+ * Structured content for a handler result. Objects are used as they are; arrays become `{ items }`
+ * and any other value `{ result }`, since structuredContent must be an object.
+ */
+export function toStructuredContent(value: unknown): Record<string, unknown> {
+  if (isPlainObject(value)) return value;
+  if (Array.isArray(value)) return { items: value };
+  if (value === undefined) return {};
+  return { result: value };
+}
+
+/**
+ * One-line description of structured content: its message if it has one,
+ * otherwise the size of each list and a few identifying fields
+ */
+export function summarizeResult(structured: Record<string, unknown>): string {
+  if (typeof structured.message === 'string' && structured.message.trim()) {
+    return structured.message.trim();
+  }
+
+  const parts: string[] = [];
+  for (const [key, value] of Object.entries(structured)) {
+    if (Array.isArray(value)) {
+      parts.push(`${value.length} ${key}`);
+    } else if (SUMMARY_FIELDS.includes(key) && ['string', 'number'].includes(typeof value)) {
+      parts.push(`${key}: ${value}`);
+    }
+  }
+  if (structured.success === false) {
+    parts.unshift('Failed');
+  }
+  return parts.length > 0 ? parts.join(', ') : 'Done';
+}
+
+/**
+ * Build the tool result for a handler's return value. Results that are already tool results pass through unchanged.
+ */
+export function toToolResult(result: unknown, textOutput: ToolTextOutput = toolTextOutputFromEnv()): CallToolResult {
+  if (isCallToolResult(result)) {
+    return result;
+  }
+
+  const structuredContent = toStructuredContent(result);
+  const text = textOutput === 'json' ? JSON.stringify(structuredContent) : summarizeResult(structuredContent);
+  return {
+    content: [{ type: 'text', text }],
+    structuredContent
+  };
+}
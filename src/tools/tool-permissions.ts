@@ -0,0 +1,138 @@
+/**
+ * Tool Permissions
+ * Allow and deny patterns that scope which tools a credential can list and call, plus the global read-only mode
+ */
+
+import type { RegisteredTool } from './tool-registry.js';
+
+/**
+ * What a permission pattern is matched against
+ */
+export type PermissionSubject = Pick<RegisteredTool, 'name' | 'category' | 'readOnly'>;
+
+/**
+ * Policy settings. Patterns are either tool-name globs (`get_*`, `*delete*`) or `<category>:<read|write|*>`
+ * (`contacts:read`, `calendar:*`); a leading `!` denies instead of allows.
+ */
+export interface ToolPolicyOptions {
+  permissions?: string[];
+  /** Patterns granted to the caller's credential, such as an API key's permissions; tools must pass these too */
+  credentialPermissions?: string[];
+  /** Only expose tools that do not change anything in GoHighLevel */
+  readOnly?: boolean;
+}
+
+/**
+ * Thrown when a tool exists but the caller's policy does not allow it
+ */
+export class ToolPermissionError extends Error {
+  constructor(public readonly toolName: string) {
+    super(`Tool "${toolName}" is not permitted for this credential`);
+    this.name = 'ToolPermissionError';
+  }
+}
+
+interface PermissionRule {
+  deny: boolean;
+  matches: (tool: PermissionSubject) => boolean;
+}
+
+/**
+ * The rules of one permission list
+ */
+interface PermissionRuleSet {
+  allow: PermissionRule[];
+  deny: PermissionRule[];
+}
+
+/**
+ * Split a comma or whitespace separated permission list, as used in environment variables
+ */
+export function parsePermissionList(value: string | undefined): string[] {
+  return (value || '').split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * Policy from MCP_TOOL_PERMISSIONS and READ_ONLY=true
+ */
+export function toolPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): ToolPolicyOptions {
+  return {
+    permissions: parsePermissionList(env.MCP_TOOL_PERMISSIONS),
+    readOnly: env.READ_ONLY === 'true'
+  };
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob.split('').map(char => {
+    if (char === '*') return '.*';
+    if (char === '?') return '.';
+    return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  }).join('');
+  return new RegExp(`^${source}$`);
+}
+
+function parseRule(pattern: string): PermissionRule {
+  const deny = pattern.startsWith('!');
+  const body = deny ? pattern.slice(1) : pattern;
+  if (!body) {
+    throw new Error(`Invalid tool permission "${pattern}"`);
+  }
+
+  const separator = body.indexOf(':');
+  if (separator === -1) {
+    const name = globToRegExp(body);
+    return { deny, matches: tool => name.test(tool.name) };
+  }
+
+  const category = globToRegExp(body.slice(0, separator));
+  const access = body.slice(separator + 1);
+  if (!['read', 'write', '*'].includes(access)) {
+    throw new Error(`Invalid tool permission "${pattern}": access must be read, write or *`);
+  }
+  return {
+    deny,
+    matches: tool => category.test(tool.category) &&
+      (access === '*' || (access === 'read') === tool.readOnly)
+  };
+}
+
+/**
+ * Throw if any pattern is malformed
+ */
+export function validatePermissions(patterns: string[]): void {
+  patterns.forEach(parseRule);
+}
+
+function parseRuleSet(patterns: string[]): PermissionRuleSet {
+  const rules = patterns.map(parseRule);
+  return { allow: rules.filter(rule => !rule.deny), deny: rules.filter(rule => rule.deny) };
+}
+
+function ruleSetAllows(rules: PermissionRuleSet, tool: PermissionSubject): boolean {
+  if (rules.allow.length > 0 && !rules.allow.some(rule => rule.matches(tool))) {
+    return false;
+  }
+  return !rules.deny.some(rule => rule.matches(tool));
+}
+
+/**
+ * Tool Policy class
+ * A tool is allowed when, in both permissions and credentialPermissions, it matches an allow pattern (or there are
+ * none) and no deny pattern. Read-only mode removes every mutating tool regardless of the patterns.
+ */
+export class ToolPolicy {
+  private readonly ruleSets: PermissionRuleSet[];
+  private readonly readOnly: boolean;
+
+  constructor(options: ToolPolicyOptions = {}) {
+    this.ruleSets = [options.permissions || [], options.credentialPermissions || []].map(parseRuleSet);
+    this.readOnly = options.readOnly ?? false;
+  }
+
+  allows(tool: PermissionSubject): boolean {
+    if (this.readOnly && !tool.readOnly) {
+      return false;
+    }
+    return this.ruleSets.every(rules => ruleSetAllows(rules, tool));
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * GoHighLevel Tool Registry
+ * Single source of truth for tool definitions and handlers, shared by every MCP transport
+ */
+
+import { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { GHLApiClient, withAbortSignal } from '../clients/ghl-api-client.js';
+import { ContactTools } from './contact-tools.js';
+import { ConversationTools } from './conversation-tools.js';
+import { BlogTools } from './blog-tools.js';
+import { OpportunityTools } from './opportunity-tools.js';
+import { CalendarTools } from './calendar-tools.js';
+import { EmailTools } from './email-tools.js';
+import { LocationTools } from './location-tools.js';
+import { EmailISVTools } from './email-isv-tools.js';
+import { SocialMediaTools } from './social-media-tools.js';
+import { MediaTools } from './media-tools.js';
+import { InactivityTools } from './inactivity-tools.js';
+import { UserTools } from './user-tools.js';
+import { ObjectTools } from './object-tools.js';
+import { AssociationTools } from './association-tools.js';
+import { CustomFieldV2Tools } from './custom-field-v2-tools.js';
+import { WorkflowTools } from './workflow-tools.js';
+import { SurveyTools } from './survey-tools.js';
+import { StoreTools } from './store-tools.js';
+import { ProductsTools } from './products-tools.js';
+import { PaymentsTools } from './payments-tools.js';
+import { InvoicesTools } from './invoices-tools.js';
+import { SearchTools } from './search-tools.js';
+import { JobTools } from './job-tools.js';
+import { JobRunner, getJobRunner } from '../jobs/job-runner.js';
+import { ToolPermissionError, ToolPolicy, ToolPolicyOptions } from './tool-permissions.js';
+import { ToolTextOutput, toToolResult } from './tool-output.js';
+import { InputSchema, validateToolArguments } from './tool-validation.js';
+import { ToolCallContext } from './tool-context.js';
+
+/**
+ * Handler invoked with the raw tool call arguments and the call's progress/cancellation context
+ */
+export type ToolHandler = (args: any, context?: ToolCallContext) => Promise<any>;
+
+/**
+ * A single registered tool
+ */
+export interface RegisteredTool {
+  name: string;
+  category: string;
+  definition: Tool;
+  handler: ToolHandler;
+  /** True if the tool never changes data in GoHighLevel (its readOnlyHint annotation) */
+  readOnly: boolean;
+  /** Overrides MCP_TOOL_TEXT for tools whose clients read the data from the text block */
+  textOutput?: ToolTextOutput;
+  /** True if the tool can run as a background job, resuming from context.checkpoint */
+  job?: boolean;
+}
+
+/**
+ * Settings shared by every tool in a category
+ */
+export interface ToolCategoryOptions {
+  textOutput?: ToolTextOutput;
+  /** Names of the category's tools that can run as background jobs */
+  jobs?: string[];
+}
+
+/**
+ * Implemented by every tool class so it can add its tools to a registry
+ */
+export interface ToolProvider {
+  registerTools(registry: ToolRegistry): void;
+}
+
+/**
+ * Tool Registry class
+ * Holds every tool by name and routes tool calls to their handlers.
+ * The policy decides which tools are listed and may be called; the rest stay registered but hidden.
+ */
+export class ToolRegistry {
+  private tools: Map<string, RegisteredTool> = new Map();
+
+  constructor(private policy: ToolPolicy = new ToolPolicy()) {}
+
+  /**
+   * Register a single tool. Throws if the name is already taken.
+   */
+  register(tool: RegisteredTool): void {
+    const existing = this.tools.get(tool.name);
+    if (existing) {
+      throw new Error(
+        `Duplicate tool name "${tool.name}" (registered by "${existing.category}" and "${tool.category}")`
+      );
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * Register a category of tools from its definitions and a name -> handler map.
+   * Throws if any definition has no handler; handlers without a definition are reported but ignored.
+   */
+  registerCategory(
+    category: string,
+    definitions: Tool[],
+    handlers: Record<string, ToolHandler>,
+    options: ToolCategoryOptions = {}
+  ): void {
+    const missing = definitions
+      .map(definition => definition.name)
+      .filter(name => typeof handlers[name] !== 'function');
+
+    if (missing.length > 0) {
+      throw new Error(`Tool definitions without a handler in "${category}": ${missing.join(', ')}`);
+    }
+
+    const defined = new Set(definitions.map(definition => definition.name));
+    const orphaned = Object.keys(handlers).filter(name => !defined.has(name));
+    if (orphaned.length > 0) {
+      process.stderr.write(`[GHL MCP] Ignoring handlers without a definition in "${category}": ${orphaned.join(', ')}\n`);
+    }
+
+    for (const definition of definitions) {
+      this.register({
+        name: definition.name,
+        category,
+        definition,
+        handler: handlers[definition.name],
+        // Tools without annotations count as mutating, so read-only mode never exposes them by accident
+        readOnly: definition.annotations?.readOnlyHint === true,
+        textOutput: options.textOutput,
+        job: options.jobs?.includes(definition.name) === true
+      });
+    }
+  }
+
+  /**
+   * Check if a tool is registered
+   */
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Get a registered tool by name
+   */
+  get(name: string): RegisteredTool | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * Check if the policy allows a registered tool
+   */
+  isAllowed(name: string): boolean {
+    const tool = this.tools.get(name);
+    return tool !== undefined && this.policy.allows(tool);
+  }
+
+  /**
+   * Get the definitions of the tools the policy allows, in registration order
+   */
+  getDefinitions(): Tool[] {
+    return Array.from(this.tools.values())
+      .filter(tool => this.policy.allows(tool))
+      .map(tool => tool.definition);
+  }
+
+  /**
+   * Names of the registered tools that can run as background jobs, whether or not the policy allows them
+   */
+  getJobToolNames(): string[] {
+    return Array.from(this.tools.values()).filter(tool => tool.job).map(tool => tool.name);
+  }
+
+  /**
+   * Get the number of registered tools per category
+   */
+  getCategoryCounts(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const tool of this.tools.values()) {
+      counts[tool.category] = (counts[tool.category] || 0) + 1;
+    }
+    return counts;
+  }
+
+  /**
+   * Total number of registered tools
+   */
+  get size(): number {
+    return this.tools.size;
+  }
+
+  /**
+   * Check a call without running it. Throws if the tool is unknown, ToolPermissionError if the policy denies it,
+   * or ToolValidationError if the arguments do not match its inputSchema.
+   */
+  checkCall(name: string, args: any): RegisteredTool {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+    if (!this.policy.allows(tool)) {
+      throw new ToolPermissionError(name);
+    }
+    validateToolArguments(name, tool.definition.inputSchema as InputSchema, args || {});
+    return tool;
+  }
+
+  /**
+   * Execute a registered tool. Throws like checkCall, or whatever the handler throws.
+   * Every GHL request the handler makes is aborted when the context's signal fires.
+   */
+  async execute(name: string, args: any, context: ToolCallContext = {}): Promise<any> {
+    const tool = this.checkCall(name, args);
+    return await withAbortSignal(context.signal, () => tool.handler(args || {}, context));
+  }
+
+  /**
+   * Execute a registered tool and build the MCP tool result: structuredContent plus a text block.
+   * Throws like execute.
+   */
+  async call(name: string, args: any, context: ToolCallContext = {}): Promise<CallToolResult> {
+    const result = await this.execute(name, args, context);
+    return toToolResult(result, this.tools.get(name)?.textOutput);
+  }
+}
+
+/**
+ * Create a registry holding every GoHighLevel tool, bound to the given API client and scoped by the policy.
+ * Background jobs started through it are queued on the job runner; with a null runner the job tools are left out,
+ * for callers where nothing may outlive the request.
+ */
+export function createToolRegistry(
+  ghlClient: GHLApiClient,
+  policy: ToolPolicyOptions = {},
+  jobRunner: JobRunner | null = getJobRunner()
+): ToolRegistry {
+  const registry = new ToolRegistry(new ToolPolicy(policy));
+
+  const providers: ToolProvider[] = [
+    new InactivityTools(ghlClient),
+    new UserTools(ghlClient),
+    new ContactTools(ghlClient),
+    new ConversationTools(ghlClient),
+    new BlogTools(ghlClient),
+    new OpportunityTools(ghlClient),
+    new CalendarTools(ghlClient),
+    new EmailTools(ghlClient),
+    new LocationTools(ghlClient),
+    new EmailISVTools(ghlClient),
+    new SocialMediaTools(ghlClient),
+    new MediaTools(ghlClient),
+    new ObjectTools(ghlClient),
+    new AssociationTools(ghlClient),
+    new CustomFieldV2Tools(ghlClient),
+    new WorkflowTools(ghlClient),
+    new SurveyTools(ghlClient),
+    new StoreTools(ghlClient),
+    new ProductsTools(ghlClient),
+    new PaymentsTools(ghlClient),
+    new InvoicesTools(ghlClient),
+    new SearchTools(ghlClient)
+  ];
+  if (jobRunner) {
+    // Last, so start_job sees every job-capable tool
+    providers.push(new JobTools(ghlClient, jobRunner));
+  }
+
+  for (const provider of providers) {
+    provider.registerTools(registry);
+  }
+
+  return registry;
+}
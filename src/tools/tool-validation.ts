@@ -0,0 +1,163 @@
+/**
+ * Tool Argument Validation
+ * Checks tool call arguments against the tool's inputSchema before the handler runs, so bad input
+ * is rejected with every problem listed instead of reaching GoHighLevel and coming back as a bare 422
+ */
+
+import { GHLValidationIssue } from '../types/ghl-types.js';
+
+/**
+ * The JSON Schema keywords used by the tool input schemas
+ */
+export interface InputSchema {
+  type?: string | string[];
+  properties?: Record<string, InputSchema>;
+  required?: string[];
+  additionalProperties?: boolean | InputSchema;
+  items?: InputSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  pattern?: string;
+  format?: string;
+}
+
+/**
+ * Thrown when tool arguments do not match the tool's inputSchema
+ */
+export class ToolValidationError extends Error {
+  constructor(public readonly toolName: string, public readonly issues: GHLValidationIssue[]) {
+    super(`Invalid arguments for tool "${toolName}": ${issues.map(formatIssue).join('; ')}`);
+    this.name = 'ToolValidationError';
+  }
+}
+
+function formatIssue(issue: GHLValidationIssue): string {
+  return issue.field ? `${issue.field} ${issue.message}` : issue.message;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Digits with the separators people write, optionally starting with +; 7 to 15 digits as in E.164
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Checks per format; `date-time` also accepts a plain date, which every GHL endpoint taking one does too
+ */
+const FORMATS: Record<string, { describe: string; test: (value: string) => boolean }> = {
+  email: { describe: 'an email address', test: value => EMAIL_PATTERN.test(value) },
+  phone: {
+    describe: 'a phone number such as +15551234567',
+    test: value => {
+      const digits = value.replace(/\D/g, '').length;
+      return PHONE_PATTERN.test(value) && digits >= 7 && digits <= 15;
+    }
+  },
+  date: { describe: 'a date in YYYY-MM-DD format', test: value => DATE_PATTERN.test(value) && isRealDate(value) },
+  'date-time': {
+    describe: 'an ISO 8601 date or date-time such as 2024-01-15T10:00:00Z',
+    test: value => DATE_TIME_PATTERN.test(value) && isRealDate(value)
+  }
+};
+
+function isRealDate(value: string): boolean {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day && !isNaN(Date.parse(value));
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * List every way the value breaks the schema; an empty list means it is valid.
+ * Keywords the schemas here do not use (oneOf, $ref, ...) are ignored.
+ */
+export function validateAgainstSchema(schema: InputSchema, value: unknown, path = ''): GHLValidationIssue[] {
+  const issues: GHLValidationIssue[] = [];
+  const add = (message: string) => issues.push(path ? { field: path, message } : { message });
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      add(`must be ${types.join(' or ')}, got ${typeOf(value)}`);
+      return issues;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    add(`must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) add(`must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) add(`must be at most ${schema.maximum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) add(`must be at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) add(`must be at most ${schema.maxLength} characters`);
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) add(`must match ${schema.pattern}`);
+    const format = schema.format && FORMATS[schema.format];
+    if (format && !format.test(value)) add(`must be ${format.describe}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) add(`must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) add(`must have at most ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, index) => issues.push(...validateAgainstSchema(schema.items!, item, join(path, index))));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (object[key] === undefined || object[key] === null) {
+        issues.push({ field: join(path, key), message: 'is required' });
+      }
+    }
+    for (const [key, item] of Object.entries(object)) {
+      const property = schema.properties?.[key];
+      if (property) {
+        // Optional fields left empty are common in model output and are dropped by the handlers anyway
+        if (item !== undefined && item !== null) issues.push(...validateAgainstSchema(property, item, join(path, key)));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ field: join(path, key), message: 'is not a known property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateAgainstSchema(schema.additionalProperties, item, join(path, key)));
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate tool arguments, throwing ToolValidationError with every problem found
+ */
+export function validateToolArguments(toolName: string, schema: InputSchema, args: unknown): void {
+  const issues = validateAgainstSchema(schema, args);
+  if (issues.length > 0) {
+    throw new ToolValidationError(toolName, issues);
+  }
+}
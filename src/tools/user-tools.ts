@@ -5,6 +5,9 @@
 
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { toolAnnotations } from './tool-annotations.js';
+import { outputSchema, entityOutput, listOf, number, boolean, USER } from './output-schemas.js';
 import {
     GHLUser,
     GHLUserSearchResponse,
@@ -17,7 +20,7 @@ import {
  * User Tools class
  * Provides comprehensive user management capabilities
  */
-export class UserTools {
+export class UserTools implements ToolProvider {
   constructor(private ghlClient: GHLApiClient) {}
 
   /**
@@ -29,13 +32,15 @@ export class UserTools {
       {
         name: 'create_user',
         description: 'Create a new user in GoHighLevel',
+        annotations: toolAnnotations('Create User', 'create'),
+        outputSchema: entityOutput(USER),
         inputSchema: {
           type: 'object',
           properties: {
             firstName: { type: 'string', description: 'User first name' },
             lastName: { type: 'string', description: 'User last name' },
-            email: { type: 'string', description: 'User email address' },
-            phone: { type: 'string', description: 'User phone number' },
+            email: { type: 'string', format: 'email', description: 'User email address' },
+            phone: { type: 'string', format: 'phone', description: 'User phone number' },
             role: { type: 'string', description: 'User role (admin, manager, agent, etc.)' },
             permissions: {
               type: 'array',
@@ -49,6 +54,8 @@ export class UserTools {
       {
         name: 'search_users',
         description: 'Search for users by email, name, or role',
+        annotations: toolAnnotations('Search Users', 'read'),
+        outputSchema: outputSchema({ users: listOf(USER), total: number, page: number, limit: number }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -65,6 +72,8 @@ export class UserTools {
       {
         name: 'get_user',
         description: 'Get detailed information about a specific user',
+        annotations: toolAnnotations('Get User', 'read'),
+        outputSchema: entityOutput(USER),
         inputSchema: {
           type: 'object',
           properties: {
@@ -76,14 +85,16 @@ export class UserTools {
       {
         name: 'update_user',
         description: 'Update user information including role and permissions',
+        annotations: toolAnnotations('Update User', 'update'),
+        outputSchema: entityOutput(USER),
         inputSchema: {
           type: 'object',
           properties: {
             userId: { type: 'string', description: 'User ID' },
             firstName: { type: 'string', description: 'User first name' },
             lastName: { type: 'string', description: 'User last name' },
-            email: { type: 'string', description: 'User email address' },
-            phone: { type: 'string', description: 'User phone number' },
+            email: { type: 'string', format: 'email', description: 'User email address' },
+            phone: { type: 'string', format: 'phone', description: 'User phone number' },
             role: { type: 'string', description: 'User role' },
             permissions: {
               type: 'array',
@@ -98,6 +109,8 @@ export class UserTools {
       {
         name: 'delete_user',
         description: 'Delete a user from GoHighLevel',
+        annotations: toolAnnotations('Delete User', 'delete'),
+        outputSchema: outputSchema({ success: boolean }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -109,27 +122,37 @@ export class UserTools {
     ];
   }
 
+  /**
+   * Register user tools with the shared tool registry
+   */
+  registerTools(registry: ToolRegistry): void {
+    registry.registerCategory('users', this.getToolDefinitions(), this.getToolHandlers());
+  }
+
+  /**
+   * Map each user tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
+      // Basic User Management
+      create_user: (params) => this.createUser(params as MCPCreateUserParams),
+      search_users: (params) => this.searchUsers(params as MCPSearchUsersParams),
+      get_user: (params) => this.getUser(params.userId),
+      update_user: (params) => this.updateUser(params as MCPUpdateUserParams),
+      delete_user: (params) => this.deleteUser(params.userId)
+    };
+  }
+
   /**
    * Execute a user tool with the given parameters
    */
   async executeTool(toolName: string, params: any): Promise<any> {
     try {
-      switch (toolName) {
-        // Basic User Management
-        case 'create_user':
-          return await this.createUser(params as MCPCreateUserParams);
-        case 'search_users':
-          return await this.searchUsers(params as MCPSearchUsersParams);
-        case 'get_user':
-          return await this.getUser(params.userId);
-        case 'update_user':
-          return await this.updateUser(params as MCPUpdateUserParams);
-        case 'delete_user':
-          return await this.deleteUser(params.userId);
-
-        default:
-          throw new Error(`Unknown tool: ${toolName}`);
+      const handler = this.getToolHandlers()[toolName];
+      if (!handler) {
+        throw new Error(`Unknown tool: ${toolName}`);
       }
+      return await handler(params);
     } catch (error) {
       console.error(`Error executing user tool ${toolName}:`, error);
       throw error;
@@ -1,10 +1,14 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GHLApiClient } from '../clients/ghl-api-client.js';
+import { withErrorContext } from '../clients/ghl-api-error.js';
+import { ToolHandler, ToolProvider, ToolRegistry } from './tool-registry.js';
+import { toolAnnotations } from './tool-annotations.js';
+import { envelopeOutput, listOf, record, WORKFLOW } from './output-schemas.js';
 import { 
   MCPGetWorkflowsParams
 } from '../types/ghl-types.js';
 
-export class WorkflowTools {
+export class WorkflowTools implements ToolProvider {
   constructor(private apiClient: GHLApiClient) {}
 
   getTools(): Tool[] {
@@ -12,6 +16,8 @@ export class WorkflowTools {
       {
         name: 'ghl_get_workflows',
         description: 'Retrieve all workflows for a location. Workflows represent automation sequences that can be triggered by various events in the system.',
+        annotations: toolAnnotations('Get Workflows', 'read'),
+        outputSchema: envelopeOutput({ workflows: listOf(WORKFLOW), metadata: record }),
         inputSchema: {
           type: 'object',
           properties: {
@@ -26,15 +32,29 @@ export class WorkflowTools {
     ];
   }
 
+  /**
+   * Register workflow tools with the shared tool registry
+   */
+  registerTools(registry: ToolRegistry): void {
+    registry.registerCategory('workflows', this.getTools(), this.getToolHandlers());
+  }
+
+  /**
+   * Map each workflow tool name to its handler
+   */
+  private getToolHandlers(): Record<string, ToolHandler> {
+    return {
+      ghl_get_workflows: (params) => this.getWorkflows(params as MCPGetWorkflowsParams)
+    };
+  }
+
   async executeWorkflowTool(name: string, params: any): Promise<any> {
     try {
-      switch (name) {
-        case 'ghl_get_workflows':
-          return await this.getWorkflows(params as MCPGetWorkflowsParams);
-        
-        default:
-          throw new Error(`Unknown workflow tool: ${name}`);
+      const handler = this.getToolHandlers()[name];
+      if (!handler) {
+        throw new Error(`Unknown workflow tool: ${name}`);
       }
+      return await handler(params);
     } catch (error) {
       console.error(`Error executing workflow tool ${name}:`, error);
       throw error;
@@ -70,16 +90,7 @@ export class WorkflowTools {
       };
     } catch (error) {
       console.error('Error getting workflows:', error);
-      throw new Error(`Failed to get workflows: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw withErrorContext('Failed to get workflows', error);
     }
   }
 }
-
-// Helper function to check if a tool name belongs to workflow tools
-export function isWorkflowTool(toolName: string): boolean {
-  const workflowToolNames = [
-    'ghl_get_workflows'
-  ];
-  
-  return workflowToolNames.includes(toolName);
-} 
\ No newline at end of file
@@ -0,0 +1,66 @@
+/**
+ * In-memory event store for the Streamable HTTP transport
+ * Keeps recent outbound messages per stream so clients can resume with Last-Event-ID
+ */
+
+import { randomUUID } from 'node:crypto';
+import { EventId, EventStore, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+interface StoredEvent {
+  streamId: StreamId;
+  message: JSONRPCMessage;
+}
+
+/**
+ * Bounded in-memory EventStore
+ * Oldest events are dropped once maxEvents is reached, so resumption only covers recent history
+ */
+export class InMemoryEventStore implements EventStore {
+  private events: Map<EventId, StoredEvent> = new Map();
+
+  constructor(private maxEvents: number = 1000) {}
+
+  /**
+   * Store an event and return its ID
+   */
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${randomUUID()}`;
+    this.events.set(eventId, { streamId, message });
+
+    // Maps iterate in insertion order, so the first key is always the oldest event
+    while (this.events.size > this.maxEvents) {
+      const oldest = this.events.keys().next().value;
+      if (oldest === undefined) break;
+      this.events.delete(oldest);
+    }
+
+    return eventId;
+  }
+
+  /**
+   * Replay every event stored on the same stream after lastEventId
+   */
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const lastEvent = this.events.get(lastEventId);
+    if (!lastEvent) {
+      return '';
+    }
+
+    let found = false;
+    for (const [eventId, event] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+        continue;
+      }
+      if (found && event.streamId === lastEvent.streamId) {
+        await send(eventId, event.message);
+      }
+    }
+
+    return lastEvent.streamId;
+  }
+}
@@ -9,6 +9,93 @@ export interface GHLConfig {
   baseUrl: string;
   version: string;
   locationId: string;
+  timeout?: number; // Per-request timeout in ms (default: 30000)
+  retry?: Partial<GHLRetryConfig>;
+  throttle?: Partial<GHLThrottleConfig>;
+  cache?: GHLCacheOptions;
+}
+
+// Retry policy for transient API failures (429, 5xx, network errors)
+export interface GHLRetryConfig {
+  maxRetries: number; // Retries after the first attempt (0 disables retrying)
+  baseDelayMs: number; // First backoff step, doubled on every retry
+  maxDelayMs: number; // Cap for backoff; a longer Retry-After fails instead of waiting
+  retryableStatuses: number[];
+  retryNonIdempotent: boolean; // Also retry POST/PATCH on 5xx and timeouts, which may duplicate writes
+}
+
+// Client-side throttling, shared by every client for the same location
+export interface GHLThrottleConfig {
+  burstLimit: number; // Requests allowed per burst window (GHL: 100 per 10 seconds)
+  burstIntervalMs: number; // Length of the burst window
+  maxConcurrent: number; // Requests in flight at once; the rest wait in a FIFO queue
+  dailyReserve: number; // Daily requests a request budget leaves untouched for other work
+}
+
+// Remaining quota for a location, as tracked by the client and corrected by GHL's X-RateLimit-* headers
+export interface GHLRateLimitStatus {
+  locationId: string;
+  burstLimit: number;
+  burstRemaining: number;
+  burstIntervalMs: number;
+  dailyLimit?: number; // Unknown until GHL has answered a request
+  dailyRemaining?: number;
+  inFlight: number;
+  queued: number;
+}
+
+// Limits for the auto-paginating iterators (iterateContacts, iterateInvoices, ...)
+export interface GHLPaginationOptions {
+  pageSize?: number; // Items requested per page (default depends on the endpoint)
+  maxItems?: number; // Stop after yielding this many items
+  maxPages?: number; // Stop after fetching this many pages
+  shouldContinue?: () => boolean; // Checked before each page request, e.g. against a request budget; a failed page ends iteration when it returns false
+}
+
+// Tool options that page through every result instead of returning page 1
+export interface MCPFetchAllParams {
+  fetchAll?: boolean; // Page through all results, up to the server-side cap
+  maxResults?: number; // Page through results until this many are collected
+}
+
+// Limits for a long-running tool; it stops cleanly once either is reached
+export interface GHLRequestBudgetOptions {
+  maxRequests?: number; // Requests this budget may spend
+  dailyReserve?: number; // Stop when the daily quota falls to this many requests (default: throttle.dailyReserve)
+}
+
+// Slow-changing metadata the client caches; each resource has its own TTL and is invalidated by its mutations
+export type GHLCacheResource =
+  | 'pipelines'
+  | 'calendars'
+  | 'customFields'
+  | 'objectSchemas'
+  | 'locationTags'
+  | 'timezones'
+  | 'users';
+
+// Metadata cache, shared by every client in the process that uses the same backend
+export interface GHLCacheConfig {
+  enabled: boolean;
+  backend: 'memory' | 'file';
+  maxEntries: number; // LRU capacity of the memory backend
+  directory: string; // Where the file backend keeps one JSON file per entry
+  ttlMs: Record<GHLCacheResource, number>;
+}
+
+export type GHLCacheOptions = Partial<Omit<GHLCacheConfig, 'ttlMs'>> & {
+  ttlMs?: Partial<Record<GHLCacheResource, number>>;
+};
+
+// Hit/miss counters for one cache, reported by /health
+export interface GHLCacheStats {
+  backend: GHLCacheConfig['backend'];
+  hits: number;
+  misses: number;
+  invalidations: number;
+  errors: number; // Backend reads/writes that failed and fell through to the API
+  hitRate: number;
+  byResource: Partial<Record<GHLCacheResource, { hits: number; misses: number }>>;
 }
 
 // OAuth Token Response
@@ -25,9 +112,33 @@ export interface GHLTokenResponse {
   planId?: string;
 }
 
+// OAuth marketplace app settings, used when the HTTP server runs with GHL_AUTH_MODE=oauth
+export interface GHLOAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scopes: string[];
+  authorizeUrl: string; // Marketplace location chooser the user is sent to
+  baseUrl: string; // API base URL; the token endpoints live under /oauth
+  userType: GHLTokenResponse['userType']; // Token type requested when exchanging the authorization code
+}
+
+// OAuth token as kept by a token store; expiresAt is absolute so the token stays meaningful across restarts
+export interface GHLStoredToken {
+  userType: GHLTokenResponse['userType'];
+  companyId: string;
+  locationId?: string;
+  userId: string;
+  accessToken: string;
+  refreshToken: string;
+  scope: string;
+  expiresAt: number;
+}
+
 // Contact Interfaces - Exact from OpenAPI
 export interface GHLContact {
   id?: string;
+  searchAfter?: [number, string]; // Sort cursor returned by POST /contacts/search
   locationId: string;
   firstName?: string;
   lastName?: string;
@@ -107,6 +218,7 @@ export interface GHLSearchContactsResponse {
   contacts: GHLContact[];
   total: number;
   searchAfter?: [number, string]; // For cursor-based pagination
+  truncated?: boolean; // Set by fetchAll/maxResults when more results were left unfetched
 }
 
 // Create Contact Request
@@ -191,6 +303,7 @@ export interface GHLConversation {
   lastMessageDate?: string;
   dateAdded?: string;
   dateUpdated?: string;
+  sort?: number[]; // Sort value returned by search, passed back as startAfterDate for the next page
 }
 
 // Message Interface
@@ -328,6 +441,14 @@ export interface GHLErrorResponse {
   statusCode: number;
   message: string | string[];
   error?: string;
+  errors?: Record<string, string | string[]> | Array<{ field?: string; property?: string; message?: string }>;
+  traceId?: string;
+}
+
+// Field-level problem reported by a 400/422 response
+export interface GHLValidationIssue {
+  field?: string;
+  message: string;
 }
 
 // Task Interface
@@ -430,7 +551,7 @@ export interface MCPCreateContactParams {
   source?: string;
 }
 
-export interface MCPSearchContactsParams {
+export interface MCPSearchContactsParams extends MCPFetchAllParams {
   query?: string;
   email?: string;
   phone?: string;
@@ -551,6 +672,11 @@ export interface MCPGetDuplicateContactParams {
   phone?: string;
 }
 
+export interface MCPValidatePhoneNumberParams {
+  phone: string;
+  country?: string; // ISO 3166-1 alpha-2; defaults to the location's country
+}
+
 export interface MCPGetContactsByBusinessParams {
   businessId: string;
   limit?: number;
@@ -633,7 +759,7 @@ export interface MCPSendEmailParams {
   emailBcc?: string[];
 }
 
-export interface MCPSearchConversationsParams {
+export interface MCPSearchConversationsParams extends MCPFetchAllParams {
   contactId?: string;
   query?: string;
   status?: 'all' | 'read' | 'unread' | 'starred';
@@ -1045,7 +1171,7 @@ export interface GHLCustomFieldInput {
 }
 
 // MCP Tool Parameters - Opportunity Operations
-export interface MCPSearchOpportunitiesParams {
+export interface MCPSearchOpportunitiesParams extends MCPFetchAllParams {
   query?: string;
   pipelineId?: string;
   pipelineStageId?: string;
@@ -3580,7 +3706,7 @@ export interface GHLSearchObjectRecordsRequest {
   page: number;
   pageLimit: number;
   query: string;
-  searchAfter: string[];
+  searchAfter: (string | number)[];
 }
 
 // Response Types
@@ -3670,7 +3796,7 @@ export interface MCPDeleteObjectRecordParams {
   recordId: string;
 }
 
-export interface MCPSearchObjectRecordsParams {
+export interface MCPSearchObjectRecordsParams extends MCPFetchAllParams {
   schemaKey: string;
   locationId?: string;
   page?: number;
@@ -4125,7 +4251,7 @@ export interface MCPGetSurveysParams {
   type?: string;
 }
 
-export interface MCPGetSurveySubmissionsParams {
+export interface MCPGetSurveySubmissionsParams extends MCPFetchAllParams {
   locationId?: string;
   page?: number;
   limit?: number;
@@ -6775,11 +6901,13 @@ export interface VoidInvoiceResponseDto extends DefaultInvoiceResponseDto {}
 // Inactivity Detection Types
 export interface MCPDetectContactsInactivityParams {
   inactivityDays: number;
+  maxRequests?: number;
 }
 
 export interface MCPDetectOpportunitiesInactivityParams {
   inactivityDays: number;
   pipelineStageId?: string;
+  maxRequests?: number;
 }
 
 export interface GHLInactiveContact extends GHLContact {
@@ -6798,6 +6926,8 @@ export interface GHLDetectContactsInactivityResponse {
   inactiveCount: number;
   errors: string[];
   inactivityThresholdDays: number;
+  stoppedEarly: boolean; // True when the request budget ran out before every record was checked
+  rateLimit: GHLRateLimitStatus;
 }
 
 export interface GHLDetectOpportunitiesInactivityResponse {
@@ -6806,4 +6936,87 @@ export interface GHLDetectOpportunitiesInactivityResponse {
   inactiveCount: number;
   errors: string[];
   inactivityThresholdDays: number;
-}
\ No newline at end of file
+  stoppedEarly: boolean; // True when the request budget ran out before every record was checked
+  rateLimit: GHLRateLimitStatus;
+}
+// =============================================================================
+// SEARCH / FETCH (CHATGPT CONNECTOR) TYPES
+// =============================================================================
+
+// Record types addressable by search results, used as the prefix of typed IDs (e.g. "contact:abc123")
+export type GHLSearchRecordType = 'contact' | 'conversation' | 'opportunity' | 'blog' | 'object';
+
+export interface MCPSearchParams {
+  query: string;
+  limit?: number;
+}
+
+export interface MCPFetchParams {
+  id: string;
+}
+
+export interface GHLSearchResult {
+  id: string;
+  title: string;
+  text: string;
+  url: string;
+}
+
+export interface GHLSearchResponse {
+  results: GHLSearchResult[];
+}
+
+export interface GHLFetchResponse extends GHLSearchResult {
+  metadata?: Record<string, any>;
+}
+
+// =============================================================================
+// WEBHOOK TYPES
+// =============================================================================
+
+// Event families this server turns into resource updates; GHL sends many more event types
+export type GHLWebhookEventType =
+  | 'ContactCreate' | 'ContactUpdate' | 'ContactDelete' | 'ContactTagUpdate' | 'ContactDndUpdate'
+  | 'InboundMessage' | 'OutboundMessage'
+  | 'OpportunityCreate' | 'OpportunityUpdate' | 'OpportunityDelete' | 'OpportunityStageUpdate'
+  | 'OpportunityStatusUpdate' | 'OpportunityMonetaryValueUpdate' | 'OpportunityAssignedToUpdate'
+  | 'AppointmentCreate' | 'AppointmentUpdate' | 'AppointmentDelete';
+
+// Webhook payload as GHL posts it; the id refers to the contact or opportunity for those event families
+export interface GHLWebhookEvent {
+  type: GHLWebhookEventType | string;
+  locationId?: string;
+  id?: string;
+  contactId?: string;
+  conversationId?: string;
+  messageId?: string;
+  pipelineId?: string;
+  pipelineStageId?: string;
+  appointment?: {
+    id?: string;
+    calendarId?: string;
+    contactId?: string;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+// =============================================================================
+// BACKGROUND JOB TYPES
+// =============================================================================
+
+export type MCPJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface MCPStartJobParams {
+  tool: string;
+  arguments?: Record<string, unknown>; // Same arguments as a direct call of the tool
+}
+
+export interface MCPJobParams {
+  jobId: string;
+}
+
+export interface MCPListJobsParams {
+  status?: MCPJobStatus;
+  limit?: number;
+}
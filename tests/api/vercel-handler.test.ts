@@ -0,0 +1,152 @@
+/**
+ * Integration Tests for the Vercel serverless handler
+ * Serves api/index.js on a local port and talks JSON-RPC to it like a stateless MCP client
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+
+const handler = require('../../api/index.js');
+
+describe('Vercel handler', () => {
+  let server: http.Server;
+  let ghl: http.Server;
+  let baseUrl: string;
+  let ghlUrl: string;
+  let ghlRequests: Array<{ method?: string; url?: string; authorization?: string }>;
+
+  const listen = async (target: http.Server): Promise<string> => {
+    await new Promise<void>(resolve => target.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(target.address() as AddressInfo).port}`;
+  };
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(handler);
+    server = http.createServer(app);
+    ghl = http.createServer((req, res) => {
+      ghlRequests.push({ method: req.method, url: req.url, authorization: req.headers.authorization });
+      req.resume();
+      req.on('end', () => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ contact: { id: 'contact_1', firstName: 'Jane' } }));
+      });
+    });
+    baseUrl = await listen(server);
+    ghlUrl = await listen(ghl);
+  });
+
+  afterAll(async () => {
+    for (const target of [server, ghl]) {
+      target.closeAllConnections();
+      await new Promise<void>(resolve => target.close(() => resolve()));
+    }
+  });
+
+  beforeEach(() => {
+    ghlRequests = [];
+  });
+
+  const post = (body: unknown, headers: Record<string, string> = {}) => fetch(`${baseUrl}/mcp`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  });
+
+  const rpc = async (method: string, params: unknown = {}, headers: Record<string, string> = {}) => {
+    const response = await post({ jsonrpc: '2.0', id: 1, method, params }, headers);
+    return await response.json() as any;
+  };
+
+  const credentials = () => ({ Authorization: 'Bearer pit-token', 'X-GHL-Location-Id': 'loc_1', 'X-GHL-Base-URL': ghlUrl });
+
+  it('should negotiate the protocol version on initialize', async () => {
+    const supported = await rpc('initialize', { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '1' } });
+    const unknown = await rpc('initialize', { protocolVersion: '1999-01-01', capabilities: {}, clientInfo: { name: 'test', version: '1' } });
+
+    expect(supported.result).toEqual({
+      protocolVersion: '2024-11-05',
+      capabilities: { tools: {} },
+      serverInfo: { name: 'ghl-mcp-server', version: '1.0.0' }
+    });
+    expect(unknown.result.protocolVersion).toBe('2025-03-26');
+  });
+
+  it('should list the tool definitions without credentials', async () => {
+    const { result } = await rpc('tools/list');
+    const names: string[] = result.tools.map((tool: { name: string }) => tool.name);
+
+    expect(names).toEqual(expect.arrayContaining(['search_contacts', 'get_contact', 'list_invoices']));
+    expect(result.tools.every((tool: { inputSchema?: unknown }) => tool.inputSchema)).toBe(true);
+  });
+
+  it('should require GHL credentials to call a tool', async () => {
+    const { error } = await rpc('tools/call', { name: 'get_contact', arguments: { contactId: 'contact_1' } });
+
+    expect(error).toEqual({
+      code: -32000,
+      message: 'Authorization header with a GHL token is required (location from the token or X-GHL-Location-Id)'
+    });
+    expect(ghlRequests).toHaveLength(0);
+  });
+
+  it('should call GHL with the request\'s credentials', async () => {
+    const { result } = await rpc('tools/call', { name: 'get_contact', arguments: { contactId: 'contact_1' } }, credentials());
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({ id: 'contact_1' });
+    expect(ghlRequests).toEqual([{ method: 'GET', url: '/contacts/contact_1', authorization: 'Bearer pit-token' }]);
+  });
+
+  it('should answer a batch with the responses to its requests', async () => {
+    const response = await post([
+      { jsonrpc: '2.0', id: 1, method: 'ping' },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 2, method: 'unknown/method' }
+    ]);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual([
+      { jsonrpc: '2.0', id: 1, result: {} },
+      { jsonrpc: '2.0', id: 2, error: { code: -32601, message: 'Method not found: unknown/method' } }
+    ]);
+  });
+
+  it('should answer ping with an empty result', async () => {
+    expect(await rpc('ping')).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+  });
+
+  it('should accept notifications without a response body', async () => {
+    const response = await post({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+    expect(response.status).toBe(202);
+    expect(await response.text()).toBe('');
+  });
+
+  it('should reject malformed JSON and GET requests', async () => {
+    const malformed = await post('{"jsonrpc":');
+    const get = await fetch(`${baseUrl}/mcp`, { headers: { Accept: 'text/event-stream' } });
+
+    expect(malformed.status).toBe(400);
+    expect((await malformed.json() as any).error).toEqual({ code: -32700, message: 'Parse error' });
+    expect(get.status).toBe(405);
+    expect(get.headers.get('allow')).toBe('POST, OPTIONS');
+  });
+
+  it('should not offer background job tools', async () => {
+    const { result } = await rpc('tools/list');
+    const names: string[] = result.tools.map((tool: { name: string }) => tool.name);
+
+    expect(names).toContain('search_contacts');
+    expect(names).not.toContain('start_job');
+    expect(names.filter(name => name.endsWith('_job') || name === 'list_jobs')).toEqual([]);
+  });
+
+  it('should reject calls to job tools as unknown', async () => {
+    const { error } = await rpc('tools/call', { name: 'start_job', arguments: { tool: 'bulk_update_contact_tags', arguments: {} } });
+
+    expect(error).toEqual({ code: -32601, message: 'Unknown tool: start_job' });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit Tests for the API key store
+ * Tests issuing, authenticating, rotating and revoking server-issued keys
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { JsonFileApiKeyStore, isServerApiKey } from '../../src/auth/api-key-store.js';
+import { hashToken } from '../../src/sessions/session-manager.js';
+
+describe('JsonFileApiKeyStore', () => {
+  let directory: string;
+  let filePath: string;
+  let store: JsonFileApiKeyStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ghl-api-key-store-test-'));
+    filePath = path.join(directory, 'api-keys.json');
+    store = new JsonFileApiKeyStore(filePath, 'passphrase');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should issue a key that resolves to its location, permissions and GHL token', async () => {
+    const { key, apiKey } = await store.create({
+      name: 'Support bot',
+      locationId: 'location_1',
+      ghlToken: 'pit-secret-token',
+      permissions: ['contacts:read']
+    });
+
+    expect(isServerApiKey(key)).toBe(true);
+    expect(apiKey).toMatchObject({ name: 'Support bot', locationId: 'location_1', credentialType: 'token', permissions: ['contacts:read'] });
+
+    const authenticated = await new JsonFileApiKeyStore(filePath, 'passphrase').authenticate(key);
+    expect(authenticated?.apiKey.id).toBe(apiKey.id);
+    expect(authenticated?.ghlToken).toBe('pit-secret-token');
+  });
+
+  it('should keep only key hashes and encrypted GHL tokens on disk', async () => {
+    const { key } = await store.create({ name: 'Bot', locationId: 'location_1', ghlToken: 'pit-secret-token' });
+
+    const contents = await fs.readFile(filePath, 'utf8');
+
+    expect(contents).not.toContain(key);
+    expect(contents).not.toContain('pit-secret-token');
+    expect(contents).toContain(hashToken(key));
+    expect((await fs.stat(filePath)).mode & 0o777).toBe(0o600);
+  });
+
+  it('should default to all permissions and OAuth credentials', async () => {
+    const { key, apiKey } = await store.create({ name: 'Agency', locationId: 'location_1' });
+
+    expect(apiKey.permissions).toEqual(['*']);
+    expect(apiKey.credentialType).toBe('oauth');
+    expect((await store.authenticate(key))?.ghlToken).toBeUndefined();
+  });
+
+  it('should reject unknown keys', async () => {
+    await store.create({ name: 'Bot', locationId: 'location_1', ghlToken: 'token' });
+
+    expect(await store.authenticate('ghlmcp_not-a-real-key')).toBeUndefined();
+  });
+
+  it('should replace the secret on rotate and keep the credential', async () => {
+    const { key, apiKey } = await store.create({ name: 'Bot', locationId: 'location_1', ghlToken: 'token' });
+
+    const rotated = await store.rotate(apiKey.id);
+
+    expect(rotated?.retiredKeyHash).toBe(hashToken(key));
+    expect(rotated?.key).not.toBe(key);
+    expect(await store.authenticate(key)).toBeUndefined();
+    expect((await store.authenticate(rotated!.key))?.ghlToken).toBe('token');
+  });
+
+  it('should stop authenticating revoked keys and refuse to rotate them', async () => {
+    const { key, apiKey } = await store.create({ name: 'Bot', locationId: 'location_1', ghlToken: 'token' });
+
+    const revoked = await store.revoke(apiKey.id);
+
+    expect(revoked?.apiKey.revokedAt).toBeDefined();
+    expect(await store.authenticate(key)).toBeUndefined();
+    expect(await store.rotate(apiKey.id)).toBeUndefined();
+    expect(await store.revoke(apiKey.id)).toBeUndefined();
+    expect((await new JsonFileApiKeyStore(filePath, 'passphrase').list())[0].revokedAt).toBeDefined();
+  });
+
+  it('should not leak hashes or credentials in listings', async () => {
+    await store.create({ name: 'Bot', locationId: 'location_1', ghlToken: 'token' });
+
+    const [listed] = await store.list();
+
+    expect(listed).not.toHaveProperty('keyHash');
+    expect(listed).not.toHaveProperty('credential');
+  });
+
+  it('should keep every key when several are issued at once', async () => {
+    await Promise.all([1, 2, 3].map(n => store.create({ name: `Bot ${n}`, locationId: 'location_1', ghlToken: 'token' })));
+
+    expect(await new JsonFileApiKeyStore(filePath, 'passphrase').list()).toHaveLength(3);
+  });
+});
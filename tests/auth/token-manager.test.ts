@@ -0,0 +1,227 @@
+/**
+ * Unit Tests for the OAuth token manager and client
+ * Covers install callbacks, refresh-token rotation, company-to-location exchange and the /oauth requests
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { GHLOAuthClient } from '../../src/auth/oauth-client.js';
+import { MemoryTokenStore } from '../../src/auth/token-store.js';
+import { OAuthError, OAuthTokenManager } from '../../src/auth/token-manager.js';
+import { GHLAuthError } from '../../src/clients/ghl-api-error.js';
+import { GHLOAuthConfig, GHLStoredToken, GHLTokenResponse } from '../../src/types/ghl-types.js';
+
+const HOUR = 60 * 60 * 1000;
+
+const tokenResponse = (overrides: Partial<GHLTokenResponse> = {}): GHLTokenResponse => ({
+  access_token: 'access_1',
+  token_type: 'Bearer',
+  expires_in: 86399,
+  refresh_token: 'refresh_1',
+  scope: 'contacts.readonly',
+  userType: 'Location',
+  locationId: 'location_1',
+  companyId: 'company_1',
+  userId: 'user_1',
+  ...overrides
+});
+
+const storedToken = (overrides: Partial<GHLStoredToken> = {}): GHLStoredToken => ({
+  userType: 'Location',
+  companyId: 'company_1',
+  locationId: 'location_1',
+  userId: 'user_1',
+  accessToken: 'access_1',
+  refreshToken: 'refresh_1',
+  scope: 'contacts.readonly',
+  expiresAt: 0,
+  ...overrides
+});
+
+describe('OAuthTokenManager', () => {
+  let now: number;
+  let store: MemoryTokenStore;
+  let oauthClient: {
+    getAuthorizeUrl: jest.Mock<(state: string) => string>;
+    exchangeCode: jest.Mock<(code: string) => Promise<GHLTokenResponse>>;
+    refreshToken: jest.Mock<(refreshToken: string, userType: string) => Promise<GHLTokenResponse>>;
+    getLocationToken: jest.Mock<(token: string, companyId: string, locationId: string) => Promise<GHLTokenResponse>>;
+  };
+  let manager: OAuthTokenManager;
+
+  beforeEach(() => {
+    now = 1700000000000;
+    store = new MemoryTokenStore();
+    oauthClient = {
+      getAuthorizeUrl: jest.fn((state: string) => `https://marketplace.example/choose?state=${state}`),
+      exchangeCode: jest.fn(async () => tokenResponse()),
+      refreshToken: jest.fn(async () => tokenResponse({ access_token: 'access_2', refresh_token: 'refresh_2' })),
+      getLocationToken: jest.fn(async (_token: string, _companyId: string, locationId: string) => tokenResponse({ access_token: 'location_access', locationId }))
+    };
+    manager = new OAuthTokenManager(oauthClient as unknown as GHLOAuthClient, store, { now: () => now });
+  });
+
+  const stateOf = (url: string) => new URL(url).searchParams.get('state') as string;
+
+  it('should store tokens from a callback with a valid state', async () => {
+    const state = stateOf(manager.createAuthorizationUrl());
+
+    const token = await manager.handleCallback('code_1', state);
+
+    expect(oauthClient.exchangeCode).toHaveBeenCalledWith('code_1');
+    expect(token.expiresAt).toBe(now + 86399 * 1000);
+    expect(await store.get('Location', 'location_1')).toEqual(token);
+  });
+
+  it('should reject unknown, reused and expired states', async () => {
+    await expect(manager.handleCallback('code_1', 'forged')).rejects.toBeInstanceOf(OAuthError);
+
+    const state = stateOf(manager.createAuthorizationUrl());
+    await manager.handleCallback('code_1', state);
+    await expect(manager.handleCallback('code_1', state)).rejects.toBeInstanceOf(OAuthError);
+
+    const expired = stateOf(manager.createAuthorizationUrl());
+    now += HOUR;
+    await expect(manager.handleCallback('code_1', expired)).rejects.toBeInstanceOf(OAuthError);
+  });
+
+  it('should return a stored token that is not close to expiry', async () => {
+    await store.save(storedToken({ expiresAt: now + HOUR }));
+
+    expect((await manager.getLocationToken('location_1')).accessToken).toBe('access_1');
+    expect(oauthClient.refreshToken).not.toHaveBeenCalled();
+  });
+
+  it('should refresh a token about to expire and store the rotated refresh token', async () => {
+    await store.save(storedToken({ expiresAt: now + 60 * 1000 }));
+
+    const token = await manager.getLocationToken('location_1');
+
+    expect(oauthClient.refreshToken).toHaveBeenCalledWith('refresh_1', 'Location');
+    expect(token.accessToken).toBe('access_2');
+    expect((await store.get('Location', 'location_1'))?.refreshToken).toBe('refresh_2');
+  });
+
+  it('should refresh only once for concurrent callers', async () => {
+    await store.save(storedToken({ expiresAt: now }));
+
+    const tokens = await Promise.all([manager.getLocationToken('location_1'), manager.getLocationToken('location_1')]);
+
+    expect(oauthClient.refreshToken).toHaveBeenCalledTimes(1);
+    expect(tokens.map(token => token.accessToken)).toEqual(['access_2', 'access_2']);
+  });
+
+  it('should exchange a company token for a location it has no token for', async () => {
+    await store.save(storedToken({ userType: 'Company', locationId: undefined, accessToken: 'company_access', expiresAt: now + HOUR }));
+
+    const token = await manager.getLocationToken('location_9');
+
+    expect(oauthClient.getLocationToken).toHaveBeenCalledWith('company_access', 'company_1', 'location_9');
+    expect(token.accessToken).toBe('location_access');
+    expect((await store.get('Location', 'location_9'))?.accessToken).toBe('location_access');
+  });
+
+  it('should fail for a location without any installation', async () => {
+    await expect(manager.getLocationToken('location_9')).rejects.toThrow('No OAuth installation found for location location_9');
+  });
+
+  it('should swap a refreshed token into the client before the old one expires', async () => {
+    jest.useFakeTimers();
+    try {
+      now = Date.now();
+      await store.save(storedToken({ expiresAt: now + 10 * 60 * 1000 }));
+      const fakeNowManager = new OAuthTokenManager(oauthClient as unknown as GHLOAuthClient, store, { refreshMarginMs: 5 * 60 * 1000 });
+
+      const { client, stopRefresh } = await fakeNowManager.createClient('location_1', { baseUrl: 'http://127.0.0.1:1', version: '2021-07-28' });
+      expect(client.getConfig().accessToken).toBe('access_1');
+
+      await jest.advanceTimersByTimeAsync(5 * 60 * 1000 + 1);
+      stopRefresh();
+
+      expect(oauthClient.refreshToken).toHaveBeenCalledTimes(1);
+      expect(client.getConfig().accessToken).toBe('access_2');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('GHLOAuthClient', () => {
+  let server: http.Server;
+  let config: GHLOAuthConfig;
+  let requests: Array<{ path: string; headers: http.IncomingHttpHeaders; body: URLSearchParams }>;
+  let status: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        requests.push({ path: req.url || '', headers: req.headers, body: new URLSearchParams(body) });
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(status === 200 ? tokenResponse() : { message: 'Invalid grant' }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    config = {
+      clientId: 'client_id',
+      clientSecret: 'client_secret',
+      redirectUri: 'https://mcp.example/oauth/callback',
+      scopes: ['contacts.readonly', 'contacts.write'],
+      authorizeUrl: 'https://marketplace.example/oauth/chooselocation',
+      baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      userType: 'Location'
+    };
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    status = 200;
+  });
+
+  it('should build the marketplace authorize URL', () => {
+    const url = new URL(new GHLOAuthClient(config).getAuthorizeUrl('state_1'));
+
+    expect(url.origin + url.pathname).toBe('https://marketplace.example/oauth/chooselocation');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      response_type: 'code',
+      client_id: 'client_id',
+      redirect_uri: 'https://mcp.example/oauth/callback',
+      scope: 'contacts.readonly contacts.write',
+      state: 'state_1'
+    });
+  });
+
+  it('should post the refresh grant as a form', async () => {
+    await new GHLOAuthClient(config).refreshToken('refresh_1', 'Location');
+
+    expect(requests[0].path).toBe('/oauth/token');
+    expect(requests[0].headers['content-type']).toBe('application/x-www-form-urlencoded');
+    expect(Object.fromEntries(requests[0].body)).toEqual({
+      client_id: 'client_id',
+      client_secret: 'client_secret',
+      grant_type: 'refresh_token',
+      refresh_token: 'refresh_1',
+      user_type: 'Location'
+    });
+  });
+
+  it('should request a location token with the company token', async () => {
+    await new GHLOAuthClient(config).getLocationToken('company_access', 'company_1', 'location_1');
+
+    expect(requests[0].path).toBe('/oauth/locationToken');
+    expect(requests[0].headers.authorization).toBe('Bearer company_access');
+    expect(Object.fromEntries(requests[0].body)).toEqual({ companyId: 'company_1', locationId: 'location_1' });
+  });
+
+  it('should throw typed GHL errors', async () => {
+    status = 401;
+
+    await expect(new GHLOAuthClient(config).exchangeCode('bad')).rejects.toBeInstanceOf(GHLAuthError);
+  });
+});
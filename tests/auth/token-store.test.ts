@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for OAuth token stores
+ * Tests encrypted on-disk storage of location and company tokens
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { EncryptedFileTokenStore, MemoryTokenStore } from '../../src/auth/token-store.js';
+import { GHLStoredToken } from '../../src/types/ghl-types.js';
+
+const locationToken: GHLStoredToken = {
+  userType: 'Location',
+  companyId: 'company_1',
+  locationId: 'location_1',
+  userId: 'user_1',
+  accessToken: 'secret-access-token',
+  refreshToken: 'secret-refresh-token',
+  scope: 'contacts.readonly',
+  expiresAt: 1700000000000
+};
+
+const companyToken: GHLStoredToken = {
+  ...locationToken,
+  userType: 'Company',
+  locationId: undefined,
+  accessToken: 'company-access-token'
+};
+
+describe('EncryptedFileTokenStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ghl-token-store-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should read back saved tokens by owner', async () => {
+    const store = new EncryptedFileTokenStore(directory, 'passphrase');
+    await store.save(locationToken);
+    await store.save(companyToken);
+
+    expect(await new EncryptedFileTokenStore(directory, 'passphrase').get('Location', 'location_1')).toEqual(locationToken);
+    expect((await store.get('Company', 'company_1'))?.accessToken).toBe('company-access-token');
+    expect(await store.get('Location', 'location_2')).toBeUndefined();
+  });
+
+  it('should never write tokens to disk in plain text', async () => {
+    await new EncryptedFileTokenStore(directory, 'passphrase').save(locationToken);
+
+    const [name] = await fs.readdir(directory);
+    const contents = await fs.readFile(path.join(directory, name), 'utf8');
+
+    expect(contents).not.toContain('secret-access-token');
+    expect(contents).not.toContain('secret-refresh-token');
+  });
+
+  it('should replace the previous token for the same owner', async () => {
+    const store = new EncryptedFileTokenStore(directory, 'passphrase');
+    await store.save(locationToken);
+    await store.save({ ...locationToken, refreshToken: 'rotated' });
+
+    expect((await store.get('Location', 'location_1'))?.refreshToken).toBe('rotated');
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it('should fail to read tokens with a different secret', async () => {
+    await new EncryptedFileTokenStore(directory, 'passphrase').save(locationToken);
+
+    await expect(new EncryptedFileTokenStore(directory, 'other').get('Location', 'location_1')).rejects.toThrow();
+    expect(await new EncryptedFileTokenStore(directory, 'other').list()).toEqual([]);
+  });
+
+  it('should reject a token file copied to another owner', async () => {
+    const store = new EncryptedFileTokenStore(directory, 'passphrase');
+    await store.save(locationToken);
+    await store.save({ ...locationToken, locationId: 'location_2', accessToken: 'other' });
+    const names = await fs.readdir(directory);
+    const victim = (await Promise.all(names.map(async name => ({ name, owner: JSON.parse(await fs.readFile(path.join(directory, name), 'utf8')).owner }))))
+      .find(entry => entry.owner === 'location:location_2')!;
+    const source = names.find(name => name !== victim.name)!;
+
+    // Keep the victim's owner label but swap in the other location's ciphertext
+    const copied = { ...JSON.parse(await fs.readFile(path.join(directory, source), 'utf8')), owner: 'location:location_2' };
+    await fs.writeFile(path.join(directory, victim.name), JSON.stringify(copied));
+
+    await expect(store.get('Location', 'location_2')).rejects.toThrow();
+  });
+
+  it('should delete tokens and list what remains', async () => {
+    const store = new EncryptedFileTokenStore(directory, 'passphrase');
+    await store.save(locationToken);
+    await store.save(companyToken);
+
+    await store.delete('Location', 'location_1');
+
+    expect(await store.list()).toEqual([companyToken]);
+  });
+});
+
+describe('MemoryTokenStore', () => {
+  it('should return copies so callers cannot mutate stored tokens', async () => {
+    const store = new MemoryTokenStore();
+    await store.save(locationToken);
+
+    const token = await store.get('Location', 'location_1');
+    token!.accessToken = 'changed';
+
+    expect((await store.get('Location', 'location_1'))?.accessToken).toBe('secret-access-token');
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Integration Tests for GHL API Client iterators
+ * Runs the auto-paginating iterators against a local fake HTTP server for each pagination style
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { GHLApiClient } from '../../src/clients/ghl-api-client.js';
+import { collect } from '../../src/clients/paginator.js';
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: any;
+}
+
+describe('GHLApiClient iterators', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+
+  // 25 contacts, each carrying its searchAfter cursor as GHL does
+  const contacts = Array.from({ length: 25 }, (_, index) => ({
+    id: `contact_${index}`,
+    locationId: 'test_location_123',
+    searchAfter: [1000 + index, `contact_${index}`]
+  }));
+
+  const invoices = Array.from({ length: 7 }, (_, index) => ({ _id: `inv_${index}` }));
+  const submissions = Array.from({ length: 5 }, (_, index) => ({ id: `sub_${index}` }));
+  const opportunities = Array.from({ length: 4 }, (_, index) => ({ id: `opp_${index}` }));
+  const posts = Array.from({ length: 5 }, (_, index) => ({ _id: `post_${index}` }));
+
+  const route = (request: RecordedRequest): any => {
+    if (request.path === '/contacts/search') {
+      const { pageLimit, searchAfter } = request.body;
+      const start = searchAfter ? contacts.findIndex(contact => contact.id === searchAfter[1]) + 1 : 0;
+      return { contacts: contacts.slice(start, start + pageLimit), total: contacts.length };
+    }
+    if (request.path === '/invoices/') {
+      const offset = Number(request.query.get('offset'));
+      const limit = Number(request.query.get('limit'));
+      return { invoices: invoices.slice(offset, offset + limit), total: invoices.length };
+    }
+    if (request.path.endsWith('/surveys/submissions')) {
+      const page = Number(request.query.get('page'));
+      const limit = Number(request.query.get('limit'));
+      const lastPage = Math.ceil(submissions.length / limit);
+      return {
+        submissions: submissions.slice((page - 1) * limit, page * limit),
+        meta: { total: submissions.length, currentPage: page, nextPage: page < lastPage ? page + 1 : null, prevPage: null }
+      };
+    }
+    if (request.path === '/opportunities/search') {
+      const page = Number(request.query.get('page'));
+      const limit = Number(request.query.get('limit'));
+      const lastPage = Math.ceil(opportunities.length / limit);
+      return {
+        opportunities: opportunities.slice((page - 1) * limit, page * limit),
+        meta: { total: opportunities.length, currentPage: page, nextPage: page < lastPage ? page + 1 : null }
+      };
+    }
+    if (request.path === '/blogs/posts/all') {
+      const offset = Number(request.query.get('offset'));
+      const limit = Number(request.query.get('limit'));
+      return { blogs: posts.slice(offset, offset + limit) };
+    }
+    return {};
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const request = { method: req.method || '', path: url.pathname, query: url.searchParams, body: body ? JSON.parse(body) : undefined };
+        requests.push(request);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(route(request)));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  const createClient = () => new GHLApiClient({
+    accessToken: 'test_token',
+    baseUrl,
+    version: '2021-07-28',
+    locationId: 'test_location_123'
+  });
+
+  it('should page contacts with the searchAfter cursor of the last contact', async () => {
+    const result = await collect(createClient().iterateContacts({ query: 'john' }, { pageSize: 10 }));
+
+    expect(result.items.map(contact => contact.id)).toEqual(contacts.map(contact => contact.id));
+    expect(requests).toHaveLength(3);
+    expect(requests[0].body.searchAfter).toBeUndefined();
+    expect(requests[1].body.searchAfter).toEqual([1009, 'contact_9']);
+    expect(requests.every(request => request.body.query === 'john')).toBe(true);
+  });
+
+  it('should stop fetching contacts at maxItems', async () => {
+    const result = await collect(createClient().iterateContacts({}, { pageSize: 10, maxItems: 12 }));
+
+    expect(result.items).toHaveLength(12);
+    expect(result.truncated).toBe(true);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should page invoices by offset until the total is reached', async () => {
+    const result = await collect(createClient().iterateInvoices({ status: 'paid' }, { pageSize: 3 }));
+
+    expect(result.items).toHaveLength(7);
+    expect(requests.map(request => request.query.get('offset'))).toEqual(['0', '3', '6']);
+    expect(requests[0].query.get('status')).toBe('paid');
+  });
+
+  it('should page survey submissions by page number', async () => {
+    const result = await collect(createClient().iterateSurveySubmissions({ surveyId: 'survey_1' }, { pageSize: 2 }));
+
+    expect(result.items.map(submission => submission.id)).toEqual(['sub_0', 'sub_1', 'sub_2', 'sub_3', 'sub_4']);
+    expect(requests.map(request => request.query.get('page'))).toEqual(['1', '2', '3']);
+  });
+
+  it('should page opportunities until a short page', async () => {
+    const result = await collect(createClient().iterateOpportunities({ status: 'open' }, { pageSize: 3 }));
+
+    expect(result.items).toHaveLength(4);
+    expect(requests.map(request => request.query.get('page'))).toEqual(['1', '2']);
+  });
+
+  it('should page blog posts by offset until a short page', async () => {
+    const result = await collect(createClient().iterateBlogPosts('blog_1', {}, { pageSize: 2 }));
+
+    expect(result.items.map(post => post._id)).toEqual(posts.map(post => post._id));
+    expect(requests.map(request => request.query.get('offset'))).toEqual(['0', '2', '4']);
+    expect(requests[0].query.get('blogId')).toBe('blog_1');
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Integration Tests for GHL API Client retries
+ * Runs the real axios client against a local fake HTTP server
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { GHLApiClient, withAbortSignal } from '../../src/clients/ghl-api-client.js';
+import { GHLNotFoundError, GHLRequestCancelledError } from '../../src/clients/ghl-api-error.js';
+import { GHLRetryConfig } from '../../src/types/ghl-types.js';
+
+interface FakeResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: any;
+  destroy?: boolean;
+  delayMs?: number;
+}
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  at: number;
+}
+
+describe('GHLApiClient retries', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let responses: FakeResponse[];
+  let requests: RecordedRequest[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push({ method: req.method || '', url: req.url || '', headers: req.headers, at: Date.now() });
+      req.resume();
+      req.on('end', () => {
+        const next = responses.shift() || { status: 200, body: {} };
+        if (next.destroy) {
+          req.socket.destroy();
+          return;
+        }
+        setTimeout(() => {
+          if (res.destroyed) return;
+          res.writeHead(next.status, { 'Content-Type': 'application/json', ...next.headers });
+          res.end(JSON.stringify(next.body ?? {}));
+        }, next.delayMs ?? 0);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    responses = [];
+    requests = [];
+  });
+
+  const createClient = (retry: Partial<GHLRetryConfig> = {}) => new GHLApiClient({
+    accessToken: 'test_token',
+    baseUrl,
+    version: '2021-07-28',
+    locationId: 'test_location_123',
+    timeout: 2000,
+    retry: { baseDelayMs: 1, maxDelayMs: 1000, ...retry }
+  });
+
+  const contact = { contact: { id: 'contact_123', locationId: 'test_location_123' } };
+
+  it('should retry a GET after 502 and return the eventual success', async () => {
+    responses = [{ status: 502 }, { status: 503 }, { status: 200, body: contact }];
+
+    const result = await createClient().getContact('contact_123');
+
+    expect(result.success).toBe(true);
+    expect(result.data?.id).toBe('contact_123');
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should give up after maxRetries and surface the last error', async () => {
+    responses = [{ status: 500 }, { status: 500 }, { status: 500 }];
+
+    await expect(createClient({ maxRetries: 2 }).getContact('contact_123')).rejects.toThrow('(500)');
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should not retry client errors', async () => {
+    responses = [{ status: 404, body: { message: 'Contact not found' } }];
+
+    const request = createClient().getContact('missing');
+
+    await expect(request).rejects.toThrow('GHL API Error (404): Contact not found');
+    await expect(request).rejects.toBeInstanceOf(GHLNotFoundError);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should not retry when maxRetries is 0', async () => {
+    responses = [{ status: 503 }];
+
+    await expect(createClient({ maxRetries: 0 }).getContact('contact_123')).rejects.toThrow('(503)');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should wait for Retry-After on 429', async () => {
+    responses = [{ status: 429, headers: { 'Retry-After': '0.2' } }, { status: 200, body: contact }];
+
+    await createClient().getContact('contact_123');
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1].at - requests[0].at).toBeGreaterThanOrEqual(180);
+  });
+
+  it('should wait for the rate-limit window when the burst limit is exhausted', async () => {
+    responses = [
+      { status: 429, headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Interval-Milliseconds': '200' } },
+      { status: 200, body: contact }
+    ];
+
+    await createClient().getContact('contact_123');
+
+    expect(requests[1].at - requests[0].at).toBeGreaterThanOrEqual(180);
+  });
+
+  it('should not retry when the daily rate limit is exhausted', async () => {
+    responses = [{ status: 429, headers: { 'X-RateLimit-Daily-Remaining': '0' } }];
+
+    await expect(createClient().getContact('contact_123')).rejects.toThrow('(429)');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should fail instead of waiting longer than maxDelayMs', async () => {
+    responses = [{ status: 429, headers: { 'Retry-After': '120' } }];
+
+    await expect(createClient().getContact('contact_123')).rejects.toThrow('(429)');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should retry a POST rejected with 429, since it was never processed', async () => {
+    responses = [{ status: 429, headers: { 'Retry-After': '0' } }, { status: 201, body: contact }];
+
+    const result = await createClient().createContact({ locationId: 'test_location_123', firstName: 'John' });
+
+    expect(result.success).toBe(true);
+    expect(requests.map(request => request.method)).toEqual(['POST', 'POST']);
+  });
+
+  it('should not retry a POST that failed with 5xx, since it may have been processed', async () => {
+    responses = [{ status: 502 }, { status: 201, body: contact }];
+
+    await expect(createClient().createContact({ locationId: 'test_location_123', firstName: 'John' })).rejects.toThrow('(502)');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should retry a POST on 5xx when retryNonIdempotent is enabled', async () => {
+    responses = [{ status: 502 }, { status: 201, body: contact }];
+
+    const result = await createClient({ retryNonIdempotent: true }).createContact({ locationId: 'test_location_123', firstName: 'John' });
+
+    expect(result.success).toBe(true);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should retry a GET when the connection is reset', async () => {
+    responses = [{ status: 0, destroy: true }, { status: 200, body: contact }];
+
+    const result = await createClient().getContact('contact_123');
+
+    expect(result.success).toBe(true);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should abort a request in flight when the signal fires, without retrying', async () => {
+    responses = [{ status: 200, body: contact, delayMs: 1000 }];
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    const error = await withAbortSignal(controller.signal, () => createClient().getContact('contact_123')).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(GHLRequestCancelledError);
+    expect(error.message).toBe('GHL API request cancelled: GET /contacts/contact_123');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should stop waiting for a retry when the signal fires', async () => {
+    responses = [{ status: 503, headers: { 'Retry-After': '5' } }, { status: 200, body: contact }];
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 100);
+
+    const error = await withAbortSignal(controller.signal, () => createClient({ maxDelayMs: 10000 }).getContact('contact_123'))
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(GHLRequestCancelledError);
+    expect(error.message).toBe('GHL API request cancelled: GET /contacts/contact_123');
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should not send requests once the signal has fired', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(withAbortSignal(controller.signal, () => createClient().getContact('contact_123')))
+      .rejects.toBeInstanceOf(GHLRequestCancelledError);
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Unit Tests for GHL API errors
+ * Tests classification of failed requests into typed GHLApiError subclasses
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { AxiosError, AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import {
+  GHLApiError,
+  GHLAuthError,
+  GHLConflictError,
+  GHLNetworkError,
+  GHLNotFoundError,
+  GHLRateLimitError,
+  GHLServerError,
+  GHLValidationError,
+  createGHLApiError,
+  withErrorContext
+} from '../../src/clients/ghl-api-error.js';
+
+const request = { method: 'get', url: '/contacts/contact_123', headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+
+const httpError = (status: number, data: any = {}, headers: Record<string, string> = {}) =>
+  new AxiosError('Request failed', 'ERR_BAD_RESPONSE', request, {}, {
+    status,
+    statusText: '',
+    data,
+    headers,
+    config: request
+  });
+
+describe('createGHLApiError', () => {
+  it.each([
+    [401, GHLAuthError, 'auth'],
+    [403, GHLAuthError, 'auth'],
+    [404, GHLNotFoundError, 'not_found'],
+    [400, GHLValidationError, 'validation'],
+    [422, GHLValidationError, 'validation'],
+    [409, GHLConflictError, 'conflict'],
+    [429, GHLRateLimitError, 'rate_limit'],
+    [500, GHLServerError, 'server'],
+    [503, GHLServerError, 'server']
+  ])('should map status %i to its error class', (status, ErrorClass, type) => {
+    const error = createGHLApiError(httpError(status, { message: 'boom' }));
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(GHLApiError);
+    expect(error.type).toBe(type);
+    expect(error.status).toBe(status);
+    expect(error.message).toBe(`GHL API Error (${status}): boom`);
+  });
+
+  it('should fall back to the base class for other statuses', () => {
+    const error = createGHLApiError(httpError(418));
+
+    expect(error.constructor).toBe(GHLApiError);
+    expect(error.type).toBe('api');
+  });
+
+  it('should record the endpoint and request ID', () => {
+    const error = createGHLApiError(httpError(404, { message: 'Contact not found' }, { 'x-request-id': 'req_1' }));
+
+    expect(error.endpoint).toBe('GET /contacts/contact_123');
+    expect(error.requestId).toBe('req_1');
+  });
+
+  it('should use the traceId from the body when there is no request ID header', () => {
+    const error = createGHLApiError(httpError(500, { message: 'boom', traceId: 'trace_1' }));
+
+    expect(error.requestId).toBe('trace_1');
+  });
+
+  it('should extract field-level validation messages', () => {
+    const error = createGHLApiError(httpError(422, {
+      statusCode: 422,
+      message: ['email must be an email', 'phone should not be empty']
+    }));
+
+    expect(error.message).toBe('GHL API Error (422): email must be an email, phone should not be empty');
+    expect(error.validationErrors).toEqual([
+      { field: 'email', message: 'email must be an email' },
+      { field: 'phone', message: 'phone should not be empty' }
+    ]);
+  });
+
+  it('should read validation messages from an errors map', () => {
+    const error = createGHLApiError(httpError(400, {
+      message: 'Bad Request',
+      errors: { startTime: ['startTime is required'] }
+    }));
+
+    expect(error.validationErrors).toEqual([{ field: 'startTime', message: 'startTime is required' }]);
+  });
+
+  it('should carry the server-requested wait on rate-limit errors', () => {
+    const error = createGHLApiError(httpError(429, {}, { 'retry-after': '2', 'x-ratelimit-daily-remaining': '0' }));
+
+    expect(error.retryAfterMs).toBe(2000);
+    expect(error.dailyLimitExhausted).toBe(true);
+  });
+
+  it('should classify requests without a response as network errors', () => {
+    const error = createGHLApiError(new AxiosError('connect ECONNREFUSED 127.0.0.1:1', 'ECONNREFUSED', request));
+
+    expect(error).toBeInstanceOf(GHLNetworkError);
+    expect(error.status).toBe(0);
+    expect(error.code).toBe('ECONNREFUSED');
+  });
+});
+
+describe('withErrorContext', () => {
+  it('should prefix the message and keep the error class and details', () => {
+    const original = createGHLApiError(httpError(404, { message: 'Contact not found' }, { 'x-request-id': 'req_1' }));
+
+    const wrapped = withErrorContext('Failed to get contact', original);
+
+    expect(wrapped).toBeInstanceOf(GHLNotFoundError);
+    expect(wrapped.message).toBe('Failed to get contact: GHL API Error (404): Contact not found');
+    expect((wrapped as GHLNotFoundError).requestId).toBe('req_1');
+  });
+
+  it('should wrap other errors in a plain Error', () => {
+    const wrapped = withErrorContext('Failed to get contact', 'socket hang up');
+
+    expect(wrapped).not.toBeInstanceOf(GHLApiError);
+    expect(wrapped.message).toBe('Failed to get contact: socket hang up');
+  });
+});
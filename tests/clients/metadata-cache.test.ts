@@ -0,0 +1,239 @@
+/**
+ * Unit Tests for the GHL metadata cache
+ * Covers the LRU and file backends, TTLs, invalidation and caching in GHLApiClient
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'node:fs';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  CacheBackend,
+  CacheLookup,
+  DEFAULT_CACHE_CONFIG,
+  FileCacheBackend,
+  LRUCacheBackend,
+  MetadataCache,
+  resolveCacheConfig
+} from '../../src/clients/metadata-cache.js';
+import { GHLApiClient } from '../../src/clients/ghl-api-client.js';
+
+const lookup = (overrides: Partial<CacheLookup> = {}): CacheLookup => ({
+  resource: 'pipelines',
+  locationId: 'loc_1',
+  endpoint: '/opportunities/pipelines',
+  params: { locationId: 'loc_1' },
+  scope: 'token_a',
+  ...overrides
+});
+
+describe('LRUCacheBackend', () => {
+  it('should evict the least recently used entry', async () => {
+    const backend = new LRUCacheBackend(2);
+    await backend.set({ key: 'a', value: 1, expiresAt: Infinity });
+    await backend.set({ key: 'b', value: 2, expiresAt: Infinity });
+    await backend.get('a');
+    await backend.set({ key: 'c', value: 3, expiresAt: Infinity });
+
+    expect(await backend.get('a')).toBeDefined();
+    expect(await backend.get('b')).toBeUndefined();
+    expect(backend.size).toBe(2);
+  });
+});
+
+describe('FileCacheBackend', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ghl-cache-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should store entries that survive a new backend instance', async () => {
+    await new FileCacheBackend(directory).set({ key: 'loc_1|pipelines|x', value: { pipelines: [] }, expiresAt: 123 });
+
+    const entry = await new FileCacheBackend(directory).get('loc_1|pipelines|x');
+
+    expect(entry).toEqual({ key: 'loc_1|pipelines|x', value: { pipelines: [] }, expiresAt: 123 });
+  });
+
+  it('should delete entries by key prefix', async () => {
+    const backend = new FileCacheBackend(directory);
+    await backend.set({ key: 'loc_1|locationTags|a', value: 1, expiresAt: Infinity });
+    await backend.set({ key: 'loc_1|pipelines|a', value: 2, expiresAt: Infinity });
+
+    expect(await backend.deleteByPrefix('loc_1|locationTags|')).toBe(1);
+    expect(await backend.get('loc_1|locationTags|a')).toBeUndefined();
+    expect(await backend.get('loc_1|pipelines|a')).toBeDefined();
+  });
+
+  it('should treat a missing directory as empty', async () => {
+    const backend = new FileCacheBackend(path.join(directory, 'missing'));
+
+    expect(await backend.get('anything')).toBeUndefined();
+    expect(await backend.deleteByPrefix('loc_1|')).toBe(0);
+  });
+});
+
+describe('MetadataCache', () => {
+  let now: number;
+  let cache: MetadataCache;
+  let fetches: number;
+  const fetch = async () => {
+    fetches += 1;
+    return { fetch: fetches };
+  };
+
+  beforeEach(() => {
+    now = 1000;
+    fetches = 0;
+    cache = new MetadataCache(new LRUCacheBackend(100), DEFAULT_CACHE_CONFIG, () => now);
+  });
+
+  it('should serve repeated lookups from the cache', async () => {
+    await cache.getOrFetch(lookup(), fetch);
+    const second = await cache.getOrFetch(lookup(), fetch);
+
+    expect(second).toEqual({ fetch: 1 });
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, hitRate: 0.5, byResource: { pipelines: { hits: 1, misses: 1 } } });
+  });
+
+  it('should treat params with different key order as the same request', async () => {
+    await cache.getOrFetch(lookup({ params: { a: 1, b: 2 } }), fetch);
+    await cache.getOrFetch(lookup({ params: { b: 2, a: 1 } }), fetch);
+
+    expect(fetches).toBe(1);
+  });
+
+  it('should refetch once the resource TTL has passed', async () => {
+    await cache.getOrFetch(lookup(), fetch);
+    now += DEFAULT_CACHE_CONFIG.ttlMs.pipelines;
+
+    expect(await cache.getOrFetch(lookup(), fetch)).toEqual({ fetch: 2 });
+  });
+
+  it('should keep entries for different credentials apart', async () => {
+    await cache.getOrFetch(lookup({ scope: 'token_a' }), fetch);
+    await cache.getOrFetch(lookup({ scope: 'token_b' }), fetch);
+
+    expect(fetches).toBe(2);
+  });
+
+  it('should invalidate only the given resources of the location', async () => {
+    await cache.getOrFetch(lookup({ resource: 'locationTags', endpoint: '/locations/loc_1/tags' }), fetch);
+    await cache.getOrFetch(lookup({ resource: 'locationTags', endpoint: '/locations/loc_2/tags', locationId: 'loc_2' }), fetch);
+    await cache.getOrFetch(lookup(), fetch);
+
+    await cache.invalidate('loc_1', ['locationTags']);
+    await cache.getOrFetch(lookup({ resource: 'locationTags', endpoint: '/locations/loc_1/tags' }), fetch);
+    await cache.getOrFetch(lookup({ resource: 'locationTags', endpoint: '/locations/loc_2/tags', locationId: 'loc_2' }), fetch);
+    await cache.getOrFetch(lookup(), fetch);
+
+    expect(fetches).toBe(4);
+    expect(cache.getStats().invalidations).toBe(1);
+  });
+
+  it('should fall through to the API when the backend fails', async () => {
+    const failing: CacheBackend = {
+      get: async () => { throw new Error('disk full'); },
+      set: async () => { throw new Error('disk full'); },
+      delete: async () => undefined,
+      deleteByPrefix: async () => 0,
+      clear: async () => undefined
+    };
+    const broken = new MetadataCache(failing, DEFAULT_CACHE_CONFIG);
+
+    expect(await broken.getOrFetch(lookup(), fetch)).toEqual({ fetch: 1 });
+    expect(broken.getStats().errors).toBe(2);
+  });
+});
+
+describe('resolveCacheConfig', () => {
+  it('should merge TTL overrides over the defaults', () => {
+    const config = resolveCacheConfig({ ttlMs: { users: 1000 } });
+
+    expect(config.ttlMs.users).toBe(1000);
+    expect(config.ttlMs.timezones).toBe(DEFAULT_CACHE_CONFIG.ttlMs.timezones);
+  });
+});
+
+describe('GHLApiClient metadata caching', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: string[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(`${req.method} ${req.url}`);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(req.url?.includes('/tags') ? { tags: [], tag: { id: 't1', name: 'vip' } } : { pipelines: [] }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  const createClient = (locationId: string, accessToken = 'test_token') => new GHLApiClient({
+    accessToken,
+    baseUrl,
+    version: '2021-07-28',
+    locationId
+  });
+
+  it('should fetch pipelines once across clients for the same location and token', async () => {
+    await createClient('cache_pipelines').getPipelines();
+    const result = await createClient('cache_pipelines').getPipelines();
+
+    expect(result).toEqual({ success: true, data: { pipelines: [] } });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should not share entries between access tokens', async () => {
+    await createClient('cache_tokens', 'token_a').getPipelines();
+    await createClient('cache_tokens', 'token_b').getPipelines();
+
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should refetch location tags after a tag is created', async () => {
+    const client = createClient('cache_tags');
+
+    await client.getLocationTags('cache_tags');
+    await client.createLocationTag('cache_tags', { name: 'vip' });
+    await client.getLocationTags('cache_tags');
+
+    expect(requests).toEqual([
+      'GET /locations/cache_tags/tags',
+      'POST /locations/cache_tags/tags',
+      'GET /locations/cache_tags/tags'
+    ]);
+  });
+
+  it('should bypass the cache when disabled', async () => {
+    const client = new GHLApiClient({
+      accessToken: 'test_token',
+      baseUrl,
+      version: '2021-07-28',
+      locationId: 'cache_disabled',
+      cache: { enabled: false }
+    });
+
+    await client.getPipelines();
+    await client.getPipelines();
+
+    expect(requests).toHaveLength(2);
+    expect(client.getCacheStats()).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit Tests for the GHL paginator
+ * Tests lazy page fetching, limits and loop protection
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { FETCH_ALL_MAX_RESULTS, Page, collect, getFetchAllLimit, paginate } from '../../src/clients/paginator.js';
+
+// Ten numbered items served in pages, with the offset of the next page as cursor
+const offsetPages = (total = 10) => jest.fn(async (cursor: number | undefined, pageSize: number): Promise<Page<number, number>> => {
+  const offset = cursor ?? 0;
+  const items = Array.from({ length: Math.max(0, Math.min(pageSize, total - offset)) }, (_, index) => offset + index);
+  return { items, next: offset + items.length < total ? offset + items.length : undefined };
+});
+
+describe('paginate', () => {
+  it('should yield every item across pages', async () => {
+    const fetchPage = offsetPages();
+
+    const result = await collect(paginate(fetchPage, { pageSize: 4 }));
+
+    expect(result.items).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(result).toMatchObject({ pages: 3, count: 10, truncated: false });
+    expect(fetchPage.mock.calls.map(call => call[0])).toEqual([undefined, 4, 8]);
+  });
+
+  it('should stop at maxItems and report truncation', async () => {
+    const result = await collect(paginate(offsetPages(), { pageSize: 4, maxItems: 6 }));
+
+    expect(result.items).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('should not report truncation when maxItems matches the last item', async () => {
+    const result = await collect(paginate(offsetPages(), { pageSize: 5, maxItems: 10 }));
+
+    expect(result).toMatchObject({ count: 10, truncated: false });
+  });
+
+  it('should stop at maxPages', async () => {
+    const fetchPage = offsetPages();
+
+    const result = await collect(paginate(fetchPage, { pageSize: 3, maxPages: 2 }));
+
+    expect(result.items).toHaveLength(6);
+    expect(result.truncated).toBe(true);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fetch pages lazily', async () => {
+    const fetchPage = offsetPages();
+    const iterator = paginate(fetchPage, { pageSize: 4 });
+
+    for await (const item of iterator) {
+      if (item === 1) break;
+    }
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop when the endpoint keeps returning the same cursor', async () => {
+    const fetchPage = jest.fn(async () => ({ items: ['a'], next: 'same' }));
+
+    const result = await collect(paginate<string, string>(fetchPage, { pageSize: 1 }));
+
+    expect(result.items).toEqual(['a', 'a']);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop when shouldContinue returns false', async () => {
+    const fetchPage = offsetPages();
+    let allowed = 2;
+
+    const result = await collect(paginate(fetchPage, { pageSize: 3, shouldContinue: () => allowed-- > 0 }));
+
+    expect(result.items).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('should end with the items so far when a page fails after shouldContinue turned false', async () => {
+    let cancelled = false;
+    const fetchPage = async (cursor: number | undefined): Promise<Page<number, number>> => {
+      if (cursor) {
+        cancelled = true;
+        throw new Error('aborted');
+      }
+      return { items: [0, 1, 2], next: 3 };
+    };
+    const counts: number[] = [];
+
+    const result = await collect(paginate(fetchPage, { pageSize: 3, shouldContinue: () => !cancelled }), count => counts.push(count));
+
+    expect(result).toMatchObject({ items: [0, 1, 2], truncated: true });
+    expect(counts).toEqual([1, 2, 3]);
+  });
+
+  it('should rethrow page failures while shouldContinue allows more pages', async () => {
+    const fetchPage = async (): Promise<Page<number, number>> => {
+      throw new Error('boom');
+    };
+
+    await expect(collect(paginate(fetchPage, { pageSize: 3, shouldContinue: () => true }))).rejects.toThrow('boom');
+  });
+});
+
+describe('getFetchAllLimit', () => {
+  it('should return undefined for a single-page request', () => {
+    expect(getFetchAllLimit({})).toBeUndefined();
+  });
+
+  it('should cap fetchAll and maxResults', () => {
+    expect(getFetchAllLimit({ fetchAll: true })).toBe(FETCH_ALL_MAX_RESULTS);
+    expect(getFetchAllLimit({ maxResults: 250 })).toBe(250);
+    expect(getFetchAllLimit({ maxResults: 1000000 })).toBe(FETCH_ALL_MAX_RESULTS);
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Unit Tests for the GHL API rate limiter
+ * Covers the per-location token bucket, request budgets and their use by GHLApiClient
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { LocationRateLimiter, RequestBudget, ReleaseSlot } from '../../src/clients/rate-limiter.js';
+import { GHLApiClient } from '../../src/clients/ghl-api-client.js';
+import { GHLRateLimitStatus, GHLThrottleConfig } from '../../src/types/ghl-types.js';
+
+const createLimiter = (config: Partial<GHLThrottleConfig> = {}, now?: () => number) => new LocationRateLimiter('loc_1', {
+  burstLimit: 100,
+  burstIntervalMs: 10000,
+  maxConcurrent: 10,
+  dailyReserve: 1000,
+  ...config
+}, now);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('LocationRateLimiter', () => {
+  it('should hand out slots immediately while tokens remain', async () => {
+    const limiter = createLimiter({ burstLimit: 3 });
+
+    await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+
+    expect(limiter.getStatus()).toMatchObject({ burstRemaining: 0, inFlight: 3, queued: 0 });
+  });
+
+  it('should queue requests beyond the burst limit until tokens refill', async () => {
+    const limiter = createLimiter({ burstLimit: 2, burstIntervalMs: 200 });
+    const started = Date.now();
+
+    const releases = await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(80);
+    releases.forEach(release => release());
+  });
+
+  it('should cap concurrency and serve waiters in arrival order', async () => {
+    const limiter = createLimiter({ maxConcurrent: 1 });
+    const order: number[] = [];
+
+    const first = await limiter.acquire();
+    const waiters = [1, 2].map(index => limiter.acquire().then(release => {
+      order.push(index);
+      release();
+    }));
+
+    expect(limiter.getStatus()).toMatchObject({ inFlight: 1, queued: 2 });
+    first();
+    await Promise.all(waiters);
+
+    expect(order).toEqual([1, 2]);
+    expect(limiter.getStatus().inFlight).toBe(0);
+  });
+
+  it('should ignore a slot being released twice', async () => {
+    const limiter = createLimiter();
+
+    const release: ReleaseSlot = await limiter.acquire();
+    release();
+    release();
+
+    expect(limiter.getStatus().inFlight).toBe(0);
+  });
+
+  it('should refill tokens over time up to the burst limit', async () => {
+    let now = 0;
+    const limiter = createLimiter({ burstLimit: 10, burstIntervalMs: 1000 }, () => now);
+
+    await Promise.all(Array.from({ length: 10 }, () => limiter.acquire()));
+    now = 500;
+    expect(limiter.getStatus().burstRemaining).toBe(5);
+
+    now = 5000;
+    expect(limiter.getStatus().burstRemaining).toBe(10);
+  });
+
+  it('should take limits and remaining quota from GHL headers', () => {
+    const limiter = createLimiter();
+
+    limiter.updateFromHeaders({
+      'x-ratelimit-max': '50',
+      'x-ratelimit-remaining': '7',
+      'x-ratelimit-interval-milliseconds': '5000',
+      'x-ratelimit-limit-daily': '200000',
+      'x-ratelimit-daily-remaining': '1234'
+    });
+
+    expect(limiter.getStatus()).toMatchObject({
+      burstLimit: 50,
+      burstRemaining: 7,
+      burstIntervalMs: 5000,
+      dailyLimit: 200000,
+      dailyRemaining: 1234
+    });
+  });
+
+  it('should never raise its own estimate from headers', async () => {
+    const limiter = createLimiter({ burstLimit: 5 });
+    await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+
+    limiter.updateFromHeaders({ 'x-ratelimit-remaining': '99' });
+
+    expect(limiter.getStatus().burstRemaining).toBe(2);
+  });
+});
+
+describe('RequestBudget', () => {
+  let count: number;
+  let status: Partial<GHLRateLimitStatus>;
+
+  const createBudget = (maxRequests?: number, dailyReserve = 100) => new RequestBudget(
+    () => count,
+    () => status as GHLRateLimitStatus,
+    { maxRequests, dailyReserve }
+  );
+
+  it('should only count requests made after it was created', () => {
+    count = 10;
+    status = {};
+    const budget = createBudget(5);
+
+    count = 14;
+    expect(budget.spent).toBe(4);
+    expect(budget.exhaustedReason()).toBeNull();
+
+    count = 15;
+    expect(budget.exhaustedReason()).toContain('Request budget of 5 requests used');
+  });
+
+  it('should stop when the daily quota reaches the reserve', () => {
+    count = 0;
+    status = { dailyRemaining: 101 };
+    const budget = createBudget();
+
+    expect(budget.exhaustedReason()).toBeNull();
+
+    status = { dailyRemaining: 100 };
+    expect(budget.exhaustedReason()).toContain('Daily API quota is down to 100 requests');
+  });
+
+  it('should allow unlimited requests while the daily quota is unknown', () => {
+    count = 0;
+    status = {};
+    const budget = createBudget();
+
+    count = 100000;
+    expect(budget.exhaustedReason()).toBeNull();
+  });
+});
+
+describe('GHLApiClient throttling', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let active = 0;
+  let peak = 0;
+  let dailyRemaining = 5000;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      active += 1;
+      peak = Math.max(peak, active);
+      req.resume();
+      setTimeout(() => {
+        active -= 1;
+        dailyRemaining -= 1;
+        res.writeHead(200, {
+          'Content-Type': 'application/json',
+          'X-RateLimit-Limit-Daily': '200000',
+          'X-RateLimit-Daily-Remaining': String(dailyRemaining)
+        });
+        res.end(JSON.stringify({ contact: { id: 'contact_123' } }));
+      }, 20);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  const createClient = (locationId: string, throttle: Partial<GHLThrottleConfig> = {}) => new GHLApiClient({
+    accessToken: 'test_token',
+    baseUrl,
+    version: '2021-07-28',
+    locationId,
+    timeout: 2000,
+    throttle
+  });
+
+  it('should share the concurrency cap between clients for the same location', async () => {
+    peak = 0;
+    const first = createClient('throttle_shared', { maxConcurrent: 2 });
+    const second = createClient('throttle_shared');
+
+    await Promise.all([
+      first.getContact('a'), first.getContact('b'), first.getContact('c'),
+      second.getContact('d'), second.getContact('e')
+    ]);
+
+    expect(peak).toBeLessThanOrEqual(2);
+    expect(second.getRateLimitStatus().inFlight).toBe(0);
+  });
+
+  it('should report the daily quota GHL returned', async () => {
+    const client = createClient('throttle_quota');
+
+    await client.getContact('a');
+
+    expect(client.getRateLimitStatus()).toMatchObject({
+      locationId: 'throttle_quota',
+      dailyLimit: 200000,
+      dailyRemaining
+    });
+  });
+
+  it('should exhaust a request budget after maxRequests calls', async () => {
+    const client = createClient('throttle_budget');
+    await client.getContact('before');
+
+    const budget = client.createRequestBudget({ maxRequests: 2 });
+    await client.getContact('a');
+    expect(budget.exhaustedReason()).toBeNull();
+    await client.getContact('b');
+
+    expect(budget.spent).toBe(2);
+    expect(budget.exhaustedReason()).not.toBeNull();
+  });
+
+  it('should release the slot when a request fails', async () => {
+    const client = new GHLApiClient({
+      accessToken: 'test_token',
+      baseUrl: 'http://127.0.0.1:1',
+      version: '2021-07-28',
+      locationId: 'throttle_failure',
+      retry: { maxRetries: 0 }
+    });
+
+    await expect(client.getContact('a')).rejects.toThrow();
+    await sleep(0);
+
+    expect(client.getRateLimitStatus().inFlight).toBe(0);
+  });
+});
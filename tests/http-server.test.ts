@@ -0,0 +1,310 @@
+/**
+ * Integration Tests for the HTTP server
+ * Serves the Express app on a local port and talks to it like an MCP client that authenticates with an API key
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { promises as fs } from 'node:fs';
+import { generateKeyPairSync } from 'node:crypto';
+import os from 'node:os';
+import path from 'node:path';
+import { GHLMCPHttpServer } from '../src/http-server.js';
+
+const ADMIN_TOKEN = 'admin-token';
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 0,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test-client', version: '1.0.0' } }
+};
+
+describe('GHLMCPHttpServer', () => {
+  const savedEnv = process.env;
+  const servers: http.Server[] = [];
+  let dir: string;
+  let baseUrl: string;
+  // Requests that reached the fake GHL API that GHL_BASE_URL points at
+  let ghlRequests: Array<{ method?: string; url?: string; authorization?: string }>;
+
+  // Serve a new instance, configured from process.env plus the overrides
+  const serve = async (env: NodeJS.ProcessEnv = {}): Promise<string> => {
+    const baseEnv = process.env;
+    process.env = { ...baseEnv, ...env };
+    const server = http.createServer(new GHLMCPHttpServer().getApp());
+    process.env = baseEnv;
+    servers.push(server);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ghl-http-server-'));
+    ghlRequests = [];
+    const ghl = http.createServer((req, res) => {
+      ghlRequests.push({ method: req.method, url: req.url, authorization: req.headers.authorization });
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ invoices: [], orders: [], total: 0 }));
+    });
+    servers.push(ghl);
+    await new Promise<void>(resolve => ghl.listen(0, '127.0.0.1', resolve));
+
+    process.env = {
+      ...savedEnv,
+      MCP_ADMIN_TOKEN: ADMIN_TOKEN,
+      GHL_TOKEN_ENCRYPTION_KEY: 'passphrase',
+      GHL_API_KEY_STORE: path.join(dir, 'api-keys.json'),
+      GHL_JOB_STORE: path.join(dir, 'jobs.json'),
+      MCP_TOOL_PERMISSIONS: '!*delete*',
+      GHL_BASE_URL: `http://127.0.0.1:${(ghl.address() as AddressInfo).port}`
+    };
+    baseUrl = await serve();
+  });
+
+  afterAll(async () => {
+    for (const server of servers) {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+    process.env = savedEnv;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const issueApiKey = async (permissions?: string[], url = baseUrl): Promise<string> => {
+    const response = await fetch(`${url}/admin/api-keys`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${ADMIN_TOKEN}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Test key', locationId: 'loc_1', ghlToken: 'pit-token', permissions })
+    });
+    return (await response.json() as { key: string }).key;
+  };
+
+  // POST a JSON-RPC message to /mcp; responses arrive as a single SSE event
+  const post = async (apiKey: string, message: unknown, sessionId?: string, url = baseUrl) => {
+    const response = await fetch(`${url}/mcp`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...(sessionId && { 'Mcp-Session-Id': sessionId })
+      },
+      body: JSON.stringify(message)
+    });
+    const text = await response.text();
+    const data = text.split('\n').find(line => line.startsWith('data: '));
+    return { response, body: data ? JSON.parse(data.slice('data: '.length)) : text && JSON.parse(text) };
+  };
+
+  const openSession = async (apiKey: string, url = baseUrl): Promise<string> => {
+    const { response } = await post(apiKey, INITIALIZE, undefined, url);
+    const sessionId = response.headers.get('mcp-session-id')!;
+    await post(apiKey, { jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId, url);
+    return sessionId;
+  };
+
+  const listToolNames = async (apiKey: string, sessionId: string): Promise<string[]> => {
+    const { body } = await post(apiKey, { jsonrpc: '2.0', id: 1, method: 'tools/list' }, sessionId);
+    return body.result.tools.map((tool: { name: string }) => tool.name);
+  };
+
+  describe('Streamable HTTP sessions', () => {
+    const deleteSession = (apiKey: string, sessionId: string) => fetch(`${baseUrl}/mcp`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${apiKey}`, 'Mcp-Session-Id': sessionId }
+    });
+
+    // Read SSE events from an open stream until count have arrived
+    const readEvents = async (response: Response, count: number) => {
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      const events: Array<{ id?: string; message: any }> = [];
+      let buffered = '';
+      while (events.length < count) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        let end: number;
+        while ((end = buffered.indexOf('\n\n')) >= 0) {
+          const lines = buffered.slice(0, end).split('\n');
+          buffered = buffered.slice(end + 2);
+          const field = (name: string) => lines.find(line => line.startsWith(`${name}: `))?.slice(name.length + 2);
+          const data = field('data');
+          if (data) events.push({ id: field('id'), message: JSON.parse(data) });
+        }
+      }
+      return events;
+    };
+
+    it('should create a session on initialize and reuse it by Mcp-Session-Id', async () => {
+      const apiKey = await issueApiKey();
+
+      const { response, body } = await post(apiKey, INITIALIZE);
+      const sessionId = response.headers.get('mcp-session-id');
+      expect(response.status).toBe(200);
+      expect(body.result.serverInfo).toBeDefined();
+      expect(sessionId).toBeTruthy();
+
+      await post(apiKey, { jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId!);
+      expect(await listToolNames(apiKey, sessionId!)).toContain('get_contact');
+    });
+
+    it('should only start a session with initialize', async () => {
+      const apiKey = await issueApiKey();
+
+      const { response, body } = await post(apiKey, { jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+      expect(response.status).toBe(400);
+      expect(body.error).toEqual({ code: -32000, message: 'Bad Request: No valid session ID provided' });
+    });
+
+    it('should reject a session used with another authorization token', async () => {
+      const owner = await issueApiKey();
+      const other = await issueApiKey();
+      const sessionId = await openSession(owner);
+
+      const { response, body } = await post(other, { jsonrpc: '2.0', id: 1, method: 'tools/list' }, sessionId);
+      expect(response.status).toBe(403);
+      expect(body.error).toEqual({ code: -32001, message: 'Session does not belong to this authorization token' });
+
+      expect((await deleteSession(other, sessionId)).status).toBe(403);
+      expect(await listToolNames(owner, sessionId)).toContain('get_contact');
+    });
+
+    it('should close the session on DELETE', async () => {
+      const apiKey = await issueApiKey();
+      const sessionId = await openSession(apiKey);
+
+      expect((await deleteSession(apiKey, sessionId)).status).toBe(200);
+
+      const { response, body } = await post(apiKey, { jsonrpc: '2.0', id: 1, method: 'tools/list' }, sessionId);
+      expect(response.status).toBe(404);
+      expect(body.error).toEqual({ code: -32001, message: 'Session not found' });
+    });
+
+    it('should replay the events after Last-Event-ID when a client reconnects', async () => {
+      const url = await serve({ GHL_WEBHOOK_ALLOW_UNSIGNED: 'true' });
+      const apiKey = await issueApiKey(undefined, url);
+      const sessionId = await openSession(apiKey, url);
+      await post(apiKey, { jsonrpc: '2.0', id: 1, method: 'resources/subscribe', params: { uri: 'ghl://contacts/contact_1' } }, sessionId, url);
+      const openStream = (headers: Record<string, string> = {}) => {
+        const controller = new AbortController();
+        const response = fetch(`${url}/mcp`, {
+          headers: { Authorization: `Bearer ${apiKey}`, Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId, ...headers },
+          signal: controller.signal
+        });
+        return { response, close: () => controller.abort() };
+      };
+      const contactUpdated = () => fetch(`${url}/webhooks/ghl`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'ContactUpdate', locationId: 'loc_1', id: 'contact_1' })
+      });
+
+      const stream = openStream();
+      const streamResponse = await stream.response;
+      await contactUpdated();
+      await contactUpdated();
+      const [first, second] = await readEvents(streamResponse, 2);
+      stream.close();
+
+      expect(first.message).toEqual({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'ghl://contacts/contact_1' } });
+      expect(first.id).toBeTruthy();
+
+      const resumed = openStream({ 'Last-Event-ID': first.id! });
+      const resumedResponse = await resumed.response;
+      const replayed = await readEvents(resumedResponse, 1);
+      resumed.close();
+
+      expect(resumedResponse.status).toBe(200);
+      expect(replayed).toEqual([second]);
+    });
+  });
+
+  describe('Payments and invoices', () => {
+    it('should list the payments and invoices tools in every session', async () => {
+      const apiKey = await issueApiKey();
+      const names = await listToolNames(apiKey, await openSession(apiKey));
+
+      expect(names).toEqual(expect.arrayContaining(['list_orders', 'list_transactions', 'list_invoices', 'create_invoice']));
+    });
+
+    it('should route calls to GHL with the session\'s credentials', async () => {
+      const apiKey = await issueApiKey();
+      const sessionId = await openSession(apiKey);
+      ghlRequests = [];
+
+      const call = (name: string, args: Record<string, unknown>) =>
+        post(apiKey, { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name, arguments: args } }, sessionId);
+      const invoices = await call('list_invoices', { limit: '10', offset: '0' });
+      const orders = await call('list_orders', { altId: 'loc_1', altType: 'location' });
+
+      expect(invoices.body.result.structuredContent).toMatchObject({ success: true, data: { invoices: [], total: 0 } });
+      expect(orders.body.result.structuredContent).toMatchObject({ success: true, data: { orders: [] } });
+      expect(ghlRequests.map(request => `${request.method} ${request.url?.split('?')[0]}`)).toEqual([
+        'GET /invoices/',
+        'GET /payments/orders'
+      ]);
+      expect(ghlRequests.every(request => request.authorization === 'Bearer pit-token')).toBe(true);
+    });
+  });
+
+  describe('API key permissions', () => {
+    it('should keep tools denied by MCP_TOOL_PERMISSIONS from a key with default permissions', async () => {
+      const apiKey = await issueApiKey();
+      const sessionId = await openSession(apiKey);
+
+      const names = await listToolNames(apiKey, sessionId);
+      expect(names).toContain('get_contact');
+      expect(names).not.toContain('delete_contact');
+
+      const { body } = await post(apiKey, {
+        jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'delete_contact', arguments: { contactId: 'contact_1' } }
+      }, sessionId);
+      expect(body.error.code).toBe(-32010);
+    });
+
+    it('should narrow the server policy to the key\'s permissions', async () => {
+      const apiKey = await issueApiKey(['contacts:*']);
+      const names = await listToolNames(apiKey, await openSession(apiKey));
+
+      expect(names).toContain('create_contact');
+      expect(names).not.toContain('delete_contact');
+      expect(names).not.toContain('get_calendars');
+    });
+  });
+
+  describe('GHL webhooks', () => {
+    const contactUpdate = { type: 'ContactUpdate', locationId: 'loc_1', id: 'contact_1' };
+    const postWebhook = (url: string) => fetch(`${url}/webhooks/ghl`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(contactUpdate)
+    });
+
+    it('should refuse webhooks when no public key is configured', async () => {
+      const response = await postWebhook(baseUrl);
+
+      expect(response.status).toBe(503);
+      expect(await response.json()).toEqual({ error: 'Webhook signature verification is not configured (set GHL_WEBHOOK_PUBLIC_KEY)' });
+    });
+
+    it('should accept unsigned webhooks only when explicitly allowed', async () => {
+      const response = await postWebhook(await serve({ GHL_WEBHOOK_ALLOW_UNSIGNED: 'true' }));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ received: true, notified: 0 });
+    });
+
+    it('should reject unsigned webhooks when a public key is configured', async () => {
+      const { publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const url = await serve({
+        GHL_WEBHOOK_PUBLIC_KEY: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+        GHL_WEBHOOK_ALLOW_UNSIGNED: 'true'
+      });
+
+      expect((await postWebhook(url)).status).toBe(401);
+    });
+  });
+});
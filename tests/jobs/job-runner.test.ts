@@ -0,0 +1,233 @@
+/**
+ * Integration Tests for background jobs
+ * Runs job tools through a real API client against a local fake HTTP server, with the job queue in a temp directory
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { GHLApiClient } from '../../src/clients/ghl-api-client.js';
+import { createToolRegistry } from '../../src/tools/tool-registry.js';
+import { ToolPolicyOptions } from '../../src/tools/tool-permissions.js';
+import { JobRunner } from '../../src/jobs/job-runner.js';
+import { JobRecord, JsonFileJobStore } from '../../src/jobs/job-store.js';
+
+const LOCATION_ID = 'jobs_location';
+const CREDENTIAL = 'api-key:key_1';
+const contactIds = (count: number) => Array.from({ length: count }, (_, index) => `contact_${index + 1}`);
+
+describe('Background jobs', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let batches: string[][];
+  let delayMs: number;
+  let dir: string;
+  let storePath: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const ids: string[] = JSON.parse(body || '{}').ids || [];
+        batches.push(ids);
+        setTimeout(() => {
+          if (res.destroyed) return;
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({
+            succeeded: true,
+            errorCount: 0,
+            responses: ids.map(contactId => ({ contactId, message: 'Tags updated', type: 'success' }))
+          }));
+        }, delayMs);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(async () => {
+    batches = [];
+    delayMs = 0;
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ghl-jobs-'));
+    storePath = path.join(dir, 'jobs.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const createRegistry = (runner: JobRunner, policy: ToolPolicyOptions = {}, locationId = LOCATION_ID) => createToolRegistry(new GHLApiClient({
+    accessToken: 'jobs_test_token',
+    baseUrl,
+    version: '2021-07-28',
+    locationId,
+    timeout: 5000
+  }), policy, runner);
+
+  // A session: its registry attached to the runner under a credential
+  const openSession = (runner: JobRunner, policy: ToolPolicyOptions = {}, locationId = LOCATION_ID, credential = CREDENTIAL) => {
+    const registry = createRegistry(runner, policy, locationId);
+    return { registry, close: runner.attach(locationId, credential, registry) };
+  };
+
+  const tagJob = (count: number) => ({
+    tool: 'bulk_update_contact_tags',
+    arguments: { contactIds: contactIds(count), tags: ['vip'], operation: 'add' }
+  });
+
+  it('should run a bulk update in batches and return the merged result', async () => {
+    const runner = new JobRunner(new JsonFileJobStore(storePath));
+    const { registry } = openSession(runner);
+
+    const started = await registry.execute('start_job', tagJob(250));
+    expect(started.status).toBe('queued');
+
+    await runner.idle(LOCATION_ID);
+
+    const status = await registry.execute('get_job_status', { jobId: started.jobId });
+    expect(status).toMatchObject({ status: 'completed', runs: 1, hasResult: true });
+    expect(status.progress).toMatchObject({ progress: 250, total: 250 });
+    expect(batches.map(batch => batch.length)).toEqual([100, 100, 50]);
+
+    const { result } = await registry.execute('get_job_result', { jobId: started.jobId });
+    expect(result.succeeded).toBe(true);
+    expect(result.responses).toHaveLength(250);
+  });
+
+  it('should reject tools that cannot run as jobs and invalid arguments', async () => {
+    const { registry } = openSession(new JobRunner(new JsonFileJobStore(storePath)));
+
+    await expect(registry.execute('start_job', { tool: 'get_contact', arguments: { contactId: 'c1' } }))
+      .rejects.toThrow('must be one of');
+    await expect(registry.execute('start_job', { tool: 'bulk_update_contact_tags', arguments: { tags: ['vip'] } }))
+      .rejects.toThrow('Invalid arguments for tool "bulk_update_contact_tags"');
+  });
+
+  it('should resume a job interrupted by a restart from its checkpoint', async () => {
+    const ids = contactIds(250);
+    const interrupted: JobRecord = {
+      id: 'job_interrupted',
+      locationId: LOCATION_ID,
+      credential: CREDENTIAL,
+      tool: 'bulk_update_contact_tags',
+      arguments: { contactIds: ids, tags: ['vip'], operation: 'add' },
+      status: 'running',
+      createdAt: new Date().toISOString(),
+      startedAt: new Date().toISOString(),
+      runs: 1,
+      checkpoint: {
+        done: 200,
+        merged: { succeeded: true, errorCount: 0, responses: ids.slice(0, 200).map(contactId => ({ contactId, message: 'Tags updated', type: 'success' })) }
+      }
+    };
+    await fs.writeFile(storePath, JSON.stringify({ version: 1, jobs: [interrupted] }));
+
+    // A fresh process: nothing runs until a session with the job's credential attaches its registry
+    const runner = new JobRunner(new JsonFileJobStore(storePath));
+    const registry = createRegistry(runner);
+    const waiting = await registry.execute('get_job_status', { jobId: 'job_interrupted' });
+    expect(waiting.status).toBe('queued');
+    expect(waiting.waitingFor).toContain('server restart');
+    expect(waiting.credential).toBeUndefined();
+
+    runner.attach(LOCATION_ID, 'api-key:key_2', createRegistry(runner));
+    await runner.idle(LOCATION_ID);
+    expect(batches).toEqual([]);
+
+    runner.attach(LOCATION_ID, CREDENTIAL, registry);
+    await runner.idle(LOCATION_ID);
+
+    expect(batches).toEqual([ids.slice(200)]);
+    const job = await runner.get(LOCATION_ID, 'job_interrupted');
+    expect(job).toMatchObject({ status: 'completed', runs: 2 });
+    expect(job.checkpoint).toBeUndefined();
+    expect((job.result as { responses: unknown[] }).responses).toHaveLength(250);
+  });
+
+  it('should only start jobs from an attached registry', async () => {
+    const registry = createRegistry(new JobRunner(new JsonFileJobStore(storePath)));
+
+    await expect(registry.execute('start_job', tagJob(10))).rejects.toThrow('Background jobs can only be started from an open session');
+  });
+
+  it('should keep queued jobs waiting once the last session of their credential closes', async () => {
+    delayMs = 50;
+    const runner = new JobRunner(new JsonFileJobStore(storePath));
+    const first = openSession(runner);
+    const other = openSession(runner, {}, LOCATION_ID, 'api-key:key_2');
+
+    await first.registry.execute('start_job', tagJob(100));
+    const queued = await first.registry.execute('start_job', tagJob(100));
+    first.close();
+    await runner.idle(LOCATION_ID);
+
+    expect(batches).toHaveLength(1);
+    expect((await other.registry.execute('get_job_status', { jobId: queued.jobId })).status).toBe('queued');
+
+    openSession(runner);
+    await runner.idle(LOCATION_ID);
+
+    expect(batches).toHaveLength(2);
+    expect((await runner.get(LOCATION_ID, queued.jobId)).status).toBe('completed');
+  });
+
+  it('should cancel a running job and keep its partial result', async () => {
+    delayMs = 50;
+    const runner = new JobRunner(new JsonFileJobStore(storePath));
+    const { registry } = openSession(runner);
+
+    const { jobId } = await registry.execute('start_job', tagJob(1000));
+    while (batches.length < 2) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    const cancelling = await registry.execute('cancel_job', { jobId });
+    expect(cancelling.cancelRequested).toBe(true);
+
+    await runner.idle(LOCATION_ID);
+
+    const { status, result } = await registry.execute('get_job_result', { jobId });
+    expect(status).toBe('cancelled');
+    expect(result.responses.length).toBeGreaterThanOrEqual(100);
+    expect(result.responses.length).toBeLessThan(1000);
+  });
+
+  it('should cancel a queued job at once', async () => {
+    delayMs = 50;
+    const runner = new JobRunner(new JsonFileJobStore(storePath));
+    const { registry } = openSession(runner);
+
+    await registry.execute('start_job', tagJob(100));
+    const queued = await registry.execute('start_job', tagJob(100));
+    const cancelled = await registry.execute('cancel_job', { jobId: queued.jobId });
+    expect(cancelled.status).toBe('cancelled');
+
+    await runner.idle(LOCATION_ID);
+    expect(batches).toHaveLength(1);
+  });
+
+  it('should only show jobs to callers of the same location that may use their tool', async () => {
+    const runner = new JobRunner(new JsonFileJobStore(storePath));
+    const { registry } = openSession(runner);
+    const { jobId } = await registry.execute('start_job', tagJob(10));
+    await runner.idle(LOCATION_ID);
+
+    const otherLocation = createRegistry(runner, {}, 'other_location');
+    await expect(otherLocation.execute('get_job_status', { jobId })).rejects.toThrow(`Job not found: ${jobId}`);
+    expect((await otherLocation.execute('list_jobs', {})).count).toBe(0);
+
+    const inactivityOnly = createRegistry(runner, { permissions: ['jobs:*', 'detect_*'] });
+    await expect(inactivityOnly.execute('get_job_result', { jobId })).rejects.toThrow(`Job not found: ${jobId}`);
+    expect((await inactivityOnly.execute('list_jobs', {})).count).toBe(0);
+
+    const list = await registry.execute('list_jobs', { status: 'completed' });
+    expect(list.jobs.map((job: { jobId: string }) => job.jobId)).toEqual([jobId]);
+  });
+});
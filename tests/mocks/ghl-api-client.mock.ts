@@ -11,7 +11,10 @@ import {
   GHLBlogPost,
   GHLBlogSite,
   GHLBlogAuthor,
-  GHLBlogCategory
+  GHLBlogCategory,
+  GHLOpportunity,
+  GHLCustomObjectSchema,
+  GHLDetailedObjectRecord
 } from '../../src/types/ghl-types.js';
 
 // Mock test data
@@ -96,6 +99,51 @@ export const mockBlogCategory: GHLBlogCategory = {
   urlSlug: 'test-category'
 };
 
+export const mockOpportunity: GHLOpportunity = {
+  id: 'opp_123',
+  name: 'Website Redesign',
+  monetaryValue: 5000,
+  pipelineId: 'pipeline_123',
+  pipelineStageId: 'stage_123',
+  status: 'open',
+  source: 'ChatGPT MCP',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  contactId: 'contact_123',
+  locationId: 'test_location_123',
+  contact: {
+    id: 'contact_123',
+    name: 'John Doe',
+    email: 'john.doe@example.com'
+  }
+};
+
+export const mockObjectSchema: GHLCustomObjectSchema = {
+  id: 'object_123',
+  standard: false,
+  key: 'custom_objects.pets',
+  labels: { singular: 'Pet', plural: 'Pets' },
+  locationId: 'test_location_123',
+  primaryDisplayProperty: 'custom_objects.pets.name',
+  dateAdded: '2024-01-01T00:00:00.000Z',
+  dateUpdated: '2024-01-01T00:00:00.000Z'
+};
+
+export const mockObjectRecord: GHLDetailedObjectRecord = {
+  id: 'record_123',
+  owner: [],
+  followers: [],
+  properties: { name: 'Rex', breed: 'Labrador' },
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  locationId: 'test_location_123',
+  objectId: 'object_123',
+  objectKey: 'custom_objects.pets',
+  createdBy: { channel: 'API', createdAt: '2024-01-01T00:00:00.000Z', source: 'INTEGRATION', sourceId: 'test' },
+  lastUpdatedBy: { channel: 'API', createdAt: '2024-01-01T00:00:00.000Z', source: 'INTEGRATION', sourceId: 'test' },
+  searchAfter: []
+};
+
 /**
  * Mock GHL API Client class
  */
@@ -299,6 +347,60 @@ export class MockGHLApiClient {
     };
   }
 
+  // Opportunity methods
+  async searchOpportunities(searchParams: any): Promise<GHLApiResponse<any>> {
+    return {
+      success: true,
+      data: {
+        opportunities: [mockOpportunity],
+        meta: { total: 1 }
+      }
+    };
+  }
+
+  async getOpportunity(opportunityId: string): Promise<GHLApiResponse<GHLOpportunity>> {
+    return {
+      success: true,
+      data: { ...mockOpportunity, id: opportunityId }
+    };
+  }
+
+  // Custom object methods
+  async getObjectsByLocation(locationId?: string): Promise<GHLApiResponse<any>> {
+    return {
+      success: true,
+      data: {
+        objects: [mockObjectSchema]
+      }
+    };
+  }
+
+  async searchObjectRecords(schemaKey: string, searchData: any): Promise<GHLApiResponse<any>> {
+    return {
+      success: true,
+      data: {
+        records: [mockObjectRecord],
+        total: 1
+      }
+    };
+  }
+
+  async getObjectRecord(schemaKey: string, recordId: string): Promise<GHLApiResponse<any>> {
+    return {
+      success: true,
+      data: {
+        record: {
+          id: recordId,
+          owner: [],
+          followers: [],
+          properties: mockObjectRecord.properties,
+          dateAdded: '2024-01-01T00:00:00.000Z',
+          dateUpdated: '2024-01-01T00:00:00.000Z'
+        }
+      }
+    };
+  }
+
   async testConnection(): Promise<GHLApiResponse<any>> {
     return {
       success: true,
@@ -0,0 +1,149 @@
+/**
+ * Unit Tests for the OTP service
+ * Tests code expiry, attempt and send limits, and persistence through the JSON file store
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { getOtpService, OtpRateLimitError, OtpService, OtpTarget } from '../../src/otp/otp-service.js';
+import { InMemoryOtpStore, JsonFileOtpStore } from '../../src/otp/otp-store.js';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+describe('OtpService', () => {
+  let now: number;
+  let service: OtpService;
+  const target: OtpTarget = { locationId: 'loc_1', contactId: 'contact_1', channel: 'sms' };
+
+  beforeEach(() => {
+    now = Date.parse('2026-01-01T00:00:00Z');
+    service = new OtpService(new InMemoryOtpStore(() => now), 'test-secret', {}, () => now);
+  });
+
+  it('should issue a 6-digit code that verifies once', async () => {
+    const { code, expiresAt } = await service.issue(target);
+
+    expect(code).toMatch(/^\d{6}$/);
+    expect(expiresAt).toBe('2026-01-01T00:10:00.000Z');
+    expect(await service.verify(target, code)).toEqual({ verified: true });
+    expect(await service.verify(target, code)).toEqual({ verified: false, reason: 'no_code' });
+  });
+
+  it('should remember when a code was verified until a new one is issued', async () => {
+    const { code } = await service.issue(target);
+    expect(await service.verifiedAt(target)).toBeUndefined();
+
+    now += 5 * MINUTE;
+    await service.verify(target, code);
+    expect(await service.verifiedAt(target)).toBe('2026-01-01T00:05:00.000Z');
+
+    now += 59 * MINUTE;
+    expect(await service.verifiedAt(target)).toBe('2026-01-01T00:05:00.000Z');
+    await service.issue(target);
+    expect(await service.verifiedAt(target)).toBeUndefined();
+  });
+
+  it('should only accept a code for the target it was issued to', async () => {
+    const { code } = await service.issue(target);
+
+    expect(await service.verify({ ...target, channel: 'email' }, code)).toEqual({ verified: false, reason: 'no_code' });
+    expect(await service.verify({ ...target, locationId: 'loc_2' }, code)).toEqual({ verified: false, reason: 'no_code' });
+    expect(await service.verify(target, code)).toEqual({ verified: true });
+  });
+
+  it('should reject expired codes', async () => {
+    const { code } = await service.issue(target);
+    now += 10 * MINUTE;
+
+    expect(await service.verify(target, code)).toEqual({ verified: false, reason: 'expired' });
+  });
+
+  it('should lock the code after too many wrong attempts', async () => {
+    const { code } = await service.issue(target);
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    for (let remaining = 4; remaining > 0; remaining--) {
+      expect(await service.verify(target, wrong)).toEqual({ verified: false, reason: 'invalid_code', attemptsRemaining: remaining });
+    }
+    expect(await service.verify(target, wrong)).toEqual({ verified: false, reason: 'too_many_attempts' });
+    expect(await service.verify(target, code)).toEqual({ verified: false, reason: 'no_code' });
+  });
+
+  it('should count concurrent wrong attempts against the limit', async () => {
+    const { code } = await service.issue(target);
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    const outcomes = await Promise.all(Array.from({ length: 10 }, () => service.verify(target, wrong)));
+
+    expect(outcomes.filter(outcome => !outcome.verified && outcome.reason === 'invalid_code')).toHaveLength(4);
+    expect(await service.verify(target, code)).toEqual({ verified: false, reason: 'no_code' });
+  });
+
+  it('should rate limit codes per target', async () => {
+    await service.issue(target);
+    await expect(service.issue(target)).rejects.toThrow(OtpRateLimitError);
+    await service.issue({ ...target, channel: 'email' });
+
+    for (let sent = 1; sent < 5; sent++) {
+      now += 30 * SECOND;
+      await service.issue(target);
+    }
+    now += 30 * SECOND;
+    const error = await service.issue(target).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(OtpRateLimitError);
+    expect(error.retryAfterMs).toBe(60 * MINUTE - 150 * SECOND);
+    expect(error.message).toBe('Too many verification codes sent to this contact by sms; try again in 3450 seconds');
+  });
+
+  it('should replace the pending code when a new one is issued', async () => {
+    const first = await service.issue(target);
+    now += 30 * SECOND;
+    const second = await service.issue(target);
+
+    if (first.code !== second.code) {
+      expect(await service.verify(target, first.code)).toMatchObject({ verified: false, reason: 'invalid_code' });
+    }
+    expect(await service.verify(target, second.code)).toEqual({ verified: true });
+  });
+
+  it('should drop a discarded code but keep counting its send', async () => {
+    const { code } = await service.issue(target);
+    await service.discard(target);
+
+    expect(await service.verify(target, code)).toEqual({ verified: false, reason: 'no_code' });
+    await expect(service.issue(target)).rejects.toThrow(OtpRateLimitError);
+  });
+
+  describe('with the JSON file store', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ghl-otp-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should keep pending codes across restarts without storing them in plain text', async () => {
+      const file = path.join(dir, 'otp.json');
+      const { code } = await new OtpService(new JsonFileOtpStore(file, () => now), 'test-secret', {}, () => now).issue(target);
+
+      const contents = await fs.readFile(file, 'utf8');
+      expect(contents).not.toContain(code);
+      expect((await fs.stat(file)).mode & 0o777).toBe(0o600);
+
+      const restarted = new OtpService(new JsonFileOtpStore(file, () => now), 'test-secret', {}, () => now);
+      expect(await restarted.verify(target, code)).toEqual({ verified: true });
+    });
+  });
+
+  it('should refuse a persistent store without GHL_OTP_SECRET', () => {
+    expect(() => getOtpService({ GHL_OTP_STORE: './data/otp.json' }))
+      .toThrow('GHL_OTP_SECRET environment variable is required when GHL_OTP_STORE is set');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for the Prompt Library
+ * Checks the declarative prompts against the tool registry and renders them with stubbed resources
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ErrorCode, McpError, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  PROMPT_DEFINITIONS,
+  PromptDefinition,
+  PromptLibrary,
+  builtInVariables,
+  renderTemplate,
+  validatePromptDefinitions
+} from '../../src/prompts/prompt-library.js';
+import { createToolRegistry } from '../../src/tools/tool-registry.js';
+import { MockGHLApiClient } from '../mocks/ghl-api-client.mock.js';
+
+describe('PromptLibrary', () => {
+  const contactPrompt: PromptDefinition = {
+    name: 'contact-summary',
+    description: 'Summarize a contact',
+    arguments: [
+      { name: 'contactId', required: true },
+      { name: 'tone', default: 'friendly' }
+    ],
+    resources: ['ghl://contacts/{{contactId}}'],
+    tools: ['get_contact', 'get_contact_notes'],
+    template: ['Summarize {{contactId}} in a {{tone}} tone.', 'Today is {{today}}.']
+  };
+
+  const reads: string[] = [];
+  const resources = {
+    read: async (uri: string): Promise<ReadResourceResult> => {
+      reads.push(uri);
+      if (uri.includes('missing')) {
+        throw new Error('Contact not found');
+      }
+      return { contents: [{ uri, mimeType: 'application/json', text: '{"id":"contact_1"}' }] };
+    }
+  };
+
+  it('should only reference tools that exist', () => {
+    const registry = createToolRegistry(new MockGHLApiClient() as any);
+
+    for (const definition of PROMPT_DEFINITIONS) {
+      expect(definition.tools!.filter(tool => !registry.has(tool))).toEqual([]);
+    }
+  });
+
+  it('should load valid built-in prompts', () => {
+    expect(() => validatePromptDefinitions(PROMPT_DEFINITIONS)).not.toThrow();
+    expect(new PromptLibrary(PROMPT_DEFINITIONS).list().map(prompt => prompt.name)).toEqual([
+      'daily-pipeline-review',
+      'follow-up-stale-leads',
+      'summarize-contact-history',
+      'draft-blog-post',
+      'prepare-tomorrows-appointments'
+    ]);
+  });
+
+  it('should reject undeclared placeholders and duplicate names', () => {
+    expect(() => validatePromptDefinitions([{ name: 'broken', template: 'Hello {{who}}' }])).toThrow('undeclared placeholders: who');
+    expect(() => validatePromptDefinitions([contactPrompt, contactPrompt])).toThrow('unique');
+  });
+
+  it('should list arguments with their required flag', () => {
+    const [prompt] = new PromptLibrary([contactPrompt]).list();
+
+    expect(prompt).toEqual({
+      name: 'contact-summary',
+      description: 'Summarize a contact',
+      arguments: [
+        { name: 'contactId', required: true },
+        { name: 'tone', required: false }
+      ]
+    });
+  });
+
+  it('should embed resources and render arguments, defaults and built-in dates', async () => {
+    const result = await new PromptLibrary([contactPrompt], resources).get('contact-summary', { contactId: 'contact 1' });
+
+    expect(reads).toContain('ghl://contacts/contact%201');
+    expect(result.messages[0].content).toMatchObject({ type: 'resource', resource: { uri: 'ghl://contacts/contact%201' } });
+    expect(result.messages[1].content).toEqual({
+      type: 'text',
+      text: `Summarize contact 1 in a friendly tone.\nToday is ${builtInVariables().today}.\n\nUse these tools: get_contact, get_contact_notes`
+    });
+  });
+
+  it('should replace a resource that cannot be read with a note', async () => {
+    const result = await new PromptLibrary([contactPrompt], resources).get('contact-summary', { contactId: 'missing' });
+
+    expect(result.messages[0].content).toEqual({
+      type: 'text',
+      text: '(Could not load ghl://contacts/missing: Contact not found)'
+    });
+  });
+
+  it('should reject unknown prompts and missing required arguments as invalid params', async () => {
+    const library = new PromptLibrary([contactPrompt], resources);
+
+    const unknown = await library.get('nope').catch(error => error);
+    const missing = await library.get('contact-summary', {}).catch(error => error);
+
+    expect(unknown).toBeInstanceOf(McpError);
+    expect(unknown.code).toBe(ErrorCode.InvalidParams);
+    expect(missing.code).toBe(ErrorCode.InvalidParams);
+    expect(missing.message).toContain('contactId');
+  });
+
+  it('should hide prompts whose tools are all denied and suggest only permitted tools', async () => {
+    const onlyNotesDenied = new PromptLibrary([contactPrompt], resources, tool => tool !== 'get_contact_notes');
+    const allDenied = new PromptLibrary([contactPrompt], resources, () => false);
+
+    const result = await onlyNotesDenied.get('contact-summary', { contactId: 'contact_1' });
+    expect((result.messages[1].content as { text: string }).text).toMatch(/Use these tools: get_contact$/);
+    expect(allDenied.list()).toEqual([]);
+    await expect(allDenied.get('contact-summary', { contactId: 'contact_1' })).rejects.toThrow('Unknown prompt');
+  });
+
+  it('should leave unknown placeholders untouched and encode values on request', () => {
+    expect(renderTemplate('{{a}}/{{b}}', { a: 'x y' })).toBe('x y/{{b}}');
+    expect(renderTemplate('{{a}}', { a: 'x/y' }, true)).toBe('x%2Fy');
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Integration Tests for GHL resources
+ * Lists and reads ghl:// resources through a real API client against a local fake HTTP server
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { GHLApiClient } from '../../src/clients/ghl-api-client.js';
+import {
+  ResourceNotFoundError,
+  ResourceRegistry,
+  createResourceRegistry,
+  mapResourceError
+} from '../../src/resources/ghl-resources.js';
+import { createToolRegistry } from '../../src/tools/tool-registry.js';
+import { ToolPermissionError } from '../../src/tools/tool-permissions.js';
+import { TOOL_PERMISSION_DENIED_CODE } from '../../src/tools/tool-errors.js';
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+}
+
+describe('ResourceRegistry', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+
+  const route = (request: RecordedRequest): [number, any] => {
+    switch (request.path) {
+      case '/contacts/search':
+        return [200, { contacts: [{ id: 'contact_1', firstName: 'John', lastName: 'Doe' }, { id: 'contact_2', email: 'jane@example.com' }] }];
+      case '/contacts/contact_1':
+        return [200, { contact: { id: 'contact_1', firstName: 'John', tags: ['vip'] } }];
+      case '/conversations/search':
+        return [200, { conversations: [{ id: 'conv_1', fullName: 'John Doe' }], total: 1 }];
+      case '/conversations/conv_1/messages':
+        return [200, { messages: { lastMessageId: 'msg_1', nextPage: false, messages: [{ id: 'msg_1', body: 'Hi' }] } }];
+      case '/opportunities/pipelines':
+        return [200, { pipelines: [{ id: 'pipe_1', name: 'Sales', stages: [] }] }];
+      case '/calendars/':
+        return [200, { calendars: [{ id: 'cal_1', name: 'Demo' }] }];
+      case '/calendars/events':
+        return [200, { events: [{ id: 'event_1', calendarId: 'cal_1' }] }];
+      case '/objects/custom_objects.pets/records/rec_1':
+        return [200, { record: { id: 'rec_1', properties: { name: 'Rex' } } }];
+      case '/blogs/site/all':
+        return [200, { data: [{ _id: 'blog_1', name: 'News' }, { _id: 'blog_2', name: 'Updates' }] }];
+      case '/blogs/posts/all':
+        return [200, { blogs: request.query.get('blogId') === 'blog_2' ? [{ _id: 'post_9', title: 'Launch' }] : [] }];
+      default:
+        return [404, { message: 'Not found' }];
+    }
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const request = { method: req.method || '', path: url.pathname, query: url.searchParams };
+        requests.push(request);
+        const [status, body] = route(request);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  const createClient = () => new GHLApiClient({
+    accessToken: 'resource_test_token',
+    baseUrl,
+    version: '2021-07-28',
+    locationId: 'test_location_123'
+  });
+
+  const readJson = async (registry: ResourceRegistry, uri: string) => {
+    const result = await registry.read(uri);
+    expect(result.contents[0]).toMatchObject({ uri, mimeType: 'application/json' });
+    return JSON.parse(result.contents[0].text as string);
+  };
+
+  it('should advertise a template for every kind of resource', () => {
+    const templates = new ResourceRegistry(createClient()).getTemplates().map(template => template.uriTemplate);
+
+    expect(templates).toEqual([
+      'ghl://contacts/{contactId}',
+      'ghl://conversations/{conversationId}',
+      'ghl://conversations/{conversationId}/messages',
+      'ghl://pipelines',
+      'ghl://calendars/{calendarId}/events{?from,to}',
+      'ghl://objects/{schemaKey}/records/{recordId}',
+      'ghl://blog/posts/{postId}'
+    ]);
+  });
+
+  it('should list recent contacts and conversations, the pipelines and each calendar', async () => {
+    const resources = await new ResourceRegistry(createClient()).listResources();
+
+    expect(resources.map(resource => [resource.uri, resource.name])).toEqual([
+      ['ghl://contacts/contact_1', 'John Doe'],
+      ['ghl://contacts/contact_2', 'jane@example.com'],
+      ['ghl://conversations/conv_1/messages', 'Messages with John Doe'],
+      ['ghl://pipelines', 'Pipelines'],
+      ['ghl://calendars/cal_1/events', 'Demo events']
+    ]);
+  });
+
+  it('should read records by URI', async () => {
+    const registry = new ResourceRegistry(createClient());
+
+    expect(await readJson(registry, 'ghl://contacts/contact_1')).toMatchObject({ id: 'contact_1', tags: ['vip'] });
+    expect(await readJson(registry, 'ghl://pipelines')).toEqual({ pipelines: [{ id: 'pipe_1', name: 'Sales', stages: [] }] });
+    expect(await readJson(registry, 'ghl://objects/custom_objects.pets/records/rec_1')).toMatchObject({ record: { id: 'rec_1' } });
+    expect(await readJson(registry, 'ghl://conversations/conv_1/messages')).toMatchObject({ messages: { lastMessageId: 'msg_1' } });
+  });
+
+  it('should read calendar events for the range in the query string', async () => {
+    const registry = new ResourceRegistry(createClient());
+
+    const events = await readJson(registry, 'ghl://calendars/cal_1/events?from=2024-01-01T00:00:00Z&to=1706745600000');
+
+    expect(events).toEqual({
+      calendarId: 'cal_1',
+      from: '2024-01-01T00:00:00.000Z',
+      to: '2024-02-01T00:00:00.000Z',
+      events: [{ id: 'event_1', calendarId: 'cal_1' }]
+    });
+    const request = requests.find(recorded => recorded.path === '/calendars/events')!;
+    expect(request.query.get('startTime')).toBe('1704067200000');
+    expect(request.query.get('calendarId')).toBe('cal_1');
+    await expect(registry.read('ghl://calendars/cal_1/events?from=soon')).rejects.toThrow('from must be an ISO date');
+  });
+
+  it('should find blog posts across every blog', async () => {
+    const post = await readJson(new ResourceRegistry(createClient()), 'ghl://blog/posts/post_9');
+
+    expect(post).toEqual({ blogId: 'blog_2', blogName: 'Updates', _id: 'post_9', title: 'Launch' });
+    await expect(new ResourceRegistry(createClient()).read('ghl://blog/posts/missing')).rejects.toBeInstanceOf(ResourceNotFoundError);
+  });
+
+  it('should reject unknown URIs and missing records with resource-not-found errors', async () => {
+    const registry = new ResourceRegistry(createClient());
+
+    const unknown = await registry.read('ghl://invoices/inv_1').catch(error => error);
+    const missing = await registry.read('ghl://contacts/nobody').catch(error => error);
+
+    expect(mapResourceError(unknown).code).toBe(-32002);
+    expect(mapResourceError(missing).code).toBe(-32002);
+  });
+
+  it('should match subscriptions against changed resources, ignoring query strings', () => {
+    const registry = new ResourceRegistry(createClient());
+    registry.subscribe('ghl://contacts/contact_1');
+    registry.subscribe('ghl://calendars/cal_1/events?from=2024-01-01');
+    registry.subscribe('ghl://conversations/conv_1');
+
+    expect(registry.subscribedTo(['ghl://contacts/contact_1', 'ghl://calendars/cal_1/events'])).toEqual([
+      'ghl://contacts/contact_1',
+      'ghl://calendars/cal_1/events?from=2024-01-01'
+    ]);
+
+    registry.unsubscribe('ghl://contacts/contact_1');
+    expect(registry.subscribedTo(['ghl://contacts/contact_1'])).toEqual([]);
+    expect(() => registry.subscribe('ghl://invoices/inv_1')).toThrow(ResourceNotFoundError);
+  });
+
+  it('should hide and refuse resources whose tool the policy denies', async () => {
+    const client = createClient();
+    const registry = createResourceRegistry(client, createToolRegistry(client, { permissions: ['!get_contact'] }));
+
+    expect(registry.getTemplates().map(template => template.name)).not.toContain('contact');
+    expect((await registry.listResources()).some(resource => resource.uri.startsWith('ghl://contacts/'))).toBe(false);
+
+    const error = await registry.read('ghl://contacts/contact_1').catch(caught => caught);
+    expect(error).toBeInstanceOf(ToolPermissionError);
+    expect(mapResourceError(error).code).toBe(TOOL_PERMISSION_DENIED_CODE);
+    expect(() => registry.subscribe('ghl://contacts/contact_1')).toThrow(ToolPermissionError);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Unit Tests for GHL webhook events
+ * Tests signature verification and which resources each event family changes
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { createSign, generateKeyPairSync } from 'node:crypto';
+import {
+  verifyWebhookSignature,
+  webhookPublicKeyFromEnv,
+  webhookResourceUris
+} from '../../src/resources/webhook-events.js';
+
+describe('verifyWebhookSignature', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const publicPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+  const body = JSON.stringify({ type: 'ContactUpdate', locationId: 'loc_1', id: 'contact_1' });
+  const sign = (payload: string) => createSign('sha256').update(payload).sign(privateKey, 'base64');
+
+  it('should accept a body signed with the matching private key', () => {
+    expect(verifyWebhookSignature(Buffer.from(body), sign(body), publicPem)).toBe(true);
+  });
+
+  it('should reject tampered bodies, bad signatures and missing signatures', () => {
+    expect(verifyWebhookSignature(body.replace('contact_1', 'contact_2'), sign(body), publicPem)).toBe(false);
+    expect(verifyWebhookSignature(body, 'not-a-signature', publicPem)).toBe(false);
+    expect(verifyWebhookSignature(body, undefined, publicPem)).toBe(false);
+    expect(verifyWebhookSignature(body, sign(body), 'not a key')).toBe(false);
+  });
+
+  it('should read the public key with escaped newlines from the environment', () => {
+    expect(webhookPublicKeyFromEnv({ GHL_WEBHOOK_PUBLIC_KEY: publicPem.replace(/\n/g, '\\n') })).toBe(publicPem);
+    expect(webhookPublicKeyFromEnv({})).toBeUndefined();
+  });
+});
+
+describe('webhookResourceUris', () => {
+  it('should map contact events to the contact', () => {
+    expect(webhookResourceUris({ type: 'ContactUpdate', locationId: 'loc_1', id: 'contact_1' })).toEqual(['ghl://contacts/contact_1']);
+  });
+
+  it('should map message events to the conversation and its messages', () => {
+    expect(webhookResourceUris({ type: 'InboundMessage', locationId: 'loc_1', contactId: 'contact_1', conversationId: 'conv_1' })).toEqual([
+      'ghl://conversations/conv_1',
+      'ghl://conversations/conv_1/messages'
+    ]);
+  });
+
+  it('should map opportunity and appointment events to the contact they belong to', () => {
+    expect(webhookResourceUris({ type: 'OpportunityStageUpdate', locationId: 'loc_1', id: 'opp_1', contactId: 'contact_1' }))
+      .toEqual(['ghl://contacts/contact_1']);
+    expect(webhookResourceUris({
+      type: 'AppointmentCreate',
+      locationId: 'loc_1',
+      appointment: { id: 'appt_1', calendarId: 'cal_1', contactId: 'contact_1' }
+    })).toEqual(['ghl://calendars/cal_1/events', 'ghl://contacts/contact_1']);
+  });
+
+  it('should ignore events that change no resource', () => {
+    expect(webhookResourceUris({ type: 'TaskCreate', locationId: 'loc_1', id: 'task_1' })).toEqual([]);
+  });
+});
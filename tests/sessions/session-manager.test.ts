@@ -0,0 +1,260 @@
+/**
+ * Unit Tests for Session Manager
+ * Tests token binding, idle expiry and session limits with concurrent users
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+  SessionLimitError,
+  SessionManager,
+  hashToken
+} from '../../src/sessions/session-manager.js';
+
+interface TestSession {
+  locationId: string;
+}
+
+const tokenFor = (user: number) => `Bearer token-for-user-${user}`;
+
+describe('SessionManager', () => {
+  let clock: number;
+  let closed: Array<{ id: string; reason: string }>;
+  let manager: SessionManager<TestSession>;
+
+  beforeEach(() => {
+    clock = 1_000_000;
+    closed = [];
+    manager = new SessionManager<TestSession>(
+      { idleTimeoutMs: 60_000, maxSessions: 3, now: () => clock },
+      (session, reason) => closed.push({ id: session.id, reason })
+    );
+  });
+
+  describe('create', () => {
+    it('should store a hash of the token, never the token itself', () => {
+      const session = manager.create('s1', tokenFor(1), 'loc_1', { locationId: 'loc_1' });
+
+      expect(session.tokenHash).toBe(hashToken(tokenFor(1)));
+      expect(JSON.stringify(session)).not.toContain('token-for-user-1');
+    });
+
+    it('should reject duplicate session IDs', () => {
+      manager.create('s1', tokenFor(1), 'loc_1', { locationId: 'loc_1' });
+
+      expect(() => manager.create('s1', tokenFor(2), 'loc_2', { locationId: 'loc_2' }))
+        .toThrow('Session already exists: s1');
+    });
+
+    it('should enforce the maximum session count', () => {
+      for (let user = 1; user <= 3; user++) {
+        manager.create(`s${user}`, tokenFor(user), `loc_${user}`, { locationId: `loc_${user}` });
+      }
+
+      expect(() => manager.create('s4', tokenFor(4), 'loc_4', { locationId: 'loc_4' }))
+        .toThrow(SessionLimitError);
+      expect(manager.size).toBe(3);
+    });
+
+    it('should make room by sweeping idle sessions when the limit is reached', () => {
+      manager.create('s1', tokenFor(1), 'loc_1', { locationId: 'loc_1' });
+      clock += 30_000;
+      manager.create('s2', tokenFor(2), 'loc_2', { locationId: 'loc_2' });
+      manager.create('s3', tokenFor(3), 'loc_3', { locationId: 'loc_3' });
+      clock += 30_000;
+
+      manager.create('s4', tokenFor(4), 'loc_4', { locationId: 'loc_4' });
+
+      expect(manager.get('s1')).toBeUndefined();
+      expect(manager.size).toBe(3);
+      expect(closed).toEqual([{ id: 's1', reason: 'expired' }]);
+    });
+  });
+
+  describe('authorize', () => {
+    beforeEach(() => {
+      manager.create('s1', tokenFor(1), 'loc_1', { locationId: 'loc_1' });
+    });
+
+    it('should resolve a session for the token that created it', () => {
+      const result = manager.authorize('s1', tokenFor(1));
+
+      expect(result.ok).toBe(true);
+      expect(result.ok && result.session.data.locationId).toBe('loc_1');
+    });
+
+    it('should accept the token with or without the Bearer prefix', () => {
+      expect(manager.authorize('s1', 'token-for-user-1').ok).toBe(true);
+    });
+
+    it('should reject a different token', () => {
+      expect(manager.authorize('s1', tokenFor(2))).toEqual({ ok: false, reason: 'token_mismatch' });
+    });
+
+    it('should reject a missing token', () => {
+      expect(manager.authorize('s1', undefined)).toEqual({ ok: false, reason: 'token_mismatch' });
+    });
+
+    it('should reject unknown and missing session IDs without falling back to another session', () => {
+      expect(manager.authorize('s2', tokenFor(1))).toEqual({ ok: false, reason: 'not_found' });
+      expect(manager.authorize(undefined, tokenFor(1))).toEqual({ ok: false, reason: 'not_found' });
+    });
+
+    it('should record activity so active sessions do not expire', () => {
+      clock += 50_000;
+      expect(manager.authorize('s1', tokenFor(1)).ok).toBe(true);
+      clock += 50_000;
+
+      expect(manager.authorize('s1', tokenFor(1)).ok).toBe(true);
+    });
+
+    it('should not record activity for rejected requests', () => {
+      clock += 50_000;
+      manager.authorize('s1', tokenFor(2));
+      clock += 10_000;
+
+      expect(manager.authorize('s1', tokenFor(1))).toEqual({ ok: false, reason: 'not_found' });
+      expect(closed).toEqual([{ id: 's1', reason: 'expired' }]);
+    });
+  });
+
+  describe('expiry and removal', () => {
+    it('should close idle sessions on sweep', () => {
+      manager.create('s1', tokenFor(1), 'loc_1', { locationId: 'loc_1' });
+      manager.create('s2', tokenFor(2), 'loc_2', { locationId: 'loc_2' });
+      clock += 40_000;
+      manager.authorize('s2', tokenFor(2));
+      clock += 20_000;
+
+      expect(manager.sweep()).toBe(1);
+      expect(manager.get('s1')).toBeUndefined();
+      expect(manager.get('s2')).toBeDefined();
+    });
+
+    it('should not expire sessions when the idle timeout is disabled', () => {
+      const unlimited = new SessionManager<TestSession>({ idleTimeoutMs: 0, now: () => clock });
+      unlimited.create('s1', tokenFor(1), 'loc_1', { locationId: 'loc_1' });
+      clock += 24 * 60 * 60 * 1000;
+
+      expect(unlimited.sweep()).toBe(0);
+      expect(unlimited.authorize('s1', tokenFor(1)).ok).toBe(true);
+    });
+
+    it('should call the close handler once when a session is removed', () => {
+      manager.create('s1', tokenFor(1), 'loc_1', { locationId: 'loc_1' });
+
+      expect(manager.remove('s1')).toBe(true);
+      expect(manager.remove('s1')).toBe(false);
+      expect(closed).toEqual([{ id: 's1', reason: 'removed' }]);
+    });
+
+    it('should remove only the sessions created with a given token', () => {
+      manager.create('s1', tokenFor(1), 'loc_1', { locationId: 'loc_1' });
+      manager.create('s2', tokenFor(1), 'loc_1', { locationId: 'loc_1' });
+      manager.create('s3', tokenFor(2), 'loc_2', { locationId: 'loc_2' });
+
+      expect(manager.removeByTokenHash(hashToken(tokenFor(1)))).toBe(2);
+      expect(closed.map(entry => entry.id)).toEqual(['s1', 's2']);
+      expect(manager.get('s3')).toBeDefined();
+    });
+
+    it('should find the live sessions of a location', () => {
+      manager.create('s1', tokenFor(1), 'loc_1', { locationId: 'loc_1' });
+      clock += 30_000;
+      manager.create('s2', tokenFor(2), 'loc_1', { locationId: 'loc_1' });
+      manager.create('s3', tokenFor(3), 'loc_2', { locationId: 'loc_2' });
+      clock += 40_000;
+
+      expect(manager.findByLocation('loc_1').map(session => session.id)).toEqual(['s2']);
+      expect(manager.findByLocation('loc_3')).toEqual([]);
+    });
+
+    it('should tolerate a close handler that removes the session again', () => {
+      const reentrant: SessionManager<TestSession> = new SessionManager<TestSession>(
+        { now: () => clock },
+        (session) => { reentrant.remove(session.id); }
+      );
+      reentrant.create('s1', tokenFor(1), 'loc_1', { locationId: 'loc_1' });
+
+      expect(reentrant.remove('s1')).toBe(true);
+      expect(reentrant.size).toBe(0);
+    });
+
+    it('should sweep in the background once started', () => {
+      jest.useFakeTimers();
+      try {
+        const background = new SessionManager<TestSession>({
+          idleTimeoutMs: 1_000,
+          sweepIntervalMs: 500,
+          now: () => clock
+        });
+        background.create('s1', tokenFor(1), 'loc_1', { locationId: 'loc_1' });
+        background.start();
+
+        clock += 1_000;
+        jest.advanceTimersByTime(500);
+        expect(background.size).toBe(0);
+
+        background.stop();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('concurrent users', () => {
+    it('should route every request to its own session and never across tenants', async () => {
+      const users = Array.from({ length: 20 }, (_, index) => index + 1);
+      const many = new SessionManager<TestSession>({ maxSessions: 50, now: () => clock });
+
+      // Connect all users concurrently
+      await Promise.all(users.map(async (user) => {
+        await Promise.resolve();
+        many.create(`session-${user}`, tokenFor(user), `loc_${user}`, { locationId: `loc_${user}` });
+      }));
+      expect(many.size).toBe(users.length);
+
+      // Every user posts to its own session and tries every other user's session
+      const results = await Promise.all(users.flatMap(user => users.map(async (target) => {
+        await Promise.resolve();
+        return { user, target, result: many.authorize(`session-${target}`, tokenFor(user)) };
+      })));
+
+      for (const { user, target, result } of results) {
+        if (user === target) {
+          expect(result.ok && result.session.data.locationId).toBe(`loc_${user}`);
+        } else {
+          expect(result).toEqual({ ok: false, reason: 'token_mismatch' });
+        }
+      }
+    });
+
+    it('should keep other sessions intact when one user disconnects', async () => {
+      const many = new SessionManager<TestSession>({ maxSessions: 10, now: () => clock });
+      for (let user = 1; user <= 5; user++) {
+        many.create(`session-${user}`, tokenFor(user), `loc_${user}`, { locationId: `loc_${user}` });
+      }
+
+      await Promise.all([
+        Promise.resolve().then(() => many.remove('session-3')),
+        ...[1, 2, 4, 5].map(user => Promise.resolve().then(() => many.authorize(`session-${user}`, tokenFor(user))))
+      ]);
+
+      expect(many.authorize('session-3', tokenFor(3))).toEqual({ ok: false, reason: 'not_found' });
+      for (const user of [1, 2, 4, 5]) {
+        expect(many.authorize(`session-${user}`, tokenFor(user)).ok).toBe(true);
+      }
+    });
+
+    it('should admit exactly maxSessions of many simultaneous connections', async () => {
+      const attempts = await Promise.allSettled(
+        Array.from({ length: 10 }, (_, index) => Promise.resolve().then(() =>
+          manager.create(`session-${index}`, tokenFor(index), `loc_${index}`, { locationId: `loc_${index}` })
+        ))
+      );
+
+      expect(attempts.filter(attempt => attempt.status === 'fulfilled')).toHaveLength(3);
+      expect(attempts.filter(attempt => attempt.status === 'rejected')).toHaveLength(7);
+      expect(manager.size).toBe(3);
+    });
+  });
+});
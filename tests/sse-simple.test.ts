@@ -0,0 +1,134 @@
+/**
+ * Integration Tests for the simple ElevenLabs server
+ * Serves the Express app on a local port and calls /execute against a fake GHL API
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { app, allowedToolsFromEnv, toSpeakableError } from '../src/sse-simple.js';
+import {
+  GHLAuthError,
+  GHLNetworkError,
+  GHLNotFoundError,
+  GHLRateLimitError,
+  GHLValidationError
+} from '../src/clients/ghl-api-error.js';
+
+describe('sse-simple', () => {
+  let server: http.Server;
+  let ghl: http.Server;
+  let baseUrl: string;
+  let ghlUrl: string;
+  let ghlResponse: { status: number; body: unknown };
+  let ghlRequests: Array<{ method?: string; url?: string; authorization?: string }>;
+
+  const listen = async (target: http.Server): Promise<string> => {
+    await new Promise<void>(resolve => target.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(target.address() as AddressInfo).port}`;
+  };
+
+  beforeAll(async () => {
+    server = http.createServer(app);
+    ghl = http.createServer((req, res) => {
+      ghlRequests.push({ method: req.method, url: req.url, authorization: req.headers.authorization });
+      req.resume();
+      req.on('end', () => {
+        res.writeHead(ghlResponse.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(ghlResponse.body));
+      });
+    });
+    baseUrl = await listen(server);
+    ghlUrl = await listen(ghl);
+  });
+
+  afterAll(async () => {
+    for (const target of [server, ghl]) {
+      target.closeAllConnections();
+      await new Promise<void>(resolve => target.close(() => resolve()));
+    }
+  });
+
+  beforeEach(() => {
+    ghlResponse = { status: 200, body: { contacts: [{ id: 'contact_1', firstName: 'Jane' }], total: 1 } };
+    ghlRequests = [];
+  });
+
+  const execute = async (body: unknown, headers: Record<string, string> = {}) => {
+    const response = await fetch(`${baseUrl}/execute`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() as any };
+  };
+
+  const credentials = () => ({ Authorization: 'Bearer pit-token', 'X-GHL-Location-Id': 'loc_1', 'X-GHL-Base-URL': ghlUrl });
+
+  describe('/execute', () => {
+    it('should run an allowed tool with the caller\'s credentials', async () => {
+      const { status, body } = await execute({ tool: 'search_contacts', parameters: { query: 'Jane' } }, credentials());
+
+      expect(status).toBe(200);
+      expect(body.success).toBe(true);
+      expect(ghlRequests).toHaveLength(1);
+      expect(ghlRequests[0].authorization).toBe('Bearer pit-token');
+    });
+
+    it('should refuse tools outside the allow-list without calling GHL', async () => {
+      const { status, body } = await execute({ tool: 'delete_contact', parameters: { contactId: 'contact_1' } }, credentials());
+
+      expect(status).toBe(400);
+      expect(body).toEqual({ success: false, error: 'The tool delete_contact is not available.' });
+      expect(ghlRequests).toHaveLength(0);
+    });
+
+    it('should answer 401 without credentials', async () => {
+      const { status, body } = await execute({ tool: 'search_contacts', parameters: { query: 'Jane' } });
+
+      expect(status).toBe(401);
+      expect(body).toEqual({
+        success: false,
+        error: 'I am not connected to a GoHighLevel account. An authorization token and location are required.'
+      });
+    });
+
+    it('should return GHL failures as a sentence the agent can read', async () => {
+      ghlResponse = { status: 401, body: { message: 'Invalid JWT' } };
+
+      const { status, body } = await execute({ tool: 'search_contacts', parameters: { query: 'Jane' } }, credentials());
+
+      expect(status).toBe(200);
+      expect(body).toEqual({ success: false, error: 'I am not authorized to access this GoHighLevel account right now.' });
+    });
+  });
+
+  describe('toSpeakableError', () => {
+    const details = { status: 0 };
+
+    it.each([
+      [new GHLValidationError('bad', details), 'I couldn\'t run get free slots because some of the details were not accepted. Please check them and try again.'],
+      [new GHLAuthError('denied', details), 'I am not authorized to access this GoHighLevel account right now.'],
+      [new GHLNotFoundError('missing', details), 'I couldn\'t find what was needed to get free slots.'],
+      [new GHLRateLimitError('slow down', details), 'GoHighLevel is busy right now. Please try again in a moment.'],
+      [new GHLNetworkError('reset', details), 'I couldn\'t reach GoHighLevel right now. Please try again in a moment.']
+    ])('should explain %p', (error, message) => {
+      expect(toSpeakableError('get_free_slots', error)).toBe(message);
+    });
+
+    it('should keep only the last part of other error messages', () => {
+      expect(toSpeakableError('get_free_slots', new Error('Failed to get free slots: API request failed: Calendar is inactive')))
+        .toBe('Sorry, I couldn\'t get free slots. Calendar is inactive');
+    });
+  });
+
+  describe('allowedToolsFromEnv', () => {
+    it('should default to contact search and booking', () => {
+      expect(allowedToolsFromEnv({})).toEqual(['search_contacts', 'get_free_slots', 'create_appointment']);
+    });
+
+    it('should read a comma-separated ELEVENLABS_TOOLS list, ignoring blanks', () => {
+      expect(allowedToolsFromEnv({ ELEVENLABS_TOOLS: ' get_contact, ,search_contacts,' })).toEqual(['get_contact', 'search_contacts']);
+    });
+  });
+});
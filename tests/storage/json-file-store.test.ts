@@ -0,0 +1,85 @@
+/**
+ * Unit Tests for the JSON file store
+ * Tests the versioned envelope, serialized changes, pruning and rollback of changes that were not saved
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { JsonFileStore } from '../../src/storage/json-file-store.js';
+
+interface Item {
+  id: string;
+  count: number;
+}
+
+describe('JsonFileStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ghl-json-store-'));
+    file = path.join(dir, 'nested', 'items.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should start empty and save records in a versioned envelope readable after a restart', async () => {
+    const store = new JsonFileStore<Item>(file, 'items');
+    expect(await store.load()).toEqual([]);
+
+    const result = await store.mutate(items => items.push({ id: 'a', count: 1 }));
+
+    expect(result).toBe(1);
+    expect(JSON.parse(await fs.readFile(file, 'utf8'))).toEqual({ version: 1, items: [{ id: 'a', count: 1 }] });
+    expect((await fs.stat(file)).mode & 0o777).toBe(0o600);
+    expect(await new JsonFileStore<Item>(file, 'items').load()).toEqual([{ id: 'a', count: 1 }]);
+  });
+
+  it('should apply concurrent changes one after another', async () => {
+    const store = new JsonFileStore<Item>(file, 'items');
+    await store.mutate(items => items.push({ id: 'a', count: 0 }));
+
+    await Promise.all(Array.from({ length: 10 }, () => store.mutate(items => {
+      items[0].count += 1;
+    })));
+
+    expect(await new JsonFileStore<Item>(file, 'items').load()).toEqual([{ id: 'a', count: 10 }]);
+  });
+
+  it('should prune records before they are written', async () => {
+    const store = new JsonFileStore<Item>(file, 'items', { prune: items => items.filter(item => item.count > 0) });
+
+    await store.mutate(items => items.push({ id: 'a', count: 0 }, { id: 'b', count: 1 }));
+
+    expect(await store.load()).toEqual([{ id: 'b', count: 1 }]);
+    expect(JSON.parse(await fs.readFile(file, 'utf8')).items).toEqual([{ id: 'b', count: 1 }]);
+  });
+
+  it('should forget a change that failed and keep serving what is on disk', async () => {
+    const store = new JsonFileStore<Item>(file, 'items');
+    await store.mutate(items => items.push({ id: 'a', count: 1 }));
+
+    await expect(store.mutate(items => {
+      items[0].count = 99;
+      throw new Error('rejected');
+    })).rejects.toThrow('rejected');
+
+    expect(await store.load()).toEqual([{ id: 'a', count: 1 }]);
+    await store.mutate(items => items.push({ id: 'b', count: 2 }));
+    expect(await store.load()).toEqual([{ id: 'a', count: 1 }, { id: 'b', count: 2 }]);
+  });
+
+  it('should forget a change that could not be saved', async () => {
+    const store = new JsonFileStore<Item>(file, 'items');
+    await store.mutate(items => items.push({ id: 'a', count: 1 }));
+    // A directory where the temp file should go makes the write fail
+    await fs.mkdir(`${file}.${process.pid}.tmp`);
+
+    await expect(store.mutate(items => items.push({ id: 'b', count: 2 }))).rejects.toThrow();
+    expect(await store.load()).toEqual([{ id: 'a', count: 1 }]);
+  });
+});
@@ -415,7 +415,7 @@ describe('BlogTools', () => {
           author: 'author',
           categories: ['cat']
         })
-      ).rejects.toThrow('Failed to create blog post: Error: Network timeout');
+      ).rejects.toThrow('Failed to create blog post: Network timeout');
     });
 
     it('should handle blog not found errors', async () => {
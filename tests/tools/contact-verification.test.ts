@@ -0,0 +1,116 @@
+/**
+ * Unit Tests for the contact verification tools
+ * Codes are delivered through GHL messages and checked server-side, never returned to the caller
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ContactTools } from '../../src/tools/contact-tools.js';
+import { OtpService } from '../../src/otp/otp-service.js';
+import { InMemoryOtpStore } from '../../src/otp/otp-store.js';
+
+describe('ContactTools verification', () => {
+  let client: Record<string, jest.Mock<(...args: any[]) => Promise<unknown>> | (() => unknown)>;
+  let sendMessage: jest.Mock<(message: any) => Promise<unknown>>;
+  let contactTools: ContactTools;
+
+  const sentCode = (): string => {
+    const text: string = sendMessage.mock.calls[sendMessage.mock.calls.length - 1][0].message;
+    return text.match(/\d{6}/)![0];
+  };
+
+  beforeEach(() => {
+    sendMessage = jest.fn(async () => ({ success: true, data: { messageId: 'msg_1', conversationId: 'conv_1' } }));
+    client = {
+      getConfig: () => ({ locationId: 'loc_1' }),
+      sendMessage,
+      searchContacts: jest.fn(async () => ({ success: true, data: { contacts: [{ id: 'contact_1', email: 'jane@example.com' }], total: 1 } })),
+      getContact: jest.fn(async () => ({ success: true, data: { id: 'contact_1', email: 'jane@example.com', phone: '+61412345678' } })),
+      updateContact: jest.fn(async () => ({ success: true, data: { id: 'contact_1' } })),
+      addContactTags: jest.fn(async () => ({ success: true, data: { tags: [] } })),
+      removeContactTags: jest.fn(async () => ({ success: true, data: { tags: [] } }))
+    };
+    contactTools = new ContactTools(client as any, new OtpService(new InMemoryOtpStore(), 'test-secret'));
+  });
+
+  it('should email a code and never return it', async () => {
+    const result = await contactTools.executeTool('start_email_verification', { email: 'jane@example.com' });
+    const code = sentCode();
+
+    expect(sendMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'Email', contactId: 'contact_1' }));
+    expect(result).toMatchObject({ success: true, contactId: 'contact_1' });
+    expect(JSON.stringify(result)).not.toContain(code);
+  });
+
+  it('should not reveal the expected code when a wrong code is entered', async () => {
+    await contactTools.executeTool('start_sms_verification', { phone: '+61 412 345 678', contactId: 'contact_1' });
+    const code = sentCode();
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    const result = await contactTools.executeTool('verify_code', { contactId: 'contact_1', code: wrong, method: 'sms' });
+
+    expect(sendMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'SMS', contactId: 'contact_1' }));
+    expect(result).toEqual({
+      success: false,
+      message: 'Invalid verification code. Please check and try again.',
+      contactId: 'contact_1',
+      reason: 'invalid_code',
+      attemptsRemaining: 4
+    });
+    expect(JSON.stringify(result)).not.toContain(code);
+  });
+
+  it('should verify the right code and tag the contact', async () => {
+    await contactTools.executeTool('start_whatsapp_verification', { phone: '+61 412 345 678', contactId: 'contact_1' });
+
+    const result = await contactTools.executeTool('verify_code', { contactId: 'contact_1', code: sentCode(), method: 'whatsapp' });
+
+    expect(result).toMatchObject({ success: true, verifiedMethod: 'whatsapp' });
+    expect(client.addContactTags).toHaveBeenCalledWith('contact_1', ['verified-whatsapp']);
+  });
+
+  it('should report a contact as verified once its emailed code is entered', async () => {
+    const before = await contactTools.executeTool('check_verification_status', { email: 'jane@example.com' });
+    expect(before).toMatchObject({ verified: false, exists: true, contactId: 'contact_1' });
+
+    await contactTools.executeTool('start_email_verification', { email: 'jane@example.com' });
+    await contactTools.executeTool('verify_code', { contactId: 'contact_1', code: sentCode(), method: 'email' });
+
+    const after = await contactTools.executeTool('check_verification_status', { email: 'jane@example.com' });
+    expect(after).toMatchObject({ verified: true, exists: true, contactId: 'contact_1' });
+    expect(Date.parse(after.verificationDate)).not.toBeNaN();
+  });
+
+  it('should keep stdout free and contact details out of the logs', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      await contactTools.executeTool('start_sms_verification', { phone: '+61 412 345 678' });
+      await contactTools.executeTool('verify_code', { contactId: 'contact_1', code: 'abc', method: 'sms' });
+
+      expect(log).not.toHaveBeenCalled();
+      const logged = JSON.stringify(error.mock.calls);
+      expect(logged).not.toContain('412');
+      expect(logged).not.toContain(sentCode());
+    } finally {
+      log.mockRestore();
+      error.mockRestore();
+    }
+  });
+
+  it('should rate limit resends', async () => {
+    await contactTools.executeTool('start_email_verification', { email: 'jane@example.com' });
+
+    await expect(contactTools.executeTool('resend_verification_code', { contactId: 'contact_1', method: 'email' }))
+      .rejects.toThrow('Too many verification codes sent to this contact by email');
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should discard a code that could not be delivered', async () => {
+    sendMessage.mockResolvedValueOnce({ success: false, error: { message: 'No email channel configured' } });
+
+    await expect(contactTools.executeTool('start_email_verification', { email: 'jane@example.com' }))
+      .rejects.toThrow('Failed to send the email verification code: No email channel configured');
+    const result = await contactTools.executeTool('verify_code', { contactId: 'contact_1', code: sentCode(), method: 'email' });
+    expect(result).toMatchObject({ success: false, reason: 'no_code' });
+  });
+});
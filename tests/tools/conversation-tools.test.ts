@@ -98,10 +98,10 @@ describe('ConversationTools', () => {
       await conversationTools.executeTool('send_sms', {
         contactId: 'contact_123',
         message: 'Test message',
-        fromNumber: '+1-555-000-0000'
+        fromNumber: '+1 (202) 555-0143'
       });
 
-      expect(spy).toHaveBeenCalledWith('contact_123', 'Test message', '+1-555-000-0000');
+      expect(spy).toHaveBeenCalledWith('contact_123', 'Test message', '+12025550143');
     });
 
     it('should handle SMS sending errors', async () => {
@@ -380,7 +380,7 @@ describe('ConversationTools', () => {
           contactId: 'contact_123',
           message: 'test'
         })
-      ).rejects.toThrow('Failed to send SMS: Error: Network timeout');
+      ).rejects.toThrow('Failed to send SMS: Network timeout');
     });
 
     it('should handle conversation not found', async () => {
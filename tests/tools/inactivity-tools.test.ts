@@ -0,0 +1,134 @@
+/**
+ * Integration Tests for the inactivity tools
+ * Runs the contact scan through a real API client against a local fake HTTP server
+ * to check progress reporting and cancellation with partial results
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { GHLApiClient } from '../../src/clients/ghl-api-client.js';
+import { createToolRegistry } from '../../src/tools/tool-registry.js';
+import { ToolProgress } from '../../src/tools/tool-context.js';
+
+describe('InactivityTools', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let onRequest: (url: URL) => number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const delayMs = onRequest(url);
+        const body = url.pathname === '/contacts/search'
+          ? { contacts: [{ id: 'contact_1' }, { id: 'contact_2' }, { id: 'contact_3' }], total: 3 }
+          : { conversations: [], events: [], notes: [], tasks: [] };
+        setTimeout(() => {
+          if (res.destroyed) return;
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(body));
+        }, delayMs);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    onRequest = () => 0;
+  });
+
+  const createRegistry = () => createToolRegistry(new GHLApiClient({
+    accessToken: 'inactivity_test_token',
+    baseUrl,
+    version: '2021-07-28',
+    locationId: 'inactivity_location',
+    timeout: 5000
+  }));
+
+  it('should report progress for every contact checked', async () => {
+    const updates: ToolProgress[] = [];
+
+    const result = await createRegistry().execute('detect_contacts_inactivity', { inactivityDays: 30 }, {
+      reportProgress: update => updates.push(update)
+    });
+
+    expect(result).toMatchObject({ totalContactsChecked: 3, inactiveCount: 3, stoppedEarly: false });
+    expect(updates.map(update => [update.progress, update.total])).toEqual([[1, 3], [2, 3], [3, 3]]);
+    expect(updates[2].message).toBe('Checked 3/3 contacts, 3 inactive');
+  });
+
+  it('should keep stdout free for the MCP stream while scanning', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const write = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    try {
+      await createRegistry().execute('detect_contacts_inactivity', { inactivityDays: 30 });
+
+      expect(log).not.toHaveBeenCalled();
+      expect(write).not.toHaveBeenCalled();
+    } finally {
+      log.mockRestore();
+      write.mockRestore();
+    }
+  });
+
+  it('should stop between contacts when cancelled and return the contacts checked so far', async () => {
+    const controller = new AbortController();
+
+    const result = await createRegistry().execute('detect_contacts_inactivity', { inactivityDays: 30 }, {
+      signal: controller.signal,
+      reportProgress: () => controller.abort()
+    });
+
+    expect(result).toMatchObject({ totalContactsChecked: 1, inactiveCount: 1, stoppedEarly: true });
+    expect(result.inactiveContacts.map((contact: { id: string }) => contact.id)).toEqual(['contact_1']);
+    expect(result.errors).toEqual(['Stopped early: Cancelled by the client']);
+  });
+
+  it('should abort the request in flight and leave the half-checked contact out', async () => {
+    const controller = new AbortController();
+    onRequest = url => {
+      if (url.searchParams.get('contactId') === 'contact_2') {
+        controller.abort();
+        return 1000;
+      }
+      return 0;
+    };
+
+    const started = Date.now();
+    const result = await createRegistry().execute('detect_contacts_inactivity', { inactivityDays: 30 }, { signal: controller.signal });
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(result).toMatchObject({ totalContactsChecked: 1, inactiveCount: 1, stoppedEarly: true });
+    expect(result.errors).toEqual(['Stopped early: Cancelled by the client']);
+  });
+
+  it('should resume from a job checkpoint, skipping the contacts already checked', async () => {
+    const checkedContacts: string[] = [];
+    onRequest = url => {
+      const contactId = url.searchParams.get('contactId');
+      if (contactId && !checkedContacts.includes(contactId)) checkedContacts.push(contactId);
+      return 0;
+    };
+
+    const result = await createRegistry().execute('detect_contacts_inactivity', { inactivityDays: 30 }, {
+      checkpoint: {
+        since: new Date().toISOString(),
+        checkedContactIds: ['contact_1', 'contact_2'],
+        inactiveContacts: [{ id: 'contact_1', daysInactive: 30 }],
+        errors: []
+      },
+      saveCheckpoint: async () => undefined
+    });
+
+    expect(checkedContacts).toEqual(['contact_3']);
+    expect(result).toMatchObject({ totalContactsChecked: 3, inactiveCount: 2, stoppedEarly: false });
+    expect(result.inactiveContacts.map((contact: { id: string }) => contact.id)).toEqual(['contact_1', 'contact_3']);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Unit Tests for phone number normalization
+ * Tests E.164 formatting against the numbering plans and the location's country as default region
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { analyzePhoneNumber, PhoneNumberNormalizer } from '../../src/tools/phone-numbers.js';
+import { ToolValidationError } from '../../src/tools/tool-validation.js';
+
+describe('analyzePhoneNumber', () => {
+  it('should read national numbers in the default country', () => {
+    expect(analyzePhoneNumber('012-345 6789', 'MY')).toMatchObject({
+      valid: true,
+      e164: '+60123456789',
+      country: 'MY',
+      countryCallingCode: '+60',
+      type: 'mobile',
+      canReceiveMessages: true
+    });
+    expect(analyzePhoneNumber('0412 345 678', 'AU')).toMatchObject({ valid: true, e164: '+61412345678', type: 'mobile' });
+  });
+
+  it('should flag landlines as unable to receive messages', () => {
+    expect(analyzePhoneNumber('(02) 9374 4000', 'AU')).toMatchObject({
+      valid: true,
+      e164: '+61293744000',
+      type: 'fixed_line',
+      canReceiveMessages: false
+    });
+  });
+
+  it('should keep the country of international numbers', () => {
+    expect(analyzePhoneNumber('+44 20 7946 0958', 'MY')).toMatchObject({ valid: true, e164: '+442079460958', country: 'GB' });
+  });
+
+  it('should not guess a country for national numbers', () => {
+    const info = analyzePhoneNumber('0123456789');
+
+    expect(info.valid).toBe(false);
+    expect(info.e164).toBeUndefined();
+    expect(info.reason).toContain('no country code');
+  });
+
+  it('should explain why a number is invalid', () => {
+    expect(analyzePhoneNumber('5551234', 'US')).toMatchObject({ valid: false, type: 'unknown', reason: 'is too short for US' });
+    expect(analyzePhoneNumber('call me', 'US')).toMatchObject({ valid: false, reason: 'is not a phone number' });
+  });
+});
+
+describe('PhoneNumberNormalizer', () => {
+  let getLocationById: jest.Mock<(locationId: string) => Promise<unknown>>;
+  let normalizer: PhoneNumberNormalizer;
+
+  beforeEach(() => {
+    getLocationById = jest.fn(async () => ({ success: true, data: { location: { id: 'loc_1', country: 'MY' } } }));
+    normalizer = new PhoneNumberNormalizer({ getConfig: () => ({ locationId: 'loc_1' }), getLocationById } as any);
+  });
+
+  it('should use the location\'s country, looked up once', async () => {
+    expect(await normalizer.normalize('create_contact', 'phone', '012-345 6789')).toBe('+60123456789');
+    expect(await normalizer.normalize('create_contact', 'phone', '03-2161 1111')).toBe('+60321611111');
+
+    expect(getLocationById).toHaveBeenCalledTimes(1);
+    expect(getLocationById).toHaveBeenCalledWith('loc_1');
+  });
+
+  it('should not look up the location for international numbers', async () => {
+    expect(await normalizer.normalize('create_contact', 'phone', '+61 412 345 678')).toBe('+61412345678');
+    expect(getLocationById).not.toHaveBeenCalled();
+  });
+
+  it('should prefer an explicit country', async () => {
+    expect((await normalizer.analyze('0412 345 678', 'AU')).e164).toBe('+61412345678');
+    expect(getLocationById).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid numbers as invalid tool arguments', async () => {
+    const error = await normalizer.normalize('upsert_contact', 'phone', '012').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ToolValidationError);
+    expect(error.toolName).toBe('upsert_contact');
+    expect(error.issues).toEqual([{ field: 'phone', message: 'is too short for MY (got "012")' }]);
+  });
+
+  it('should reject landlines for messaging', async () => {
+    await expect(normalizer.normalize('start_sms_verification', 'phone', '03-2161 1111', { messaging: true }))
+      .rejects.toThrow('phone is a fixed line number and cannot receive messages');
+  });
+
+  it('should retry the location lookup after a failure', async () => {
+    getLocationById.mockRejectedValueOnce(new Error('GHL API unavailable'));
+
+    await expect(normalizer.normalize('create_contact', 'phone', '012-345 6789')).rejects.toThrow('no country code');
+    expect(await normalizer.normalize('create_contact', 'phone', '012-345 6789')).toBe('+60123456789');
+    expect(getLocationById).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit Tests for Search Tools
+ * Tests the ChatGPT connector "search" and "fetch" tools
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { SearchTools } from '../../src/tools/search-tools.js';
+import { MockGHLApiClient, mockContact, mockOpportunity } from '../mocks/ghl-api-client.mock.js';
+
+describe('SearchTools', () => {
+  let searchTools: SearchTools;
+  let mockGhlClient: MockGHLApiClient;
+
+  beforeEach(() => {
+    mockGhlClient = new MockGHLApiClient();
+    searchTools = new SearchTools(mockGhlClient as any, 'https://app.example.com');
+  });
+
+  describe('getToolDefinitions', () => {
+    it('should define exactly the search and fetch tools', () => {
+      const tools = searchTools.getToolDefinitions();
+
+      expect(tools.map(tool => tool.name)).toEqual(['search', 'fetch']);
+      expect(tools[0].inputSchema.required).toEqual(['query']);
+      expect(tools[1].inputSchema.required).toEqual(['id']);
+    });
+  });
+
+  describe('search', () => {
+    it('should merge results from every source with typed IDs and links', async () => {
+      const result = await searchTools.executeTool('search', { query: 'john' });
+      const ids = result.results.map((item: any) => item.id);
+
+      expect(ids).toEqual(expect.arrayContaining([
+        'contact:contact_123',
+        'conversation:conv_123',
+        'opportunity:opp_123',
+        'blog:blog_123:post_123',
+        'object:custom_objects.pets:record_123'
+      ]));
+      result.results.forEach((item: any) => {
+        expect(Object.keys(item).sort()).toEqual(['id', 'text', 'title', 'url']);
+        expect(item.url).toMatch(/^https:\/\//);
+      });
+      expect(result.results.find((item: any) => item.id === 'contact:contact_123').url)
+        .toBe('https://app.example.com/v2/location/test_location_123/contacts/detail/contact_123');
+    });
+
+    it('should rank the best title match first', async () => {
+      const result = await searchTools.executeTool('search', { query: 'Website Redesign' });
+
+      expect(result.results[0].id).toBe('opportunity:opp_123');
+    });
+
+    it('should match phone numbers regardless of formatting', async () => {
+      const result = await searchTools.executeTool('search', { query: '(555) 123-4567' });
+
+      expect(result.results[0].id).toBe('contact:contact_123');
+    });
+
+    it('should respect the limit', async () => {
+      const result = await searchTools.executeTool('search', { query: 'john', limit: 2 });
+
+      expect(result.results).toHaveLength(2);
+    });
+
+    it('should skip a failing source instead of failing the search', async () => {
+      jest.spyOn(mockGhlClient, 'searchConversations').mockRejectedValue(new Error('GHL API Error (500): boom'));
+
+      const result = await searchTools.executeTool('search', { query: 'john' });
+      const ids = result.results.map((item: any) => item.id);
+
+      expect(ids).toContain('contact:contact_123');
+      expect(ids).not.toContain('conversation:conv_123');
+    });
+
+    it('should require a query', async () => {
+      await expect(searchTools.executeTool('search', { query: '  ' })).rejects.toThrow('query is required');
+    });
+  });
+
+  describe('fetch', () => {
+    it('should render a contact as text', async () => {
+      const result = await searchTools.executeTool('fetch', { id: 'contact:contact_123' });
+
+      expect(result.id).toBe('contact:contact_123');
+      expect(result.title).toBe(mockContact.name);
+      expect(result.text).toContain(`Email: ${mockContact.email}`);
+      expect(result.url).toContain('/contacts/detail/contact_123');
+    });
+
+    it('should render a conversation with its transcript', async () => {
+      const result = await searchTools.executeTool('fetch', { id: 'conversation:conv_123' });
+
+      expect(result.title).toBe('Conversation with John Doe');
+      expect(result.text).toContain('Test SMS message');
+    });
+
+    it('should render an opportunity', async () => {
+      const result = await searchTools.executeTool('fetch', { id: 'opportunity:opp_123' });
+
+      expect(result.title).toBe(mockOpportunity.name);
+      expect(result.text).toContain('Value: 5000');
+    });
+
+    it('should find a blog post by paging through its blog', async () => {
+      const result = await searchTools.executeTool('fetch', { id: 'blog:blog_123:post_123' });
+
+      expect(result.title).toBe('Test Blog Post');
+      expect(result.text).toContain('Test Content');
+      expect(result.text).not.toContain('<h1>');
+    });
+
+    it('should render a custom object record titled by its display property', async () => {
+      const result = await searchTools.executeTool('fetch', { id: 'object:custom_objects.pets:record_123' });
+
+      expect(result.title).toBe('Rex');
+      expect(result.text).toContain('breed: Labrador');
+    });
+
+    it('should reject untyped or unknown IDs', async () => {
+      await expect(searchTools.executeTool('fetch', { id: 'contact_123' })).rejects.toThrow('Invalid id');
+      await expect(searchTools.executeTool('fetch', { id: 'invoice:inv_1' })).rejects.toThrow('Invalid id');
+    });
+
+    it('should propagate API errors', async () => {
+      await expect(searchTools.executeTool('fetch', { id: 'contact:not_found' })).rejects.toThrow('Contact not found');
+    });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Unit Tests for the tool call context
+ * Tests progress notification throttling and the context built from SDK request handler extras
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import { progressNotifier, toolCallContext } from '../../src/tools/tool-context.js';
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('progressNotifier', () => {
+  it('should send at most one update per interval, but always the final one', async () => {
+    const sent: ServerNotification[] = [];
+    const report = progressNotifier(notification => sent.push(notification), 'token_1', 60000);
+
+    report({ progress: 1, total: 3, message: 'Checked 1/3 contacts' });
+    report({ progress: 2, total: 3 });
+    report({ progress: 3, total: 3, message: 'Checked 3/3 contacts' });
+    await flush();
+
+    expect(sent).toEqual([
+      { method: 'notifications/progress', params: { progressToken: 'token_1', progress: 1, total: 3, message: 'Checked 1/3 contacts' } },
+      { method: 'notifications/progress', params: { progressToken: 'token_1', progress: 3, total: 3, message: 'Checked 3/3 contacts' } }
+    ]);
+  });
+
+  it('should not throw when sending fails', async () => {
+    const report = progressNotifier(() => Promise.reject(new Error('closed')), 7);
+
+    expect(() => report({ progress: 1 })).not.toThrow();
+    await flush();
+  });
+});
+
+describe('toolCallContext', () => {
+  const extra = (meta?: Record<string, unknown>) => ({
+    signal: new AbortController().signal,
+    requestId: 1,
+    sendNotification: jest.fn(async (_notification: ServerNotification) => undefined),
+    sendRequest: jest.fn(),
+    ...(meta && { _meta: meta })
+  }) as any;
+
+  it('should report progress only when the client sent a progressToken', async () => {
+    const withToken = extra({ progressToken: 42 });
+    const withoutToken = extra();
+
+    toolCallContext(withToken).reportProgress!({ progress: 1, total: 2 });
+    await flush();
+
+    expect(withToken.sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/progress',
+      params: { progressToken: 42, progress: 1, total: 2 }
+    });
+    expect(toolCallContext(withoutToken).reportProgress).toBeUndefined();
+    expect(toolCallContext(withoutToken).signal).toBe(withoutToken.signal);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit Tests for tool error mapping
+ * Tests how GHL API errors are turned into JSON-RPC errors and isError tool results
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { mapToolError, GHL_ERROR_CODES, TOOL_PERMISSION_DENIED_CODE } from '../../src/tools/tool-errors.js';
+import { ToolPermissionError } from '../../src/tools/tool-permissions.js';
+import { ToolValidationError } from '../../src/tools/tool-validation.js';
+import {
+  GHLAuthError,
+  GHLNotFoundError,
+  GHLRateLimitError,
+  GHLValidationError
+} from '../../src/clients/ghl-api-error.js';
+
+const parseResult = (response: ReturnType<typeof mapToolError>) => {
+  if (response.kind !== 'result') {
+    throw new Error('Expected a tool result');
+  }
+  expect(response.result.isError).toBe(true);
+  return JSON.parse((response.result.content[0] as { text: string }).text).error;
+};
+
+describe('mapToolError', () => {
+  it('should report GHL validation errors as InvalidParams with the field details', () => {
+    const error = new GHLValidationError('GHL API Error (422): email must be an email', {
+      status: 422,
+      endpoint: 'POST /contacts/',
+      validationErrors: [{ field: 'email', message: 'email must be an email' }]
+    });
+
+    const response = mapToolError(error);
+
+    expect(response).toEqual({
+      kind: 'error',
+      code: ErrorCode.InvalidParams,
+      message: 'GHL API Error (422): email must be an email',
+      data: {
+        type: 'validation',
+        status: 422,
+        endpoint: 'POST /contacts/',
+        validationErrors: [{ field: 'email', message: 'email must be an email' }]
+      }
+    });
+  });
+
+  it('should report auth errors as a JSON-RPC error', () => {
+    const response = mapToolError(new GHLAuthError('GHL API Error (401): Invalid JWT', { status: 401 }));
+
+    expect(response.kind).toBe('error');
+    expect(response.kind === 'error' && response.code).toBe(GHL_ERROR_CODES.auth);
+  });
+
+  it('should return not-found errors as an isError result the model can read', () => {
+    const error = new GHLNotFoundError('GHL API Error (404): Contact not found', {
+      status: 404,
+      endpoint: 'GET /contacts/missing',
+      requestId: 'req_1'
+    });
+
+    expect(parseResult(mapToolError(error))).toEqual({
+      code: GHL_ERROR_CODES.not_found,
+      message: 'GHL API Error (404): Contact not found',
+      type: 'not_found',
+      status: 404,
+      endpoint: 'GET /contacts/missing',
+      requestId: 'req_1'
+    });
+  });
+
+  it('should tell the model how long to wait on rate-limit errors', () => {
+    const error = new GHLRateLimitError('GHL API Error (429): Too many requests', { status: 429, retryAfterMs: 5000 });
+
+    expect(parseResult(mapToolError(error))).toMatchObject({ type: 'rate_limit', retryAfterMs: 5000 });
+  });
+
+  it('should report denied tools as JSON-RPC errors', () => {
+    expect(mapToolError(new ToolPermissionError('delete_contact'))).toEqual({
+      kind: 'error',
+      code: TOOL_PERMISSION_DENIED_CODE,
+      message: 'Tool "delete_contact" is not permitted for this credential',
+      data: { type: 'permission_denied', tool: 'delete_contact' }
+    });
+  });
+
+  it('should report invalid tool arguments as InvalidParams listing every violation', () => {
+    const issues = [{ field: 'contactId', message: 'is required' }, { field: 'limit', message: 'must be at most 100' }];
+
+    expect(mapToolError(new ToolValidationError('search_contacts', issues))).toEqual({
+      kind: 'error',
+      code: ErrorCode.InvalidParams,
+      message: 'Invalid arguments for tool "search_contacts": contactId is required; limit must be at most 100',
+      data: { type: 'invalid_arguments', tool: 'search_contacts', validationErrors: issues }
+    });
+  });
+
+  it('should return other errors as isError results', () => {
+    expect(parseResult(mapToolError(new Error('query is required')))).toEqual({
+      type: 'tool_error',
+      message: 'query is required'
+    });
+  });
+});
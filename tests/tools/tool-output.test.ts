@@ -0,0 +1,99 @@
+/**
+ * Unit Tests for tool output
+ * Tests structured content, text summaries and that results match the declared output schemas
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  summarizeResult,
+  toStructuredContent,
+  toToolResult,
+  toolTextOutputFromEnv
+} from '../../src/tools/tool-output.js';
+import { createToolRegistry } from '../../src/tools/tool-registry.js';
+import { MockGHLApiClient } from '../mocks/ghl-api-client.mock.js';
+
+describe('toStructuredContent', () => {
+  it('should keep objects and wrap everything else in an object', () => {
+    expect(toStructuredContent({ id: 'a' })).toEqual({ id: 'a' });
+    expect(toStructuredContent([{ id: 'a' }])).toEqual({ items: [{ id: 'a' }] });
+    expect(toStructuredContent(null)).toEqual({ result: null });
+    expect(toStructuredContent(undefined)).toEqual({});
+  });
+});
+
+describe('summarizeResult', () => {
+  it('should prefer the message of the result', () => {
+    expect(summarizeResult({ success: true, calendars: [{}, {}], message: 'Retrieved 2 calendars' })).toBe('Retrieved 2 calendars');
+  });
+
+  it('should describe lists and identifying fields otherwise', () => {
+    expect(summarizeResult({ contacts: [{}, {}, {}], total: 40 })).toBe('3 contacts, total: 40');
+    expect(summarizeResult({ id: 'contact_1', email: 'john@example.com', tags: ['vip'] })).toBe('id: contact_1, email: john@example.com, 1 tags');
+    expect(summarizeResult({ success: false })).toBe('Failed');
+    expect(summarizeResult({})).toBe('Done');
+  });
+});
+
+describe('toToolResult', () => {
+  it('should return structured content with a one-line summary', () => {
+    const result = toToolResult([{ id: 'task_1' }], 'summary');
+
+    expect(result.structuredContent).toEqual({ items: [{ id: 'task_1' }] });
+    expect(result.content).toEqual([{ type: 'text', text: '1 items' }]);
+  });
+
+  it('should put compact JSON in the text block in json mode', () => {
+    const result = toToolResult({ success: true, id: 'a' }, 'json');
+
+    expect(result.content).toEqual([{ type: 'text', text: '{"success":true,"id":"a"}' }]);
+  });
+
+  it('should pass through results that are already tool results', () => {
+    const formatted = { content: [{ type: 'text' as const, text: '**Product Created**' }], structuredContent: { _id: 'p1' } };
+
+    expect(toToolResult(formatted)).toBe(formatted);
+  });
+
+  it('should read the text output from the environment', () => {
+    expect(toolTextOutputFromEnv({ MCP_TOOL_TEXT: 'json' })).toBe('json');
+    expect(toolTextOutputFromEnv({})).toBe('summary');
+  });
+});
+
+describe('output schemas', () => {
+  // The SDK client validates structuredContent against the outputSchema from tools/list
+  async function connectClient(): Promise<Client> {
+    const registry = createToolRegistry(new MockGHLApiClient() as any);
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: registry.getDefinitions() }));
+    server.setRequestHandler(CallToolRequestSchema, async (request) =>
+      registry.call(request.params.name, request.params.arguments || {}));
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+    await client.listTools();
+    return client;
+  }
+
+  it('should return structured content that matches the declared schema', async () => {
+    const client = await connectClient();
+
+    const contact = await client.callTool({ name: 'get_contact', arguments: { contactId: 'contact_123' } });
+    const search = await client.callTool({ name: 'search_contacts', arguments: { query: 'john' } });
+    const conversation = await client.callTool({ name: 'get_conversation', arguments: { conversationId: 'conv_123' } });
+    const posts = await client.callTool({ name: 'get_blog_posts', arguments: { blogId: 'blog_123' } });
+
+    expect(contact.structuredContent).toMatchObject({ id: 'contact_123' });
+    expect(search.structuredContent).toHaveProperty('contacts');
+    expect(conversation.structuredContent).toMatchObject({ success: true, conversation: { id: 'conv_123' } });
+    expect(posts.structuredContent).toHaveProperty('posts');
+    await client.close();
+  });
+});
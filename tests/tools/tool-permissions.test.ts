@@ -0,0 +1,84 @@
+/**
+ * Unit Tests for tool permissions
+ * Tests category, glob and deny patterns, credential permissions and the read-only mode
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  ToolPolicy,
+  parsePermissionList,
+  toolPolicyFromEnv,
+  validatePermissions
+} from '../../src/tools/tool-permissions.js';
+
+const getContact = { name: 'get_contact', category: 'contacts', readOnly: true };
+const deleteContact = { name: 'delete_contact', category: 'contacts', readOnly: false };
+const createAppointment = { name: 'create_appointment', category: 'calendar', readOnly: false };
+const getCalendars = { name: 'get_calendars', category: 'calendar', readOnly: true };
+const voidInvoice = { name: 'void_invoice', category: 'invoices', readOnly: false };
+
+describe('ToolPolicy', () => {
+  it('should allow every tool without patterns', () => {
+    const policy = new ToolPolicy();
+
+    expect([getContact, deleteContact, voidInvoice].every(entry => policy.allows(entry))).toBe(true);
+  });
+
+  it('should scope categories by read and write access', () => {
+    const policy = new ToolPolicy({ permissions: ['contacts:read', 'calendar:*'] });
+
+    expect(policy.allows(getContact)).toBe(true);
+    expect(policy.allows(deleteContact)).toBe(false);
+    expect(policy.allows(createAppointment)).toBe(true);
+    expect(policy.allows(getCalendars)).toBe(true);
+    expect(policy.allows(voidInvoice)).toBe(false);
+  });
+
+  it('should let deny patterns override allow patterns', () => {
+    const policy = new ToolPolicy({ permissions: ['*', '!*delete*'] });
+
+    expect(policy.allows(getContact)).toBe(true);
+    expect(policy.allows(deleteContact)).toBe(false);
+  });
+
+  it('should allow everything not denied when only deny patterns are given', () => {
+    const policy = new ToolPolicy({ permissions: ['!invoices:write'] });
+
+    expect(policy.allows(createAppointment)).toBe(true);
+    expect(policy.allows(voidInvoice)).toBe(false);
+  });
+
+  it('should require tools to pass both the server and the credential permissions', () => {
+    const policy = new ToolPolicy({ permissions: ['!*delete*'], credentialPermissions: ['*'] });
+    const narrowed = new ToolPolicy({ permissions: ['contacts:*', 'calendar:*'], credentialPermissions: ['contacts:*', 'invoices:*'] });
+
+    expect(policy.allows(getContact)).toBe(true);
+    expect(policy.allows(deleteContact)).toBe(false);
+    expect(narrowed.allows(deleteContact)).toBe(true);
+    expect(narrowed.allows(getCalendars)).toBe(false);
+    expect(narrowed.allows(voidInvoice)).toBe(false);
+  });
+
+  it('should hide mutating tools in read-only mode whatever the patterns allow', () => {
+    const policy = new ToolPolicy({ permissions: ['contacts:*'], readOnly: true });
+
+    expect(policy.allows(getContact)).toBe(true);
+    expect(policy.allows(deleteContact)).toBe(false);
+  });
+});
+
+describe('permission parsing', () => {
+  it('should reject malformed patterns', () => {
+    expect(() => validatePermissions(['contacts:delete'])).toThrow('access must be read, write or *');
+    expect(() => validatePermissions(['!'])).toThrow('Invalid tool permission "!"');
+    expect(() => validatePermissions(['contacts:read', 'get_*', '!*delete*'])).not.toThrow();
+  });
+
+  it('should read the policy from the environment', () => {
+    expect(toolPolicyFromEnv({ MCP_TOOL_PERMISSIONS: 'contacts:read, calendar:*  !*delete*', READ_ONLY: 'true' })).toEqual({
+      permissions: ['contacts:read', 'calendar:*', '!*delete*'],
+      readOnly: true
+    });
+    expect(parsePermissionList(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Unit Tests for Tool Registry
+ * Tests registration, validation and routing shared by every transport
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ToolRegistry, createToolRegistry } from '../../src/tools/tool-registry.js';
+import { ToolPermissionError, ToolPolicy } from '../../src/tools/tool-permissions.js';
+import { ToolValidationError } from '../../src/tools/tool-validation.js';
+import { MockGHLApiClient } from '../mocks/ghl-api-client.mock.js';
+
+const definition = (name: string): Tool => ({
+  name,
+  description: `Test tool ${name}`,
+  inputSchema: { type: 'object', properties: {} }
+});
+
+describe('ToolRegistry', () => {
+  let registry: ToolRegistry;
+
+  beforeEach(() => {
+    registry = new ToolRegistry();
+  });
+
+  describe('registerCategory', () => {
+    it('should register every definition with its handler and category', async () => {
+      registry.registerCategory('test', [definition('tool_a'), definition('tool_b')], {
+        tool_a: async (args) => ({ tool: 'a', args }),
+        tool_b: async () => ({ tool: 'b' })
+      });
+
+      expect(registry.size).toBe(2);
+      expect(registry.get('tool_a')?.category).toBe('test');
+      expect(registry.getDefinitions().map(tool => tool.name)).toEqual(['tool_a', 'tool_b']);
+      await expect(registry.execute('tool_a', { id: 1 })).resolves.toEqual({ tool: 'a', args: { id: 1 } });
+    });
+
+    it('should fail on definitions without a handler', () => {
+      expect(() =>
+        registry.registerCategory('test', [definition('tool_a'), definition('tool_b')], {
+          tool_a: async () => ({})
+        })
+      ).toThrow('Tool definitions without a handler in "test": tool_b');
+    });
+
+    it('should fail on duplicate tool names across categories', () => {
+      registry.registerCategory('first', [definition('tool_a')], { tool_a: async () => ({}) });
+
+      expect(() =>
+        registry.registerCategory('second', [definition('tool_a')], { tool_a: async () => ({}) })
+      ).toThrow('Duplicate tool name "tool_a" (registered by "first" and "second")');
+    });
+  });
+
+  describe('execute', () => {
+    it('should throw for unknown tools', async () => {
+      await expect(registry.execute('unknown_tool', {})).rejects.toThrow('Unknown tool: unknown_tool');
+    });
+
+    it('should pass an empty object when arguments are missing', async () => {
+      registry.registerCategory('test', [definition('tool_a')], { tool_a: async (args) => args });
+
+      await expect(registry.execute('tool_a', undefined)).resolves.toEqual({});
+    });
+
+    it('should reject arguments that break the input schema without calling the handler', async () => {
+      let called = false;
+      registry.registerCategory('test', [{
+        name: 'tool_a',
+        inputSchema: { type: 'object', properties: { email: { type: 'string', format: 'email' } }, required: ['contactId'] }
+      }], { tool_a: async () => { called = true; } });
+
+      const error = await registry.execute('tool_a', { email: 'nope' }).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(ToolValidationError);
+      expect(error.issues).toEqual([
+        { field: 'contactId', message: 'is required' },
+        { field: 'email', message: 'must be an email address' }
+      ]);
+      expect(called).toBe(false);
+    });
+  });
+
+  describe('call', () => {
+    it('should return the handler result as structured content with a summary', async () => {
+      registry.registerCategory('test', [definition('tool_a')], {
+        tool_a: async () => ({ success: true, id: 'a', message: 'Found a' })
+      });
+
+      await expect(registry.call('tool_a', {})).resolves.toEqual({
+        content: [{ type: 'text', text: 'Found a' }],
+        structuredContent: { success: true, id: 'a', message: 'Found a' }
+      });
+    });
+
+    it('should honour the text output of the category', async () => {
+      registry.registerCategory('test', [definition('tool_a')], { tool_a: async () => ({ id: 'a' }) }, { textOutput: 'json' });
+
+      const result = await registry.call('tool_a', {});
+
+      expect(result.content).toEqual([{ type: 'text', text: '{"id":"a"}' }]);
+    });
+  });
+
+  describe('policy', () => {
+    beforeEach(() => {
+      registry = new ToolRegistry(new ToolPolicy({ permissions: ['!delete_*'] }));
+      registry.registerCategory('test', [definition('get_item'), definition('delete_item')], {
+        get_item: async () => ({ ok: true }),
+        delete_item: async () => ({ deleted: true })
+      });
+    });
+
+    it('should hide denied tools from the definitions', () => {
+      expect(registry.getDefinitions().map(tool => tool.name)).toEqual(['get_item']);
+      expect(registry.isAllowed('delete_item')).toBe(false);
+      expect(registry.has('delete_item')).toBe(true);
+    });
+
+    it('should refuse to execute denied tools', async () => {
+      await expect(registry.execute('delete_item', {})).rejects.toBeInstanceOf(ToolPermissionError);
+      await expect(registry.execute('get_item', {})).resolves.toEqual({ ok: true });
+    });
+
+    it('should treat only tools annotated with readOnlyHint as read-only', () => {
+      const readOnlyRegistry = new ToolRegistry(new ToolPolicy({ readOnly: true }));
+      readOnlyRegistry.registerCategory('test', [
+        { ...definition('get_and_archive'), annotations: { readOnlyHint: false } },
+        { ...definition('run_report'), annotations: { readOnlyHint: true } },
+        definition('get_unannotated')
+      ], {
+        get_and_archive: async () => ({}),
+        run_report: async () => ({}),
+        get_unannotated: async () => ({})
+      });
+
+      expect(readOnlyRegistry.getDefinitions().map(tool => tool.name)).toEqual(['run_report']);
+    });
+  });
+
+  describe('createToolRegistry', () => {
+    it('should register every tool class without duplicates or missing handlers', () => {
+      const fullRegistry = createToolRegistry(new MockGHLApiClient() as any);
+      const counts = fullRegistry.getCategoryCounts();
+
+      expect(fullRegistry.size).toBe(fullRegistry.getDefinitions().length);
+      expect(Object.keys(counts)).toEqual(expect.arrayContaining([
+        'contacts', 'conversations', 'calendar', 'products', 'payments', 'invoices', 'search'
+      ]));
+      expect(fullRegistry.has('list_orders')).toBe(true);
+      expect(fullRegistry.has('list_invoices')).toBe(true);
+      expect(fullRegistry.has('search')).toBe(true);
+      expect(fullRegistry.has('fetch')).toBe(true);
+    });
+
+    it('should annotate every tool with a title and all behaviour hints', () => {
+      const fullRegistry = createToolRegistry(new MockGHLApiClient() as any);
+      const incomplete = fullRegistry.getDefinitions()
+        .filter(tool => {
+          const annotations = tool.annotations;
+          return !annotations?.title ||
+            (['readOnlyHint', 'destructiveHint', 'idempotentHint', 'openWorldHint'] as const)
+              .some(hint => typeof annotations[hint] !== 'boolean');
+        })
+        .map(tool => tool.name);
+
+      expect(incomplete).toEqual([]);
+    });
+
+    it('should declare an object output schema for every tool', () => {
+      const fullRegistry = createToolRegistry(new MockGHLApiClient() as any);
+      const undeclared = fullRegistry.getDefinitions()
+        .filter(tool => tool.outputSchema?.type !== 'object')
+        .map(tool => tool.name);
+
+      expect(undeclared).toEqual([]);
+    });
+
+    it('should only use string formats the validator checks', () => {
+      const fullRegistry = createToolRegistry(new MockGHLApiClient() as any);
+      const formats = new Set<string>();
+      const collect = (schema: any) => {
+        if (!schema || typeof schema !== 'object') return;
+        if (typeof schema.format === 'string') formats.add(schema.format);
+        Object.values(schema.properties || {}).forEach(collect);
+        collect(schema.items);
+      };
+      fullRegistry.getDefinitions().forEach(tool => collect(tool.inputSchema));
+
+      expect([...formats].sort()).toEqual(['date', 'date-time', 'email', 'phone']);
+    });
+
+    it('should never mark a read-only tool as destructive', () => {
+      const fullRegistry = createToolRegistry(new MockGHLApiClient() as any);
+      const contradictory = fullRegistry.getDefinitions()
+        .filter(tool => tool.annotations?.readOnlyHint && tool.annotations?.destructiveHint)
+        .map(tool => tool.name);
+
+      expect(contradictory).toEqual([]);
+    });
+
+    it('should expose no mutating tools in read-only mode', () => {
+      const readOnlyRegistry = createToolRegistry(new MockGHLApiClient() as any, { readOnly: true });
+      const names = readOnlyRegistry.getDefinitions().map(tool => tool.name);
+
+      expect(names).toEqual(expect.arrayContaining(['get_contact', 'search_contacts', 'list_invoices']));
+      expect(names.some(name => /^(ghl_)?(create|update|delete|send|void|add|remove)_/.test(name))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit Tests for tool argument validation
+ * Tests required fields, types, enums, ranges and string formats against tool input schemas
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  InputSchema,
+  ToolValidationError,
+  validateAgainstSchema,
+  validateToolArguments
+} from '../../src/tools/tool-validation.js';
+
+const schema: InputSchema = {
+  type: 'object',
+  properties: {
+    contactId: { type: 'string' },
+    email: { type: 'string', format: 'email' },
+    phone: { type: 'string', format: 'phone' },
+    status: { type: 'string', enum: ['open', 'won', 'lost'] },
+    limit: { type: 'number', minimum: 1, maximum: 100 },
+    dueDate: { type: 'string', format: 'date-time' },
+    startAt: { type: 'string', format: 'date' },
+    tags: { type: 'array', items: { type: 'string' } },
+    address: {
+      type: 'object',
+      properties: { postalCode: { type: 'string', minLength: 3 } },
+      additionalProperties: false
+    }
+  },
+  required: ['contactId']
+};
+
+describe('validateAgainstSchema', () => {
+  it('should accept valid arguments', () => {
+    expect(validateAgainstSchema(schema, {
+      contactId: 'contact_1',
+      email: 'john@example.com',
+      phone: '+1 (555) 123-4567',
+      status: 'won',
+      limit: 20,
+      dueDate: '2024-01-15T10:00:00-05:00',
+      startAt: '2024-02-29',
+      tags: ['vip'],
+      address: { postalCode: '12345' }
+    })).toEqual([]);
+  });
+
+  it('should list every violation with its field', () => {
+    expect(validateAgainstSchema(schema, {
+      email: 'john@',
+      phone: 'call me',
+      status: 'pending',
+      limit: 500,
+      dueDate: 'tomorrow',
+      startAt: '2023-02-29',
+      tags: ['vip', 3],
+      address: { postalCode: '1', country: 'US' }
+    })).toEqual([
+      { field: 'contactId', message: 'is required' },
+      { field: 'email', message: 'must be an email address' },
+      { field: 'phone', message: 'must be a phone number such as +15551234567' },
+      { field: 'status', message: 'must be one of "open", "won", "lost"' },
+      { field: 'limit', message: 'must be at most 100' },
+      { field: 'dueDate', message: 'must be an ISO 8601 date or date-time such as 2024-01-15T10:00:00Z' },
+      { field: 'startAt', message: 'must be a date in YYYY-MM-DD format' },
+      { field: 'tags[1]', message: 'must be string, got integer' },
+      { field: 'address.postalCode', message: 'must be at least 3 characters' },
+      { field: 'address.country', message: 'is not a known property' }
+    ]);
+  });
+
+  it('should report type mismatches instead of checking further', () => {
+    expect(validateAgainstSchema(schema, { contactId: 'c', limit: '20' })).toEqual([
+      { field: 'limit', message: 'must be number, got string' }
+    ]);
+    expect(validateAgainstSchema(schema, 'contact_1')).toEqual([{ message: 'must be object, got string' }]);
+  });
+
+  it('should skip optional fields left null but not required ones', () => {
+    expect(validateAgainstSchema(schema, { contactId: null, email: null })).toEqual([
+      { field: 'contactId', message: 'is required' }
+    ]);
+  });
+});
+
+describe('validateToolArguments', () => {
+  it('should throw a ToolValidationError naming the tool and every problem', () => {
+    expect(() => validateToolArguments('update_contact', schema, { limit: 0 })).toThrow(
+      new ToolValidationError('update_contact', [
+        { field: 'contactId', message: 'is required' },
+        { field: 'limit', message: 'must be at least 1' }
+      ])
+    );
+    expect(() => validateToolArguments('update_contact', schema, { limit: 0 })).toThrow(
+      'Invalid arguments for tool "update_contact": contactId is required; limit must be at least 1'
+    );
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Unit Tests for the in-memory event store
+ * Tests replay after Last-Event-ID, stream isolation and the bound on stored events
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { InMemoryEventStore } from '../../src/transports/event-store.js';
+
+const notification = (n: number): JSONRPCMessage => ({ jsonrpc: '2.0', method: 'notifications/message', params: { n } });
+
+describe('InMemoryEventStore', () => {
+  let store: InMemoryEventStore;
+
+  // Replay after an event and collect what is sent
+  const replay = async (lastEventId: string) => {
+    const sent: Array<{ eventId: string; message: JSONRPCMessage }> = [];
+    const streamId = await store.replayEventsAfter(lastEventId, {
+      send: async (eventId, message) => {
+        sent.push({ eventId, message });
+      }
+    });
+    return { streamId, sent };
+  };
+
+  beforeEach(() => {
+    store = new InMemoryEventStore(5);
+  });
+
+  it('should replay the events after the last one received, in order', async () => {
+    const first = await store.storeEvent('stream_1', notification(1));
+    const second = await store.storeEvent('stream_1', notification(2));
+    const third = await store.storeEvent('stream_1', notification(3));
+
+    const { streamId, sent } = await replay(first);
+
+    expect(streamId).toBe('stream_1');
+    expect(sent).toEqual([
+      { eventId: second, message: notification(2) },
+      { eventId: third, message: notification(3) }
+    ]);
+  });
+
+  it('should only replay events of the same stream', async () => {
+    const first = await store.storeEvent('stream_1', notification(1));
+    await store.storeEvent('stream_2', notification(2));
+    const third = await store.storeEvent('stream_1', notification(3));
+
+    const { sent } = await replay(first);
+
+    expect(sent.map(event => event.eventId)).toEqual([third]);
+  });
+
+  it('should replay nothing after the latest event', async () => {
+    const last = await store.storeEvent('stream_1', notification(1));
+
+    expect(await replay(last)).toEqual({ streamId: 'stream_1', sent: [] });
+  });
+
+  it('should not resume from an unknown or evicted event', async () => {
+    const oldest = await store.storeEvent('stream_1', notification(0));
+    for (let n = 1; n <= 5; n++) {
+      await store.storeEvent('stream_1', notification(n));
+    }
+
+    expect(await replay(oldest)).toEqual({ streamId: '', sent: [] });
+    expect(await replay('stream_1_unknown')).toEqual({ streamId: '', sent: [] });
+  });
+});